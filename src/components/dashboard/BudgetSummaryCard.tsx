@@ -0,0 +1,76 @@
+import React from "react";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import type { Formatter } from "@/lib/utils/format.utils";
+import type { BudgetSummaryDTO, CategoryDTO, TagDTO } from "@/types";
+import { CategoryLabel } from "./CategoryLabel";
+
+interface BudgetSummaryCardProps {
+  summary: BudgetSummaryDTO | null;
+  categories: CategoryDTO[];
+  tags: TagDTO[];
+  formatter: Formatter;
+}
+
+/**
+ * Planned vs. budgeted vs. remaining for each budget of the current month
+ * Hidden while the user has no budgets
+ */
+export const BudgetSummaryCard = ({ summary, categories, tags, formatter }: BudgetSummaryCardProps) => {
+  if (!summary || summary.budgets.length === 0) return null;
+
+  const formatCurrency = (val: number) => formatter.currency(val, summary.currency);
+  const categoryById = new Map(categories.map((category) => [category.id, category]));
+  const tagById = new Map(tags.map((tag) => [tag.id, tag]));
+
+  return (
+    <Card className="mt-4" data-testid="budget-summary-card">
+      <CardHeader className="p-4">
+        <CardTitle className="text-lg">Budgets</CardTitle>
+        <CardDescription>Planned expenses in {format(parseISO(`${summary.month}-01`), "MMMM yyyy")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 p-4 pt-0">
+        {summary.budgets.map((status) => {
+          const category = status.category_id !== null ? categoryById.get(status.category_id) : undefined;
+          const tag = status.tag_id !== null ? tagById.get(status.tag_id) : undefined;
+          const isOver = status.overspend > 0;
+          return (
+            <div key={status.budget_id} className="space-y-1 text-sm" data-testid="budget-status">
+              <div className="flex items-center justify-between gap-2">
+                {category ? (
+                  <CategoryLabel category={category} className="min-w-0 font-medium" />
+                ) : tag ? (
+                  <span className="min-w-0 truncate font-medium">#{tag.name}</span>
+                ) : (
+                  <span className="text-muted-foreground">
+                    {status.category_id !== null ? "Unknown category" : "Unknown tag"}
+                  </span>
+                )}
+                <span className="shrink-0">
+                  {formatCurrency(status.planned)} of {formatCurrency(status.budgeted)}
+                </span>
+              </div>
+              <div className="h-2 overflow-hidden rounded-full bg-muted">
+                <div
+                  className={cn("h-full rounded-full", isOver ? "bg-rose-500" : "bg-emerald-500")}
+                  style={{ width: `${Math.min(100, (status.planned / status.budgeted) * 100)}%` }}
+                />
+              </div>
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{formatCurrency(status.spent)} settled</span>
+                {isOver ? (
+                  <span className="text-rose-600" data-testid="budget-overspend">
+                    Over by {formatCurrency(status.overspend)}
+                  </span>
+                ) : (
+                  <span>{formatCurrency(status.remaining)} remaining</span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
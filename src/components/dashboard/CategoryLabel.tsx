@@ -0,0 +1,93 @@
+import {
+  Baby,
+  Briefcase,
+  Bus,
+  Car,
+  Coffee,
+  Dog,
+  Dumbbell,
+  Film,
+  Gift,
+  GraduationCap,
+  HeartPulse,
+  House,
+  Landmark,
+  PiggyBank,
+  Plane,
+  Receipt,
+  Shirt,
+  ShoppingCart,
+  Smartphone,
+  Utensils,
+  Wrench,
+  Zap,
+  type LucideIcon,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { CategoryIcon as CategoryIconName } from "@/lib/utils/category.utils";
+import type { CategoryDTO } from "@/types";
+
+const ICONS: Record<CategoryIconName, LucideIcon> = {
+  house: House,
+  "shopping-cart": ShoppingCart,
+  utensils: Utensils,
+  coffee: Coffee,
+  car: Car,
+  bus: Bus,
+  plane: Plane,
+  "heart-pulse": HeartPulse,
+  dumbbell: Dumbbell,
+  "graduation-cap": GraduationCap,
+  baby: Baby,
+  dog: Dog,
+  shirt: Shirt,
+  film: Film,
+  gift: Gift,
+  smartphone: Smartphone,
+  zap: Zap,
+  wrench: Wrench,
+  receipt: Receipt,
+  landmark: Landmark,
+  briefcase: Briefcase,
+  "piggy-bank": PiggyBank,
+};
+
+interface CategoryIconProps {
+  category: Pick<CategoryDTO, "color" | "icon">;
+  className?: string;
+}
+
+/**
+ * The category's icon in its colour, or a dot in its colour if it has no icon
+ */
+export function CategoryIcon({ category, className }: CategoryIconProps) {
+  const Icon = category.icon ? ICONS[category.icon as CategoryIconName] : undefined;
+  if (!Icon) {
+    return (
+      <span
+        className={cn("inline-block h-2.5 w-2.5 shrink-0 rounded-full", className)}
+        style={{ backgroundColor: category.color }}
+        aria-hidden
+      />
+    );
+  }
+  return <Icon className={cn("h-3.5 w-3.5 shrink-0", className)} style={{ color: category.color }} aria-hidden />;
+}
+
+interface CategoryLabelProps {
+  category: Pick<CategoryDTO, "name" | "color" | "icon">;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+/**
+ * Category name with its icon
+ */
+export function CategoryLabel({ category, className, style }: CategoryLabelProps) {
+  return (
+    <span className={cn("inline-flex items-center gap-1.5", className)} style={style}>
+      <CategoryIcon category={category} />
+      <span className="truncate">{category.name}</span>
+    </span>
+  );
+}
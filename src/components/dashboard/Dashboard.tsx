@@ -1,27 +1,68 @@
 import React, { useState } from "react";
-import { startOfMonth, endOfMonth, format, getDay, getDate } from "date-fns";
+import { startOfMonth, endOfMonth, format, getDay, getDate, parseISO } from "date-fns";
 import { toast } from "sonner";
 import { useDashboardData } from "@/hooks/useDashboardData";
 import { useOccurrences } from "@/hooks/useOccurrences";
 import { useEntryMutations } from "@/hooks/useEntryMutations";
+import { useBalanceTimeline } from "@/hooks/useBalanceTimeline";
+import { useLowBalanceForecast } from "@/hooks/useLowBalanceForecast";
+import { useScenarios } from "@/hooks/useScenarios";
+import { useWallets } from "@/hooks/useWallets";
+import { useCategories } from "@/hooks/useCategories";
+import { useTags } from "@/hooks/useTags";
+import { useBudgetSummary } from "@/hooks/useBudgetSummary";
+import { usePreferences } from "@/hooks/usePreferences";
 import { DashboardToolbar } from "./DashboardToolbar";
-import { OccurrencesList } from "./OccurrencesList";
+import { OccurrencesList, type OccurrencesFocusRequest } from "./OccurrencesList";
+import { BudgetSummaryCard } from "./BudgetSummaryCard";
 import { ProjectionPanel } from "./projection/ProjectionPanel";
+import { BalanceChart } from "./projection/BalanceChart";
+import { ScenarioPanel } from "./projection/ScenarioPanel";
 import { StartingBalanceOnboardingModal } from "./StartingBalanceOnboardingModal";
 import { AddEditEntryDialog } from "./entries/AddEditEntryDialog";
 import { EditScopeModal } from "./entries/EditScopeModal";
 import { DeleteEntryDialog } from "./entries/DeleteEntryDialog";
-import type { DashboardFilters, EntryFormValues } from "./entries/schema";
+import { SettleOccurrenceDialog } from "./entries/SettleOccurrenceDialog";
+import { parseDaysOfMonth, type DashboardFilters, type EntryFormValues } from "./entries/schema";
+import { parseTagList } from "@/lib/utils/tag.utils";
 import type { 
   OccurrenceDTO, 
   EntrySeriesDetailDTO, 
   EditScope, 
   DeleteScope, 
-  CreateEntryCommand 
+  CreateEntryCommand,
+  BalanceTimelinePointDTO,
+  UpsertSettlementCommand,
+  UserPreferencesDTO
 } from "@/types";
 
-export const Dashboard = () => {
-  // 1. Global Dashboard Data (Projection, Balance)
+interface DashboardProps {
+  initialPreferences?: UserPreferencesDTO;
+}
+
+export const Dashboard = ({ initialPreferences }: DashboardProps) => {
+  // Today's date in the user's time zone (YYYY-MM-DD)
+  const { formatter, today } = usePreferences(initialPreferences);
+
+  // 1. Local State for Filters
+  const [filters, setFilters] = useState<DashboardFilters>({
+    dateRange: {
+      from: startOfMonth(parseISO(today)),
+      to: endOfMonth(parseISO(today)),
+    },
+    entryType: "all",
+    walletId: "all",
+    categoryId: "all",
+    tags: [],
+  });
+  const { wallets } = useWallets();
+  const { categories } = useCategories();
+  const { tags, refresh: refreshTags } = useTags();
+  const { summary: budgetSummary, refresh: refreshBudgetSummary } = useBudgetSummary();
+  // null projects all wallets consolidated
+  const walletId = filters.walletId === "all" ? null : filters.walletId;
+
+  // 2. Global Dashboard Data (Projection, Balance)
   const { 
     projection, 
     selectedDate, 
@@ -29,16 +70,7 @@ export const Dashboard = () => {
     isStartingBalanceModalOpen, 
     saveStartingBalance, 
     setProjectionDate 
-  } = useDashboardData();
-
-  // 2. Local State for Filters
-  const [filters, setFilters] = useState<DashboardFilters>({
-    dateRange: {
-      from: startOfMonth(new Date()),
-      to: endOfMonth(new Date()),
-    },
-    entryType: "all",
-  });
+  } = useDashboardData(walletId, today);
 
   // 3. Occurrences Data
   const { 
@@ -49,49 +81,157 @@ export const Dashboard = () => {
     refresh: refreshOccurrences 
   } = useOccurrences(filters);
 
-  // 4. Mutations & Modal State
+  // 4. Balance Timeline (chart over the filtered date range)
+  const {
+    timeline,
+    isLoading: isTimelineLoading,
+    error: timelineError,
+    refresh: refreshTimeline
+  } = useBalanceTimeline(filters.dateRange, projection?.date_range_limits ?? null, undefined, walletId);
+
+  const [focusRequest, setFocusRequest] = useState<OccurrencesFocusRequest | null>(null);
+
+  // Low-balance forecast over the whole projection horizon
+  const {
+    forecast: lowBalanceForecast,
+    refresh: refreshLowBalanceForecast
+  } = useLowBalanceForecast(projection !== null, walletId);
+
+  // What-if scenarios, compared against the baseline projection and chart
+  const {
+    scenarios,
+    activeScenarioId,
+    activeScenario,
+    scenarioProjection,
+    setActiveScenarioId,
+    createScenario,
+    deleteScenario,
+    applyScenario,
+    addScenarioEntry,
+    removeScenarioEntry,
+    addScenarioOverride,
+    removeScenarioOverride,
+    refresh: refreshScenario
+  } = useScenarios(selectedDate, projection !== null, walletId);
+
+  const {
+    timeline: scenarioTimeline,
+    refresh: refreshScenarioTimeline
+  } = useBalanceTimeline(filters.dateRange, projection?.date_range_limits ?? null, activeScenarioId, walletId);
+
+  // 5. Mutations & Modal State
   const { 
     createEntry, 
     updateEntry, 
     deleteEntry, 
-    fetchEntryDetails 
+    fetchEntryDetails,
+    settleOccurrence,
+    unsettleOccurrence
   } = useEntryMutations();
 
   const [isAddEditOpen, setIsAddEditOpen] = useState(false);
+  const [isScenarioEntryOpen, setIsScenarioEntryOpen] = useState(false);
   const [isScopeOpen, setIsScopeOpen] = useState(false);
   const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [settlingOccurrence, setSettlingOccurrence] = useState<OccurrenceDTO | null>(null);
 
   // State to track active interaction
   const [selectedOccurrence, setSelectedOccurrence] = useState<OccurrenceDTO | null>(null);
   const [selectedSeries, setSelectedSeries] = useState<EntrySeriesDetailDTO | null>(null);
   const [pendingFormValues, setPendingFormValues] = useState<EntryFormValues | null>(null);
 
-  // 5. Handlers
+  // 6. Handlers
 
   const refreshAll = () => {
     refreshOccurrences();
+    refreshTimeline();
+    refreshLowBalanceForecast();
+    refreshBudgetSummary();
+    refreshTags(); // Saving an entry may have created tags
+    refreshScenario();
+    refreshScenarioTimeline();
     setProjectionDate(selectedDate); // Refresh projection
   };
 
+  // Chart click: project the balance at the end of the bucket and show its occurrences
+  const handleChartPointClick = (point: BalanceTimelinePointDTO) => {
+    setProjectionDate(parseISO(point.end_date));
+    setFocusRequest({ from: point.date, to: point.end_date, requestedAt: Date.now() });
+  };
+
+  // Alert link: project the balance on that date and show its month in the chart and list
+  const handleAlertDateClick = (dateStr: string) => {
+    const localDate = parseISO(dateStr);
+    setProjectionDate(localDate);
+    const { from, to } = filters.dateRange;
+    if (!from || !to || dateStr < format(from, "yyyy-MM-dd") || dateStr > format(to, "yyyy-MM-dd")) {
+      setFilters({ ...filters, dateRange: { from: startOfMonth(localDate), to: endOfMonth(localDate) } });
+    }
+    setFocusRequest({ from: dateStr, to: dateStr, requestedAt: Date.now() });
+  };
+
   // Helper to prepare command with derived fields
   const prepareEntryCommand = (data: EntryFormValues) => {
-    // Derive weekday or day_of_month if needed
+    // Derive weekday, day_of_month or week_of_month from the start date and chosen anchor
     let weekday: number | null = null;
+    let weekdays: number[] | null = null;
     let day_of_month: number | null = null;
+    let days_of_month: number[] | null = null;
+    let week_of_month: number | null = null;
+    const isMonthBased = ["monthly", "quarterly", "yearly"].includes(data.recurrence_type);
+    const monthly_anchor = isMonthBased ? data.monthly_anchor ?? "day_of_month" : "day_of_month";
 
     if (data.recurrence_type === "weekly") {
-      weekday = getDay(data.start_date);
-    } else if (data.recurrence_type === "monthly") {
-      day_of_month = getDate(data.start_date);
+      // Several selected weekdays are sent as a set; the first one is the primary anchor
+      const selectedWeekdays = data.weekdays?.length
+        ? [...new Set(data.weekdays)].sort((a, b) => a - b)
+        : [getDay(data.start_date)];
+      weekday = selectedWeekdays[0];
+      weekdays = selectedWeekdays.length > 1 ? selectedWeekdays : null;
+    } else if (isMonthBased) {
+      switch (monthly_anchor) {
+        case "day_of_month": {
+          const parsedDays = parseDaysOfMonth(data.days_of_month) ?? [];
+          const selectedDays = parsedDays.length ? parsedDays : [getDate(data.start_date)];
+          day_of_month = selectedDays[0];
+          days_of_month = selectedDays.length > 1 ? selectedDays : null;
+          break;
+        }
+        case "nth_weekday":
+          weekday = getDay(data.start_date);
+          week_of_month = Math.ceil(getDate(data.start_date) / 7);
+          break;
+        case "last_weekday":
+          weekday = getDay(data.start_date);
+          break;
+        case "last_day":
+          break;
+      }
     }
 
     return {
       ...data,
       start_date: format(data.start_date, "yyyy-MM-dd"),
       end_date: data.end_date ? format(data.end_date, "yyyy-MM-dd") : null,
+      // The backend derives end_date for series bounded by a number of occurrences
+      occurrence_count: data.recurrence_type !== "one_time" ? data.occurrence_count ?? null : null,
       description: data.description || null,
       weekday,
+      weekdays,
       day_of_month,
+      days_of_month,
+      week_of_month,
+      monthly_anchor,
+      business_day_convention:
+        data.recurrence_type !== "one_time" ? data.business_day_convention ?? "none" : "none",
+      // One-time entries have no interval to repeat on
+      recurrence_interval: data.recurrence_type !== "one_time" ? data.recurrence_interval ?? 1 : 1,
+      // Cleared when a transfer is changed into income or expense
+      target_wallet_id: data.entry_type === "transfer" ? data.target_wallet_id : null,
+      category_id: data.category_id ?? null,
+      tags: parseTagList(data.tags ?? ""),
+      // Left out when empty, so the entry takes the wallet's currency
+      currency: data.currency?.trim() ? data.currency.trim().toUpperCase() : undefined,
     };
   };
 
@@ -115,6 +255,74 @@ export const Dashboard = () => {
     }
   };
 
+  // --- Scenario Flow ---
+  const handleScenarioCreate = async (name: string) => {
+    try {
+      await createScenario(name);
+      toast.success("Scenario created");
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to create scenario");
+    }
+  };
+
+  const handleScenarioDelete = async (id: string) => {
+    try {
+      await deleteScenario(id);
+      toast.success("Scenario deleted");
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to delete scenario");
+    }
+  };
+
+  const handleScenarioApply = async (id: string) => {
+    try {
+      const result = await applyScenario(id);
+      toast.success(
+        `Scenario applied: ${result.applied_entries} entries and ${result.applied_overrides} changes added to your plan`
+      );
+      refreshAll();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to apply scenario");
+    }
+  };
+
+  const handleScenarioEntrySubmit = async (data: EntryFormValues) => {
+    try {
+      const command: CreateEntryCommand = prepareEntryCommand(data);
+      await addScenarioEntry(command);
+      toast.success("Scenario entry added");
+      refreshScenarioTimeline();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to add scenario entry");
+      throw error;
+    }
+  };
+
+  const handleScenarioChange = async (change: () => Promise<void>, errorMessage: string) => {
+    try {
+      await change();
+      refreshScenarioTimeline();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : errorMessage);
+    }
+  };
+
+  const handleSkipInScenario = (occurrence: OccurrenceDTO) =>
+    handleScenarioChange(
+      () =>
+        addScenarioOverride({
+          series_id: occurrence.series_id,
+          exception_date: occurrence.occurrence_date,
+          exception_type: "skip",
+        }),
+      "Failed to skip occurrence in scenario"
+    );
+
   // --- Edit Flow ---
   const handleEditClick = async (occurrence: OccurrenceDTO) => {
     try {
@@ -213,6 +421,25 @@ export const Dashboard = () => {
     }
   };
 
+  // --- Settlement Flow ---
+  // Errors are shown inside the dialog, so it stays open for corrections
+  const handleSettleSubmit = async (occurrence: OccurrenceDTO, command: UpsertSettlementCommand) => {
+    await settleOccurrence(occurrence.series_id, occurrence.occurrence_date, command);
+    toast.success("Occurrence settled");
+    refreshAll();
+  };
+
+  const handleUnsettleClick = async (occurrence: OccurrenceDTO) => {
+    try {
+      await unsettleOccurrence(occurrence.series_id, occurrence.occurrence_date);
+      toast.success("Settlement removed");
+      refreshAll();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to remove settlement");
+    }
+  };
+
   return (
     <div className="relative min-h-screen bg-background">
       {/* Main Content Area */}
@@ -220,11 +447,36 @@ export const Dashboard = () => {
         <DashboardToolbar 
             dateRange={filters.dateRange}
             entryType={filters.entryType}
+            walletId={filters.walletId}
+            wallets={wallets}
+            categoryId={filters.categoryId}
+            categories={categories}
+            selectedTags={filters.tags}
+            tags={tags}
             onFilterChange={setFilters}
             onAddClick={handleAddClick}
+            formatter={formatter}
         />
 
         <div className="px-4">
+          <BalanceChart
+            timeline={timeline}
+            scenarioTimeline={activeScenarioId ? scenarioTimeline : null}
+            scenarioName={activeScenario?.name}
+            selectedDate={selectedDate}
+            isLoading={isTimelineLoading}
+            error={timelineError}
+            onPointClick={handleChartPointClick}
+            formatter={formatter}
+          />
+
+          <BudgetSummaryCard
+            summary={budgetSummary}
+            categories={categories}
+            tags={tags}
+            formatter={formatter}
+          />
+
           <OccurrencesList 
             occurrences={occurrences}
             isLoading={isListLoading}
@@ -232,6 +484,12 @@ export const Dashboard = () => {
             onLoadMore={loadMore}
             onEditClick={handleEditClick}
             onDeleteClick={handleDeleteClick}
+            onSkipInScenarioClick={activeScenarioId ? handleSkipInScenario : undefined}
+            onSettleClick={setSettlingOccurrence}
+            onUnsettleClick={handleUnsettleClick}
+            focusRequest={focusRequest}
+            formatter={formatter}
+            categories={categories}
           />
         </div>
       </main>
@@ -242,7 +500,31 @@ export const Dashboard = () => {
         selectedDate={selectedDate}
         onDateChange={setProjectionDate}
         isLoading={isProjectionLoading}
-      />
+        formatter={formatter}
+        lowBalanceForecast={lowBalanceForecast}
+        onAlertDateClick={handleAlertDateClick}
+        categories={categories}
+      >
+        <ScenarioPanel
+          scenarios={scenarios}
+          activeScenarioId={activeScenarioId}
+          activeScenario={activeScenario}
+          projection={projection}
+          scenarioProjection={scenarioProjection}
+          onSelect={setActiveScenarioId}
+          onCreate={handleScenarioCreate}
+          onDelete={handleScenarioDelete}
+          onApply={handleScenarioApply}
+          onAddEntryClick={() => setIsScenarioEntryOpen(true)}
+          onRemoveEntry={(seriesId) =>
+            handleScenarioChange(() => removeScenarioEntry(seriesId), "Failed to remove scenario entry")
+          }
+          onRemoveOverride={(overrideId) =>
+            handleScenarioChange(() => removeScenarioOverride(overrideId), "Failed to remove scenario override")
+          }
+          formatter={formatter}
+        />
+      </ProjectionPanel>
 
       {/* Modals */}
       <StartingBalanceOnboardingModal 
@@ -255,6 +537,21 @@ export const Dashboard = () => {
         onOpenChange={setIsAddEditOpen}
         initialData={selectedSeries}
         onSubmit={selectedSeries ? handleEditSubmit : handleCreateSubmit}
+        wallets={wallets}
+        defaultWalletId={walletId ?? undefined}
+        today={today}
+        categories={categories}
+      />
+
+      <AddEditEntryDialog
+        isOpen={isScenarioEntryOpen}
+        onOpenChange={setIsScenarioEntryOpen}
+        onSubmit={handleScenarioEntrySubmit}
+        scenarioName={activeScenario?.name}
+        wallets={wallets}
+        defaultWalletId={walletId ?? undefined}
+        today={today}
+        categories={categories}
       />
 
       <EditScopeModal 
@@ -269,6 +566,14 @@ export const Dashboard = () => {
         onClose={() => setIsDeleteOpen(false)}
         onConfirm={handleDeleteConfirm}
       />
+
+      <SettleOccurrenceDialog
+        occurrence={settlingOccurrence}
+        onClose={() => setSettlingOccurrence(null)}
+        onSubmit={handleSettleSubmit}
+        formatter={formatter}
+        today={today}
+      />
     </div>
   );
 };
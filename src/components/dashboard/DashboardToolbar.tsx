@@ -1,26 +1,60 @@
 import React from "react";
-import { format } from "date-fns";
-import { Calendar as CalendarIcon, Plus } from "lucide-react";
+import { Calendar as CalendarIcon, Plus, Tag } from "lucide-react";
 import { type DateRange } from "react-day-picker";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { flattenCategoryTree } from "@/lib/utils/category.utils";
+import { CategoryLabel } from "./CategoryLabel";
 import type { DashboardFilters } from "./entries/schema";
+import type { CategoryDTO, TagDTO, WalletDTO } from "@/types";
+import type { Formatter } from "@/lib/utils/format.utils";
 
 interface DashboardToolbarProps {
   dateRange: { from: Date | undefined; to: Date | undefined };
   entryType: DashboardFilters["entryType"];
+  walletId: DashboardFilters["walletId"];
+  wallets: WalletDTO[]; // The switcher is hidden while the user has a single wallet
+  categoryId: DashboardFilters["categoryId"];
+  categories: CategoryDTO[]; // The filter is hidden while the user has no categories
+  selectedTags: DashboardFilters["tags"];
+  tags: TagDTO[]; // The filter is hidden while the user has no tags
   onFilterChange: (filters: DashboardFilters) => void;
   onAddClick: () => void;
+  formatter: Formatter; // Date format and first day of week of the range picker
 }
 
-export const DashboardToolbar = ({ dateRange, entryType, onFilterChange, onAddClick }: DashboardToolbarProps) => {
+export const DashboardToolbar = ({
+  dateRange,
+  entryType,
+  walletId,
+  wallets,
+  categoryId,
+  categories,
+  selectedTags,
+  tags,
+  onFilterChange,
+  onAddClick,
+  formatter,
+}: DashboardToolbarProps) => {
   const handleDateRangeChange = (range: DateRange | undefined) => {
     onFilterChange({
       dateRange: { from: range?.from, to: range?.to },
       entryType,
+      walletId,
+      categoryId,
+      tags: selectedTags,
     });
   };
 
@@ -29,10 +63,29 @@ export const DashboardToolbar = ({ dateRange, entryType, onFilterChange, onAddCl
       onFilterChange({
         dateRange,
         entryType: value as DashboardFilters["entryType"],
+        walletId,
+        categoryId,
+        tags: selectedTags,
       });
     }
   };
 
+  const handleWalletChange = (value: string) => {
+    onFilterChange({ dateRange, entryType, walletId: value, categoryId, tags: selectedTags });
+  };
+
+  const handleCategoryChange = (value: string) => {
+    onFilterChange({ dateRange, entryType, walletId, categoryId: value, tags: selectedTags });
+  };
+
+  const handleTagsChange = (value: string[]) => {
+    onFilterChange({ dateRange, entryType, walletId, categoryId, tags: value });
+  };
+
+  const handleTagToggle = (name: string, checked: boolean) => {
+    handleTagsChange(checked ? [...selectedTags, name].sort() : selectedTags.filter((tag) => tag !== name));
+  };
+
   return (
     <div className="flex flex-col space-y-4 md:flex-row md:items-center md:justify-between md:space-y-0 p-4">
       <h2 className="text-3xl font-bold tracking-tight">Dashboard</h2>
@@ -51,10 +104,10 @@ export const DashboardToolbar = ({ dateRange, entryType, onFilterChange, onAddCl
                 {dateRange?.from ? (
                   dateRange.to ? (
                     <>
-                      {format(dateRange.from, "LLL dd, y")} - {format(dateRange.to, "LLL dd, y")}
+                      {formatter.date(dateRange.from)} - {formatter.date(dateRange.to)}
                     </>
                   ) : (
-                    format(dateRange.from, "LLL dd, y")
+                    formatter.date(dateRange.from)
                   )
                 ) : (
                   <span>Pick a date</span>
@@ -69,6 +122,7 @@ export const DashboardToolbar = ({ dateRange, entryType, onFilterChange, onAddCl
                 selected={{ from: dateRange?.from, to: dateRange?.to }}
                 onSelect={handleDateRangeChange}
                 numberOfMonths={2}
+                weekStartsOn={formatter.weekStartsOn}
               />
             </PopoverContent>
           </Popover>
@@ -88,7 +142,82 @@ export const DashboardToolbar = ({ dateRange, entryType, onFilterChange, onAddCl
             <ToggleGroupItem value="expense" aria-label="Expense only" className="h-8 px-3 text-xs">
               Expense
             </ToggleGroupItem>
+            {wallets.length > 1 && (
+              <ToggleGroupItem value="transfer" aria-label="Transfers only" className="h-8 px-3 text-xs">
+                Transfer
+              </ToggleGroupItem>
+            )}
           </ToggleGroup>
+
+          {tags.length > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  className={cn(
+                    "h-10 w-[160px] justify-start font-normal",
+                    selectedTags.length === 0 && "text-muted-foreground"
+                  )}
+                  aria-label="Tags"
+                  data-testid="tag-filter"
+                >
+                  <Tag className="mr-2 h-4 w-4 shrink-0" />
+                  <span className="truncate">{selectedTags.length === 0 ? "All tags" : selectedTags.join(", ")}</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="max-h-72 overflow-y-auto">
+                {tags.map((tag) => (
+                  <DropdownMenuCheckboxItem
+                    key={tag.id}
+                    checked={selectedTags.includes(tag.name)}
+                    onCheckedChange={(checked) => handleTagToggle(tag.name, checked)}
+                    // Keep the menu open to pick several tags
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    {tag.name}
+                  </DropdownMenuCheckboxItem>
+                ))}
+                {selectedTags.length > 0 && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onSelect={() => handleTagsChange([])}>Clear tags</DropdownMenuItem>
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
+          {wallets.length > 1 && (
+            <Select value={walletId} onValueChange={handleWalletChange}>
+              <SelectTrigger className="h-10 w-[160px]" aria-label="Wallet" data-testid="wallet-switcher">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All wallets</SelectItem>
+                {wallets.map((wallet) => (
+                  <SelectItem key={wallet.id} value={wallet.id}>
+                    {wallet.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {categories.length > 0 && (
+            <Select value={categoryId} onValueChange={handleCategoryChange}>
+              <SelectTrigger className="h-10 w-[180px]" aria-label="Category" data-testid="category-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All categories</SelectItem>
+                {flattenCategoryTree(categories).map(({ category, depth }) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    <CategoryLabel category={category} style={{ paddingLeft: `${depth}rem` }} />
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
         </div>
 
         <Button onClick={onAddClick} className="w-full sm:w-auto" data-testid="add-entry-button">
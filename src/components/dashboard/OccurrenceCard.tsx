@@ -1,6 +1,14 @@
 import React from "react";
-import { format } from "date-fns";
-import { MoreHorizontal, Pencil, Trash2, Calendar as CalendarIcon } from "lucide-react";
+import {
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+  Calendar as CalendarIcon,
+  FlaskConical,
+  CircleCheck,
+  Undo2,
+  ArrowLeftRight,
+} from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
@@ -9,17 +17,41 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import type { OccurrenceDTO } from "@/types";
+import type { CategoryDTO, OccurrenceDTO } from "@/types";
 import { cn } from "@/lib/utils";
+import type { Formatter } from "@/lib/utils/format.utils";
+import { CategoryLabel } from "./CategoryLabel";
 
 interface OccurrenceCardProps {
   occurrence: OccurrenceDTO;
   onEdit: () => void;
   onDelete: () => void;
+  onSkipInScenario?: () => void;
+  onSettle: () => void;
+  onUnsettle: () => void;
+  isHighlighted?: boolean;
+  formatter: Formatter;
+  category?: CategoryDTO; // Category of the occurrence, if it has one
 }
 
-export const OccurrenceCard = ({ occurrence, onEdit, onDelete }: OccurrenceCardProps) => {
+export const OccurrenceCard = ({
+  occurrence,
+  onEdit,
+  onDelete,
+  onSkipInScenario,
+  onSettle,
+  onUnsettle,
+  isHighlighted = false,
+  formatter,
+  category,
+}: OccurrenceCardProps) => {
   const isIncome = occurrence.entry_type === "income";
+  // Transfers move money between wallets: neither income nor expense
+  const isTransfer = occurrence.entry_type === "transfer";
+  const sign = isTransfer ? "" : isIncome ? "+" : "-";
+  const colorClass = isTransfer ? "text-sky-600" : isIncome ? "text-emerald-600" : "text-rose-600";
+  const { settlement } = occurrence;
+  const formatAmount = (amount: number) => formatter.currency(amount, occurrence.currency);
   // TODO: We might need to know if it's an exception from DTO, currently OccurrenceDTO doesn't have is_exception explicit flag unless we infer or add it.
   // Checking types.ts, OccurrenceDTO doesn't have is_exception. EntryOccurrenceDTO does.
   // The plan says "OccurrenceCard ... Visual distinction for ... Recurrence".
@@ -28,35 +60,61 @@ export const OccurrenceCard = ({ occurrence, onEdit, onDelete }: OccurrenceCardP
 
   return (
     <Card 
-      className="flex items-center justify-between p-4 hover:bg-muted/50 transition-colors"
+      className={cn(
+        "flex items-center justify-between p-4 hover:bg-muted/50 transition-colors",
+        isHighlighted && "ring-2 ring-primary"
+      )}
       data-testid="occurrence-card"
+      data-occurrence-date={occurrence.occurrence_date}
     >
       <div className="flex items-center gap-4">
         <div
           className={cn(
             "flex h-10 w-10 items-center justify-center rounded-full",
-            isIncome ? "bg-emerald-100 text-emerald-600" : "bg-rose-100 text-rose-600"
+            isTransfer ? "bg-sky-100" : isIncome ? "bg-emerald-100" : "bg-rose-100",
+            colorClass
           )}
         >
-          {isIncome ? "+" : "-"}
+          {isTransfer ? <ArrowLeftRight className="h-4 w-4" /> : sign}
         </div>
         <div className="space-y-1">
           <h4 className="font-medium leading-none" data-testid="occurrence-title">{occurrence.title}</h4>
           <div className="flex items-center text-sm text-muted-foreground">
             <CalendarIcon className="mr-1 h-3 w-3" />
-            <span>{format(new Date(occurrence.occurrence_date), "MMM d, yyyy")}</span>
+            <span>{formatter.date(occurrence.occurrence_date)}</span>
+            {occurrence.occurrence_number !== null && occurrence.occurrence_count !== null && (
+              <span className="ml-2" data-testid="occurrence-progress">
+                · {occurrence.occurrence_number} of {occurrence.occurrence_count}
+              </span>
+            )}
             {/* We could show recurrence info if available */}
+            {category && <CategoryLabel category={category} className="ml-2 max-w-[160px]" />}
           </div>
+          {occurrence.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1" data-testid="occurrence-tags">
+              {occurrence.tags.map((tag) => (
+                <span key={tag} className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+                  {tag}
+                </span>
+              ))}
+            </div>
+          )}
+          {settlement && (
+            <div className="flex items-center text-xs text-muted-foreground" data-testid="occurrence-settlement">
+              <CircleCheck className="mr-1 h-3 w-3 text-emerald-600" />
+              <span>
+                Settled {formatter.date(settlement.actual_date)} · planned {formatAmount(occurrence.amount)}
+              </span>
+            </div>
+          )}
         </div>
       </div>
 
       <div className="flex items-center gap-4">
-        <span className={cn("font-semibold", isIncome ? "text-emerald-600" : "text-rose-600")}>
-          {isIncome ? "+" : "-"}
-          {new Intl.NumberFormat("pl-PL", {
-            style: "currency",
-            currency: "PLN",
-          }).format(occurrence.amount)}
+        {/* Settled occurrences show what was actually paid or received */}
+        <span className={cn("font-semibold", colorClass)} data-testid="occurrence-amount">
+          {sign}
+          {formatAmount(settlement ? settlement.actual_amount : occurrence.amount)}
         </span>
 
         <DropdownMenu>
@@ -71,6 +129,22 @@ export const OccurrenceCard = ({ occurrence, onEdit, onDelete }: OccurrenceCardP
               <Pencil className="mr-2 h-4 w-4" />
               Edit
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={onSettle}>
+              <CircleCheck className="mr-2 h-4 w-4" />
+              {settlement ? "Edit settlement" : "Mark as settled"}
+            </DropdownMenuItem>
+            {settlement && (
+              <DropdownMenuItem onClick={onUnsettle}>
+                <Undo2 className="mr-2 h-4 w-4" />
+                Undo settlement
+              </DropdownMenuItem>
+            )}
+            {onSkipInScenario && (
+              <DropdownMenuItem onClick={onSkipInScenario}>
+                <FlaskConical className="mr-2 h-4 w-4" />
+                Skip in scenario
+              </DropdownMenuItem>
+            )}
             <DropdownMenuItem onClick={onDelete} className="text-rose-600">
               <Trash2 className="mr-2 h-4 w-4" />
               Delete
@@ -1,8 +1,9 @@
-import React from "react";
+import React, { useEffect, useRef } from "react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
 import { OccurrenceCard } from "./OccurrenceCard";
-import type { OccurrenceDTO } from "@/types";
+import type { CategoryDTO, OccurrenceDTO } from "@/types";
+import type { Formatter } from "@/lib/utils/format.utils";
 
 interface OccurrencesListProps {
   occurrences: OccurrenceDTO[];
@@ -11,6 +12,22 @@ interface OccurrencesListProps {
   onLoadMore: () => void;
   onEditClick: (occurrence: OccurrenceDTO) => void;
   onDeleteClick: (occurrence: OccurrenceDTO) => void;
+  onSkipInScenarioClick?: (occurrence: OccurrenceDTO) => void;
+  onSettleClick: (occurrence: OccurrenceDTO) => void;
+  onUnsettleClick: (occurrence: OccurrenceDTO) => void;
+  focusRequest?: OccurrencesFocusRequest | null;
+  formatter: Formatter;
+  categories?: CategoryDTO[];
+}
+
+/**
+ * Request to scroll the list to a date range (YYYY-MM-DD, inclusive)
+ * requestedAt lets the same range be focused again
+ */
+export interface OccurrencesFocusRequest {
+  from: string;
+  to: string;
+  requestedAt: number;
 }
 
 export const OccurrencesList = ({
@@ -20,9 +37,42 @@ export const OccurrencesList = ({
   onLoadMore,
   onEditClick,
   onDeleteClick,
+  onSkipInScenarioClick,
+  onSettleClick,
+  onUnsettleClick,
+  focusRequest = null,
+  formatter,
+  categories = [],
 }: OccurrencesListProps) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const handledRequestRef = useRef<number | null>(null);
+
+  // Scroll to the first occurrence on or after the focused date, once the loaded list reaches it
+  // (a focus request may arrive together with a filter change, before the new page is loaded)
+  useEffect(() => {
+    if (!focusRequest || handledRequestRef.current === focusRequest.requestedAt || !listRef.current) return;
+
+    const cards = Array.from(listRef.current.querySelectorAll<HTMLElement>("[data-occurrence-date]"));
+    const dates = cards.map((card) => card.dataset.occurrenceDate ?? "");
+    const targetIndex = dates.findIndex((date) => date >= focusRequest.from);
+    if (targetIndex === -1 || dates[0] > focusRequest.to) return;
+
+    // Loaded occurrences on both sides but none within the range: nothing to scroll to
+    if (dates[targetIndex] <= focusRequest.to) {
+      cards[targetIndex].scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+    handledRequestRef.current = focusRequest.requestedAt;
+  }, [focusRequest, occurrences]);
+
+  const isFocused = (occurrence: OccurrenceDTO) =>
+    !!focusRequest &&
+    occurrence.occurrence_date >= focusRequest.from &&
+    occurrence.occurrence_date <= focusRequest.to;
+
+  const categoryById = new Map(categories.map((category) => [category.id, category]));
+
   return (
-    <div className="space-y-4 py-4" data-testid="occurrences-list">
+    <div className="space-y-4 py-4" data-testid="occurrences-list" ref={listRef}>
       <h3 className="text-lg font-medium px-1">Recent Activity</h3>
       
       {occurrences.length === 0 && !isLoading ? (
@@ -37,6 +87,12 @@ export const OccurrencesList = ({
               occurrence={occurrence}
               onEdit={() => onEditClick(occurrence)}
               onDelete={() => onDeleteClick(occurrence)}
+              onSkipInScenario={onSkipInScenarioClick ? () => onSkipInScenarioClick(occurrence) : undefined}
+              onSettle={() => onSettleClick(occurrence)}
+              onUnsettle={() => onUnsettleClick(occurrence)}
+              isHighlighted={isFocused(occurrence)}
+              formatter={formatter}
+              category={occurrence.category_id ? categoryById.get(occurrence.category_id) : undefined}
             />
           ))}
         </div>
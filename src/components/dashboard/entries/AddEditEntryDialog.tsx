@@ -1,4 +1,5 @@
 import React from "react";
+import { parseISO } from "date-fns";
 import {
   Dialog,
   DialogContent,
@@ -8,13 +9,18 @@ import {
 } from "@/components/ui/dialog";
 import { EntryForm } from "./EntryForm";
 import type { EntryFormValues } from "./schema";
-import type { EntrySeriesDetailDTO } from "@/types";
+import type { CategoryDTO, EntrySeriesDetailDTO, WalletDTO } from "@/types";
 
 interface AddEditEntryDialogProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
   initialData?: EntrySeriesDetailDTO | null;
   onSubmit: (data: EntryFormValues) => Promise<void>;
+  scenarioName?: string | null; // Set when adding a hypothetical entry to a scenario
+  wallets?: WalletDTO[];
+  defaultWalletId?: string; // Preselected wallet for new entries (the one shown on the dashboard)
+  today?: string; // Start date of new entries (YYYY-MM-DD, in the user's time zone)
+  categories?: CategoryDTO[];
 }
 
 export function AddEditEntryDialog({
@@ -22,6 +28,11 @@ export function AddEditEntryDialog({
   onOpenChange,
   initialData,
   onSubmit,
+  scenarioName = null,
+  wallets,
+  defaultWalletId,
+  today,
+  categories,
 }: AddEditEntryDialogProps) {
   const [isSubmitting, setIsSubmitting] = React.useState(false);
 
@@ -44,11 +55,27 @@ export function AddEditEntryDialog({
         title: initialData.title,
         amount: initialData.amount,
         description: initialData.description || "",
-        start_date: new Date(initialData.start_date),
+        start_date: parseISO(initialData.start_date),
         recurrence_type: initialData.recurrence_type,
-        end_date: initialData.end_date ? new Date(initialData.end_date) : undefined,
+        // For count-bounded series the end date is derived, so only the count is editable
+        end_date:
+          initialData.end_date && initialData.occurrence_count === null
+            ? parseISO(initialData.end_date)
+            : undefined,
+        occurrence_count: initialData.occurrence_count ?? undefined,
         weekday: initialData.weekday ?? undefined,
         day_of_month: initialData.day_of_month ?? undefined,
+        weekdays: initialData.weekdays ?? undefined,
+        days_of_month: initialData.days_of_month?.join(", ") ?? "",
+        week_of_month: initialData.week_of_month ?? undefined,
+        monthly_anchor: initialData.monthly_anchor,
+        business_day_convention: initialData.business_day_convention,
+        recurrence_interval: initialData.recurrence_interval,
+        wallet_id: initialData.wallet_id,
+        target_wallet_id: initialData.target_wallet_id ?? undefined,
+        currency: initialData.currency,
+        category_id: initialData.category_id ?? undefined,
+        tags: initialData.tags.join(", "),
       }
     : undefined;
 
@@ -56,11 +83,19 @@ export function AddEditEntryDialog({
     <Dialog open={isOpen} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto" data-testid="entry-dialog">
         <DialogHeader>
-          <DialogTitle>{initialData ? "Edit Entry" : "Add New Entry"}</DialogTitle>
+          <DialogTitle>
+            {initialData
+              ? "Edit Entry"
+              : scenarioName
+                ? "Add Scenario Entry"
+                : "Add New Entry"}
+          </DialogTitle>
           <DialogDescription>
             {initialData
               ? "Update the details of this entry."
-              : "Create a new income or expense entry."}
+              : scenarioName
+                ? `Add a hypothetical entry to "${scenarioName}". It does not affect your real plan until the scenario is applied.`
+                : "Create a new income or expense entry."}
           </DialogDescription>
         </DialogHeader>
         <div className="py-4">
@@ -68,6 +103,10 @@ export function AddEditEntryDialog({
             defaultValues={defaultValues}
             onSubmit={handleSubmit}
             isSubmitting={isSubmitting}
+            wallets={wallets}
+            defaultWalletId={defaultWalletId}
+            today={today}
+            categories={categories}
           />
         </div>
       </DialogContent>
@@ -1,7 +1,7 @@
 import React, { useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { CalendarIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -17,6 +17,7 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import {
   Select,
@@ -35,18 +36,79 @@ import {
   type EntryFormValues,
   ENTRY_TYPES,
   RECURRENCE_TYPES,
+  MONTHLY_ANCHORS,
+  BUSINESS_DAY_CONVENTIONS,
 } from "./schema";
+import { flattenCategoryTree } from "@/lib/utils/category.utils";
+import { CategoryLabel } from "../CategoryLabel";
+import type { CategoryDTO, WalletDTO } from "@/types";
+
+// Unit label for the "Repeat Every" input, per recurring type
+const INTERVAL_UNITS: Record<Exclude<EntryFormValues["recurrence_type"], "one_time">, string> = {
+  weekly: "Weeks",
+  monthly: "Months",
+  quarterly: "Quarters",
+  yearly: "Years",
+};
+
+const BUSINESS_DAY_CONVENTION_LABELS: Record<(typeof BUSINESS_DAY_CONVENTIONS)[number], string> = {
+  none: "Keep the date",
+  previous: "Move to previous business day",
+  next: "Move to next business day",
+  nearest: "Move to nearest business day",
+};
+
+// Monday-first weekday toggles; values use Date#getDay numbering (0=Sunday)
+const WEEKDAY_OPTIONS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+
+const WEEK_ORDINALS = ["1st", "2nd", "3rd", "4th", "5th"];
+
+// Select items cannot have an empty value
+const NO_CATEGORY = "none";
+
+// Human-readable label for a monthly anchor, based on the selected start date
+function getMonthlyAnchorLabel(anchor: (typeof MONTHLY_ANCHORS)[number], startDate: Date | undefined): string {
+  const dayOfMonth = startDate ? startDate.getDate() : 1;
+  const weekdayName = startDate ? format(startDate, "EEEE") : "weekday";
+
+  switch (anchor) {
+    case "day_of_month":
+      return `On day ${dayOfMonth}`;
+    case "nth_weekday":
+      return `On the ${WEEK_ORDINALS[Math.ceil(dayOfMonth / 7) - 1]} ${weekdayName}`;
+    case "last_weekday":
+      return `On the last ${weekdayName}`;
+    case "last_day":
+      return "On the last day of the month";
+  }
+}
 
 interface EntryFormProps {
   defaultValues?: Partial<EntryFormValues>;
   onSubmit: (data: EntryFormValues) => void;
   isSubmitting?: boolean;
+  wallets?: WalletDTO[]; // The wallet select is shown when there is more than one
+  defaultWalletId?: string; // Preselected wallet for new entries
+  today?: string; // Start date of new entries (YYYY-MM-DD); the device's date if not given
+  categories?: CategoryDTO[]; // The category select is shown when there are any
 }
 
 export function EntryForm({
   defaultValues,
   onSubmit,
   isSubmitting = false,
+  wallets = [],
+  defaultWalletId,
+  today,
+  categories = [],
 }: EntryFormProps) {
   const form = useForm<EntryFormValues>({
     resolver: zodResolver(entryFormSchema),
@@ -56,7 +118,11 @@ export function EntryForm({
       amount: undefined,
       title: "",
       description: "",
-      start_date: new Date(),
+      start_date: today ? parseISO(today) : new Date(),
+      recurrence_interval: 1,
+      monthly_anchor: "day_of_month",
+      business_day_convention: "none",
+      wallet_id: defaultWalletId,
       ...defaultValues,
     },
   });
@@ -70,13 +136,22 @@ export function EntryForm({
         amount: undefined,
         title: "",
         description: "",
-        start_date: new Date(),
+        start_date: today ? parseISO(today) : new Date(),
+        recurrence_interval: 1,
+        monthly_anchor: "day_of_month",
+        business_day_convention: "none",
         ...defaultValues,
       });
     }
-  }, [defaultValues, form]);
+  }, [defaultValues, form, today]);
 
+  const entryType = form.watch("entry_type");
   const recurrenceType = form.watch("recurrence_type");
+  const startDate = form.watch("start_date");
+  const monthlyAnchor = form.watch("monthly_anchor");
+  const isMonthBased = recurrenceType === "monthly" || recurrenceType === "quarterly" || recurrenceType === "yearly";
+  // Transfers need a second wallet to move money to
+  const entryTypes = ENTRY_TYPES.filter((type) => type !== "transfer" || wallets.length > 1 || entryType === type);
 
   // Derived fields logic could go here or be handled in submit
   // For now we trust the schema validation
@@ -98,7 +173,7 @@ export function EntryForm({
                   className="flex space-x-4"
                   data-testid="entry-type-radio-group"
                 >
-                  {ENTRY_TYPES.map((type) => (
+                  {entryTypes.map((type) => (
                     <FormItem
                       key={type}
                       className="flex items-center space-x-2 space-y-0"
@@ -152,6 +227,26 @@ export function EntryForm({
               </FormItem>
             )}
           />
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Currency (Optional)</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="Wallet currency"
+                    maxLength={3}
+                    className="uppercase"
+                    {...field}
+                    value={field.value || ""}
+                    data-testid="entry-currency-input"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
         </div>
 
         <FormField
@@ -173,6 +268,112 @@ export function EntryForm({
           )}
         />
 
+        {categories.length > 0 && entryType !== "transfer" && (
+          <FormField
+            control={form.control}
+            name="category_id"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Category</FormLabel>
+                <Select
+                  onValueChange={(value) => field.onChange(value === NO_CATEGORY ? undefined : value)}
+                  value={field.value ?? NO_CATEGORY}
+                >
+                  <FormControl>
+                    <SelectTrigger data-testid="entry-category-select">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_CATEGORY}>Uncategorized</SelectItem>
+                    {flattenCategoryTree(categories).map(({ category, depth }) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        <CategoryLabel category={category} style={{ paddingLeft: `${depth}rem` }} />
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="tags"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Tags (Optional)</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="vacation-2026, reimbursable"
+                  {...field}
+                  value={field.value ?? ""}
+                  data-testid="entry-tags-input"
+                />
+              </FormControl>
+              <FormDescription>Separate tags with commas.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {wallets.length > 1 && (
+          <div className={cn(entryType === "transfer" && "grid grid-cols-2 gap-4")}>
+            <FormField
+              control={form.control}
+              name="wallet_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{entryType === "transfer" ? "From wallet" : "Wallet"}</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value ?? wallets[0].id}>
+                    <FormControl>
+                      <SelectTrigger data-testid="entry-wallet-select">
+                        <SelectValue placeholder="Select wallet" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {wallets.map((wallet) => (
+                        <SelectItem key={wallet.id} value={wallet.id}>
+                          {wallet.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {entryType === "transfer" && (
+              <FormField
+                control={form.control}
+                name="target_wallet_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>To wallet</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="entry-target-wallet-select">
+                          <SelectValue placeholder="Select wallet" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {wallets.map((wallet) => (
+                          <SelectItem key={wallet.id} value={wallet.id}>
+                            {wallet.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </div>
+        )}
+
         <div className="grid grid-cols-2 gap-4">
           <FormField
             control={form.control}
@@ -248,6 +449,157 @@ export function EntryForm({
           />
         </div>
 
+        {recurrenceType !== "one_time" && (
+          <FormField
+            control={form.control}
+            name="recurrence_interval"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Repeat Every ({INTERVAL_UNITS[recurrenceType]})</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={52}
+                    step="1"
+                    placeholder="1"
+                    {...field}
+                    value={field.value ?? ""}
+                    onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                    data-testid="entry-recurrence-interval-input"
+                  />
+                </FormControl>
+                <FormDescription>
+                  {recurrenceType === "weekly"
+                    ? "Use 2 for biweekly payments. Weeks are counted from the start date."
+                    : "Periods are counted from the start date."}
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {recurrenceType === "weekly" && (
+          <FormField
+            control={form.control}
+            name="weekdays"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Repeat On</FormLabel>
+                <FormControl>
+                  <ToggleGroup
+                    type="multiple"
+                    variant="outline"
+                    value={(field.value?.length ? field.value : [startDate?.getDay() ?? 1]).map(String)}
+                    onValueChange={(values) => field.onChange(values.length ? values.map(Number) : undefined)}
+                    className="justify-start flex-wrap"
+                    data-testid="entry-weekdays-toggle-group"
+                  >
+                    {WEEKDAY_OPTIONS.map((option) => (
+                      <ToggleGroupItem
+                        key={option.value}
+                        value={String(option.value)}
+                        aria-label={option.label}
+                        className="h-8 px-3 text-xs"
+                        data-testid={`weekday-option-${option.value}`}
+                      >
+                        {option.label}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </FormControl>
+                <FormDescription>Select several days for entries like Mon/Wed/Fri.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {isMonthBased && (
+          <FormField
+            control={form.control}
+            name="monthly_anchor"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Day in Month</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="entry-monthly-anchor-select">
+                      <SelectValue placeholder="Select day in month" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {MONTHLY_ANCHORS.map((anchor) => (
+                      <SelectItem key={anchor} value={anchor} data-testid={`monthly-anchor-option-${anchor}`}>
+                        {getMonthlyAnchorLabel(anchor, startDate)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Options are based on the start date.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {isMonthBased && (monthlyAnchor ?? "day_of_month") === "day_of_month" && (
+          <FormField
+            control={form.control}
+            name="days_of_month"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Days of Month (Optional)</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder={startDate ? String(startDate.getDate()) : "e.g. 10, 25"}
+                    {...field}
+                    value={field.value ?? ""}
+                    data-testid="entry-days-of-month-input"
+                  />
+                </FormControl>
+                <FormDescription>
+                  Separate several days with commas, e.g. 10, 25. Leave empty to use the start date&apos;s day.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {recurrenceType !== "one_time" && (
+          <FormField
+            control={form.control}
+            name="business_day_convention"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>On Weekends and Holidays</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="entry-business-day-convention-select">
+                      <SelectValue placeholder="Select adjustment" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {BUSINESS_DAY_CONVENTIONS.map((convention) => (
+                      <SelectItem
+                        key={convention}
+                        value={convention}
+                        data-testid={`business-day-convention-option-${convention}`}
+                      >
+                        {BUSINESS_DAY_CONVENTION_LABELS[convention]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Uses the Polish public holiday calendar.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         {recurrenceType !== "one_time" && (
           <FormField
             control={form.control}
@@ -295,6 +647,37 @@ export function EntryForm({
           />
         )}
 
+        {recurrenceType !== "one_time" && (
+          <FormField
+            control={form.control}
+            name="occurrence_count"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Number of Occurrences (Optional)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={1000}
+                    step="1"
+                    placeholder="e.g. 10 installments"
+                    {...field}
+                    value={field.value ?? ""}
+                    onChange={(e) =>
+                      field.onChange(Number.isNaN(e.target.valueAsNumber) ? undefined : e.target.valueAsNumber)
+                    }
+                    data-testid="entry-occurrence-count-input"
+                  />
+                </FormControl>
+                <FormDescription>
+                  Use instead of an end date for installment plans. The end date is calculated for you.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         <Button type="submit" className="w-full" disabled={isSubmitting} data-testid="entry-save-button">
           {isSubmitting ? "Saving..." : "Save Entry"}
         </Button>
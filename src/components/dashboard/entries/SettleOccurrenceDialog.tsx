@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { OccurrenceDTO, UpsertSettlementCommand } from "@/types";
+import type { Formatter } from "@/lib/utils/format.utils";
+
+interface SettleOccurrenceDialogProps {
+  occurrence: OccurrenceDTO | null; // Dialog is open while set
+  onClose: () => void;
+  onSubmit: (occurrence: OccurrenceDTO, command: UpsertSettlementCommand) => Promise<void>;
+  formatter: Formatter;
+  today: string; // YYYY-MM-DD, in the user's time zone
+}
+
+export function SettleOccurrenceDialog({
+  occurrence,
+  onClose,
+  onSubmit,
+  formatter,
+  today,
+}: SettleOccurrenceDialogProps) {
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState("");
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Prefill with the existing settlement, or the plan (paid on the planned day, or today if that is still ahead)
+  useEffect(() => {
+    if (!occurrence) return;
+    const { settlement } = occurrence;
+    setAmount((settlement?.actual_amount ?? occurrence.amount).toString());
+    setDate(settlement?.actual_date ?? (occurrence.occurrence_date <= today ? occurrence.occurrence_date : today));
+    setNote(settlement?.note ?? "");
+    setError(null);
+  }, [occurrence, today]);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!occurrence) return;
+
+    const value = Number(amount);
+    if (amount.trim() === "" || isNaN(value) || value < 0) {
+      setError("Actual amount must be a non-negative number");
+      return;
+    }
+    if (!date) {
+      setError("Actual date is required");
+      return;
+    }
+    setError(null);
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(occurrence, {
+        actual_amount: value,
+        actual_date: date,
+        note: note.trim() || null,
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to settle occurrence");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={occurrence !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{occurrence?.settlement ? "Edit Settlement" : "Mark as Settled"}</DialogTitle>
+          <DialogDescription>
+            {occurrence &&
+              `Planned: ${formatter.currency(occurrence.amount, occurrence.currency)} on ${formatter.date(
+                occurrence.occurrence_date
+              )}. The plan is kept; your balance uses the actual amount from the day it was settled.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4" data-testid="settle-occurrence-form">
+          <div className="space-y-2">
+            <Label htmlFor="actual_amount">Actual Amount ({occurrence?.currency ?? "PLN"})</Label>
+            <Input
+              id="actual_amount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="actual_date">Actual Date</Label>
+            <Input id="actual_date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="settlement_note">Note</Label>
+            <Input
+              id="settlement_note"
+              placeholder="Optional"
+              maxLength={500}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,35 @@
 import { z } from "zod";
 import type { EntryType, OccurrenceDTO, EntrySeriesDetailDTO } from "@/types";
+import { MAX_TAG_LENGTH, MAX_TAGS_PER_ENTRY, parseTagList } from "@/lib/utils/tag.utils";
 
 // We can't import runtime values from type-only imports, so we redefine literals for Zod
 // These must match the database enums
-export const ENTRY_TYPES = ["income", "expense"] as const;
-export const RECURRENCE_TYPES = ["one_time", "weekly", "monthly"] as const;
+export const ENTRY_TYPES = ["income", "expense", "transfer"] as const;
+export const RECURRENCE_TYPES = ["one_time", "weekly", "monthly", "quarterly", "yearly"] as const;
+export const MONTHLY_ANCHORS = ["day_of_month", "nth_weekday", "last_weekday", "last_day"] as const;
+export const BUSINESS_DAY_CONVENTIONS = ["none", "previous", "next", "nearest"] as const;
+
+/**
+ * Parses a comma-separated list of days of month ("10, 25") into sorted unique days.
+ * Returns an empty array for empty input and null if any day is not a whole number from 1 to 31.
+ */
+export function parseDaysOfMonth(value: string | undefined): number[] | null {
+  if (!value || value.trim() === "") {
+    return [];
+  }
+
+  const parts = value.split(",").map((part) => part.trim());
+  if (parts.some((part) => !/^\d{1,2}$/.test(part))) {
+    return null;
+  }
+
+  const days = parts.map(Number);
+  if (days.some((day) => day < 1 || day > 31)) {
+    return null;
+  }
+
+  return [...new Set(days)].sort((a, b) => a - b);
+}
 
 export const entryFormSchema = z
   .object({
@@ -18,9 +43,58 @@ export const entryFormSchema = z
     }),
     recurrence_type: z.enum(RECURRENCE_TYPES),
     end_date: z.date().optional(),
+    // Alternative to end_date: end the series after N occurrences (installment plans)
+    occurrence_count: z.coerce
+      .number({ invalid_type_error: "Number of occurrences must be a number" })
+      .int("Number of occurrences must be a whole number")
+      .min(1, "Number of occurrences must be at least 1")
+      .max(1000, "Number of occurrences must be 1000 or less")
+      .optional(),
     // Derived/Hidden fields
     weekday: z.number().min(0).max(6).optional(),
     day_of_month: z.number().min(1).max(31).optional(),
+    // Weekly: set of weekdays (0=Sunday); empty means the start date's weekday
+    weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+    // Monthly day anchor: comma-separated days, e.g. "10, 25"; empty means the start date's day
+    days_of_month: z
+      .string()
+      .optional()
+      .refine((value) => parseDaysOfMonth(value) !== null, "Enter days between 1 and 31 separated by commas"),
+    week_of_month: z.number().min(1).max(4).optional(),
+    // Which day within the month a monthly/quarterly/yearly entry falls on
+    monthly_anchor: z.enum(MONTHLY_ANCHORS).optional(),
+    // Where to move occurrences that fall on a weekend or public holiday
+    business_day_convention: z.enum(BUSINESS_DAY_CONVENTIONS).optional(),
+    // Repeat every N weeks/months/quarters/years (recurring entries only)
+    recurrence_interval: z.coerce
+      .number({ invalid_type_error: "Interval must be a number" })
+      .int("Interval must be a whole number")
+      .min(1, "Interval must be at least 1")
+      .max(52, "Interval must be 52 or less")
+      .optional(),
+    // Wallet the entry is booked on; the default wallet if not chosen
+    wallet_id: z.string().optional(),
+    // Wallet a transfer moves the money to (transfers only)
+    target_wallet_id: z.string().optional(),
+    // Category of the entry; uncategorized if not chosen
+    category_id: z.string().optional(),
+    // Comma-separated tags, e.g. "vacation-2026, reimbursable"
+    tags: z
+      .string()
+      .optional()
+      .refine(
+        (value) => parseTagList(value ?? "").every((tag) => tag.length <= MAX_TAG_LENGTH),
+        `Tags must be at most ${MAX_TAG_LENGTH} characters`
+      )
+      .refine(
+        (value) => parseTagList(value ?? "").length <= MAX_TAGS_PER_ENTRY,
+        `At most ${MAX_TAGS_PER_ENTRY} tags are allowed`
+      ),
+    // ISO 4217 code of the amount; empty means the wallet's currency
+    currency: z
+      .string()
+      .optional()
+      .refine((value) => !value || /^[A-Za-z]{3}$/.test(value.trim()), "Currency must be a 3-letter code"),
   })
   .refine(
     (data) => {
@@ -33,6 +107,31 @@ export const entryFormSchema = z
       message: "End date must be after or equal to start date",
       path: ["end_date"],
     }
+  )
+  .refine((data) => !(data.end_date && data.occurrence_count), {
+    message: "Choose either an end date or a number of occurrences",
+    path: ["occurrence_count"],
+  })
+  .refine((data) => data.entry_type !== "transfer" || !!data.target_wallet_id, {
+    message: "Choose the wallet to transfer to",
+    path: ["target_wallet_id"],
+  })
+  .refine((data) => data.entry_type !== "transfer" || data.target_wallet_id !== data.wallet_id, {
+    message: "Choose a different wallet to transfer to",
+    path: ["target_wallet_id"],
+  })
+  .refine(
+    (data) => {
+      // The 5th weekday of a month doesn't exist in every month
+      if (data.monthly_anchor === "nth_weekday" && data.start_date) {
+        return data.start_date.getDate() <= 28;
+      }
+      return true;
+    },
+    {
+      message: "Start date falls on a 5th weekday; choose the last weekday of the month instead",
+      path: ["monthly_anchor"],
+    }
   );
 
 export type EntryFormValues = z.infer<typeof entryFormSchema>;
@@ -40,6 +139,9 @@ export type EntryFormValues = z.infer<typeof entryFormSchema>;
 export interface DashboardFilters {
   dateRange: { from: Date | undefined; to: Date | undefined };
   entryType: EntryType | "all";
+  walletId: string | "all"; // "all" projects the wallets consolidated
+  categoryId: string | "all"; // A category lists its subcategories' occurrences too
+  tags: string[]; // Occurrences with any of the tags; empty for all
 }
 
 export interface EntryMutationState {
@@ -0,0 +1,280 @@
+import React, { useEffect, useId, useRef, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { buildChartGeometry, findPointIndex, type ChartDimensions } from "./chart";
+import type { BalanceTimelineDTO, BalanceTimelinePointDTO } from "@/types";
+import type { Formatter } from "@/lib/utils/format.utils";
+
+interface BalanceChartProps {
+  timeline: BalanceTimelineDTO | null;
+  scenarioTimeline?: BalanceTimelineDTO | null; // Drawn as a dashed line over the baseline
+  scenarioName?: string;
+  selectedDate: Date;
+  isLoading: boolean;
+  error: string | null;
+  onPointClick: (point: BalanceTimelinePointDTO) => void;
+  formatter: Formatter;
+}
+
+const CHART_HEIGHT = 200;
+const MARKER_HEIGHT = 32;
+const PADDING = { top: 8, right: 8, bottom: 8, left: 8 };
+
+const formatPointLabel = (point: BalanceTimelinePointDTO, formatter: Formatter) =>
+  point.date === point.end_date
+    ? formatter.date(point.date)
+    : `${formatter.date(point.date)} – ${formatter.date(point.end_date)}`;
+
+export const BalanceChart: React.FC<BalanceChartProps> = ({
+  timeline,
+  scenarioTimeline = null,
+  scenarioName,
+  selectedDate,
+  isLoading,
+  error,
+  onPointClick,
+  formatter,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(600);
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const clipId = useId();
+
+  // Track container width so markers and strokes are drawn at their real size
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver((entries) => {
+      const nextWidth = Math.floor(entries[0].contentRect.width);
+      if (nextWidth > 0) setWidth(nextWidth);
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const points = timeline?.points ?? [];
+  const dimensions: ChartDimensions = { width, height: CHART_HEIGHT, padding: PADDING };
+  const scenarioPoints = scenarioTimeline?.points ?? [];
+  const geometry = buildChartGeometry(points, dimensions, scenarioPoints);
+  const selectedIndex = findPointIndex(points, format(selectedDate, "yyyy-MM-dd"));
+  const currency = timeline?.currency ?? "PLN";
+  const formatCurrency = (val: number) => formatter.currency(val, currency);
+  const activeIndex = hoveredIndex ?? (selectedIndex >= 0 ? selectedIndex : null);
+  const activePoint = activeIndex !== null ? points[activeIndex] : null;
+  const activeScenarioPoint = activeIndex !== null && geometry.comparisonPath ? scenarioPoints[activeIndex] : null;
+
+  // Markers are scaled against the largest single-bucket amount
+  const maxFlow = Math.max(1, ...points.flatMap((point) => [point.total_income, point.total_expense]));
+  const markerMid = CHART_HEIGHT + MARKER_HEIGHT / 2;
+  const markerWidth = Math.max(1, Math.min(8, geometry.step * 0.6));
+  const negativeCount = points.filter((point) => point.min_balance < 0).length;
+
+  const renderBody = () => {
+    if (isLoading && !timeline) {
+      return <Skeleton className="h-[232px] w-full" />;
+    }
+
+    if (error && !timeline) {
+      return <div className="py-8 text-center text-sm text-muted-foreground">{error}</div>;
+    }
+
+    if (points.length === 0) {
+      return (
+        <div className="py-8 text-center text-sm text-muted-foreground">
+          No projection available for the selected period.
+        </div>
+      );
+    }
+
+    return (
+      <svg
+        width={width}
+        height={CHART_HEIGHT + MARKER_HEIGHT}
+        className="block select-none"
+        role="img"
+        aria-label={`Projected balance from ${timeline?.from_date} to ${timeline?.to_date}`}
+        onMouseLeave={() => setHoveredIndex(null)}
+        data-testid="balance-chart"
+      >
+        <defs>
+          <clipPath id={`${clipId}-above`}>
+            <rect x={0} y={0} width={width} height={geometry.zeroY ?? CHART_HEIGHT} />
+          </clipPath>
+          <clipPath id={`${clipId}-below`}>
+            <rect
+              x={0}
+              y={geometry.zeroY ?? 0}
+              width={width}
+              height={geometry.zeroY !== null ? CHART_HEIGHT - geometry.zeroY : CHART_HEIGHT}
+            />
+          </clipPath>
+        </defs>
+
+        {/* Area and line: green above zero, red below */}
+        {geometry.maxValue > 0 && (
+          <g clipPath={`url(#${clipId}-above)`}>
+            <path d={geometry.areaPath} className="fill-emerald-500/15" />
+            <path d={geometry.linePath} className="fill-none stroke-emerald-600" strokeWidth={2} />
+          </g>
+        )}
+        {geometry.minValue < 0 && (
+          <g clipPath={`url(#${clipId}-below)`}>
+            <path d={geometry.areaPath} className="fill-rose-500/20" />
+            <path d={geometry.linePath} className="fill-none stroke-rose-600" strokeWidth={2} />
+          </g>
+        )}
+
+        {geometry.zeroY !== null && (
+          <line
+            x1={0}
+            x2={width}
+            y1={geometry.zeroY}
+            y2={geometry.zeroY}
+            className="stroke-muted-foreground/50"
+            strokeDasharray="4 4"
+          />
+        )}
+
+        {/* Scenario balance */}
+        {geometry.comparisonPath && (
+          <path
+            d={geometry.comparisonPath}
+            className="fill-none stroke-sky-600"
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            data-testid="balance-chart-scenario-line"
+          />
+        )}
+
+        {/* Buckets that dip below zero */}
+        {points.map(
+          (point, index) =>
+            point.min_balance < 0 && (
+              <circle
+                key={`negative-${point.date}`}
+                cx={geometry.xs[index]}
+                cy={geometry.ys[index]}
+                r={points.length > 90 ? 1.5 : 3}
+                className="fill-rose-600"
+              />
+            )
+        )}
+
+        {/* Income and expense markers */}
+        <line x1={0} x2={width} y1={markerMid} y2={markerMid} className="stroke-border" />
+        {points.map((point, index) => (
+          <g key={`flow-${point.date}`}>
+            {point.total_income > 0 && (
+              <rect
+                x={geometry.xs[index] - markerWidth / 2}
+                y={markerMid - Math.max(2, (point.total_income / maxFlow) * (MARKER_HEIGHT / 2 - 2))}
+                width={markerWidth}
+                height={Math.max(2, (point.total_income / maxFlow) * (MARKER_HEIGHT / 2 - 2))}
+                className="fill-emerald-500"
+              />
+            )}
+            {point.total_expense > 0 && (
+              <rect
+                x={geometry.xs[index] - markerWidth / 2}
+                y={markerMid}
+                width={markerWidth}
+                height={Math.max(2, (point.total_expense / maxFlow) * (MARKER_HEIGHT / 2 - 2))}
+                className="fill-rose-500"
+              />
+            )}
+          </g>
+        ))}
+
+        {/* Selected / hovered point */}
+        {activeIndex !== null && (
+          <>
+            <line
+              x1={geometry.xs[activeIndex]}
+              x2={geometry.xs[activeIndex]}
+              y1={0}
+              y2={CHART_HEIGHT + MARKER_HEIGHT}
+              className="stroke-primary/40"
+            />
+            <circle
+              cx={geometry.xs[activeIndex]}
+              cy={geometry.ys[activeIndex]}
+              r={4}
+              className="fill-background stroke-primary"
+              strokeWidth={2}
+            />
+          </>
+        )}
+
+        {/* Hit areas, one per point */}
+        {points.map((point, index) => (
+          <rect
+            key={`hit-${point.date}`}
+            x={geometry.xs[index] - Math.max(geometry.step, 8) / 2}
+            y={0}
+            width={Math.max(geometry.step, 8)}
+            height={CHART_HEIGHT + MARKER_HEIGHT}
+            className="cursor-pointer fill-transparent"
+            onMouseEnter={() => setHoveredIndex(index)}
+            onClick={() => onPointClick(point)}
+          />
+        ))}
+      </svg>
+    );
+  };
+
+  return (
+    <Card data-testid="balance-chart-card">
+      <CardHeader className="p-4">
+        <CardTitle className="text-lg">Balance Over Time</CardTitle>
+        <CardDescription>
+          {activePoint ? (
+            <span data-testid="balance-chart-readout">
+              {formatPointLabel(activePoint, formatter)}:{" "}
+              <span className={activePoint.balance < 0 ? "font-medium text-rose-600" : "font-medium text-foreground"}>
+                {formatCurrency(activePoint.balance)}
+              </span>
+              {activePoint.total_income > 0 && (
+                <span className="ml-2 text-emerald-600">+{formatCurrency(activePoint.total_income)}</span>
+              )}
+              {activePoint.total_expense > 0 && (
+                <span className="ml-2 text-rose-600">-{formatCurrency(activePoint.total_expense)}</span>
+              )}
+              {activePoint.net_transfers !== 0 && (
+                <span className="ml-2">
+                  transfers {activePoint.net_transfers > 0 ? "+" : ""}
+                  {formatCurrency(activePoint.net_transfers)}
+                </span>
+              )}
+              {activePoint.adjustment !== 0 && (
+                <span className="ml-2" data-testid="balance-chart-adjustment-readout">
+                  checkpoint {activePoint.adjustment > 0 ? "+" : ""}
+                  {formatCurrency(activePoint.adjustment)}
+                </span>
+              )}
+              {activeScenarioPoint && (
+                <span className="ml-2 text-sky-600" data-testid="balance-chart-scenario-readout">
+                  {scenarioName ?? "Scenario"}: {formatCurrency(activeScenarioPoint.balance)}
+                </span>
+              )}
+            </span>
+          ) : (
+            "Click a point to project the balance for that date."
+          )}
+        </CardDescription>
+        {negativeCount > 0 && (
+          <p className="text-sm text-rose-600" data-testid="balance-chart-negative-warning">
+            Balance goes negative on {negativeCount} {timeline?.granularity === "day" ? "day" : timeline?.granularity}
+            {negativeCount === 1 ? "" : "s"} in this period.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="p-4 pt-0">
+        <div ref={containerRef} className="w-full overflow-hidden">
+          {renderBody()}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
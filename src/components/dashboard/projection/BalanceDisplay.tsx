@@ -1,20 +1,19 @@
 import React from "react";
+import type { Formatter } from "@/lib/utils/format.utils";
 
 interface BalanceDisplayProps {
   amount: number | null;
+  currency?: string; // Wallet currency, or the base currency when consolidated
   isLoading: boolean;
+  formatter: Formatter;
 }
 
-export const BalanceDisplay: React.FC<BalanceDisplayProps> = ({ amount, isLoading }) => {
+export const BalanceDisplay: React.FC<BalanceDisplayProps> = ({ amount, currency = "PLN", isLoading, formatter }) => {
   if (isLoading && amount === null) {
     return <div className="h-12 w-48 animate-pulse rounded bg-muted" />;
   }
 
-  const formattedAmount =
-    amount?.toLocaleString("pl-PL", {
-      style: "currency",
-      currency: "PLN",
-    }) ?? "---";
+  const formattedAmount = amount !== null ? formatter.currency(amount, currency) : "---";
 
   const isNegative = amount !== null && amount < 0;
 
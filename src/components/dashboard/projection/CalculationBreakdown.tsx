@@ -1,15 +1,31 @@
 import React from "react";
-import type { ProjectionComputationDTO } from "@/types";
-import { ArrowDownIcon, ArrowUpIcon, ActivityIcon } from "lucide-react";
+import type { CategoryDTO, CategoryTotalDTO, ProjectionComputationDTO } from "@/types";
+import type { Formatter } from "@/lib/utils/format.utils";
+import { rollUpCategoryTotals } from "@/lib/utils/category.utils";
+import { ArrowDownIcon, ArrowUpIcon, ArrowLeftRightIcon, ActivityIcon } from "lucide-react";
+import { CategoryLabel } from "../CategoryLabel";
 
 interface CalculationBreakdownProps {
   computation: ProjectionComputationDTO | null;
+  currency?: string;
+  formatter: Formatter;
+  categoryBreakdown?: CategoryTotalDTO[];
+  categories?: CategoryDTO[]; // The per-category totals are shown when there are any
 }
 
-export const CalculationBreakdown: React.FC<CalculationBreakdownProps> = ({ computation }) => {
+export const CalculationBreakdown: React.FC<CalculationBreakdownProps> = ({
+  computation,
+  currency = "PLN",
+  formatter,
+  categoryBreakdown = [],
+  categories = [],
+}) => {
   if (!computation) return null;
 
-  const formatCurrency = (val: number) => val.toLocaleString("pl-PL", { style: "currency", currency: "PLN" });
+  const formatCurrency = (val: number) => formatter.currency(val, currency);
+  // Subcategories count towards their top-level category
+  const categoryTotals = categories.length > 0 ? rollUpCategoryTotals(categories, categoryBreakdown) : [];
+  const categoryById = new Map(categories.map((category) => [category.id, category]));
 
   return (
     <div className="space-y-2 text-sm">
@@ -25,6 +41,15 @@ export const CalculationBreakdown: React.FC<CalculationBreakdownProps> = ({ comp
         </span>
         <span className="font-semibold">{formatCurrency(computation.total_expense)}</span>
       </div>
+      {/* Transfers only move money between wallets, so they are not income or expenses */}
+      {computation.net_transfers !== 0 && (
+        <div className="flex items-center justify-between text-sky-600">
+          <span className="flex items-center gap-2">
+            <ArrowLeftRightIcon className="h-4 w-4" /> Transfers
+          </span>
+          <span className="font-semibold">{formatCurrency(computation.net_transfers)}</span>
+        </div>
+      )}
       <div className="border-t pt-2 flex items-center justify-between font-medium">
         <span className="flex items-center gap-2">
           <ActivityIcon className="h-4 w-4 text-muted-foreground" /> Net Change
@@ -33,6 +58,30 @@ export const CalculationBreakdown: React.FC<CalculationBreakdownProps> = ({ comp
           {formatCurrency(computation.net_change)}
         </span>
       </div>
+      {categoryTotals.length > 0 && (
+        <div className="border-t pt-2 space-y-1" data-testid="category-breakdown">
+          {categoryTotals.map((total) => {
+            const category = total.category_id ? categoryById.get(total.category_id) : undefined;
+            return (
+              <div key={total.category_id ?? "uncategorized"} className="flex items-center justify-between gap-2">
+                {category ? (
+                  <CategoryLabel category={category} className="min-w-0" />
+                ) : (
+                  <span className="text-muted-foreground">Uncategorized</span>
+                )}
+                <span className="flex shrink-0 gap-2">
+                  {total.total_income !== 0 && (
+                    <span className="text-green-600">+{formatCurrency(total.total_income)}</span>
+                  )}
+                  {total.total_expense !== 0 && (
+                    <span className="text-red-600">-{formatCurrency(total.total_expense)}</span>
+                  )}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 };
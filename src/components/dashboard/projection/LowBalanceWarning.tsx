@@ -0,0 +1,51 @@
+import React from "react";
+import { AlertTriangleIcon } from "lucide-react";
+import type { LowBalanceForecastDTO } from "@/types";
+import type { Formatter } from "@/lib/utils/format.utils";
+
+interface LowBalanceWarningProps {
+  forecast: LowBalanceForecastDTO | null;
+  onDateClick: (date: string) => void;
+  formatter: Formatter;
+}
+
+export const LowBalanceWarning: React.FC<LowBalanceWarningProps> = ({ forecast, onDateClick, formatter }) => {
+  if (!forecast?.first_breach_date) return null;
+
+  const formatCurrency = (val: number) => formatter.currency(val, forecast.currency);
+  const formatDate = formatter.date;
+
+  return (
+    <div
+      role="alert"
+      className="flex gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900 dark:border-amber-700 dark:bg-amber-950 dark:text-amber-100"
+      data-testid="low-balance-warning"
+    >
+      <AlertTriangleIcon className="mt-0.5 h-4 w-4 shrink-0" />
+      <div className="space-y-1">
+        <p>
+          Balance drops below {formatCurrency(forecast.threshold)} on{" "}
+          <button
+            type="button"
+            className="font-semibold underline underline-offset-2"
+            onClick={() => onDateClick(forecast.first_breach_date as string)}
+            data-testid="low-balance-breach-link"
+          >
+            {formatDate(forecast.first_breach_date)}
+          </button>
+          .
+        </p>
+        <p className="text-xs">
+          Lowest point: {formatCurrency(forecast.lowest_balance)} on{" "}
+          <button
+            type="button"
+            className="underline underline-offset-2"
+            onClick={() => onDateClick(forecast.lowest_balance_date)}
+          >
+            {formatDate(forecast.lowest_balance_date)}
+          </button>
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -1,15 +1,23 @@
 import React from "react";
+import { format, parseISO } from "date-fns";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { BalanceDisplay } from "./BalanceDisplay";
 import { CalculationBreakdown } from "./CalculationBreakdown";
-import type { ProjectionDTO } from "@/types";
+import { LowBalanceWarning } from "./LowBalanceWarning";
+import type { CategoryDTO, LowBalanceForecastDTO, ProjectionDTO } from "@/types";
+import type { Formatter } from "@/lib/utils/format.utils";
 
 interface ProjectionPanelProps {
   projection: ProjectionDTO | null;
   selectedDate: Date;
   onDateChange: (date: Date) => void;
   isLoading: boolean;
+  formatter: Formatter;
+  lowBalanceForecast?: LowBalanceForecastDTO | null;
+  onAlertDateClick?: (date: string) => void;
+  categories?: CategoryDTO[];
+  children?: React.ReactNode; // Scenario comparison, shown below the warnings
 }
 
 export const ProjectionPanel: React.FC<ProjectionPanelProps> = ({
@@ -17,14 +25,19 @@ export const ProjectionPanel: React.FC<ProjectionPanelProps> = ({
   selectedDate,
   onDateChange,
   isLoading,
+  formatter,
+  lowBalanceForecast = null,
+  onAlertDateClick,
+  categories,
+  children,
 }) => {
   const handleDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.value) {
-      onDateChange(new Date(e.target.value));
+      onDateChange(parseISO(e.target.value));
     }
   };
 
-  const dateString = selectedDate.toISOString().split("T")[0];
+  const dateString = format(selectedDate, "yyyy-MM-dd");
   const minDate = projection?.date_range_limits?.min_date;
   const maxDate = projection?.date_range_limits?.max_date;
 
@@ -56,22 +69,48 @@ export const ProjectionPanel: React.FC<ProjectionPanelProps> = ({
 
         {/* Balance Display */}
         <div className="flex justify-end lg:w-full lg:flex-col lg:items-start lg:gap-2">
-          <BalanceDisplay amount={projection?.projected_balance ?? null} isLoading={isLoading} />
+          <BalanceDisplay
+            amount={projection?.projected_balance ?? null}
+            currency={projection?.currency}
+            isLoading={isLoading}
+            formatter={formatter}
+          />
         </div>
 
+        {/* Low Balance Warning */}
+        <LowBalanceWarning
+          forecast={lowBalanceForecast}
+          onDateClick={(date) => (onAlertDateClick ? onAlertDateClick(date) : onDateChange(parseISO(date)))}
+          formatter={formatter}
+        />
+
+        {children}
+
         {/* Breakdown (Hidden on mobile if height is small, or maybe collapsible? Plan says responsive panel) */}
         {/* For now, let's keep it visible but maybe condensed or just always there as it fits in the panel */}
         <div className="hidden lg:block lg:w-full">
           <h3 className="mb-2 text-sm font-medium text-muted-foreground">Breakdown</h3>
           <div className="rounded-md border p-3">
-            <CalculationBreakdown computation={projection?.computation ?? null} />
+            <CalculationBreakdown
+              computation={projection?.computation ?? null}
+              currency={projection?.currency}
+              formatter={formatter}
+              categoryBreakdown={projection?.category_breakdown}
+              categories={categories}
+            />
           </div>
         </div>
 
         {/* Mobile Breakdown (Optional, could be in a drawer or just listed) */}
         <div className="lg:hidden w-full pt-2 border-t mt-2">
           <div className="text-xs text-muted-foreground mb-1">Breakdown</div>
-          <CalculationBreakdown computation={projection?.computation ?? null} />
+          <CalculationBreakdown
+            computation={projection?.computation ?? null}
+            currency={projection?.currency}
+            formatter={formatter}
+            categoryBreakdown={projection?.category_breakdown}
+            categories={categories}
+          />
         </div>
       </div>
     </aside>
@@ -0,0 +1,237 @@
+import React, { useState } from "react";
+import { PlusIcon, Trash2, XIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+import type { ProjectionDTO, ScenarioDTO, ScenarioDetailDTO } from "@/types";
+import type { Formatter } from "@/lib/utils/format.utils";
+
+interface ScenarioPanelProps {
+  scenarios: ScenarioDTO[];
+  activeScenarioId: string | null;
+  activeScenario: ScenarioDetailDTO | null;
+  projection: ProjectionDTO | null;
+  scenarioProjection: ProjectionDTO | null;
+  onSelect: (id: string | null) => void;
+  onCreate: (name: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onApply: (id: string) => Promise<void>;
+  onAddEntryClick: () => void;
+  onRemoveEntry: (seriesId: string) => void;
+  onRemoveOverride: (overrideId: string) => void;
+  formatter: Formatter;
+}
+
+const NO_SCENARIO = "none";
+
+export const ScenarioPanel: React.FC<ScenarioPanelProps> = ({
+  scenarios,
+  activeScenarioId,
+  activeScenario,
+  projection,
+  scenarioProjection,
+  onSelect,
+  onCreate,
+  onDelete,
+  onApply,
+  onAddEntryClick,
+  onRemoveEntry,
+  onRemoveOverride,
+  formatter,
+}) => {
+  const [newName, setNewName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [pendingAction, setPendingAction] = useState<"apply" | "delete" | null>(null);
+
+  const handleCreate = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+
+    setIsCreating(true);
+    try {
+      await onCreate(name);
+      setNewName("");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!activeScenarioId || !pendingAction) return;
+    if (pendingAction === "apply") {
+      await onApply(activeScenarioId);
+    } else {
+      await onDelete(activeScenarioId);
+    }
+    setPendingAction(null);
+  };
+
+  // Only compare projections for the same date
+  const comparison =
+    projection && scenarioProjection && projection.target_date === scenarioProjection.target_date
+      ? {
+          baseline: projection.projected_balance,
+          scenario: scenarioProjection.projected_balance,
+          difference: Math.round((scenarioProjection.projected_balance - projection.projected_balance) * 100) / 100,
+          currency: projection.currency,
+        }
+      : null;
+
+  return (
+    <div className="space-y-3 lg:w-full" data-testid="scenario-panel">
+      <h3 className="text-sm font-medium text-muted-foreground">What-if Scenario</h3>
+
+      <Select value={activeScenarioId ?? NO_SCENARIO} onValueChange={(v) => onSelect(v === NO_SCENARIO ? null : v)}>
+        <SelectTrigger className="w-full" data-testid="scenario-select">
+          <SelectValue placeholder="No scenario" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_SCENARIO}>No scenario</SelectItem>
+          {scenarios.map((scenario) => (
+            <SelectItem key={scenario.id} value={scenario.id}>
+              {scenario.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <form onSubmit={handleCreate} className="flex gap-2">
+        <Input
+          placeholder="New scenario name"
+          value={newName}
+          maxLength={100}
+          onChange={(e) => setNewName(e.target.value)}
+          data-testid="scenario-name-input"
+        />
+        <Button type="submit" variant="outline" size="icon" disabled={isCreating || !newName.trim()}>
+          <PlusIcon className="h-4 w-4" />
+          <span className="sr-only">Create scenario</span>
+        </Button>
+      </form>
+
+      {activeScenario && (
+        <div className="space-y-3 rounded-md border p-3">
+          {/* Baseline vs scenario */}
+          {comparison && (
+            <dl className="grid grid-cols-3 gap-2 text-xs" data-testid="scenario-comparison">
+              <div>
+                <dt className="text-muted-foreground">Baseline</dt>
+                <dd className={cn("font-semibold", comparison.baseline < 0 && "text-red-500")}>
+                  {formatter.currency(comparison.baseline, comparison.currency)}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Scenario</dt>
+                <dd className={cn("font-semibold", comparison.scenario < 0 && "text-red-500")}>
+                  {formatter.currency(comparison.scenario, comparison.currency)}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Difference</dt>
+                <dd
+                  className={cn("font-semibold", comparison.difference < 0 ? "text-rose-600" : "text-emerald-600")}
+                  data-testid="scenario-difference"
+                >
+                  {comparison.difference > 0 ? "+" : ""}
+                  {formatter.currency(comparison.difference, comparison.currency)}
+                </dd>
+              </div>
+            </dl>
+          )}
+
+          {activeScenario.applied_at && (
+            <p className="text-xs text-muted-foreground">Applied on {formatter.date(activeScenario.applied_at)}</p>
+          )}
+
+          {/* Hypothetical entries */}
+          <ul className="space-y-1 text-xs">
+            {activeScenario.entries.map((entry) => (
+              <li key={entry.id} className="flex items-center justify-between gap-2">
+                <span className="truncate">
+                  {/* Transfers move money between wallets and stay unsigned */}
+                  {entry.entry_type === "income" ? "+" : entry.entry_type === "expense" ? "-" : ""}
+                  {formatter.currency(entry.amount, entry.currency)} {entry.title}
+                </span>
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onRemoveEntry(entry.id)}>
+                  <XIcon className="h-3 w-3" />
+                  <span className="sr-only">Remove entry</span>
+                </Button>
+              </li>
+            ))}
+            {activeScenario.overrides.map((override) => (
+              <li key={override.id} className="flex items-center justify-between gap-2">
+                <span className="truncate text-muted-foreground">
+                  {override.exception_type === "skip" ? "Skipped" : `${override.title}:`}{" "}
+                  {/* Override amounts are in the currency of the overridden series */}
+                  {override.exception_type === "override" &&
+                    override.amount !== null &&
+                    formatter.number(override.amount)}{" "}
+                  {formatter.date(override.exception_date)}
+                </span>
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onRemoveOverride(override.id)}>
+                  <XIcon className="h-3 w-3" />
+                  <span className="sr-only">Remove override</span>
+                </Button>
+              </li>
+            ))}
+            {activeScenario.entries.length === 0 && activeScenario.overrides.length === 0 && (
+              <li className="text-muted-foreground">
+                Add hypothetical entries, or skip real occurrences from the list.
+              </li>
+            )}
+          </ul>
+
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant="outline" onClick={onAddEntryClick} data-testid="scenario-add-entry">
+              <PlusIcon className="mr-1 h-3 w-3" />
+              Entry
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => setPendingAction("apply")}
+              disabled={activeScenario.entries.length === 0 && activeScenario.overrides.length === 0}
+              data-testid="scenario-apply"
+            >
+              Apply
+            </Button>
+            <Button size="sm" variant="ghost" className="text-rose-600" onClick={() => setPendingAction("delete")}>
+              <Trash2 className="h-3 w-3" />
+              <span className="sr-only">Delete scenario</span>
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <AlertDialog open={pendingAction !== null} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent className="sm:max-w-[425px]">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingAction === "apply" ? "Apply Scenario" : "Delete Scenario"}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction === "apply"
+                ? "The scenario's entries and overrides will become part of your real plan. This action cannot be undone."
+                : "The scenario and its hypothetical entries will be deleted. Your real entries are not affected."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm}>
+              {pendingAction === "apply" ? "Apply" : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import type { BalanceTimelinePointDTO, TimelineGranularity } from "@/types";
+
+// Longest ranges drawn per day / per week before falling back to coarser buckets
+const MAX_DAILY_DAYS = 366;
+const MAX_WEEKLY_DAYS = 1830;
+
+export interface ChartDimensions {
+  width: number;
+  height: number;
+  padding: { top: number; right: number; bottom: number; left: number };
+}
+
+export interface ChartGeometry {
+  xs: number[]; // x of each point
+  ys: number[]; // y of each point's closing balance
+  linePath: string;
+  areaPath: string;
+  comparisonPath: string; // line of the comparison balances, empty without comparison points
+  zeroY: number | null; // y of the zero line, null if zero is outside the value range
+  baselineY: number; // y the area is filled to
+  minValue: number;
+  maxValue: number;
+  step: number; // horizontal distance between points
+}
+
+/**
+ * Picks the timeline granularity for a date range so charts stay readable
+ * @param from - First day of the range (YYYY-MM-DD)
+ * @param to - Last day of the range (YYYY-MM-DD)
+ */
+export function pickTimelineGranularity(from: string, to: string): TimelineGranularity {
+  const days = (new Date(to).getTime() - new Date(from).getTime()) / 86_400_000 + 1;
+  if (days <= MAX_DAILY_DAYS) return "day";
+  if (days <= MAX_WEEKLY_DAYS) return "week";
+  return "month";
+}
+
+/**
+ * Maps timeline points to SVG coordinates
+ * The value range covers closing and minimum balances, so dips inside week/month buckets stay visible
+ * Comparison points (e.g. a scenario over the same buckets) share the scale; they are ignored unless
+ * there is one per point
+ */
+export function buildChartGeometry(
+  points: BalanceTimelinePointDTO[],
+  dimensions: ChartDimensions,
+  comparisonPoints: BalanceTimelinePointDTO[] = []
+): ChartGeometry {
+  const { width, height, padding } = dimensions;
+  const innerWidth = width - padding.left - padding.right;
+  const innerHeight = height - padding.top - padding.bottom;
+
+  const comparison = comparisonPoints.length === points.length ? comparisonPoints : [];
+  const values = [...points, ...comparison].flatMap((point) => [point.balance, point.min_balance]);
+  let minValue = values.length > 0 ? Math.min(...values) : 0;
+  let maxValue = values.length > 0 ? Math.max(...values) : 0;
+  if (minValue === maxValue) {
+    minValue -= 1;
+    maxValue += 1;
+  }
+
+  const step = points.length > 1 ? innerWidth / (points.length - 1) : 0;
+  const xs = points.map((_, index) =>
+    points.length > 1 ? padding.left + index * step : padding.left + innerWidth / 2
+  );
+  const toY = (value: number) => padding.top + ((maxValue - value) / (maxValue - minValue)) * innerHeight;
+  const ys = points.map((point) => toY(point.balance));
+
+  const zeroY = minValue <= 0 && maxValue >= 0 ? toY(0) : null;
+  const baselineY = zeroY ?? (maxValue < 0 ? padding.top : padding.top + innerHeight);
+
+  const linePath = xs.map((x, index) => `${index === 0 ? "M" : "L"}${round(x)},${round(ys[index])}`).join(" ");
+  const areaPath =
+    points.length > 0
+      ? `${linePath} L${round(xs[xs.length - 1])},${round(baselineY)} L${round(xs[0])},${round(baselineY)} Z`
+      : "";
+  const comparisonPath = comparison
+    .map((point, index) => `${index === 0 ? "M" : "L"}${round(xs[index])},${round(toY(point.balance))}`)
+    .join(" ");
+
+  return { xs, ys, linePath, areaPath, comparisonPath, zeroY, baselineY, minValue, maxValue, step };
+}
+
+/**
+ * Finds the point whose bucket contains a date
+ * @param points - Timeline points
+ * @param date - Date to look up (YYYY-MM-DD)
+ * @returns Index of the point, or -1 if the date is outside the timeline
+ */
+export function findPointIndex(points: BalanceTimelinePointDTO[], date: string): number {
+  return points.findIndex((point) => point.date <= date && date <= point.end_date);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,188 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import type { BalanceCheckpointDTO, CreateBalanceCheckpointCommand } from "@/types";
+import type { Formatter } from "@/lib/utils/format.utils";
+
+interface BalanceCheckpointsProps {
+  walletId: string;
+  currency: string; // The wallet's currency
+  formatter: Formatter;
+  reloadKey?: number; // Changing it reloads the list (e.g. after the starting balance changed the drift)
+  today: string; // Default date of new checkpoints (YYYY-MM-DD, in the user's time zone)
+}
+
+/**
+ * Observed balances recorded after the starting balance, with the drift of the projection at each of them
+ */
+export function BalanceCheckpoints({ walletId, currency, formatter, reloadKey = 0, today }: BalanceCheckpointsProps) {
+  const formatCurrency = (val: number) => formatter.currency(val, currency);
+  const [checkpoints, setCheckpoints] = useState<BalanceCheckpointDTO[]>([]);
+  const [date, setDate] = useState(today);
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadCheckpoints = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/starting-balance/checkpoints?wallet=${walletId}`, {
+        headers: { "Cache-Control": "no-cache" },
+      });
+      if (!response.ok) {
+        throw new Error("Failed to load balance checkpoints");
+      }
+      setCheckpoints(await response.json());
+    } catch (error) {
+      console.error("Failed to load balance checkpoints:", error);
+    }
+  }, [walletId]);
+
+  useEffect(() => {
+    loadCheckpoints();
+  }, [loadCheckpoints, reloadKey]);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const value = Number(amount);
+    if (amount.trim() === "" || isNaN(value)) {
+      setError("Amount must be a number");
+      return;
+    }
+    setError(null);
+
+    setIsSaving(true);
+    try {
+      const command: CreateBalanceCheckpointCommand = {
+        checkpoint_date: date,
+        amount: value,
+        note: note.trim() || null,
+      };
+
+      const response = await fetch(`/api/starting-balance/checkpoints?wallet=${walletId}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(command),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.checkpoint_date || errorData.message || "Failed to add balance checkpoint");
+      }
+
+      setAmount("");
+      setNote("");
+      toast.success("Balance checkpoint added");
+      await loadCheckpoints();
+    } catch (error) {
+      console.error("Failed to add balance checkpoint:", error);
+      setError(error instanceof Error ? error.message : "Failed to add balance checkpoint");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const response = await fetch(`/api/starting-balance/checkpoints/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error("Failed to delete balance checkpoint");
+      }
+      toast.success("Balance checkpoint deleted");
+      await loadCheckpoints();
+    } catch (error) {
+      console.error("Failed to delete balance checkpoint:", error);
+      toast.error("Failed to delete balance checkpoint");
+    }
+  };
+
+  return (
+    <div className="space-y-4" data-testid="balance-checkpoints">
+      <div>
+        <h3 className="font-medium">Balance Checkpoints</h3>
+        <p className="text-sm text-muted-foreground">
+          Record your actual bank balance on a later date to correct the projection without moving the starting balance.
+          Enter the balance at the start of the day, before that day&apos;s entries.
+        </p>
+      </div>
+
+      {checkpoints.length > 0 && (
+        <ul className="divide-y rounded-md border text-sm">
+          {checkpoints.map((checkpoint) => (
+            <li key={checkpoint.id} className="flex items-center justify-between gap-2 p-3">
+              <div className="space-y-1">
+                <div className="font-medium">
+                  {formatter.date(checkpoint.checkpoint_date)}: {formatCurrency(checkpoint.amount)}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {checkpoint.drift === null || checkpoint.predicted_balance === null ? (
+                    "Not after the starting balance date, ignored"
+                  ) : (
+                    <>
+                      Predicted {formatCurrency(checkpoint.predicted_balance)}, drift{" "}
+                      <span
+                        className={cn(
+                          checkpoint.drift < 0 ? "text-rose-600" : checkpoint.drift > 0 && "text-emerald-600"
+                        )}
+                        data-testid="checkpoint-drift"
+                      >
+                        {checkpoint.drift > 0 ? "+" : ""}
+                        {formatCurrency(checkpoint.drift)}
+                      </span>
+                    </>
+                  )}
+                  {checkpoint.note && ` · ${checkpoint.note}`}
+                </div>
+              </div>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(checkpoint.id)}>
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Delete checkpoint</span>
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="grid gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="checkpoint_date">Date</Label>
+          <Input id="checkpoint_date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="checkpoint_amount">Observed Balance ({currency})</Label>
+          <Input
+            id="checkpoint_amount"
+            type="number"
+            step="0.01"
+            placeholder="0.00"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="checkpoint_note">Note</Label>
+          <Input
+            id="checkpoint_note"
+            placeholder="Optional"
+            maxLength={500}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </div>
+        {error && <p className="text-sm text-destructive sm:col-span-3">{error}</p>}
+        <div className="sm:col-span-3">
+          <Button type="submit" variant="outline" disabled={isSaving}>
+            {isSaving ? "Adding..." : "Add Checkpoint"}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { Pencil, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CategoryLabel } from "@/components/dashboard/CategoryLabel";
+import { flattenCategoryTree } from "@/lib/utils/category.utils";
+import type { Formatter } from "@/lib/utils/format.utils";
+import type { BudgetDTO, CategoryDTO, CreateBudgetCommand, TagDTO } from "@/types";
+
+interface BudgetsCardProps {
+  budgets: BudgetDTO[];
+  categories: CategoryDTO[];
+  tags: TagDTO[];
+  currency?: string; // The base currency budgets are set in
+  formatter: Formatter;
+  onCreate: (command: CreateBudgetCommand) => Promise<BudgetDTO>;
+  onUpdate: (id: string, command: CreateBudgetCommand) => Promise<BudgetDTO>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+// The Select value of a budget's target: "category:<id>" or "tag:<id>"
+const budgetTarget = (budget: Pick<BudgetDTO, "category_id" | "tag_id">) =>
+  budget.category_id !== null ? `category:${budget.category_id}` : `tag:${budget.tag_id}`;
+
+const EMPTY_FORM = { target: "", amount: "" };
+
+/**
+ * Lists the monthly budgets per category or tag; the form below adds a budget or edits the selected one
+ */
+export function BudgetsCard({
+  budgets,
+  categories,
+  tags,
+  currency = "PLN",
+  formatter,
+  onCreate,
+  onUpdate,
+  onDelete,
+}: BudgetsCardProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const categoryById = new Map(categories.map((category) => [category.id, category]));
+  const tagById = new Map(tags.map((tag) => [tag.id, tag]));
+  // A category or tag has at most one budget
+  const budgetedTargets = new Set(budgets.filter((budget) => budget.id !== editingId).map(budgetTarget));
+  const availableCategories = flattenCategoryTree(categories).filter(
+    ({ category }) => !budgetedTargets.has(`category:${category.id}`)
+  );
+  const availableTags = tags.filter((tag) => !budgetedTargets.has(`tag:${tag.id}`));
+
+  const startEditing = (budget: BudgetDTO) => {
+    setEditingId(budget.id);
+    setForm({ target: budgetTarget(budget), amount: String(budget.amount) });
+    setError(null);
+  };
+
+  const stopEditing = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const amount = Number(form.amount);
+    if (form.amount.trim() === "" || isNaN(amount) || amount <= 0) {
+      setError("Amount must be a number greater than 0");
+      return;
+    }
+    setError(null);
+
+    setIsSaving(true);
+    try {
+      const [kind, id] = form.target.split(":");
+      const command: CreateBudgetCommand = {
+        category_id: kind === "category" ? id : null,
+        tag_id: kind === "tag" ? id : null,
+        amount,
+      };
+      if (editingId) {
+        await onUpdate(editingId, command);
+        toast.success("Budget updated");
+      } else {
+        await onCreate(command);
+        toast.success("Budget added");
+      }
+      stopEditing();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to save budget");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (budget: BudgetDTO) => {
+    try {
+      await onDelete(budget.id);
+      if (editingId === budget.id) {
+        stopEditing();
+      }
+      toast.success("Budget deleted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete budget");
+    }
+  };
+
+  return (
+    <Card data-testid="budgets-card">
+      <CardHeader>
+        <CardTitle>Budgets</CardTitle>
+        <CardDescription>
+          Monthly spending caps per category or tag, in your base currency. A category budget also covers the
+          category&apos;s subcategories. The dashboard compares them with the expenses planned for the current month.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {categories.length === 0 && tags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add a category or tag an entry first to set a budget for it.</p>
+        ) : (
+          <>
+            {budgets.length > 0 && (
+              <ul className="divide-y rounded-md border text-sm">
+                {budgets.map((budget) => {
+                  const category = budget.category_id !== null ? categoryById.get(budget.category_id) : undefined;
+                  const tag = budget.tag_id !== null ? tagById.get(budget.tag_id) : undefined;
+                  return (
+                    <li key={budget.id} className="flex items-center justify-between gap-2 p-3">
+                      {category ? (
+                        <CategoryLabel category={category} className="font-medium" />
+                      ) : tag ? (
+                        <span className="font-medium">#{tag.name}</span>
+                      ) : (
+                        <span className="text-muted-foreground">
+                          {budget.category_id !== null ? "Unknown category" : "Unknown tag"}
+                        </span>
+                      )}
+                      <div className="flex items-center gap-2">
+                        <span>{formatter.currency(budget.amount, currency)} / month</span>
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEditing(budget)}>
+                          <Pencil className="h-4 w-4" />
+                          <span className="sr-only">Edit budget</span>
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(budget)}>
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete budget</span>
+                        </Button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            <form onSubmit={handleSubmit} className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="budget_target">Category or Tag</Label>
+                <Select value={form.target} onValueChange={(value) => setForm({ ...form, target: value })}>
+                  <SelectTrigger id="budget_target">
+                    <SelectValue placeholder="Select a category or tag" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableCategories.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Categories</SelectLabel>
+                        {availableCategories.map(({ category, depth }) => (
+                          <SelectItem key={category.id} value={`category:${category.id}`}>
+                            <CategoryLabel category={category} style={{ paddingLeft: `${depth}rem` }} />
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                    {availableTags.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Tags</SelectLabel>
+                        {availableTags.map((tag) => (
+                          <SelectItem key={tag.id} value={`tag:${tag.id}`}>
+                            #{tag.name}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="budget_amount">Monthly Amount ({currency})</Label>
+                <Input
+                  id="budget_amount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  placeholder="500.00"
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                />
+              </div>
+              {error && <p className="text-sm text-destructive sm:col-span-2">{error}</p>}
+              <div className="flex gap-2 sm:col-span-2">
+                <Button type="submit" variant="outline" disabled={isSaving || !form.target}>
+                  {isSaving ? "Saving..." : editingId ? "Save Changes" : "Add Budget"}
+                </Button>
+                {editingId && (
+                  <Button type="button" variant="ghost" onClick={stopEditing}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { CalendarFeedDTO, CalendarFeedStatusDTO } from "@/types";
+
+export function CalendarFeedCard() {
+  const [status, setStatus] = useState<CalendarFeedStatusDTO | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    const loadStatus = async () => {
+      try {
+        const response = await fetch("/api/feeds");
+        if (!response.ok) {
+          throw new Error("Failed to load calendar feed");
+        }
+        setStatus(await response.json());
+      } catch (error) {
+        console.error("Failed to load calendar feed:", error);
+      }
+    };
+    loadStatus();
+  }, []);
+
+  const handleGenerate = async () => {
+    setIsBusy(true);
+    try {
+      const response = await fetch("/api/feeds", { method: "POST" });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to create feed URL");
+      }
+
+      const data: CalendarFeedDTO = await response.json();
+      setFeedUrl(data.feed_url);
+      setStatus({ active: true, created_at: data.created_at });
+      toast.success(
+        status?.active ? "Feed URL regenerated" : "Feed URL created"
+      );
+    } catch (error) {
+      console.error("Failed to create feed URL:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to create feed URL"
+      );
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    setIsBusy(true);
+    try {
+      const response = await fetch("/api/feeds", { method: "DELETE" });
+      if (!response.ok && response.status !== 404) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to revoke feed URL");
+      }
+
+      setFeedUrl(null);
+      setStatus({ active: false, created_at: null });
+      toast.success("Feed URL revoked");
+    } catch (error) {
+      console.error("Failed to revoke feed URL:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to revoke feed URL"
+      );
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success("Feed URL copied");
+    } catch {
+      toast.error("Could not copy the URL; select and copy it manually");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Calendar Subscription</CardTitle>
+        <CardDescription>
+          Subscribe to a private URL in your phone or desktop calendar to see
+          upcoming income and bills for the next year. Anyone with the URL can
+          see these entries, so regenerate or revoke it if it leaks.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {feedUrl && (
+          <div className="space-y-2">
+            <Label htmlFor="feedUrl">Feed URL</Label>
+            <div className="flex gap-2">
+              <Input
+                id="feedUrl"
+                readOnly
+                value={feedUrl}
+                onFocus={(e) => e.target.select()}
+              />
+              <Button variant="outline" onClick={handleCopy}>
+                Copy
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Copy this URL now. For your security it will not be shown again.
+            </p>
+          </div>
+        )}
+
+        {status?.active && !feedUrl && status.created_at && (
+          <p className="text-sm text-muted-foreground">
+            A feed URL created on{" "}
+            {new Date(status.created_at).toLocaleDateString()} is active.
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={handleGenerate} disabled={isBusy || !status}>
+            {status?.active ? "Regenerate URL" : "Create Feed URL"}
+          </Button>
+          {status?.active && (
+            <Button
+              variant="outline"
+              onClick={handleRevoke}
+              disabled={isBusy}
+            >
+              Revoke
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,205 @@
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { Pencil, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CategoryIcon, CategoryLabel } from "@/components/dashboard/CategoryLabel";
+import {
+  CATEGORY_ICONS,
+  DEFAULT_CATEGORY_COLOR,
+  categorySubtreeIds,
+  flattenCategoryTree,
+} from "@/lib/utils/category.utils";
+import type { CategoryDTO, CreateCategoryCommand } from "@/types";
+
+interface CategoriesCardProps {
+  categories: CategoryDTO[];
+  onCreate: (command: CreateCategoryCommand) => Promise<CategoryDTO>;
+  onUpdate: (id: string, command: CreateCategoryCommand) => Promise<CategoryDTO>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+// Select items cannot have an empty value
+const NONE = "none";
+
+const EMPTY_FORM = { name: "", parentId: NONE, color: DEFAULT_CATEGORY_COLOR, icon: NONE };
+
+/**
+ * Lists the user's categories as a tree; the form below adds a category or edits the selected one
+ */
+export function CategoriesCard({ categories, onCreate, onUpdate, onDelete }: CategoriesCardProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const tree = flattenCategoryTree(categories);
+  // A category cannot be moved under itself or one of its subcategories
+  const excludedParentIds = editingId ? categorySubtreeIds(categories, editingId) : [];
+
+  const startEditing = (category: CategoryDTO) => {
+    setEditingId(category.id);
+    setForm({
+      name: category.name,
+      parentId: category.parent_id ?? NONE,
+      color: category.color,
+      icon: category.icon ?? NONE,
+    });
+  };
+
+  const stopEditing = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+
+    const command: CreateCategoryCommand = {
+      name: form.name.trim(),
+      parent_id: form.parentId === NONE ? null : form.parentId,
+      color: form.color,
+      icon: form.icon === NONE ? null : form.icon,
+    };
+
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        await onUpdate(editingId, command);
+        toast.success("Category updated");
+      } else {
+        const category = await onCreate(command);
+        toast.success(`Category "${category.name}" added`);
+      }
+      stopEditing();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save category");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (category: CategoryDTO) => {
+    try {
+      await onDelete(category.id);
+      if (editingId && categorySubtreeIds(categories, category.id).includes(editingId)) {
+        stopEditing();
+      }
+      toast.success(`Category "${category.name}" deleted`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete category");
+    }
+  };
+
+  return (
+    <Card data-testid="categories-card">
+      <CardHeader>
+        <CardTitle>Categories</CardTitle>
+        <CardDescription>
+          Group entries into categories such as housing or transport, with subcategories if you like. The projection
+          breaks income and expenses down by category. Deleting a category also deletes its subcategories; their entries
+          become uncategorized.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {tree.length > 0 && (
+          <ul className="divide-y rounded-md border text-sm">
+            {tree.map(({ category, depth }) => (
+              <li
+                key={category.id}
+                className="flex items-center justify-between gap-2 p-3"
+                style={{ paddingLeft: `${0.75 + depth * 1.25}rem` }}
+              >
+                <CategoryLabel category={category} className="font-medium" />
+                <div className="flex items-center">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEditing(category)}>
+                    <Pencil className="h-4 w-4" />
+                    <span className="sr-only">Edit category</span>
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(category)}>
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Delete category</span>
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleSubmit} className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="category_name">{editingId ? "Name" : "New Category"}</Label>
+            <Input
+              id="category_name"
+              placeholder="Housing"
+              maxLength={100}
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="category_parent">Parent</Label>
+            <Select value={form.parentId} onValueChange={(value) => setForm({ ...form, parentId: value })}>
+              <SelectTrigger id="category_parent">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>None (top level)</SelectItem>
+                {tree
+                  .filter(({ category }) => !excludedParentIds.includes(category.id))
+                  .map(({ category, depth }) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {"\u00a0\u00a0".repeat(depth)}
+                      {category.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="category_color">Colour</Label>
+            <Input
+              id="category_color"
+              type="color"
+              className="h-10 w-20 p-1"
+              value={form.color}
+              onChange={(e) => setForm({ ...form, color: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="category_icon">Icon</Label>
+            <Select value={form.icon} onValueChange={(value) => setForm({ ...form, icon: value })}>
+              <SelectTrigger id="category_icon">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No icon</SelectItem>
+                {CATEGORY_ICONS.map((icon) => (
+                  <SelectItem key={icon} value={icon}>
+                    <span className="inline-flex items-center gap-2">
+                      <CategoryIcon category={{ color: form.color, icon }} className="h-4 w-4" />
+                      {icon.replace(/-/g, " ")}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2 sm:col-span-2">
+            <Button type="submit" variant="outline" disabled={isSaving || !form.name.trim()}>
+              {isSaving ? "Saving..." : editingId ? "Save Changes" : "Add Category"}
+            </Button>
+            {editingId && (
+              <Button type="button" variant="ghost" onClick={stopEditing}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,247 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type {
+  CreateExchangeRateCommand,
+  ExchangeRateDTO,
+  UpdateUserPreferencesCommand,
+  UserPreferencesDTO,
+} from "@/types";
+import type { Formatter } from "@/lib/utils/format.utils";
+
+interface ExchangeRatesCardProps {
+  formatter: Formatter;
+  today: string; // Default date of new rates (YYYY-MM-DD, in the user's time zone)
+}
+
+/**
+ * The base currency that consolidated projections and exports use, and the dated rates that
+ * convert other currencies into it
+ */
+export function ExchangeRatesCard({ formatter, today }: ExchangeRatesCardProps) {
+  const [baseCurrency, setBaseCurrency] = useState("");
+  const [rates, setRates] = useState<ExchangeRateDTO[]>([]);
+  const [currency, setCurrency] = useState("");
+  const [date, setDate] = useState(today);
+  const [rate, setRate] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadRates = useCallback(async () => {
+    try {
+      const response = await fetch("/api/exchange-rates", { headers: { "Cache-Control": "no-cache" } });
+      if (!response.ok) {
+        throw new Error("Failed to load exchange rates");
+      }
+      setRates(await response.json());
+    } catch (error) {
+      console.error("Failed to load exchange rates:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      try {
+        const response = await fetch("/api/preferences");
+        if (!response.ok) {
+          throw new Error("Failed to load preferences");
+        }
+        const data: UserPreferencesDTO = await response.json();
+        setBaseCurrency(data.base_currency);
+        setIsLoaded(true);
+      } catch (error) {
+        console.error("Failed to load preferences:", error);
+      }
+    };
+    loadPreferences();
+    loadRates();
+  }, [loadRates]);
+
+  const handleBaseCurrencySubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    try {
+      const command: UpdateUserPreferencesCommand = { base_currency: baseCurrency.trim().toUpperCase() };
+
+      const response = await fetch("/api/preferences", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(command),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.base_currency || errorData.message || "Failed to update base currency");
+      }
+
+      const data: UserPreferencesDTO = await response.json();
+      setBaseCurrency(data.base_currency);
+      toast.success("Base currency updated");
+    } catch (error) {
+      console.error("Failed to update base currency:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update base currency");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRateSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const value = Number(rate);
+    if (rate.trim() === "" || isNaN(value)) {
+      setError("Rate must be a number");
+      return;
+    }
+    setError(null);
+
+    setIsSaving(true);
+    try {
+      const command: CreateExchangeRateCommand = {
+        currency: currency.trim().toUpperCase(),
+        rate_date: date,
+        rate: value,
+      };
+
+      const response = await fetch("/api/exchange-rates", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(command),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(
+          errorData.details?.currency || errorData.details?.rate || errorData.message || "Failed to add exchange rate"
+        );
+      }
+
+      setRate("");
+      toast.success("Exchange rate added");
+      await loadRates();
+    } catch (error) {
+      console.error("Failed to add exchange rate:", error);
+      setError(error instanceof Error ? error.message : "Failed to add exchange rate");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const response = await fetch(`/api/exchange-rates/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error("Failed to delete exchange rate");
+      }
+      toast.success("Exchange rate deleted");
+      await loadRates();
+    } catch (error) {
+      console.error("Failed to delete exchange rate:", error);
+      toast.error("Failed to delete exchange rate");
+    }
+  };
+
+  return (
+    <Card data-testid="exchange-rates-card">
+      <CardHeader>
+        <CardTitle>Currencies</CardTitle>
+        <CardDescription>
+          Projections of all wallets and CSV exports are shown in your base currency, which new wallets also use by
+          default. Amounts in other currencies are converted with the latest rate on or before their date.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleBaseCurrencySubmit} className="flex items-end gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="base_currency">Base Currency</Label>
+            <Input
+              id="base_currency"
+              maxLength={3}
+              className="w-24 uppercase"
+              value={baseCurrency}
+              onChange={(e) => setBaseCurrency(e.target.value)}
+              disabled={!isLoaded}
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={isSaving || !isLoaded}>
+            Save
+          </Button>
+        </form>
+
+        <div className="space-y-4">
+          <div>
+            <h3 className="font-medium">Exchange Rates</h3>
+            <p className="text-sm text-muted-foreground">
+              How many units of the base currency one unit of a currency is worth, from the given date on.
+            </p>
+          </div>
+
+          {rates.length > 0 && (
+            <ul className="divide-y rounded-md border text-sm">
+              {rates.map((exchangeRate) => (
+                <li key={exchangeRate.id} className="flex items-center justify-between gap-2 p-3">
+                  <span>
+                    <span className="font-medium">
+                      1 {exchangeRate.currency} = {exchangeRate.rate} {baseCurrency}
+                    </span>{" "}
+                    <span className="text-muted-foreground">from {formatter.date(exchangeRate.rate_date)}</span>
+                  </span>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(exchangeRate.id)}>
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Delete exchange rate</span>
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleRateSubmit} className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="rate_currency">Currency</Label>
+              <Input
+                id="rate_currency"
+                placeholder="EUR"
+                maxLength={3}
+                className="uppercase"
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate_date">From</Label>
+              <Input id="rate_date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate_value">Rate ({baseCurrency || "base"})</Label>
+              <Input
+                id="rate_value"
+                type="number"
+                step="any"
+                min="0"
+                placeholder="0.00"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+              />
+            </div>
+            {error && <p className="text-sm text-destructive sm:col-span-3">{error}</p>}
+            <div className="sm:col-span-3">
+              <Button type="submit" variant="outline" disabled={isSaving || !currency.trim()}>
+                {isSaving ? "Adding..." : "Add Rate"}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
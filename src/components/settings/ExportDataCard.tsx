@@ -17,24 +17,32 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import type { EntryType } from "@/types";
+import type { CSVFormatting, EntryType, QIFDateFormat } from "@/types";
 
-export function ExportDataCard() {
+interface ExportDataCardProps {
+  today: string; // YYYY-MM-DD, in the user's time zone
+}
+
+export function ExportDataCard({ today }: ExportDataCardProps) {
   const [isExporting, setIsExporting] = useState(false);
   const [fromDate, setFromDate] = useState("");
   const [toDate, setToDate] = useState("");
   const [entryType, setEntryType] = useState<EntryType | "all">("all");
+  const [qifDateFormat, setQifDateFormat] = useState<QIFDateFormat>("MDY");
+  const [csvFormatting, setCsvFormatting] = useState<CSVFormatting>("iso");
 
-  const handleExport = async () => {
+  const handleExport = async (format: "csv" | "ics" | "ofx" | "qif") => {
     setIsExporting(true);
     try {
-      // Build query params
+      // Build query params (the calendar export covers whole series, so no date range)
       const params = new URLSearchParams();
-      if (fromDate) params.set("from_date", fromDate);
-      if (toDate) params.set("to_date", toDate);
+      if (format !== "ics" && fromDate) params.set("from_date", fromDate);
+      if (format !== "ics" && toDate) params.set("to_date", toDate);
       if (entryType !== "all") params.set("entry_type", entryType);
+      if (format === "qif") params.set("date_format", qifDateFormat);
+      if (format === "csv") params.set("formatting", csvFormatting);
 
-      const url = `/api/export/csv${params.toString() ? `?${params.toString()}` : ""}`;
+      const url = `/api/export/${format}${params.toString() ? `?${params.toString()}` : ""}`;
       
       // Trigger download
       const response = await fetch(url);
@@ -51,7 +59,7 @@ export function ExportDataCard() {
       link.href = downloadUrl;
       
       // Generate filename with current date
-      const filename = `expense-plotter-export-${new Date().toISOString().split("T")[0]}.csv`;
+      const filename = `expense-plotter-export-${today}.${format}`;
       link.download = filename;
       
       document.body.appendChild(link);
@@ -76,7 +84,9 @@ export function ExportDataCard() {
         <CardTitle>Export Data</CardTitle>
         <CardDescription>
           Download your financial data as a CSV file. You can filter by date range
-          and entry type.
+          and entry type. The calendar file contains your recurring entries for
+          Google Calendar, Outlook or Apple Calendar. OFX and QIF files open in
+          desktop finance tools such as Quicken, GnuCash or HomeBank.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -118,9 +128,64 @@ export function ExportDataCard() {
           </Select>
         </div>
 
-        <Button onClick={handleExport} disabled={isExporting}>
-          {isExporting ? "Exporting..." : "Download CSV"}
-        </Button>
+        <div className="space-y-2">
+          <Label htmlFor="csvFormatting">CSV Dates and Amounts</Label>
+          <Select
+            value={csvFormatting}
+            onValueChange={(value) => setCsvFormatting(value as CSVFormatting)}
+          >
+            <SelectTrigger id="csvFormatting">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="iso">Standard (2026-10-19, 1234.50)</SelectItem>
+              <SelectItem value="localized">My display format</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="qifDateFormat">QIF Dates</Label>
+          <Select
+            value={qifDateFormat}
+            onValueChange={(value) => setQifDateFormat(value as QIFDateFormat)}
+          >
+            <SelectTrigger id="qifDateFormat">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="MDY">Month first (10/19/2026)</SelectItem>
+              <SelectItem value="DMY">Day first (19.10.2026)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={() => handleExport("csv")} disabled={isExporting}>
+            {isExporting ? "Exporting..." : "Download CSV"}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleExport("ics")}
+            disabled={isExporting}
+          >
+            Download Calendar (.ics)
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleExport("ofx")}
+            disabled={isExporting}
+          >
+            Download OFX
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleExport("qif")}
+            disabled={isExporting}
+          >
+            Download QIF
+          </Button>
+        </div>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  CURRENCY_DISPLAYS,
+  DATE_FORMATS,
+  DEFAULT_FORMAT_PREFERENCES,
+  createFormatter,
+  type FormatPreferences,
+} from "@/lib/utils/format.utils";
+import { DEFAULT_TIME_ZONE, isValidTimeZone, todayInTimeZone } from "@/lib/utils/date.utils";
+import type { UpdateUserPreferencesCommand, UserPreferencesDTO } from "@/types";
+
+interface FormattingCardProps {
+  preferences: UserPreferencesDTO | null; // null while loading
+  onSave: (command: UpdateUserPreferencesCommand) => Promise<UserPreferencesDTO>;
+}
+
+const CURRENCY_DISPLAY_LABELS: Record<(typeof CURRENCY_DISPLAYS)[number], string> = {
+  symbol: "Symbol",
+  narrowSymbol: "Narrow symbol",
+  code: "Currency code",
+};
+
+const WEEK_DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Shown in the preview
+const SAMPLE_AMOUNT = -1234.5;
+const SAMPLE_DATE = "2025-03-07";
+
+/**
+ * How amounts and dates are shown on the dashboard and in CSV exports, and the time zone that decides
+ * which date is today
+ */
+export function FormattingCard({ preferences, onSave }: FormattingCardProps) {
+  const [values, setValues] = useState<FormatPreferences>(DEFAULT_FORMAT_PREFERENCES);
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (preferences) {
+      const { currency_display, number_locale, date_format, week_starts_on } = preferences;
+      setValues({ currency_display, number_locale, date_format, week_starts_on });
+      setTimeZone(preferences.time_zone);
+    }
+  }, [preferences]);
+
+  const isTimeZoneValid = isValidTimeZone(timeZone.trim());
+
+  // An unsupported locale would make Intl throw while typing
+  let preview: string | null = null;
+  try {
+    const formatter = createFormatter(values);
+    preview = `${formatter.currency(SAMPLE_AMOUNT, preferences?.base_currency ?? "PLN")} · ${formatter.date(SAMPLE_DATE)}`;
+  } catch {
+    preview = null;
+  }
+
+  const applyDeviceTimeZone = () => {
+    setTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    try {
+      await onSave({ ...values, number_locale: values.number_locale.trim(), time_zone: timeZone.trim() });
+      toast.success("Formatting updated");
+    } catch (error) {
+      console.error("Failed to update formatting:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update formatting");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card data-testid="formatting-card">
+      <CardHeader>
+        <CardTitle>Formatting and Time Zone</CardTitle>
+        <CardDescription>
+          How amounts and dates are shown on the dashboard and in CSV exports, which day calendars start the week on,
+          and the time zone that decides which date is today.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="number_locale">Number Locale</Label>
+            <Input
+              id="number_locale"
+              placeholder="pl-PL"
+              maxLength={6}
+              value={values.number_locale}
+              onChange={(e) => setValues({ ...values, number_locale: e.target.value })}
+              disabled={!preferences}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="currency_display">Currency Display</Label>
+            <Select
+              value={values.currency_display}
+              onValueChange={(value) => setValues({ ...values, currency_display: value })}
+              disabled={!preferences}
+            >
+              <SelectTrigger id="currency_display">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCY_DISPLAYS.map((display) => (
+                  <SelectItem key={display} value={display}>
+                    {CURRENCY_DISPLAY_LABELS[display]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="date_format">Date Format</Label>
+            <Select
+              value={values.date_format}
+              onValueChange={(value) => setValues({ ...values, date_format: value })}
+              disabled={!preferences}
+            >
+              <SelectTrigger id="date_format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DATE_FORMATS.map((dateFormat) => (
+                  <SelectItem key={dateFormat} value={dateFormat}>
+                    {createFormatter({ date_format: dateFormat }).date(SAMPLE_DATE)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="week_starts_on">First Day of Week</Label>
+            <Select
+              value={values.week_starts_on.toString()}
+              onValueChange={(value) => setValues({ ...values, week_starts_on: Number(value) })}
+              disabled={!preferences}
+            >
+              <SelectTrigger id="week_starts_on">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEK_DAYS.map((day, index) => (
+                  <SelectItem key={day} value={index.toString()}>
+                    {day}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="time_zone">Time Zone</Label>
+            <div className="flex gap-2">
+              <Input
+                id="time_zone"
+                placeholder={DEFAULT_TIME_ZONE}
+                maxLength={64}
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+                disabled={!preferences}
+              />
+              <Button type="button" variant="outline" onClick={applyDeviceTimeZone} disabled={!preferences}>
+                Use This Device&apos;s
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {isTimeZoneValid
+                ? `Today is ${todayInTimeZone(timeZone.trim())} in this time zone.`
+                : "Enter an IANA time zone such as Europe/Warsaw or America/New_York"}
+            </p>
+          </div>
+          <p className="text-sm text-muted-foreground sm:col-span-2" data-testid="formatting-preview">
+            {preview ? `Preview: ${preview}` : "Enter a locale such as pl-PL, en-US or de-DE"}
+          </p>
+          <div className="sm:col-span-2">
+            <Button type="submit" disabled={isSaving || !preferences || !preview || !isTimeZoneValid}>
+              {isSaving ? "Saving..." : "Save Changes"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
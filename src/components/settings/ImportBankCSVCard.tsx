@@ -0,0 +1,511 @@
+import React, { useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCSVImportPresets } from "@/hooks/useCSVImportPresets";
+import {
+  BANK_CSV_FORMAT_NAMES,
+  CSV_DATE_FORMATS,
+  defaultCSVMapping,
+  detectBankCSVFormat,
+  parseCSVRecords,
+  readCSVTransactions,
+} from "@/lib/utils/bank-csv.utils";
+import type {
+  BankCSVFormat,
+  CSVColumnMapping,
+  CSVDateFormat,
+  CSVSignConvention,
+  StatementImportResponseDTO,
+  WalletDTO,
+} from "@/types";
+
+interface ImportBankCSVCardProps {
+  wallets: WalletDTO[];
+}
+
+const DELIMITER_LABELS: Record<CSVColumnMapping["delimiter"], string> = {
+  ",": "Comma",
+  ";": "Semicolon",
+  "\t": "Tab",
+};
+
+const SIGN_CONVENTION_LABELS: Record<CSVSignConvention, string> = {
+  negative_is_expense: "Negative amounts are expenses",
+  positive_is_expense: "Positive amounts are expenses",
+  debit_credit: "Separate debit and credit columns",
+};
+
+// Rows read to find the number of columns and their headers
+const SAMPLE_ROWS = 100;
+
+// Statements are UTF-8 or, from older bank systems, Windows-1250
+const decodeStatement = (buffer: ArrayBuffer) => {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder("windows-1250").decode(buffer);
+  }
+};
+
+/**
+ * Imports a bank statement CSV file as one-time entries: the columns are mapped (recognized automatically for
+ * mBank, PKO BP and ING), the transactions previewed and the selected ones imported
+ */
+export function ImportBankCSVCard({ wallets }: ImportBankCSVCardProps) {
+  const { presets, createPreset, updatePreset, deletePreset } = useCSVImportPresets();
+  const [content, setContent] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<CSVColumnMapping | null>(null);
+  const [detectedFormat, setDetectedFormat] = useState<BankCSVFormat | null>(null);
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(new Set());
+  const [walletId, setWalletId] = useState("");
+  const [presetName, setPresetName] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<StatementImportResponseDTO | null>(null);
+
+  const preview = useMemo(
+    () => (content !== null && mapping ? readCSVTransactions(content, mapping) : null),
+    [content, mapping]
+  );
+
+  // Column choices, named after the header row (the last skipped row) if there is one
+  const columns = useMemo(() => {
+    if (content === null || !mapping) return [];
+    const records = parseCSVRecords(content, mapping.delimiter).slice(0, mapping.skip_rows + SAMPLE_ROWS);
+    const headers = mapping.skip_rows > 0 ? (records[mapping.skip_rows - 1] ?? []) : [];
+    const count = Math.max(0, ...records.slice(mapping.skip_rows).map((record) => record.length));
+    return Array.from({ length: count }, (_, index) => {
+      const header = headers[index]?.trim().replace(/^#/, "");
+      return { value: String(index), label: header ? `${index + 1}. ${header}` : `Column ${index + 1}` };
+    });
+  }, [content, mapping]);
+
+  const updateMapping = (changes: Partial<CSVColumnMapping>) => {
+    setMapping((prev) => (prev ? { ...prev, ...changes } : prev));
+    setExcludedRows(new Set());
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const text = decodeStatement(await file.arrayBuffer());
+    const detected = detectBankCSVFormat(text);
+    setContent(text);
+    setMapping(detected?.mapping ?? defaultCSVMapping(text));
+    setDetectedFormat(detected?.format ?? null);
+    setExcludedRows(new Set());
+    setResult(null);
+    e.target.value = "";
+  };
+
+  const handlePresetChange = (id: string) => {
+    const preset = presets.find((p) => p.id === id);
+    if (!preset) return;
+    updateMapping(preset.mapping);
+    setPresetName(preset.name);
+  };
+
+  const handleSavePreset = async () => {
+    if (!mapping || presetName.trim() === "") return;
+    try {
+      // Saving under an existing name replaces that preset's mapping
+      const existing = presets.find((p) => p.name === presetName.trim());
+      if (existing) {
+        await updatePreset(existing.id, { name: existing.name, mapping });
+      } else {
+        await createPreset({ name: presetName.trim(), mapping });
+      }
+      toast.success("Preset saved");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save preset");
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    const preset = presets.find((p) => p.name === presetName.trim());
+    if (!preset) return;
+    try {
+      await deletePreset(preset.id);
+      setPresetName("");
+      toast.success("Preset deleted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete preset");
+    }
+  };
+
+  const toggleRow = (row: number) => {
+    setExcludedRows((prev) => {
+      const next = new Set(prev);
+      if (next.has(row)) {
+        next.delete(row);
+      } else {
+        next.add(row);
+      }
+      return next;
+    });
+  };
+
+  const selectedRows = preview?.transactions.filter((t) => !excludedRows.has(t.row)).map((t) => t.row) ?? [];
+
+  const handleImport = async () => {
+    if (content === null || !mapping || selectedRows.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      const response = await fetch("/api/import/csv", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content, mapping, wallet_id: walletId || undefined, rows: selectedRows }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to import statement");
+      }
+
+      const data: StatementImportResponseDTO = await response.json();
+      setResult(data);
+      setContent(null);
+      setMapping(null);
+      toast.success(`Imported ${data.imported.length} entries`);
+    } catch (error) {
+      console.error("Failed to import statement:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to import statement");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const columnSelect = (id: string, label: string, value: number, onChange: (column: number) => void) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={String(value)} onValueChange={(v) => onChange(Number(v))}>
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Select a column" />
+        </SelectTrigger>
+        <SelectContent>
+          {columns.map((column) => (
+            <SelectItem key={column.value} value={column.value}>
+              {column.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Card data-testid="bank-csv-import-card">
+      <CardHeader>
+        <CardTitle>Import Bank Statement</CardTitle>
+        <CardDescription>
+          Create one-time entries from a bank statement CSV file. Statements from mBank, PKO BP and ING are recognized
+          automatically; for other banks, map the columns and save the mapping as a preset.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="statementFile">Statement File</Label>
+          <Input
+            id="statementFile"
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFileChange}
+            disabled={isImporting}
+          />
+        </div>
+
+        {mapping && preview && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {detectedFormat
+                ? `Recognized a ${BANK_CSV_FORMAT_NAMES[detectedFormat]} statement.`
+                : "Bank not recognized; check the column mapping below."}
+            </p>
+
+            {presets.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="csv_preset">Preset</Label>
+                <Select value={presets.find((p) => p.name === presetName)?.id ?? ""} onValueChange={handlePresetChange}>
+                  <SelectTrigger id="csv_preset">
+                    <SelectValue placeholder="Apply a saved mapping" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {presets.map((preset) => (
+                      <SelectItem key={preset.id} value={preset.id}>
+                        {preset.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="csv_delimiter">Delimiter</Label>
+                <Select
+                  value={mapping.delimiter}
+                  onValueChange={(value) => updateMapping({ delimiter: value as CSVColumnMapping["delimiter"] })}
+                >
+                  <SelectTrigger id="csv_delimiter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(DELIMITER_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="csv_skip_rows">Rows Before Transactions</Label>
+                <Input
+                  id="csv_skip_rows"
+                  type="number"
+                  min={0}
+                  value={mapping.skip_rows}
+                  onChange={(e) => updateMapping({ skip_rows: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                />
+              </div>
+              {columnSelect("csv_date_column", "Date Column", mapping.date_column, (column) =>
+                updateMapping({ date_column: column })
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="csv_date_format">Date Format</Label>
+                <Select
+                  value={mapping.date_format}
+                  onValueChange={(value) => updateMapping({ date_format: value as CSVDateFormat })}
+                >
+                  <SelectTrigger id="csv_date_format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_DATE_FORMATS.map((format) => (
+                      <SelectItem key={format} value={format}>
+                        {format}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="csv_sign_convention">Amount Sign</Label>
+                <Select
+                  value={mapping.sign_convention}
+                  onValueChange={(value) =>
+                    updateMapping({
+                      sign_convention: value as CSVSignConvention,
+                      // The debit column is only used, and then required, with separate columns
+                      debit_column: value === "debit_credit" ? (mapping.debit_column ?? mapping.amount_column) : null,
+                    })
+                  }
+                >
+                  <SelectTrigger id="csv_sign_convention">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(SIGN_CONVENTION_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="csv_decimal_separator">Decimal Separator</Label>
+                <Select
+                  value={mapping.decimal_separator}
+                  onValueChange={(value) =>
+                    updateMapping({ decimal_separator: value as CSVColumnMapping["decimal_separator"] })
+                  }
+                >
+                  <SelectTrigger id="csv_decimal_separator">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value=".">Dot (1234.56)</SelectItem>
+                    <SelectItem value=",">Comma (1234,56)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {columnSelect(
+                "csv_amount_column",
+                mapping.sign_convention === "debit_credit" ? "Credit Column" : "Amount Column",
+                mapping.amount_column,
+                (column) => updateMapping({ amount_column: column })
+              )}
+              {mapping.debit_column !== null &&
+                columnSelect("csv_debit_column", "Debit Column", mapping.debit_column, (column) =>
+                  updateMapping({ debit_column: column })
+                )}
+              <div className="space-y-2">
+                <Label htmlFor="csv_currency_column">Currency Column</Label>
+                <Select
+                  value={mapping.currency_column === null ? "none" : String(mapping.currency_column)}
+                  onValueChange={(value) => updateMapping({ currency_column: value === "none" ? null : Number(value) })}
+                >
+                  <SelectTrigger id="csv_currency_column">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None (wallet currency)</SelectItem>
+                    {columns.map((column) => (
+                      <SelectItem key={column.value} value={column.value}>
+                        {column.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium">Description Columns</legend>
+              <div className="grid gap-1 sm:grid-cols-2">
+                {columns.map((column) => {
+                  const index = Number(column.value);
+                  return (
+                    <label key={column.value} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={mapping.description_columns.includes(index)}
+                        onChange={(e) =>
+                          updateMapping({
+                            description_columns: e.target.checked
+                              ? [...mapping.description_columns, index].sort((a, b) => a - b)
+                              : mapping.description_columns.filter((c) => c !== index),
+                          })
+                        }
+                      />
+                      {column.label}
+                    </label>
+                  );
+                })}
+              </div>
+            </fieldset>
+
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="csv_preset_name">Preset Name</Label>
+                <Input
+                  id="csv_preset_name"
+                  value={presetName}
+                  maxLength={100}
+                  placeholder="My bank"
+                  onChange={(e) => setPresetName(e.target.value)}
+                />
+              </div>
+              <Button type="button" variant="outline" onClick={handleSavePreset} disabled={presetName.trim() === ""}>
+                Save Preset
+              </Button>
+              {presets.some((p) => p.name === presetName.trim()) && (
+                <Button type="button" variant="ghost" size="icon" onClick={handleDeletePreset}>
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Delete preset</span>
+                </Button>
+              )}
+            </div>
+
+            <div className="max-h-80 overflow-auto rounded-md border">
+              <table className="w-full text-sm" data-testid="bank-csv-preview">
+                <thead className="sticky top-0 bg-background">
+                  <tr className="border-b text-left">
+                    <th className="p-2">
+                      <span className="sr-only">Import</span>
+                    </th>
+                    <th className="p-2">Date</th>
+                    <th className="p-2">Description</th>
+                    <th className="p-2 text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.transactions.map((transaction) => (
+                    <tr key={transaction.row} className="border-b last:border-0">
+                      <td className="p-2">
+                        <input
+                          type="checkbox"
+                          aria-label={`Import row ${transaction.row}`}
+                          checked={!excludedRows.has(transaction.row)}
+                          onChange={() => toggleRow(transaction.row)}
+                        />
+                      </td>
+                      <td className="whitespace-nowrap p-2">{transaction.date}</td>
+                      <td className="p-2">{transaction.description || "—"}</td>
+                      <td
+                        className={`whitespace-nowrap p-2 text-right ${transaction.amount < 0 ? "text-destructive" : "text-green-600"}`}
+                      >
+                        {transaction.amount.toFixed(2)} {transaction.currency ?? ""}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {preview.transactions.length === 0 && (
+                <p className="p-3 text-sm text-muted-foreground">No transactions found with this mapping.</p>
+              )}
+            </div>
+
+            {preview.errors.length > 0 && (
+              <ul className="list-disc space-y-1 pl-5 text-sm text-destructive">
+                {preview.errors.map((error) => (
+                  <li key={error.row}>
+                    Row {error.row}: {error.reasons.join("; ")}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex items-end gap-2">
+              {wallets.length > 1 && (
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="csv_wallet">Wallet</Label>
+                  <Select value={walletId || wallets[0].id} onValueChange={setWalletId}>
+                    <SelectTrigger id="csv_wallet">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {wallets.map((wallet) => (
+                        <SelectItem key={wallet.id} value={wallet.id}>
+                          {wallet.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <Button type="button" onClick={handleImport} disabled={isImporting || selectedRows.length === 0}>
+                {isImporting ? "Importing..." : `Import ${selectedRows.length} Transactions`}
+              </Button>
+            </div>
+          </>
+        )}
+
+        {result && (
+          <div className="space-y-3 text-sm" data-testid="bank-csv-import-result">
+            <p>
+              Imported {result.imported.length}, skipped {result.skipped.length}.
+            </p>
+            {result.skipped.length > 0 && (
+              <ul className="list-disc space-y-1 pl-5 text-destructive">
+                {result.skipped.map((row) => (
+                  <li key={row.row}>
+                    Row {row.row}: {row.reasons.join("; ")}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+import React, { useState } from "react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { ICSImportResponseDTO } from "@/types";
+
+export function ImportCalendarCard() {
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<ICSImportResponseDTO | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsImporting(true);
+    setResult(null);
+    try {
+      const response = await fetch("/api/import/ics", {
+        method: "POST",
+        headers: { "Content-Type": "text/calendar" },
+        body: await file.text(),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(
+          errorData.details?.body ||
+            errorData.message ||
+            "Failed to import calendar"
+        );
+      }
+
+      const data: ICSImportResponseDTO = await response.json();
+      setResult(data);
+      toast.success(`Imported ${data.imported.length} entries`);
+    } catch (error) {
+      console.error("Failed to import calendar:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to import calendar"
+      );
+    } finally {
+      setIsImporting(false);
+      e.target.value = "";
+    }
+  };
+
+  const warnings =
+    result?.imported.filter((series) => series.warnings.length > 0) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import Calendar</CardTitle>
+        <CardDescription>
+          Create entries from an iCalendar (.ics) file. Events need an amount,
+          such as those in a calendar exported from this app. Events with
+          schedules that cannot be represented are listed below instead of
+          being imported.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="calendarFile">Calendar File</Label>
+          <Input
+            id="calendarFile"
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={handleFileChange}
+            disabled={isImporting}
+          />
+        </div>
+
+        {result && (
+          <div
+            className="space-y-3 text-sm"
+            data-testid="calendar-import-result"
+          >
+            <p>
+              Imported {result.imported.length}, skipped {result.skipped.length}.
+            </p>
+            {result.skipped.length > 0 && (
+              <ul className="list-disc space-y-1 pl-5 text-destructive">
+                {result.skipped.map((event) => (
+                  <li key={event.uid}>
+                    {event.title ?? event.uid}: {event.reasons.join("; ")}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {warnings.length > 0 && (
+              <ul className="list-disc space-y-1 pl-5 text-muted-foreground">
+                {warnings.map((series) => (
+                  <li key={series.series_id}>
+                    {series.title}: {series.warnings.join("; ")}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,198 @@
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type {
+  StatementFileFormat,
+  StatementFileImportCommand,
+  StatementFileImportResponseDTO,
+  WalletDTO,
+} from "@/types";
+
+interface ImportStatementFileCardProps {
+  wallets: WalletDTO[];
+}
+
+// OFX has an OFXHEADER line or an <OFX> element, QIF starts with a !Type or !Account header and camt.053 is other
+// XML; anything else is taken for MT940
+function detectFormat(content: string): StatementFileFormat {
+  if (/OFXHEADER|<OFX>/i.test(content.slice(0, 1000))) return "ofx";
+  if (/^\uFEFF?\s*!(Type|Account|Option)/i.test(content)) return "qif";
+  return /^\uFEFF?\s*</.test(content) ? "camt053" : "mt940";
+}
+
+/**
+ * Imports a camt.053, MT940, OFX/QFX or QIF file as one-time entries, optionally taking the wallet's starting balance
+ * from it
+ * A file that cannot be read is rejected with the errors by line
+ */
+export function ImportStatementFileCard({ wallets }: ImportStatementFileCardProps) {
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [format, setFormat] = useState<StatementFileFormat>("camt053");
+  const [walletId, setWalletId] = useState("");
+  const [startingBalance, setStartingBalance] = useState("none");
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<StatementFileImportResponseDTO | null>(null);
+  const [lineErrors, setLineErrors] = useState<[string, string][]>([]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+
+    const content = await selected.text();
+    setFile({ name: selected.name, content });
+    setFormat(detectFormat(content));
+    setResult(null);
+    setLineErrors([]);
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setIsImporting(true);
+    setResult(null);
+    setLineErrors([]);
+    try {
+      const command: StatementFileImportCommand = {
+        format,
+        content: file.content,
+        wallet_id: walletId || undefined,
+        starting_balance: startingBalance === "none" ? null : (startingBalance as "opening" | "closing"),
+      };
+      const response = await fetch("/api/import/statement", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(command),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        if (errorData.error === "Invalid statement" && errorData.details) {
+          setLineErrors(Object.entries(errorData.details as Record<string, string>));
+        }
+        throw new Error(errorData.message || Object.values(errorData.details ?? {})[0] || "Failed to import statement");
+      }
+
+      const data: StatementFileImportResponseDTO = await response.json();
+      setResult(data);
+      setFile(null);
+      toast.success(`Imported ${data.imported.length} entries`);
+    } catch (error) {
+      console.error("Failed to import statement:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to import statement");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Card data-testid="statement-file-import-card">
+      <CardHeader>
+        <CardTitle>Import Statement File</CardTitle>
+        <CardDescription>
+          Create one-time entries from the booked transactions of an ISO 20022 camt.053 (XML) or MT940 bank statement,
+          or of an OFX/QFX or QIF file from a desktop finance tool. A file with errors is not imported at all; the
+          errors are listed by line.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="statementFileStructured">Statement File</Label>
+          <Input
+            id="statementFileStructured"
+            type="file"
+            accept=".xml,.sta,.mt940,.940,.txt,.ofx,.qfx,.qif"
+            onChange={handleFileChange}
+            disabled={isImporting}
+          />
+        </div>
+
+        {file && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="statement_format">Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as StatementFileFormat)}>
+                <SelectTrigger id="statement_format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="camt053">camt.053 (XML)</SelectItem>
+                  <SelectItem value="mt940">MT940</SelectItem>
+                  <SelectItem value="ofx">OFX / QFX</SelectItem>
+                  <SelectItem value="qif">QIF</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="statement_starting_balance">Starting Balance</Label>
+              <Select value={startingBalance} onValueChange={setStartingBalance}>
+                <SelectTrigger id="statement_starting_balance">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Keep the current starting balance</SelectItem>
+                  <SelectItem value="opening">Set from the opening balance</SelectItem>
+                  <SelectItem value="closing">Set from the closing balance</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {wallets.length > 1 && (
+              <div className="space-y-2">
+                <Label htmlFor="statement_wallet">Wallet</Label>
+                <Select value={walletId || wallets[0].id} onValueChange={setWalletId}>
+                  <SelectTrigger id="statement_wallet">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {wallets.map((wallet) => (
+                      <SelectItem key={wallet.id} value={wallet.id}>
+                        {wallet.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="flex items-end">
+              <Button type="button" onClick={handleImport} disabled={isImporting}>
+                {isImporting ? "Importing..." : `Import ${file.name}`}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {lineErrors.length > 0 && (
+          <ul className="list-disc space-y-1 pl-5 text-sm text-destructive" data-testid="statement-file-errors">
+            {lineErrors.map(([line, message]) => (
+              <li key={line}>
+                {line.charAt(0).toUpperCase() + line.slice(1)}: {message}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {result && (
+          <div className="space-y-3 text-sm" data-testid="statement-file-import-result">
+            <p>
+              Imported {result.imported.length}, skipped {result.skipped.length}.
+              {result.starting_balance &&
+                ` Starting balance set to ${result.starting_balance.amount.toFixed(2)} on ${result.starting_balance.effective_date}.`}
+            </p>
+            {result.skipped.length > 0 && (
+              <ul className="list-disc space-y-1 pl-5 text-destructive">
+                {result.skipped.map((row) => (
+                  <li key={row.row}>
+                    Line {row.row}: {row.reasons.join("; ")}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
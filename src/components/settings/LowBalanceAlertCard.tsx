@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { UpdateUserPreferencesCommand, UserPreferencesDTO } from "@/types";
+
+export function LowBalanceAlertCard() {
+  const [threshold, setThreshold] = useState("");
+  const [baseCurrency, setBaseCurrency] = useState("PLN");
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      try {
+        const response = await fetch("/api/preferences");
+        if (!response.ok) {
+          throw new Error("Failed to load preferences");
+        }
+        const data: UserPreferencesDTO = await response.json();
+        setThreshold(data.low_balance_threshold.toString());
+        setBaseCurrency(data.base_currency);
+        setIsLoaded(true);
+      } catch (error) {
+        console.error("Failed to load preferences:", error);
+      }
+    };
+    loadPreferences();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const value = Number(threshold);
+    if (threshold.trim() === "" || isNaN(value)) {
+      setError("Threshold must be a number");
+      return;
+    }
+    setError(null);
+
+    setIsSaving(true);
+    try {
+      const command: UpdateUserPreferencesCommand = {
+        low_balance_threshold: value,
+      };
+
+      const response = await fetch("/api/preferences", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(command),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(
+          errorData.details?.low_balance_threshold ||
+            errorData.message ||
+            "Failed to update low balance alert"
+        );
+      }
+
+      toast.success("Low balance alert updated successfully");
+    } catch (error) {
+      console.error("Failed to update low balance alert:", error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to update low balance alert"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Low Balance Alert</CardTitle>
+        <CardDescription>
+          The dashboard warns you when your projected balance is expected to
+          drop below this amount, and shows the first date it happens.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="low_balance_threshold">
+              Minimum Balance ({baseCurrency})
+            </Label>
+            <Input
+              id="low_balance_threshold"
+              type="number"
+              step="0.01"
+              placeholder="0.00"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              disabled={!isLoaded}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <Button type="submit" disabled={isSaving || !isLoaded}>
+            {isSaving ? "Saving..." : "Save Changes"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,25 @@
 import React from "react";
 import { ExportDataCard } from "./ExportDataCard";
+import { ImportCalendarCard } from "./ImportCalendarCard";
+import { ImportBankCSVCard } from "./ImportBankCSVCard";
+import { ImportStatementFileCard } from "./ImportStatementFileCard";
+import { CalendarFeedCard } from "./CalendarFeedCard";
 import { DeleteAccountCard } from "./DeleteAccountCard";
+import type { WalletDTO } from "@/types";
 
-export function PrivacySettings() {
+interface PrivacySettingsProps {
+  today: string; // YYYY-MM-DD, in the user's time zone
+  wallets: WalletDTO[];
+}
+
+export function PrivacySettings({ today, wallets }: PrivacySettingsProps) {
   return (
     <div className="space-y-6">
-      <ExportDataCard />
+      <ExportDataCard today={today} />
+      <ImportCalendarCard />
+      <ImportBankCSVCard wallets={wallets} />
+      <ImportStatementFileCard wallets={wallets} />
+      <CalendarFeedCard />
       <DeleteAccountCard />
     </div>
   );
@@ -1,15 +1,43 @@
-import React from "react";
+import React, { useState } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useWallets } from "@/hooks/useWallets";
+import { useCategories } from "@/hooks/useCategories";
+import { useBudgets } from "@/hooks/useBudgets";
+import { useTags } from "@/hooks/useTags";
+import { usePreferences } from "@/hooks/usePreferences";
+import { WalletsCard } from "./WalletsCard";
 import { WalletSettings } from "./WalletSettings";
+import { CategoriesCard } from "./CategoriesCard";
+import { BudgetsCard } from "./BudgetsCard";
+import { LowBalanceAlertCard } from "./LowBalanceAlertCard";
+import { ExchangeRatesCard } from "./ExchangeRatesCard";
+import { FormattingCard } from "./FormattingCard";
 import { AccountSettings } from "./AccountSettings";
 import { PrivacySettings } from "./PrivacySettings";
-import type { StartingBalanceDTO } from "@/types";
+import type { BudgetDTO, CategoryDTO, UserPreferencesDTO, WalletDTO } from "@/types";
 
 interface SettingsPageProps {
-  initialStartingBalance?: StartingBalanceDTO | null;
+  initialWallets?: WalletDTO[];
+  initialCategories?: CategoryDTO[];
+  initialBudgets?: BudgetDTO[];
+  initialPreferences?: UserPreferencesDTO;
 }
 
-export function SettingsPage({ initialStartingBalance }: SettingsPageProps) {
+export function SettingsPage({
+  initialWallets,
+  initialCategories,
+  initialBudgets,
+  initialPreferences,
+}: SettingsPageProps) {
+  const { wallets, createWallet, renameWallet, deleteWallet, refresh } = useWallets(initialWallets);
+  const { categories, createCategory, updateCategory, deleteCategory } = useCategories(initialCategories);
+  const { budgets, createBudget, updateBudget, deleteBudget, refresh: refreshBudgets } = useBudgets(initialBudgets);
+  const { tags } = useTags();
+  const { preferences, formatter, today, updatePreferences } = usePreferences(initialPreferences);
+  const [selectedWalletId, setSelectedWalletId] = useState<string | null>(null);
+  // Falls back to the default wallet, also after the selected one was deleted
+  const selectedWallet = wallets.find((wallet) => wallet.id === selectedWalletId) ?? wallets[0];
+
   return (
     <div className="container mx-auto max-w-4xl py-8 px-4">
       <h1 className="text-3xl font-bold mb-8">Settings</h1>
@@ -20,16 +48,57 @@ export function SettingsPage({ initialStartingBalance }: SettingsPageProps) {
           <TabsTrigger value="privacy">Data & Privacy</TabsTrigger>
         </TabsList>
         <TabsContent value="wallet">
-          <WalletSettings initialStartingBalance={initialStartingBalance} />
+          <div className="space-y-6">
+            <WalletsCard
+              wallets={wallets}
+              selectedWalletId={selectedWallet?.id ?? null}
+              onSelect={setSelectedWalletId}
+              onCreate={(name, currency) => createWallet({ name, currency })}
+              onRename={renameWallet}
+              onDelete={deleteWallet}
+              formatter={formatter}
+            />
+            {selectedWallet && (
+              <WalletSettings
+                key={selectedWallet.id}
+                wallet={selectedWallet}
+                onStartingBalanceSaved={refresh}
+                formatter={formatter}
+                today={today}
+              />
+            )}
+            <CategoriesCard
+              categories={categories}
+              onCreate={createCategory}
+              onUpdate={updateCategory}
+              onDelete={async (id) => {
+                await deleteCategory(id);
+                // Budgets of the deleted categories go with them
+                await refreshBudgets();
+              }}
+            />
+            <BudgetsCard
+              budgets={budgets}
+              categories={categories}
+              tags={tags}
+              currency={preferences?.base_currency}
+              formatter={formatter}
+              onCreate={createBudget}
+              onUpdate={updateBudget}
+              onDelete={deleteBudget}
+            />
+            <LowBalanceAlertCard />
+            <ExchangeRatesCard formatter={formatter} today={today} />
+            <FormattingCard preferences={preferences} onSave={updatePreferences} />
+          </div>
         </TabsContent>
         <TabsContent value="account">
           <AccountSettings />
         </TabsContent>
         <TabsContent value="privacy">
-          <PrivacySettings />
+          <PrivacySettings today={today} wallets={wallets} />
         </TabsContent>
       </Tabs>
     </div>
   );
 }
-
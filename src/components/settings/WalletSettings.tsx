@@ -13,7 +13,9 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import type { StartingBalanceDTO, UpsertStartingBalanceCommand } from "@/types";
+import { BalanceCheckpoints } from "./BalanceCheckpoints";
+import type { StartingBalanceDTO, UpsertStartingBalanceCommand, WalletDTO } from "@/types";
+import type { Formatter } from "@/lib/utils/format.utils";
 
 // Form schema for starting balance
 const startingBalanceFormSchema = z.object({
@@ -30,11 +32,22 @@ const startingBalanceFormSchema = z.object({
 type StartingBalanceFormValues = z.infer<typeof startingBalanceFormSchema>;
 
 interface WalletSettingsProps {
-  initialStartingBalance?: StartingBalanceDTO | null;
+  wallet: WalletDTO; // Key the component by wallet id to reset the form when switching wallets
+  onStartingBalanceSaved?: (startingBalance: StartingBalanceDTO) => void;
+  formatter: Formatter;
+  today: string; // Default effective date (YYYY-MM-DD, in the user's time zone)
 }
 
-export function WalletSettings({ initialStartingBalance }: WalletSettingsProps) {
+export function WalletSettings({
+  wallet,
+  onStartingBalanceSaved,
+  formatter,
+  today,
+}: WalletSettingsProps) {
+  const initialStartingBalance = wallet.starting_balance;
   const [isLoading, setIsLoading] = useState(false);
+  const [hasStartingBalance, setHasStartingBalance] = useState(!!initialStartingBalance);
+  const [checkpointsReloadKey, setCheckpointsReloadKey] = useState(0);
 
   const {
     register,
@@ -44,7 +57,7 @@ export function WalletSettings({ initialStartingBalance }: WalletSettingsProps)
     resolver: zodResolver(startingBalanceFormSchema),
     defaultValues: {
       amount: initialStartingBalance?.amount ?? 0,
-      effective_date: initialStartingBalance?.effective_date ?? new Date().toISOString().split("T")[0],
+      effective_date: initialStartingBalance?.effective_date ?? today,
     },
   });
 
@@ -56,7 +69,7 @@ export function WalletSettings({ initialStartingBalance }: WalletSettingsProps)
         effective_date: data.effective_date,
       };
 
-      const response = await fetch("/api/starting-balance", {
+      const response = await fetch(`/api/starting-balance?wallet=${wallet.id}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -70,6 +83,10 @@ export function WalletSettings({ initialStartingBalance }: WalletSettingsProps)
       }
 
       toast.success("Starting balance updated successfully");
+      onStartingBalanceSaved?.(await response.json());
+      // Checkpoint drift is measured from the starting balance
+      setHasStartingBalance(true);
+      setCheckpointsReloadKey((key) => key + 1);
     } catch (error) {
       console.error("Failed to update starting balance:", error);
       toast.error(error instanceof Error ? error.message : "Failed to update starting balance");
@@ -81,16 +98,16 @@ export function WalletSettings({ initialStartingBalance }: WalletSettingsProps)
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Starting Balance</CardTitle>
+        <CardTitle>Starting Balance: {wallet.name}</CardTitle>
         <CardDescription>
-          Set your initial wallet balance and the date it becomes effective. This is used as
-          the starting point for all balance projections.
+          Set the initial balance of this wallet and the date it becomes effective. This is used as
+          the starting point for its balance projections; later checkpoints correct them.
         </CardDescription>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="amount">Amount (PLN)</Label>
+            <Label htmlFor="amount">Amount ({wallet.currency})</Label>
             <Input
               id="amount"
               type="number"
@@ -119,6 +136,18 @@ export function WalletSettings({ initialStartingBalance }: WalletSettingsProps)
             {isLoading ? "Saving..." : "Save Changes"}
           </Button>
         </form>
+
+        {hasStartingBalance && (
+          <div className="mt-6 border-t pt-6">
+            <BalanceCheckpoints
+              walletId={wallet.id}
+              currency={wallet.currency}
+              reloadKey={checkpointsReloadKey}
+              formatter={formatter}
+              today={today}
+            />
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,176 @@
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { Check, Pencil, Trash2, X } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { WalletDTO } from "@/types";
+import type { Formatter } from "@/lib/utils/format.utils";
+
+interface WalletsCardProps {
+  wallets: WalletDTO[];
+  selectedWalletId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: (name: string, currency?: string) => Promise<WalletDTO>; // Without a currency, the base currency
+  onRename: (id: string, name: string) => Promise<WalletDTO>;
+  onDelete: (id: string) => Promise<void>;
+  formatter: Formatter;
+}
+
+/**
+ * Lists the user's wallets; selecting one shows its starting balance and checkpoints below
+ */
+export function WalletsCard({
+  wallets,
+  selectedWalletId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  formatter,
+}: WalletsCardProps) {
+  const [newName, setNewName] = useState("");
+  const [newCurrency, setNewCurrency] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const wallet = await onCreate(newName.trim(), newCurrency.trim().toUpperCase() || undefined);
+      setNewName("");
+      setNewCurrency("");
+      onSelect(wallet.id);
+      toast.success(`Wallet "${wallet.name}" added`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add wallet");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRename = async (id: string) => {
+    if (!editingName.trim()) return;
+
+    try {
+      await onRename(id, editingName.trim());
+      setEditingId(null);
+      toast.success("Wallet renamed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to rename wallet");
+    }
+  };
+
+  const handleDelete = async (wallet: WalletDTO) => {
+    try {
+      await onDelete(wallet.id);
+      toast.success(`Wallet "${wallet.name}" deleted`);
+    } catch (error) {
+      // e.g. the wallet still has entries
+      toast.error(error instanceof Error ? error.message : "Failed to delete wallet");
+    }
+  };
+
+  return (
+    <Card data-testid="wallets-card">
+      <CardHeader>
+        <CardTitle>Wallets</CardTitle>
+        <CardDescription>
+          Keep separate accounts, such as checking and savings, each with its own starting balance and currency. The
+          dashboard can project one wallet or all of them together, converted into your base currency.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="divide-y rounded-md border text-sm">
+          {wallets.map((wallet) => (
+            <li
+              key={wallet.id}
+              className={cn(
+                "flex items-center justify-between gap-2 p-3",
+                wallet.id === selectedWalletId && "bg-muted"
+              )}
+            >
+              {editingId === wallet.id ? (
+                <div className="flex flex-1 items-center gap-2">
+                  <Input
+                    value={editingName}
+                    maxLength={100}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    aria-label="Wallet name"
+                  />
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleRename(wallet.id)}>
+                    <Check className="h-4 w-4" />
+                    <span className="sr-only">Save name</span>
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditingId(null)}>
+                    <X className="h-4 w-4" />
+                    <span className="sr-only">Cancel</span>
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <button type="button" className="flex-1 space-y-1 text-left" onClick={() => onSelect(wallet.id)}>
+                    <div className="font-medium">
+                      {wallet.name}
+                      <span className="ml-2 text-xs text-muted-foreground">{wallet.currency}</span>
+                      {wallet.is_default && <span className="ml-2 text-xs text-muted-foreground">Default</span>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {wallet.starting_balance
+                        ? `Starting balance ${formatter.currency(wallet.starting_balance.amount, wallet.currency)} from ${formatter.date(wallet.starting_balance.effective_date)}`
+                        : "No starting balance"}
+                    </div>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => {
+                      setEditingId(wallet.id);
+                      setEditingName(wallet.name);
+                    }}
+                  >
+                    <Pencil className="h-4 w-4" />
+                    <span className="sr-only">Rename wallet</span>
+                  </Button>
+                  {!wallet.is_default && (
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(wallet)}>
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Delete wallet</span>
+                    </Button>
+                  )}
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <Input
+            placeholder="New wallet name"
+            maxLength={100}
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            aria-label="New wallet name"
+          />
+          <Input
+            placeholder="Currency"
+            maxLength={3}
+            value={newCurrency}
+            onChange={(e) => setNewCurrency(e.target.value)}
+            className="w-24 uppercase"
+            aria-label="New wallet currency"
+          />
+          <Button type="submit" variant="outline" disabled={isSaving || !newName.trim()}>
+            {isSaving ? "Adding..." : "Add Wallet"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
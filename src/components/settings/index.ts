@@ -1,9 +1,20 @@
 export { SettingsPage } from "./SettingsPage";
+export { WalletsCard } from "./WalletsCard";
 export { WalletSettings } from "./WalletSettings";
+export { CategoriesCard } from "./CategoriesCard";
+export { BudgetsCard } from "./BudgetsCard";
+export { BalanceCheckpoints } from "./BalanceCheckpoints";
+export { LowBalanceAlertCard } from "./LowBalanceAlertCard";
+export { ExchangeRatesCard } from "./ExchangeRatesCard";
+export { FormattingCard } from "./FormattingCard";
 export { AccountSettings } from "./AccountSettings";
 export { ChangePasswordForm } from "./ChangePasswordForm";
 export { PrivacySettings } from "./PrivacySettings";
 export { ExportDataCard } from "./ExportDataCard";
+export { ImportCalendarCard } from "./ImportCalendarCard";
+export { ImportBankCSVCard } from "./ImportBankCSVCard";
+export { ImportStatementFileCard } from "./ImportStatementFileCard";
+export { CalendarFeedCard } from "./CalendarFeedCard";
 export { DeleteAccountCard } from "./DeleteAccountCard";
 export { DeleteAccountDialog } from "./DeleteAccountDialog";
 
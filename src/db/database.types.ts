@@ -44,59 +44,280 @@ export interface Database {
         };
         Relationships: [];
       };
+      balance_checkpoints: {
+        Row: {
+          amount: number;
+          checkpoint_date: string;
+          created_at: string;
+          id: string;
+          note: string | null;
+          updated_at: string;
+          user_id: string;
+          wallet_id: string;
+        };
+        Insert: {
+          amount: number;
+          checkpoint_date: string;
+          created_at?: string;
+          id?: string;
+          note?: string | null;
+          updated_at?: string;
+          user_id: string;
+          wallet_id?: string;
+        };
+        Update: {
+          amount?: number;
+          checkpoint_date?: string;
+          created_at?: string;
+          id?: string;
+          note?: string | null;
+          updated_at?: string;
+          user_id?: string;
+          wallet_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "balance_checkpoints_wallet_id_fkey";
+            columns: ["wallet_id", "user_id"];
+            isOneToOne: false;
+            referencedRelation: "wallets";
+            referencedColumns: ["id", "user_id"];
+          },
+        ];
+      };
+      budgets: {
+        Row: {
+          amount: number;
+          category_id: string | null;
+          created_at: string;
+          id: string;
+          tag_id: string | null;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          amount: number;
+          category_id?: string | null;
+          created_at?: string;
+          id?: string;
+          tag_id?: string | null;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          amount?: number;
+          category_id?: string | null;
+          created_at?: string;
+          id?: string;
+          tag_id?: string | null;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "budgets_category_id_fkey";
+            columns: ["category_id", "user_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id", "user_id"];
+          },
+          {
+            foreignKeyName: "budgets_tag_id_fkey";
+            columns: ["tag_id", "user_id"];
+            isOneToOne: false;
+            referencedRelation: "tags";
+            referencedColumns: ["id", "user_id"];
+          },
+        ];
+      };
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string;
+          id: string;
+          token_hash: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          token_hash: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          token_hash?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      categories: {
+        Row: {
+          color: string;
+          created_at: string;
+          icon: string | null;
+          id: string;
+          name: string;
+          parent_id: string | null;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          color?: string;
+          created_at?: string;
+          icon?: string | null;
+          id?: string;
+          name: string;
+          parent_id?: string | null;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          color?: string;
+          created_at?: string;
+          icon?: string | null;
+          id?: string;
+          name?: string;
+          parent_id?: string | null;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey";
+            columns: ["parent_id", "user_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id", "user_id"];
+          },
+        ];
+      };
+      csv_import_presets: {
+        Row: {
+          created_at: string;
+          id: string;
+          mapping: Json;
+          name: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          mapping: Json;
+          name: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          mapping?: Json;
+          name?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
       entry_series: {
         Row: {
           amount: number;
+          business_day_convention: Database["public"]["Enums"]["business_day_convention"];
+          category_id: string | null;
           created_at: string;
+          currency: string;
           day_of_month: number | null;
+          days_of_month: number[] | null;
           description: string | null;
           effective_range: unknown | null;
           end_date: string | null;
           entry_type: Database["public"]["Enums"]["entry_type"];
+          holiday_calendar: Database["public"]["Enums"]["holiday_calendar"];
           id: string;
+          monthly_anchor: Database["public"]["Enums"]["monthly_anchor"];
+          occurrence_count: number | null;
           parent_series_id: string | null;
+          recurrence_interval: number;
           recurrence_type: Database["public"]["Enums"]["recurrence_type"];
+          scenario_id: string | null;
           start_date: string;
+          target_wallet_id: string | null;
           title: string;
           updated_at: string;
           user_id: string;
+          wallet_id: string;
+          week_of_month: number | null;
           weekday: number | null;
+          weekdays: number[] | null;
         };
         Insert: {
           amount: number;
+          business_day_convention?: Database["public"]["Enums"]["business_day_convention"];
+          category_id?: string | null;
           created_at?: string;
+          currency?: string;
           day_of_month?: number | null;
+          days_of_month?: number[] | null;
           description?: string | null;
           effective_range?: unknown | null;
           end_date?: string | null;
           entry_type: Database["public"]["Enums"]["entry_type"];
+          holiday_calendar?: Database["public"]["Enums"]["holiday_calendar"];
           id?: string;
+          monthly_anchor?: Database["public"]["Enums"]["monthly_anchor"];
+          occurrence_count?: number | null;
           parent_series_id?: string | null;
+          recurrence_interval?: number;
           recurrence_type: Database["public"]["Enums"]["recurrence_type"];
+          scenario_id?: string | null;
           start_date: string;
+          target_wallet_id?: string | null;
           title: string;
           updated_at?: string;
           user_id: string;
+          wallet_id?: string;
+          week_of_month?: number | null;
           weekday?: number | null;
+          weekdays?: number[] | null;
         };
         Update: {
           amount?: number;
+          business_day_convention?: Database["public"]["Enums"]["business_day_convention"];
+          category_id?: string | null;
           created_at?: string;
+          currency?: string;
           day_of_month?: number | null;
+          days_of_month?: number[] | null;
           description?: string | null;
           effective_range?: unknown | null;
           end_date?: string | null;
           entry_type?: Database["public"]["Enums"]["entry_type"];
+          holiday_calendar?: Database["public"]["Enums"]["holiday_calendar"];
           id?: string;
+          monthly_anchor?: Database["public"]["Enums"]["monthly_anchor"];
+          occurrence_count?: number | null;
           parent_series_id?: string | null;
+          recurrence_interval?: number;
           recurrence_type?: Database["public"]["Enums"]["recurrence_type"];
+          scenario_id?: string | null;
           start_date?: string;
+          target_wallet_id?: string | null;
           title?: string;
           updated_at?: string;
           user_id?: string;
+          wallet_id?: string;
+          week_of_month?: number | null;
           weekday?: number | null;
+          weekdays?: number[] | null;
         };
         Relationships: [
+          {
+            foreignKeyName: "entry_series_category_id_fkey";
+            columns: ["category_id", "user_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id", "user_id"];
+          },
           {
             foreignKeyName: "entry_series_parent_series_id_fkey";
             columns: ["parent_series_id"];
@@ -104,16 +325,210 @@ export interface Database {
             referencedRelation: "entry_series";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "entry_series_scenario_id_fkey";
+            columns: ["scenario_id"];
+            isOneToOne: false;
+            referencedRelation: "scenarios";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "entry_series_target_wallet_id_fkey";
+            columns: ["target_wallet_id", "user_id"];
+            isOneToOne: false;
+            referencedRelation: "wallets";
+            referencedColumns: ["id", "user_id"];
+          },
+          {
+            foreignKeyName: "entry_series_wallet_id_fkey";
+            columns: ["wallet_id", "user_id"];
+            isOneToOne: false;
+            referencedRelation: "wallets";
+            referencedColumns: ["id", "user_id"];
+          },
+        ];
+      };
+      entry_series_tags: {
+        Row: {
+          series_id: string;
+          tag_id: string;
+          user_id: string;
+        };
+        Insert: {
+          series_id: string;
+          tag_id: string;
+          user_id: string;
+        };
+        Update: {
+          series_id?: string;
+          tag_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "entry_series_tags_series_id_fkey";
+            columns: ["series_id"];
+            isOneToOne: false;
+            referencedRelation: "entry_series";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "entry_series_tags_tag_id_fkey";
+            columns: ["tag_id", "user_id"];
+            isOneToOne: false;
+            referencedRelation: "tags";
+            referencedColumns: ["id", "user_id"];
+          },
+        ];
+      };
+      exchange_rates: {
+        Row: {
+          created_at: string;
+          currency: string;
+          id: string;
+          rate: number;
+          rate_date: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          currency: string;
+          id?: string;
+          rate: number;
+          rate_date: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          currency?: string;
+          id?: string;
+          rate?: number;
+          rate_date?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      occurrence_settlements: {
+        Row: {
+          actual_amount: number;
+          actual_date: string;
+          created_at: string;
+          id: string;
+          note: string | null;
+          occurrence_date: string;
+          series_id: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          actual_amount: number;
+          actual_date: string;
+          created_at?: string;
+          id?: string;
+          note?: string | null;
+          occurrence_date: string;
+          series_id: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          actual_amount?: number;
+          actual_date?: string;
+          created_at?: string;
+          id?: string;
+          note?: string | null;
+          occurrence_date?: string;
+          series_id?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "occurrence_settlements_series_id_fkey";
+            columns: ["series_id"];
+            isOneToOne: false;
+            referencedRelation: "entry_series";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      scenarios: {
+        Row: {
+          applied_at: string | null;
+          created_at: string;
+          description: string | null;
+          id: string;
+          name: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          applied_at?: string | null;
+          created_at?: string;
+          description?: string | null;
+          id?: string;
+          name: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          applied_at?: string | null;
+          created_at?: string;
+          description?: string | null;
+          id?: string;
+          name?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      series_exception_tags: {
+        Row: {
+          exception_id: string;
+          tag_id: string;
+          user_id: string;
+        };
+        Insert: {
+          exception_id: string;
+          tag_id: string;
+          user_id: string;
+        };
+        Update: {
+          exception_id?: string;
+          tag_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "series_exception_tags_exception_id_fkey";
+            columns: ["exception_id"];
+            isOneToOne: false;
+            referencedRelation: "series_exceptions";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "series_exception_tags_tag_id_fkey";
+            columns: ["tag_id", "user_id"];
+            isOneToOne: false;
+            referencedRelation: "tags";
+            referencedColumns: ["id", "user_id"];
+          },
         ];
       };
       series_exceptions: {
         Row: {
           amount: number | null;
+          category_id: string | null;
           created_at: string;
           description: string | null;
           exception_date: string;
           exception_type: Database["public"]["Enums"]["exception_type"];
           id: string;
+          override_tags: boolean;
+          scenario_id: string | null;
           series_id: string;
           title: string | null;
           updated_at: string;
@@ -121,11 +536,14 @@ export interface Database {
         };
         Insert: {
           amount?: number | null;
+          category_id?: string | null;
           created_at?: string;
           description?: string | null;
           exception_date: string;
           exception_type: Database["public"]["Enums"]["exception_type"];
           id?: string;
+          override_tags?: boolean;
+          scenario_id?: string | null;
           series_id: string;
           title?: string | null;
           updated_at?: string;
@@ -133,17 +551,27 @@ export interface Database {
         };
         Update: {
           amount?: number | null;
+          category_id?: string | null;
           created_at?: string;
           description?: string | null;
           exception_date?: string;
           exception_type?: Database["public"]["Enums"]["exception_type"];
           id?: string;
+          override_tags?: boolean;
+          scenario_id?: string | null;
           series_id?: string;
           title?: string | null;
           updated_at?: string;
           user_id?: string;
         };
         Relationships: [
+          {
+            foreignKeyName: "series_exceptions_category_id_fkey";
+            columns: ["category_id", "user_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id", "user_id"];
+          },
           {
             foreignKeyName: "series_exceptions_series_id_fkey";
             columns: ["series_id"];
@@ -151,6 +579,13 @@ export interface Database {
             referencedRelation: "entry_series";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "series_exceptions_scenario_id_fkey";
+            columns: ["scenario_id"];
+            isOneToOne: false;
+            referencedRelation: "scenarios";
+            referencedColumns: ["id"];
+          },
         ];
       };
       starting_balances: {
@@ -161,6 +596,7 @@ export interface Database {
           id: string;
           updated_at: string;
           user_id: string;
+          wallet_id: string;
         };
         Insert: {
           amount: number;
@@ -169,6 +605,7 @@ export interface Database {
           id?: string;
           updated_at?: string;
           user_id: string;
+          wallet_id?: string;
         };
         Update: {
           amount?: number;
@@ -177,30 +614,242 @@ export interface Database {
           id?: string;
           updated_at?: string;
           user_id?: string;
+          wallet_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "starting_balances_wallet_id_fkey";
+            columns: ["wallet_id", "user_id"];
+            isOneToOne: true;
+            referencedRelation: "wallets";
+            referencedColumns: ["id", "user_id"];
+          },
+        ];
+      };
+      tags: {
+        Row: {
+          created_at: string;
+          id: string;
+          name: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          name: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          name?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      user_preferences: {
+        Row: {
+          base_currency: string;
+          created_at: string;
+          currency_display: string;
+          date_format: string;
+          id: string;
+          low_balance_threshold: number;
+          number_locale: string;
+          time_zone: string;
+          updated_at: string;
+          user_id: string;
+          week_starts_on: number;
+        };
+        Insert: {
+          base_currency?: string;
+          created_at?: string;
+          currency_display?: string;
+          date_format?: string;
+          id?: string;
+          low_balance_threshold?: number;
+          number_locale?: string;
+          time_zone?: string;
+          updated_at?: string;
+          user_id: string;
+          week_starts_on?: number;
+        };
+        Update: {
+          base_currency?: string;
+          created_at?: string;
+          currency_display?: string;
+          date_format?: string;
+          id?: string;
+          low_balance_threshold?: number;
+          number_locale?: string;
+          time_zone?: string;
+          updated_at?: string;
+          user_id?: string;
+          week_starts_on?: number;
+        };
+        Relationships: [];
+      };
+      wallets: {
+        Row: {
+          created_at: string;
+          currency: string;
+          id: string;
+          is_default: boolean;
+          name: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          currency?: string;
+          id?: string;
+          is_default?: boolean;
+          name: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          currency?: string;
+          id?: string;
+          is_default?: boolean;
+          name?: string;
+          updated_at?: string;
+          user_id?: string;
         };
         Relationships: [];
       };
     };
     Views: Record<never, never>;
     Functions: {
+      adjust_to_business_day: {
+        Args: {
+          p_calendar: Database["public"]["Enums"]["holiday_calendar"];
+          p_convention: Database["public"]["Enums"]["business_day_convention"];
+          p_date: string;
+        };
+        Returns: string;
+      };
+      apply_scenario: {
+        Args: { p_scenario_id: string };
+        Returns: {
+          applied_at: string;
+          applied_entries: number;
+          applied_overrides: number;
+        }[];
+      };
+      balance_anchor: {
+        Args: { p_date: string; p_user_id: string; p_wallet_id: string };
+        Returns: {
+          amount: number;
+          anchor_date: string;
+          checkpoint_id: string | null;
+        }[];
+      };
+      balance_checkpoint_drift: {
+        Args: { p_user_id: string };
+        Returns: {
+          checkpoint_id: string;
+          drift: number | null;
+          predicted_balance: number | null;
+        }[];
+      };
+      balance_flows: {
+        Args: {
+          p_from_date: string;
+          p_scenario_id?: string;
+          p_to_date: string;
+          p_user_id: string;
+          p_wallet_id?: string;
+        };
+        Returns: {
+          amount: number;
+          category_id: string | null;
+          entry_type: Database["public"]["Enums"]["entry_type"];
+          flow_date: string;
+          is_actual: boolean;
+          net_amount: number;
+          series_id: string;
+        }[];
+      };
+      base_currency: {
+        Args: { p_user_id: string };
+        Returns: string;
+      };
+      compute_anchored_monthly_occurrence: {
+        Args: {
+          p_anchor: Database["public"]["Enums"]["monthly_anchor"];
+          p_day_of_month: number;
+          p_week_of_month: number;
+          p_weekday: number;
+          target_month: number;
+          target_year: number;
+        };
+        Returns: string;
+      };
       compute_monthly_occurrence: {
         Args: { anchor_dom: number; target_month: number; target_year: number };
         Returns: string;
       };
+      convert_amount: {
+        Args: {
+          p_amount: number;
+          p_date: string;
+          p_from_currency: string;
+          p_to_currency: string;
+          p_user_id: string;
+        };
+        Returns: number;
+      };
+      count_series_occurrences: {
+        Args: { p_series_id: string; p_to_date: string };
+        Returns: number;
+      };
+      easter_sunday: {
+        Args: { p_year: number };
+        Returns: string;
+      };
+      ensure_default_wallet: {
+        Args: { p_user_id: string };
+        Returns: string;
+      };
+      exchange_rate: {
+        Args: { p_currency: string; p_date: string; p_user_id: string };
+        Returns: number;
+      };
       expand_occurrences: {
-        Args: { p_from_date: string; p_to_date: string; p_user_id: string };
+        Args: { p_from_date: string; p_scenario_id?: string; p_to_date: string; p_user_id: string };
         Returns: {
           amount: number;
+          category_id: string | null;
           created_at: string;
+          currency: string;
           description: string;
           entry_type: Database["public"]["Enums"]["entry_type"];
+          occurrence_count: number;
           occurrence_date: string;
           occurrence_id: string;
+          occurrence_number: number;
           series_id: string;
           title: string;
           updated_at: string;
         }[];
       };
+      find_low_balance_forecast: {
+        Args: {
+          p_from_date: string;
+          p_threshold: number;
+          p_to_date: string;
+          p_user_id: string;
+          p_wallet_id?: string;
+        };
+        Returns: {
+          first_breach_balance: number | null;
+          first_breach_date: string | null;
+          lowest_balance: number | null;
+          lowest_balance_date: string | null;
+        }[];
+      };
       gbt_bit_compress: {
         Args: { "": unknown };
         Returns: unknown;
@@ -425,19 +1074,102 @@ export interface Database {
         Args: { "": unknown };
         Returns: unknown;
       };
+      get_calendar_feed_occurrences: {
+        Args: { p_days_ahead?: number; p_days_back?: number; p_token_hash: string };
+        Returns: {
+          amount: number;
+          created_at: string;
+          currency: string;
+          description: string;
+          entry_type: Database["public"]["Enums"]["entry_type"];
+          occurrence_count: number;
+          occurrence_date: string;
+          occurrence_id: string;
+          occurrence_number: number;
+          series_id: string;
+          title: string;
+          updated_at: string;
+        }[];
+      };
       get_current_date_warsaw: {
         Args: Record<PropertyKey, never>;
         Returns: string;
       };
+      is_business_day: {
+        Args: {
+          p_calendar: Database["public"]["Enums"]["holiday_calendar"];
+          p_date: string;
+        };
+        Returns: boolean;
+      };
+      is_public_holiday: {
+        Args: {
+          p_calendar: Database["public"]["Enums"]["holiday_calendar"];
+          p_date: string;
+        };
+        Returns: boolean;
+      };
       project_balance: {
-        Args: { p_target_date: string; p_user_id: string };
+        Args: { p_scenario_id?: string; p_target_date: string; p_user_id: string; p_wallet_id?: string };
+        Returns: number;
+      };
+      project_balance_timeline: {
+        Args: {
+          p_from_date: string;
+          p_granularity?: string;
+          p_scenario_id?: string;
+          p_to_date: string;
+          p_user_id: string;
+          p_wallet_id?: string;
+        };
+        Returns: {
+          adjustment: number;
+          balance: number;
+          bucket_end: string;
+          bucket_start: string;
+          min_balance: number;
+          net_change: number;
+          net_transfers: number;
+          total_expense: number;
+          total_income: number;
+        }[];
+      };
+      recurrence_month_step: {
+        Args: { p_recurrence_type: Database["public"]["Enums"]["recurrence_type"] };
         Returns: number;
       };
+      series_nominal_date: {
+        Args: { p_date: string; p_series_id: string };
+        Returns: string | null;
+      };
+      series_occurrence_dates: {
+        Args: {
+          p_from_date: string;
+          p_series: Database["public"]["Tables"]["entry_series"]["Row"];
+          p_to_date: string;
+        };
+        Returns: string[];
+      };
+      set_exception_tags: {
+        Args: { p_exception_id: string; p_names: string[] };
+        Returns: undefined;
+      };
+      set_series_tags: {
+        Args: { p_names: string[]; p_series_id: string };
+        Returns: undefined;
+      };
+      user_today: {
+        Args: { p_user_id: string };
+        Returns: string;
+      };
     };
     Enums: {
-      entry_type: "income" | "expense";
+      business_day_convention: "none" | "previous" | "next" | "nearest";
+      entry_type: "income" | "expense" | "transfer";
       exception_type: "skip" | "override";
-      recurrence_type: "one_time" | "weekly" | "monthly";
+      holiday_calendar: "PL";
+      monthly_anchor: "day_of_month" | "nth_weekday" | "last_weekday" | "last_day";
+      recurrence_type: "one_time" | "weekly" | "monthly" | "quarterly" | "yearly";
     };
     CompositeTypes: Record<never, never>;
   };
@@ -558,9 +1290,12 @@ export const Constants = {
   },
   public: {
     Enums: {
-      entry_type: ["income", "expense"],
+      business_day_convention: ["none", "previous", "next", "nearest"],
+      entry_type: ["income", "expense", "transfer"],
       exception_type: ["skip", "override"],
-      recurrence_type: ["one_time", "weekly", "monthly"],
+      holiday_calendar: ["PL"],
+      monthly_anchor: ["day_of_month", "nth_weekday", "last_weekday", "last_day"],
+      recurrence_type: ["one_time", "weekly", "monthly", "quarterly", "yearly"],
     },
   },
 } as const;
@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback } from "react";
+import { format } from "date-fns";
+import { pickTimelineGranularity } from "@/components/dashboard/projection/chart";
+import type { BalanceTimelineDTO, DateRangeLimitsDTO } from "@/types";
+
+/**
+ * Loads the balance timeline for a date range, clamped to the projection limits
+ * Nothing is fetched until limits are known (i.e. a starting balance exists)
+ * Omit scenarioId for the baseline; pass a scenario id for "baseline + scenario", or null to load nothing
+ * walletId limits the timeline to one wallet; null projects all wallets consolidated
+ */
+export function useBalanceTimeline(
+  dateRange: { from: Date | undefined; to: Date | undefined },
+  limits: DateRangeLimitsDTO | null,
+  scenarioId?: string | null,
+  walletId: string | null = null
+) {
+  const [timeline, setTimeline] = useState<BalanceTimelineDTO | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const minDate = limits?.min_date;
+  const maxDate = limits?.max_date;
+  const rangeFrom = dateRange.from ? format(dateRange.from, "yyyy-MM-dd") : null;
+  const rangeTo = dateRange.to ? format(dateRange.to, "yyyy-MM-dd") : null;
+
+  const fetchTimeline = useCallback(async () => {
+    if (scenarioId === null) {
+      setTimeline(null);
+      return;
+    }
+
+    if (!rangeFrom || !rangeTo || !minDate || !maxDate) {
+      return;
+    }
+
+    // Dates are YYYY-MM-DD, so string comparison orders them
+    const from = rangeFrom < minDate ? minDate : rangeFrom;
+    const to = rangeTo > maxDate ? maxDate : rangeTo;
+    if (to < from) {
+      setTimeline(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const queryParams = new URLSearchParams({
+        from,
+        to,
+        granularity: pickTimelineGranularity(from, to),
+      });
+      if (scenarioId) {
+        queryParams.set("scenario", scenarioId);
+      }
+      if (walletId) {
+        queryParams.set("wallet", walletId);
+      }
+
+      const response = await fetch(`/api/projection/timeline?${queryParams.toString()}`, {
+        headers: { "Cache-Control": "no-cache" },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to fetch balance timeline");
+      }
+
+      const data: BalanceTimelineDTO = await response.json();
+      setTimeline(data);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to fetch balance timeline");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [rangeFrom, rangeTo, minDate, maxDate, scenarioId, walletId]);
+
+  useEffect(() => {
+    fetchTimeline();
+  }, [fetchTimeline]);
+
+  return {
+    timeline,
+    isLoading,
+    error,
+    refresh: fetchTimeline,
+  };
+}
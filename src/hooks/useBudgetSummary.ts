@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from "react";
+import type { BudgetSummaryDTO } from "@/types";
+
+/**
+ * Loads the budget summary of the current month (in the user's time zone)
+ */
+export function useBudgetSummary() {
+  const [summary, setSummary] = useState<BudgetSummaryDTO | null>(null);
+
+  const fetchSummary = useCallback(async () => {
+    try {
+      const response = await fetch("/api/budgets/summary", {
+        headers: { "Cache-Control": "no-cache" },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to fetch budget summary");
+      }
+
+      const data: BudgetSummaryDTO = await response.json();
+      setSummary(data);
+    } catch (error) {
+      // The summary is advisory; keep the last known one
+      console.error(error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary]);
+
+  return {
+    summary,
+    refresh: fetchSummary,
+  };
+}
@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from "react";
+import type { BudgetDTO, CreateBudgetCommand, UpdateBudgetCommand } from "@/types";
+
+const requestJson = async <T>(url: string, options: RequestInit = {}): Promise<T> => {
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-cache",
+      ...options.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const details: Record<string, string> = errorData.details ?? {};
+    throw new Error(Object.values(details)[0] || errorData.message || "An error occurred");
+  }
+
+  return response.json();
+};
+
+/**
+ * Loads the user's budgets, oldest first
+ * Pass server-rendered budgets to skip the initial fetch
+ */
+export function useBudgets(initialBudgets?: BudgetDTO[]) {
+  const [budgets, setBudgets] = useState<BudgetDTO[]>(initialBudgets ?? []);
+  const [needsFetch] = useState(!initialBudgets);
+
+  const fetchBudgets = useCallback(async () => {
+    try {
+      const data = await requestJson<BudgetDTO[]>("/api/budgets");
+      setBudgets(data);
+    } catch (error) {
+      console.error(error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (needsFetch) {
+      fetchBudgets();
+    }
+  }, [needsFetch, fetchBudgets]);
+
+  const createBudget = async (command: CreateBudgetCommand) => {
+    const budget = await requestJson<BudgetDTO>("/api/budgets", {
+      method: "POST",
+      body: JSON.stringify(command),
+    });
+    setBudgets((prev) => [...prev, budget]);
+    return budget;
+  };
+
+  const updateBudget = async (id: string, command: UpdateBudgetCommand) => {
+    const budget = await requestJson<BudgetDTO>(`/api/budgets/${id}`, {
+      method: "PUT",
+      body: JSON.stringify(command),
+    });
+    setBudgets((prev) => prev.map((b) => (b.id === id ? budget : b)));
+    return budget;
+  };
+
+  const deleteBudget = async (id: string) => {
+    await requestJson(`/api/budgets/${id}`, { method: "DELETE" });
+    setBudgets((prev) => prev.filter((b) => b.id !== id));
+  };
+
+  return {
+    budgets,
+    createBudget,
+    updateBudget,
+    deleteBudget,
+    refresh: fetchBudgets,
+  };
+}
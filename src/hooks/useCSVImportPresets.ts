@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback } from "react";
+import type { CSVImportPresetDTO, CreateCSVImportPresetCommand } from "@/types";
+
+const requestJson = async <T>(url: string, options: RequestInit = {}): Promise<T> => {
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-cache",
+      ...options.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || "An error occurred");
+  }
+
+  return response.json();
+};
+
+const byName = (a: CSVImportPresetDTO, b: CSVImportPresetDTO) => a.name.localeCompare(b.name);
+
+/**
+ * Loads the user's saved bank statement column mappings, sorted by name
+ */
+export function useCSVImportPresets() {
+  const [presets, setPresets] = useState<CSVImportPresetDTO[]>([]);
+
+  const fetchPresets = useCallback(async () => {
+    try {
+      const data = await requestJson<CSVImportPresetDTO[]>("/api/import/csv-presets");
+      setPresets(data);
+    } catch (error) {
+      console.error(error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPresets();
+  }, [fetchPresets]);
+
+  const createPreset = async (command: CreateCSVImportPresetCommand) => {
+    const preset = await requestJson<CSVImportPresetDTO>("/api/import/csv-presets", {
+      method: "POST",
+      body: JSON.stringify(command),
+    });
+    setPresets((prev) => [...prev, preset].sort(byName));
+    return preset;
+  };
+
+  const updatePreset = async (id: string, command: CreateCSVImportPresetCommand) => {
+    const preset = await requestJson<CSVImportPresetDTO>(`/api/import/csv-presets/${id}`, {
+      method: "PUT",
+      body: JSON.stringify(command),
+    });
+    setPresets((prev) => prev.map((p) => (p.id === id ? preset : p)).sort(byName));
+    return preset;
+  };
+
+  const deletePreset = async (id: string) => {
+    await requestJson(`/api/import/csv-presets/${id}`, { method: "DELETE" });
+    setPresets((prev) => prev.filter((p) => p.id !== id));
+  };
+
+  return {
+    presets,
+    createPreset,
+    updatePreset,
+    deletePreset,
+    refresh: fetchPresets,
+  };
+}
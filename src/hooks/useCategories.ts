@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from "react";
+import type { CategoryDTO, CreateCategoryCommand, UpdateCategoryCommand } from "@/types";
+
+const requestJson = async <T>(url: string, options: RequestInit = {}): Promise<T> => {
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-cache",
+      ...options.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const details: Record<string, string> = errorData.details ?? {};
+    throw new Error(Object.values(details)[0] || errorData.message || "An error occurred");
+  }
+
+  return response.json();
+};
+
+/**
+ * Loads the user's categories, sorted by name
+ * Pass server-rendered categories to skip the initial fetch
+ */
+export function useCategories(initialCategories?: CategoryDTO[]) {
+  const [categories, setCategories] = useState<CategoryDTO[]>(initialCategories ?? []);
+  const [needsFetch] = useState(!initialCategories);
+
+  const fetchCategories = useCallback(async () => {
+    try {
+      const data = await requestJson<CategoryDTO[]>("/api/categories");
+      setCategories(data);
+    } catch (error) {
+      console.error(error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (needsFetch) {
+      fetchCategories();
+    }
+  }, [needsFetch, fetchCategories]);
+
+  const createCategory = async (command: CreateCategoryCommand) => {
+    const category = await requestJson<CategoryDTO>("/api/categories", {
+      method: "POST",
+      body: JSON.stringify(command),
+    });
+    setCategories((prev) => [...prev, category].sort((a, b) => a.name.localeCompare(b.name)));
+    return category;
+  };
+
+  const updateCategory = async (id: string, command: UpdateCategoryCommand) => {
+    const category = await requestJson<CategoryDTO>(`/api/categories/${id}`, {
+      method: "PUT",
+      body: JSON.stringify(command),
+    });
+    setCategories((prev) => prev.map((c) => (c.id === id ? category : c)).sort((a, b) => a.name.localeCompare(b.name)));
+    return category;
+  };
+
+  // Subcategories are deleted with their parent, so reload instead of filtering locally
+  const deleteCategory = async (id: string) => {
+    await requestJson(`/api/categories/${id}`, { method: "DELETE" });
+    await fetchCategories();
+  };
+
+  return {
+    categories,
+    createCategory,
+    updateCategory,
+    deleteCategory,
+    refresh: fetchCategories,
+  };
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
+import { format, parseISO } from "date-fns";
 import type { StartingBalanceDTO, ProjectionDTO, UpsertStartingBalanceCommand } from "@/types";
 
 export interface DashboardState {
@@ -10,11 +11,16 @@ export interface DashboardState {
   isStartingBalanceModalOpen: boolean;
 }
 
-export function useDashboardData() {
+/**
+ * Projects the balance of one wallet, or of all wallets consolidated when walletId is null
+ * The onboarding modal asks for the default wallet's starting balance
+ * The projection starts on today (YYYY-MM-DD, in the user's time zone)
+ */
+export function useDashboardData(walletId: string | null = null, today: string = format(new Date(), "yyyy-MM-dd")) {
   const [state, setState] = useState<DashboardState>({
     startingBalance: null,
     projection: null,
-    selectedDate: new Date(),
+    selectedDate: parseISO(today),
     isLoading: true,
     error: null,
     isStartingBalanceModalOpen: false,
@@ -54,8 +60,9 @@ export function useDashboardData() {
   const fetchProjection = useCallback(async (date: Date) => {
     setState((prev) => ({ ...prev, isLoading: true }));
     try {
-      const dateStr = date.toISOString().split("T")[0];
-      const response = await fetch(`/api/projection?date=${dateStr}`, {
+      const dateStr = format(date, "yyyy-MM-dd");
+      const walletParam = walletId ? `&wallet=${walletId}` : "";
+      const response = await fetch(`/api/projection?date=${dateStr}${walletParam}`, {
         headers: { "Cache-Control": "no-cache" }
       });
 
@@ -80,7 +87,7 @@ export function useDashboardData() {
         error: "Failed to load projection",
       }));
     }
-  }, []);
+  }, [walletId]);
 
   const saveStartingBalance = useCallback(
     async (command: UpsertStartingBalanceCommand) => {
@@ -110,16 +117,18 @@ export function useDashboardData() {
     [state.selectedDate, fetchProjection]
   );
 
-  // Initial Load
+  // Initial Load (and again when switching wallets)
   useEffect(() => {
+    // Another wallet's projection must not be shown while loading, e.g. if this one has no starting balance
+    setState((prev) => ({ ...prev, projection: null }));
     const init = async () => {
       const balance = await fetchStartingBalance();
       if (balance) {
-        await fetchProjection(new Date());
+        await fetchProjection(parseISO(today));
       }
     };
     init();
-  }, [fetchStartingBalance, fetchProjection]);
+  }, [fetchStartingBalance, fetchProjection, today]);
 
   return {
     ...state,
@@ -9,7 +9,10 @@ import type {
   DeleteEntryResponseDTO,
   OccurrenceEditResponseDTO,
   FutureEditResponseDTO,
-  EntireEditResponseDTO
+  EntireEditResponseDTO,
+  UpsertSettlementCommand,
+  SettlementResponseDTO,
+  SuccessMessageDTO
 } from '@/types';
 
 interface UseEntryMutationsResult {
@@ -22,6 +25,8 @@ interface UseEntryMutationsResult {
   ) => Promise<OccurrenceEditResponseDTO | FutureEditResponseDTO | EntireEditResponseDTO>;
   deleteEntry: (id: string, scope: DeleteScope, date: string) => Promise<DeleteEntryResponseDTO>;
   fetchEntryDetails: (id: string) => Promise<EntrySeriesDetailDTO>;
+  settleOccurrence: (id: string, date: string, data: UpsertSettlementCommand) => Promise<SettlementResponseDTO>;
+  unsettleOccurrence: (id: string, date: string) => Promise<SuccessMessageDTO>;
   isMutating: boolean;
   error: string | null;
 }
@@ -95,11 +100,27 @@ export const useEntryMutations = (): UseEntryMutationsResult => {
     });
   };
 
+  // date is the occurrence date as listed
+  const settleOccurrence = async (id: string, date: string, data: UpsertSettlementCommand) => {
+    return handleRequest<SettlementResponseDTO>(`/api/entries/${id}/settlements/${date}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  };
+
+  const unsettleOccurrence = async (id: string, date: string) => {
+    return handleRequest<SuccessMessageDTO>(`/api/entries/${id}/settlements/${date}`, {
+      method: 'DELETE',
+    });
+  };
+
   return {
     createEntry,
     updateEntry,
     deleteEntry,
     fetchEntryDetails,
+    settleOccurrence,
+    unsettleOccurrence,
     isMutating,
     error,
   };
@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from "react";
+import type { LowBalanceForecastDTO } from "@/types";
+
+/**
+ * Loads the low-balance forecast for the projection horizon of one wallet, or all wallets when walletId is null
+ * Nothing is fetched while disabled (i.e. before a starting balance exists)
+ */
+export function useLowBalanceForecast(enabled: boolean, walletId: string | null = null) {
+  const [forecast, setForecast] = useState<LowBalanceForecastDTO | null>(null);
+
+  const fetchForecast = useCallback(async () => {
+    if (!enabled) {
+      return;
+    }
+
+    try {
+      const query = walletId ? `?wallet=${walletId}` : "";
+      const response = await fetch(`/api/projection/low-balance${query}`, {
+        headers: { "Cache-Control": "no-cache" },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to fetch low balance forecast");
+      }
+
+      const data: LowBalanceForecastDTO = await response.json();
+      setForecast(data);
+    } catch (error) {
+      // The warning is advisory; keep the last known forecast
+      console.error(error);
+    }
+  }, [enabled, walletId]);
+
+  useEffect(() => {
+    fetchForecast();
+  }, [fetchForecast]);
+
+  return {
+    forecast,
+    refresh: fetchForecast,
+  };
+}
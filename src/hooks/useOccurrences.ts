@@ -37,6 +37,18 @@ export const useOccurrences = (filters: DashboardFilters) => {
         queryParams.append('entry_type', filters.entryType);
       }
 
+      if (filters.walletId !== 'all') {
+        queryParams.append('wallet_id', filters.walletId);
+      }
+
+      if (filters.categoryId !== 'all') {
+        queryParams.append('category_id', filters.categoryId);
+      }
+
+      if (filters.tags.length > 0) {
+        queryParams.append('tags', filters.tags.join(','));
+      }
+
       const response = await fetch(`/api/occurrences?${queryParams.toString()}`, {
         headers: { "Cache-Control": "no-cache" }
       });
@@ -68,7 +80,7 @@ export const useOccurrences = (filters: DashboardFilters) => {
     setPagination(prev => ({ ...prev, offset: 0 }));
     // We pass reset=true to fetchOccurrences
     fetchOccurrences(true);
-  }, [filters.dateRange.from, filters.dateRange.to, filters.entryType]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [filters.dateRange.from, filters.dateRange.to, filters.entryType, filters.walletId, filters.categoryId, filters.tags]); // eslint-disable-line react-hooks/exhaustive-deps
 
   const loadMore = () => {
     if (!isLoading && hasMore) {
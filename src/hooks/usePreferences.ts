@@ -0,0 +1,66 @@
+import { useState, useEffect, useMemo } from "react";
+import type { UpdateUserPreferencesCommand, UserPreferencesDTO } from "@/types";
+import { createFormatter, type Formatter } from "@/lib/utils/format.utils";
+import { DEFAULT_TIME_ZONE, todayInTimeZone } from "@/lib/utils/date.utils";
+
+/**
+ * Loads the user's preferences, a formatter for their formatting preferences and today's date in their time zone
+ * The defaults are used until the preferences are loaded or if loading fails
+ * Pass server-rendered preferences to skip the initial fetch
+ */
+export function usePreferences(initialPreferences?: UserPreferencesDTO) {
+  const [preferences, setPreferences] = useState<UserPreferencesDTO | null>(initialPreferences ?? null);
+  const [needsFetch] = useState(!initialPreferences);
+
+  useEffect(() => {
+    if (!needsFetch) {
+      return;
+    }
+
+    const fetchPreferences = async () => {
+      try {
+        const response = await fetch("/api/preferences", {
+          headers: { "Cache-Control": "no-cache" },
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to load preferences");
+        }
+
+        setPreferences(await response.json());
+      } catch (error) {
+        console.error(error);
+      }
+    };
+    fetchPreferences();
+  }, [needsFetch]);
+
+  const updatePreferences = async (command: UpdateUserPreferencesCommand) => {
+    const response = await fetch("/api/preferences", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(command),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const details: Record<string, string> = errorData.details ?? {};
+      throw new Error(Object.values(details)[0] || errorData.message || "Failed to update preferences");
+    }
+
+    const data: UserPreferencesDTO = await response.json();
+    setPreferences(data);
+    return data;
+  };
+
+  const formatter: Formatter = useMemo(() => createFormatter(preferences ?? {}), [preferences]);
+  // YYYY-MM-DD
+  const today = todayInTimeZone(preferences?.time_zone ?? DEFAULT_TIME_ZONE);
+
+  return {
+    preferences,
+    formatter,
+    today,
+    updatePreferences,
+  };
+}
@@ -0,0 +1,156 @@
+import { useState, useEffect, useCallback } from "react";
+import { format } from "date-fns";
+import type {
+  ScenarioDTO,
+  ScenarioDetailDTO,
+  ProjectionDTO,
+  CreateEntryCommand,
+  CreateScenarioOverrideCommand,
+  ApplyScenarioResponseDTO,
+} from "@/types";
+
+const requestJson = async <T>(url: string, options: RequestInit = {}): Promise<T> => {
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-cache",
+      ...options.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || "An error occurred");
+  }
+
+  return response.json();
+};
+
+/**
+ * Loads the user's what-if scenarios and the "baseline + scenario" projection of the active one
+ * (for one wallet, or all wallets when walletId is null)
+ * Nothing is fetched while disabled (i.e. before a starting balance exists)
+ */
+export function useScenarios(selectedDate: Date, enabled: boolean, walletId: string | null = null) {
+  const [scenarios, setScenarios] = useState<ScenarioDTO[]>([]);
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null);
+  const [activeScenario, setActiveScenario] = useState<ScenarioDetailDTO | null>(null);
+  const [scenarioProjection, setScenarioProjection] = useState<ProjectionDTO | null>(null);
+
+  const dateStr = format(selectedDate, "yyyy-MM-dd");
+
+  const fetchScenarios = useCallback(async () => {
+    if (!enabled) {
+      return;
+    }
+
+    try {
+      const data = await requestJson<ScenarioDTO[]>("/api/scenarios");
+      setScenarios(data);
+      // Drop the selection if the scenario was deleted elsewhere
+      setActiveScenarioId((current) => (current && data.some((s) => s.id === current) ? current : null));
+    } catch (error) {
+      console.error(error);
+    }
+  }, [enabled]);
+
+  const fetchActiveScenario = useCallback(async () => {
+    if (!activeScenarioId) {
+      setActiveScenario(null);
+      setScenarioProjection(null);
+      return;
+    }
+
+    try {
+      const [detail, projection] = await Promise.all([
+        requestJson<ScenarioDetailDTO>(`/api/scenarios/${activeScenarioId}`),
+        requestJson<ProjectionDTO>(
+          `/api/projection?date=${dateStr}&scenario=${activeScenarioId}${walletId ? `&wallet=${walletId}` : ""}`
+        ),
+      ]);
+      setActiveScenario(detail);
+      setScenarioProjection(projection);
+    } catch (error) {
+      console.error(error);
+    }
+  }, [activeScenarioId, dateStr, walletId]);
+
+  useEffect(() => {
+    fetchScenarios();
+  }, [fetchScenarios]);
+
+  useEffect(() => {
+    fetchActiveScenario();
+  }, [fetchActiveScenario]);
+
+  const createScenario = async (name: string) => {
+    const scenario = await requestJson<ScenarioDTO>("/api/scenarios", {
+      method: "POST",
+      body: JSON.stringify({ name }),
+    });
+    setScenarios((prev) => [...prev, scenario]);
+    setActiveScenarioId(scenario.id);
+    return scenario;
+  };
+
+  const deleteScenario = async (id: string) => {
+    await requestJson(`/api/scenarios/${id}`, { method: "DELETE" });
+    setScenarios((prev) => prev.filter((s) => s.id !== id));
+    if (activeScenarioId === id) {
+      setActiveScenarioId(null);
+    }
+  };
+
+  const applyScenario = async (id: string) => {
+    const result = await requestJson<ApplyScenarioResponseDTO>(`/api/scenarios/${id}/apply`, { method: "POST" });
+    await Promise.all([fetchScenarios(), fetchActiveScenario()]);
+    return result;
+  };
+
+  const addScenarioEntry = async (command: CreateEntryCommand) => {
+    if (!activeScenarioId) return;
+    await requestJson(`/api/scenarios/${activeScenarioId}/entries`, {
+      method: "POST",
+      body: JSON.stringify(command),
+    });
+    await fetchActiveScenario();
+  };
+
+  const removeScenarioEntry = async (seriesId: string) => {
+    if (!activeScenarioId) return;
+    await requestJson(`/api/scenarios/${activeScenarioId}/entries/${seriesId}`, { method: "DELETE" });
+    await fetchActiveScenario();
+  };
+
+  const addScenarioOverride = async (command: CreateScenarioOverrideCommand) => {
+    if (!activeScenarioId) return;
+    await requestJson(`/api/scenarios/${activeScenarioId}/overrides`, {
+      method: "POST",
+      body: JSON.stringify(command),
+    });
+    await fetchActiveScenario();
+  };
+
+  const removeScenarioOverride = async (overrideId: string) => {
+    if (!activeScenarioId) return;
+    await requestJson(`/api/scenarios/${activeScenarioId}/overrides/${overrideId}`, { method: "DELETE" });
+    await fetchActiveScenario();
+  };
+
+  return {
+    scenarios,
+    activeScenarioId,
+    activeScenario,
+    scenarioProjection,
+    setActiveScenarioId,
+    createScenario,
+    deleteScenario,
+    applyScenario,
+    addScenarioEntry,
+    removeScenarioEntry,
+    addScenarioOverride,
+    removeScenarioOverride,
+    refresh: fetchActiveScenario,
+  };
+}
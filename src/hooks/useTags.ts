@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from "react";
+import type { TagDTO } from "@/types";
+
+/**
+ * Loads the user's tags, sorted by name
+ * Tags are created by saving entries, so refresh after an entry changes
+ */
+export function useTags() {
+  const [tags, setTags] = useState<TagDTO[]>([]);
+
+  const fetchTags = useCallback(async () => {
+    try {
+      const response = await fetch("/api/tags", {
+        headers: { "Cache-Control": "no-cache" },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to fetch tags");
+      }
+
+      const data: TagDTO[] = await response.json();
+      setTags(data);
+    } catch (error) {
+      console.error(error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags]);
+
+  return {
+    tags,
+    refresh: fetchTags,
+  };
+}
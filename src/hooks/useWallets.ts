@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback } from "react";
+import type { WalletDTO, CreateWalletCommand } from "@/types";
+
+const requestJson = async <T>(url: string, options: RequestInit = {}): Promise<T> => {
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-cache",
+      ...options.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || "An error occurred");
+  }
+
+  return response.json();
+};
+
+/**
+ * Loads the user's wallets, default wallet first
+ * Pass server-rendered wallets to skip the initial fetch
+ */
+export function useWallets(initialWallets?: WalletDTO[]) {
+  const [wallets, setWallets] = useState<WalletDTO[]>(initialWallets ?? []);
+  const [needsFetch] = useState(!initialWallets);
+
+  const fetchWallets = useCallback(async () => {
+    try {
+      const data = await requestJson<WalletDTO[]>("/api/wallets");
+      setWallets(data);
+    } catch (error) {
+      console.error(error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (needsFetch) {
+      fetchWallets();
+    }
+  }, [needsFetch, fetchWallets]);
+
+  const createWallet = async (command: CreateWalletCommand) => {
+    const wallet = await requestJson<WalletDTO>("/api/wallets", {
+      method: "POST",
+      body: JSON.stringify(command),
+    });
+    setWallets((prev) => [...prev, wallet]);
+    return wallet;
+  };
+
+  const renameWallet = async (id: string, name: string) => {
+    const wallet = await requestJson<WalletDTO>(`/api/wallets/${id}`, {
+      method: "PUT",
+      body: JSON.stringify({ name }),
+    });
+    setWallets((prev) => prev.map((w) => (w.id === id ? wallet : w)));
+    return wallet;
+  };
+
+  const deleteWallet = async (id: string) => {
+    await requestJson(`/api/wallets/${id}`, { method: "DELETE" });
+    setWallets((prev) => prev.filter((w) => w.id !== id));
+  };
+
+  return {
+    wallets,
+    createWallet,
+    renameWallet,
+    deleteWallet,
+    refresh: fetchWallets,
+  };
+}
@@ -0,0 +1,195 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type { BudgetDTO, BudgetSummaryDTO, CreateBudgetCommand, UpdateBudgetCommand } from "../../types";
+import { ExchangeRatesService } from "./exchange-rates.service";
+import { TagsService } from "./tags.service";
+import { monthDateRange, summarizeBudgets, type BudgetExpense } from "../utils/budget.utils";
+import { resolveOccurrenceTags } from "../utils/tag.utils";
+
+// Define custom errors
+class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+const BUDGET_COLUMNS = "id, category_id, tag_id, amount, created_at, updated_at";
+
+/**
+ * Service class for monthly budgets
+ * A budget caps the expenses of a category and its subcategories, or of a tag, in the base currency
+ */
+export class BudgetsService {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  async findAll(userId: string): Promise<BudgetDTO[]> {
+    const { data, error } = await this.supabase
+      .from("budgets")
+      .select(BUDGET_COLUMNS)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map((budget) => ({ ...budget, amount: Number(budget.amount) }));
+  }
+
+  async create(userId: string, command: CreateBudgetCommand): Promise<BudgetDTO> {
+    const { data, error } = await this.supabase
+      .from("budgets")
+      .insert({
+        user_id: userId,
+        category_id: command.category_id ?? null,
+        tag_id: command.tag_id ?? null,
+        amount: command.amount,
+      })
+      .select(BUDGET_COLUMNS)
+      .single();
+
+    if (error) {
+      throw this.toBudgetError(error, command);
+    }
+
+    return { ...data, amount: Number(data.amount) };
+  }
+
+  async update(userId: string, id: string, command: UpdateBudgetCommand): Promise<BudgetDTO> {
+    const { data, error } = await this.supabase
+      .from("budgets")
+      .update({
+        category_id: command.category_id ?? null,
+        tag_id: command.tag_id ?? null,
+        amount: command.amount,
+      })
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select(BUDGET_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw this.toBudgetError(error, command);
+    }
+
+    if (!data) {
+      throw new NotFoundError(`Budget with id ${id} not found`);
+    }
+
+    return { ...data, amount: Number(data.amount) };
+  }
+
+  async delete(userId: string, id: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from("budgets")
+      .delete()
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select("id");
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data || data.length === 0) {
+      throw new NotFoundError(`Budget with id ${id} not found`);
+    }
+  }
+
+  /**
+   * Compares the budgets with the month's expenses from expand_occurrences, across all wallets
+   * Settled expenses count at their actual amount; amounts are converted into the base currency
+   * @param month - Month in YYYY-MM format
+   * @throws Error if an exchange rate needed for the conversion is missing
+   */
+  async getSummary(userId: string, month: string): Promise<BudgetSummaryDTO> {
+    const exchangeRatesService = new ExchangeRatesService(this.supabase);
+    const [budgets, converter] = await Promise.all([this.findAll(userId), exchangeRatesService.getConverter(userId)]);
+
+    if (budgets.length === 0) {
+      return { month, currency: converter.baseCurrency, budgets: [] };
+    }
+
+    const { from_date, to_date } = monthDateRange(month);
+    const tagsService = new TagsService(this.supabase);
+    const [occurrencesResult, settlementsResult, categoriesResult, tags, tagLookup] = await Promise.all([
+      this.supabase.rpc("expand_occurrences", { p_user_id: userId, p_from_date: from_date, p_to_date: to_date }),
+      this.supabase
+        .from("occurrence_settlements")
+        .select("series_id, occurrence_date, actual_amount, actual_date")
+        .eq("user_id", userId)
+        .gte("occurrence_date", from_date)
+        .lte("occurrence_date", to_date),
+      this.supabase.from("categories").select("id, parent_id").eq("user_id", userId),
+      tagsService.findAll(userId),
+      tagsService.findOccurrenceTags(userId, from_date, to_date),
+    ]);
+
+    const error = occurrencesResult.error ?? settlementsResult.error ?? categoriesResult.error;
+    if (error) {
+      throw error;
+    }
+
+    const settlements = new Map(
+      (settlementsResult.data || []).map((settlement) => [
+        `${settlement.series_id}|${settlement.occurrence_date}`,
+        settlement,
+      ])
+    );
+
+    const expenses: BudgetExpense[] = [];
+    for (const occurrence of occurrencesResult.data || []) {
+      if (occurrence.entry_type !== "expense") continue;
+
+      const settlement = settlements.get(`${occurrence.series_id}|${occurrence.occurrence_date}`);
+      const amount = settlement ? Number(settlement.actual_amount) : Number(occurrence.amount);
+      const date = settlement ? settlement.actual_date : occurrence.occurrence_date;
+      try {
+        expenses.push({
+          category_id: occurrence.category_id,
+          tags: resolveOccurrenceTags(tagLookup, occurrence.series_id, occurrence.occurrence_date),
+          amount: converter.toBase(amount, occurrence.currency, date),
+          settled: settlement !== undefined,
+        });
+      } catch (conversionError) {
+        throw new Error(`${(conversionError as Error).message}. Please add an exchange rate first.`);
+      }
+    }
+
+    return {
+      month,
+      currency: converter.baseCurrency,
+      budgets: summarizeBudgets(budgets, categoriesResult.data || [], expenses, tags),
+    };
+  }
+
+  private toBudgetError<E extends { code: string; message: string }>(
+    error: E,
+    command: CreateBudgetCommand
+  ): E | Error {
+    switch (error.code) {
+      case "23505":
+        // unique_budget_category or unique_budget_tag
+        return new ConflictError(
+          error.message.includes("unique_budget_tag")
+            ? "This tag already has a budget"
+            : "This category already has a budget"
+        );
+      case "23503":
+        // budgets_category_id_fkey or budgets_tag_id_fkey (also rejects another user's category or tag)
+        return error.message.includes("budgets_tag_id_fkey")
+          ? new NotFoundError(`Tag with id ${command.tag_id} not found`)
+          : new NotFoundError(`Category with id ${command.category_id} not found`);
+      default:
+        return error;
+    }
+  }
+}
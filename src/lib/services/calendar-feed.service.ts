@@ -0,0 +1,221 @@
+/**
+ * Calendar Feed Service
+ * Handles per-user feed tokens and renders the subscribable occurrence feed
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type { CalendarFeedStatusDTO, EntryType } from "../../types";
+import { escapeICSText, foldICSLine, toICSDate, toICSDateTime } from "./ical.service";
+
+// Type alias for Supabase client with database types
+type TypedSupabaseClient = SupabaseClient<Database>;
+
+/**
+ * Occurrence row returned by get_calendar_feed_occurrences
+ */
+export type FeedOccurrence = Database["public"]["Functions"]["get_calendar_feed_occurrences"]["Returns"][number];
+
+// Rolling window served by the feed, relative to today in the user's time zone
+export const FEED_DAYS_BACK = 31;
+export const FEED_DAYS_AHEAD = 365;
+
+// How often calendar apps are asked to refresh the subscription
+const FEED_REFRESH_INTERVAL = "PT6H";
+
+// Event category per entry type
+const FEED_CATEGORIES: Record<EntryType, string> = { income: "Income", expense: "Expense", transfer: "Transfer" };
+
+/**
+ * Generates a new random feed token (256 bits, base64url, 43 characters)
+ * @returns Token to embed in the feed URL
+ */
+export function generateFeedToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const base64 = btoa(String.fromCharCode(...bytes));
+  return base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Hashes a feed token for storage and lookup
+ * @param token - Token from the feed URL
+ * @returns Lowercase hex SHA-256 digest
+ */
+export async function hashFeedToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Get the calendar feed status for a user
+ * @param supabase - Typed Supabase client
+ * @param userId - User ID from authenticated session
+ * @returns Whether a feed token exists and when it was generated
+ * @throws Error if database operation fails
+ */
+export async function getCalendarFeedStatus(
+  supabase: TypedSupabaseClient,
+  userId: string
+): Promise<CalendarFeedStatusDTO> {
+  const { data, error } = await supabase
+    .from("calendar_feed_tokens")
+    .select("created_at")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return { active: !!data, created_at: data?.created_at ?? null };
+}
+
+/**
+ * Generate a new feed token for a user, replacing (and revoking) any previous one
+ * @param supabase - Typed Supabase client
+ * @param userId - User ID from authenticated session
+ * @returns The new token (only available now) and its creation timestamp
+ * @throws Error if database operation fails
+ */
+export async function regenerateCalendarFeedToken(
+  supabase: TypedSupabaseClient,
+  userId: string
+): Promise<{ token: string; created_at: string }> {
+  const token = generateFeedToken();
+  const tokenHash = await hashFeedToken(token);
+
+  const { data, error } = await supabase
+    .from("calendar_feed_tokens")
+    .upsert(
+      {
+        user_id: userId,
+        token_hash: tokenHash,
+        created_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id" }
+    )
+    .select("created_at")
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return { token, created_at: data.created_at };
+}
+
+/**
+ * Revoke the feed token of a user
+ * @param supabase - Typed Supabase client
+ * @param userId - User ID from authenticated session
+ * @returns True if a token was revoked, false if none existed
+ * @throws Error if database operation fails
+ */
+export async function revokeCalendarFeedToken(supabase: TypedSupabaseClient, userId: string): Promise<boolean> {
+  const { data, error } = await supabase.from("calendar_feed_tokens").delete().eq("user_id", userId).select("id");
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Get the occurrences served by a feed
+ * Works without a session: the token is resolved by a SECURITY DEFINER database function
+ * @param supabase - Typed Supabase client (anonymous)
+ * @param token - Token from the feed URL
+ * @returns Occurrences in the rolling window, or null if the token is unknown
+ * @throws Error if database operation fails
+ */
+export async function getFeedOccurrences(
+  supabase: TypedSupabaseClient,
+  token: string
+): Promise<FeedOccurrence[] | null> {
+  const { data, error } = await supabase.rpc("get_calendar_feed_occurrences", {
+    p_token_hash: await hashFeedToken(token),
+    p_days_back: FEED_DAYS_BACK,
+    p_days_ahead: FEED_DAYS_AHEAD,
+  });
+
+  if (error) {
+    // P0002 (no_data_found) is raised for unknown or revoked tokens
+    if (error.code === "P0002") {
+      return null;
+    }
+    throw error;
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Formats an occurrence title for calendar apps, e.g. "Rent (-2500.00 PLN) · 3 of 12"
+ * @param occ - Feed occurrence
+ * @returns Event summary
+ */
+export function formatFeedSummary(occ: FeedOccurrence): string {
+  // Sign amount based on entry type (positive for income, negative for expense, none for transfers), as in CSV export
+  const sign = { income: "+", expense: "-", transfer: "" }[occ.entry_type];
+  const amount = `${sign}${occ.amount.toFixed(2)}`;
+  const progress = occ.occurrence_count ? ` · ${occ.occurrence_number} of ${occ.occurrence_count}` : "";
+  return `${occ.title} (${amount} ${occ.currency})${progress}`;
+}
+
+/**
+ * Generates the feed as a VCALENDAR with one all-day VEVENT per occurrence
+ * @param occurrences - Occurrences in the feed window
+ * @param now - Timestamp used for DTSTAMP (defaults to current time)
+ * @returns iCalendar content with CRLF line endings
+ */
+export function generateFeedContent(occurrences: FeedOccurrence[], now: Date = new Date()): string {
+  const dtstamp = toICSDateTime(now);
+
+  const events = occurrences.flatMap((occ) => {
+    const nextDay = new Date(`${occ.occurrence_date}T00:00:00Z`);
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+
+    return [
+      "BEGIN:VEVENT",
+      // occurrence_id is stable per (series, nominal date), so calendar apps update events in place
+      `UID:${occ.occurrence_id}@10x-expense-plotter`,
+      `DTSTAMP:${dtstamp}`,
+      `LAST-MODIFIED:${toICSDateTime(new Date(occ.updated_at))}`,
+      `DTSTART;VALUE=DATE:${toICSDate(occ.occurrence_date)}`,
+      `DTEND;VALUE=DATE:${toICSDate(nextDay.toISOString().split("T")[0])}`,
+      `SUMMARY:${escapeICSText(formatFeedSummary(occ))}`,
+      ...(occ.description ? [`DESCRIPTION:${escapeICSText(occ.description)}`] : []),
+      `CATEGORIES:${FEED_CATEGORIES[occ.entry_type]}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    ];
+  });
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//10x Expense Plotter//Occurrence Feed//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:10x Expense Plotter",
+    `REFRESH-INTERVAL;VALUE=DURATION:${FEED_REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${FEED_REFRESH_INTERVAL}`,
+    ...events,
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldICSLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Export service as object for easier mocking in tests
+ */
+export const calendarFeedService = {
+  getCalendarFeedStatus,
+  regenerateCalendarFeedToken,
+  revokeCalendarFeedToken,
+  getFeedOccurrences,
+};
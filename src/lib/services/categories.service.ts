@@ -0,0 +1,155 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type { CategoryDTO, CreateCategoryCommand, UpdateCategoryCommand } from "../../types";
+import { categorySubtreeIds } from "../utils/category.utils";
+
+// Define custom errors
+class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+const CATEGORY_COLUMNS = "id, parent_id, name, color, icon, created_at, updated_at";
+
+/**
+ * Service class for categories (housing, transport...)
+ * Categories form a tree; entry series belong to one and single occurrences can be moved to another
+ */
+export class CategoriesService {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  // Sorted by name; use flattenCategoryTree() for tree order
+  async findAll(userId: string): Promise<CategoryDTO[]> {
+    const { data, error } = await this.supabase
+      .from("categories")
+      .select(CATEGORY_COLUMNS)
+      .eq("user_id", userId)
+      .order("name", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async findById(userId: string, id: string): Promise<CategoryDTO | null> {
+    const { data, error } = await this.supabase
+      .from("categories")
+      .select(CATEGORY_COLUMNS)
+      .eq("user_id", userId)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Ids of a category and its subcategories, for filters that include subcategories
+   * @returns Empty if the category is not found
+   */
+  async findSubtreeIds(userId: string, id: string): Promise<string[]> {
+    const { data, error } = await this.supabase.from("categories").select("id, parent_id").eq("user_id", userId);
+
+    if (error) {
+      throw error;
+    }
+
+    return categorySubtreeIds(data || [], id);
+  }
+
+  async create(userId: string, command: CreateCategoryCommand): Promise<CategoryDTO> {
+    const { data, error } = await this.supabase
+      .from("categories")
+      .insert({
+        user_id: userId,
+        parent_id: command.parent_id ?? null,
+        name: command.name,
+        color: command.color,
+        icon: command.icon ?? null,
+      })
+      .select(CATEGORY_COLUMNS)
+      .single();
+
+    if (error) {
+      throw this.toCategoryError(error, command);
+    }
+
+    return data;
+  }
+
+  async update(userId: string, id: string, command: UpdateCategoryCommand): Promise<CategoryDTO> {
+    const { data, error } = await this.supabase
+      .from("categories")
+      .update({
+        parent_id: command.parent_id ?? null,
+        name: command.name,
+        color: command.color,
+        icon: command.icon ?? null,
+      })
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select(CATEGORY_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw this.toCategoryError(error, command);
+    }
+
+    if (!data) {
+      throw new NotFoundError(`Category with id ${id} not found`);
+    }
+
+    return data;
+  }
+
+  // Deleting a category deletes its subcategories; their entries and overrides become uncategorized
+  async delete(userId: string, id: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from("categories")
+      .delete()
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select("id");
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data || data.length === 0) {
+      throw new NotFoundError(`Category with id ${id} not found`);
+    }
+  }
+
+  private toCategoryError<E extends { code: string; message: string }>(
+    error: E,
+    command: CreateCategoryCommand
+  ): E | Error {
+    switch (error.code) {
+      case "23505":
+        // unique_category_name
+        return new ConflictError(`A category named "${command.name}" already exists here`);
+      case "23503":
+        // categories_parent_id_fkey (also rejects another user's category)
+        return new NotFoundError(`Category with id ${command.parent_id} not found`);
+      case "23514":
+        // check_category_parent
+        return new ConflictError("A category cannot be moved under itself or one of its subcategories");
+      default:
+        return error;
+    }
+  }
+}
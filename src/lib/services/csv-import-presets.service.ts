@@ -0,0 +1,114 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json } from "../../db/database.types";
+import type {
+  CreateCSVImportPresetCommand,
+  CSVColumnMapping,
+  CSVImportPresetDTO,
+  CSVImportPresetRow,
+  UpdateCSVImportPresetCommand,
+} from "../../types";
+
+// Define custom errors
+class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+const PRESET_COLUMNS = "id, name, mapping, created_at, updated_at";
+
+/**
+ * Service class for the user's saved bank statement column mappings
+ */
+export class CSVImportPresetsService {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  // Sorted by name
+  async findAll(userId: string): Promise<CSVImportPresetDTO[]> {
+    const { data, error } = await this.supabase
+      .from("csv_import_presets")
+      .select(PRESET_COLUMNS)
+      .eq("user_id", userId)
+      .order("name", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map(toPresetDTO);
+  }
+
+  async create(userId: string, command: CreateCSVImportPresetCommand): Promise<CSVImportPresetDTO> {
+    const { data, error } = await this.supabase
+      .from("csv_import_presets")
+      .insert({ user_id: userId, name: command.name, mapping: command.mapping as unknown as Json })
+      .select(PRESET_COLUMNS)
+      .single();
+
+    if (error) {
+      throw this.toPresetError(error, command.name);
+    }
+
+    return toPresetDTO(data);
+  }
+
+  async update(userId: string, id: string, command: UpdateCSVImportPresetCommand): Promise<CSVImportPresetDTO> {
+    const { data, error } = await this.supabase
+      .from("csv_import_presets")
+      .update({ name: command.name, mapping: command.mapping as unknown as Json })
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select(PRESET_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw this.toPresetError(error, command.name);
+    }
+
+    if (!data) {
+      throw new NotFoundError(`Preset with id ${id} not found`);
+    }
+
+    return toPresetDTO(data);
+  }
+
+  async delete(userId: string, id: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from("csv_import_presets")
+      .delete()
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select("id");
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data || data.length === 0) {
+      throw new NotFoundError(`Preset with id ${id} not found`);
+    }
+  }
+
+  private toPresetError<E extends { code: string; message: string }>(error: E, name: string): E | Error {
+    switch (error.code) {
+      case "23505":
+        // unique_csv_import_preset_name
+        return new ConflictError(`A preset named "${name}" already exists`);
+      default:
+        return error;
+    }
+  }
+}
+
+// The mapping column only ever holds mappings validated by csvColumnMappingSchema
+function toPresetDTO(row: Omit<CSVImportPresetRow, "user_id">): CSVImportPresetDTO {
+  return { ...row, mapping: row.mapping as unknown as CSVColumnMapping };
+}
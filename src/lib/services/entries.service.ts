@@ -6,6 +6,7 @@ import type {
   EntrySeriesDetailDTO,
   EntrySeriesDTO,
   SeriesExceptionDTO,
+  SeriesProgressDTO,
   OccurrenceEditResponseDTO,
   FutureEditResponseDTO,
   EntireEditResponseDTO,
@@ -20,6 +21,7 @@ import type {
   AnalyticsEventMetadata,
 } from "../../types";
 import type { ExceptionType } from "../../types"; // For 'override' and 'skip'
+import { TagsService } from "./tags.service";
 
 // Define custom errors
 class NotFoundError extends Error {
@@ -36,6 +38,68 @@ class ConflictError extends Error {
   }
 }
 
+// Sort and de-duplicate weekday / day-of-month sets and make the scalar anchor
+// their first element, as required by the entry_series constraints
+function normalizeAnchorSets<T extends CreateEntryCommand>(command: T): T {
+  const weekdays = command.weekdays
+    ? [...new Set(command.weekdays)].sort((a, b) => a - b)
+    : null;
+  const daysOfMonth = command.days_of_month
+    ? [...new Set(command.days_of_month)].sort((a, b) => a - b)
+    : null;
+
+  return {
+    ...command,
+    weekdays,
+    weekday: weekdays ? weekdays[0] : command.weekday,
+    days_of_month: daysOfMonth,
+    day_of_month: daysOfMonth ? daysOfMonth[0] : command.day_of_month,
+  };
+}
+
+// The entry_series columns of a command; its tags are stored separately by
+// set_series_tags
+function toSeriesColumns<T extends CreateEntryCommand>(
+  command: T,
+): Omit<T, "tags"> {
+  /* eslint-disable-next-line @typescript-eslint/no-unused-vars */
+  const { tags: _, ...columns } = normalizeAnchorSets(command);
+  return columns;
+}
+
+// Map violations of the wallet and category foreign keys (which also reject
+// another user's wallet or category) and of the transfer target check to API
+// errors
+function toReferenceError<E extends { code: string; message: string }>(
+  error: E,
+  command: CreateEntryCommand,
+): E | Error {
+  if (error.code === "23503" && error.message.includes("category_id")) {
+    // entry_series_category_id_fkey or series_exceptions_category_id_fkey
+    return new NotFoundError(
+      `Category with id ${command.category_id} not found`,
+    );
+  }
+  if (error.code === "23503" && error.message.includes("target_wallet_id")) {
+    // entry_series_target_wallet_id_fkey
+    return new NotFoundError(
+      `Wallet with id ${command.target_wallet_id} not found`,
+    );
+  }
+  if (error.code === "23503" && command.wallet_id) {
+    // entry_series_wallet_id_fkey
+    return new NotFoundError(`Wallet with id ${command.wallet_id} not found`);
+  }
+  if (
+    error.code === "23514" &&
+    error.message.includes("check_transfer_target_wallet")
+  ) {
+    // The transfer targets the wallet it was left in (the default or original one)
+    return new ConflictError("A transfer must go to a different wallet");
+  }
+  return error;
+}
+
 export class EntriesService {
   constructor(private supabase: SupabaseClient<Database>) {}
 
@@ -48,6 +112,7 @@ export class EntriesService {
       .select("*")
       .eq("user_id", userId)
       .eq("id", id)
+      .is("scenario_id", null)
       .single();
 
     if (error && error.code !== "PGRST116") {
@@ -65,7 +130,8 @@ export class EntriesService {
     let query = this.supabase
       .from("entry_series")
       .select("*", { count: "exact", head: false })
-      .eq("user_id", userId);
+      .eq("user_id", userId)
+      .is("scenario_id", null);
 
     if (params.entry_type) {
       query = query.eq("entry_type", params.entry_type);
@@ -79,6 +145,14 @@ export class EntriesService {
     if (params.start_date_to) {
       query = query.lte("start_date", params.start_date_to);
     }
+    if (params.tags) {
+      const tagsService = new TagsService(this.supabase);
+      const seriesIds = await tagsService.findSeriesIdsByTags(
+        userId,
+        params.tags,
+      );
+      query = query.in("id", seriesIds);
+    }
     if (params.sort_by && params.sort_order) {
       query = query.order(params.sort_by, {
         ascending: params.sort_order === "asc",
@@ -120,6 +194,7 @@ export class EntriesService {
       .from("series_exceptions")
       .select("*")
       .eq("series_id", id)
+      .is("scenario_id", null)
       .order("exception_date", { ascending: true });
 
     if (error) {
@@ -131,12 +206,91 @@ export class EntriesService {
       ({ series_id: _, user_id: __, created_at: ___, ...rest }) => rest,
     );
 
+    const progress = await this.getSeriesProgress(userId, series);
+
+    const tagsService = new TagsService(this.supabase);
+    const seriesTags = await tagsService.findSeriesTags(userId, [id]);
+
     return {
       ...series,
+      tags: seriesTags.get(id) ?? [],
       exceptions,
+      progress,
     };
   }
 
+  // Helper method to compute "occurrence N of M" progress for count-bounded series
+  private async getSeriesProgress(
+    userId: string,
+    series: EntrySeriesRow,
+  ): Promise<SeriesProgressDTO | null> {
+    if (series.occurrence_count === null) {
+      return null;
+    }
+
+    const { data: today, error: dateError } = await this.supabase.rpc(
+      "user_today",
+      { p_user_id: userId },
+    );
+
+    if (dateError) {
+      throw dateError;
+    }
+
+    return {
+      completed_occurrences: await this.countOccurrencesUpTo(series, today),
+      total_occurrences: series.occurrence_count,
+    };
+  }
+
+  // Helper method to count the occurrences of a series, skipped ones included,
+  // from its start up to toDate (inclusive, by nominal date)
+  private async countOccurrencesUpTo(
+    series: EntrySeriesRow,
+    toDate: string,
+  ): Promise<number> {
+    if (toDate < series.start_date) {
+      return 0;
+    }
+
+    const { data: count, error } = await this.supabase.rpc(
+      "count_series_occurrences",
+      {
+        p_series_id: series.id,
+        p_to_date: toDate,
+      },
+    );
+
+    if (error) {
+      throw error;
+    }
+
+    return count ?? 0;
+  }
+
+  // Helper method to find the nominal date of the occurrence shown on date;
+  // business-day adjustment may have moved it there from another day. A date
+  // without an occurrence is returned unchanged.
+  private async getNominalDate(
+    series: EntrySeriesRow,
+    date: string,
+  ): Promise<string> {
+    if (series.business_day_convention === "none") {
+      return date;
+    }
+
+    const { data, error } = await this.supabase.rpc("series_nominal_date", {
+      p_series_id: series.id,
+      p_date: date,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return data ?? date;
+  }
+
   // Helper method to log analytics event
   private async logAnalyticsEvent(
     userId: string,
@@ -161,18 +315,34 @@ export class EntriesService {
     }
   }
 
+  // scenarioId creates a hypothetical series that only exists within that scenario
   async create(
     userId: string,
     command: CreateEntryCommand,
+    scenarioId: string | null = null,
   ): Promise<EntrySeriesDTO> {
     const { data, error } = await this.supabase
       .from("entry_series")
-      .insert({ ...command, user_id: userId })
+      .insert({
+        ...toSeriesColumns(command),
+        user_id: userId,
+        scenario_id: scenarioId,
+      })
       .select()
       .single();
 
     if (error) {
-      throw error;
+      throw toReferenceError(error, command);
+    }
+
+    if (command.tags && command.tags.length > 0) {
+      const tagsService = new TagsService(this.supabase);
+      await tagsService.setSeriesTags(data.id, command.tags);
+    }
+
+    // Hypothetical entries are not tracked until the scenario is applied
+    if (scenarioId) {
+      return data;
     }
 
     // Log analytics event
@@ -180,6 +350,7 @@ export class EntriesService {
       entry_type: command.entry_type,
       recurrence_type: command.recurrence_type,
       has_end_date: !!command.end_date,
+      has_occurrence_count: !!command.occurrence_count,
     });
 
     return data;
@@ -212,6 +383,7 @@ export class EntriesService {
           title: command.title,
           description: command.description,
           amount: command.amount,
+          category_id: command.category_id ?? null,
           user_id: userId,
         };
 
@@ -222,7 +394,13 @@ export class EntriesService {
           .single();
 
         if (error) {
-          throw error;
+          throw toReferenceError(error, command);
+        }
+
+        // Without tags the occurrence keeps using the series tags
+        if (command.tags) {
+          const tagsService = new TagsService(this.supabase);
+          await tagsService.setExceptionTags(exception.id, command.tags);
         }
 
         // Log after success
@@ -242,7 +420,10 @@ export class EntriesService {
           throw new Error("Date is required for future scope");
         }
 
-        const splitDate = new Date(date);
+        // Split at the nominal date, so an occurrence moved to a business day
+        // goes to the new series with the others
+        const nominalDate = await this.getNominalDate(series, date);
+        const splitDate = new Date(nominalDate);
         if (splitDate < new Date(series.start_date)) {
           throw new ConflictError("Cannot split series before its start date");
         }
@@ -254,13 +435,27 @@ export class EntriesService {
         }
 
         // Update original series end_date to date - 1
+        // (clearing occurrence_count, which would otherwise re-derive end_date)
         const prevEndDate = new Date(splitDate);
         prevEndDate.setDate(prevEndDate.getDate() - 1);
         const prevEndStr = prevEndDate.toISOString().split("T")[0];
 
+        // The occurrence count of a count-bounded series covers the whole
+        // plan, so the new series gets what is left after the split
+        let occurrenceCount = command.occurrence_count;
+        if (occurrenceCount != null && series.occurrence_count !== null) {
+          const elapsed = await this.countOccurrencesUpTo(series, prevEndStr);
+          occurrenceCount -= elapsed;
+          if (occurrenceCount < 1) {
+            throw new ConflictError(
+              `Occurrence count must exceed the ${elapsed} occurrences before ${date}`,
+            );
+          }
+        }
+
         const { error: updateError } = await this.supabase
           .from("entry_series")
-          .update({ end_date: prevEndStr })
+          .update({ end_date: prevEndStr, occurrence_count: null })
           .eq("id", id)
           .eq("user_id", userId);
 
@@ -268,10 +463,15 @@ export class EntriesService {
           throw updateError;
         }
 
-        // Create new series
+        // Create new series (in the original wallet and currency unless the edit
+        // changes them; a transfer keeps debiting it and credits
+        // command.target_wallet_id)
         const newSeriesData = {
-          ...command,
-          start_date: date,
+          ...toSeriesColumns(command),
+          occurrence_count: occurrenceCount,
+          wallet_id: command.wallet_id ?? series.wallet_id,
+          currency: command.currency ?? series.currency,
+          start_date: nominalDate,
           parent_series_id: id,
           user_id: userId,
         };
@@ -284,7 +484,17 @@ export class EntriesService {
 
         if (insertError) {
           // Note: No rollback implemented; in production, use Supabase RPC for transactions
-          throw insertError;
+          throw toReferenceError(insertError, command);
+        }
+
+        // The new series keeps the original tags unless the edit changes them
+        const tagsService = new TagsService(this.supabase);
+        const tags =
+          command.tags ??
+          (await tagsService.findSeriesTags(userId, [id])).get(id) ??
+          [];
+        if (tags.length > 0) {
+          await tagsService.setSeriesTags(newSeries.id, tags);
         }
 
         // Fetch updated original series for response
@@ -314,20 +524,25 @@ export class EntriesService {
       case "entire": {
         const { data: updated, error } = await this.supabase
           .from("entry_series")
-          .update({ ...command })
+          .update({ ...toSeriesColumns(command) })
           .eq("id", id)
           .eq("user_id", userId)
           .select()
           .single();
 
         if (error) {
-          throw error;
+          throw toReferenceError(error, command);
         }
 
         if (!updated) {
           throw new NotFoundError(`Entry series with id ${id} not found`);
         }
 
+        if (command.tags) {
+          const tagsService = new TagsService(this.supabase);
+          await tagsService.setSeriesTags(id, command.tags);
+        }
+
         // Log after success
         await this.logAnalyticsEvent(userId, "entry_updated", {
           entry_type: command.entry_type,
@@ -380,7 +595,9 @@ export class EntriesService {
           throw new Error("Date is required for future scope");
         }
 
-        const splitDate = new Date(date);
+        // End before the nominal date, so an occurrence moved to a business day
+        // is deleted with the others
+        const splitDate = new Date(await this.getNominalDate(series, date));
         if (splitDate < new Date(series.start_date)) {
           throw new ConflictError(
             "Cannot truncate series before its start date",
@@ -394,13 +611,14 @@ export class EntriesService {
         }
 
         // Update end_date to date - 1
+        // (clearing occurrence_count, which would otherwise re-derive end_date)
         const prevEndDate = new Date(splitDate);
         prevEndDate.setDate(prevEndDate.getDate() - 1);
         const prevEndStr = prevEndDate.toISOString().split("T")[0];
 
         const { error } = await this.supabase
           .from("entry_series")
-          .update({ end_date: prevEndStr })
+          .update({ end_date: prevEndStr, occurrence_count: null })
           .eq("id", id)
           .eq("user_id", userId);
 
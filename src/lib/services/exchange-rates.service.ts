@@ -0,0 +1,127 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type { ExchangeRateDTO, CreateExchangeRateCommand, UpdateExchangeRateCommand } from "../../types";
+import { getUserPreferences } from "./preferences.service";
+import { createCurrencyConverter, type CurrencyConverter } from "../utils/currency.utils";
+
+// Define custom errors
+class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+const EXCHANGE_RATE_COLUMNS = "id, currency, rate_date, rate, created_at, updated_at";
+
+/**
+ * Service class for the user's dated exchange rates
+ * A rate is the number of base currency units per unit of a currency, in effect from its date
+ * until the next rate of that currency
+ */
+export class ExchangeRatesService {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  // Ordered by currency, then date
+  async findAll(userId: string): Promise<ExchangeRateDTO[]> {
+    const { data, error } = await this.supabase
+      .from("exchange_rates")
+      .select(EXCHANGE_RATE_COLUMNS)
+      .eq("user_id", userId)
+      .order("currency", { ascending: true })
+      .order("rate_date", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map((rate) => ({ ...rate, rate: Number(rate.rate) }));
+  }
+
+  /**
+   * Returns a converter into the user's base currency, built from all of their rates
+   */
+  async getConverter(userId: string): Promise<CurrencyConverter> {
+    const [preferences, rates] = await Promise.all([getUserPreferences(this.supabase, userId), this.findAll(userId)]);
+    return createCurrencyConverter(preferences.base_currency, rates);
+  }
+
+  // Rates of the base currency would be ignored, so they are rejected
+  private async assertNotBaseCurrency(userId: string, currency: string): Promise<void> {
+    const { base_currency } = await getUserPreferences(this.supabase, userId);
+    if (currency === base_currency) {
+      throw new ConflictError(`${currency} is the base currency; its rate is always 1`);
+    }
+  }
+
+  async create(userId: string, command: CreateExchangeRateCommand): Promise<ExchangeRateDTO> {
+    await this.assertNotBaseCurrency(userId, command.currency);
+
+    const { data, error } = await this.supabase
+      .from("exchange_rates")
+      .insert({ user_id: userId, currency: command.currency, rate_date: command.rate_date, rate: command.rate })
+      .select(EXCHANGE_RATE_COLUMNS)
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        // unique_exchange_rate
+        throw new ConflictError(`A ${command.currency} rate for ${command.rate_date} already exists`);
+      }
+      throw error;
+    }
+
+    return { ...data, rate: Number(data.rate) };
+  }
+
+  async update(userId: string, id: string, command: UpdateExchangeRateCommand): Promise<ExchangeRateDTO> {
+    await this.assertNotBaseCurrency(userId, command.currency);
+
+    const { data, error } = await this.supabase
+      .from("exchange_rates")
+      .update({ currency: command.currency, rate_date: command.rate_date, rate: command.rate })
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select(EXCHANGE_RATE_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === "23505") {
+        // unique_exchange_rate
+        throw new ConflictError(`A ${command.currency} rate for ${command.rate_date} already exists`);
+      }
+      throw error;
+    }
+
+    if (!data) {
+      throw new NotFoundError(`Exchange rate with id ${id} not found`);
+    }
+
+    return { ...data, rate: Number(data.rate) };
+  }
+
+  async delete(userId: string, id: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from("exchange_rates")
+      .delete()
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      throw new NotFoundError(`Exchange rate with id ${id} not found`);
+    }
+  }
+}
@@ -1,5 +1,8 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { EntryType } from "@/types";
+import { createCurrencyConverter, type CurrencyConverter } from "@/lib/utils/currency.utils";
+import type { Formatter } from "@/lib/utils/format.utils";
+import { todayInTimeZone } from "@/lib/utils/date.utils";
 
 /**
  * CSV occurrence structure returned from expand_occurrences database function
@@ -14,8 +17,13 @@ export interface CSVOccurrence {
   amount: number;
   created_at: string;
   updated_at: string;
+  currency: string;
+  category_id: string | null;
 }
 
+// Used when no rates are given: every amount is already in PLN
+const PLN_ONLY = createCurrencyConverter("PLN", []);
+
 /**
  * Generates CSV export data by calling the expand_occurrences database function
  *
@@ -24,6 +32,7 @@ export interface CSVOccurrence {
  * @param fromDate - Start date for export range (YYYY-MM-DD)
  * @param toDate - End date for export range (YYYY-MM-DD)
  * @param entryType - Optional filter by entry type (income or expense)
+ * @param categoryIds - Optional filter by category (a category and its subcategories); empty matches nothing
  * @returns Array of CSV occurrences
  * @throws Error if database function fails
  */
@@ -32,7 +41,8 @@ export async function generateCSVExport(
   userId: string,
   fromDate: string,
   toDate: string,
-  entryType?: EntryType
+  entryType?: EntryType,
+  categoryIds?: string[]
 ): Promise<CSVOccurrence[]> {
   const { data, error } = await supabase.rpc("expand_occurrences", {
     p_user_id: userId,
@@ -51,6 +61,11 @@ export async function generateCSVExport(
     occurrences = occurrences.filter((occ) => occ.entry_type === entryType);
   }
 
+  // Apply category filter if provided
+  if (categoryIds) {
+    occurrences = occurrences.filter((occ) => occ.category_id !== null && categoryIds.includes(occ.category_id));
+  }
+
   return occurrences;
 }
 
@@ -78,15 +93,35 @@ export function escapeCsvField(field: string): string {
   return field;
 }
 
+/**
+ * Formats an amount for a CSV field; locales with a decimal comma get a quoted field
+ * Not passed through escapeCsvField, which would prefix negative amounts with a quote
+ */
+function formatCsvAmount(amount: number, formatter?: Formatter): string {
+  const value = formatter ? formatter.number(amount) : amount.toFixed(2);
+  return value.includes(",") ? `"${value}"` : value;
+}
+
 /**
  * Formats a single CSV occurrence as a CSV row
  *
  * @param occ - CSV occurrence data
+ * @param converter - Converts the amount into the base currency at the occurrence date
+ * @param formatter - The user's number locale and date format; without it, amounts have a decimal point and
+ * dates are YYYY-MM-DD
+ * @param sign - Sign of the amount: positive for income, negative for expense (default); a transfer leg is
+ * negative for the debit and positive for the credit (see formatCsvRows)
  * @returns Formatted CSV row string
+ * @throws Error if there is no exchange rate for the occurrence currency
  */
-export function formatCsvRow(occ: CSVOccurrence): string {
-  // Sign amount based on entry type (positive for income, negative for expense)
-  const amount = occ.entry_type === "income" ? occ.amount : -occ.amount;
+export function formatCsvRow(
+  occ: CSVOccurrence,
+  converter: CurrencyConverter = PLN_ONLY,
+  formatter?: Formatter,
+  sign: 1 | -1 = occ.entry_type === "expense" ? -1 : 1
+): string {
+  const originalAmount = sign * occ.amount;
+  const amount = converter.toBase(originalAmount, occ.currency, occ.occurrence_date);
 
   return [
     occ.occurrence_id,
@@ -94,31 +129,63 @@ export function formatCsvRow(occ: CSVOccurrence): string {
     occ.entry_type,
     escapeCsvField(occ.title),
     escapeCsvField(occ.description || ""),
-    occ.occurrence_date,
-    amount.toFixed(2),
+    formatter ? escapeCsvField(formatter.date(occ.occurrence_date)) : occ.occurrence_date,
+    formatCsvAmount(amount, formatter),
     occ.created_at,
     occ.updated_at,
+    formatCsvAmount(originalAmount, formatter),
+    occ.currency,
   ].join(",");
 }
 
 /**
- * Generates complete CSV content with header and data rows
+ * Formats a CSV occurrence as its CSV rows: one row, or a debit and a credit row for a transfer
+ * The two legs of a transfer cancel out, so summing the amounts adds up income and expenses only
+ *
+ * @param occ - CSV occurrence data
+ * @param converter - Converts the amount into the base currency at the occurrence date
+ * @param formatter - The user's number locale and date format (see formatCsvRow)
+ * @returns Formatted CSV row strings
+ * @throws Error if there is no exchange rate for the occurrence currency
+ */
+export function formatCsvRows(
+  occ: CSVOccurrence,
+  converter: CurrencyConverter = PLN_ONLY,
+  formatter?: Formatter
+): string[] {
+  if (occ.entry_type === "transfer") {
+    return [formatCsvRow(occ, converter, formatter, -1), formatCsvRow(occ, converter, formatter, 1)];
+  }
+  return [formatCsvRow(occ, converter, formatter)];
+}
+
+/**
+ * Generates complete CSV content with header and data rows (two per transfer, see formatCsvRows)
+ * The converted amount column is named after the base currency (amount_pln, amount_eur...)
  *
  * @param occurrences - Array of CSV occurrences
+ * @param converter - Converts amounts into the base currency
+ * @param formatter - The user's number locale and date format (see formatCsvRow)
  * @returns Complete CSV content as string
+ * @throws Error if there is no exchange rate for an occurrence currency
  */
-export function generateCSVContent(occurrences: CSVOccurrence[]): string {
-  const header = "occurrence_id,series_id,type,title,description,date,amount_pln,created_at,updated_at";
-  const rows = occurrences.map(formatCsvRow);
+export function generateCSVContent(
+  occurrences: CSVOccurrence[],
+  converter: CurrencyConverter = PLN_ONLY,
+  formatter?: Formatter
+): string {
+  const amountColumn = `amount_${converter.baseCurrency.toLowerCase()}`;
+  const header = `occurrence_id,series_id,type,title,description,date,${amountColumn},created_at,updated_at,original_amount,original_currency`;
+  const rows = occurrences.flatMap((occ) => formatCsvRows(occ, converter, formatter));
   return [header, ...rows].join("\n");
 }
 
 /**
  * Generates a timestamped filename for CSV export
  *
+ * @param today - Current date in the user's time zone (default: today in UTC)
  * @returns Filename in format: 10x-expense-plotter-export-YYYY-MM-DD.csv
  */
-export function generateCSVFilename(): string {
-  const today = new Date().toISOString().split("T")[0];
+export function generateCSVFilename(today: string = todayInTimeZone("UTC")): string {
   return `10x-expense-plotter-export-${today}.csv`;
 }
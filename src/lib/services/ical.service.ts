@@ -0,0 +1,1219 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  BusinessDayConvention,
+  CreateEntryCommand,
+  EntrySeriesRow,
+  EntryType,
+  ExceptionType,
+  ICSImportedSeriesDTO,
+  ICSImportResponseDTO,
+  ICSSkippedEventDTO,
+  MonthlyAnchor,
+  RecurrenceType,
+  SeriesExceptionRow,
+} from "@/types";
+import { createEntrySchema } from "@/lib/validation/entries.validation";
+import { EntriesService } from "./entries.service";
+import { todayInTimeZone } from "@/lib/utils/date.utils";
+
+const PRODID = "-//10x Expense Plotter//Entry Series//EN";
+const UID_DOMAIN = "10x-expense-plotter";
+
+// Non-standard properties carrying the fields RFC 5545 has no place for
+const X_AMOUNT = "X-EXPENSE-PLOTTER-AMOUNT";
+const X_ENTRY_TYPE = "X-EXPENSE-PLOTTER-ENTRY-TYPE";
+const X_CURRENCY = "X-EXPENSE-PLOTTER-CURRENCY";
+const X_RRULE = "X-EXPENSE-PLOTTER-RRULE";
+const X_DTSTART = "X-EXPENSE-PLOTTER-DTSTART";
+const X_BUSINESS_DAY_CONVENTION = "X-EXPENSE-PLOTTER-BUSINESS-DAY-CONVENTION";
+
+// RRULE weekday codes indexed by Postgres DOW numbering (0=Sunday)
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const SUPPORTED_RULE_PARTS = new Set([
+  "FREQ",
+  "INTERVAL",
+  "COUNT",
+  "UNTIL",
+  "BYDAY",
+  "BYMONTHDAY",
+  "BYMONTH",
+  "BYSETPOS",
+  "WKST",
+]);
+const BUSINESS_DAY_CONVENTIONS: BusinessDayConvention[] = ["none", "previous", "next", "nearest"];
+
+const MAX_INTERVAL = 52;
+const MAX_OCCURRENCE_COUNT = 1000;
+const MAX_TITLE_LENGTH = 120;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+/**
+ * Property of a parsed iCalendar component
+ */
+export interface ICSProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Parsed iCalendar component (VCALENDAR, VEVENT, ...)
+ */
+export interface ICSComponent {
+  name: string;
+  properties: ICSProperty[];
+  components: ICSComponent[];
+}
+
+/**
+ * Data needed to render an iCalendar export
+ */
+export interface ICSExportData {
+  series: EntrySeriesRow[];
+  exceptions: SeriesExceptionRow[];
+  // Actual occurrence dates for series whose schedule has no exact RRULE equivalent
+  occurrenceDates: Map<string, string[]>;
+}
+
+/**
+ * Series exception recreated from EXDATE or an overridden VEVENT
+ */
+export interface ICSExceptionInput {
+  exception_date: string;
+  exception_type: ExceptionType;
+  title: string | null;
+  description: string | null;
+  amount: number | null;
+}
+
+/**
+ * Calendar event mapped onto an entry series, ready for validation and insert
+ */
+export interface ICSImportCandidate {
+  uid: string;
+  command: CreateEntryCommand;
+  exceptions: ICSExceptionInput[];
+  warnings: string[];
+}
+
+/**
+ * Schedule fields shared by entry_series rows and create commands
+ */
+interface Schedule {
+  recurrence_type: RecurrenceType;
+  recurrence_interval?: number;
+  start_date: string;
+  weekday?: number | null;
+  weekdays?: number[] | null;
+  day_of_month?: number | null;
+  days_of_month?: number[] | null;
+  monthly_anchor?: MonthlyAnchor;
+  week_of_month?: number | null;
+}
+
+type RecurrenceFields = Pick<
+  CreateEntryCommand,
+  | "recurrence_type"
+  | "recurrence_interval"
+  | "weekday"
+  | "weekdays"
+  | "day_of_month"
+  | "days_of_month"
+  | "monthly_anchor"
+  | "week_of_month"
+  | "end_date"
+  | "occurrence_count"
+>;
+
+// ============================================================================
+// Date helpers (all calculations in UTC on YYYY-MM-DD strings)
+// ============================================================================
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function addDays(date: string, days: number): string {
+  const result = parseDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return formatDate(result);
+}
+
+function weekdayOf(date: string): number {
+  return parseDate(date).getUTCDay();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function monthStep(recurrenceType: RecurrenceType, interval: number): number {
+  if (recurrenceType === "quarterly") return 3 * interval;
+  if (recurrenceType === "yearly") return 12 * interval;
+  return interval;
+}
+
+/**
+ * Mirrors compute_anchored_monthly_occurrence: the occurrence of a month-based
+ * schedule in the given month (1-12) for one day of the days_of_month set
+ */
+function anchoredDate(schedule: Schedule, year: number, month: number, dayOfMonth: number): string {
+  const lastDay = daysInMonth(year, month);
+  let day: number;
+
+  switch (schedule.monthly_anchor ?? "day_of_month") {
+    case "last_day":
+      day = lastDay;
+      break;
+    case "nth_weekday": {
+      const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+      day = 1 + ((Number(schedule.weekday) - firstWeekday + 7) % 7) + 7 * (Number(schedule.week_of_month) - 1);
+      break;
+    }
+    case "last_weekday": {
+      const lastWeekday = new Date(Date.UTC(year, month - 1, lastDay)).getUTCDay();
+      day = lastDay - ((lastWeekday - Number(schedule.weekday) + 7) % 7);
+      break;
+    }
+    default:
+      day = Math.min(dayOfMonth, lastDay);
+  }
+
+  return formatDate(new Date(Date.UTC(year, month - 1, day)));
+}
+
+/**
+ * Computes the first nominal occurrence of a schedule (on or after start_date),
+ * following the same rules as series_occurrence_dates
+ *
+ * @param schedule - Series row or create command
+ * @returns First occurrence date (YYYY-MM-DD)
+ */
+export function getFirstOccurrenceDate(schedule: Schedule): string {
+  const interval = schedule.recurrence_interval ?? 1;
+  const start = schedule.start_date;
+  let candidates: string[] = [];
+
+  if (schedule.recurrence_type === "one_time") {
+    return start;
+  }
+
+  if (schedule.recurrence_type === "weekly") {
+    const weekdays = schedule.weekdays ?? [Number(schedule.weekday)];
+    const monday = addDays(start, -((weekdayOf(start) + 6) % 7));
+    candidates = [0, interval].flatMap((week) =>
+      weekdays.map((weekday) => addDays(monday, 7 * week + ((weekday + 6) % 7)))
+    );
+  } else {
+    const step = monthStep(schedule.recurrence_type, interval);
+    const startDate = parseDate(start);
+    const days = schedule.days_of_month ?? [Number(schedule.day_of_month)];
+    candidates = [0, step].flatMap((offset) => {
+      const month = new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth() + offset, 1));
+      return days.map((day) => anchoredDate(schedule, month.getUTCFullYear(), month.getUTCMonth() + 1, day));
+    });
+  }
+
+  return candidates.filter((date) => date >= start).sort()[0];
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Builds the RRULE for a recurring series
+ *
+ * The model rule describes the schedule with this app's semantics (days after
+ * the 28th fall back to the last day of shorter months). The RFC rule is the
+ * exact RFC 5545 equivalent, or null when none exists - multi-day sets beyond
+ * the 28th and business-day adjustment cannot be expressed as an RRULE.
+ */
+function buildRules(series: EntrySeriesRow, firstDate: string): { modelRule: string; rfcRule: string | null } {
+  const common: string[] = [];
+  const interval = series.recurrence_interval;
+  let modelDays: string[] = [];
+  let rfcDays: string[] | null = [];
+
+  if (series.recurrence_type === "weekly") {
+    const weekdays = series.weekdays ?? [Number(series.weekday)];
+    common.push("FREQ=WEEKLY");
+    if (interval > 1) common.push(`INTERVAL=${interval}`);
+    common.push("WKST=MO", `BYDAY=${weekdays.map((day) => WEEKDAY_CODES[day]).join(",")}`);
+  } else {
+    const isYearly = series.recurrence_type === "yearly";
+    const ruleInterval = isYearly ? interval : monthStep(series.recurrence_type, interval);
+    common.push(isYearly ? "FREQ=YEARLY" : "FREQ=MONTHLY");
+    if (ruleInterval > 1) common.push(`INTERVAL=${ruleInterval}`);
+    if (isYearly) common.push(`BYMONTH=${parseDate(firstDate).getUTCMonth() + 1}`);
+
+    switch (series.monthly_anchor) {
+      case "nth_weekday":
+        modelDays = [`BYDAY=${series.week_of_month}${WEEKDAY_CODES[Number(series.weekday)]}`];
+        rfcDays = modelDays;
+        break;
+      case "last_weekday":
+        modelDays = [`BYDAY=-1${WEEKDAY_CODES[Number(series.weekday)]}`];
+        rfcDays = modelDays;
+        break;
+      case "last_day":
+        modelDays = ["BYMONTHDAY=-1"];
+        rfcDays = modelDays;
+        break;
+      default: {
+        const days = series.days_of_month ?? [Number(series.day_of_month)];
+        modelDays = [`BYMONTHDAY=${days.join(",")}`];
+        if (days.every((day) => day <= 28)) {
+          rfcDays = modelDays;
+        } else if (days.length === 1) {
+          // "Day 30, or the last day of shorter months" is the last of 28..30 present in each month
+          const range = Array.from({ length: days[0] - 27 }, (_, i) => 28 + i);
+          rfcDays = [`BYMONTHDAY=${range.join(",")}`, "BYSETPOS=-1"];
+        } else {
+          rfcDays = null;
+        }
+      }
+    }
+  }
+
+  const end: string[] = [];
+  if (series.occurrence_count) {
+    end.push(`COUNT=${series.occurrence_count}`);
+  } else if (series.end_date) {
+    end.push(`UNTIL=${toICSDate(series.end_date)}`);
+  }
+
+  const modelRule = [...common, ...modelDays, ...end].join(";");
+  if (rfcDays === null || series.business_day_convention !== "none") {
+    return { modelRule, rfcRule: null };
+  }
+  return { modelRule, rfcRule: [...common, ...rfcDays, ...end].join(";") };
+}
+
+/**
+ * Checks whether a series can be exported as a plain RRULE
+ * (otherwise its dates are listed explicitly with RDATE)
+ *
+ * @param series - Entry series row
+ * @returns True if the RRULE reproduces the series schedule exactly
+ */
+export function hasExactRRule(series: EntrySeriesRow): boolean {
+  if (series.recurrence_type === "one_time") {
+    return true;
+  }
+  return buildRules(series, getFirstOccurrenceDate(series)).rfcRule !== null;
+}
+
+/**
+ * Fetches series, exceptions and (where needed) actual occurrence dates for an iCalendar export
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - Authenticated user ID
+ * @param horizonDate - Last date listed for open-ended series that need RDATE (YYYY-MM-DD)
+ * @param entryType - Optional filter by entry type (income or expense)
+ * @returns Export data
+ * @throws Error if a database query fails
+ */
+export async function fetchICSExportData(
+  supabase: SupabaseClient,
+  userId: string,
+  horizonDate: string,
+  entryType?: EntryType
+): Promise<ICSExportData> {
+  let seriesQuery = supabase
+    .from("entry_series")
+    .select("*")
+    .eq("user_id", userId)
+    .is("scenario_id", null)
+    .order("start_date", { ascending: true });
+
+  if (entryType) {
+    seriesQuery = seriesQuery.eq("entry_type", entryType);
+  }
+
+  const { data: seriesData, error: seriesError } = await seriesQuery;
+  if (seriesError) {
+    throw new Error(`Failed to fetch entry series: ${seriesError.message}`);
+  }
+  const series = (seriesData ?? []) as EntrySeriesRow[];
+
+  const { data: exceptionData, error: exceptionError } = await supabase
+    .from("series_exceptions")
+    .select("*")
+    .eq("user_id", userId)
+    .is("scenario_id", null)
+    .order("exception_date", { ascending: true });
+
+  if (exceptionError) {
+    throw new Error(`Failed to fetch series exceptions: ${exceptionError.message}`);
+  }
+  const seriesIds = new Set(series.map((s) => s.id));
+  const exceptions = ((exceptionData ?? []) as SeriesExceptionRow[]).filter((e) => seriesIds.has(e.series_id));
+
+  // Series without an exact RRULE are exported as explicit dates taken from expand_occurrences
+  const occurrenceDates = new Map<string, string[]>();
+  const inexact = series.filter((s) => !hasExactRRule(s));
+
+  if (inexact.length > 0) {
+    const fromDate = inexact.map((s) => s.start_date).sort()[0];
+    const { data, error } = await supabase.rpc("expand_occurrences", {
+      p_user_id: userId,
+      p_from_date: fromDate,
+      p_to_date: horizonDate,
+    });
+
+    if (error) {
+      throw new Error(`Failed to expand occurrences: ${error.message}`);
+    }
+
+    const inexactIds = new Set(inexact.map((s) => s.id));
+    for (const occ of (data ?? []) as { series_id: string; occurrence_date: string }[]) {
+      if (!inexactIds.has(occ.series_id)) continue;
+      const dates = occurrenceDates.get(occ.series_id) ?? [];
+      dates.push(occ.occurrence_date);
+      occurrenceDates.set(occ.series_id, dates);
+    }
+  }
+
+  return { series, exceptions, occurrenceDates };
+}
+
+/**
+ * Formats a YYYY-MM-DD date as an iCalendar DATE value
+ *
+ * @param date - Date (YYYY-MM-DD)
+ * @returns Date in YYYYMMDD format
+ */
+export function toICSDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+/**
+ * Formats a timestamp as a UTC iCalendar DATE-TIME value
+ *
+ * @param date - Timestamp
+ * @returns Date-time in YYYYMMDDTHHMMSSZ format
+ */
+export function toICSDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/**
+ * Escapes a TEXT value (RFC 5545 section 3.3.11)
+ *
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+export function escapeICSText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Folds a content line into chunks of at most 75 octets (RFC 5545 section 3.1)
+ *
+ * @param line - Unfolded content line
+ * @returns Folded line joined with CRLF + space
+ */
+export function foldICSLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward their 75 octets
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
+
+function buildOverrideEvent(series: EntrySeriesRow, exception: SeriesExceptionRow, dtstamp: string): string[] {
+  const date = toICSDate(exception.exception_date);
+  const description = exception.description ?? series.description;
+  return [
+    "BEGIN:VEVENT",
+    `UID:${series.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${dtstamp}`,
+    `RECURRENCE-ID;VALUE=DATE:${date}`,
+    `DTSTART;VALUE=DATE:${date}`,
+    `SUMMARY:${escapeICSText(exception.title ?? series.title)}`,
+    ...(description ? [`DESCRIPTION:${escapeICSText(description)}`] : []),
+    "TRANSP:TRANSPARENT",
+    `${X_AMOUNT}:${Number(exception.amount ?? series.amount).toFixed(2)}`,
+    `${X_ENTRY_TYPE}:${series.entry_type}`,
+    `${X_CURRENCY}:${series.currency}`,
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * Renders a series and its exceptions as VEVENT lines
+ * (master event plus one VEVENT per overridden occurrence)
+ */
+function buildSeriesEvents(
+  series: EntrySeriesRow,
+  exceptions: SeriesExceptionRow[],
+  occurrenceDates: string[] | undefined,
+  dtstamp: string
+): string[] {
+  const firstDate = getFirstOccurrenceDate(series);
+  const rules = series.recurrence_type === "one_time" ? null : buildRules(series, firstDate);
+  const lines: string[] = [];
+  let dtstart = firstDate;
+
+  if (rules && rules.rfcRule) {
+    // A series ending before its first occurrence has nothing to export
+    if (series.end_date && firstDate > series.end_date) {
+      return [];
+    }
+    lines.push(`RRULE:${rules.rfcRule}`);
+  } else if (rules) {
+    // List the actual (adjusted) dates and keep the model rule for a lossless re-import
+    const dates = occurrenceDates ?? [];
+    if (dates.length === 0) {
+      return [];
+    }
+    dtstart = dates[0];
+    if (dates.length > 1) {
+      lines.push(`RDATE;VALUE=DATE:${dates.slice(1).map(toICSDate).join(",")}`);
+    }
+    lines.push(`${X_RRULE}:${rules.modelRule}`, `${X_DTSTART};VALUE=DATE:${toICSDate(series.start_date)}`);
+    if (series.business_day_convention !== "none") {
+      lines.push(`${X_BUSINESS_DAY_CONVENTION}:${series.business_day_convention}`);
+    }
+  }
+
+  const skips = exceptions.filter((e) => e.exception_type === "skip");
+  if (rules && skips.length > 0) {
+    lines.push(`EXDATE;VALUE=DATE:${skips.map((e) => toICSDate(e.exception_date)).join(",")}`);
+  }
+
+  const master = [
+    "BEGIN:VEVENT",
+    `UID:${series.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${dtstamp}`,
+    `DTSTART;VALUE=DATE:${toICSDate(dtstart)}`,
+    `SUMMARY:${escapeICSText(series.title)}`,
+    ...(series.description ? [`DESCRIPTION:${escapeICSText(series.description)}`] : []),
+    "TRANSP:TRANSPARENT",
+    ...lines,
+    `${X_AMOUNT}:${Number(series.amount).toFixed(2)}`,
+    `${X_ENTRY_TYPE}:${series.entry_type}`,
+    `${X_CURRENCY}:${series.currency}`,
+    "END:VEVENT",
+  ];
+
+  const overrides = rules
+    ? exceptions
+        .filter((e) => e.exception_type === "override")
+        .flatMap((exception) => buildOverrideEvent(series, exception, dtstamp))
+    : [];
+
+  return [...master, ...overrides];
+}
+
+/**
+ * Generates a complete VCALENDAR document for the given series
+ *
+ * @param data - Series, exceptions and explicit occurrence dates
+ * @param now - Timestamp used for DTSTAMP (defaults to current time)
+ * @returns iCalendar content with CRLF line endings
+ */
+export function generateICSContent(data: ICSExportData, now: Date = new Date()): string {
+  const dtstamp = toICSDateTime(now);
+  const events = data.series.flatMap((series) =>
+    buildSeriesEvents(
+      series,
+      data.exceptions.filter((e) => e.series_id === series.id),
+      data.occurrenceDates.get(series.id),
+      dtstamp
+    )
+  );
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "X-WR-CALNAME:10x Expense Plotter",
+    ...events,
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldICSLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Generates a timestamped filename for iCalendar export
+ *
+ * @param today - Current date in the user's time zone (default: today in UTC)
+ * @returns Filename in format: 10x-expense-plotter-calendar-YYYY-MM-DD.ics
+ */
+export function generateICSFilename(today: string = todayInTimeZone("UTC")): string {
+  return `10x-expense-plotter-calendar-${today}.ics`;
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    }
+    if (char === separator && !inQuotes) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+function parseContentLine(line: string): ICSProperty | null {
+  let inQuotes = false;
+  let colon = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+
+  if (colon < 0) {
+    return null;
+  }
+
+  const [name, ...rawParams] = splitOutsideQuotes(line.slice(0, colon), ";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const separator = param.indexOf("=");
+    if (separator > 0) {
+      params[param.slice(0, separator).toUpperCase()] = param.slice(separator + 1).replace(/^"|"$/g, "");
+    }
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Parses iCalendar content into its component tree
+ * Unfolds continuation lines and ignores malformed lines
+ *
+ * @param content - Raw iCalendar content
+ * @returns Top-level components (usually a single VCALENDAR)
+ */
+export function parseICS(content: string): ICSComponent[] {
+  const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const root: ICSComponent = { name: "ROOT", properties: [], components: [] };
+  const stack: ICSComponent[] = [root];
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+
+    const property = parseContentLine(line);
+    if (!property) continue;
+
+    const current = stack[stack.length - 1];
+    if (property.name === "BEGIN") {
+      const component: ICSComponent = { name: property.value.trim().toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === "END") {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  }
+
+  return root.components;
+}
+
+/**
+ * Reverses escapeICSText
+ *
+ * @param text - Escaped TEXT value
+ * @returns Raw text
+ */
+export function unescapeICSText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+/**
+ * Parses an iCalendar DATE or DATE-TIME value
+ *
+ * @param value - Value such as 20250115 or 20250115T090000Z
+ * @returns Date part (YYYY-MM-DD) and whether a time of day was present, or null if invalid
+ */
+export function parseICSDate(value: string): { date: string; hasTime: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  if (Number.isNaN(parseDate(date).getTime()) || formatDate(parseDate(date)) !== date) {
+    return null;
+  }
+
+  return { date, hasTime: match[4] !== undefined };
+}
+
+function findProperty(component: ICSComponent, name: string): ICSProperty | undefined {
+  return component.properties.find((p) => p.name === name);
+}
+
+function findProperties(component: ICSComponent, name: string): ICSProperty[] {
+  return component.properties.filter((p) => p.name === name);
+}
+
+function collectEvents(components: ICSComponent[]): ICSComponent[] {
+  return components.flatMap((c) => (c.name === "VEVENT" ? [c] : collectEvents(c.components)));
+}
+
+function parseWeekdayCode(value: string): { ordinal: number | null; weekday: number } | null {
+  const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value.trim().toUpperCase());
+  if (!match) {
+    return null;
+  }
+  return {
+    ordinal: match[1] === undefined ? null : Number(match[1]),
+    weekday: WEEKDAY_CODES.indexOf(match[2]),
+  };
+}
+
+function uniqueSorted(values: number[]): number[] {
+  return [...new Set(values)].sort((a, b) => a - b);
+}
+
+/**
+ * Maps an RRULE onto the recurrence fields of an entry series
+ *
+ * @param value - RRULE value (without the "RRULE:" prefix)
+ * @param startDate - Series start date (YYYY-MM-DD)
+ * @param reasons - Collects features that prevent the import
+ * @param warnings - Collects approximations made while mapping
+ * @param modelSemantics - True for this app's own X-EXPENSE-PLOTTER-RRULE, where days
+ *   after the 28th already mean "or the last day of shorter months"
+ * @returns Recurrence fields, or null if the rule cannot be mapped at all
+ */
+function mapRRule(
+  value: string,
+  startDate: string,
+  reasons: string[],
+  warnings: string[],
+  modelSemantics: boolean
+): RecurrenceFields | null {
+  const parts = new Map<string, string>();
+  for (const part of value.split(";")) {
+    const [key, partValue] = part.split("=");
+    if (key) parts.set(key.trim().toUpperCase(), (partValue ?? "").trim().toUpperCase());
+  }
+
+  for (const key of parts.keys()) {
+    if (!SUPPORTED_RULE_PARTS.has(key)) {
+      reasons.push(`${key} is not supported in recurrence rules`);
+    }
+  }
+
+  const freq = parts.get("FREQ");
+  if (!freq) {
+    reasons.push("Recurrence rule has no FREQ");
+    return null;
+  }
+  if (freq !== "WEEKLY" && freq !== "MONTHLY" && freq !== "YEARLY") {
+    reasons.push(`FREQ=${freq} is not supported; only weekly, monthly and yearly rules are`);
+    return null;
+  }
+
+  const interval = parts.has("INTERVAL") ? Number(parts.get("INTERVAL")) : 1;
+  if (!Number.isInteger(interval) || interval < 1) {
+    reasons.push(`INTERVAL=${parts.get("INTERVAL")} is not a valid interval`);
+    return null;
+  }
+
+  const fields: RecurrenceFields = {
+    recurrence_type: "weekly",
+    recurrence_interval: interval,
+    weekday: null,
+    weekdays: null,
+    day_of_month: null,
+    days_of_month: null,
+    monthly_anchor: "day_of_month",
+    week_of_month: null,
+    end_date: null,
+    occurrence_count: null,
+  };
+
+  // End of the series
+  if (parts.has("COUNT") && parts.has("UNTIL")) {
+    reasons.push("Recurrence rule has both COUNT and UNTIL");
+  }
+  if (parts.has("COUNT")) {
+    const count = Number(parts.get("COUNT"));
+    if (!Number.isInteger(count) || count < 1 || count > MAX_OCCURRENCE_COUNT) {
+      reasons.push(
+        `COUNT=${parts.get("COUNT")} is not supported; series can have 1-${MAX_OCCURRENCE_COUNT} occurrences`
+      );
+    } else {
+      fields.occurrence_count = count;
+    }
+  }
+  if (parts.has("UNTIL")) {
+    const until = parseICSDate(parts.get("UNTIL") ?? "");
+    if (!until) {
+      reasons.push(`UNTIL=${parts.get("UNTIL")} is not a valid date`);
+    } else {
+      fields.end_date = until.date;
+    }
+  }
+
+  const byDay = parts.get("BYDAY")?.split(",") ?? [];
+  const byMonthDay = parts.get("BYMONTHDAY")?.split(",") ?? [];
+  const bySetPos = parts.get("BYSETPOS");
+  const clampWarning = "Days after the 28th fall on the last day of shorter months instead of being skipped";
+
+  if (freq === "WEEKLY") {
+    if (interval > MAX_INTERVAL) {
+      reasons.push(`INTERVAL=${interval} is not supported; weekly entries repeat at most every ${MAX_INTERVAL} weeks`);
+    }
+    if (parts.has("BYMONTHDAY") || parts.has("BYMONTH") || bySetPos) {
+      reasons.push("BYMONTHDAY, BYMONTH and BYSETPOS are not supported in weekly rules");
+    }
+    const wkst = parts.get("WKST") ?? "MO";
+    if (wkst !== "MO" && interval > 1) {
+      reasons.push(`WKST=${wkst} is not supported for rules repeating every ${interval} weeks; weeks start on Monday`);
+    }
+
+    const days = byDay.length > 0 ? byDay.map(parseWeekdayCode) : [{ ordinal: null, weekday: weekdayOf(startDate) }];
+    if (days.some((day) => day === null)) {
+      reasons.push(`BYDAY=${parts.get("BYDAY")} is not a valid weekday list`);
+      return null;
+    }
+    if (days.some((day) => day?.ordinal !== null)) {
+      reasons.push("Weekday ordinals (such as 1MO) are not supported in weekly rules");
+      return null;
+    }
+
+    const weekdays = uniqueSorted(days.map((day) => Number(day?.weekday)));
+    fields.weekday = weekdays[0];
+    fields.weekdays = weekdays.length > 1 ? weekdays : null;
+    fields.monthly_anchor = undefined;
+    return fields;
+  }
+
+  // Monthly and yearly rules
+  if (freq === "MONTHLY") {
+    if (interval <= MAX_INTERVAL) {
+      fields.recurrence_type = "monthly";
+    } else if (interval % 3 === 0 && interval / 3 <= MAX_INTERVAL) {
+      fields.recurrence_type = "quarterly";
+      fields.recurrence_interval = interval / 3;
+    } else {
+      reasons.push(
+        `INTERVAL=${interval} is not supported; monthly entries repeat at most every ${MAX_INTERVAL} months`
+      );
+    }
+    if (parts.has("BYMONTH")) {
+      reasons.push("BYMONTH is not supported in monthly rules");
+    }
+  } else {
+    fields.recurrence_type = "yearly";
+    if (interval > MAX_INTERVAL) {
+      reasons.push(`INTERVAL=${interval} is not supported; yearly entries repeat at most every ${MAX_INTERVAL} years`);
+    }
+    const byMonth = parts.get("BYMONTH")?.split(",");
+    if (byMonth && (byMonth.length !== 1 || Number(byMonth[0]) !== parseDate(startDate).getUTCMonth() + 1)) {
+      reasons.push("BYMONTH must be the month of DTSTART; yearly entries repeat in a single month");
+    }
+  }
+
+  if (byDay.length > 0 && byMonthDay.length > 0) {
+    reasons.push("Combining BYDAY and BYMONTHDAY is not supported");
+  } else if (byDay.length > 0) {
+    const day = byDay.length === 1 ? parseWeekdayCode(byDay[0]) : null;
+    if (bySetPos) {
+      reasons.push("BYSETPOS is not supported with BYDAY");
+    } else if (byDay.length > 1) {
+      reasons.push("Only a single weekday is supported in monthly and yearly rules");
+    } else if (!day) {
+      reasons.push(`BYDAY=${byDay[0]} is not a valid weekday`);
+    } else if (day.ordinal === null) {
+      reasons.push(`BYDAY=${byDay[0]} (every such weekday of the month) is not supported`);
+    } else if (day.ordinal === -1) {
+      fields.monthly_anchor = "last_weekday";
+      fields.weekday = day.weekday;
+    } else if (day.ordinal >= 1 && day.ordinal <= 4) {
+      fields.monthly_anchor = "nth_weekday";
+      fields.weekday = day.weekday;
+      fields.week_of_month = day.ordinal;
+    } else {
+      reasons.push(`BYDAY=${byDay[0]} is not supported; only the 1st-4th and the last weekday of the month are`);
+    }
+  } else if (byMonthDay.length > 0) {
+    const days = byMonthDay.map(Number);
+    if (days.some((day) => !Number.isInteger(day) || day === 0 || day < -31 || day > 31)) {
+      reasons.push(`BYMONTHDAY=${parts.get("BYMONTHDAY")} is not a valid day list`);
+    } else if (bySetPos) {
+      // BYMONTHDAY=28,29,30;BYSETPOS=-1 means "day 30, or the last day of shorter months"
+      const sorted = uniqueSorted(days);
+      const target = sorted[sorted.length - 1];
+      const isClampedDay = bySetPos === "-1" && target > 28 && sorted.every((day, i) => day === 28 + i);
+      if (isClampedDay) {
+        fields.day_of_month = target;
+      } else {
+        reasons.push(`BYSETPOS=${bySetPos} is not supported`);
+      }
+    } else if (days.length === 1 && days[0] === -1) {
+      fields.monthly_anchor = "last_day";
+    } else if (days.some((day) => day < 0)) {
+      reasons.push("Counting days from the end of the month is only supported for the last day (BYMONTHDAY=-1)");
+    } else {
+      const sorted = uniqueSorted(days);
+      fields.day_of_month = sorted[0];
+      fields.days_of_month = sorted.length > 1 ? sorted : null;
+      if (!modelSemantics && sorted.some((day) => day > 28)) {
+        warnings.push(clampWarning);
+      }
+    }
+  } else {
+    if (bySetPos) {
+      reasons.push(`BYSETPOS=${bySetPos} is not supported`);
+    }
+    fields.day_of_month = parseDate(startDate).getUTCDate();
+    if (!modelSemantics && fields.day_of_month > 28) {
+      warnings.push(clampWarning);
+    }
+  }
+
+  return fields;
+}
+
+function truncate(text: string, maxLength: number, field: string, warnings: string[]): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  warnings.push(`${field} was shortened to ${maxLength} characters`);
+  return text.slice(0, maxLength);
+}
+
+function parseAmount(event: ICSComponent): number | null {
+  const value = findProperty(event, X_AMOUNT)?.value.trim();
+  return value && /^\d+(\.\d+)?$/.test(value) ? Number(value) : null;
+}
+
+function eventText(event: ICSComponent, name: string): string | null {
+  const property = findProperty(event, name);
+  return property ? unescapeICSText(property.value).trim() || null : null;
+}
+
+/**
+ * Maps overridden VEVENTs (with RECURRENCE-ID) onto override and skip exceptions
+ */
+function mapOverrides(overrides: ICSComponent[], warnings: string[]): ICSExceptionInput[] {
+  const exceptions: ICSExceptionInput[] = [];
+
+  for (const override of overrides) {
+    const recurrenceId = findProperty(override, "RECURRENCE-ID");
+    const originalDate = recurrenceId ? parseICSDate(recurrenceId.value) : null;
+    if (!recurrenceId || !originalDate) {
+      warnings.push("A changed occurrence has an invalid RECURRENCE-ID and was not imported");
+      continue;
+    }
+    if (recurrenceId.params.RANGE) {
+      warnings.push(
+        `RANGE=${recurrenceId.params.RANGE} on ${originalDate.date} is not supported; only that occurrence was changed`
+      );
+    }
+
+    if (findProperty(override, "STATUS")?.value.trim().toUpperCase() === "CANCELLED") {
+      exceptions.push({
+        exception_date: originalDate.date,
+        exception_type: "skip",
+        title: null,
+        description: null,
+        amount: null,
+      });
+      continue;
+    }
+
+    const dtstart = parseICSDate(findProperty(override, "DTSTART")?.value ?? "");
+    if (dtstart && dtstart.date !== originalDate.date) {
+      warnings.push(
+        `The occurrence on ${originalDate.date} was moved to ${dtstart.date}; moved occurrences are not supported and the change was not imported`
+      );
+      continue;
+    }
+
+    const title = eventText(override, "SUMMARY");
+    exceptions.push({
+      exception_date: originalDate.date,
+      exception_type: "override",
+      title: title ? truncate(title, MAX_TITLE_LENGTH, `Title on ${originalDate.date}`, warnings) : null,
+      description: eventText(override, "DESCRIPTION"),
+      amount: parseAmount(override),
+    });
+  }
+
+  return exceptions;
+}
+
+/**
+ * Maps the VEVENTs of a calendar onto entry series commands
+ *
+ * Events using recurrence features the model cannot represent are returned in
+ * `skipped` with the reasons; approximations are attached as warnings.
+ *
+ * @param content - Raw iCalendar content
+ * @returns Import candidates and skipped events
+ */
+export function convertICSToEntries(content: string): {
+  candidates: ICSImportCandidate[];
+  skipped: ICSSkippedEventDTO[];
+} {
+  const events = collectEvents(parseICS(content));
+  const candidates: ICSImportCandidate[] = [];
+  const skipped: ICSSkippedEventDTO[] = [];
+
+  const uidOf = (event: ICSComponent, index: number) =>
+    findProperty(event, "UID")?.value.trim() || `event-${index + 1}`;
+  const masters = events.filter((event) => !findProperty(event, "RECURRENCE-ID"));
+  const masterUids = new Set(masters.map((event) => uidOf(event, events.indexOf(event))));
+  const overridesByUid = new Map<string, ICSComponent[]>();
+
+  events.forEach((event, index) => {
+    if (!findProperty(event, "RECURRENCE-ID")) return;
+    const uid = uidOf(event, index);
+    if (!masterUids.has(uid)) {
+      skipped.push({
+        uid,
+        title: eventText(event, "SUMMARY"),
+        reasons: ["Changed occurrence has no matching recurring event"],
+      });
+      return;
+    }
+    overridesByUid.set(uid, [...(overridesByUid.get(uid) ?? []), event]);
+  });
+
+  for (const event of masters) {
+    const uid = uidOf(event, events.indexOf(event));
+    const title = eventText(event, "SUMMARY");
+    const reasons: string[] = [];
+    const warnings: string[] = [];
+
+    if (!title) {
+      reasons.push("Event has no SUMMARY (title)");
+    }
+
+    const dtstart = parseICSDate(findProperty(event, "DTSTART")?.value ?? "");
+    if (!dtstart) {
+      reasons.push("Event has no valid DTSTART");
+    } else if (dtstart.hasTime) {
+      warnings.push("The time of day was ignored; entries are imported as all-day dates");
+    }
+
+    const amount = parseAmount(event);
+    if (amount === null) {
+      reasons.push(`Event has no ${X_AMOUNT} property, so its amount is unknown`);
+    }
+
+    const rawEntryType = findProperty(event, X_ENTRY_TYPE)?.value.trim().toLowerCase();
+    let entryType: EntryType = "expense";
+    if (rawEntryType === "income" || rawEntryType === "expense") {
+      entryType = rawEntryType;
+    } else if (rawEntryType) {
+      reasons.push(`${X_ENTRY_TYPE}:${rawEntryType} is not 'income' or 'expense'`);
+    } else {
+      warnings.push(`Event has no ${X_ENTRY_TYPE} property and was imported as an expense`);
+    }
+
+    // Without a currency the entry takes the currency of its wallet
+    const rawCurrency = findProperty(event, X_CURRENCY)?.value.trim().toUpperCase();
+    if (rawCurrency && !/^[A-Z]{3}$/.test(rawCurrency)) {
+      reasons.push(`${X_CURRENCY}:${rawCurrency} is not a 3-letter ISO 4217 code`);
+    }
+
+    const rrules = findProperties(event, "RRULE");
+    if (rrules.length > 1) {
+      reasons.push("Events with more than one RRULE are not supported");
+    }
+    if (findProperty(event, "EXRULE")) {
+      reasons.push("EXRULE is not supported; use EXDATE to exclude single dates");
+    }
+
+    // This app's own exports carry the model rule next to the explicit dates
+    const modelRule = findProperty(event, X_RRULE)?.value;
+    const modelStart = parseICSDate(findProperty(event, X_DTSTART)?.value ?? "");
+    const rawConvention = findProperty(event, X_BUSINESS_DAY_CONVENTION)?.value.trim().toLowerCase();
+    let businessDayConvention: BusinessDayConvention | undefined;
+
+    if (!modelRule && findProperty(event, "RDATE")) {
+      reasons.push("RDATE (extra dates outside the recurrence rule) is not supported");
+    }
+    if (rawConvention) {
+      if (BUSINESS_DAY_CONVENTIONS.includes(rawConvention as BusinessDayConvention)) {
+        businessDayConvention = rawConvention as BusinessDayConvention;
+      } else {
+        reasons.push(`${X_BUSINESS_DAY_CONVENTION}:${rawConvention} is not a known convention`);
+      }
+    }
+
+    const startDate = modelRule && modelStart ? modelStart.date : dtstart?.date;
+    const rule = modelRule ?? rrules[0]?.value;
+    let recurrence: RecurrenceFields | null = {
+      recurrence_type: "one_time",
+      weekday: null,
+      day_of_month: null,
+      end_date: null,
+    };
+
+    if (rule && startDate) {
+      recurrence = mapRRule(rule, startDate, reasons, warnings, !!modelRule);
+    }
+
+    if (reasons.length > 0 || !recurrence || !startDate || !title || amount === null) {
+      skipped.push({ uid, title, reasons });
+      continue;
+    }
+
+    // RFC 5545 always counts DTSTART as an occurrence; the model only does if it matches the rule
+    if (!modelRule && recurrence.recurrence_type !== "one_time") {
+      const firstDate = getFirstOccurrenceDate({ ...recurrence, start_date: startDate });
+      if (firstDate !== startDate) {
+        warnings.push(
+          `DTSTART ${startDate} does not match the recurrence rule; the series starts with ${firstDate} instead`
+        );
+      }
+    }
+
+    const exceptions: ICSExceptionInput[] = [];
+    const exdates = findProperties(event, "EXDATE").flatMap((p) => p.value.split(","));
+    const overrides = overridesByUid.get(uid) ?? [];
+
+    if (recurrence.recurrence_type === "one_time") {
+      if (exdates.length > 0 || overrides.length > 0) {
+        warnings.push("Excluded and changed dates of a one-time event were ignored");
+      }
+    } else {
+      for (const value of exdates) {
+        const exdate = parseICSDate(value);
+        if (!exdate) {
+          warnings.push(`EXDATE ${value} is not a valid date and was ignored`);
+          continue;
+        }
+        exceptions.push({
+          exception_date: exdate.date,
+          exception_type: "skip",
+          title: null,
+          description: null,
+          amount: null,
+        });
+      }
+      exceptions.push(...mapOverrides(overrides, warnings));
+    }
+
+    const description = eventText(event, "DESCRIPTION");
+    candidates.push({
+      uid,
+      command: {
+        entry_type: entryType,
+        title: truncate(title, MAX_TITLE_LENGTH, "Title", warnings),
+        description: description ? truncate(description, MAX_DESCRIPTION_LENGTH, "Description", warnings) : null,
+        amount,
+        start_date: startDate,
+        ...recurrence,
+        ...(businessDayConvention ? { business_day_convention: businessDayConvention } : {}),
+        ...(rawCurrency ? { currency: rawCurrency } : {}),
+      },
+      exceptions,
+      warnings,
+    });
+  }
+
+  return { candidates, skipped };
+}
+
+/**
+ * Imports the events of a calendar as entry series with their exceptions
+ *
+ * Each event is validated like POST /api/entries; events that fail validation
+ * or cannot be mapped are reported as skipped instead of aborting the import.
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - Authenticated user ID
+ * @param content - Raw iCalendar content
+ * @returns Imported series and skipped events
+ * @throws Error if creating a series fails
+ */
+export async function importICS(
+  supabase: SupabaseClient,
+  userId: string,
+  content: string
+): Promise<ICSImportResponseDTO> {
+  const { candidates, skipped } = convertICSToEntries(content);
+  const entriesService = new EntriesService(supabase);
+  const imported: ICSImportedSeriesDTO[] = [];
+
+  for (const candidate of candidates) {
+    const validation = createEntrySchema.safeParse(candidate.command);
+    if (!validation.success) {
+      skipped.push({
+        uid: candidate.uid,
+        title: candidate.command.title,
+        reasons: validation.error.errors.map((err) =>
+          err.path.length > 0 ? `${err.path.join(".")}: ${err.message}` : err.message
+        ),
+      });
+      continue;
+    }
+
+    const series = await entriesService.create(userId, validation.data);
+    const warnings = [...candidate.warnings];
+
+    // Inserted one by one so a date outside the series range only drops that exception
+    for (const exception of candidate.exceptions) {
+      const { error } = await supabase
+        .from("series_exceptions")
+        .insert({ ...exception, series_id: series.id, user_id: userId });
+
+      if (error) {
+        warnings.push(
+          `The ${exception.exception_type} on ${exception.exception_date} was not imported: ${error.message}`
+        );
+      }
+    }
+
+    imported.push({ uid: candidate.uid, series_id: series.id, title: series.title, warnings });
+  }
+
+  return { imported, skipped };
+}
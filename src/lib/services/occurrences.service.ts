@@ -15,7 +15,12 @@ import type {
   GetOccurrencesQueryParams,
   GetEntryOccurrencesQueryParams,
   ExceptionType,
+  OccurrenceSettlementDTO,
+  EntryType,
 } from "../../types";
+import { categorySubtreeIds } from "../utils/category.utils";
+import { resolveOccurrenceTags } from "../utils/tag.utils";
+import { TagsService } from "./tags.service";
 
 /**
  * Raw occurrence data returned from expand_occurrences RPC function
@@ -23,13 +28,17 @@ import type {
 interface ExpandOccurrencesResult {
   occurrence_id: string;
   series_id: string;
-  entry_type: "income" | "expense";
+  entry_type: EntryType;
   title: string;
   description: string | null;
   occurrence_date: string;
   amount: number;
   created_at: string;
   updated_at: string;
+  occurrence_number: number | null;
+  occurrence_count: number | null;
+  currency: string;
+  category_id: string | null;
 }
 
 /**
@@ -38,6 +47,91 @@ interface ExpandOccurrencesResult {
 export class OccurrencesService {
   constructor(private supabase: SupabaseClient<Database>) {}
 
+  /**
+   * Loads settlements of occurrences in the date range, keyed by "series_id|occurrence_date".
+   *
+   * @param userId - The authenticated user's ID
+   * @param fromDate - Start of the range (occurrence date, inclusive)
+   * @param toDate - End of the range (occurrence date, inclusive)
+   * @param seriesId - Optional series to restrict the lookup to
+   * @throws Error if database operation fails
+   */
+  private async fetchSettlementMap(
+    userId: string,
+    fromDate: string,
+    toDate: string,
+    seriesId?: string
+  ): Promise<Map<string, OccurrenceSettlementDTO>> {
+    let query = this.supabase
+      .from("occurrence_settlements")
+      .select("id, series_id, occurrence_date, actual_amount, actual_date, note")
+      .eq("user_id", userId)
+      .gte("occurrence_date", fromDate)
+      .lte("occurrence_date", toDate);
+
+    if (seriesId) {
+      query = query.eq("series_id", seriesId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("[OccurrencesService.fetchSettlementMap] Query error:", error);
+      throw new Error(`Failed to fetch settlements: ${error.message}`);
+    }
+
+    const settlementMap = new Map<string, OccurrenceSettlementDTO>();
+    (data || []).forEach((settlement) => {
+      settlementMap.set(`${settlement.series_id}|${settlement.occurrence_date}`, {
+        id: settlement.id,
+        actual_amount: settlement.actual_amount,
+        actual_date: settlement.actual_date,
+        note: settlement.note,
+      });
+    });
+    return settlementMap;
+  }
+
+  /**
+   * Loads the ids of the series that belong to a wallet, including transfers into it.
+   *
+   * @param userId - The authenticated user's ID
+   * @param walletId - The wallet whose series to load
+   * @throws Error if database operation fails
+   */
+  private async fetchWalletSeriesIds(userId: string, walletId: string): Promise<Set<string>> {
+    const { data, error } = await this.supabase
+      .from("entry_series")
+      .select("id")
+      .eq("user_id", userId)
+      .or(`wallet_id.eq.${walletId},target_wallet_id.eq.${walletId}`);
+
+    if (error) {
+      console.error("[OccurrencesService.fetchWalletSeriesIds] Query error:", error);
+      throw new Error(`Failed to fetch wallet series: ${error.message}`);
+    }
+
+    return new Set((data || []).map((series) => series.id));
+  }
+
+  /**
+   * Loads the ids of a category and its subcategories (empty if the category is not found).
+   *
+   * @param userId - The authenticated user's ID
+   * @param categoryId - The category whose subtree to load
+   * @throws Error if database operation fails
+   */
+  private async fetchCategorySubtreeIds(userId: string, categoryId: string): Promise<Set<string>> {
+    const { data, error } = await this.supabase.from("categories").select("id, parent_id").eq("user_id", userId);
+
+    if (error) {
+      console.error("[OccurrencesService.fetchCategorySubtreeIds] Query error:", error);
+      throw new Error(`Failed to fetch categories: ${error.message}`);
+    }
+
+    return new Set(categorySubtreeIds(data || [], categoryId));
+  }
+
   /**
    * Retrieves all expanded occurrences for the authenticated user
    * within a specified date range with optional filtering and pagination.
@@ -61,6 +155,12 @@ export class OccurrencesService {
         throw new Error(`Failed to expand occurrences: ${error.message}`);
       }
 
+      const tagsService = new TagsService(this.supabase);
+      const [settlementMap, tagLookup] = await Promise.all([
+        this.fetchSettlementMap(userId, params.from_date, params.to_date),
+        tagsService.findOccurrenceTags(userId, params.from_date, params.to_date),
+      ]);
+
       // Convert raw results to OccurrenceDTO format
       let occurrences: OccurrenceDTO[] = (rawOccurrences || []).map((occ: ExpandOccurrencesResult) => ({
         occurrence_id: occ.occurrence_id,
@@ -72,6 +172,12 @@ export class OccurrencesService {
         amount: occ.amount,
         created_at: occ.created_at,
         updated_at: occ.updated_at,
+        occurrence_number: occ.occurrence_number,
+        occurrence_count: occ.occurrence_count,
+        currency: occ.currency,
+        category_id: occ.category_id,
+        tags: resolveOccurrenceTags(tagLookup, occ.series_id, occ.occurrence_date),
+        settlement: settlementMap.get(`${occ.series_id}|${occ.occurrence_date}`) ?? null,
       }));
 
       // Apply entry_type filter if provided
@@ -79,6 +185,24 @@ export class OccurrencesService {
         occurrences = occurrences.filter((occ) => occ.entry_type === params.entry_type);
       }
 
+      // Apply wallet filter if provided
+      if (params.wallet_id) {
+        const walletSeriesIds = await this.fetchWalletSeriesIds(userId, params.wallet_id);
+        occurrences = occurrences.filter((occ) => walletSeriesIds.has(occ.series_id));
+      }
+
+      // Apply category filter if provided (occurrences are matched by their own category, so overrides count)
+      if (params.category_id) {
+        const categoryIds = await this.fetchCategorySubtreeIds(userId, params.category_id);
+        occurrences = occurrences.filter((occ) => occ.category_id !== null && categoryIds.has(occ.category_id));
+      }
+
+      // Apply tag filter if provided (occurrences with any of the tags, so overrides count here too)
+      if (params.tags) {
+        const tags = new Set(params.tags);
+        occurrences = occurrences.filter((occ) => occ.tags.some((tag) => tags.has(tag)));
+      }
+
       // Get total count before pagination
       const total = occurrences.length;
 
@@ -102,7 +226,7 @@ export class OccurrencesService {
 
   /**
    * Retrieves expanded occurrences for a specific entry series
-   * with exception metadata (is_exception and exception_type).
+   * with exception metadata (is_exception and exception_type) and settlements.
    *
    * @param userId - The authenticated user's ID
    * @param seriesId - The entry series ID
@@ -139,6 +263,7 @@ export class OccurrencesService {
         .from("series_exceptions")
         .select("exception_date, exception_type")
         .eq("series_id", seriesId)
+        .is("scenario_id", null)
         .gte("exception_date", params.from_date)
         .lte("exception_date", params.to_date);
 
@@ -153,7 +278,9 @@ export class OccurrencesService {
         exceptionMap.set(ex.exception_date, ex.exception_type);
       });
 
-      // Enrich occurrences with exception metadata
+      const settlementMap = await this.fetchSettlementMap(userId, params.from_date, params.to_date, seriesId);
+
+      // Enrich occurrences with exception and settlement metadata
       // Note: Skip exceptions won't appear in results (filtered by expand_occurrences)
       // So is_exception=true implies exception_type="override"
       const enrichedOccurrences: EntryOccurrenceDTO[] = seriesOccurrences.map((occ: ExpandOccurrencesResult) => {
@@ -165,8 +292,10 @@ export class OccurrencesService {
           description: occ.description || "", // Convert null to empty string
           occurrence_date: occ.occurrence_date,
           amount: occ.amount,
+          currency: occ.currency,
           is_exception: exceptionType !== undefined,
           exception_type: exceptionType || null,
+          settlement: settlementMap.get(`${seriesId}|${occ.occurrence_date}`) ?? null,
         };
       });
 
@@ -0,0 +1,352 @@
+/**
+ * OFX service
+ * Reads bank and credit card statements from OFX files (OFX 1.x SGML and 2.x XML; Quicken's QFX is OFX with an extra
+ * sign-on field) and writes expanded occurrences as an OFX 2.2 bank statement
+ */
+
+import type { StatementBalanceDTO, StatementLineErrorDTO, StatementTransactionDTO } from "@/types";
+import { createCurrencyConverter } from "@/lib/utils/currency.utils";
+import type { CurrencyConverter } from "@/lib/utils/currency.utils";
+import { todayInTimeZone } from "@/lib/utils/date.utils";
+import { parseStatementDate } from "@/lib/utils/bank-csv.utils";
+import { mergeStatementSections } from "@/lib/utils/statement.utils";
+import type { StatementParseResult, StatementSection } from "@/lib/utils/statement.utils";
+import { decodeEntities, findChild, findChildren } from "@/lib/utils/xml.utils";
+import type { XMLElement } from "@/lib/utils/xml.utils";
+import type { CSVOccurrence } from "./export.service";
+
+// Used when no rates are given: every amount is already in PLN
+const PLN_ONLY = createCurrencyConverter("PLN", []);
+
+// Start and end tags; OFX 1.x leaves (<TRNAMT>-12.50) have no end tag
+const TAG = /<(\/?)([A-Za-z][\w.]*)\s*>/g;
+
+// Statement responses of bank and credit card accounts, with the aggregate that identifies the account
+const STATEMENT_RESPONSES = [
+  { messages: "BANKMSGSRSV1", transaction: "STMTTRNRS", statement: "STMTRS", account: "BANKACCTFROM" },
+  { messages: "CREDITCARDMSGSRSV1", transaction: "CCSTMTTRNRS", statement: "CCSTMTRS", account: "CCACCTFROM" },
+];
+
+// OFX limits NAME to 32 characters and MEMO to 255
+const MAX_NAME_LENGTH = 32;
+const MAX_MEMO_LENGTH = 255;
+
+// Identifies the exported "account" (BANKID is at most 9 characters)
+const EXPORT_BANK_ID = "10XPLOTTR";
+const EXPORT_ACCOUNT_ID = "EXPENSE-PLOTTER";
+
+type ParsedElements = { root: XMLElement; error: null } | { root: null; error: StatementLineErrorDTO };
+
+/**
+ * Reads the element tree of an OFX file, from <OFX> on (the OFX 1.x header lines or the XML prolog before it are
+ * skipped). An element followed by text is a leaf whose end tag is optional; any other element is an aggregate and
+ * must be closed.
+ */
+function parseOFXElements(content: string): ParsedElements {
+  const start = content.search(/<OFX>/i);
+  if (start === -1) return { root: null, error: { line: 1, message: "Not an OFX file: the <OFX> element is missing" } };
+
+  const tags = [...content.slice(start).matchAll(TAG)];
+  const stack: XMLElement[] = [];
+  let root: XMLElement | null = null;
+  let leaf: XMLElement | null = null;
+  let line = 1;
+  let position = 0;
+
+  const lineAt = (index: number) => {
+    for (let i = position; i < start + index; i++) {
+      if (content[i] === "\n") line++;
+    }
+    position = start + index;
+    return line;
+  };
+
+  for (let i = 0; i < tags.length; i++) {
+    const match = tags[i];
+    const tagLine = lineAt(match.index);
+    const name = match[2].toUpperCase();
+
+    if (match[1] === "/") {
+      // End tag of a leaf (OFX 2.x)
+      if (leaf?.name === name) {
+        leaf = null;
+        continue;
+      }
+      leaf = null;
+      const element = stack.pop();
+      if (!element || element.name !== name) {
+        return {
+          root: null,
+          error: {
+            line: tagLine,
+            message: element ? `Expected </${element.name}> but found </${name}>` : `Unexpected </${name}>`,
+          },
+        };
+      }
+      if (stack.length === 0) break;
+      continue;
+    }
+
+    const element: XMLElement = { name, attributes: {}, children: [], text: "", line: tagLine };
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.children.push(element);
+    } else if (root) {
+      break;
+    } else {
+      root = element;
+    }
+
+    const textEnd = tags[i + 1]?.index ?? content.length - start;
+    const text = content.slice(start + match.index + match[0].length, start + textEnd).trim();
+    if (text) {
+      element.text = decodeEntities(text) ?? text;
+      leaf = element;
+    } else {
+      stack.push(element);
+      leaf = null;
+    }
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1];
+    return { root: null, error: { line: open.line, message: `<${open.name}> is not closed` } };
+  }
+  if (!root) return { root: null, error: { line: 1, message: "Not an OFX file: the <OFX> element is missing" } };
+  return { root, error: null };
+}
+
+/**
+ * Parses an OFX or QFX file
+ * Reads the posted transactions of every bank and credit card statement; amounts are signed as in the file (credits
+ * positive). The ledger balance is the closing balance; OFX has no opening balance. Missing or malformed fields are
+ * reported with their line.
+ */
+export function parseOFX(content: string): StatementParseResult {
+  const errors: StatementLineErrorDTO[] = [];
+  const empty = { account: null, opening_balance: null, closing_balance: null, transactions: [] };
+
+  const { root, error } = parseOFXElements(content);
+  if (error) return { statement: empty, errors: [error] };
+
+  const sections: StatementSection[] = [];
+  for (const response of STATEMENT_RESPONSES) {
+    for (const transaction of findChildren(findChild(root, response.messages), response.transaction)) {
+      const statement = findChild(transaction, response.statement);
+      if (!statement) {
+        const message = findChild(transaction, "STATUS", "MESSAGE")?.text;
+        errors.push({
+          line: transaction.line,
+          message: message ? `The bank returned no statement: ${message}` : "The bank returned no statement",
+        });
+        continue;
+      }
+      sections.push(readStatement(statement, findChild(statement, response.account), errors));
+    }
+  }
+
+  if (sections.length === 0 && errors.length === 0) {
+    return {
+      statement: empty,
+      errors: [{ line: root.line, message: "The file contains no bank or credit card statement" }],
+    };
+  }
+
+  const statement = mergeStatementSections(sections, errors);
+  return { statement, errors };
+}
+
+function readStatement(
+  statement: XMLElement,
+  account: XMLElement | undefined,
+  errors: StatementLineErrorDTO[]
+): StatementSection {
+  const currency = findChild(statement, "CURDEF")?.text ?? "";
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    errors.push({ line: statement.line, message: "Default currency (CURDEF) is missing or invalid" });
+  }
+
+  const transactions: StatementTransactionDTO[] = [];
+  for (const entry of findChildren(findChild(statement, "BANKTRANLIST"), "STMTTRN")) {
+    const amount = readAmount(entry, "TRNAMT", "Amount", errors);
+    const date = readDate(entry, "DTPOSTED", "Posting date", errors);
+    if (amount === null || date === null) continue;
+
+    // CURRENCY: the amount is in another currency than CURDEF (ORIGCURRENCY: it was converted into CURDEF)
+    const name = findChild(entry, "NAME")?.text ?? findChild(entry, "PAYEE", "NAME")?.text ?? "";
+    const memo = findChild(entry, "MEMO")?.text ?? "";
+    transactions.push({
+      row: entry.line,
+      date,
+      amount,
+      description: describeTransaction(name, memo),
+      currency: findChild(entry, "CURRENCY", "CURSYM")?.text ?? (currency || null),
+    });
+  }
+
+  const ledger = findChild(statement, "LEDGERBAL");
+  let closing: StatementBalanceDTO | null = null;
+  if (ledger) {
+    const amount = readAmount(ledger, "BALAMT", "Ledger balance", errors);
+    const date = readDate(ledger, "DTASOF", "Ledger balance date", errors);
+    if (amount !== null && date !== null && currency) {
+      closing = { date, amount, currency };
+    }
+  }
+
+  return {
+    account: findChild(account, "ACCTID")?.text ?? null,
+    opening_balance: null,
+    closing_balance: closing,
+    closing_line: ledger?.line ?? statement.line,
+    transactions,
+  };
+}
+
+// The memo repeats the name when the name was cut to 32 characters (as in this app's export)
+function describeTransaction(name: string, memo: string): string {
+  if (memo && name && memo.startsWith(name)) return memo;
+  return [name, memo].filter(Boolean).join(" · ");
+}
+
+function readAmount(parent: XMLElement, name: string, label: string, errors: StatementLineErrorDTO[]): number | null {
+  const element = findChild(parent, name);
+  if (!element?.text) {
+    errors.push({ line: element?.line ?? parent.line, message: `${label} (${name}) is missing` });
+    return null;
+  }
+  // OFX amounts have no thousands separators; the decimal separator may be a comma
+  const normalized = element.text.replace(",", ".");
+  if (!/^[+-]?(\d+(\.\d*)?|\.\d+)$/.test(normalized)) {
+    errors.push({ line: element.line, message: `${label} "${element.text}" is not a valid amount` });
+    return null;
+  }
+  return Number(normalized);
+}
+
+// OFX dates are YYYYMMDD, optionally followed by a time and time zone ([-5:EST]); the time is ignored
+function readDate(parent: XMLElement, name: string, label: string, errors: StatementLineErrorDTO[]): string | null {
+  const element = findChild(parent, name);
+  if (!element?.text) {
+    errors.push({ line: element?.line ?? parent.line, message: `${label} (${name}) is missing` });
+    return null;
+  }
+  const match = /^(\d{4})(\d{2})(\d{2})(\d{6}(\.\d{3})?)?(\[[^\]]*\])?$/.exec(element.text);
+  const date = match ? parseStatementDate(`${match[1]}-${match[2]}-${match[3]}`, "YYYY-MM-DD") : null;
+  if (!date) {
+    errors.push({ line: element.line, message: `${label} "${element.text}" is not a valid date` });
+  }
+  return date;
+}
+
+/**
+ * Escapes text for an OFX element
+ */
+export function escapeOFXText(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\s+/g, " ").trim();
+}
+
+const toOFXDate = (date: string) => date.replace(/-/g, "");
+
+// Signed (positive for income, negative for expense) and converted into the base currency
+const baseAmount = (occ: CSVOccurrence, converter: CurrencyConverter) =>
+  converter.toBase(occ.entry_type === "expense" ? -occ.amount : occ.amount, occ.currency, occ.occurrence_date);
+
+/**
+ * Formats a single occurrence as an OFX statement transaction
+ * The title is the NAME, cut to 32 characters; a cut title is repeated in full in the MEMO, before the description
+ *
+ * @param occ - Income or expense occurrence
+ * @param converter - Converts the amount into the base currency at the occurrence date
+ * @returns STMTTRN aggregate lines
+ * @throws Error if there is no exchange rate for the occurrence currency
+ */
+export function formatOFXTransaction(occ: CSVOccurrence, converter: CurrencyConverter = PLN_ONLY): string[] {
+  const amount = baseAmount(occ, converter);
+  const title = escapeOFXText(occ.title);
+  const name = title.slice(0, MAX_NAME_LENGTH);
+  const memo = [title.length > MAX_NAME_LENGTH ? title : "", escapeOFXText(occ.description ?? "")]
+    .filter(Boolean)
+    .join(" · ")
+    .slice(0, MAX_MEMO_LENGTH);
+
+  return [
+    "<STMTTRN>",
+    `  <TRNTYPE>${amount < 0 ? "DEBIT" : "CREDIT"}</TRNTYPE>`,
+    `  <DTPOSTED>${toOFXDate(occ.occurrence_date)}</DTPOSTED>`,
+    `  <TRNAMT>${amount.toFixed(2)}</TRNAMT>`,
+    `  <FITID>${occ.occurrence_id}</FITID>`,
+    `  <NAME>${name}</NAME>`,
+    ...(memo ? [`  <MEMO>${memo}</MEMO>`] : []),
+    "</STMTTRN>",
+  ];
+}
+
+/**
+ * Generates complete OFX 2.2 content: one checking account statement in the base currency
+ * Transfers are left out, as they net to zero within the one account. OFX requires a ledger balance; it is the net
+ * of the listed transactions, as the plan has no bank balance to report.
+ *
+ * @param occurrences - Array of occurrences (see generateCSVExport)
+ * @param period - Export range and the current date (YYYY-MM-DD)
+ * @param converter - Converts amounts into the base currency
+ * @returns Complete OFX content as string
+ * @throws Error if there is no exchange rate for an occurrence currency
+ */
+export function generateOFXContent(
+  occurrences: CSVOccurrence[],
+  period: { fromDate: string; toDate: string; today: string },
+  converter: CurrencyConverter = PLN_ONLY
+): string {
+  const transactions = occurrences.filter((occ) => occ.entry_type !== "transfer");
+  const balanceCents = transactions.reduce((sum, occ) => sum + Math.round(baseAmount(occ, converter) * 100), 0);
+  const status = ["<STATUS>", "  <CODE>0</CODE>", "  <SEVERITY>INFO</SEVERITY>", "</STATUS>"];
+  const indent = (block: string[], depth: number) => block.map((line) => `${"  ".repeat(depth)}${line}`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    "<OFX>",
+    "  <SIGNONMSGSRSV1>",
+    "    <SONRS>",
+    ...indent(status, 3),
+    `      <DTSERVER>${toOFXDate(period.today)}</DTSERVER>`,
+    "      <LANGUAGE>ENG</LANGUAGE>",
+    "    </SONRS>",
+    "  </SIGNONMSGSRSV1>",
+    "  <BANKMSGSRSV1>",
+    "    <STMTTRNRS>",
+    "      <TRNUID>0</TRNUID>",
+    ...indent(status, 3),
+    "      <STMTRS>",
+    `        <CURDEF>${converter.baseCurrency}</CURDEF>`,
+    "        <BANKACCTFROM>",
+    `          <BANKID>${EXPORT_BANK_ID}</BANKID>`,
+    `          <ACCTID>${EXPORT_ACCOUNT_ID}</ACCTID>`,
+    "          <ACCTTYPE>CHECKING</ACCTTYPE>",
+    "        </BANKACCTFROM>",
+    "        <BANKTRANLIST>",
+    `          <DTSTART>${toOFXDate(period.fromDate)}</DTSTART>`,
+    `          <DTEND>${toOFXDate(period.toDate)}</DTEND>`,
+    ...transactions.flatMap((occ) => indent(formatOFXTransaction(occ, converter), 5)),
+    "        </BANKTRANLIST>",
+    "        <LEDGERBAL>",
+    `          <BALAMT>${(balanceCents / 100).toFixed(2)}</BALAMT>`,
+    `          <DTASOF>${toOFXDate(period.toDate)}</DTASOF>`,
+    "        </LEDGERBAL>",
+    "      </STMTRS>",
+    "    </STMTTRNRS>",
+    "  </BANKMSGSRSV1>",
+    "</OFX>",
+  ].join("\n");
+}
+
+/**
+ * Generates a timestamped filename for OFX export
+ *
+ * @param today - Current date in the user's time zone (default: today in UTC)
+ * @returns Filename in format: 10x-expense-plotter-export-YYYY-MM-DD.ofx
+ */
+export function generateOFXFilename(today: string = todayInTimeZone("UTC")): string {
+  return `10x-expense-plotter-export-${today}.ofx`;
+}
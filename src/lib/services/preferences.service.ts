@@ -0,0 +1,87 @@
+/**
+ * User Preferences Service
+ * Handles reading and updating per-user settings
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type { UpdateUserPreferencesCommand, UserPreferencesDTO } from "../../types";
+import { DEFAULT_FORMAT_PREFERENCES } from "../utils/format.utils";
+import { DEFAULT_TIME_ZONE } from "../utils/date.utils";
+
+// Type alias for Supabase client with database types
+type TypedSupabaseClient = SupabaseClient<Database>;
+
+/**
+ * Preferences used until a user saves their own (mirrors the column defaults)
+ */
+export const DEFAULT_USER_PREFERENCES: UserPreferencesDTO = {
+  low_balance_threshold: 0,
+  base_currency: "PLN",
+  ...DEFAULT_FORMAT_PREFERENCES,
+  time_zone: DEFAULT_TIME_ZONE,
+};
+
+const PREFERENCES_COLUMNS =
+  "low_balance_threshold, base_currency, currency_display, number_locale, date_format, week_starts_on, time_zone";
+
+/**
+ * Get the preferences of a user
+ * @param supabase - Typed Supabase client
+ * @param userId - User ID from authenticated session
+ * @returns Saved preferences, or defaults if none were saved
+ * @throws Error if database operation fails
+ */
+export async function getUserPreferences(supabase: TypedSupabaseClient, userId: string): Promise<UserPreferencesDTO> {
+  const { data, error } = await supabase
+    .from("user_preferences")
+    .select(PREFERENCES_COLUMNS)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    return { ...DEFAULT_USER_PREFERENCES };
+  }
+
+  return { ...data, low_balance_threshold: Number(data.low_balance_threshold) };
+}
+
+/**
+ * Update the preferences of a user, creating the row on first save
+ * @param supabase - Typed Supabase client
+ * @param userId - User ID from authenticated session
+ * @param command - Fields to change
+ * @returns Preferences after the update
+ * @throws Error if database operation fails
+ */
+export async function updateUserPreferences(
+  supabase: TypedSupabaseClient,
+  userId: string,
+  command: UpdateUserPreferencesCommand
+): Promise<UserPreferencesDTO> {
+  const current = await getUserPreferences(supabase, userId);
+
+  const { data, error } = await supabase
+    .from("user_preferences")
+    .upsert({ user_id: userId, ...current, ...command }, { onConflict: "user_id" })
+    .select(PREFERENCES_COLUMNS)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return { ...data, low_balance_threshold: Number(data.low_balance_threshold) };
+}
+
+/**
+ * Export service as object for easier mocking in tests
+ */
+export const preferencesService = {
+  getUserPreferences,
+  updateUserPreferences,
+};
@@ -1,5 +1,30 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
-import type { ProjectionDTO, StartingBalanceInfoDTO, ProjectionComputationDTO, DateRangeLimitsDTO } from "@/types";
+import type {
+  ProjectionDTO,
+  StartingBalanceInfoDTO,
+  ProjectionComputationDTO,
+  DateRangeLimitsDTO,
+  BalanceTimelineDTO,
+  BalanceTimelinePointDTO,
+  TimelineGranularity,
+  LowBalanceForecastDTO,
+  CategoryTotalDTO,
+} from "@/types";
+import { ExchangeRatesService } from "./exchange-rates.service";
+import { maxProjectionDate } from "../utils/date.utils";
+
+/**
+ * Turns a failed database call into the error thrown to routes
+ * A missing exchange rate (no_data_found, raised by exchange_rate()) keeps its message so the
+ * routes can answer 404; anything else becomes the given generic message
+ */
+function toProjectionError(error: unknown, message: string): Error {
+  const dbError = error as { code?: string; message?: string } | null;
+  if (dbError?.code === "P0002" && dbError.message?.startsWith("No exchange rate")) {
+    return new Error(`${dbError.message}. Please add an exchange rate first.`);
+  }
+  return new Error(message);
+}
 
 /**
  * Service class for balance projection operations
@@ -14,75 +39,391 @@ export class ProjectionService {
   /**
    * Gets the balance projection for a specific target date
    * @param targetDate - The target date for projection (YYYY-MM-DD)
+   * @param scenarioId - Optional scenario to project as "baseline + scenario"
+   * @param walletId - Optional wallet to project; all wallets consolidated if null
    * @returns Complete projection data including balance, computation breakdown, and limits
-   * @throws Error if starting balance not found or database operation fails
+   * @throws Error if starting balance, scenario or wallet not found or database operation fails
    */
-  async getProjection(targetDate: string): Promise<ProjectionDTO> {
+  async getProjection(
+    targetDate: string,
+    scenarioId: string | null = null,
+    walletId: string | null = null
+  ): Promise<ProjectionDTO> {
+    const currency = await this.getCurrency(walletId);
+
     // Step 1: Fetch starting balance info
-    const startingBalance = await this.getStartingBalance();
+    const startingBalance = await this.getStartingBalance(walletId, targetDate);
 
     if (!startingBalance) {
       throw new Error("No starting balance configured. Please set a starting balance first.");
     }
 
+    if (scenarioId) {
+      await this.assertScenarioExists(scenarioId);
+    }
+
     // Step 2: Call project_balance() database function
-    const projectedBalance = await this.callProjectBalance(targetDate);
+    const projectedBalance = await this.callProjectBalance(targetDate, scenarioId, walletId);
 
-    // Step 3: Fetch income and expense totals for computation breakdown
-    const computation = await this.getProjectionTotals(startingBalance.effective_date, targetDate);
+    // Step 3: Fetch income and expense totals since the balance the projection starts from
+    const anchorDate = startingBalance.checkpoint?.checkpoint_date ?? startingBalance.effective_date;
+    const { computation, categoryBreakdown } = await this.getProjectionTotals(
+      anchorDate,
+      targetDate,
+      scenarioId,
+      walletId
+    );
 
     // Step 4: Calculate date range limits
-    const dateRangeLimits = this.calculateDateRangeLimits(startingBalance.effective_date);
+    const dateRangeLimits = this.calculateDateRangeLimits(startingBalance.effective_date, await this.getToday());
 
     // Step 5: Assemble and return complete projection
     return {
       target_date: targetDate,
+      scenario_id: scenarioId,
+      wallet_id: walletId,
+      currency,
       projected_balance: projectedBalance,
       starting_balance: startingBalance,
       computation,
+      category_breakdown: categoryBreakdown,
       date_range_limits: dateRangeLimits,
     };
   }
 
   /**
-   * Fetches the starting balance for the authenticated user
+   * Gets the running projected balance over a date range, bucketed by day, week or month
+   * @param fromDate - First day of the timeline (YYYY-MM-DD)
+   * @param toDate - Last day of the timeline (YYYY-MM-DD)
+   * @param granularity - Bucket size
+   * @param scenarioId - Optional scenario to project as "baseline + scenario"
+   * @param walletId - Optional wallet to project; all wallets consolidated if null
+   * @returns Timeline with per-bucket income, expense, net change and closing balance
+   * @throws Error if starting balance, scenario or wallet not found or database operation fails
+   */
+  async getBalanceTimeline(
+    fromDate: string,
+    toDate: string,
+    granularity: TimelineGranularity,
+    scenarioId: string | null = null,
+    walletId: string | null = null
+  ): Promise<BalanceTimelineDTO> {
+    const currency = await this.getCurrency(walletId);
+
+    // Step 1: Fetch starting balance info
+    const startingBalance = await this.getStartingBalance(walletId, toDate);
+
+    if (!startingBalance) {
+      throw new Error("No starting balance configured. Please set a starting balance first.");
+    }
+
+    if (scenarioId) {
+      await this.assertScenarioExists(scenarioId);
+    }
+
+    // Step 2: Call project_balance_timeline() database function
+    const points = await this.callProjectBalanceTimeline(fromDate, toDate, granularity, scenarioId, walletId);
+
+    // Step 3: Derive totals and opening balance from the buckets
+    const roundCents = (value: number) => Math.round(value * 100) / 100;
+    const computation: ProjectionComputationDTO = {
+      total_income: roundCents(points.reduce((sum, point) => sum + point.total_income, 0)),
+      total_expense: roundCents(points.reduce((sum, point) => sum + point.total_expense, 0)),
+      net_transfers: roundCents(points.reduce((sum, point) => sum + point.net_transfers, 0)),
+      net_change: roundCents(points.reduce((sum, point) => sum + point.net_change, 0)),
+    };
+    const openingBalance =
+      points.length > 0
+        ? roundCents(points[0].balance - points[0].net_change - points[0].adjustment)
+        : Number(startingBalance.amount);
+
+    // Step 4: Assemble and return complete timeline
+    return {
+      from_date: fromDate,
+      to_date: toDate,
+      granularity,
+      scenario_id: scenarioId,
+      wallet_id: walletId,
+      currency,
+      opening_balance: openingBalance,
+      starting_balance: startingBalance,
+      computation,
+      points,
+      date_range_limits: this.calculateDateRangeLimits(startingBalance.effective_date, await this.getToday()),
+    };
+  }
+
+  /**
+   * Scans the projection horizon for the first day below a threshold and the lowest balance
+   * @param threshold - Minimum balance the user wants to stay above
+   * @param walletId - Optional wallet to scan; all wallets consolidated if null
+   * @returns Forecast from today (or the starting balance date, if later) to the max projection date
+   * @throws Error if starting balance or wallet not found or database operation fails
+   */
+  async getLowBalanceForecast(threshold: number, walletId: string | null = null): Promise<LowBalanceForecastDTO> {
+    const currency = await this.getCurrency(walletId);
+
+    // Step 1: Fetch starting balance info
+    let startingBalance = await this.getStartingBalance(walletId);
+
+    if (!startingBalance) {
+      throw new Error("No starting balance configured. Please set a starting balance first.");
+    }
+
+    // Step 2: Determine the scanned range (past breaches are not forecasts)
+    const today = await this.getToday();
+    const dateRangeLimits = this.calculateDateRangeLimits(startingBalance.effective_date, today);
+    const fromDate = today > startingBalance.effective_date ? today : startingBalance.effective_date;
+    const toDate = dateRangeLimits.max_date;
+    if (walletId) {
+      startingBalance = await this.getLatestCheckpoint(startingBalance, walletId, toDate);
+    }
+
+    // Step 3: Call find_low_balance_forecast() database function
+    try {
+      const { data, error } = await this.supabase.rpc("find_low_balance_forecast", {
+        p_user_id: this.userId,
+        p_threshold: threshold,
+        p_from_date: fromDate,
+        p_to_date: toDate,
+        p_wallet_id: walletId ?? undefined,
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      if (!row || row.lowest_balance_date === null) {
+        throw new Error("Balance forecast returned no data");
+      }
+
+      // Step 4: Assemble and return forecast (numeric columns may come as strings)
+      return {
+        threshold,
+        wallet_id: walletId,
+        currency,
+        from_date: fromDate,
+        to_date: toDate,
+        first_breach_date: row.first_breach_date,
+        first_breach_balance: row.first_breach_balance === null ? null : Number(row.first_breach_balance),
+        lowest_balance: Number(row.lowest_balance),
+        lowest_balance_date: row.lowest_balance_date,
+        starting_balance: startingBalance,
+        date_range_limits: dateRangeLimits,
+      };
+    } catch (error) {
+      console.error("Error calling find_low_balance_forecast:", error);
+      throw toProjectionError(error, "Failed to calculate low balance forecast");
+    }
+  }
+
+  /**
+   * Fetches the starting balance of a wallet, or the combined starting balance of all wallets
+   * @param walletId - Wallet to fetch, or null for all wallets (sum of the amounts converted into the base
+   * currency at each balance's effective date, earliest date, no checkpoint)
+   * @param asOfDate - When set with a wallet, also fetches its latest checkpoint at or before this date (YYYY-MM-DD)
    * @returns Starting balance info or null if not found
+   * @throws Error if an exchange rate needed for the combined balance is missing
    * @private
    */
-  private async getStartingBalance(): Promise<StartingBalanceInfoDTO | null> {
+  private async getStartingBalance(walletId: string | null, asOfDate?: string): Promise<StartingBalanceInfoDTO | null> {
+    let balances: { amount: number; effective_date: string; wallet_id: string }[];
     try {
-      const { data, error } = await this.supabase
+      let query = this.supabase
         .from("starting_balances")
-        .select("amount, effective_date")
-        .eq("user_id", this.userId)
-        .single();
+        .select("amount, effective_date, wallet_id")
+        .eq("user_id", this.userId);
+      if (walletId) {
+        query = query.eq("wallet_id", walletId);
+      }
+
+      const { data, error } = await query;
 
       if (error) {
-        if (error.code === "PGRST116") {
-          // No rows returned
-          return null;
-        }
         throw error;
       }
 
-      return data;
+      if (!data || data.length === 0) {
+        return null;
+      }
+
+      balances = data.map((balance) => ({ ...balance, amount: Number(balance.amount) }));
     } catch (error) {
       console.error("Error fetching starting balance:", error);
       throw new Error("Failed to fetch starting balance");
     }
+
+    // A single wallet's balance stays in its own currency
+    let toAmount = (balance: (typeof balances)[number]) => balance.amount;
+    if (!walletId) {
+      const [converter, currencies] = await Promise.all([
+        new ExchangeRatesService(this.supabase).getConverter(this.userId),
+        this.getWalletCurrencies(),
+      ]);
+      toAmount = (balance) => {
+        try {
+          return converter.toBase(balance.amount, currencies.get(balance.wallet_id) ?? "", balance.effective_date);
+        } catch (error) {
+          throw new Error(`${(error as Error).message}. Please add an exchange rate first.`);
+        }
+      };
+    }
+
+    const startingBalance: StartingBalanceInfoDTO = {
+      amount: Math.round(balances.reduce((sum, balance) => sum + toAmount(balance), 0) * 100) / 100,
+      effective_date: balances.reduce(
+        (earliest, balance) => (balance.effective_date < earliest ? balance.effective_date : earliest),
+        balances[0].effective_date
+      ),
+      checkpoint: null,
+    };
+
+    return walletId && asOfDate ? this.getLatestCheckpoint(startingBalance, walletId, asOfDate) : startingBalance;
+  }
+
+  /**
+   * Adds the wallet's latest checkpoint after the starting balance date and at or before asOfDate
+   * (the same anchor balance_anchor() picks for project_balance())
+   * @param startingBalance - Starting balance info without checkpoint
+   * @param walletId - Wallet whose checkpoints to consider
+   * @param asOfDate - Latest checkpoint date to consider (YYYY-MM-DD)
+   * @returns Starting balance info with the checkpoint, or null checkpoint if there is none
+   * @private
+   */
+  private async getLatestCheckpoint(
+    startingBalance: StartingBalanceInfoDTO,
+    walletId: string,
+    asOfDate: string
+  ): Promise<StartingBalanceInfoDTO> {
+    const { data, error } = await this.supabase
+      .from("balance_checkpoints")
+      .select("id, checkpoint_date, amount")
+      .eq("user_id", this.userId)
+      .eq("wallet_id", walletId)
+      .gt("checkpoint_date", startingBalance.effective_date)
+      .lte("checkpoint_date", asOfDate)
+      .order("checkpoint_date", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching balance checkpoint:", error);
+      throw new Error("Failed to fetch balance checkpoint");
+    }
+
+    return {
+      ...startingBalance,
+      checkpoint: data ? { id: data.id, checkpoint_date: data.checkpoint_date, amount: Number(data.amount) } : null,
+    };
+  }
+
+  /**
+   * Fetches the currency of each of the user's wallets
+   * @returns Currency by wallet id
+   * @private
+   */
+  private async getWalletCurrencies(): Promise<Map<string, string>> {
+    const { data, error } = await this.supabase.from("wallets").select("id, currency").eq("user_id", this.userId);
+
+    if (error) {
+      console.error("Error fetching wallets:", error);
+      throw new Error("Failed to fetch wallets");
+    }
+
+    return new Map((data ?? []).map((wallet: { id: string; currency: string }) => [wallet.id, wallet.currency]));
+  }
+
+  /**
+   * Returns the currency a projection is computed in, verifying that the wallet exists and belongs
+   * to the authenticated user
+   * @param walletId - Projected wallet, or null for all wallets
+   * @returns The wallet's currency, or the user's base currency for all wallets
+   * @throws Error if the wallet is not found
+   * @private
+   */
+  private async getCurrency(walletId: string | null): Promise<string> {
+    const { data, error } = walletId
+      ? await this.supabase
+          .from("wallets")
+          .select("currency")
+          .eq("user_id", this.userId)
+          .eq("id", walletId)
+          .maybeSingle()
+      : await this.supabase.rpc("base_currency", { p_user_id: this.userId });
+
+    if (error) {
+      console.error("Error fetching currency:", error);
+      throw new Error("Failed to fetch currency");
+    }
+
+    if (!data) {
+      throw new Error(`Wallet with id ${walletId} not found`);
+    }
+
+    return typeof data === "string" ? data : data.currency;
+  }
+
+  /**
+   * Returns the current date in the user's time zone
+   * @returns Date in YYYY-MM-DD format
+   * @throws Error if database operation fails
+   * @private
+   */
+  private async getToday(): Promise<string> {
+    const { data, error } = await this.supabase.rpc("user_today", { p_user_id: this.userId });
+
+    if (error) {
+      console.error("Error fetching current date:", error);
+      throw new Error("Failed to fetch current date");
+    }
+
+    return data;
+  }
+
+  /**
+   * Verifies that the scenario exists and belongs to the authenticated user
+   * @param scenarioId - Scenario to check
+   * @throws Error if the scenario is not found
+   * @private
+   */
+  private async assertScenarioExists(scenarioId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from("scenarios")
+      .select("id")
+      .eq("user_id", this.userId)
+      .eq("id", scenarioId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching scenario:", error);
+      throw new Error("Failed to fetch scenario");
+    }
+
+    if (!data) {
+      throw new Error(`Scenario with id ${scenarioId} not found`);
+    }
   }
 
   /**
    * Calls the project_balance() database function to get projected balance
    * @param targetDate - The target date for projection (YYYY-MM-DD)
+   * @param scenarioId - Scenario to include, or null for the baseline
+   * @param walletId - Wallet to project, or null for all wallets
    * @returns The projected balance amount
    * @private
    */
-  private async callProjectBalance(targetDate: string): Promise<number> {
+  private async callProjectBalance(
+    targetDate: string,
+    scenarioId: string | null,
+    walletId: string | null
+  ): Promise<number> {
     try {
       const { data, error } = await this.supabase.rpc("project_balance", {
         p_user_id: this.userId,
         p_target_date: targetDate,
+        p_scenario_id: scenarioId ?? undefined,
+        p_wallet_id: walletId ?? undefined,
       });
 
       if (error) {
@@ -93,24 +434,95 @@ export class ProjectionService {
       return typeof data === "number" ? data : parseFloat(data);
     } catch (error) {
       console.error("Error calling project_balance:", error);
-      throw new Error("Failed to calculate projected balance");
+      throw toProjectionError(error, "Failed to calculate projected balance");
     }
   }
 
   /**
-   * Fetches income and expense totals for the projection period
+   * Calls the project_balance_timeline() database function
+   * @param fromDate - First day of the timeline (YYYY-MM-DD)
+   * @param toDate - Last day of the timeline (YYYY-MM-DD)
+   * @param granularity - Bucket size
+   * @param scenarioId - Scenario to include, or null for the baseline
+   * @param walletId - Wallet to project, or null for all wallets
+   * @returns Timeline points in date order
+   * @private
+   */
+  private async callProjectBalanceTimeline(
+    fromDate: string,
+    toDate: string,
+    granularity: TimelineGranularity,
+    scenarioId: string | null,
+    walletId: string | null
+  ): Promise<BalanceTimelinePointDTO[]> {
+    try {
+      const { data, error } = await this.supabase.rpc("project_balance_timeline", {
+        p_user_id: this.userId,
+        p_from_date: fromDate,
+        p_to_date: toDate,
+        p_granularity: granularity,
+        p_scenario_id: scenarioId ?? undefined,
+        p_wallet_id: walletId ?? undefined,
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      // numeric columns may come as strings from PostgreSQL
+      return (data ?? []).map(
+        (row: {
+          bucket_start: string;
+          bucket_end: string;
+          total_income: number | string;
+          total_expense: number | string;
+          net_transfers: number | string;
+          net_change: number | string;
+          adjustment: number | string;
+          balance: number | string;
+          min_balance: number | string;
+        }) => ({
+          date: row.bucket_start,
+          end_date: row.bucket_end,
+          total_income: Number(row.total_income),
+          total_expense: Number(row.total_expense),
+          net_transfers: Number(row.net_transfers),
+          net_change: Number(row.net_change),
+          adjustment: Number(row.adjustment),
+          balance: Number(row.balance),
+          min_balance: Number(row.min_balance),
+        })
+      );
+    } catch (error) {
+      console.error("Error calling project_balance_timeline:", error);
+      throw toProjectionError(error, "Failed to calculate balance timeline");
+    }
+  }
+
+  /**
+   * Fetches income, expense and transfer totals for the projection period
    * @param startingDate - Starting balance effective date (YYYY-MM-DD)
    * @param targetDate - Target projection date (YYYY-MM-DD)
-   * @returns Computation breakdown with income, expense, and net change
+   * @param scenarioId - Scenario to include, or null for the baseline
+   * @param walletId - Wallet to include, or null for all wallets
+   * @returns Computation breakdown with income, expense, net transfers, and net change, and the
+   * income and expense of each category (transfers excluded), largest expense first
    * @private
    */
-  private async getProjectionTotals(startingDate: string, targetDate: string): Promise<ProjectionComputationDTO> {
+  private async getProjectionTotals(
+    startingDate: string,
+    targetDate: string,
+    scenarioId: string | null,
+    walletId: string | null
+  ): Promise<{ computation: ProjectionComputationDTO; categoryBreakdown: CategoryTotalDTO[] }> {
     try {
-      // Fetch all occurrences in the date range
-      const { data, error } = await this.supabase.rpc("expand_occurrences", {
+      // Fetch all flows in the date range (actuals for settled occurrences, plan for the rest)
+      const { data, error } = await this.supabase.rpc("balance_flows", {
         p_user_id: this.userId,
         p_from_date: startingDate,
         p_to_date: targetDate,
+        p_scenario_id: scenarioId ?? undefined,
+        p_wallet_id: walletId ?? undefined,
       });
 
       if (error) {
@@ -120,45 +532,73 @@ export class ProjectionService {
       // Calculate totals by entry type
       let totalIncome = 0;
       let totalExpense = 0;
+      let netTransfers = 0;
+      const totalsByCategory = new Map<string | null, CategoryTotalDTO>();
 
       if (data && Array.isArray(data)) {
-        for (const occurrence of data) {
-          if (occurrence.entry_type === "income") {
-            totalIncome += parseFloat(occurrence.amount);
-          } else if (occurrence.entry_type === "expense") {
-            totalExpense += parseFloat(occurrence.amount);
+        for (const flow of data) {
+          if (flow.entry_type === "income" || flow.entry_type === "expense") {
+            const amount = parseFloat(flow.amount);
+            const categoryTotal = totalsByCategory.get(flow.category_id) ?? {
+              category_id: flow.category_id,
+              total_income: 0,
+              total_expense: 0,
+            };
+            if (flow.entry_type === "income") {
+              totalIncome += amount;
+              categoryTotal.total_income += amount;
+            } else {
+              totalExpense += amount;
+              categoryTotal.total_expense += amount;
+            }
+            totalsByCategory.set(flow.category_id, categoryTotal);
+          } else if (flow.entry_type === "transfer") {
+            // Signed: negative out of the wallet, positive into it
+            netTransfers += parseFloat(flow.net_amount);
           }
         }
       }
 
       // Calculate net change
-      const netChange = totalIncome - totalExpense;
+      const netChange = totalIncome - totalExpense + netTransfers;
+
+      const roundCents = (value: number) => Math.round(value * 100) / 100;
+      const categoryBreakdown = [...totalsByCategory.values()]
+        .map((total) => ({
+          category_id: total.category_id,
+          total_income: roundCents(total.total_income),
+          total_expense: roundCents(total.total_expense),
+        }))
+        .sort((a, b) => b.total_expense - a.total_expense || b.total_income - a.total_income);
 
       return {
-        total_income: totalIncome,
-        total_expense: totalExpense,
-        net_change: netChange,
+        computation: {
+          total_income: totalIncome,
+          total_expense: totalExpense,
+          net_transfers: netTransfers,
+          net_change: netChange,
+        },
+        categoryBreakdown,
       };
     } catch (error) {
       console.error("Error fetching projection totals:", error);
-      throw new Error("Failed to calculate projection totals");
+      throw toProjectionError(error, "Failed to calculate projection totals");
     }
   }
 
   /**
    * Calculates the valid date range for projections
    * @param startingDate - Starting balance effective date (YYYY-MM-DD)
+   * @param today - Current date in the user's time zone (YYYY-MM-DD)
    * @returns Date range limits (min and max dates)
    * @private
    */
-  private calculateDateRangeLimits(startingDate: string): DateRangeLimitsDTO {
+  private calculateDateRangeLimits(startingDate: string, today: string): DateRangeLimitsDTO {
     // Min date is the starting balance effective date
     const minDate = startingDate;
 
-    // Max date is current date + 10 years
-    const maxDate = new Date();
-    maxDate.setFullYear(maxDate.getFullYear() + 10);
-    const maxDateStr = maxDate.toISOString().split("T")[0];
+    // Max date is the user's current date + 10 years
+    const maxDateStr = maxProjectionDate(today);
 
     return {
       min_date: minDate,
@@ -0,0 +1,283 @@
+/**
+ * QIF service
+ * Reads bank, cash and credit card transactions from QIF (Quicken Interchange Format) files and writes expanded
+ * occurrences as a QIF bank account
+ */
+
+import type { QIFDateFormat, StatementLineErrorDTO, StatementTransactionDTO } from "@/types";
+import { createCurrencyConverter } from "@/lib/utils/currency.utils";
+import type { CurrencyConverter } from "@/lib/utils/currency.utils";
+import { todayInTimeZone } from "@/lib/utils/date.utils";
+import { parseStatementAmount, parseStatementDate } from "@/lib/utils/bank-csv.utils";
+import { mergeStatementSections } from "@/lib/utils/statement.utils";
+import type { StatementParseResult, StatementSection } from "@/lib/utils/statement.utils";
+import type { CSVOccurrence } from "./export.service";
+
+/**
+ * QIF record: the fields of the lines up to "^", keyed by their one-letter code
+ */
+interface QIFRecord {
+  line: number; // 1-based line of the first field
+  fields: Map<string, string>;
+  section: StatementSection | null; // null for !Account and list records
+}
+
+// Used when no rates are given: every amount is already in PLN
+const PLN_ONLY = createCurrencyConverter("PLN", []);
+
+// Account types whose records are transactions; investment accounts use other fields
+const TRANSACTION_TYPES = ["bank", "cash", "ccard", "oth a", "oth l"];
+// Lists Quicken exports along with the accounts (categories, classes...); their records are skipped
+const LIST_TYPES = ["cat", "class", "memorized", "prices", "security"];
+
+// Split lines of a transaction (category, memo, amount, percentage); the transaction total is kept whole
+const SPLIT_CODES = new Set(["S", "E", "$", "%"]);
+
+// Quicken starts each account with its opening balance, a transfer from the account to itself
+const OPENING_BALANCE_PAYEE = "Opening Balance";
+
+// 10/19'26, 1/ 2/2026, 19.10.2026, 2026-10-19: three numbers; an apostrophe marks a year in the 2000s
+const DATE_PATTERN = /^(\d{1,4})\s*[/.-]\s*(\d{1,2})\s*([/.\-'])\s*(\d{1,4})$/;
+
+/**
+ * Picks the order of day and month in a file's dates, as QIF does not fix it: day first when a first number is above
+ * 12 or the dates are written with dots, month first (Quicken's US format) otherwise
+ */
+function detectDateOrder(values: string[]): QIFDateFormat {
+  const matches = values.map((value) => DATE_PATTERN.exec(value.trim())).filter((match) => match !== null);
+  if (matches.some((match) => match[1].length <= 2 && Number(match[1]) > 12)) return "DMY";
+  if (matches.some((match) => match[1].length <= 2 && Number(match[2]) > 12)) return "MDY";
+  return matches.some((match) => match[0].includes(".")) ? "DMY" : "MDY";
+}
+
+/**
+ * Parses a QIF date; a four-digit first number is a year (YYYY-MM-DD)
+ * @returns The date in YYYY-MM-DD format, or null if it is not a valid date
+ */
+export function parseQIFDate(text: string, order: QIFDateFormat): string | null {
+  const match = DATE_PATTERN.exec(text.trim());
+  if (!match) return null;
+
+  const [, first, second, separator, last] = match;
+  const toDate = (year: number, month: string, day: string) =>
+    parseStatementDate(`${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`, "YYYY-MM-DD");
+
+  if (first.length === 4) return last.length <= 2 ? toDate(Number(first), second, last) : null;
+  if (first.length > 2 || (last.length !== 2 && last.length !== 4)) return null;
+
+  const shortYear = Number(last);
+  const year =
+    last.length === 4 ? shortYear : separator === "'" || shortYear < 80 ? 2000 + shortYear : 1900 + shortYear;
+  return order === "DMY" ? toDate(year, second, first) : toDate(year, first, second);
+}
+
+// Quicken writes 1,234.56; some localized exports write 1.234,56
+function parseQIFAmount(text: string): number | null {
+  const decimalSeparator = /,\d{1,2}$/.test(text.trim()) ? "," : ".";
+  return parseStatementAmount(text, decimalSeparator);
+}
+
+/**
+ * Parses a QIF file
+ * Reads the transactions of the bank, cash, credit card and asset/liability accounts; other lists are skipped and
+ * investment accounts are rejected. Quicken's opening balance record is left out. Each !Account header starts a new
+ * account, so a file with several accounts is rejected like other mixed statements. Day and month order is detected
+ * from the whole file (see detectDateOrder). Malformed records are reported with their line.
+ */
+export function parseQIF(content: string): StatementParseResult {
+  const errors: StatementLineErrorDTO[] = [];
+  const sections: StatementSection[] = [];
+  const records: QIFRecord[] = [];
+  let mode: "account" | "transactions" | "skip" | null = null;
+  let accountName: string | null = null;
+  let section: StatementSection | null = null;
+  let record: QIFRecord | null = null;
+
+  const lines = (content.startsWith("\uFEFF") ? content.slice(1) : content).split(/\r?\n/);
+  for (const [index, rawLine] of lines.entries()) {
+    const lineNumber = index + 1;
+    const text = rawLine.trim();
+    if (text === "") continue;
+
+    if (text.startsWith("!")) {
+      if (record) {
+        errors.push({ line: record.line, message: "Record is not ended with ^" });
+        record = null;
+      }
+      const header = text.slice(1).trim();
+      const type = header.toLowerCase().startsWith("type:") ? header.slice(5).trim().toLowerCase() : null;
+
+      if (header.toLowerCase() === "account") {
+        mode = "account";
+      } else if (type !== null && TRANSACTION_TYPES.includes(type)) {
+        mode = "transactions";
+        section = {
+          account: accountName,
+          opening_balance: null,
+          closing_balance: null,
+          closing_line: lineNumber,
+          transactions: [],
+        };
+        sections.push(section);
+      } else if (type !== null && LIST_TYPES.includes(type)) {
+        mode = "skip";
+      } else if (type === "invst") {
+        errors.push({ line: lineNumber, message: "Investment accounts (!Type:Invst) are not supported" });
+        mode = "skip";
+      } else if (/^(option|clear):/i.test(header)) {
+        // Quicken's AutoSwitch markers around the account list
+      } else {
+        errors.push({ line: lineNumber, message: `Unknown header "${text}"` });
+        mode = "skip";
+      }
+      continue;
+    }
+
+    if (mode === null) {
+      errors.push({ line: lineNumber, message: "Text before the first header (such as !Type:Bank)" });
+      mode = "skip";
+      continue;
+    }
+
+    if (text === "^") {
+      if (record && mode === "account") accountName = record.fields.get("N") ?? accountName;
+      if (record && mode === "transactions") records.push(record);
+      record = null;
+      continue;
+    }
+
+    record ??= { line: lineNumber, fields: new Map(), section: mode === "transactions" ? section : null };
+    const code = text[0];
+    if (mode === "transactions" && SPLIT_CODES.has(code)) continue;
+    if (!record.fields.has(code)) record.fields.set(code, text.slice(1).trim());
+  }
+
+  if (record) {
+    errors.push({ line: record.line, message: "Record is not ended with ^" });
+  }
+
+  if (sections.length === 0) {
+    if (errors.length === 0) {
+      errors.push({ line: 1, message: "The file contains no bank, cash or credit card account (!Type:Bank...)" });
+    }
+    return { statement: { account: null, opening_balance: null, closing_balance: null, transactions: [] }, errors };
+  }
+
+  const order = detectDateOrder(records.map((entry) => entry.fields.get("D") ?? ""));
+  records.forEach((entry, index) => {
+    // The opening balance is the first record of an account
+    const isFirst = index === 0 || records[index - 1].section !== entry.section;
+    if (isFirst && entry.fields.get("P") === OPENING_BALANCE_PAYEE && /^\[.*\]$/.test(entry.fields.get("L") ?? "")) {
+      return;
+    }
+    const transaction = readTransaction(entry, order, errors);
+    if (transaction) entry.section?.transactions.push(transaction);
+  });
+
+  const statement = mergeStatementSections(sections, errors);
+  return { statement, errors };
+}
+
+function readTransaction(
+  record: QIFRecord,
+  order: QIFDateFormat,
+  errors: StatementLineErrorDTO[]
+): StatementTransactionDTO | null {
+  const dateText = record.fields.get("D");
+  const amountText = record.fields.get("T") ?? record.fields.get("U");
+  const date = dateText ? parseQIFDate(dateText, order) : null;
+  const amount = amountText ? parseQIFAmount(amountText) : null;
+
+  if (!dateText) {
+    errors.push({ line: record.line, message: "Date (D) is missing" });
+  } else if (!date) {
+    errors.push({ line: record.line, message: `Date "${dateText}" is not a valid date` });
+  }
+  if (!amountText) {
+    errors.push({ line: record.line, message: "Amount (T) is missing" });
+  } else if (amount === null) {
+    errors.push({ line: record.line, message: `Amount "${amountText}" is not a valid amount` });
+  }
+  if (!date || amount === null) return null;
+
+  const payee = record.fields.get("P") ?? "";
+  const memo = record.fields.get("M") ?? "";
+  return {
+    row: record.line,
+    date,
+    amount,
+    description: [payee, memo].filter(Boolean).join(" · "),
+    currency: null,
+  };
+}
+
+// QIF fields are single lines
+const toQIFText = (text: string) => text.replace(/\s+/g, " ").trim();
+
+/**
+ * Formats a YYYY-MM-DD date for a QIF file
+ * Day-first dates are written with dots (19.10.2026), which the import reads as day first whatever the day
+ */
+export function toQIFDate(date: string, dateFormat: QIFDateFormat = "MDY"): string {
+  const [year, month, day] = date.split("-");
+  return dateFormat === "DMY" ? `${day}.${month}.${year}` : `${month}/${day}/${year}`;
+}
+
+/**
+ * Formats a single occurrence as a QIF transaction record
+ *
+ * @param occ - Income or expense occurrence
+ * @param dateFormat - Order of day and month in the date
+ * @param converter - Converts the amount into the base currency at the occurrence date
+ * @returns Record lines, ending with "^"
+ * @throws Error if there is no exchange rate for the occurrence currency
+ */
+export function formatQIFTransaction(
+  occ: CSVOccurrence,
+  dateFormat: QIFDateFormat = "MDY",
+  converter: CurrencyConverter = PLN_ONLY
+): string[] {
+  const signedAmount = occ.entry_type === "expense" ? -occ.amount : occ.amount;
+  const amount = converter.toBase(signedAmount, occ.currency, occ.occurrence_date);
+  const description = toQIFText(occ.description ?? "");
+
+  return [
+    `D${toQIFDate(occ.occurrence_date, dateFormat)}`,
+    `T${amount.toFixed(2)}`,
+    `P${toQIFText(occ.title)}`,
+    ...(description ? [`M${description}`] : []),
+    "^",
+  ];
+}
+
+/**
+ * Generates complete QIF content: one bank account with amounts in the base currency
+ * QIF has no currency field, so amounts are converted like in the CSV export. Transfers are left out, as they net to
+ * zero within the one account.
+ *
+ * @param occurrences - Array of occurrences (see generateCSVExport)
+ * @param dateFormat - Order of day and month in the dates (default: MDY, as Quicken)
+ * @param converter - Converts amounts into the base currency
+ * @returns Complete QIF content as string
+ * @throws Error if there is no exchange rate for an occurrence currency
+ */
+export function generateQIFContent(
+  occurrences: CSVOccurrence[],
+  dateFormat: QIFDateFormat = "MDY",
+  converter: CurrencyConverter = PLN_ONLY
+): string {
+  const records = occurrences
+    .filter((occ) => occ.entry_type !== "transfer")
+    .flatMap((occ) => formatQIFTransaction(occ, dateFormat, converter));
+  return ["!Type:Bank", ...records, ""].join("\n");
+}
+
+/**
+ * Generates a timestamped filename for QIF export
+ *
+ * @param today - Current date in the user's time zone (default: today in UTC)
+ * @returns Filename in format: 10x-expense-plotter-export-YYYY-MM-DD.qif
+ */
+export function generateQIFFilename(today: string = todayInTimeZone("UTC")): string {
+  return `10x-expense-plotter-export-${today}.qif`;
+}
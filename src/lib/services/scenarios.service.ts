@@ -0,0 +1,289 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type {
+  ScenarioDTO,
+  ScenarioDetailDTO,
+  ScenarioOverrideDTO,
+  EntrySeriesDTO,
+  CreateScenarioCommand,
+  UpdateScenarioCommand,
+  CreateScenarioOverrideCommand,
+  CreateEntryCommand,
+  ApplyScenarioResponseDTO,
+} from "../../types";
+import { EntriesService } from "./entries.service";
+
+// Define custom errors
+class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+const SCENARIO_COLUMNS = "id, name, description, applied_at, created_at, updated_at";
+const OVERRIDE_COLUMNS = "id, series_id, exception_date, exception_type, title, description, amount, updated_at";
+
+/**
+ * Service class for what-if scenarios
+ * A scenario holds hypothetical entry series and overrides of real series; neither is part of
+ * the real plan until the scenario is applied
+ */
+export class ScenariosService {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  private async getScenarioRow(userId: string, id: string): Promise<ScenarioDTO | null> {
+    const { data, error } = await this.supabase
+      .from("scenarios")
+      .select(SCENARIO_COLUMNS)
+      .eq("user_id", userId)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  private async requireScenario(userId: string, id: string): Promise<ScenarioDTO> {
+    const scenario = await this.getScenarioRow(userId, id);
+    if (!scenario) {
+      throw new NotFoundError(`Scenario with id ${id} not found`);
+    }
+    return scenario;
+  }
+
+  async findAll(userId: string): Promise<ScenarioDTO[]> {
+    const { data, error } = await this.supabase
+      .from("scenarios")
+      .select(SCENARIO_COLUMNS)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async findById(userId: string, id: string): Promise<ScenarioDetailDTO | null> {
+    const scenario = await this.getScenarioRow(userId, id);
+    if (!scenario) {
+      return null;
+    }
+
+    const { data: entries, error: entriesError } = await this.supabase
+      .from("entry_series")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("scenario_id", id)
+      .order("start_date", { ascending: true });
+
+    if (entriesError) {
+      throw entriesError;
+    }
+
+    const { data: overrides, error: overridesError } = await this.supabase
+      .from("series_exceptions")
+      .select(OVERRIDE_COLUMNS)
+      .eq("user_id", userId)
+      .eq("scenario_id", id)
+      .order("exception_date", { ascending: true });
+
+    if (overridesError) {
+      throw overridesError;
+    }
+
+    return {
+      ...scenario,
+      entries: (entries || []) as EntrySeriesDTO[],
+      overrides: (overrides || []) as ScenarioOverrideDTO[],
+    };
+  }
+
+  async create(userId: string, command: CreateScenarioCommand): Promise<ScenarioDTO> {
+    const { data, error } = await this.supabase
+      .from("scenarios")
+      .insert({
+        user_id: userId,
+        name: command.name,
+        description: command.description ?? null,
+      })
+      .select(SCENARIO_COLUMNS)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  async update(userId: string, id: string, command: UpdateScenarioCommand): Promise<ScenarioDTO> {
+    const { data, error } = await this.supabase
+      .from("scenarios")
+      .update({ name: command.name, description: command.description ?? null })
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select(SCENARIO_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      throw new NotFoundError(`Scenario with id ${id} not found`);
+    }
+
+    return data;
+  }
+
+  // Deleting a scenario cascades to its hypothetical series and overrides
+  async delete(userId: string, id: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from("scenarios")
+      .delete()
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select("id");
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data || data.length === 0) {
+      throw new NotFoundError(`Scenario with id ${id} not found`);
+    }
+  }
+
+  async addEntry(userId: string, scenarioId: string, command: CreateEntryCommand): Promise<EntrySeriesDTO> {
+    await this.requireScenario(userId, scenarioId);
+
+    const entriesService = new EntriesService(this.supabase);
+    return entriesService.create(userId, command, scenarioId);
+  }
+
+  async removeEntry(userId: string, scenarioId: string, seriesId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from("entry_series")
+      .delete()
+      .eq("user_id", userId)
+      .eq("scenario_id", scenarioId)
+      .eq("id", seriesId)
+      .select("id");
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data || data.length === 0) {
+      throw new NotFoundError(`Entry series with id ${seriesId} not found in scenario ${scenarioId}`);
+    }
+  }
+
+  async addOverride(
+    userId: string,
+    scenarioId: string,
+    command: CreateScenarioOverrideCommand
+  ): Promise<ScenarioOverrideDTO> {
+    await this.requireScenario(userId, scenarioId);
+
+    // Only real series can be overridden; hypothetical ones are edited by replacing them
+    const { data: series, error: seriesError } = await this.supabase
+      .from("entry_series")
+      .select("id")
+      .eq("user_id", userId)
+      .eq("id", command.series_id)
+      .is("scenario_id", null)
+      .maybeSingle();
+
+    if (seriesError) {
+      throw seriesError;
+    }
+
+    if (!series) {
+      throw new NotFoundError(`Entry series with id ${command.series_id} not found`);
+    }
+
+    const { data, error } = await this.supabase
+      .from("series_exceptions")
+      .insert({
+        series_id: command.series_id,
+        exception_date: command.exception_date,
+        exception_type: command.exception_type,
+        title: command.title ?? null,
+        description: command.description ?? null,
+        amount: command.amount ?? null,
+        user_id: userId,
+        scenario_id: scenarioId,
+      })
+      .select(OVERRIDE_COLUMNS)
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        // unique_series_exception
+        throw new ConflictError(`Scenario already overrides the occurrence on ${command.exception_date}`);
+      }
+      throw error;
+    }
+
+    return data;
+  }
+
+  async removeOverride(userId: string, scenarioId: string, overrideId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from("series_exceptions")
+      .delete()
+      .eq("user_id", userId)
+      .eq("scenario_id", scenarioId)
+      .eq("id", overrideId)
+      .select("id");
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data || data.length === 0) {
+      throw new NotFoundError(`Override with id ${overrideId} not found in scenario ${scenarioId}`);
+    }
+  }
+
+  // Moves the scenario's series and overrides into the real plan (see apply_scenario())
+  async apply(userId: string, id: string): Promise<ApplyScenarioResponseDTO> {
+    await this.requireScenario(userId, id);
+
+    const { data, error } = await this.supabase.rpc("apply_scenario", {
+      p_scenario_id: id,
+    });
+
+    if (error) {
+      if (error.code === "P0002") {
+        throw new NotFoundError(`Scenario with id ${id} not found`);
+      }
+      throw error;
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) {
+      throw new Error("apply_scenario returned no data");
+    }
+
+    return {
+      applied_entries: row.applied_entries,
+      applied_overrides: row.applied_overrides,
+      applied_at: row.applied_at,
+    };
+  }
+}
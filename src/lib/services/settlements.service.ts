@@ -0,0 +1,114 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type { SettlementResponseDTO, UpsertSettlementCommand } from "../../types";
+
+// Define custom errors
+class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+const SETTLEMENT_COLUMNS = "id, series_id, occurrence_date, actual_amount, actual_date, note, created_at, updated_at";
+
+/**
+ * Service class for occurrence settlements (actual vs. planned)
+ * A settlement records what was actually paid or received for one occurrence of a real series;
+ * the planned occurrence itself is left untouched
+ */
+export class SettlementsService {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  /**
+   * Settles an occurrence, or updates its existing settlement.
+   *
+   * @param userId - The authenticated user's ID
+   * @param seriesId - The (baseline) entry series ID
+   * @param occurrenceDate - The occurrence date as listed, i.e. after business day adjustment
+   * @param command - Actual amount, date and optional note
+   * @throws NotFoundError if the series does not exist or has no occurrence on that date
+   */
+  async upsert(
+    userId: string,
+    seriesId: string,
+    occurrenceDate: string,
+    command: UpsertSettlementCommand
+  ): Promise<SettlementResponseDTO> {
+    // Only real series can be settled; scenario series are hypothetical
+    const { data: series, error: seriesError } = await this.supabase
+      .from("entry_series")
+      .select("id")
+      .eq("user_id", userId)
+      .eq("id", seriesId)
+      .is("scenario_id", null)
+      .maybeSingle();
+
+    if (seriesError) {
+      throw seriesError;
+    }
+
+    if (!series) {
+      throw new NotFoundError(`Entry series with id ${seriesId} not found`);
+    }
+
+    const { data: occurrences, error: rpcError } = await this.supabase.rpc("expand_occurrences", {
+      p_user_id: userId,
+      p_from_date: occurrenceDate,
+      p_to_date: occurrenceDate,
+    });
+
+    if (rpcError) {
+      throw rpcError;
+    }
+
+    if (!(occurrences || []).some((occ) => occ.series_id === seriesId)) {
+      throw new NotFoundError(`Entry series ${seriesId} has no occurrence on ${occurrenceDate}`);
+    }
+
+    const { data, error } = await this.supabase
+      .from("occurrence_settlements")
+      .upsert(
+        {
+          user_id: userId,
+          series_id: seriesId,
+          occurrence_date: occurrenceDate,
+          actual_amount: command.actual_amount,
+          actual_date: command.actual_date,
+          note: command.note || null,
+        },
+        { onConflict: "series_id,occurrence_date" }
+      )
+      .select(SETTLEMENT_COLUMNS)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Removes the settlement of an occurrence, so projections use the plan again.
+   *
+   * @throws NotFoundError if the occurrence is not settled
+   */
+  async delete(userId: string, seriesId: string, occurrenceDate: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from("occurrence_settlements")
+      .delete()
+      .eq("user_id", userId)
+      .eq("series_id", seriesId)
+      .eq("occurrence_date", occurrenceDate)
+      .select("id");
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data || data.length === 0) {
+      throw new NotFoundError(`No settlement for entry series ${seriesId} on ${occurrenceDate}`);
+    }
+  }
+}
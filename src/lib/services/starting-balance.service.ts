@@ -8,26 +8,33 @@ import type { Database } from "../../db/database.types";
 import type {
   StartingBalanceDTO,
   UpsertStartingBalanceCommand,
+  BalanceCheckpointDTO,
+  BalanceCheckpointRow,
+  CreateBalanceCheckpointCommand,
+  UpdateBalanceCheckpointCommand,
 } from "../../types";
 
 // Type alias for Supabase client with database types
 type TypedSupabaseClient = SupabaseClient<Database>;
 
 /**
- * Get the starting balance for a user
+ * Get the starting balance of a wallet
  * @param supabase - Typed Supabase client
  * @param userId - User ID from authenticated session
+ * @param walletId - Wallet ID
  * @returns Starting balance or null if not found
  * @throws Error if database operation fails
  */
 export async function getStartingBalance(
   supabase: TypedSupabaseClient,
   userId: string,
+  walletId: string,
 ): Promise<StartingBalanceDTO | null> {
   const { data, error } = await supabase
     .from("starting_balances")
     .select("*")
     .eq("user_id", userId)
+    .eq("wallet_id", walletId)
     .single();
 
   if (error) {
@@ -42,9 +49,37 @@ export async function getStartingBalance(
 }
 
 /**
- * Create or update a starting balance for a user (upsert operation)
+ * Get the earliest starting balance across the wallets of a user
+ * (the first date anything is projected for)
  * @param supabase - Typed Supabase client
  * @param userId - User ID from authenticated session
+ * @returns Starting balance or null if no wallet has one
+ * @throws Error if database operation fails
+ */
+export async function getEarliestStartingBalance(
+  supabase: TypedSupabaseClient,
+  userId: string,
+): Promise<StartingBalanceDTO | null> {
+  const { data, error } = await supabase
+    .from("starting_balances")
+    .select("*")
+    .eq("user_id", userId)
+    .order("effective_date", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Create or update the starting balance of a wallet (upsert operation)
+ * @param supabase - Typed Supabase client
+ * @param userId - User ID from authenticated session
+ * @param walletId - Wallet ID
  * @param command - Command object with effective_date and amount
  * @returns Object containing the starting balance data and whether it was newly created
  * @throws Error if database operation fails
@@ -52,15 +87,17 @@ export async function getStartingBalance(
 export async function upsertStartingBalance(
   supabase: TypedSupabaseClient,
   userId: string,
+  walletId: string,
   command: UpsertStartingBalanceCommand,
 ): Promise<{ data: StartingBalanceDTO; isNew: boolean }> {
-  // First, check if a starting balance exists for this user
-  const existingBalance = await getStartingBalance(supabase, userId);
+  // First, check if a starting balance exists for this wallet
+  const existingBalance = await getStartingBalance(supabase, userId, walletId);
 
   // Prepare the data for upsert
   const now = new Date().toISOString();
   const upsertData = {
     user_id: userId,
+    wallet_id: walletId,
     effective_date: command.effective_date,
     amount: command.amount,
     updated_at: now,
@@ -71,7 +108,7 @@ export async function upsertStartingBalance(
   const { data, error } = await supabase
     .from("starting_balances")
     .upsert(upsertData, {
-      onConflict: "user_id",
+      onConflict: "wallet_id",
     })
     .select()
     .single();
@@ -91,20 +128,23 @@ export async function upsertStartingBalance(
 }
 
 /**
- * Delete the starting balance for a user
+ * Delete the starting balance of a wallet
  * @param supabase - Typed Supabase client
  * @param userId - User ID from authenticated session
+ * @param walletId - Wallet ID
  * @returns true if a record was deleted, false if no record existed
  * @throws Error if database operation fails
  */
 export async function deleteStartingBalance(
   supabase: TypedSupabaseClient,
   userId: string,
+  walletId: string,
 ): Promise<boolean> {
   const { data, error } = await supabase
     .from("starting_balances")
     .delete()
     .eq("user_id", userId)
+    .eq("wallet_id", walletId)
     .select();
 
   if (error) {
@@ -115,11 +155,213 @@ export async function deleteStartingBalance(
   return data !== null && data.length > 0;
 }
 
+/**
+ * Add predicted balance and drift (see balance_checkpoint_drift()) to checkpoint rows
+ * @param supabase - Typed Supabase client
+ * @param userId - User ID from authenticated session
+ * @param rows - Checkpoint rows of the user
+ * @returns Checkpoints with predicted balance and drift, in the order of rows
+ * @throws Error if database operation fails
+ */
+async function withDrift(
+  supabase: TypedSupabaseClient,
+  userId: string,
+  rows: BalanceCheckpointRow[],
+): Promise<BalanceCheckpointDTO[]> {
+  const { data, error } = await supabase.rpc("balance_checkpoint_drift", {
+    p_user_id: userId,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  // numeric columns may come as strings from PostgreSQL
+  const driftById = new Map(
+    (data ?? []).map((row) => [row.checkpoint_id, row]),
+  );
+
+  /* eslint-disable-next-line @typescript-eslint/no-unused-vars */
+  return rows.map(({ user_id: _, ...checkpoint }) => {
+    const drift = driftById.get(checkpoint.id);
+    return {
+      ...checkpoint,
+      amount: Number(checkpoint.amount),
+      predicted_balance:
+        drift?.predicted_balance == null
+          ? null
+          : Number(drift.predicted_balance),
+      drift: drift?.drift == null ? null : Number(drift.drift),
+    };
+  });
+}
+
+/**
+ * List the balance checkpoints of a wallet, oldest first, with their drift
+ * @param supabase - Typed Supabase client
+ * @param userId - User ID from authenticated session
+ * @param walletId - Wallet ID
+ * @returns Checkpoints with predicted balance and drift
+ * @throws Error if database operation fails
+ */
+export async function listBalanceCheckpoints(
+  supabase: TypedSupabaseClient,
+  userId: string,
+  walletId: string,
+): Promise<BalanceCheckpointDTO[]> {
+  const { data, error } = await supabase
+    .from("balance_checkpoints")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("wallet_id", walletId)
+    .order("checkpoint_date", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return withDrift(supabase, userId, data ?? []);
+}
+
+/**
+ * Record an observed balance of a wallet on a date
+ * @param supabase - Typed Supabase client
+ * @param userId - User ID from authenticated session
+ * @param walletId - Wallet ID
+ * @param command - Command object with checkpoint_date, amount and optional note
+ * @returns The created checkpoint with its drift
+ * @throws Error if database operation fails (code 23505 if the date already has a checkpoint)
+ */
+export async function createBalanceCheckpoint(
+  supabase: TypedSupabaseClient,
+  userId: string,
+  walletId: string,
+  command: CreateBalanceCheckpointCommand,
+): Promise<BalanceCheckpointDTO> {
+  const { data, error } = await supabase
+    .from("balance_checkpoints")
+    .insert({
+      user_id: userId,
+      wallet_id: walletId,
+      checkpoint_date: command.checkpoint_date,
+      amount: command.amount,
+      note: command.note || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  const [checkpoint] = await withDrift(supabase, userId, [data]);
+  return checkpoint;
+}
+
+/**
+ * Get the wallet a balance checkpoint belongs to
+ * @param supabase - Typed Supabase client
+ * @param userId - User ID from authenticated session
+ * @param id - Checkpoint ID
+ * @returns Wallet ID, or null if the checkpoint was not found
+ * @throws Error if database operation fails
+ */
+export async function getBalanceCheckpointWalletId(
+  supabase: TypedSupabaseClient,
+  userId: string,
+  id: string,
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("balance_checkpoints")
+    .select("wallet_id")
+    .eq("user_id", userId)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.wallet_id ?? null;
+}
+
+/**
+ * Update a balance checkpoint
+ * @param supabase - Typed Supabase client
+ * @param userId - User ID from authenticated session
+ * @param id - Checkpoint ID
+ * @param command - Command object with checkpoint_date, amount and optional note
+ * @returns The updated checkpoint with its drift, or null if not found
+ * @throws Error if database operation fails (code 23505 if the date already has a checkpoint)
+ */
+export async function updateBalanceCheckpoint(
+  supabase: TypedSupabaseClient,
+  userId: string,
+  id: string,
+  command: UpdateBalanceCheckpointCommand,
+): Promise<BalanceCheckpointDTO | null> {
+  const { data, error } = await supabase
+    .from("balance_checkpoints")
+    .update({
+      checkpoint_date: command.checkpoint_date,
+      amount: command.amount,
+      note: command.note || null,
+    })
+    .eq("user_id", userId)
+    .eq("id", id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const [checkpoint] = await withDrift(supabase, userId, [data]);
+  return checkpoint;
+}
+
+/**
+ * Delete a balance checkpoint
+ * @param supabase - Typed Supabase client
+ * @param userId - User ID from authenticated session
+ * @param id - Checkpoint ID
+ * @returns true if a record was deleted, false if no record existed
+ * @throws Error if database operation fails
+ */
+export async function deleteBalanceCheckpoint(
+  supabase: TypedSupabaseClient,
+  userId: string,
+  id: string,
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("balance_checkpoints")
+    .delete()
+    .eq("user_id", userId)
+    .eq("id", id)
+    .select();
+
+  if (error) {
+    throw error;
+  }
+
+  return data !== null && data.length > 0;
+}
+
 /**
  * Export service as object for easier mocking in tests
  */
 export const startingBalanceService = {
   getStartingBalance,
+  getEarliestStartingBalance,
   upsertStartingBalance,
   deleteStartingBalance,
+  listBalanceCheckpoints,
+  createBalanceCheckpoint,
+  getBalanceCheckpointWalletId,
+  updateBalanceCheckpoint,
+  deleteBalanceCheckpoint,
 };
@@ -0,0 +1,189 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addDays, format, parseISO } from "date-fns";
+import type { Database } from "@/db/database.types";
+import type {
+  CreateEntryCommand,
+  CSVImportCommand,
+  ParsedStatementDTO,
+  StatementFileFormat,
+  StatementFileImportCommand,
+  StatementFileImportResponseDTO,
+  StatementImportedEntryDTO,
+  StatementImportResponseDTO,
+  StatementSkippedRowDTO,
+  StatementTransactionDTO,
+} from "@/types";
+import { createEntrySchema } from "@/lib/validation/entries.validation";
+import { readCSVTransactions } from "@/lib/utils/bank-csv.utils";
+import { parseCamt053 } from "@/lib/utils/camt053.utils";
+import { parseMT940 } from "@/lib/utils/mt940.utils";
+import type { StatementParseResult } from "@/lib/utils/statement.utils";
+import { EntriesService } from "./entries.service";
+import { WalletsService } from "./wallets.service";
+import { startingBalanceService } from "./starting-balance.service";
+import { parseOFX } from "./ofx.service";
+import { parseQIF } from "./qif.service";
+
+// Define custom errors
+class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+const MAX_TITLE_LENGTH = 120;
+const MAX_DESCRIPTION_LENGTH = 500;
+const DEFAULT_TITLE = "Imported transaction";
+
+/**
+ * Builds the one-time entry of a statement transaction
+ * The title is the statement description, shortened to fit; the full text is then kept as the entry description
+ */
+export function statementTransactionToCommand(
+  transaction: StatementTransactionDTO,
+  walletId: string
+): CreateEntryCommand {
+  const text = transaction.description.trim();
+  const title = text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : text;
+
+  return {
+    entry_type: transaction.amount < 0 ? "expense" : "income",
+    recurrence_type: "one_time",
+    title: title || DEFAULT_TITLE,
+    description: text.length > MAX_TITLE_LENGTH ? text.slice(0, MAX_DESCRIPTION_LENGTH) : null,
+    amount: Math.abs(transaction.amount),
+    start_date: transaction.date,
+    end_date: null,
+    weekday: null,
+    day_of_month: null,
+    wallet_id: walletId,
+    ...(transaction.currency ? { currency: transaction.currency } : {}),
+  };
+}
+
+/**
+ * Creates a one-time entry for each statement transaction
+ * Transactions the entry validation rejects are reported in `skipped` with the reasons
+ * @param walletId - Wallet of the entries, the default wallet if omitted
+ * @throws NotFoundError if the wallet is not found
+ */
+export async function importStatementTransactions(
+  supabase: SupabaseClient,
+  userId: string,
+  transactions: StatementTransactionDTO[],
+  walletId?: string
+): Promise<StatementImportResponseDTO> {
+  // Resolved once, so an unknown wallet fails before anything is imported
+  const resolvedWalletId = await new WalletsService(supabase).resolveWalletId(userId, walletId);
+  const entriesService = new EntriesService(supabase);
+  const imported: StatementImportedEntryDTO[] = [];
+  const skipped: StatementSkippedRowDTO[] = [];
+
+  for (const transaction of transactions) {
+    const validation = createEntrySchema.safeParse(statementTransactionToCommand(transaction, resolvedWalletId));
+    if (!validation.success) {
+      skipped.push({
+        row: transaction.row,
+        reasons: validation.error.errors.map((err) =>
+          err.path.length > 0 ? `${err.path.join(".")}: ${err.message}` : err.message
+        ),
+      });
+      continue;
+    }
+
+    const series = await entriesService.create(userId, validation.data);
+    imported.push({ row: transaction.row, series_id: series.id, title: series.title });
+  }
+
+  return { imported, skipped };
+}
+
+/**
+ * Imports the transactions of a bank statement CSV file as one-time entries
+ * Rows that cannot be read with the mapping are reported in `skipped`; rows left out of `rows` are ignored
+ * @throws NotFoundError if the wallet is not found
+ */
+export async function importBankCSV(
+  supabase: SupabaseClient,
+  userId: string,
+  command: CSVImportCommand
+): Promise<StatementImportResponseDTO> {
+  const { transactions, errors } = readCSVTransactions(command.content, command.mapping);
+  const selectedRows = command.rows ? new Set(command.rows) : null;
+  const isSelected = (row: number) => !selectedRows || selectedRows.has(row);
+
+  const result = await importStatementTransactions(
+    supabase,
+    userId,
+    transactions.filter((transaction) => isSelected(transaction.row)),
+    command.wallet_id
+  );
+
+  const skipped = [...errors.filter((error) => isSelected(error.row)), ...result.skipped].sort((a, b) => a.row - b.row);
+  return { imported: result.imported, skipped };
+}
+
+/**
+ * Parses a camt.053, MT940, OFX/QFX or QIF statement file
+ * @returns The normalized statement, and the errors that reject the file (empty if it can be imported)
+ */
+export function parseStatementFile(format: StatementFileFormat, content: string): StatementParseResult {
+  switch (format) {
+    case "camt053":
+      return parseCamt053(content);
+    case "mt940":
+      return parseMT940(content);
+    case "ofx":
+      return parseOFX(content);
+    case "qif":
+      return parseQIF(content);
+  }
+}
+
+/**
+ * Imports the booked transactions of a parsed statement file as one-time entries
+ * With `starting_balance`, the wallet's starting balance is also set from the statement: the opening balance on its
+ * date, or the closing balance on the following day (the balance at the start of the day, as starting balances are)
+ * @throws NotFoundError if the wallet is not found
+ * @throws ConflictError if the statement balance is in another currency than the wallet
+ */
+export async function importStatementFile(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  statement: ParsedStatementDTO,
+  command: Omit<StatementFileImportCommand, "format" | "content">
+): Promise<StatementFileImportResponseDTO> {
+  const walletsService = new WalletsService(supabase);
+  const walletId = await walletsService.resolveWalletId(userId, command.wallet_id);
+
+  // Checked before anything is imported
+  const balance =
+    command.starting_balance === "opening"
+      ? statement.opening_balance
+      : command.starting_balance === "closing"
+        ? statement.closing_balance
+        : null;
+  if (balance) {
+    const wallet = await walletsService.findById(userId, walletId);
+    if (wallet && wallet.currency !== balance.currency) {
+      throw new ConflictError(
+        `The statement is in ${balance.currency} but the wallet "${wallet.name}" is in ${wallet.currency}`
+      );
+    }
+  }
+
+  const result = await importStatementTransactions(supabase, userId, statement.transactions, walletId);
+
+  if (!balance) {
+    return { ...result, starting_balance: null };
+  }
+
+  const effectiveDate =
+    command.starting_balance === "closing" ? format(addDays(parseISO(balance.date), 1), "yyyy-MM-dd") : balance.date;
+  const { data } = await startingBalanceService.upsertStartingBalance(supabase, userId, walletId, {
+    effective_date: effectiveDate,
+    amount: balance.amount,
+  });
+  return { ...result, starting_balance: data };
+}
@@ -0,0 +1,196 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type { TagDTO } from "../../types";
+import type { OccurrenceTagLookup } from "../utils/tag.utils";
+
+// Define custom errors
+class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * Service class for tags (vacation-2026, reimbursable...)
+ * Tags are created by set_series_tags / set_exception_tags when an entry first uses them
+ */
+export class TagsService {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  // Sorted by name
+  async findAll(userId: string): Promise<TagDTO[]> {
+    const { data, error } = await this.supabase
+      .from("tags")
+      .select("id, name")
+      .eq("user_id", userId)
+      .order("name", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Replaces the tags of an entry series
+   * @param names - Normalized tag names (see normalizeTagNames)
+   */
+  async setSeriesTags(seriesId: string, names: string[]): Promise<void> {
+    const { error } = await this.supabase.rpc("set_series_tags", { p_series_id: seriesId, p_names: names });
+
+    if (error) {
+      throw this.toTagError(error, `Entry series with id ${seriesId} not found`);
+    }
+  }
+
+  /**
+   * Replaces the tags of an override exception, so its occurrence no longer uses the series tags
+   * @param names - Normalized tag names; empty removes all tags from the occurrence
+   */
+  async setExceptionTags(exceptionId: string, names: string[]): Promise<void> {
+    const { error } = await this.supabase.rpc("set_exception_tags", { p_exception_id: exceptionId, p_names: names });
+
+    if (error) {
+      throw this.toTagError(error, `Override exception with id ${exceptionId} not found`);
+    }
+  }
+
+  /**
+   * Tag names of the user's series, keyed by series id (series without tags are left out)
+   * @param seriesIds - Optional series to restrict the lookup to
+   */
+  async findSeriesTags(userId: string, seriesIds?: string[]): Promise<Map<string, string[]>> {
+    let query = this.supabase.from("entry_series_tags").select("series_id, tag_id").eq("user_id", userId);
+
+    if (seriesIds) {
+      query = query.in("series_id", seriesIds);
+    }
+
+    const [tagNames, { data, error }] = await Promise.all([this.findTagNames(userId), query]);
+
+    if (error) {
+      throw error;
+    }
+
+    return groupTagNames(data || [], (link) => link.series_id, tagNames);
+  }
+
+  /**
+   * Tags of the series plus those of the override exceptions in the date range that replace them
+   * @param fromDate - Start of the range (exception date, inclusive)
+   * @param toDate - End of the range (exception date, inclusive)
+   */
+  async findOccurrenceTags(userId: string, fromDate: string, toDate: string): Promise<OccurrenceTagLookup> {
+    const [seriesTags, { data: exceptions, error }] = await Promise.all([
+      this.findSeriesTags(userId),
+      this.supabase
+        .from("series_exceptions")
+        .select("id, series_id, exception_date")
+        .eq("user_id", userId)
+        .eq("override_tags", true)
+        .is("scenario_id", null)
+        .gte("exception_date", fromDate)
+        .lte("exception_date", toDate),
+    ]);
+
+    if (error) {
+      throw error;
+    }
+
+    const overrideTags = new Map<string, string[]>();
+    if (!exceptions || exceptions.length === 0) {
+      return { seriesTags, overrideTags };
+    }
+
+    const [tagNames, { data: links, error: linksError }] = await Promise.all([
+      this.findTagNames(userId),
+      this.supabase
+        .from("series_exception_tags")
+        .select("exception_id, tag_id")
+        .in(
+          "exception_id",
+          exceptions.map((exception) => exception.id)
+        ),
+    ]);
+
+    if (linksError) {
+      throw linksError;
+    }
+
+    const tagsByException = groupTagNames(links || [], (link) => link.exception_id, tagNames);
+    for (const exception of exceptions) {
+      // An override without links replaces the series tags with none
+      overrideTags.set(`${exception.series_id}|${exception.exception_date}`, tagsByException.get(exception.id) ?? []);
+    }
+
+    return { seriesTags, overrideTags };
+  }
+
+  /**
+   * Ids of the series tagged with any of the names (empty if none of the tags exist)
+   */
+  async findSeriesIdsByTags(userId: string, names: string[]): Promise<string[]> {
+    const { data: tags, error } = await this.supabase.from("tags").select("id").eq("user_id", userId).in("name", names);
+
+    if (error) {
+      throw error;
+    }
+
+    if (!tags || tags.length === 0) {
+      return [];
+    }
+
+    const { data: links, error: linksError } = await this.supabase
+      .from("entry_series_tags")
+      .select("series_id")
+      .eq("user_id", userId)
+      .in(
+        "tag_id",
+        tags.map((tag) => tag.id)
+      );
+
+    if (linksError) {
+      throw linksError;
+    }
+
+    return [...new Set((links || []).map((link) => link.series_id))];
+  }
+
+  // Tag names keyed by tag id
+  private async findTagNames(userId: string): Promise<Map<string, string>> {
+    const tags = await this.findAll(userId);
+    return new Map(tags.map((tag) => [tag.id, tag.name]));
+  }
+
+  private toTagError<E extends { code: string; message: string }>(error: E, notFoundMessage: string): E | Error {
+    switch (error.code) {
+      case "P0002":
+        // Raised by set_series_tags / set_exception_tags
+        return new NotFoundError(notFoundMessage);
+      default:
+        return error;
+    }
+  }
+}
+
+// Groups tag links by owner into sorted tag names
+function groupTagNames<L extends { tag_id: string }>(
+  links: L[],
+  ownerId: (link: L) => string,
+  tagNames: Map<string, string>
+): Map<string, string[]> {
+  const grouped = new Map<string, string[]>();
+  for (const link of links) {
+    const name = tagNames.get(link.tag_id);
+    if (name === undefined) continue;
+    const names = grouped.get(ownerId(link)) ?? [];
+    names.push(name);
+    grouped.set(ownerId(link), names);
+  }
+  for (const names of grouped.values()) {
+    names.sort();
+  }
+  return grouped;
+}
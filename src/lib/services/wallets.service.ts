@@ -0,0 +1,205 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type { WalletDTO, WalletRow, CreateWalletCommand, UpdateWalletCommand } from "../../types";
+
+// Define custom errors
+class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+const WALLET_COLUMNS = "id, name, currency, is_default, created_at, updated_at";
+
+/**
+ * Service class for wallets (checking, savings, business accounts...)
+ * Every user has a default wallet, created on first use, which takes entries and balances
+ * saved without a wallet
+ */
+export class WalletsService {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  /**
+   * Returns the user's default wallet, creating it if the user has none yet
+   */
+  async getDefaultWalletId(userId: string): Promise<string> {
+    const { data, error } = await this.supabase.rpc("ensure_default_wallet", { p_user_id: userId });
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Returns the given wallet if it belongs to the user, or the default wallet if none is given
+   * @throws NotFoundError if the given wallet is not found
+   */
+  async resolveWalletId(userId: string, walletId?: string | null): Promise<string> {
+    if (!walletId) {
+      return this.getDefaultWalletId(userId);
+    }
+
+    const wallet = await this.findById(userId, walletId);
+    if (!wallet) {
+      throw new NotFoundError(`Wallet with id ${walletId} not found`);
+    }
+    return wallet.id;
+  }
+
+  private async withStartingBalances(userId: string, wallets: Omit<WalletRow, "user_id">[]): Promise<WalletDTO[]> {
+    const { data, error } = await this.supabase
+      .from("starting_balances")
+      .select("wallet_id, amount, effective_date")
+      .eq("user_id", userId)
+      .in(
+        "wallet_id",
+        wallets.map((wallet) => wallet.id)
+      );
+
+    if (error) {
+      throw error;
+    }
+
+    const balanceByWallet = new Map((data || []).map((balance) => [balance.wallet_id, balance]));
+    return wallets.map((wallet) => {
+      const balance = balanceByWallet.get(wallet.id);
+      return {
+        ...wallet,
+        starting_balance: balance ? { amount: Number(balance.amount), effective_date: balance.effective_date } : null,
+      };
+    });
+  }
+
+  // The default wallet comes first, then the others in creation order
+  async findAll(userId: string): Promise<WalletDTO[]> {
+    await this.getDefaultWalletId(userId);
+
+    const { data, error } = await this.supabase
+      .from("wallets")
+      .select(WALLET_COLUMNS)
+      .eq("user_id", userId)
+      .order("is_default", { ascending: false })
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return this.withStartingBalances(userId, data || []);
+  }
+
+  async findById(userId: string, id: string): Promise<WalletDTO | null> {
+    const { data, error } = await this.supabase
+      .from("wallets")
+      .select(WALLET_COLUMNS)
+      .eq("user_id", userId)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    const [wallet] = await this.withStartingBalances(userId, [data]);
+    return wallet;
+  }
+
+  async create(userId: string, command: CreateWalletCommand): Promise<WalletDTO> {
+    const { data, error } = await this.supabase
+      .from("wallets")
+      // Without a currency, the wallet takes the base currency (set_wallet_currency trigger)
+      .insert({ user_id: userId, name: command.name, currency: command.currency })
+      .select(WALLET_COLUMNS)
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        // unique_wallet_name
+        throw new ConflictError(`A wallet named "${command.name}" already exists`);
+      }
+      throw error;
+    }
+
+    if (command.starting_balance) {
+      const { error: balanceError } = await this.supabase.from("starting_balances").insert({
+        user_id: userId,
+        wallet_id: data.id,
+        effective_date: command.starting_balance.effective_date,
+        amount: command.starting_balance.amount,
+      });
+
+      if (balanceError) {
+        // Note: No rollback implemented; the wallet stays without a starting balance
+        throw balanceError;
+      }
+    }
+
+    return {
+      ...data,
+      starting_balance: command.starting_balance
+        ? { amount: command.starting_balance.amount, effective_date: command.starting_balance.effective_date }
+        : null,
+    };
+  }
+
+  async update(userId: string, id: string, command: UpdateWalletCommand): Promise<WalletDTO> {
+    const { data, error } = await this.supabase
+      .from("wallets")
+      .update({ name: command.name })
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select(WALLET_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === "23505") {
+        // unique_wallet_name
+        throw new ConflictError(`A wallet named "${command.name}" already exists`);
+      }
+      throw error;
+    }
+
+    if (!data) {
+      throw new NotFoundError(`Wallet with id ${id} not found`);
+    }
+
+    const [wallet] = await this.withStartingBalances(userId, [data]);
+    return wallet;
+  }
+
+  // Deleting a wallet cascades to its starting balance and checkpoints; entries must be moved first
+  async delete(userId: string, id: string): Promise<void> {
+    const wallet = await this.findById(userId, id);
+    if (!wallet) {
+      throw new NotFoundError(`Wallet with id ${id} not found`);
+    }
+
+    if (wallet.is_default) {
+      throw new ConflictError("The default wallet cannot be deleted");
+    }
+
+    const { error } = await this.supabase.from("wallets").delete().eq("user_id", userId).eq("id", id);
+
+    if (error) {
+      if (error.code === "23503") {
+        // entry_series_wallet_id_fkey or entry_series_target_wallet_id_fkey
+        throw new ConflictError("Wallet still has entries or transfers into it; move or delete them first");
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,368 @@
+/**
+ * Bank statement CSV utilities
+ * Reads the transactions of a CSV statement with a column mapping; shared by the import wizard preview and
+ * POST /api/import/csv
+ */
+
+import type {
+  BankCSVFormat,
+  CSVColumnMapping,
+  CSVDateFormat,
+  CSVSignConvention,
+  StatementSkippedRowDTO,
+  StatementTransactionDTO,
+} from "../../types";
+
+export const CSV_DELIMITERS = [",", ";", "\t"] as const satisfies readonly CSVColumnMapping["delimiter"][];
+export const CSV_DATE_FORMATS = [
+  "YYYY-MM-DD",
+  "DD.MM.YYYY",
+  "DD-MM-YYYY",
+  "DD/MM/YYYY",
+  "MM/DD/YYYY",
+] as const satisfies readonly CSVDateFormat[];
+export const CSV_SIGN_CONVENTIONS = [
+  "negative_is_expense",
+  "positive_is_expense",
+  "debit_credit",
+] as const satisfies readonly CSVSignConvention[];
+
+export const BANK_CSV_FORMAT_NAMES: Record<BankCSVFormat, string> = {
+  mbank: "mBank",
+  pko_bp: "PKO BP",
+  ing: "ING Bank Śląski",
+};
+
+// Banks put an account summary above the column headers; look this far for them
+const MAX_PREAMBLE_ROWS = 40;
+
+/**
+ * Splits CSV content into records of fields (RFC 4180: quoted fields may contain delimiters, doubled quotes
+ * and line breaks)
+ */
+export function parseCSVRecords(content: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  // Skip the byte order mark some banks write
+  const text = content.startsWith("\uFEFF") ? content.slice(1) : content;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
+
+/**
+ * Guesses the delimiter from the first lines: the candidate splitting them into the most fields
+ */
+export function detectCSVDelimiter(content: string): CSVColumnMapping["delimiter"] {
+  const lines = content.split(/\r?\n/).slice(0, MAX_PREAMBLE_ROWS);
+  let best: CSVColumnMapping["delimiter"] = ",";
+  let bestCount = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const count = Math.max(0, ...lines.map((line) => parseCSVRecords(line, delimiter)[0]?.length ?? 0));
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// Header cells compared case-insensitively, without the "#" mBank puts in front of them
+const normalizeHeader = (cell: string) => cell.trim().replace(/^#/, "").trim().toLowerCase();
+
+interface BankCSVSignature {
+  format: BankCSVFormat;
+  delimiter: CSVColumnMapping["delimiter"];
+  // Headers that identify the bank's column header row
+  headers: string[];
+  buildMapping: (headers: string[], skipRows: number) => CSVColumnMapping;
+}
+
+const BANK_CSV_SIGNATURES: BankCSVSignature[] = [
+  {
+    // #Data operacji;#Opis operacji;#Rachunek;#Kategoria;#Kwota;#Saldo po operacji (amounts like "-1 234,56 PLN")
+    format: "mbank",
+    delimiter: ";",
+    headers: ["data operacji", "opis operacji", "kwota"],
+    buildMapping: (headers, skipRows) => ({
+      delimiter: ";",
+      skip_rows: skipRows,
+      date_column: headers.indexOf("data operacji"),
+      date_format: "YYYY-MM-DD",
+      amount_column: headers.indexOf("kwota"),
+      debit_column: null,
+      sign_convention: "negative_is_expense",
+      decimal_separator: ",",
+      // Older exports split the description into title and counterparty
+      description_columns: ["opis operacji", "tytuł", "nadawca/odbiorca"]
+        .map((name) => headers.indexOf(name))
+        .filter((index) => index >= 0),
+      currency_column: null,
+    }),
+  },
+  {
+    // "Data operacji","Data waluty","Typ transakcji","Kwota","Waluta","Saldo po transakcji","Opis transakcji","",...
+    format: "pko_bp",
+    delimiter: ",",
+    headers: ["data operacji", "typ transakcji", "kwota", "waluta", "opis transakcji"],
+    buildMapping: (headers, skipRows) => {
+      // The details ("Tytuł: ...", "Nazwa odbiorcy: ...") follow in columns without a header
+      const descriptionColumn = headers.indexOf("opis transakcji");
+      const detailColumns = headers
+        .map((header, index) => (index > descriptionColumn && header === "" ? index : -1))
+        .filter((index) => index >= 0);
+      return {
+        delimiter: ",",
+        skip_rows: skipRows,
+        date_column: headers.indexOf("data operacji"),
+        date_format: "YYYY-MM-DD",
+        amount_column: headers.indexOf("kwota"),
+        debit_column: null,
+        sign_convention: "negative_is_expense",
+        decimal_separator: ".",
+        description_columns: [descriptionColumn, ...detailColumns],
+        currency_column: headers.indexOf("waluta"),
+      };
+    },
+  },
+  {
+    // "Data transakcji";"Data księgowania";"Dane kontrahenta";"Tytuł";...;"Kwota transakcji (waluta rachunku)";"Waluta";...
+    format: "ing",
+    delimiter: ";",
+    headers: ["data transakcji", "dane kontrahenta", "tytuł", "kwota transakcji (waluta rachunku)"],
+    buildMapping: (headers, skipRows) => {
+      const amountColumn = headers.indexOf("kwota transakcji (waluta rachunku)");
+      return {
+        delimiter: ";",
+        skip_rows: skipRows,
+        date_column: headers.indexOf("data transakcji"),
+        date_format: "YYYY-MM-DD",
+        amount_column: amountColumn,
+        debit_column: null,
+        sign_convention: "negative_is_expense",
+        decimal_separator: ",",
+        description_columns: [headers.indexOf("dane kontrahenta"), headers.indexOf("tytuł")],
+        // Each amount column is followed by its currency
+        currency_column: headers.indexOf("waluta", amountColumn),
+      };
+    },
+  },
+];
+
+/**
+ * Recognizes the CSV statements of mBank, PKO BP and ING by their column headers
+ * @returns The bank and the mapping of its statement, or null for other files
+ */
+export function detectBankCSVFormat(content: string): { format: BankCSVFormat; mapping: CSVColumnMapping } | null {
+  for (const signature of BANK_CSV_SIGNATURES) {
+    const records = parseCSVRecords(content, signature.delimiter).slice(0, MAX_PREAMBLE_ROWS);
+    const headerIndex = records.findIndex((record) => {
+      const headers = record.map(normalizeHeader);
+      return signature.headers.every((header) => headers.includes(header));
+    });
+    if (headerIndex >= 0) {
+      const headers = records[headerIndex].map(normalizeHeader);
+      return { format: signature.format, mapping: signature.buildMapping(headers, headerIndex + 1) };
+    }
+  }
+  return null;
+}
+
+/**
+ * A starting mapping for an unrecognized file: a header row, then date, amount and description
+ */
+export function defaultCSVMapping(content: string): CSVColumnMapping {
+  return {
+    delimiter: detectCSVDelimiter(content),
+    skip_rows: 1,
+    date_column: 0,
+    date_format: "YYYY-MM-DD",
+    amount_column: 1,
+    debit_column: null,
+    sign_convention: "negative_is_expense",
+    decimal_separator: ".",
+    description_columns: [2],
+    currency_column: null,
+  };
+}
+
+const DATE_PATTERNS: Record<
+  CSVDateFormat,
+  { pattern: RegExp; order: ["y" | "m" | "d", "y" | "m" | "d", "y" | "m" | "d"] }
+> = {
+  "YYYY-MM-DD": { pattern: /^(\d{4})-(\d{1,2})-(\d{1,2})$/, order: ["y", "m", "d"] },
+  "DD.MM.YYYY": { pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/, order: ["d", "m", "y"] },
+  "DD-MM-YYYY": { pattern: /^(\d{1,2})-(\d{1,2})-(\d{4})$/, order: ["d", "m", "y"] },
+  "DD/MM/YYYY": { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: ["d", "m", "y"] },
+  "MM/DD/YYYY": { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: ["m", "d", "y"] },
+};
+
+/**
+ * Parses a statement date; a time after the date is ignored
+ * @returns The date in YYYY-MM-DD format, or null if it does not match the format or does not exist
+ */
+export function parseStatementDate(value: string, format: CSVDateFormat): string | null {
+  const { pattern, order } = DATE_PATTERNS[format];
+  const match = pattern.exec(value.trim().split(/\s+/)[0] ?? "");
+  if (!match) return null;
+
+  const parts = { y: 0, m: 0, d: 0 };
+  order.forEach((part, index) => {
+    parts[part] = Number(match[index + 1]);
+  });
+
+  const date = new Date(Date.UTC(parts.y, parts.m - 1, parts.d));
+  if (date.getUTCFullYear() !== parts.y || date.getUTCMonth() !== parts.m - 1 || date.getUTCDate() !== parts.d) {
+    return null;
+  }
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Parses a statement amount such as "-1 234,56 PLN" or "+1,234.56"
+ * Spaces and the other separator are taken for thousands separators; a currency code is ignored
+ * @returns The signed amount, or null if the value is not a number
+ */
+export function parseStatementAmount(value: string, decimalSeparator: "." | ","): number | null {
+  const thousandsSeparator = decimalSeparator === "," ? "." : ",";
+  const normalized = value
+    .replace(/[A-Za-z]{3}/g, "")
+    .replace(/[\s']/g, "")
+    .split(thousandsSeparator)
+    .join("")
+    .replace(decimalSeparator, ".");
+
+  if (!/^[+-]?(\d+(\.\d*)?|\.\d+)$/.test(normalized)) return null;
+  return Number(normalized);
+}
+
+/**
+ * Reads the transactions of a CSV statement
+ * Rows are numbered from 1 in file order (skipped rows included); blank rows are ignored
+ * @returns The transactions and the rows that could not be read, with the reasons
+ */
+export function readCSVTransactions(
+  content: string,
+  mapping: CSVColumnMapping
+): { transactions: StatementTransactionDTO[]; errors: StatementSkippedRowDTO[] } {
+  const records = parseCSVRecords(content, mapping.delimiter);
+  const transactions: StatementTransactionDTO[] = [];
+  const errors: StatementSkippedRowDTO[] = [];
+
+  records.forEach((record, index) => {
+    if (index < mapping.skip_rows || record.every((cell) => cell.trim() === "")) return;
+
+    const row = index + 1;
+    const reasons: string[] = [];
+    const cell = (column: number) => (record[column] ?? "").trim();
+
+    const rawDate = cell(mapping.date_column);
+    const date = parseStatementDate(rawDate, mapping.date_format);
+    if (!date) {
+      reasons.push(rawDate ? `Date "${rawDate}" does not match ${mapping.date_format}` : "Date is empty");
+    }
+
+    const amount = readAmount(cell(mapping.amount_column), mapping, cell, reasons);
+
+    const rawCurrency = mapping.currency_column !== null ? cell(mapping.currency_column).toUpperCase() : "";
+    if (rawCurrency && !/^[A-Z]{3}$/.test(rawCurrency)) {
+      reasons.push(`Currency "${rawCurrency}" is not a 3-letter code`);
+    }
+
+    if (reasons.length > 0 || !date || amount === null) {
+      errors.push({ row, reasons });
+      return;
+    }
+
+    transactions.push({
+      row,
+      date,
+      amount,
+      description: mapping.description_columns
+        .map(cell)
+        .filter((part) => part !== "")
+        .join(" · ")
+        .replace(/\s+/g, " "),
+      currency: rawCurrency || null,
+    });
+  });
+
+  return { transactions, errors };
+}
+
+// Reads the signed amount of a row according to the sign convention
+function readAmount(
+  rawAmount: string,
+  mapping: CSVColumnMapping,
+  cell: (column: number) => string,
+  reasons: string[]
+): number | null {
+  let amount: number | null;
+  if (mapping.sign_convention === "debit_credit" && mapping.debit_column !== null) {
+    const rawDebit = cell(mapping.debit_column);
+    const credit = rawAmount ? parseStatementAmount(rawAmount, mapping.decimal_separator) : 0;
+    const debit = rawDebit ? parseStatementAmount(rawDebit, mapping.decimal_separator) : 0;
+    if (!rawAmount && !rawDebit) {
+      reasons.push("Amount is empty");
+      return null;
+    }
+    if (credit === null || debit === null) {
+      reasons.push(`Amount "${credit === null ? rawAmount : rawDebit}" is not a number`);
+      return null;
+    }
+    // Some banks write debits as negative numbers in the debit column too
+    amount = Math.abs(credit) - Math.abs(debit);
+  } else {
+    if (!rawAmount) {
+      reasons.push("Amount is empty");
+      return null;
+    }
+    amount = parseStatementAmount(rawAmount, mapping.decimal_separator);
+    if (amount === null) {
+      reasons.push(`Amount "${rawAmount}" is not a number`);
+      return null;
+    }
+    if (mapping.sign_convention === "positive_is_expense") {
+      amount = -amount;
+    }
+  }
+
+  if (amount === 0) {
+    reasons.push("Amount is zero");
+    return null;
+  }
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,85 @@
+/**
+ * Budget utilities
+ * Compares monthly budgets with the month's planned expenses
+ */
+
+import { endOfMonth, format, parseISO } from "date-fns";
+import type { BudgetDTO, BudgetStatusDTO, CategoryDTO, TagDTO } from "../../types";
+import { categorySubtreeIds } from "./category.utils";
+
+/**
+ * An expense occurrence of the month, converted into the base currency
+ */
+export interface BudgetExpense {
+  category_id: string | null;
+  tags: string[]; // Tag names
+  amount: number; // The actual amount if settled
+  settled: boolean;
+}
+
+/**
+ * First and last day of a month
+ * @param month - Month in YYYY-MM format
+ * @returns Dates in YYYY-MM-DD format
+ */
+export function monthDateRange(month: string): { from_date: string; to_date: string } {
+  return {
+    from_date: `${month}-01`,
+    to_date: format(endOfMonth(parseISO(`${month}-01`)), "yyyy-MM-dd"),
+  };
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Sums each budget's expenses: those of its category and the category's subcategories, or those with its tag
+ * @param budgets - The user's budgets
+ * @param categories - All of the user's categories
+ * @param expenses - Expense occurrences of the month (transfers and income left out)
+ * @param tags - All of the user's tags, to match tag budgets by name
+ * @returns One status per budget, the largest share of its budget planned first
+ */
+export function summarizeBudgets(
+  budgets: Pick<BudgetDTO, "id" | "category_id" | "tag_id" | "amount">[],
+  categories: Pick<CategoryDTO, "id" | "parent_id">[],
+  expenses: BudgetExpense[],
+  tags: TagDTO[] = []
+): BudgetStatusDTO[] {
+  const tagNameById = new Map(tags.map((tag) => [tag.id, tag.name]));
+
+  const statuses = budgets.map((budget) => {
+    let matches: (expense: BudgetExpense) => boolean;
+    if (budget.category_id !== null) {
+      const categoryIds = new Set(categorySubtreeIds(categories, budget.category_id));
+      matches = (expense) => expense.category_id !== null && categoryIds.has(expense.category_id);
+    } else {
+      const tagName = budget.tag_id !== null ? tagNameById.get(budget.tag_id) : undefined;
+      matches = (expense) => tagName !== undefined && expense.tags.includes(tagName);
+    }
+
+    let planned = 0;
+    let spent = 0;
+    for (const expense of expenses) {
+      if (!matches(expense)) continue;
+      planned += expense.amount;
+      if (expense.settled) {
+        spent += expense.amount;
+      }
+    }
+
+    const budgeted = Number(budget.amount);
+    planned = roundCents(planned);
+    return {
+      budget_id: budget.id,
+      category_id: budget.category_id,
+      tag_id: budget.tag_id,
+      budgeted,
+      planned,
+      spent: roundCents(spent),
+      remaining: roundCents(budgeted - planned),
+      overspend: roundCents(Math.max(0, planned - budgeted)),
+    };
+  });
+
+  return statuses.sort((a, b) => b.planned / b.budgeted - a.planned / a.budgeted);
+}
@@ -0,0 +1,179 @@
+/**
+ * ISO 20022 camt.053 utilities
+ * Reads the booked entries and balances of a BankToCustomerStatement (any camt.053.001 version)
+ */
+
+import type { StatementBalanceDTO, StatementLineErrorDTO, StatementTransactionDTO } from "../../types";
+import { parseStatementDate } from "./bank-csv.utils";
+import { mergeStatementSections } from "./statement.utils";
+import type { StatementParseResult, StatementSection } from "./statement.utils";
+import { findChild, findChildren, parseXML } from "./xml.utils";
+import type { XMLElement } from "./xml.utils";
+
+// Balance type codes: opening booked, previously closed booked (used as opening by some banks), closing booked
+const OPENING_BALANCE_CODES = ["OPBD", "PRCD"];
+const CLOSING_BALANCE_CODE = "CLBD";
+
+/**
+ * Parses a camt.053 statement file
+ * Only booked entries are read (pending and information-only entries are left out); credits are positive and debits
+ * negative. Missing or malformed fields are reported with the line of their element.
+ */
+export function parseCamt053(content: string): StatementParseResult {
+  const errors: StatementLineErrorDTO[] = [];
+  const empty = { account: null, opening_balance: null, closing_balance: null, transactions: [] };
+
+  const { root, error } = parseXML(content);
+  if (error) {
+    return { statement: empty, errors: [{ line: error.line, message: `Invalid XML: ${error.message}` }] };
+  }
+
+  const namespaces = Object.entries(root.attributes)
+    .filter(([name]) => name === "xmlns" || name.startsWith("xmlns:"))
+    .map(([, value]) => value);
+  if (root.name !== "Document" || !namespaces.some((namespace) => namespace.includes("camt.053"))) {
+    return {
+      statement: empty,
+      errors: [{ line: root.line, message: "Not a camt.053 document: expected a Document in a camt.053 namespace" }],
+    };
+  }
+
+  const statements = findChildren(findChild(root, "BkToCstmrStmt"), "Stmt");
+  if (statements.length === 0) {
+    return { statement: empty, errors: [{ line: root.line, message: "The document contains no statement (Stmt)" }] };
+  }
+
+  const sections = statements.map((stmt) => readStatement(stmt, errors));
+  const statement = mergeStatementSections(sections, errors);
+  return { statement, errors };
+}
+
+function readStatement(stmt: XMLElement, errors: StatementLineErrorDTO[]): StatementSection {
+  const account = findChild(stmt, "Acct", "Id", "IBAN")?.text ?? findChild(stmt, "Acct", "Id", "Othr", "Id")?.text;
+
+  let opening: StatementBalanceDTO | null = null;
+  let closing: StatementBalanceDTO | null = null;
+  let closingLine = stmt.line;
+  for (const balance of findChildren(stmt, "Bal")) {
+    const code =
+      findChild(balance, "Tp", "CdOrPrtry", "Cd")?.text ?? findChild(balance, "Tp", "CdOrPrtry", "Prtry")?.text;
+    if (!code) {
+      errors.push({ line: balance.line, message: "Balance type (Tp/CdOrPrtry) is missing" });
+    } else if (OPENING_BALANCE_CODES.includes(code) && !opening) {
+      opening = readBalance(balance, errors);
+    } else if (code === CLOSING_BALANCE_CODE) {
+      closing = readBalance(balance, errors);
+      closingLine = balance.line;
+    }
+  }
+
+  const transactions: StatementTransactionDTO[] = [];
+  for (const entry of findChildren(stmt, "Ntry")) {
+    const status = findChild(entry, "Sts", "Cd")?.text ?? findChild(entry, "Sts")?.text;
+    if (!status) {
+      errors.push({ line: entry.line, message: "Entry status (Sts) is missing" });
+      continue;
+    }
+    if (status !== "BOOK") continue;
+
+    const amount = readSignedAmount(entry, errors);
+    const date = readDate(findChild(entry, "BookgDt") ?? findChild(entry, "ValDt"), entry.line, "Booking date", errors);
+    if (!amount || !date) continue;
+
+    transactions.push({
+      row: entry.line,
+      date,
+      amount: amount.amount,
+      description: describeEntry(entry, amount.amount > 0),
+      currency: amount.currency,
+    });
+  }
+
+  return {
+    account: account ?? null,
+    opening_balance: opening,
+    closing_balance: closing,
+    closing_line: closingLine,
+    transactions,
+  };
+}
+
+function readBalance(balance: XMLElement, errors: StatementLineErrorDTO[]): StatementBalanceDTO | null {
+  const amount = readSignedAmount(balance, errors);
+  const date = readDate(findChild(balance, "Dt"), balance.line, "Balance date", errors);
+  return amount && date ? { date, amount: amount.amount, currency: amount.currency } : null;
+}
+
+// Reads Amt (with its Ccy) and CdtDbtInd of an entry or balance
+function readSignedAmount(
+  element: XMLElement,
+  errors: StatementLineErrorDTO[]
+): { amount: number; currency: string } | null {
+  const amount = findChild(element, "Amt");
+  const indicator = findChild(element, "CdtDbtInd");
+  let valid = true;
+
+  if (!amount) {
+    errors.push({ line: element.line, message: "Amount (Amt) is missing" });
+    valid = false;
+  } else {
+    if (!/^\d{1,18}(\.\d{1,5})?$/.test(amount.text)) {
+      errors.push({ line: amount.line, message: `Amount "${amount.text}" is not a valid amount` });
+      valid = false;
+    }
+    if (!/^[A-Z]{3}$/.test(amount.attributes.Ccy ?? "")) {
+      errors.push({ line: amount.line, message: "Amount currency (Ccy) is missing or invalid" });
+      valid = false;
+    }
+  }
+
+  if (!indicator || (indicator.text !== "CRDT" && indicator.text !== "DBIT")) {
+    errors.push({
+      line: indicator?.line ?? element.line,
+      message: indicator ? `Credit/debit indicator "${indicator.text}" must be CRDT or DBIT` : "CdtDbtInd is missing",
+    });
+    valid = false;
+  }
+
+  if (!valid || !amount || !indicator) return null;
+  const value = Number(amount.text);
+  return { amount: indicator.text === "DBIT" ? -value : value, currency: amount.attributes.Ccy };
+}
+
+// Reads a Dt or DtTm choice; a date-time keeps the bank's local date
+function readDate(
+  element: XMLElement | undefined,
+  line: number,
+  label: string,
+  errors: StatementLineErrorDTO[]
+): string | null {
+  const value = findChild(element, "Dt")?.text ?? findChild(element, "DtTm")?.text.slice(0, 10);
+  if (!value) {
+    errors.push({ line: element?.line ?? line, message: `${label} is missing` });
+    return null;
+  }
+  const date = parseStatementDate(value, "YYYY-MM-DD");
+  if (!date) {
+    errors.push({ line: element?.line ?? line, message: `${label} "${value}" is not a valid date` });
+  }
+  return date;
+}
+
+// The counterparty and remittance information of the (first) transaction, or the entry's additional information
+function describeEntry(entry: XMLElement, isCredit: boolean): string {
+  const details = findChild(entry, "NtryDtls", "TxDtls");
+  // The other party: the debtor of a credit, the creditor of a debit
+  const party = isCredit ? "Dbtr" : "Cdtr";
+  const name =
+    findChild(details, "RltdPties", party, "Nm")?.text ?? findChild(details, "RltdPties", party, "Pty", "Nm")?.text;
+  const remittance =
+    findChildren(findChild(details, "RmtInf"), "Ustrd")
+      .map((line) => line.text)
+      .join(" ") || findChild(details, "RmtInf", "Strd", "CdtrRefInf", "Ref")?.text;
+
+  const parts = [name, remittance].filter((part): part is string => !!part);
+  if (parts.length === 0) {
+    parts.push(findChild(details, "AddtlTxInf")?.text ?? findChild(entry, "AddtlNtryInf")?.text ?? "");
+  }
+  return parts.join(" · ").replace(/\s+/g, " ").trim();
+}
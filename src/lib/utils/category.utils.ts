@@ -0,0 +1,130 @@
+/**
+ * Category utilities
+ * Walks the category tree for filters, pickers and breakdowns
+ */
+
+import type { CategoryDTO, CategoryTotalDTO } from "../../types";
+
+/**
+ * Colour of categories created without one (mirrors the column default)
+ */
+export const DEFAULT_CATEGORY_COLOR = "#64748b";
+
+/**
+ * Icons a category can show next to its name
+ */
+export const CATEGORY_ICONS = [
+  "house",
+  "shopping-cart",
+  "utensils",
+  "coffee",
+  "car",
+  "bus",
+  "plane",
+  "heart-pulse",
+  "dumbbell",
+  "graduation-cap",
+  "baby",
+  "dog",
+  "shirt",
+  "film",
+  "gift",
+  "smartphone",
+  "zap",
+  "wrench",
+  "receipt",
+  "landmark",
+  "briefcase",
+  "piggy-bank",
+] as const;
+
+export type CategoryIcon = (typeof CATEGORY_ICONS)[number];
+
+type CategoryNode = Pick<CategoryDTO, "id" | "parent_id">;
+
+/**
+ * Ids of a category and all of its subcategories, at any depth
+ * @param categories - All of the user's categories
+ * @param categoryId - Root of the subtree
+ * @returns Empty if the category does not exist
+ */
+export function categorySubtreeIds(categories: CategoryNode[], categoryId: string): string[] {
+  if (!categories.some((category) => category.id === categoryId)) {
+    return [];
+  }
+
+  const ids = [categoryId];
+  // The loop also visits the ids pushed while it runs
+  for (const id of ids) {
+    for (const category of categories) {
+      if (category.parent_id === id) {
+        ids.push(category.id);
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Categories in tree order (each parent followed by its subcategories, siblings by name) with their depth
+ * @param categories - All of the user's categories
+ */
+export function flattenCategoryTree<T extends CategoryNode & { name: string }>(
+  categories: T[]
+): { category: T; depth: number }[] {
+  const byName = [...categories].sort((a, b) => a.name.localeCompare(b.name));
+  const result: { category: T; depth: number }[] = [];
+
+  const visit = (parentId: string | null, depth: number) => {
+    for (const category of byName) {
+      if (category.parent_id === parentId) {
+        result.push({ category, depth });
+        visit(category.id, depth + 1);
+      }
+    }
+  };
+  visit(null, 0);
+
+  return result;
+}
+
+/**
+ * Sums category totals into their top-level categories
+ * Totals of unknown categories are counted as uncategorized (category_id null)
+ * @param categories - All of the user's categories
+ * @param totals - Totals per category, e.g. ProjectionDTO.category_breakdown
+ * @returns Totals per top-level category, largest expense first, uncategorized last
+ */
+export function rollUpCategoryTotals(categories: CategoryNode[], totals: CategoryTotalDTO[]): CategoryTotalDTO[] {
+  const parentById = new Map(categories.map((category) => [category.id, category.parent_id]));
+
+  const rootOf = (categoryId: string | null): string | null => {
+    if (categoryId === null || !parentById.has(categoryId)) {
+      return null;
+    }
+
+    let id = categoryId;
+    let parentId = parentById.get(id);
+    while (parentId && parentById.has(parentId)) {
+      id = parentId;
+      parentId = parentById.get(id);
+    }
+    return id;
+  };
+
+  const totalsByRoot = new Map<string | null, CategoryTotalDTO>();
+  for (const total of totals) {
+    const rootId = rootOf(total.category_id);
+    const sum = totalsByRoot.get(rootId) ?? { category_id: rootId, total_income: 0, total_expense: 0 };
+    sum.total_income = Math.round((sum.total_income + total.total_income) * 100) / 100;
+    sum.total_expense = Math.round((sum.total_expense + total.total_expense) * 100) / 100;
+    totalsByRoot.set(rootId, sum);
+  }
+
+  return [...totalsByRoot.values()].sort((a, b) => {
+    if (a.category_id === null || b.category_id === null) {
+      return a.category_id === null ? 1 : -1;
+    }
+    return b.total_expense - a.total_expense || b.total_income - a.total_income;
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * Currency conversion utilities
+ * Converts amounts into the base currency using the user's exchange rates
+ */
+
+import type { ExchangeRateDTO } from "../../types";
+
+/**
+ * Converts amounts into the user's base currency, mirroring the exchange_rate() database function
+ */
+export interface CurrencyConverter {
+  baseCurrency: string;
+  /**
+   * @param amount - Amount in currency
+   * @param currency - ISO 4217 code of amount
+   * @param date - Date whose rate applies (YYYY-MM-DD)
+   * @returns Amount in the base currency, rounded to cents
+   * @throws Error if there is no rate for the currency
+   */
+  toBase: (amount: number, currency: string, date: string) => number;
+}
+
+/**
+ * Creates a converter from the user's dated rates (base currency units per unit of currency)
+ * A rate applies from its date until the next one; dates before the first rate use the first rate.
+ * Rates for the base currency are ignored, its rate is always 1.
+ * @param baseCurrency - ISO 4217 code of the base currency
+ * @param rates - Exchange rates in any order
+ */
+export function createCurrencyConverter(
+  baseCurrency: string,
+  rates: Pick<ExchangeRateDTO, "currency" | "rate_date" | "rate">[]
+): CurrencyConverter {
+  // Rates per currency, oldest first
+  const ratesByCurrency = new Map<string, { rate_date: string; rate: number }[]>();
+  for (const { currency, rate_date, rate } of rates) {
+    const list = ratesByCurrency.get(currency) ?? [];
+    list.push({ rate_date, rate: Number(rate) });
+    ratesByCurrency.set(currency, list);
+  }
+  for (const list of ratesByCurrency.values()) {
+    list.sort((a, b) => a.rate_date.localeCompare(b.rate_date));
+  }
+
+  const rateOn = (currency: string, date: string): number => {
+    if (currency === baseCurrency) {
+      return 1;
+    }
+
+    const list = ratesByCurrency.get(currency);
+    if (!list || list.length === 0) {
+      throw new Error(`No exchange rate for ${currency} to ${baseCurrency}`);
+    }
+
+    let rate = list[0].rate;
+    for (const entry of list) {
+      if (entry.rate_date > date) break;
+      rate = entry.rate;
+    }
+    return rate;
+  };
+
+  return {
+    baseCurrency,
+    toBase: (amount, currency, date) => Math.round(amount * rateOn(currency, date) * 100) / 100,
+  };
+}
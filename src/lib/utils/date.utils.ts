@@ -0,0 +1,54 @@
+/**
+ * Date utilities
+ * Works out "today" in the user's time zone and the projection horizon that follows from it
+ */
+
+import { addYears, format, parseISO } from "date-fns";
+
+/**
+ * The time zone used before it became a preference (mirrors the column default)
+ */
+export const DEFAULT_TIME_ZONE = "Europe/Warsaw";
+
+// How far into the future projections may reach
+export const MAX_PROJECTION_YEARS = 10;
+
+/**
+ * Checks whether a time zone is an IANA name (e.g. "Europe/Warsaw") that this runtime knows
+ * @param timeZone - Time zone name to check
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The calendar date in a time zone at a given instant
+ * @param timeZone - IANA time zone name
+ * @param now - Instant to convert (default: the current time)
+ * @returns Date in YYYY-MM-DD format
+ */
+export function todayInTimeZone(timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value;
+
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+/**
+ * The latest date projections may reach
+ * @param today - The user's current date (YYYY-MM-DD)
+ * @returns Date MAX_PROJECTION_YEARS after today (YYYY-MM-DD); Feb 29 becomes Feb 28
+ */
+export function maxProjectionDate(today: string): string {
+  return format(addYears(parseISO(today), MAX_PROJECTION_YEARS), "yyyy-MM-dd");
+}
@@ -0,0 +1,96 @@
+/**
+ * Formatting utilities
+ * Formats amounts and dates according to the user's formatting preferences
+ */
+
+import { format, parseISO } from "date-fns";
+import type { UserPreferencesDTO } from "../../types";
+
+// These must match the check constraints on user_preferences
+export const CURRENCY_DISPLAYS = ["symbol", "narrowSymbol", "code"] as const;
+export const DATE_FORMATS = [
+  "MMM d, yyyy",
+  "d MMM yyyy",
+  "dd.MM.yyyy",
+  "dd/MM/yyyy",
+  "MM/dd/yyyy",
+  "yyyy-MM-dd",
+] as const;
+
+export type FormatPreferences = Pick<
+  UserPreferencesDTO,
+  "currency_display" | "number_locale" | "date_format" | "week_starts_on"
+>;
+
+/**
+ * The formatting used before it became a preference (mirrors the column defaults)
+ */
+export const DEFAULT_FORMAT_PREFERENCES: FormatPreferences = {
+  currency_display: "symbol",
+  number_locale: "pl-PL",
+  date_format: "MMM d, yyyy",
+  week_starts_on: 0,
+};
+
+export type WeekDay = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * Formats values for display, following one user's preferences
+ */
+export interface Formatter {
+  /**
+   * @param amount - Amount in currency
+   * @param currency - ISO 4217 code of amount
+   * @returns e.g. "1 234,50 zł" for pl-PL
+   */
+  currency: (amount: number, currency: string) => string;
+  /**
+   * @param amount - Any number
+   * @returns The amount with 2 decimals and the locale's decimal separator, without grouping (e.g. "-1234,50")
+   */
+  number: (amount: number) => string;
+  /**
+   * @param date - Date, or a YYYY-MM-DD string (read as a local date, not UTC midnight)
+   * @returns The date in the user's date format
+   */
+  date: (date: Date | string) => string;
+  weekStartsOn: WeekDay; // 0 = Sunday
+}
+
+/**
+ * Creates a formatter for the given preferences
+ * Missing preferences fall back to the defaults
+ * @param preferences - The user's formatting preferences
+ */
+export function createFormatter(preferences: Partial<FormatPreferences> = {}): Formatter {
+  const { currency_display, number_locale, date_format, week_starts_on } = {
+    ...DEFAULT_FORMAT_PREFERENCES,
+    ...preferences,
+  };
+
+  // One Intl.NumberFormat per currency, as creating them is comparatively slow
+  const currencyFormats = new Map<string, Intl.NumberFormat>();
+  const numberFormat = new Intl.NumberFormat(number_locale, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+    useGrouping: false,
+  });
+
+  return {
+    currency: (amount, currency) => {
+      let currencyFormat = currencyFormats.get(currency);
+      if (!currencyFormat) {
+        currencyFormat = new Intl.NumberFormat(number_locale, {
+          style: "currency",
+          currency,
+          currencyDisplay: currency_display as (typeof CURRENCY_DISPLAYS)[number],
+        });
+        currencyFormats.set(currency, currencyFormat);
+      }
+      return currencyFormat.format(amount);
+    },
+    number: (amount) => numberFormat.format(amount),
+    date: (date) => format(typeof date === "string" ? parseISO(date) : date, date_format),
+    weekStartsOn: week_starts_on as WeekDay,
+  };
+}
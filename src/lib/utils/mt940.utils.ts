@@ -0,0 +1,261 @@
+/**
+ * SWIFT MT940 utilities
+ * Reads the statement lines and balances of an MT940 file, with or without the SWIFT envelope ({1:...}{4:...-})
+ */
+
+import type { StatementBalanceDTO, StatementLineErrorDTO, StatementTransactionDTO } from "../../types";
+import { parseStatementDate } from "./bank-csv.utils";
+import { mergeStatementSections } from "./statement.utils";
+import type { StatementParseResult, StatementSection } from "./statement.utils";
+
+interface MT940Field {
+  tag: string;
+  lines: string[];
+  line: number; // 1-based line of the tag
+}
+
+// Fields that carry nothing the import needs
+const IGNORED_TAGS = new Set(["20", "21", "13D", "28", "28C", "34F", "64", "65", "90C", "90D", "NS"]);
+
+// :60F:/:62F: balances, e.g. C261001PLN1234,56
+const BALANCE_PATTERN = /^([CD])(\d{6})([A-Z]{3})(\d{1,12},\d{0,2})$/;
+
+// :61: statement line: value date, entry date (MMDD), mark (RC/RD are reversals), funds code, amount, type, references
+const STATEMENT_LINE_PATTERN = /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d{1,12},\d{0,2})([NSF][A-Z0-9]{3})(.*)$/;
+
+// :86: subfields of a structured description ("~20Invoice 1~32ACME"): remittance text and counterparty name
+const PURPOSE_SUBFIELDS = ["20", "21", "22", "23", "24", "25", "26", "27", "28", "29", "60", "61", "62", "63"];
+const NAME_SUBFIELDS = ["32", "33"];
+
+const parseAmount = (value: string) => Number(value.replace(",", "."));
+
+// YYMMDD; years before 80 are in the 2000s
+function parseShortDate(value: string): string | null {
+  const year = Number(value.slice(0, 2));
+  return parseStatementDate(
+    `${year < 80 ? 2000 + year : 1900 + year}-${value.slice(2, 4)}-${value.slice(4, 6)}`,
+    "YYYY-MM-DD"
+  );
+}
+
+/**
+ * Parses an MT940 statement file
+ * Each message (ended by "-") is one statement; credits are positive and debits negative, reversals flip the mark.
+ * Transactions are dated with their entry (booking) date when the file gives one, otherwise the value date.
+ * Malformed fields are reported with their line.
+ */
+export function parseMT940(content: string): StatementParseResult {
+  const errors: StatementLineErrorDTO[] = [];
+  const messages: MT940Field[][] = [];
+  let fields: MT940Field[] = [];
+
+  const endMessage = () => {
+    if (fields.length > 0) messages.push(fields);
+    fields = [];
+  };
+
+  const lines = (content.startsWith("\uFEFF") ? content.slice(1) : content).split(/\r?\n/);
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    let text = rawLine.trimEnd();
+
+    // SWIFT envelope: basic, application and user header blocks, then the text block {4:
+    if (text.startsWith("{")) {
+      const textBlock = text.indexOf("{4:");
+      if (textBlock === -1) return;
+      text = text.slice(textBlock + 3);
+    }
+    if (text === "") return;
+    if (text === "-" || text.startsWith("-}")) {
+      endMessage();
+      return;
+    }
+
+    const match = /^:(\d{2}[A-Z]?|NS):(.*)$/.exec(text);
+    if (match) {
+      fields.push({ tag: match[1], lines: [match[2]], line: lineNumber });
+    } else if (fields.length > 0) {
+      fields[fields.length - 1].lines.push(text);
+    } else {
+      errors.push({ line: lineNumber, message: "Text outside a field (fields start with a tag such as :61:)" });
+    }
+  });
+  endMessage();
+
+  if (messages.length === 0) {
+    return {
+      statement: { account: null, opening_balance: null, closing_balance: null, transactions: [] },
+      errors: errors.length > 0 ? errors : [{ line: 1, message: "The file contains no MT940 statement" }],
+    };
+  }
+
+  const sections = messages.map((message) => readMessage(message, errors));
+  const statement = mergeStatementSections(sections, errors);
+  return { statement, errors };
+}
+
+function readMessage(fields: MT940Field[], errors: StatementLineErrorDTO[]): StatementSection {
+  let account: string | null = null;
+  let opening: StatementBalanceDTO | null = null;
+  let closing: StatementBalanceDTO | null = null;
+  let closingLine = fields[fields.length - 1].line;
+  let hasOpening = false;
+  let hasClosing = false;
+  const transactions: StatementTransactionDTO[] = [];
+  // The :61: a following :86: describes
+  let lastTransaction: { transaction: StatementTransactionDTO; fallback: string } | null = null;
+
+  for (const field of fields) {
+    const value = field.lines[0].trim();
+
+    switch (field.tag) {
+      case "25":
+        account = value.replace(/^\//, "") || null;
+        break;
+      case "60F":
+      case "60M":
+        hasOpening = true;
+        opening = readBalance(field, "Opening balance", errors);
+        break;
+      case "62F":
+      case "62M":
+        hasClosing = true;
+        closingLine = field.line;
+        closing = readBalance(field, "Closing balance", errors);
+        break;
+      case "61": {
+        lastTransaction = null;
+        if (!hasOpening) {
+          errors.push({ line: field.line, message: "Statement line (:61:) before the opening balance (:60F:)" });
+          break;
+        }
+        const parsed = readStatementLine(field, opening?.currency ?? null, errors);
+        if (parsed) {
+          transactions.push(parsed.transaction);
+          lastTransaction = parsed;
+        }
+        break;
+      }
+      case "86":
+        // Information about the account rather than a transaction is left out
+        if (lastTransaction) {
+          lastTransaction.transaction.description = describeTransaction(field.lines) || lastTransaction.fallback;
+          lastTransaction = null;
+        }
+        break;
+      default:
+        if (!IGNORED_TAGS.has(field.tag)) {
+          errors.push({ line: field.line, message: `Unknown field :${field.tag}:` });
+        }
+    }
+    if (field.tag !== "61" && field.tag !== "86") {
+      lastTransaction = null;
+    }
+  }
+
+  if (!hasOpening) {
+    errors.push({ line: fields[0].line, message: "Opening balance (:60F:) is missing" });
+  }
+  if (!hasClosing) {
+    errors.push({ line: closingLine, message: "Closing balance (:62F:) is missing" });
+  }
+
+  return { account, opening_balance: opening, closing_balance: closing, closing_line: closingLine, transactions };
+}
+
+function readBalance(field: MT940Field, label: string, errors: StatementLineErrorDTO[]): StatementBalanceDTO | null {
+  const value = field.lines.join("").trim();
+  const match = BALANCE_PATTERN.exec(value);
+  if (!match) {
+    errors.push({ line: field.line, message: `${label} "${value}" must look like C261001PLN1234,56` });
+    return null;
+  }
+
+  const date = parseShortDate(match[2]);
+  if (!date) {
+    errors.push({ line: field.line, message: `${label} date "${match[2]}" is not a valid YYMMDD date` });
+    return null;
+  }
+
+  const amount = parseAmount(match[4]);
+  return { date, amount: match[1] === "D" ? -amount : amount, currency: match[3] };
+}
+
+function readStatementLine(
+  field: MT940Field,
+  currency: string | null,
+  errors: StatementLineErrorDTO[]
+): { transaction: StatementTransactionDTO; fallback: string } | null {
+  const match = STATEMENT_LINE_PATTERN.exec(field.lines[0].trim());
+  if (!match) {
+    errors.push({
+      line: field.line,
+      message: `Statement line "${field.lines[0].trim()}" must look like 2610051005D123,45NTRFNONREF`,
+    });
+    return null;
+  }
+
+  const [, valueDate, entryDate, mark, , rawAmount, , references] = match;
+  const date = parseShortDate(valueDate);
+  if (!date) {
+    errors.push({ line: field.line, message: `Value date "${valueDate}" is not a valid YYMMDD date` });
+    return null;
+  }
+
+  let bookingDate = date;
+  if (entryDate) {
+    // The entry date has no year: take the value date's, unless that puts it more than half a year away
+    const [year, month] = date.split("-").map(Number);
+    const entryMonth = Number(entryDate.slice(0, 2));
+    const entryYear = entryMonth - month > 6 ? year - 1 : month - entryMonth > 6 ? year + 1 : year;
+    const parsed = parseStatementDate(`${entryYear}-${entryDate.slice(0, 2)}-${entryDate.slice(2, 4)}`, "YYYY-MM-DD");
+    if (!parsed) {
+      errors.push({ line: field.line, message: `Entry date "${entryDate}" is not a valid MMDD date` });
+      return null;
+    }
+    bookingDate = parsed;
+  }
+
+  // C and RD (reversal of a debit) add to the balance, D and RC take from it
+  const amount = parseAmount(rawAmount);
+  const customerReference = references.split("//")[0].trim();
+  const fallback = [field.lines[1]?.trim(), customerReference !== "NONREF" ? customerReference : ""].find(
+    (text) => !!text
+  );
+
+  return {
+    transaction: {
+      row: field.line,
+      date: bookingDate,
+      amount: mark === "C" || mark === "RD" ? amount : -amount,
+      description: fallback ?? "",
+      currency,
+    },
+    fallback: fallback ?? "",
+  };
+}
+
+// A :86: text: "name · remittance" from a structured field, otherwise the free text
+function describeTransaction(lines: string[]): string {
+  const structured = /^\d{3}([~?^])/.exec(lines[0]);
+  if (!structured) {
+    return lines.join(" ").replace(/\s+/g, " ").trim();
+  }
+
+  // Subfields may wrap onto the next line in the middle of their text
+  const subfields = new Map<string, string>();
+  for (const part of lines.join("").split(structured[1]).slice(1)) {
+    const code = part.slice(0, 2);
+    subfields.set(code, (subfields.get(code) ?? "") + part.slice(2));
+  }
+  const join = (codes: string[]) =>
+    codes
+      .map((code) => subfields.get(code) ?? "")
+      .join("")
+      .trim();
+
+  return [join(NAME_SUBFIELDS), join(PURPOSE_SUBFIELDS)]
+    .filter((part) => part !== "")
+    .join(" · ")
+    .replace(/\s+/g, " ");
+}
@@ -0,0 +1,85 @@
+/**
+ * Statement file utilities
+ * Shared by the statement file parsers (camt.053, MT940, OFX and QIF)
+ */
+
+import type {
+  ParsedStatementDTO,
+  StatementBalanceDTO,
+  StatementLineErrorDTO,
+  StatementTransactionDTO,
+} from "../../types";
+
+/**
+ * A parsed statement file; the file is rejected if there are any errors
+ */
+export interface StatementParseResult {
+  statement: ParsedStatementDTO;
+  errors: StatementLineErrorDTO[];
+}
+
+/**
+ * One statement (camt.053 Stmt, MT940 message, OFX statement or QIF account) of a file, before the statements are merged
+ */
+export interface StatementSection {
+  account: string | null;
+  opening_balance: StatementBalanceDTO | null;
+  closing_balance: StatementBalanceDTO | null;
+  closing_line: number;
+  transactions: StatementTransactionDTO[];
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Merges the statements of a file, checking that each one adds up: the opening balance plus the transactions must
+ * equal the closing balance
+ * @param errors - Receives the statements that do not add up or that cover another account
+ */
+export function mergeStatementSections(
+  sections: StatementSection[],
+  errors: StatementLineErrorDTO[]
+): ParsedStatementDTO {
+  for (const section of sections) {
+    if (!section.opening_balance || !section.closing_balance) continue;
+
+    const expected =
+      toCents(section.opening_balance.amount) +
+      section.transactions.reduce((sum, transaction) => sum + toCents(transaction.amount), 0);
+    if (expected !== toCents(section.closing_balance.amount)) {
+      errors.push({
+        line: section.closing_line,
+        message: `Closing balance ${section.closing_balance.amount.toFixed(2)} does not match the opening balance plus the transactions (${(expected / 100).toFixed(2)})`,
+      });
+    }
+  }
+
+  const account = sections.find((section) => section.account)?.account ?? null;
+  for (const section of sections) {
+    if (section.account && section.account !== account) {
+      errors.push({
+        line: section.closing_line,
+        message: `The file mixes statements of accounts ${account} and ${section.account}`,
+      });
+    }
+  }
+
+  return {
+    account,
+    opening_balance: sections[0]?.opening_balance ?? null,
+    closing_balance: sections[sections.length - 1]?.closing_balance ?? null,
+    transactions: sections.flatMap((section) => section.transactions),
+  };
+}
+
+/**
+ * Error details of a rejected statement file, keyed "line N" (several errors on a line are joined)
+ */
+export function formatStatementErrors(errors: StatementLineErrorDTO[]): Record<string, string> {
+  const details: Record<string, string> = {};
+  for (const error of [...errors].sort((a, b) => a.line - b.line)) {
+    const key = `line ${error.line}`;
+    details[key] = details[key] ? `${details[key]}; ${error.message}` : error.message;
+  }
+  return details;
+}
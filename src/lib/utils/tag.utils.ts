@@ -0,0 +1,53 @@
+/**
+ * Tag utilities
+ * Normalizes free-form tag names for storage, filters and form input
+ */
+
+/**
+ * Longest tag name (mirrors the tags.name check)
+ */
+export const MAX_TAG_LENGTH = 50;
+
+/**
+ * Most tags an entry or occurrence can carry
+ */
+export const MAX_TAGS_PER_ENTRY = 20;
+
+/**
+ * Normalizes a tag name: trimmed, inner whitespace collapsed and lowercase, so "Tax  Deductible" and
+ * "tax deductible" are the same tag
+ */
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Normalized tag names without blanks and duplicates, sorted
+ */
+export function normalizeTagNames(names: string[]): string[] {
+  return [...new Set(names.map(normalizeTagName).filter((name) => name !== ""))].sort();
+}
+
+/**
+ * Splits a comma-separated list of tags (a query parameter or form input)
+ * @returns Normalized tag names, sorted
+ */
+export function parseTagList(value: string): string[] {
+  return normalizeTagNames(value.split(","));
+}
+
+/**
+ * Tags of the series and of the override exceptions that replace them (see TagsService.findOccurrenceTags)
+ */
+export interface OccurrenceTagLookup {
+  seriesTags: Map<string, string[]>; // By series id
+  overrideTags: Map<string, string[]>; // By "series_id|exception_date"
+}
+
+/**
+ * Tags of one occurrence: the override's own tags if it replaces them, otherwise the series tags
+ * (an override's occurrence date is its exception date)
+ */
+export function resolveOccurrenceTags(lookup: OccurrenceTagLookup, seriesId: string, date: string): string[] {
+  return lookup.overrideTags.get(`${seriesId}|${date}`) ?? lookup.seriesTags.get(seriesId) ?? [];
+}
@@ -0,0 +1,151 @@
+/**
+ * XML utilities
+ * A small non-validating XML reader for bank statement files; it keeps the line of each element for error messages
+ */
+
+/**
+ * Parsed XML element; namespace prefixes are dropped from names
+ */
+export interface XMLElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XMLElement[];
+  text: string; // Text content of the element itself, trimmed
+  line: number; // 1-based line of the start tag
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+// Sticky, so a start tag is matched in place without copying the rest of the document
+const START_TAG = /<([A-Za-z_][\w.:-]*)((?:\s+[A-Za-z_][\w.:-]*\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+
+const localName = (name: string) => name.slice(name.indexOf(":") + 1);
+
+/**
+ * Replaces character and predefined entity references (&amp;, &#233;...)
+ * @returns The decoded text, or undefined if a reference is unknown
+ */
+export function decodeEntities(value: string): string | undefined {
+  let unknown = false;
+  const decoded = value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (reference: string, name: string) => {
+    if (name.startsWith("#x")) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith("#")) return String.fromCodePoint(parseInt(name.slice(1), 10));
+    if (name in ENTITIES) return ENTITIES[name];
+    unknown = true;
+    return reference;
+  });
+  return unknown ? undefined : decoded;
+}
+
+/**
+ * Parses an XML document
+ * Comments, processing instructions and the doctype are skipped; CDATA sections are read as text
+ * @returns The root element, or the line and reason of the first syntax error
+ */
+export function parseXML(
+  content: string
+): { root: XMLElement; error: null } | { root: null; error: { line: number; message: string } } {
+  const stack: XMLElement[] = [];
+  let root: XMLElement | null = null;
+  let line = 1;
+  let index = content.startsWith("\uFEFF") ? 1 : 0;
+
+  const fail = (message: string, at = line) => ({ root: null, error: { line: at, message } }) as const;
+  const advance = (to: number) => {
+    for (let i = index; i < to; i++) {
+      if (content[i] === "\n") line++;
+    }
+    index = to;
+  };
+
+  while (index < content.length) {
+    const tagStart = content.indexOf("<", index);
+    const textEnd = tagStart === -1 ? content.length : tagStart;
+    const text = content.slice(index, textEnd);
+
+    if (text.trim() !== "") {
+      const parent = stack[stack.length - 1];
+      if (!parent) return fail("Text outside the root element");
+      const decoded = decodeEntities(text);
+      if (decoded === undefined) return fail("Unknown entity reference");
+      parent.text += decoded;
+    }
+    advance(textEnd);
+    if (tagStart === -1) break;
+
+    if (content.startsWith("<!--", index)) {
+      const end = content.indexOf("-->", index);
+      if (end === -1) return fail("Unterminated comment");
+      advance(end + 3);
+    } else if (content.startsWith("<![CDATA[", index)) {
+      const end = content.indexOf("]]>", index);
+      if (end === -1) return fail("Unterminated CDATA section");
+      const parent = stack[stack.length - 1];
+      if (!parent) return fail("CDATA outside the root element");
+      parent.text += content.slice(index + 9, end);
+      advance(end + 3);
+    } else if (content.startsWith("<?", index) || content.startsWith("<!", index)) {
+      const end = content.indexOf(">", index);
+      if (end === -1) return fail("Unterminated declaration");
+      advance(end + 1);
+    } else if (content.startsWith("</", index)) {
+      const end = content.indexOf(">", index);
+      if (end === -1) return fail("Unterminated end tag");
+      const name = localName(content.slice(index + 2, end).trim());
+      const element = stack.pop();
+      if (!element || element.name !== name) {
+        return fail(element ? `Expected </${element.name}> but found </${name}>` : `Unexpected </${name}>`);
+      }
+      element.text = element.text.trim();
+      advance(end + 1);
+    } else {
+      START_TAG.lastIndex = index;
+      const match = START_TAG.exec(content);
+      if (!match) return fail("Malformed start tag");
+
+      const attributes: Record<string, string> = {};
+      for (const [, name, double, single] of match[2].matchAll(/([A-Za-z_][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        const value = decodeEntities(double ?? single);
+        if (value === undefined) return fail("Unknown entity reference");
+        attributes[name] = value;
+      }
+
+      const element: XMLElement = { name: localName(match[1]), attributes, children: [], text: "", line };
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        parent.children.push(element);
+      } else if (root) {
+        return fail("More than one root element");
+      } else {
+        root = element;
+      }
+      if (match[3] !== "/") stack.push(element);
+      advance(index + match[0].length);
+    }
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1];
+    return fail(`<${open.name}> is not closed`, open.line);
+  }
+  if (!root) return fail("The document has no root element");
+  return { root, error: null };
+}
+
+/**
+ * The first child with the given local name, following a path of names ("Bal", "Tp", "CdOrPrtry")
+ */
+export function findChild(element: XMLElement | undefined, ...path: string[]): XMLElement | undefined {
+  let current = element;
+  for (const name of path) {
+    current = current?.children.find((child) => child.name === name);
+  }
+  return current;
+}
+
+/**
+ * All children with the given local name
+ */
+export function findChildren(element: XMLElement | undefined, name: string): XMLElement[] {
+  return element?.children.filter((child) => child.name === name) ?? [];
+}
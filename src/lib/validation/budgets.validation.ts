@@ -0,0 +1,58 @@
+/**
+ * Validation schemas for Budget endpoints
+ * Uses Zod for runtime type checking and validation
+ */
+
+import { z } from "zod";
+
+// Largest amount that fits numeric(12,2)
+const MAX_AMOUNT = 9999999999.99;
+
+/**
+ * Validation schema for CreateBudgetCommand
+ * Used to validate POST /api/budgets request body
+ * A budget caps either a category or a tag
+ */
+export const createBudgetSchema = z
+  .object({
+    category_id: z
+      .string({ invalid_type_error: "Category must be a string" })
+      .uuid("Category must be a valid UUID")
+      .nullable()
+      .optional(),
+    tag_id: z
+      .string({ invalid_type_error: "Tag must be a string" })
+      .uuid("Tag must be a valid UUID")
+      .nullable()
+      .optional(),
+    amount: z
+      .number({
+        required_error: "Amount is required",
+        invalid_type_error: "Amount must be a number",
+      })
+      .positive("Amount must be greater than 0")
+      .max(MAX_AMOUNT, "Amount is too large")
+      .refine((val) => Math.abs(val * 100 - Math.round(val * 100)) < 1e-6, {
+        message: "Amount must have at most 2 decimal places",
+      }),
+  })
+  .refine((command) => (command.category_id == null) !== (command.tag_id == null), {
+    message: "Select either a category or a tag",
+    path: ["category_id"],
+  });
+
+/**
+ * Validation schema for UpdateBudgetCommand
+ * Used to validate PUT /api/budgets/:id request body
+ */
+export const updateBudgetSchema = createBudgetSchema;
+
+/**
+ * Validation schema for GET /api/budgets/summary query parameters
+ */
+export const getBudgetSummaryQuerySchema = z.object({
+  month: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Invalid month format. Expected YYYY-MM")
+    .optional(),
+});
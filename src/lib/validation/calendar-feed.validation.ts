@@ -0,0 +1,12 @@
+/**
+ * Calendar Feed Validation Schemas
+ * Handles validation for subscribable calendar feed URLs
+ */
+
+import { z } from "zod";
+
+/**
+ * Validation schema for the token in GET /api/feeds/{token}.ics
+ * Tokens are 32 random bytes encoded as unpadded base64url (43 characters)
+ */
+export const calendarFeedTokenSchema = z.string().regex(/^[A-Za-z0-9_-]{43}$/, "Invalid calendar feed token");
@@ -0,0 +1,40 @@
+/**
+ * Validation schemas for Category endpoints
+ * Uses Zod for runtime type checking and validation
+ */
+
+import { z } from "zod";
+import { CATEGORY_ICONS, DEFAULT_CATEGORY_COLOR } from "../utils/category.utils";
+
+/**
+ * Validation schema for CreateCategoryCommand
+ * Used to validate POST /api/categories request body
+ */
+export const createCategorySchema = z.object({
+  name: z
+    .string({
+      required_error: "Name is required",
+      invalid_type_error: "Name must be a string",
+    })
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name must be at most 100 characters"),
+  parent_id: z.string().uuid("Parent must be a valid UUID").nullable().default(null),
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex colour such as #64748b")
+    .transform((value) => value.toLowerCase())
+    .default(DEFAULT_CATEGORY_COLOR),
+  icon: z
+    .enum(CATEGORY_ICONS, {
+      errorMap: () => ({ message: `Icon must be one of: ${CATEGORY_ICONS.join(", ")}` }),
+    })
+    .nullable()
+    .default(null),
+});
+
+/**
+ * Validation schema for UpdateCategoryCommand
+ * Used to validate PUT /api/categories/:id request body
+ */
+export const updateCategorySchema = createCategorySchema;
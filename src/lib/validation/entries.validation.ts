@@ -6,10 +6,33 @@ import type {
   UpdateEntryQueryParams,
   DeleteEntryQueryParams,
 } from "../../types";
+import { currencyCodeSchema } from "./exchange-rates.validation";
+import { tagListQuerySchema, tagNamesSchema } from "./tags.validation";
 
 // Define enums for Zod (matching types.ts)
-const EntryTypeEnum = z.enum(["income", "expense"]);
-const RecurrenceTypeEnum = z.enum(["one_time", "weekly", "monthly"]);
+const EntryTypeEnum = z.enum(["income", "expense", "transfer"]);
+const RecurrenceTypeEnum = z.enum([
+  "one_time",
+  "weekly",
+  "monthly",
+  "quarterly",
+  "yearly",
+]);
+const MonthlyAnchorEnum = z.enum([
+  "day_of_month",
+  "nth_weekday",
+  "last_weekday",
+  "last_day",
+]);
+const BusinessDayConventionEnum = z.enum([
+  "none",
+  "previous",
+  "next",
+  "nearest",
+]);
+const HolidayCalendarEnum = z.enum(["PL"]);
+
+const MONTH_BASED_RECURRENCE_TYPES = ["monthly", "quarterly", "yearly"];
 
 // Base schema for entry commands (create and update share the same structure)
 const entryCommandBase = z.object({
@@ -27,30 +50,105 @@ const entryCommandBase = z.object({
     .regex(/^\d{4}-\d{2}-\d{2}$/, "end_date must be YYYY-MM-DD")
     .nullable()
     .transform((val) => (val ? new Date(val) : null)),
+  occurrence_count: z.number().int().min(1).max(1000).nullable().default(null),
   weekday: z.number().int().min(0).max(6).nullable(),
+  weekdays: z
+    .array(z.number().int().min(0).max(6))
+    .min(1)
+    .max(7)
+    .nullable()
+    .default(null),
   day_of_month: z.number().int().min(1).max(31).nullable(),
+  days_of_month: z
+    .array(z.number().int().min(1).max(31))
+    .min(1)
+    .max(31)
+    .nullable()
+    .default(null),
+  monthly_anchor: MonthlyAnchorEnum.default("day_of_month"),
+  week_of_month: z.number().int().min(1).max(4).nullable().default(null),
+  business_day_convention: BusinessDayConventionEnum.default("none"),
+  holiday_calendar: HolidayCalendarEnum.default("PL"),
+  recurrence_interval: z.number().int().min(1).max(52).default(1),
+  // Omitted: the default wallet on create, unchanged on update
+  wallet_id: z.string().uuid("wallet_id must be a valid UUID").optional(),
+  // Wallet credited by a transfer; the transfer debits wallet_id
+  target_wallet_id: z
+    .string()
+    .uuid("target_wallet_id must be a valid UUID")
+    .nullable()
+    .default(null),
+  // Omitted: the wallet's currency on create, unchanged on update
+  currency: currencyCodeSchema.optional(),
+  category_id: z
+    .string()
+    .uuid("category_id must be a valid UUID")
+    .nullable()
+    .default(null),
+  // Omitted: no tags on create, unchanged on update
+  tags: tagNamesSchema.optional(),
 });
 
 // Refinement for date range: end_date >= start_date
-const entryCommandWithDateRefine = entryCommandBase.refine(
-  (data) => !data.end_date || data.end_date >= data.start_date,
-  {
+const entryCommandWithDateRefine = entryCommandBase
+  .refine((data) => !data.end_date || data.end_date >= data.start_date, {
     message: "end_date must be greater than or equal to start_date",
     path: ["end_date"],
-  },
-);
+  })
+  // The end of a count-bounded series is derived by the database
+  .refine((data) => !data.end_date || data.occurrence_count === null, {
+    message: "Provide either end_date or occurrence_count, not both",
+    path: ["occurrence_count"],
+  })
+  .refine(
+    (data) =>
+      data.recurrence_type !== "one_time" || data.occurrence_count === null,
+    {
+      message: "occurrence_count is only supported for recurring entries",
+      path: ["occurrence_count"],
+    },
+  );
 
 export const createEntrySchema = entryCommandWithDateRefine
   .refine(
     (data) => {
-      const { recurrence_type, weekday, day_of_month } = data;
+      const { recurrence_type, weekday, day_of_month, week_of_month } = data;
       switch (recurrence_type) {
         case "one_time":
           return weekday === null && day_of_month === null;
         case "weekly":
           return weekday !== null && day_of_month === null;
         case "monthly":
-          return weekday === null && day_of_month !== null;
+        case "quarterly":
+        case "yearly":
+          switch (data.monthly_anchor) {
+            case "day_of_month":
+              return (
+                weekday === null &&
+                day_of_month !== null &&
+                week_of_month === null
+              );
+            case "nth_weekday":
+              return (
+                weekday !== null &&
+                day_of_month === null &&
+                week_of_month !== null
+              );
+            case "last_weekday":
+              return (
+                weekday !== null &&
+                day_of_month === null &&
+                week_of_month === null
+              );
+            case "last_day":
+              return (
+                weekday === null &&
+                day_of_month === null &&
+                week_of_month === null
+              );
+            default:
+              return false;
+          }
         default:
           return false;
       }
@@ -61,6 +159,67 @@ export const createEntrySchema = entryCommandWithDateRefine
       path: ["recurrence_type"],
     },
   )
+  .refine(
+    (data) =>
+      MONTH_BASED_RECURRENCE_TYPES.includes(data.recurrence_type) ||
+      (data.monthly_anchor === "day_of_month" && data.week_of_month === null),
+    {
+      message:
+        "monthly_anchor is only supported for monthly, quarterly and yearly entries",
+      path: ["monthly_anchor"],
+    },
+  )
+  .refine(
+    (data) =>
+      data.weekdays === null ||
+      (data.recurrence_type === "weekly" &&
+        data.weekday !== null &&
+        data.weekdays.includes(data.weekday)),
+    {
+      message:
+        "weekdays is only supported for weekly entries and must include weekday",
+      path: ["weekdays"],
+    },
+  )
+  .refine(
+    (data) =>
+      data.days_of_month === null ||
+      (MONTH_BASED_RECURRENCE_TYPES.includes(data.recurrence_type) &&
+        data.monthly_anchor === "day_of_month" &&
+        data.day_of_month !== null &&
+        data.days_of_month.includes(data.day_of_month)),
+    {
+      message:
+        "days_of_month is only supported for the day_of_month anchor and must include day_of_month",
+      path: ["days_of_month"],
+    },
+  )
+  .refine(
+    (data) =>
+      data.recurrence_type !== "one_time" || data.recurrence_interval === 1,
+    {
+      message: "recurrence_interval must be 1 for one_time entries",
+      path: ["recurrence_interval"],
+    },
+  )
+  .refine(
+    (data) =>
+      (data.entry_type === "transfer") === (data.target_wallet_id !== null),
+    {
+      message:
+        "target_wallet_id is required for transfers and only supported for them",
+      path: ["target_wallet_id"],
+    },
+  )
+  .refine(
+    (data) =>
+      data.target_wallet_id === null ||
+      data.target_wallet_id !== data.wallet_id,
+    {
+      message: "A transfer must go to a different wallet",
+      path: ["target_wallet_id"],
+    },
+  )
   .transform((val) => ({
     ...val,
     start_date: val.start_date.toISOString().split("T")[0],
@@ -87,11 +246,17 @@ export const getEntriesQuerySchema = z.object({
     .transform((val) => new Date(val))
     .transform((val) => val.toISOString().split("T")[0])
     .optional(),
+  tags: tagListQuerySchema.optional(),
   limit: z.coerce.number().int().min(1).max(100).optional(),
   offset: z.coerce.number().int().min(0).optional(),
   sort_by: z.enum(["start_date", "created_at", "amount"]).optional(),
   sort_order: z.enum(["asc", "desc"]).optional(),
-}) satisfies z.ZodSchema<GetEntriesQueryParams>;
+}) satisfies z.ZodType<
+  GetEntriesQueryParams,
+  z.ZodTypeDef,
+  // tags arrive as a comma-separated string
+  Omit<GetEntriesQueryParams, "tags"> & { tags?: string }
+>;
 
 // Query schema for PUT /api/entries/:id and DELETE /api/entries/:id
 const scopeQueryBase = z.object({
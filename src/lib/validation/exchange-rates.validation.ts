@@ -0,0 +1,66 @@
+/**
+ * Validation schemas for Exchange Rate endpoints and currency codes
+ * Uses Zod for runtime type checking and validation
+ */
+
+import { z } from "zod";
+
+/**
+ * ISO 4217 currency code; lowercase input is accepted and uppercased
+ * Shared by wallets, entries and preferences
+ */
+export const currencyCodeSchema = z
+  .string({
+    required_error: "Currency is required",
+    invalid_type_error: "Currency must be a string",
+  })
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO 4217 code");
+
+/**
+ * Helper function to validate if a string is a valid date in YYYY-MM-DD format
+ */
+function isValidDate(dateString: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateString)) {
+    return false;
+  }
+
+  const date = new Date(dateString);
+  const [year, month, day] = dateString.split("-").map(Number);
+
+  return (
+    !isNaN(date.getTime()) && date.getFullYear() === year && date.getMonth() + 1 === month && date.getDate() === day
+  );
+}
+
+/**
+ * Validation schema for CreateExchangeRateCommand and UpdateExchangeRateCommand
+ * Used to validate POST /api/exchange-rates and PUT /api/exchange-rates/:id request bodies
+ */
+export const exchangeRateSchema = z.object({
+  currency: currencyCodeSchema,
+  rate_date: z
+    .string({
+      required_error: "Rate date is required",
+      invalid_type_error: "Rate date must be a string",
+    })
+    .refine((val) => isValidDate(val), {
+      message: "Must be a valid date in YYYY-MM-DD format",
+    }),
+  rate: z
+    .number({
+      required_error: "Rate is required",
+      invalid_type_error: "Rate must be a number",
+    })
+    .positive("Rate must be greater than 0")
+    .max(9999999999, "Rate is too large")
+    .refine((val) => Math.abs(val * 1e8 - Math.round(val * 1e8)) < 1e-3, {
+      message: "Rate must have at most 8 decimal places",
+    }),
+});
+
+/**
+ * Type inference from schema
+ */
+export type ExchangeRateInput = z.infer<typeof exchangeRateSchema>;
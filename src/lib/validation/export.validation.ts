@@ -2,44 +2,80 @@ import { z } from "zod";
 
 const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
 
+/**
+ * Query parameters shared by the occurrence exports (CSV, OFX and QIF)
+ */
+export const occurrenceExportQuerySchema = z.object({
+  from_date: z.string().regex(dateRegex, "Invalid date format. Expected YYYY-MM-DD").optional(),
+  to_date: z.string().regex(dateRegex, "Invalid date format. Expected YYYY-MM-DD").optional(),
+  entry_type: z
+    .enum(["income", "expense"], {
+      errorMap: () => ({ message: "Invalid entry type. Must be 'income' or 'expense'" }),
+    })
+    .optional(),
+  category_id: z.string().uuid("Invalid category. Must be a valid UUID").optional(),
+});
+
+/**
+ * Adds the date range checks of the occurrence exports to a query schema
+ * (end date not before the start date, at most 100 years)
+ */
+export function refineExportDateRange<Shape extends typeof occurrenceExportQuerySchema.shape>(
+  schema: z.ZodObject<Shape>
+) {
+  return schema
+    .refine(
+      (data) => {
+        if (data.from_date && data.to_date) {
+          return new Date(data.to_date) >= new Date(data.from_date);
+        }
+        return true;
+      },
+      {
+        message: "End date must be greater than or equal to start date",
+        path: ["to_date"],
+      }
+    )
+    .refine(
+      (data) => {
+        if (data.from_date && data.to_date) {
+          const daysDiff = Math.abs(
+            (new Date(data.to_date).getTime() - new Date(data.from_date).getTime()) / (1000 * 60 * 60 * 24)
+          );
+          return daysDiff <= 36500; // 100 years
+        }
+        return true;
+      },
+      {
+        message: "Date range cannot exceed 100 years",
+        path: ["to_date"],
+      }
+    );
+}
+
 /**
  * Validation schema for CSV export query parameters
- * GET /api/export/csv
+ * GET /api/export/csv (the user's date format and number locale only on request, as spreadsheets and scripts
+ * expect ISO dates and a decimal point)
  */
-export const exportCSVQuerySchema = z
-  .object({
-    from_date: z.string().regex(dateRegex, "Invalid date format. Expected YYYY-MM-DD").optional(),
-    to_date: z.string().regex(dateRegex, "Invalid date format. Expected YYYY-MM-DD").optional(),
-    entry_type: z
-      .enum(["income", "expense"], {
-        errorMap: () => ({ message: "Invalid entry type. Must be 'income' or 'expense'" }),
+export const exportCSVQuerySchema = refineExportDateRange(
+  occurrenceExportQuerySchema.extend({
+    formatting: z
+      .enum(["iso", "localized"], {
+        errorMap: () => ({ message: "Invalid formatting. Must be 'iso' or 'localized'" }),
       })
-      .optional(),
+      .default("iso"),
   })
-  .refine(
-    (data) => {
-      if (data.from_date && data.to_date) {
-        return new Date(data.to_date) >= new Date(data.from_date);
-      }
-      return true;
-    },
-    {
-      message: "End date must be greater than or equal to start date",
-      path: ["to_date"],
-    }
-  )
-  .refine(
-    (data) => {
-      if (data.from_date && data.to_date) {
-        const daysDiff = Math.abs(
-          (new Date(data.to_date).getTime() - new Date(data.from_date).getTime()) / (1000 * 60 * 60 * 24)
-        );
-        return daysDiff <= 36500; // 100 years
-      }
-      return true;
-    },
-    {
-      message: "Date range cannot exceed 100 years",
-      path: ["to_date"],
-    }
-  );
+);
+
+/**
+ * Validation schema for iCalendar export query parameters
+ * GET /api/export/ics
+ */
+export const exportICSQuerySchema = z.object({
+  entry_type: z
+    .enum(["income", "expense"], {
+      errorMap: () => ({ message: "Invalid entry type. Must be 'income' or 'expense'" }),
+    })
+    .optional(),
+});
@@ -0,0 +1,103 @@
+import { z } from "zod";
+import type {
+  CreateCSVImportPresetCommand,
+  CSVColumnMapping,
+  CSVImportCommand,
+  StatementFileImportCommand,
+} from "../../types";
+import { CSV_DATE_FORMATS, CSV_DELIMITERS, CSV_SIGN_CONVENTIONS } from "../utils/bank-csv.utils";
+
+// 1 MB is far above a calendar of a few hundred recurring events
+const MAX_ICS_LENGTH = 1024 * 1024;
+
+/**
+ * Validation schema for the iCalendar import request body
+ * POST /api/import/ics (raw text/calendar body)
+ */
+export const importICSBodySchema = z
+  .string()
+  .min(1, "Request body must not be empty")
+  .max(MAX_ICS_LENGTH, "Calendar file cannot exceed 1 MB")
+  .refine((content) => /^\s*BEGIN:VCALENDAR/i.test(content), {
+    message: "Request body must be an iCalendar file starting with BEGIN:VCALENDAR",
+  });
+
+// 2 MB holds several years of daily bank transactions
+const MAX_STATEMENT_LENGTH = 2 * 1024 * 1024;
+
+const columnIndexSchema = z.number().int("Column must be an integer").min(0, "Column cannot be negative");
+
+/**
+ * Validation schema for a bank statement column mapping (see CSVColumnMapping)
+ */
+export const csvColumnMappingSchema = z
+  .object({
+    delimiter: z.enum(CSV_DELIMITERS, { errorMap: () => ({ message: "Delimiter must be a comma, semicolon or tab" }) }),
+    skip_rows: z.number().int("Skipped rows must be an integer").min(0, "Skipped rows cannot be negative"),
+    date_column: columnIndexSchema,
+    date_format: z.enum(CSV_DATE_FORMATS, {
+      errorMap: () => ({ message: `Date format must be one of: ${CSV_DATE_FORMATS.join(", ")}` }),
+    }),
+    amount_column: columnIndexSchema,
+    debit_column: columnIndexSchema.nullable(),
+    sign_convention: z.enum(CSV_SIGN_CONVENTIONS, {
+      errorMap: () => ({ message: `Sign convention must be one of: ${CSV_SIGN_CONVENTIONS.join(", ")}` }),
+    }),
+    decimal_separator: z.enum([".", ","], {
+      errorMap: () => ({ message: "Decimal separator must be a dot or a comma" }),
+    }),
+    description_columns: z.array(columnIndexSchema).max(10, "At most 10 description columns are allowed"),
+    currency_column: columnIndexSchema.nullable(),
+  })
+  .refine((mapping) => (mapping.sign_convention === "debit_credit") === (mapping.debit_column !== null), {
+    message: "A debit column is required for separate debit and credit columns, and only then",
+    path: ["debit_column"],
+  }) satisfies z.ZodSchema<CSVColumnMapping>;
+
+/**
+ * Validation schema for the bank statement import request body
+ * POST /api/import/csv
+ */
+export const importCSVBodySchema = z.object({
+  content: z
+    .string({ required_error: "content is required" })
+    .min(1, "Statement file must not be empty")
+    .max(MAX_STATEMENT_LENGTH, "Statement file cannot exceed 2 MB"),
+  mapping: csvColumnMappingSchema,
+  wallet_id: z.string().uuid("Invalid wallet ID format").optional(),
+  rows: z.array(z.number().int().min(1)).optional(),
+}) satisfies z.ZodSchema<CSVImportCommand>;
+
+/**
+ * Validation schema for creating or updating a column mapping preset
+ * POST /api/import/csv-presets, PUT /api/import/csv-presets/{id}
+ */
+export const createCSVImportPresetSchema = z.object({
+  name: z
+    .string({ required_error: "name is required" })
+    .trim()
+    .min(1, "Name cannot be empty")
+    .max(100, "Name must be at most 100 characters"),
+  mapping: csvColumnMappingSchema,
+}) satisfies z.ZodSchema<CreateCSVImportPresetCommand>;
+
+/**
+ * Validation schema for the statement file (camt.053, MT940, OFX/QFX, QIF) import request body
+ * POST /api/import/statement
+ */
+export const importStatementFileBodySchema = z.object({
+  format: z.enum(["camt053", "mt940", "ofx", "qif"], {
+    errorMap: () => ({ message: "Format must be camt053, mt940, ofx or qif" }),
+  }),
+  content: z
+    .string({ required_error: "content is required" })
+    .min(1, "Statement file must not be empty")
+    .max(MAX_STATEMENT_LENGTH, "Statement file cannot exceed 2 MB"),
+  wallet_id: z.string().uuid("Invalid wallet ID format").optional(),
+  starting_balance: z
+    .enum(["opening", "closing"], {
+      errorMap: () => ({ message: "Starting balance must be opening or closing" }),
+    })
+    .nullable()
+    .optional(),
+}) satisfies z.ZodSchema<StatementFileImportCommand>;
@@ -7,6 +7,7 @@
 
 import { z } from "zod";
 import type { GetOccurrencesQueryParams, GetEntryOccurrencesQueryParams } from "../../types";
+import { tagListQuerySchema } from "./tags.validation";
 
 // ============================================================================
 // Date Validation Helpers
@@ -56,7 +57,10 @@ function calculateDateRangeDays(fromDate: string, toDate: string): number {
  * Validates:
  * - from_date: required, YYYY-MM-DD format
  * - to_date: required, YYYY-MM-DD format
- * - entry_type: optional, "income" or "expense"
+ * - entry_type: optional, "income", "expense" or "transfer"
+ * - wallet_id: optional, UUID
+ * - category_id: optional, UUID
+ * - tags: optional, comma-separated tag names
  * - limit: optional, 1-1000, default 100
  * - offset: optional, >= 0, default 0
  * - to_date >= from_date
@@ -66,7 +70,10 @@ export const getOccurrencesQuerySchema = z
   .object({
     from_date: dateStringSchema,
     to_date: dateStringSchema,
-    entry_type: z.enum(["income", "expense"]).optional(),
+    entry_type: z.enum(["income", "expense", "transfer"]).optional(),
+    wallet_id: z.string().uuid("wallet_id must be a valid UUID").optional(),
+    category_id: z.string().uuid("category_id must be a valid UUID").optional(),
+    tags: tagListQuerySchema.optional(),
     limit: z.coerce
       .number()
       .int()
@@ -93,7 +100,12 @@ export const getOccurrencesQuerySchema = z
       message: `Date range cannot exceed 10 years (${MAX_DATE_RANGE_DAYS} days)`,
       path: ["date_range"],
     }
-  ) satisfies z.ZodSchema<GetOccurrencesQueryParams>;
+  ) satisfies z.ZodType<
+  GetOccurrencesQueryParams,
+  z.ZodTypeDef,
+  // tags arrive as a comma-separated string
+  Omit<GetOccurrencesQueryParams, "tags"> & { tags?: string }
+>;
 
 /**
  * Schema for GET /api/entries/:id/occurrences query parameters
@@ -0,0 +1,7 @@
+import { occurrenceExportQuerySchema, refineExportDateRange } from "./export.validation";
+
+/**
+ * Validation schema for OFX export query parameters
+ * GET /api/export/ofx (same filters as the CSV export)
+ */
+export const exportOFXQuerySchema = refineExportDateRange(occurrenceExportQuerySchema);
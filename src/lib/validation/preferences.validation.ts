@@ -0,0 +1,83 @@
+/**
+ * Validation schemas for User Preferences endpoints
+ * Uses Zod for runtime type checking and validation
+ */
+
+import { z } from "zod";
+import { currencyCodeSchema } from "./exchange-rates.validation";
+import { CURRENCY_DISPLAYS, DATE_FORMATS } from "../utils/format.utils";
+import { isValidTimeZone } from "../utils/date.utils";
+
+// Largest magnitude that fits numeric(12,2)
+const MAX_AMOUNT = 9999999999.99;
+
+/**
+ * Whether the runtime can format numbers for a locale (e.g. "pl-PL", "en-US", "de")
+ */
+function isSupportedLocale(locale: string): boolean {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf([locale]).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validation schema for UpdateUserPreferencesCommand
+ * Used to validate PUT /api/preferences request body
+ */
+export const updateUserPreferencesSchema = z
+  .object({
+    low_balance_threshold: z
+      .number({
+        invalid_type_error: "Low balance threshold must be a number",
+      })
+      .min(-MAX_AMOUNT, "Low balance threshold is too small")
+      .max(MAX_AMOUNT, "Low balance threshold is too large")
+      .refine((val) => Math.abs(val * 100 - Math.round(val * 100)) < 1e-6, {
+        message: "Low balance threshold must have at most 2 decimal places",
+      })
+      .optional(),
+    base_currency: currencyCodeSchema.optional(),
+    currency_display: z
+      .enum(CURRENCY_DISPLAYS, {
+        errorMap: () => ({ message: `Currency display must be one of: ${CURRENCY_DISPLAYS.join(", ")}` }),
+      })
+      .optional(),
+    number_locale: z
+      .string()
+      .trim()
+      .regex(/^[a-z]{2,3}(-[A-Z]{2})?$/, "Number locale must be a language tag such as pl-PL or en-US")
+      .refine(isSupportedLocale, "Number locale is not supported")
+      .optional(),
+    date_format: z
+      .enum(DATE_FORMATS, {
+        errorMap: () => ({ message: `Date format must be one of: ${DATE_FORMATS.join(", ")}` }),
+      })
+      .optional(),
+    week_starts_on: z
+      .number({
+        invalid_type_error: "First day of week must be a number",
+      })
+      .int("First day of week must be a whole number")
+      .min(0, "First day of week must be between 0 (Sunday) and 6 (Saturday)")
+      .max(6, "First day of week must be between 0 (Sunday) and 6 (Saturday)")
+      .optional(),
+    time_zone: z
+      .string()
+      .trim()
+      .min(1, "Time zone cannot be empty")
+      .max(64, "Time zone is too long")
+      .refine(isValidTimeZone, "Time zone must be an IANA time zone such as Europe/Warsaw")
+      .optional(),
+  })
+  .strict()
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "At least one preference must be provided",
+    path: ["body"],
+  });
+
+/**
+ * Type inference from schema
+ */
+export type UpdateUserPreferencesInput = z.infer<typeof updateUserPreferencesSchema>;
@@ -1,8 +1,9 @@
 import { z } from "zod";
+import { MAX_PROJECTION_YEARS, maxProjectionDate, todayInTimeZone } from "../utils/date.utils";
 
 /**
  * Zod schema for validating GET /api/projection query parameters
- * Validates that date parameter is present and in correct format
+ * Validates that date parameter is present and in correct format, and the optional scenario and wallet ids
  */
 export const getProjectionQuerySchema = z.object({
   date: z
@@ -15,28 +16,74 @@ export const getProjectionQuerySchema = z.object({
       const date = new Date(dateStr);
       return !isNaN(date.getTime()) && dateStr === date.toISOString().split("T")[0];
     }, "Invalid date"),
+  scenario: z.string().uuid("Scenario must be a valid UUID").optional(),
+  wallet: z.string().uuid("Wallet must be a valid UUID").optional(),
 });
 
+// Longest range served at day granularity (roughly the 10-year projection horizon)
+export const MAX_DAILY_TIMELINE_DAYS = 3660;
+
+const timelineDateSchema = (requiredError: string) =>
+  z
+    .string({
+      required_error: requiredError,
+    })
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format. Expected YYYY-MM-DD")
+    .refine((dateStr) => {
+      // Validate that it's a real calendar date
+      const date = new Date(dateStr);
+      return !isNaN(date.getTime()) && dateStr === date.toISOString().split("T")[0];
+    }, "Invalid date");
+
+/**
+ * Zod schema for validating GET /api/projection/timeline query parameters
+ * Validates both range dates, their order and the granularity (default: day)
+ */
+export const getBalanceTimelineQuerySchema = z
+  .object({
+    from: timelineDateSchema("From date is required"),
+    to: timelineDateSchema("To date is required"),
+    granularity: z
+      .enum(["day", "week", "month"], {
+        errorMap: () => ({ message: "Granularity must be one of: day, week, month" }),
+      })
+      .default("day"),
+    scenario: z.string().uuid("Scenario must be a valid UUID").optional(),
+    wallet: z.string().uuid("Wallet must be a valid UUID").optional(),
+  })
+  .refine((data) => data.to >= data.from, {
+    message: "To date must be on or after from date",
+    path: ["to"],
+  })
+  .refine(
+    (data) => {
+      if (data.granularity !== "day") return true;
+      const days = (new Date(data.to).getTime() - new Date(data.from).getTime()) / 86_400_000 + 1;
+      return days <= MAX_DAILY_TIMELINE_DAYS;
+    },
+    {
+      message: `Daily timelines cannot exceed ${MAX_DAILY_TIMELINE_DAYS} days; use week or month granularity`,
+      path: ["granularity"],
+    }
+  );
+
 /**
  * Validates that the target date is within acceptable range
  * @param targetDate - The target date to validate (YYYY-MM-DD)
  * @param startingBalanceDate - The starting balance effective date (YYYY-MM-DD)
+ * @param today - The current date in the user's time zone (YYYY-MM-DD, default: today in UTC)
  * @returns Validation result with error message if invalid
  */
 export function validateProjectionDateRange(
   targetDate: string,
-  startingBalanceDate: string
+  startingBalanceDate: string,
+  today: string = todayInTimeZone("UTC")
 ): { valid: boolean; error?: string } {
-  const target = new Date(targetDate);
-  const startingDate = new Date(startingBalanceDate);
-
   // Calculate max date (current date + 10 years)
-  const maxDate = new Date();
-  maxDate.setFullYear(maxDate.getFullYear() + 10);
-  const maxDateStr = maxDate.toISOString().split("T")[0];
+  const maxDateStr = maxProjectionDate(today);
 
   // Validate target date is not before starting balance date
-  if (target < startingDate) {
+  if (targetDate < startingBalanceDate) {
     return {
       valid: false,
       error: `Date must be on or after starting balance effective date (${startingBalanceDate})`,
@@ -44,10 +91,10 @@ export function validateProjectionDateRange(
   }
 
   // Validate target date is not more than 10 years in the future
-  if (target > maxDate) {
+  if (targetDate > maxDateStr) {
     return {
       valid: false,
-      error: `Date cannot be more than 10 years in the future (max: ${maxDateStr})`,
+      error: `Date cannot be more than ${MAX_PROJECTION_YEARS} years in the future (max: ${maxDateStr})`,
     };
   }
 
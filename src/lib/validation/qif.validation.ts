@@ -0,0 +1,16 @@
+import { z } from "zod";
+import { occurrenceExportQuerySchema, refineExportDateRange } from "./export.validation";
+
+/**
+ * Validation schema for QIF export query parameters
+ * GET /api/export/qif (the CSV export filters, and the order of day and month in the dates)
+ */
+export const exportQIFQuerySchema = refineExportDateRange(
+  occurrenceExportQuerySchema.extend({
+    date_format: z
+      .enum(["MDY", "DMY"], {
+        errorMap: () => ({ message: "Invalid date format. Must be 'MDY' or 'DMY'" }),
+      })
+      .default("MDY"),
+  })
+);
@@ -0,0 +1,69 @@
+/**
+ * Validation schemas for Scenario endpoints
+ * Uses Zod for runtime type checking and validation
+ */
+
+import { z } from "zod";
+
+/**
+ * Validation schema for CreateScenarioCommand
+ * Used to validate POST /api/scenarios request body
+ */
+export const createScenarioSchema = z.object({
+  name: z
+    .string({
+      required_error: "Name is required",
+      invalid_type_error: "Name must be a string",
+    })
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name must be at most 100 characters"),
+  description: z.string().max(500, "Description must be at most 500 characters").nullable().optional(),
+});
+
+/**
+ * Validation schema for UpdateScenarioCommand
+ * Used to validate PUT /api/scenarios/:id request body
+ */
+export const updateScenarioSchema = createScenarioSchema;
+
+/**
+ * Validation schema for CreateScenarioOverrideCommand
+ * Used to validate POST /api/scenarios/:id/overrides request body
+ * Mirrors the series_exceptions constraints: overrides need a title and amount, skips carry no fields
+ */
+export const createScenarioOverrideSchema = z
+  .object({
+    series_id: z.string().uuid("Series ID must be a valid UUID"),
+    exception_date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Exception date must be YYYY-MM-DD")
+      .refine((dateStr) => {
+        const date = new Date(dateStr);
+        return !isNaN(date.getTime()) && dateStr === date.toISOString().split("T")[0];
+      }, "Invalid date"),
+    exception_type: z.enum(["override", "skip"], {
+      errorMap: () => ({ message: "Exception type must be one of: override, skip" }),
+    }),
+    title: z.string().min(1).max(120).nullable().optional(),
+    description: z.string().max(500).nullable().optional(),
+    amount: z.number().positive().nullable().optional(),
+  })
+  .refine((data) => data.exception_type !== "override" || (!!data.title && data.amount != null), {
+    message: "Overrides require a title and an amount",
+    path: ["exception_type"],
+  })
+  .refine(
+    (data) => data.exception_type !== "skip" || (data.title == null && data.description == null && data.amount == null),
+    {
+      message: "Skips cannot have a title, description or amount",
+      path: ["exception_type"],
+    }
+  );
+
+/**
+ * Type inference from schemas
+ */
+export type CreateScenarioInput = z.infer<typeof createScenarioSchema>;
+export type UpdateScenarioInput = z.infer<typeof updateScenarioSchema>;
+export type CreateScenarioOverrideInput = z.infer<typeof createScenarioOverrideSchema>;
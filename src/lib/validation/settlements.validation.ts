@@ -0,0 +1,51 @@
+/**
+ * Validation schemas for Settlement endpoints
+ * Uses Zod for runtime type checking and validation
+ */
+
+import { z } from "zod";
+
+// Largest amount that fits numeric(12,2)
+const MAX_AMOUNT = 9999999999.99;
+
+const isoDateSchema = (label: string) =>
+  z
+    .string({
+      required_error: `${label} is required`,
+      invalid_type_error: `${label} must be a string`,
+    })
+    .regex(/^\d{4}-\d{2}-\d{2}$/, `${label} must be YYYY-MM-DD`)
+    .refine((dateStr) => {
+      const date = new Date(dateStr);
+      return !isNaN(date.getTime()) && dateStr === date.toISOString().split("T")[0];
+    }, "Invalid date");
+
+/**
+ * Validation schema for the :date URL parameter (occurrence date as listed)
+ */
+export const occurrenceDateSchema = isoDateSchema("Occurrence date");
+
+/**
+ * Validation schema for UpsertSettlementCommand
+ * Used to validate PUT /api/entries/:id/settlements/:date request body
+ * Zero is allowed (e.g. a bill that was waived), negative amounts are not
+ */
+export const upsertSettlementSchema = z.object({
+  actual_amount: z
+    .number({
+      required_error: "Actual amount is required",
+      invalid_type_error: "Actual amount must be a number",
+    })
+    .min(0, "Actual amount cannot be negative")
+    .max(MAX_AMOUNT, "Actual amount is too large")
+    .refine((val) => Math.abs(val * 100 - Math.round(val * 100)) < 1e-6, {
+      message: "Actual amount must have at most 2 decimal places",
+    }),
+  actual_date: isoDateSchema("Actual date"),
+  note: z.string().trim().max(500, "Note must be at most 500 characters").nullable().optional(),
+});
+
+/**
+ * Type inference from schemas
+ */
+export type UpsertSettlementInput = z.infer<typeof upsertSettlementSchema>;
@@ -72,8 +72,49 @@ export const upsertStartingBalanceSchema = z.object({
 });
 
 /**
- * Type inference from schema
+ * Validation schema for CreateBalanceCheckpointCommand
+ * Used to validate POST /api/starting-balance/checkpoints request body
+ * Unlike the starting balance, an observed balance may be negative (overdraft)
+ */
+export const createBalanceCheckpointSchema = z.object({
+  checkpoint_date: z
+    .string({
+      required_error: "Checkpoint date is required",
+      invalid_type_error: "Checkpoint date must be a string",
+    })
+    .refine((val) => isValidDate(val), {
+      message: "Must be a valid date in YYYY-MM-DD format",
+    }),
+  amount: z
+    .number({
+      required_error: "Amount is required",
+      invalid_type_error: "Amount must be a number",
+    })
+    .min(-9999999999.99, "Amount is too small")
+    .max(9999999999.99, "Amount is too large")
+    .refine((val) => hasAtMostTwoDecimalPlaces(val), {
+      message: "Amount must have at most 2 decimal places",
+    }),
+  note: z
+    .string()
+    .trim()
+    .max(500, "Note must be at most 500 characters")
+    .nullable()
+    .optional(),
+});
+
+/**
+ * Validation schema for UpdateBalanceCheckpointCommand
+ * Used to validate PUT /api/starting-balance/checkpoints/:id request body
+ */
+export const updateBalanceCheckpointSchema = createBalanceCheckpointSchema;
+
+/**
+ * Type inference from schemas
  */
 export type UpsertStartingBalanceInput = z.infer<
   typeof upsertStartingBalanceSchema
 >;
+export type CreateBalanceCheckpointInput = z.infer<
+  typeof createBalanceCheckpointSchema
+>;
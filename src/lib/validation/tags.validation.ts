@@ -0,0 +1,45 @@
+/**
+ * Validation schemas for tags
+ * Shared by the entry commands and the tag filters of the list endpoints
+ */
+
+import { z } from "zod";
+import {
+  MAX_TAG_LENGTH,
+  MAX_TAGS_PER_ENTRY,
+  normalizeTagName,
+  normalizeTagNames,
+  parseTagList,
+} from "../utils/tag.utils";
+
+/**
+ * A single tag name, normalized (see normalizeTagName)
+ */
+export const tagNameSchema = z
+  .string({ invalid_type_error: "Tag must be a string" })
+  .transform(normalizeTagName)
+  .pipe(
+    z
+      .string()
+      .min(1, "Tag cannot be empty")
+      .max(MAX_TAG_LENGTH, `Tag must be at most ${MAX_TAG_LENGTH} characters`)
+      .refine((name) => !name.includes(","), { message: "Tag cannot contain a comma" })
+  );
+
+/**
+ * Tags of an entry or occurrence, de-duplicated and sorted
+ */
+export const tagNamesSchema = z
+  .array(tagNameSchema, { invalid_type_error: "Tags must be an array of strings" })
+  .transform(normalizeTagNames)
+  .refine((names) => names.length <= MAX_TAGS_PER_ENTRY, {
+    message: `At most ${MAX_TAGS_PER_ENTRY} tags are allowed`,
+  });
+
+/**
+ * Comma-separated tag filter of a query string ("reimbursable,vacation-2026")
+ */
+export const tagListQuerySchema = z
+  .string()
+  .transform(parseTagList)
+  .refine((names) => names.length > 0, { message: "tags must list at least one tag" });
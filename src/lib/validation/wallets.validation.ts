@@ -0,0 +1,43 @@
+/**
+ * Validation schemas for Wallet endpoints
+ * Uses Zod for runtime type checking and validation
+ */
+
+import { z } from "zod";
+import { upsertStartingBalanceSchema } from "./starting-balance.validation";
+import { currencyCodeSchema } from "./exchange-rates.validation";
+
+const walletNameSchema = z
+  .string({
+    required_error: "Name is required",
+    invalid_type_error: "Name must be a string",
+  })
+  .trim()
+  .min(1, "Name is required")
+  .max(100, "Name must be at most 100 characters");
+
+/**
+ * Validation schema for CreateWalletCommand
+ * Used to validate POST /api/wallets request body
+ */
+export const createWalletSchema = z.object({
+  name: walletNameSchema,
+  currency: currencyCodeSchema.optional(),
+  starting_balance: upsertStartingBalanceSchema.nullable().optional(),
+});
+
+/**
+ * Validation schema for UpdateWalletCommand
+ * Used to validate PUT /api/wallets/:id request body
+ */
+export const updateWalletSchema = z.object({
+  name: walletNameSchema,
+});
+
+/**
+ * Validation schema for the optional ?wallet= query parameter
+ * (starting balance endpoints use the default wallet when omitted, projections all wallets)
+ */
+export const walletQuerySchema = z.object({
+  wallet: z.string().uuid("Wallet must be a valid UUID").optional(),
+});
@@ -17,6 +17,11 @@ const PUBLIC_PATHS = [
   "/auth/callback",
 ];
 
+// Public path patterns - endpoints that authenticate with a token in the URL instead of a session.
+// Calendar feeds: only the exact /api/feeds/{43-char token}.ics shape is let through; the token itself
+// is verified by the endpoint, so /api/feeds (token management) still requires a session.
+const PUBLIC_PATH_PATTERNS = [/^\/api\/feeds\/[A-Za-z0-9_-]{43}\.ics$/];
+
 export const onRequest = defineMiddleware(async (context, next) => {
   const { locals, cookies, url, request, redirect } = context;
 
@@ -49,7 +54,10 @@ export const onRequest = defineMiddleware(async (context, next) => {
   }
 
   // Skip auth check for public paths
-  if (PUBLIC_PATHS.some(path => url.pathname.startsWith(path))) {
+  if (
+    PUBLIC_PATHS.some(path => url.pathname.startsWith(path)) ||
+    PUBLIC_PATH_PATTERNS.some(pattern => pattern.test(url.pathname))
+  ) {
     // If user is authenticated and tries to visit login/register, redirect to dashboard
     if (user && (url.pathname === "/login" || url.pathname === "/register")) {
         return redirect("/");
@@ -35,10 +35,21 @@ export const prerender = false;
  * Requires explicit confirmation string to prevent accidental deletion.
  * Data deletion order respects foreign key constraints:
  * 1. series_exceptions (references entry_series)
- * 2. entry_series
- * 3. starting_balances
- * 4. analytics_events
- * 5. auth.users (via Supabase Edge Function)
+ * 2. occurrence_settlements (references entry_series)
+ * 3. entry_series
+ * 4. scenarios
+ * 5. starting_balances
+ * 6. balance_checkpoints
+ * 7. wallets (referenced by entry_series, starting_balances, balance_checkpoints)
+ * 8. calendar_feed_tokens
+ * 9. user_preferences
+ * 10. exchange_rates
+ * 11. budgets (references categories and tags)
+ * 12. categories (referenced by entry_series and series_exceptions)
+ * 13. tags (their links to series and exceptions were deleted with them)
+ * 14. csv_import_presets
+ * 15. analytics_events
+ * 16. auth.users (via Supabase Edge Function)
  */
 export const DELETE: APIRoute = async ({ request, locals }) => {
   const requestId = generateRequestId();
@@ -125,7 +136,29 @@ export const DELETE: APIRoute = async ({ request, locals }) => {
       `[INFO] [${requestId}] Deleted series_exceptions for user ${userId}`
     );
 
-    // 2. Delete entry_series (may have self-reference via parent_series_id)
+    // 2. Delete occurrence_settlements (references entry_series via series_id)
+    const { error: settlementsError } = await supabase
+      .from("occurrence_settlements")
+      .delete()
+      .eq("user_id", userId);
+
+    if (settlementsError) {
+      console.error(
+        `[ERROR] [${requestId}] Failed to delete occurrence_settlements for user ${userId}:`,
+        settlementsError
+      );
+      const errorResponse = createInternalServerError(requestId);
+      return new Response(JSON.stringify(errorResponse.body), {
+        status: errorResponse.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(
+      `[INFO] [${requestId}] Deleted occurrence_settlements for user ${userId}`
+    );
+
+    // 3. Delete entry_series (may have self-reference via parent_series_id)
     const { error: entriesError } = await supabase
       .from("entry_series")
       .delete()
@@ -147,7 +180,29 @@ export const DELETE: APIRoute = async ({ request, locals }) => {
       `[INFO] [${requestId}] Deleted entry_series for user ${userId}`
     );
 
-    // 3. Delete starting_balances
+    // 4. Delete scenarios (their series and exceptions were deleted above)
+    const { error: scenariosError } = await supabase
+      .from("scenarios")
+      .delete()
+      .eq("user_id", userId);
+
+    if (scenariosError) {
+      console.error(
+        `[ERROR] [${requestId}] Failed to delete scenarios for user ${userId}:`,
+        scenariosError
+      );
+      const errorResponse = createInternalServerError(requestId);
+      return new Response(JSON.stringify(errorResponse.body), {
+        status: errorResponse.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(
+      `[INFO] [${requestId}] Deleted scenarios for user ${userId}`
+    );
+
+    // 5. Delete starting_balances
     const { error: balanceError } = await supabase
       .from("starting_balances")
       .delete()
@@ -169,7 +224,199 @@ export const DELETE: APIRoute = async ({ request, locals }) => {
       `[INFO] [${requestId}] Deleted starting_balances for user ${userId}`
     );
 
-    // 4. Delete analytics_events
+    // 6. Delete balance_checkpoints
+    const { error: checkpointsError } = await supabase
+      .from("balance_checkpoints")
+      .delete()
+      .eq("user_id", userId);
+
+    if (checkpointsError) {
+      console.error(
+        `[ERROR] [${requestId}] Failed to delete balance_checkpoints for user ${userId}:`,
+        checkpointsError
+      );
+      const errorResponse = createInternalServerError(requestId);
+      return new Response(JSON.stringify(errorResponse.body), {
+        status: errorResponse.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(
+      `[INFO] [${requestId}] Deleted balance_checkpoints for user ${userId}`
+    );
+
+    // 7. Delete wallets
+    const { error: walletsError } = await supabase
+      .from("wallets")
+      .delete()
+      .eq("user_id", userId);
+
+    if (walletsError) {
+      console.error(
+        `[ERROR] [${requestId}] Failed to delete wallets for user ${userId}:`,
+        walletsError
+      );
+      const errorResponse = createInternalServerError(requestId);
+      return new Response(JSON.stringify(errorResponse.body), {
+        status: errorResponse.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`[INFO] [${requestId}] Deleted wallets for user ${userId}`);
+
+    // 8. Delete calendar_feed_tokens (stops the subscribable feed immediately)
+    const { error: feedTokenError } = await supabase
+      .from("calendar_feed_tokens")
+      .delete()
+      .eq("user_id", userId);
+
+    if (feedTokenError) {
+      console.error(
+        `[ERROR] [${requestId}] Failed to delete calendar_feed_tokens for user ${userId}:`,
+        feedTokenError
+      );
+      const errorResponse = createInternalServerError(requestId);
+      return new Response(JSON.stringify(errorResponse.body), {
+        status: errorResponse.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(
+      `[INFO] [${requestId}] Deleted calendar_feed_tokens for user ${userId}`
+    );
+
+    // 9. Delete user_preferences
+    const { error: preferencesError } = await supabase
+      .from("user_preferences")
+      .delete()
+      .eq("user_id", userId);
+
+    if (preferencesError) {
+      console.error(
+        `[ERROR] [${requestId}] Failed to delete user_preferences for user ${userId}:`,
+        preferencesError
+      );
+      const errorResponse = createInternalServerError(requestId);
+      return new Response(JSON.stringify(errorResponse.body), {
+        status: errorResponse.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(
+      `[INFO] [${requestId}] Deleted user_preferences for user ${userId}`
+    );
+
+    // 10. Delete exchange_rates
+    const { error: exchangeRatesError } = await supabase
+      .from("exchange_rates")
+      .delete()
+      .eq("user_id", userId);
+
+    if (exchangeRatesError) {
+      console.error(
+        `[ERROR] [${requestId}] Failed to delete exchange_rates for user ${userId}:`,
+        exchangeRatesError
+      );
+      const errorResponse = createInternalServerError(requestId);
+      return new Response(JSON.stringify(errorResponse.body), {
+        status: errorResponse.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(
+      `[INFO] [${requestId}] Deleted exchange_rates for user ${userId}`
+    );
+
+    // 11. Delete budgets
+    const { error: budgetsError } = await supabase
+      .from("budgets")
+      .delete()
+      .eq("user_id", userId);
+
+    if (budgetsError) {
+      console.error(
+        `[ERROR] [${requestId}] Failed to delete budgets for user ${userId}:`,
+        budgetsError
+      );
+      const errorResponse = createInternalServerError(requestId);
+      return new Response(JSON.stringify(errorResponse.body), {
+        status: errorResponse.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`[INFO] [${requestId}] Deleted budgets for user ${userId}`);
+
+    // 12. Delete categories (subcategories go with their parents)
+    const { error: categoriesError } = await supabase
+      .from("categories")
+      .delete()
+      .eq("user_id", userId);
+
+    if (categoriesError) {
+      console.error(
+        `[ERROR] [${requestId}] Failed to delete categories for user ${userId}:`,
+        categoriesError
+      );
+      const errorResponse = createInternalServerError(requestId);
+      return new Response(JSON.stringify(errorResponse.body), {
+        status: errorResponse.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(
+      `[INFO] [${requestId}] Deleted categories for user ${userId}`
+    );
+
+    // 13. Delete tags
+    const { error: tagsError } = await supabase
+      .from("tags")
+      .delete()
+      .eq("user_id", userId);
+
+    if (tagsError) {
+      console.error(
+        `[ERROR] [${requestId}] Failed to delete tags for user ${userId}:`,
+        tagsError
+      );
+      const errorResponse = createInternalServerError(requestId);
+      return new Response(JSON.stringify(errorResponse.body), {
+        status: errorResponse.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`[INFO] [${requestId}] Deleted tags for user ${userId}`);
+
+    // 14. Delete csv_import_presets
+    const { error: presetsError } = await supabase
+      .from("csv_import_presets")
+      .delete()
+      .eq("user_id", userId);
+
+    if (presetsError) {
+      console.error(
+        `[ERROR] [${requestId}] Failed to delete csv_import_presets for user ${userId}:`,
+        presetsError
+      );
+      const errorResponse = createInternalServerError(requestId);
+      return new Response(JSON.stringify(errorResponse.body), {
+        status: errorResponse.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(
+      `[INFO] [${requestId}] Deleted csv_import_presets for user ${userId}`
+    );
+
+    // 15. Delete analytics_events
     const { error: analyticsError } = await supabase
       .from("analytics_events")
       .delete()
@@ -191,7 +438,7 @@ export const DELETE: APIRoute = async ({ request, locals }) => {
       `[INFO] [${requestId}] Deleted analytics_events for user ${userId}`
     );
 
-    // 5. Delete the user account from auth.users via Edge Function
+    // 16. Delete the user account from auth.users via Edge Function
     // Get the user's access token to authenticate with the Edge Function
     const {
       data: { session },
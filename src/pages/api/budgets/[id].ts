@@ -0,0 +1,210 @@
+/**
+ * Budgets API Endpoints - Update, Delete
+ * Handles PUT and DELETE for a specific budget by ID
+ */
+
+import type { APIRoute } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../db/database.types";
+import { getAuthenticatedUser } from "../../../lib/utils/auth.utils";
+import { BudgetsService } from "../../../lib/services/budgets.service";
+import { updateBudgetSchema } from "../../../lib/validation/budgets.validation";
+import {
+  createUnauthorizedError,
+  createValidationError,
+  createInternalServerError,
+  formatZodErrors,
+  generateRequestId,
+} from "../../../lib/utils/error-response.utils";
+import type { ConflictErrorDTO, NotFoundErrorDTO, SuccessMessageDTO } from "../../../types";
+import { z } from "zod";
+
+// Disable prerendering for API routes
+export const prerender = false;
+
+// Validate ID as UUID (basic check)
+const uuidSchema = z.string().uuid();
+
+/**
+ * PUT /api/budgets/:id
+ * Change a budget's amount, category or tag
+ *
+ * Returns:
+ * - 200: BudgetDTO
+ * - 400: Validation error
+ * - 401: Unauthorized
+ * - 404: Budget, category or tag not found
+ * - 409: The category or tag already has a budget
+ * - 500: Internal server error
+ */
+export const PUT: APIRoute = async ({ request, locals, params }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to PUT budget ${params.id}`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // Validate ID
+    const idValidation = uuidSchema.safeParse(params.id);
+    if (!idValidation.success) {
+      console.log(`[WARN] [${requestId}] Invalid ID format for user ${userId}: ${params.id}`);
+      const error = createValidationError({ id: "ID must be a valid UUID" });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const id = idValidation.data;
+
+    // Parse request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      console.log(`[WARN] [${requestId}] Invalid JSON in request body`);
+      const error = createValidationError({
+        body: "Request body must be valid JSON",
+      });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body using Zod schema
+    const bodyValidation = updateBudgetSchema.safeParse(body);
+    if (!bodyValidation.success) {
+      console.log(`[WARN] [${requestId}] Body validation failed for user ${userId}:`, bodyValidation.error);
+      const error = createValidationError(formatZodErrors(bodyValidation.error));
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`[INFO] [${requestId}] Updating budget for user ${userId}, id ${id}`);
+
+    const service = new BudgetsService(supabase);
+    const updated = await service.update(userId, id, bodyValidation.data);
+
+    return new Response(JSON.stringify(updated), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === "NotFoundError") {
+      const dto: NotFoundErrorDTO = {
+        error: "Not found",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    if (err.name === "ConflictError") {
+      const dto: ConflictErrorDTO = {
+        error: "Conflict",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    console.error(`[ERROR] [${requestId}] Error updating budget:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * DELETE /api/budgets/:id
+ * Delete a budget
+ *
+ * Returns:
+ * - 200: Success message
+ * - 400: Invalid ID
+ * - 401: Unauthorized
+ * - 404: Budget not found
+ * - 500: Internal server error
+ */
+export const DELETE: APIRoute = async ({ locals, params }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to DELETE budget ${params.id}`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // Validate ID
+    const idValidation = uuidSchema.safeParse(params.id);
+    if (!idValidation.success) {
+      console.log(`[WARN] [${requestId}] Invalid ID format for user ${userId}: ${params.id}`);
+      const error = createValidationError({ id: "ID must be a valid UUID" });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const id = idValidation.data;
+
+    console.log(`[INFO] [${requestId}] Deleting budget for user ${userId}, id ${id}`);
+
+    const service = new BudgetsService(supabase);
+    await service.delete(userId, id);
+
+    const response: SuccessMessageDTO = {
+      message: "Budget deleted successfully",
+    };
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === "NotFoundError") {
+      const dto: NotFoundErrorDTO = {
+        error: "Not found",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    console.error(`[ERROR] [${requestId}] Error deleting budget:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,162 @@
+/**
+ * Budgets API Endpoints
+ * Handles listing and creating budgets
+ */
+
+import type { APIRoute } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../db/database.types";
+import { getAuthenticatedUser } from "../../../lib/utils/auth.utils";
+import { BudgetsService } from "../../../lib/services/budgets.service";
+import { createBudgetSchema } from "../../../lib/validation/budgets.validation";
+import {
+  createUnauthorizedError,
+  createValidationError,
+  createInternalServerError,
+  formatZodErrors,
+  generateRequestId,
+} from "../../../lib/utils/error-response.utils";
+import type { ConflictErrorDTO, NotFoundErrorDTO } from "../../../types";
+
+// Disable prerendering for API routes
+export const prerender = false;
+
+/**
+ * GET /api/budgets
+ * List the authenticated user's budgets, oldest first
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to GET budgets`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+    console.log(`[INFO] [${requestId}] Fetching budgets for user ${userId}`);
+
+    const service = new BudgetsService(supabase);
+    const budgets = await service.findAll(userId);
+
+    return new Response(JSON.stringify(budgets), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error(`[ERROR] [${requestId}] Error fetching budgets:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * POST /api/budgets
+ * Create a monthly budget for a category or a tag
+ *
+ * Returns:
+ * - 201: BudgetDTO
+ * - 400: Validation error
+ * - 401: Unauthorized
+ * - 404: Category or tag not found
+ * - 409: The category or tag already has a budget
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to POST budgets`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // Parse request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      console.log(`[WARN] [${requestId}] Invalid JSON in request body`);
+      const error = createValidationError({
+        body: "Request body must be valid JSON",
+      });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body using Zod schema
+    const validationResult = createBudgetSchema.safeParse(body);
+    if (!validationResult.success) {
+      console.log(`[WARN] [${requestId}] Validation failed for user ${userId}:`, validationResult.error);
+      const error = createValidationError(formatZodErrors(validationResult.error));
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`[INFO] [${requestId}] Creating budget for user ${userId}`);
+
+    const service = new BudgetsService(supabase);
+    const budget = await service.create(userId, validationResult.data);
+
+    console.log(`[INFO] [${requestId}] Successfully created budget ${budget.id} for user ${userId}`);
+
+    return new Response(JSON.stringify(budget), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === "NotFoundError") {
+      const dto: NotFoundErrorDTO = {
+        error: "Not found",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    if (err.name === "ConflictError") {
+      const dto: ConflictErrorDTO = {
+        error: "Conflict",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    console.error(`[ERROR] [${requestId}] Error creating budget:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
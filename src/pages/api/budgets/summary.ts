@@ -0,0 +1,102 @@
+import type { APIRoute } from "astro";
+import { BudgetsService } from "@/lib/services/budgets.service";
+import { preferencesService } from "@/lib/services/preferences.service";
+import {
+  createUnauthorizedError,
+  createNotFoundError,
+  createInternalServerError,
+  createValidationError,
+  formatZodErrors,
+  generateRequestId,
+} from "@/lib/utils/error-response.utils";
+import { getAuthenticatedUser } from "@/lib/utils/auth.utils";
+import { todayInTimeZone } from "@/lib/utils/date.utils";
+import { getBudgetSummaryQuerySchema } from "@/lib/validation/budgets.validation";
+
+export const prerender = false;
+
+/**
+ * GET /api/budgets/summary
+ * Compares each budget with the month's planned expenses (budgeted vs. planned vs. remaining)
+ *
+ * Query Parameters:
+ * - month (optional): Month in YYYY-MM format; default: the current month in the user's time zone
+ *
+ * Returns:
+ * - 200: BudgetSummaryDTO, with the projected overspend of each budget
+ * - 401: Unauthorized (handled by middleware)
+ * - 400: Invalid month
+ * - 404: Exchange rate not found
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    // Step 1: Extract authenticated user and Supabase client
+    const supabase = locals.supabase;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to GET budget summary`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+    console.log(`[INFO] [${requestId}] Fetching budget summary for user ${userId}`);
+
+    const url = new URL(request.url);
+    const validation = getBudgetSummaryQuerySchema.safeParse({ month: url.searchParams.get("month") ?? undefined });
+    if (!validation.success) {
+      console.log(`[WARN] [${requestId}] Query validation failed:`, validation.error);
+      const error = createValidationError(formatZodErrors(validation.error));
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Step 2: Default to the current month in the user's time zone
+    let month = validation.data.month;
+    if (!month) {
+      const { time_zone } = await preferencesService.getUserPreferences(supabase, userId);
+      month = todayInTimeZone(time_zone).slice(0, 7);
+    }
+
+    // Step 3: Call service layer to compare the budgets with the month's expenses
+    const service = new BudgetsService(supabase);
+    const summary = await service.getSummary(userId, month);
+
+    // Step 4: Return success response
+    console.log(
+      `[INFO] [${requestId}] Successfully computed budget summary for user ${userId} (${summary.budgets.length} budgets)`
+    );
+    return new Response(JSON.stringify(summary), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // Handle specific errors
+    if (error instanceof Error && error.message.startsWith("No exchange rate")) {
+      console.log(`[WARN] [${requestId}] Exchange rate not found:`, error.message);
+      const errorResponse = createNotFoundError(error.message);
+      return new Response(JSON.stringify(errorResponse.body), {
+        status: errorResponse.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Log and return generic error
+    console.error(`[ERROR] [${requestId}] Error computing budget summary:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
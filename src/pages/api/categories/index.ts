@@ -0,0 +1,162 @@
+/**
+ * Categories API Endpoints
+ * Handles listing and creating categories
+ */
+
+import type { APIRoute } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../db/database.types";
+import { getAuthenticatedUser } from "../../../lib/utils/auth.utils";
+import { CategoriesService } from "../../../lib/services/categories.service";
+import { createCategorySchema } from "../../../lib/validation/categories.validation";
+import {
+  createUnauthorizedError,
+  createValidationError,
+  createInternalServerError,
+  formatZodErrors,
+  generateRequestId,
+} from "../../../lib/utils/error-response.utils";
+import type { ConflictErrorDTO, NotFoundErrorDTO } from "../../../types";
+
+// Disable prerendering for API routes
+export const prerender = false;
+
+/**
+ * GET /api/categories
+ * List the authenticated user's categories, sorted by name
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to GET categories`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+    console.log(`[INFO] [${requestId}] Fetching categories for user ${userId}`);
+
+    const service = new CategoriesService(supabase);
+    const categories = await service.findAll(userId);
+
+    return new Response(JSON.stringify(categories), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error(`[ERROR] [${requestId}] Error fetching categories:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * POST /api/categories
+ * Create a category, optionally under a parent category
+ *
+ * Returns:
+ * - 201: CategoryDTO
+ * - 400: Validation error
+ * - 401: Unauthorized
+ * - 404: Parent category not found
+ * - 409: A category with that name already exists under the parent
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to POST categories`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // Parse request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      console.log(`[WARN] [${requestId}] Invalid JSON in request body`);
+      const error = createValidationError({
+        body: "Request body must be valid JSON",
+      });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body using Zod schema
+    const validationResult = createCategorySchema.safeParse(body);
+    if (!validationResult.success) {
+      console.log(`[WARN] [${requestId}] Validation failed for user ${userId}:`, validationResult.error);
+      const error = createValidationError(formatZodErrors(validationResult.error));
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`[INFO] [${requestId}] Creating category for user ${userId}`);
+
+    const service = new CategoriesService(supabase);
+    const category = await service.create(userId, validationResult.data);
+
+    console.log(`[INFO] [${requestId}] Successfully created category ${category.id} for user ${userId}`);
+
+    return new Response(JSON.stringify(category), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === "NotFoundError") {
+      const dto: NotFoundErrorDTO = {
+        error: "Not found",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    if (err.name === "ConflictError") {
+      const dto: ConflictErrorDTO = {
+        error: "Conflict",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    console.error(`[ERROR] [${requestId}] Error creating category:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
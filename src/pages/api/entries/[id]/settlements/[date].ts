@@ -0,0 +1,222 @@
+/**
+ * Occurrence Settlement API Endpoint
+ * Records (PUT) or removes (DELETE) the actual amount and date of a single occurrence
+ */
+
+import type { APIRoute } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../../../db/database.types";
+import { getAuthenticatedUser } from "../../../../../lib/utils/auth.utils";
+import { SettlementsService } from "../../../../../lib/services/settlements.service";
+import { occurrenceDateSchema, upsertSettlementSchema } from "../../../../../lib/validation/settlements.validation";
+import {
+  createUnauthorizedError,
+  createValidationError,
+  createInternalServerError,
+  formatZodErrors,
+  generateRequestId,
+} from "../../../../../lib/utils/error-response.utils";
+import type { NotFoundErrorDTO, SuccessMessageDTO } from "../../../../../types";
+import { z } from "zod";
+
+// Disable prerendering for API routes
+export const prerender = false;
+
+// Validate ID as UUID (basic check)
+const uuidSchema = z.string().uuid();
+
+/**
+ * Validates the :id and :date URL parameters
+ * Returns the parsed values, or the details of the validation error
+ */
+function parseParams(
+  params: Record<string, string | undefined>
+): { seriesId: string; occurrenceDate: string } | { details: Record<string, string> } {
+  const details: Record<string, string> = {};
+  const idValidation = uuidSchema.safeParse(params.id);
+  if (!idValidation.success) {
+    details.id = "ID must be a valid UUID";
+  }
+  const dateValidation = occurrenceDateSchema.safeParse(params.date);
+  if (!dateValidation.success) {
+    details.date = "Date must be a valid date in YYYY-MM-DD format";
+  }
+  if (!idValidation.success || !dateValidation.success) {
+    return { details };
+  }
+  return { seriesId: idValidation.data, occurrenceDate: dateValidation.data };
+}
+
+/**
+ * PUT /api/entries/:id/settlements/:date
+ * Mark an occurrence as settled with the actual amount and date (or update the settlement)
+ *
+ * URL Parameters:
+ * - id: UUID of the entry series
+ * - date: Occurrence date as listed (YYYY-MM-DD)
+ *
+ * Returns:
+ * - 200: SettlementResponseDTO
+ * - 400: Validation error
+ * - 401: Unauthorized
+ * - 404: Entry series not found, or no occurrence on that date
+ * - 500: Internal server error
+ */
+export const PUT: APIRoute = async ({ request, locals, params }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to PUT settlement for entry ${params.id}`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // Validate URL parameters
+    const parsedParams = parseParams(params);
+    if ("details" in parsedParams) {
+      console.log(`[WARN] [${requestId}] Invalid parameters for user ${userId}:`, parsedParams.details);
+      const error = createValidationError(parsedParams.details);
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const { seriesId, occurrenceDate } = parsedParams;
+
+    // Parse request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      console.log(`[WARN] [${requestId}] Invalid JSON in request body`);
+      const error = createValidationError({
+        body: "Request body must be valid JSON",
+      });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body using Zod schema
+    const validationResult = upsertSettlementSchema.safeParse(body);
+    if (!validationResult.success) {
+      console.log(`[WARN] [${requestId}] Validation failed for user ${userId}:`, validationResult.error);
+      const error = createValidationError(formatZodErrors(validationResult.error));
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(
+      `[INFO] [${requestId}] Settling occurrence of entry ${seriesId} on ${occurrenceDate} for user ${userId}`
+    );
+
+    const service = new SettlementsService(supabase);
+    const settlement = await service.upsert(userId, seriesId, occurrenceDate, validationResult.data);
+
+    return new Response(JSON.stringify(settlement), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === "NotFoundError") {
+      const dto: NotFoundErrorDTO = {
+        error: "Not found",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    console.error(`[ERROR] [${requestId}] Error settling occurrence:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * DELETE /api/entries/:id/settlements/:date
+ * Undo the settlement of an occurrence; projections use the planned values again
+ */
+export const DELETE: APIRoute = async ({ locals, params }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to DELETE settlement for entry ${params.id}`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // Validate URL parameters
+    const parsedParams = parseParams(params);
+    if ("details" in parsedParams) {
+      console.log(`[WARN] [${requestId}] Invalid parameters for user ${userId}:`, parsedParams.details);
+      const error = createValidationError(parsedParams.details);
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const { seriesId, occurrenceDate } = parsedParams;
+
+    console.log(
+      `[INFO] [${requestId}] Removing settlement of entry ${seriesId} on ${occurrenceDate} for user ${userId}`
+    );
+
+    const service = new SettlementsService(supabase);
+    await service.delete(userId, seriesId, occurrenceDate);
+
+    const response: SuccessMessageDTO = {
+      message: "Settlement deleted successfully",
+    };
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === "NotFoundError") {
+      const dto: NotFoundErrorDTO = {
+        error: "Not found",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    console.error(`[ERROR] [${requestId}] Error deleting settlement:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
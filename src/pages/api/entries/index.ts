@@ -16,6 +16,7 @@ import {
   formatZodErrors,
   generateRequestId,
 } from "../../../lib/utils/error-response.utils";
+import type { NotFoundErrorDTO, ConflictErrorDTO } from "../../../types";
 
 // Disable prerendering for API routes
 export const prerender = false;
@@ -145,7 +146,28 @@ export const POST: APIRoute = async ({ request, locals }) => {
       status: 201,
       headers: { "Content-Type": "application/json" },
     });
-  } catch (error) {
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === "NotFoundError") {
+      const dto: NotFoundErrorDTO = {
+        error: "Not found",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    if (err.name === "ConflictError") {
+      const dto: ConflictErrorDTO = {
+        error: "Conflict",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
     console.error(`[ERROR] [${requestId}] Error creating entry:`, error);
     const errorResponse = createInternalServerError(requestId);
     return new Response(JSON.stringify(errorResponse.body), {
@@ -0,0 +1,202 @@
+/**
+ * Exchange Rates API Endpoints - Update, Delete
+ * Handles PUT and DELETE for a specific exchange rate by ID
+ */
+
+import type { APIRoute } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../db/database.types";
+import { getAuthenticatedUser } from "../../../lib/utils/auth.utils";
+import { ExchangeRatesService } from "../../../lib/services/exchange-rates.service";
+import { exchangeRateSchema } from "../../../lib/validation/exchange-rates.validation";
+import {
+  createUnauthorizedError,
+  createValidationError,
+  createInternalServerError,
+  formatZodErrors,
+  generateRequestId,
+} from "../../../lib/utils/error-response.utils";
+import type { ConflictErrorDTO, NotFoundErrorDTO, SuccessMessageDTO } from "../../../types";
+import { z } from "zod";
+
+// Disable prerendering for API routes
+export const prerender = false;
+
+// Validate ID as UUID (basic check)
+const uuidSchema = z.string().uuid();
+
+/**
+ * PUT /api/exchange-rates/:id
+ * Replace the currency, date and rate of an exchange rate
+ */
+export const PUT: APIRoute = async ({ request, locals, params }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to PUT exchange rate ${params.id}`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // Validate ID
+    const idValidation = uuidSchema.safeParse(params.id);
+    if (!idValidation.success) {
+      console.log(`[WARN] [${requestId}] Invalid ID format for user ${userId}: ${params.id}`);
+      const error = createValidationError({ id: "ID must be a valid UUID" });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const id = idValidation.data;
+
+    // Parse request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      console.log(`[WARN] [${requestId}] Invalid JSON in request body`);
+      const error = createValidationError({
+        body: "Request body must be valid JSON",
+      });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body using Zod schema
+    const bodyValidation = exchangeRateSchema.safeParse(body);
+    if (!bodyValidation.success) {
+      console.log(`[WARN] [${requestId}] Body validation failed for user ${userId}:`, bodyValidation.error);
+      const error = createValidationError(formatZodErrors(bodyValidation.error));
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`[INFO] [${requestId}] Updating exchange rate for user ${userId}, id ${id}`);
+
+    const service = new ExchangeRatesService(supabase);
+    const updated = await service.update(userId, id, bodyValidation.data);
+
+    return new Response(JSON.stringify(updated), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === "NotFoundError") {
+      const dto: NotFoundErrorDTO = {
+        error: "Not found",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    if (err.name === "ConflictError") {
+      const dto: ConflictErrorDTO = {
+        error: "Conflict",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    console.error(`[ERROR] [${requestId}] Error updating exchange rate:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * DELETE /api/exchange-rates/:id
+ * Delete an exchange rate
+ *
+ * Returns:
+ * - 200: Success message
+ * - 400: Invalid ID
+ * - 401: Unauthorized
+ * - 404: Exchange rate not found
+ * - 500: Internal server error
+ */
+export const DELETE: APIRoute = async ({ locals, params }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to DELETE exchange rate ${params.id}`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // Validate ID
+    const idValidation = uuidSchema.safeParse(params.id);
+    if (!idValidation.success) {
+      console.log(`[WARN] [${requestId}] Invalid ID format for user ${userId}: ${params.id}`);
+      const error = createValidationError({ id: "ID must be a valid UUID" });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const id = idValidation.data;
+
+    console.log(`[INFO] [${requestId}] Deleting exchange rate for user ${userId}, id ${id}`);
+
+    const service = new ExchangeRatesService(supabase);
+    await service.delete(userId, id);
+
+    const response: SuccessMessageDTO = {
+      message: "Exchange rate deleted successfully",
+    };
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === "NotFoundError") {
+      const dto: NotFoundErrorDTO = {
+        error: "Not found",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    console.error(`[ERROR] [${requestId}] Error deleting exchange rate:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,151 @@
+/**
+ * Exchange Rates API Endpoints
+ * Handles listing and creating exchange rates
+ */
+
+import type { APIRoute } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../db/database.types";
+import { getAuthenticatedUser } from "../../../lib/utils/auth.utils";
+import { ExchangeRatesService } from "../../../lib/services/exchange-rates.service";
+import { exchangeRateSchema } from "../../../lib/validation/exchange-rates.validation";
+import {
+  createUnauthorizedError,
+  createValidationError,
+  createInternalServerError,
+  formatZodErrors,
+  generateRequestId,
+} from "../../../lib/utils/error-response.utils";
+import type { ConflictErrorDTO } from "../../../types";
+
+// Disable prerendering for API routes
+export const prerender = false;
+
+/**
+ * GET /api/exchange-rates
+ * List the authenticated user's exchange rates by currency and date
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to GET exchange rates`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+    console.log(`[INFO] [${requestId}] Fetching exchange rates for user ${userId}`);
+
+    const service = new ExchangeRatesService(supabase);
+    const rates = await service.findAll(userId);
+
+    return new Response(JSON.stringify(rates), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error(`[ERROR] [${requestId}] Error fetching exchange rates:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * POST /api/exchange-rates
+ * Add a dated rate of a currency against the base currency
+ *
+ * Returns:
+ * - 201: ExchangeRateDTO
+ * - 400: Validation error
+ * - 401: Unauthorized
+ * - 409: A rate for that currency and date already exists, or the currency is the base currency
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to POST exchange rates`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // Parse request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      console.log(`[WARN] [${requestId}] Invalid JSON in request body`);
+      const error = createValidationError({
+        body: "Request body must be valid JSON",
+      });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body using Zod schema
+    const validationResult = exchangeRateSchema.safeParse(body);
+    if (!validationResult.success) {
+      console.log(`[WARN] [${requestId}] Validation failed for user ${userId}:`, validationResult.error);
+      const error = createValidationError(formatZodErrors(validationResult.error));
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`[INFO] [${requestId}] Creating exchange rate for user ${userId}`);
+
+    const service = new ExchangeRatesService(supabase);
+    const rate = await service.create(userId, validationResult.data);
+
+    console.log(`[INFO] [${requestId}] Successfully created exchange rate ${rate.id} for user ${userId}`);
+
+    return new Response(JSON.stringify(rate), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === "ConflictError") {
+      const dto: ConflictErrorDTO = {
+        error: "Conflict",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    console.error(`[ERROR] [${requestId}] Error creating exchange rate:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -1,7 +1,10 @@
 import type { APIRoute } from "astro";
 import { exportCSVQuerySchema } from "@/lib/validation/export.validation";
 import { generateCSVExport, generateCSVContent, generateCSVFilename } from "@/lib/services/export.service";
-import { getStartingBalance } from "@/lib/services/starting-balance.service";
+import { getEarliestStartingBalance } from "@/lib/services/starting-balance.service";
+import { ExchangeRatesService } from "@/lib/services/exchange-rates.service";
+import { getUserPreferences } from "@/lib/services/preferences.service";
+import { CategoriesService } from "@/lib/services/categories.service";
 import {
   createUnauthorizedError,
   createNotFoundError,
@@ -9,6 +12,8 @@ import {
   generateRequestId,
 } from "@/lib/utils/error-response.utils";
 import { getAuthenticatedUser } from "@/lib/utils/auth.utils";
+import { createFormatter } from "@/lib/utils/format.utils";
+import { maxProjectionDate, todayInTimeZone } from "@/lib/utils/date.utils";
 
 export const prerender = false;
 
@@ -16,17 +21,22 @@ export const prerender = false;
  * GET /api/export/csv
  *
  * Exports all user occurrences as a downloadable CSV file
+ * Amounts are converted into the base currency; the original amount and currency are kept
+ * Transfers are written as a debit row and a credit row, which cancel out
  *
  * Query Parameters:
  * - from_date (optional): Start date for export range (YYYY-MM-DD)
  * - to_date (optional): End date for export range (YYYY-MM-DD)
  * - entry_type (optional): Filter by entry type ('income' or 'expense')
+ * - category_id (optional): Filter by category, including its subcategories
+ * - formatting (optional): 'iso' (default: YYYY-MM-DD dates, decimal point) or 'localized' (the user's date format
+ *   and number locale)
  *
  * Response:
  * - 200 OK: CSV file with Content-Disposition header
  * - 400 Bad Request: Invalid query parameters
  * - 401 Unauthorized: Missing or invalid authentication
- * - 404 Not Found: Starting balance not configured (when from_date not provided)
+ * - 404 Not Found: Starting balance not configured (when from_date not provided), or an exchange rate is missing
  * - 500 Internal Server Error: Unexpected error
  */
 export const GET: APIRoute = async (context) => {
@@ -70,12 +80,12 @@ export const GET: APIRoute = async (context) => {
       );
     }
 
-    const { from_date, to_date, entry_type } = validationResult.data;
+    const { from_date, to_date, entry_type, category_id, formatting } = validationResult.data;
 
     // 3. Determine from_date default
     let fromDate = from_date;
     if (!fromDate) {
-      const startingBalance = await getStartingBalance(context.locals.supabase, userId);
+      const startingBalance = await getEarliestStartingBalance(context.locals.supabase, userId);
 
       if (!startingBalance) {
         const error = createNotFoundError("Starting balance not configured. Please set up a starting balance first.");
@@ -88,20 +98,42 @@ export const GET: APIRoute = async (context) => {
       fromDate = startingBalance.effective_date;
     }
 
-    // 4. Determine to_date default (current date + 10 years)
-    let toDate = to_date;
-    if (!toDate) {
-      const futureDate = new Date();
-      futureDate.setFullYear(futureDate.getFullYear() + 10);
-      toDate = futureDate.toISOString().split("T")[0];
-    }
+    // 4. Determine to_date default (current date in the user's time zone + 10 years)
+    const preferences = await getUserPreferences(context.locals.supabase, userId);
+    const today = todayInTimeZone(preferences.time_zone);
+    const toDate = to_date ?? maxProjectionDate(today);
 
     // 5. Generate CSV export
-    const occurrences = await generateCSVExport(context.locals.supabase, userId, fromDate, toDate, entry_type);
-
-    // 6. Format as CSV
-    const csvContent = generateCSVContent(occurrences);
-    const filename = generateCSVFilename();
+    const categoryIds = category_id
+      ? await new CategoriesService(context.locals.supabase).findSubtreeIds(userId, category_id)
+      : undefined;
+    const occurrences = await generateCSVExport(
+      context.locals.supabase,
+      userId,
+      fromDate,
+      toDate,
+      entry_type,
+      categoryIds
+    );
+
+    // 6. Format as CSV, converting amounts into the base currency and, when requested, following the user's
+    // number locale and date format
+    const converter = await new ExchangeRatesService(context.locals.supabase).getConverter(userId);
+    const formatter = formatting === "localized" ? createFormatter(preferences) : undefined;
+    let csvContent: string;
+    try {
+      csvContent = generateCSVContent(occurrences, converter, formatter);
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith("No exchange rate")) {
+        const notFound = createNotFoundError(`${error.message}. Please add an exchange rate first.`);
+        return new Response(JSON.stringify(notFound.body), {
+          status: notFound.status,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      throw error;
+    }
+    const filename = generateCSVFilename(today);
 
     // 7. Return CSV response
     return new Response(csvContent, {
@@ -0,0 +1,98 @@
+import type { APIRoute } from "astro";
+import { exportICSQuerySchema } from "@/lib/validation/export.validation";
+import { fetchICSExportData, generateICSContent, generateICSFilename } from "@/lib/services/ical.service";
+import { getUserPreferences } from "@/lib/services/preferences.service";
+import {
+  createUnauthorizedError,
+  createValidationError,
+  createInternalServerError,
+  formatZodErrors,
+  generateRequestId,
+} from "@/lib/utils/error-response.utils";
+import { getAuthenticatedUser } from "@/lib/utils/auth.utils";
+import { maxProjectionDate, todayInTimeZone } from "@/lib/utils/date.utils";
+
+export const prerender = false;
+
+/**
+ * GET /api/export/ics
+ *
+ * Exports all user entry series as a downloadable iCalendar (RFC 5545) file.
+ * Recurring series become RRULE events with skipped dates as EXDATE and
+ * overridden occurrences as separate VEVENTs with RECURRENCE-ID.
+ *
+ * Query Parameters:
+ * - entry_type (optional): Filter by entry type ('income' or 'expense')
+ *
+ * Response:
+ * - 200 OK: iCalendar file with Content-Disposition header
+ * - 400 Bad Request: Invalid query parameters
+ * - 401 Unauthorized: Missing or invalid authentication
+ * - 500 Internal Server Error: Unexpected error
+ */
+export const GET: APIRoute = async (context) => {
+  const requestId = generateRequestId();
+
+  try {
+    // 1. Authentication check
+    const user = await getAuthenticatedUser(context.locals.supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to GET export/ics`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+    console.log(`[INFO] [${requestId}] Generating iCalendar export for user ${userId}`);
+
+    // 2. Parse and validate query parameters
+    const queryParams = Object.fromEntries(context.url.searchParams.entries());
+    const validationResult = exportICSQuerySchema.safeParse(queryParams);
+
+    if (!validationResult.success) {
+      const error = createValidationError(formatZodErrors(validationResult.error));
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // 3. Series that need explicit dates are listed up to current date + 10 years (same horizon as CSV),
+    // counted from today in the user's time zone
+    const { time_zone } = await getUserPreferences(context.locals.supabase, userId);
+    const today = todayInTimeZone(time_zone);
+    const horizonDate = maxProjectionDate(today);
+
+    // 4. Fetch series and exceptions
+    const data = await fetchICSExportData(
+      context.locals.supabase,
+      userId,
+      horizonDate,
+      validationResult.data.entry_type
+    );
+
+    // 5. Format as iCalendar
+    const icsContent = generateICSContent(data);
+    const filename = generateICSFilename(today);
+
+    // 6. Return iCalendar response
+    return new Response(icsContent, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error(`[ERROR] [${requestId}] Export iCalendar error:`, error);
+
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,142 @@
+import type { APIRoute } from "astro";
+import { exportOFXQuerySchema } from "@/lib/validation/ofx.validation";
+import { generateCSVExport } from "@/lib/services/export.service";
+import { generateOFXContent, generateOFXFilename } from "@/lib/services/ofx.service";
+import { getEarliestStartingBalance } from "@/lib/services/starting-balance.service";
+import { ExchangeRatesService } from "@/lib/services/exchange-rates.service";
+import { getUserPreferences } from "@/lib/services/preferences.service";
+import { CategoriesService } from "@/lib/services/categories.service";
+import {
+  createUnauthorizedError,
+  createNotFoundError,
+  createValidationError,
+  createInternalServerError,
+  formatZodErrors,
+  generateRequestId,
+} from "@/lib/utils/error-response.utils";
+import { getAuthenticatedUser } from "@/lib/utils/auth.utils";
+import { maxProjectionDate, todayInTimeZone } from "@/lib/utils/date.utils";
+
+export const prerender = false;
+
+/**
+ * GET /api/export/ofx
+ *
+ * Exports user occurrences as a downloadable OFX 2.2 bank statement, for
+ * desktop finance tools. All wallets form one account in the base currency;
+ * transfers are left out.
+ *
+ * Query Parameters:
+ * - from_date (optional): Start date for export range (YYYY-MM-DD)
+ * - to_date (optional): End date for export range (YYYY-MM-DD)
+ * - entry_type (optional): Filter by entry type ('income' or 'expense')
+ * - category_id (optional): Filter by category, including its subcategories
+ *
+ * Response:
+ * - 200 OK: OFX file with Content-Disposition header
+ * - 400 Bad Request: Invalid query parameters
+ * - 401 Unauthorized: Missing or invalid authentication
+ * - 404 Not Found: Starting balance not configured (when from_date not provided), or an exchange rate is missing
+ * - 500 Internal Server Error: Unexpected error
+ */
+export const GET: APIRoute = async (context) => {
+  const requestId = generateRequestId();
+
+  try {
+    // 1. Authentication check
+    const user = await getAuthenticatedUser(context.locals.supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to GET export/ofx`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+    console.log(`[INFO] [${requestId}] Generating OFX export for user ${userId}`);
+
+    // 2. Parse and validate query parameters
+    const queryParams = Object.fromEntries(context.url.searchParams.entries());
+    const validationResult = exportOFXQuerySchema.safeParse(queryParams);
+
+    if (!validationResult.success) {
+      const error = createValidationError(formatZodErrors(validationResult.error));
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { from_date, to_date, entry_type, category_id } = validationResult.data;
+
+    // 3. Determine from_date default
+    let fromDate = from_date;
+    if (!fromDate) {
+      const startingBalance = await getEarliestStartingBalance(context.locals.supabase, userId);
+
+      if (!startingBalance) {
+        const error = createNotFoundError("Starting balance not configured. Please set up a starting balance first.");
+        return new Response(JSON.stringify(error.body), {
+          status: error.status,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      fromDate = startingBalance.effective_date;
+    }
+
+    // 4. Determine to_date default (current date in the user's time zone + 10 years)
+    const preferences = await getUserPreferences(context.locals.supabase, userId);
+    const today = todayInTimeZone(preferences.time_zone);
+    const toDate = to_date ?? maxProjectionDate(today);
+
+    // 5. Fetch occurrences (same data as the CSV export)
+    const categoryIds = category_id
+      ? await new CategoriesService(context.locals.supabase).findSubtreeIds(userId, category_id)
+      : undefined;
+    const occurrences = await generateCSVExport(
+      context.locals.supabase,
+      userId,
+      fromDate,
+      toDate,
+      entry_type,
+      categoryIds
+    );
+
+    // 6. Format as OFX, converting amounts into the base currency
+    const converter = await new ExchangeRatesService(context.locals.supabase).getConverter(userId);
+    let content: string;
+    try {
+      content = generateOFXContent(occurrences, { fromDate, toDate, today }, converter);
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith("No exchange rate")) {
+        const notFound = createNotFoundError(`${error.message}. Please add an exchange rate first.`);
+        return new Response(JSON.stringify(notFound.body), {
+          status: notFound.status,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      throw error;
+    }
+    const filename = generateOFXFilename(today);
+
+    // 7. Return OFX response
+    return new Response(content, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/x-ofx; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error(`[ERROR] [${requestId}] Export OFX error:`, error);
+
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,69 @@
+/**
+ * Calendar Feed Endpoint
+ * Serves the subscribable iCalendar feed authenticated by the token in the URL
+ */
+
+import type { APIRoute } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../db/database.types";
+import { calendarFeedService, generateFeedContent } from "../../../lib/services/calendar-feed.service";
+import { calendarFeedTokenSchema } from "../../../lib/validation/calendar-feed.validation";
+import {
+  createNotFoundError,
+  createInternalServerError,
+  generateRequestId,
+} from "../../../lib/utils/error-response.utils";
+
+// Disable prerendering for API routes
+export const prerender = false;
+
+/**
+ * GET /api/feeds/{token}.ics
+ * Returns occurrences from a month ago to a year ahead as an iCalendar feed.
+ * No session is required (calendar apps cannot log in); the middleware lets this path through
+ * and the token is checked by the database. The token is never logged.
+ *
+ * Response:
+ * - 200 OK: text/calendar feed
+ * - 404 Not Found: Malformed, unknown or revoked token
+ * - 500 Internal Server Error: Unexpected error
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Malformed tokens get the same answer as unknown ones
+    const tokenResult = calendarFeedTokenSchema.safeParse(params.token);
+    const occurrences = tokenResult.success
+      ? await calendarFeedService.getFeedOccurrences(supabase, tokenResult.data)
+      : null;
+
+    if (!occurrences) {
+      console.log(`[WARN] [${requestId}] Calendar feed requested with an unknown token`);
+      const error = createNotFoundError("Calendar feed not found");
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`[INFO] [${requestId}] Serving calendar feed with ${occurrences.length} occurrences`);
+
+    return new Response(generateFeedContent(occurrences), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Cache-Control": "private, max-age=900",
+      },
+    });
+  } catch (error) {
+    console.error(`[ERROR] [${requestId}] Error serving calendar feed:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,153 @@
+/**
+ * Calendar Feed API Endpoints
+ * Handles GET, POST, and DELETE operations for the user's private calendar feed token
+ */
+
+import type { APIRoute } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../db/database.types";
+import { calendarFeedService } from "../../../lib/services/calendar-feed.service";
+import {
+  createUnauthorizedError,
+  createNotFoundError,
+  createInternalServerError,
+  generateRequestId,
+} from "../../../lib/utils/error-response.utils";
+import type { CalendarFeedDTO, SuccessMessageDTO } from "../../../types";
+import { getAuthenticatedUser } from "../../../lib/utils/auth.utils";
+
+// Disable prerendering for API routes
+export const prerender = false;
+
+/**
+ * GET /api/feeds
+ * Report whether the authenticated user has an active calendar feed
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to GET feeds`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const status = await calendarFeedService.getCalendarFeedStatus(supabase, user.userId);
+
+    return new Response(JSON.stringify(status), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error(`[ERROR] [${requestId}] Error fetching calendar feed status:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * POST /api/feeds
+ * Generate a new feed URL for the authenticated user
+ * Any previous feed URL stops working; the new URL is only returned in this response
+ */
+export const POST: APIRoute = async ({ locals, url }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to POST feeds`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+    console.log(`[INFO] [${requestId}] Generating calendar feed token for user ${userId}`);
+
+    const { token, created_at } = await calendarFeedService.regenerateCalendarFeedToken(supabase, userId);
+
+    const response: CalendarFeedDTO = {
+      feed_url: `${url.origin}/api/feeds/${token}.ics`,
+      created_at,
+    };
+    return new Response(JSON.stringify(response), {
+      status: 201,
+      headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error(`[ERROR] [${requestId}] Error generating calendar feed token:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * DELETE /api/feeds
+ * Revoke the authenticated user's feed URL
+ */
+export const DELETE: APIRoute = async ({ locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to DELETE feeds`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+    console.log(`[INFO] [${requestId}] Revoking calendar feed token for user ${userId}`);
+
+    const revoked = await calendarFeedService.revokeCalendarFeedToken(supabase, userId);
+
+    if (!revoked) {
+      const error = createNotFoundError("Calendar feed not found");
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const response: SuccessMessageDTO = {
+      message: "Calendar feed revoked successfully",
+    };
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error(`[ERROR] [${requestId}] Error revoking calendar feed token:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
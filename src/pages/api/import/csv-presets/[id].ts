@@ -0,0 +1,210 @@
+/**
+ * CSV Import Presets API Endpoints - Update, Delete
+ * Handles PUT and DELETE for a specific column mapping preset by ID
+ */
+
+import type { APIRoute } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../../db/database.types";
+import { getAuthenticatedUser } from "../../../../lib/utils/auth.utils";
+import { CSVImportPresetsService } from "../../../../lib/services/csv-import-presets.service";
+import { createCSVImportPresetSchema } from "../../../../lib/validation/import.validation";
+import {
+  createUnauthorizedError,
+  createValidationError,
+  createInternalServerError,
+  formatZodErrors,
+  generateRequestId,
+} from "../../../../lib/utils/error-response.utils";
+import type { ConflictErrorDTO, NotFoundErrorDTO, SuccessMessageDTO } from "../../../../types";
+import { z } from "zod";
+
+// Disable prerendering for API routes
+export const prerender = false;
+
+// Validate ID as UUID (basic check)
+const uuidSchema = z.string().uuid();
+
+/**
+ * PUT /api/import/csv-presets/:id
+ * Rename a preset or replace its mapping
+ *
+ * Returns:
+ * - 200: CSVImportPresetDTO
+ * - 400: Validation error or invalid ID
+ * - 401: Unauthorized
+ * - 404: Preset not found
+ * - 409: A preset with that name already exists
+ * - 500: Internal server error
+ */
+export const PUT: APIRoute = async ({ request, locals, params }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to PUT import/csv-presets/${params.id}`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // Validate ID
+    const idValidation = uuidSchema.safeParse(params.id);
+    if (!idValidation.success) {
+      console.log(`[WARN] [${requestId}] Invalid ID format for user ${userId}: ${params.id}`);
+      const error = createValidationError({ id: "ID must be a valid UUID" });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const id = idValidation.data;
+
+    // Parse request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      console.log(`[WARN] [${requestId}] Invalid JSON in request body`);
+      const error = createValidationError({
+        body: "Request body must be valid JSON",
+      });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body using Zod schema
+    const bodyValidation = createCSVImportPresetSchema.safeParse(body);
+    if (!bodyValidation.success) {
+      console.log(`[WARN] [${requestId}] Body validation failed for user ${userId}:`, bodyValidation.error);
+      const error = createValidationError(formatZodErrors(bodyValidation.error));
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`[INFO] [${requestId}] Updating CSV import preset for user ${userId}, id ${id}`);
+
+    const service = new CSVImportPresetsService(supabase);
+    const updated = await service.update(userId, id, bodyValidation.data);
+
+    return new Response(JSON.stringify(updated), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === "NotFoundError") {
+      const dto: NotFoundErrorDTO = {
+        error: "Not found",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    if (err.name === "ConflictError") {
+      const dto: ConflictErrorDTO = {
+        error: "Conflict",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    console.error(`[ERROR] [${requestId}] Error updating CSV import preset:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * DELETE /api/import/csv-presets/:id
+ * Delete a column mapping preset
+ *
+ * Returns:
+ * - 200: Success message
+ * - 400: Invalid ID
+ * - 401: Unauthorized
+ * - 404: Preset not found
+ * - 500: Internal server error
+ */
+export const DELETE: APIRoute = async ({ locals, params }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to DELETE import/csv-presets/${params.id}`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // Validate ID
+    const idValidation = uuidSchema.safeParse(params.id);
+    if (!idValidation.success) {
+      console.log(`[WARN] [${requestId}] Invalid ID format for user ${userId}: ${params.id}`);
+      const error = createValidationError({ id: "ID must be a valid UUID" });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const id = idValidation.data;
+
+    console.log(`[INFO] [${requestId}] Deleting CSV import preset for user ${userId}, id ${id}`);
+
+    const service = new CSVImportPresetsService(supabase);
+    await service.delete(userId, id);
+
+    const response: SuccessMessageDTO = {
+      message: "Preset deleted successfully",
+    };
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === "NotFoundError") {
+      const dto: NotFoundErrorDTO = {
+        error: "Not found",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    console.error(`[ERROR] [${requestId}] Error deleting CSV import preset:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
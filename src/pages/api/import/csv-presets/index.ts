@@ -0,0 +1,151 @@
+/**
+ * CSV Import Presets API Endpoints
+ * Handles listing and saving bank statement column mappings
+ */
+
+import type { APIRoute } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../../db/database.types";
+import { getAuthenticatedUser } from "../../../../lib/utils/auth.utils";
+import { CSVImportPresetsService } from "../../../../lib/services/csv-import-presets.service";
+import { createCSVImportPresetSchema } from "../../../../lib/validation/import.validation";
+import {
+  createUnauthorizedError,
+  createValidationError,
+  createInternalServerError,
+  formatZodErrors,
+  generateRequestId,
+} from "../../../../lib/utils/error-response.utils";
+import type { ConflictErrorDTO } from "../../../../types";
+
+// Disable prerendering for API routes
+export const prerender = false;
+
+/**
+ * GET /api/import/csv-presets
+ * List the authenticated user's column mapping presets, sorted by name
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to GET import/csv-presets`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+    console.log(`[INFO] [${requestId}] Fetching CSV import presets for user ${userId}`);
+
+    const service = new CSVImportPresetsService(supabase);
+    const presets = await service.findAll(userId);
+
+    return new Response(JSON.stringify(presets), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error(`[ERROR] [${requestId}] Error fetching CSV import presets:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * POST /api/import/csv-presets
+ * Save a column mapping under a name
+ *
+ * Returns:
+ * - 201: CSVImportPresetDTO
+ * - 400: Validation error
+ * - 401: Unauthorized
+ * - 409: A preset with that name already exists
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to POST import/csv-presets`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // Parse request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      console.log(`[WARN] [${requestId}] Invalid JSON in request body`);
+      const error = createValidationError({
+        body: "Request body must be valid JSON",
+      });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body using Zod schema
+    const validationResult = createCSVImportPresetSchema.safeParse(body);
+    if (!validationResult.success) {
+      console.log(`[WARN] [${requestId}] Validation failed for user ${userId}:`, validationResult.error);
+      const error = createValidationError(formatZodErrors(validationResult.error));
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`[INFO] [${requestId}] Creating CSV import preset for user ${userId}`);
+
+    const service = new CSVImportPresetsService(supabase);
+    const preset = await service.create(userId, validationResult.data);
+
+    console.log(`[INFO] [${requestId}] Successfully created CSV import preset ${preset.id} for user ${userId}`);
+
+    return new Response(JSON.stringify(preset), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === "ConflictError") {
+      const dto: ConflictErrorDTO = {
+        error: "Conflict",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    console.error(`[ERROR] [${requestId}] Error creating CSV import preset:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
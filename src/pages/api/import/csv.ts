@@ -0,0 +1,109 @@
+import type { APIRoute } from "astro";
+import { importCSVBodySchema } from "@/lib/validation/import.validation";
+import { importBankCSV } from "@/lib/services/statement-import.service";
+import {
+  createUnauthorizedError,
+  createValidationError,
+  createInternalServerError,
+  formatZodErrors,
+  generateRequestId,
+} from "@/lib/utils/error-response.utils";
+import { getAuthenticatedUser } from "@/lib/utils/auth.utils";
+import type { NotFoundErrorDTO } from "@/types";
+
+export const prerender = false;
+
+/**
+ * POST /api/import/csv
+ *
+ * Imports the transactions of a bank statement CSV file as one-time entries:
+ * negative amounts (after the sign convention) become expenses, positive ones
+ * income. Rows that cannot be read with the column mapping, or that the entry
+ * validation rejects, are reported in `skipped` with the reasons.
+ *
+ * Request Body: CSVImportCommand (the decoded file content, at most 2 MB, and
+ * its column mapping; optionally the wallet and the preview rows to import)
+ *
+ * Response:
+ * - 200 OK: StatementImportResponseDTO with imported entries and skipped rows
+ * - 400 Bad Request: Invalid JSON or validation error
+ * - 401 Unauthorized: Missing or invalid authentication
+ * - 404 Not Found: Wallet not found
+ * - 500 Internal Server Error: Unexpected error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    // 1. Authentication check
+    const user = await getAuthenticatedUser(locals.supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to POST import/csv`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // 2. Parse request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      console.log(`[WARN] [${requestId}] Invalid JSON in request body`);
+      const error = createValidationError({
+        body: "Request body must be valid JSON",
+      });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // 3. Validate request body
+    const validationResult = importCSVBodySchema.safeParse(body);
+    if (!validationResult.success) {
+      console.log(`[WARN] [${requestId}] Invalid CSV import body from user ${userId}`);
+      const error = createValidationError(formatZodErrors(validationResult.error));
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // 4. Import transactions
+    console.log(`[INFO] [${requestId}] Importing bank statement CSV for user ${userId}`);
+    const result = await importBankCSV(locals.supabase, userId, validationResult.data);
+
+    console.log(
+      `[INFO] [${requestId}] Imported ${result.imported.length} entries, skipped ${result.skipped.length} rows for user ${userId}`
+    );
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === "NotFoundError") {
+      const dto: NotFoundErrorDTO = {
+        error: "Not found",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    console.error(`[ERROR] [${requestId}] Import bank statement CSV error:`, error);
+
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
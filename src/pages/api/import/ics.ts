@@ -0,0 +1,83 @@
+import type { APIRoute } from "astro";
+import { importICSBodySchema } from "@/lib/validation/import.validation";
+import { importICS } from "@/lib/services/ical.service";
+import {
+  createUnauthorizedError,
+  createValidationError,
+  createInternalServerError,
+  generateRequestId,
+} from "@/lib/utils/error-response.utils";
+import { getAuthenticatedUser } from "@/lib/utils/auth.utils";
+
+export const prerender = false;
+
+/**
+ * POST /api/import/ics
+ *
+ * Imports the events of an iCalendar (RFC 5545) file as entry series.
+ * EXDATE becomes skip exceptions and VEVENTs with RECURRENCE-ID become overrides.
+ * Events using recurrence features the model cannot represent (for example
+ * FREQ=DAILY, BYWEEKNO or EXRULE) are reported in `skipped` with the reasons.
+ *
+ * Request Body: raw iCalendar content (text/calendar), at most 1 MB
+ *
+ * Response:
+ * - 200 OK: ICSImportResponseDTO with imported series and skipped events
+ * - 400 Bad Request: Body is not an iCalendar file
+ * - 401 Unauthorized: Missing or invalid authentication
+ * - 500 Internal Server Error: Unexpected error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    // 1. Authentication check
+    const user = await getAuthenticatedUser(locals.supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to POST import/ics`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // 2. Validate request body
+    const body = await request.text();
+    const validationResult = importICSBodySchema.safeParse(body);
+
+    if (!validationResult.success) {
+      console.log(`[WARN] [${requestId}] Invalid iCalendar body from user ${userId}`);
+      const error = createValidationError({
+        body: validationResult.error.errors[0].message,
+      });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // 3. Import events
+    console.log(`[INFO] [${requestId}] Importing iCalendar for user ${userId}`);
+    const result = await importICS(locals.supabase, userId, validationResult.data);
+
+    console.log(
+      `[INFO] [${requestId}] Imported ${result.imported.length} series, skipped ${result.skipped.length} events for user ${userId}`
+    );
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error(`[ERROR] [${requestId}] Import iCalendar error:`, error);
+
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
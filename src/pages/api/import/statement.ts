@@ -0,0 +1,156 @@
+import type { APIRoute } from "astro";
+import { importStatementFileBodySchema } from "@/lib/validation/import.validation";
+import { importStatementFile, parseStatementFile } from "@/lib/services/statement-import.service";
+import { formatStatementErrors } from "@/lib/utils/statement.utils";
+import {
+  createUnauthorizedError,
+  createValidationError,
+  createInternalServerError,
+  formatZodErrors,
+  generateRequestId,
+} from "@/lib/utils/error-response.utils";
+import { getAuthenticatedUser } from "@/lib/utils/auth.utils";
+import type { ConflictErrorDTO, ErrorResponseDTO, NotFoundErrorDTO } from "@/types";
+
+export const prerender = false;
+
+const FORMAT_NAMES = { camt053: "camt.053", mt940: "MT940", ofx: "OFX", qif: "QIF" } as const;
+
+/**
+ * POST /api/import/statement
+ *
+ * Imports the booked transactions of an ISO 20022 camt.053 (XML), SWIFT MT940,
+ * OFX/QFX or QIF file as one-time entries, like POST /api/import/csv. Parsing
+ * is strict: a file with any malformed field, or whose balances do not add up,
+ * is rejected as a whole with the errors keyed by line. Optionally sets the
+ * wallet's starting balance from the statement's opening or closing balance.
+ *
+ * Request Body: StatementFileImportCommand (format and file content, at most
+ * 2 MB; optionally the wallet and which balance to use as starting balance)
+ *
+ * Response:
+ * - 200 OK: StatementFileImportResponseDTO with imported entries and skipped
+ *   transactions, and the starting balance if one was set
+ * - 400 Bad Request: Invalid JSON, validation error, or a statement that could
+ *   not be read (ErrorResponseDTO with details keyed "line N")
+ * - 401 Unauthorized: Missing or invalid authentication
+ * - 404 Not Found: Wallet not found
+ * - 409 Conflict: The statement balance is in another currency than the wallet
+ * - 500 Internal Server Error: Unexpected error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    // 1. Authentication check
+    const user = await getAuthenticatedUser(locals.supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to POST import/statement`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // 2. Parse request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      console.log(`[WARN] [${requestId}] Invalid JSON in request body`);
+      const error = createValidationError({
+        body: "Request body must be valid JSON",
+      });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // 3. Validate request body
+    const validationResult = importStatementFileBodySchema.safeParse(body);
+    if (!validationResult.success) {
+      console.log(`[WARN] [${requestId}] Invalid statement import body from user ${userId}`);
+      const error = createValidationError(formatZodErrors(validationResult.error));
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { format, content, ...command } = validationResult.data;
+
+    // 4. Parse the statement; any error rejects the file
+    const { statement, errors } = parseStatementFile(format, content);
+    if (errors.length > 0) {
+      console.log(
+        `[WARN] [${requestId}] Rejected ${format} statement with ${errors.length} errors from user ${userId}`
+      );
+      const dto: ErrorResponseDTO = {
+        error: "Invalid statement",
+        message: `The ${FORMAT_NAMES[format]} file could not be read (${errors.length} ${errors.length === 1 ? "error" : "errors"})`,
+        details: formatStatementErrors(errors),
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const balance = command.starting_balance ? statement[`${command.starting_balance}_balance`] : null;
+    if (command.starting_balance && !balance) {
+      const error = createValidationError({
+        starting_balance: `The statement has no ${command.starting_balance} balance`,
+      });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // 5. Import transactions
+    console.log(`[INFO] [${requestId}] Importing ${format} statement for user ${userId}`);
+    const result = await importStatementFile(locals.supabase, userId, statement, command);
+
+    console.log(
+      `[INFO] [${requestId}] Imported ${result.imported.length} entries, skipped ${result.skipped.length} transactions for user ${userId}`
+    );
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === "NotFoundError") {
+      const dto: NotFoundErrorDTO = {
+        error: "Not found",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    if (err.name === "ConflictError") {
+      const dto: ConflictErrorDTO = {
+        error: "Conflict",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    console.error(`[ERROR] [${requestId}] Import statement error:`, error);
+
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
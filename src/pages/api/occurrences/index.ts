@@ -28,6 +28,9 @@ export const prerender = false;
  * - from_date (required): Start date in YYYY-MM-DD format
  * - to_date (required): End date in YYYY-MM-DD format
  * - entry_type (optional): Filter by "income" or "expense"
+ * - wallet_id (optional): Filter by wallet, including transfers into it
+ * - category_id (optional): Filter by category, including its subcategories
+ * - tags (optional): Comma-separated tag names; occurrences with any of them
  * - limit (optional): Number of results per page (default: 100, max: 1000)
  * - offset (optional): Number of results to skip (default: 0)
  *
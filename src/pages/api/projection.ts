@@ -1,6 +1,8 @@
 import type { APIRoute } from "astro";
 import { getProjectionQuerySchema, validateProjectionDateRange } from "@/lib/validation/projection.validation";
 import { ProjectionService } from "@/lib/services/projection.service";
+import { getUserPreferences } from "@/lib/services/preferences.service";
+import { todayInTimeZone } from "@/lib/utils/date.utils";
 import {
   createUnauthorizedError,
   createNotFoundError,
@@ -18,12 +20,14 @@ export const prerender = false;
  *
  * Query Parameters:
  * - date (required): Target date in YYYY-MM-DD format
+ * - scenario (optional): Scenario UUID; projects "baseline + scenario" instead of the real plan
+ * - wallet (optional): Wallet UUID; projects that wallet instead of all wallets consolidated
  *
  * Returns:
  * - 200: ProjectionDTO with balance, computation breakdown, and date limits
  * - 400: Validation error (invalid date format or out of range)
  * - 401: Unauthorized (handled by middleware)
- * - 404: Starting balance not configured
+ * - 404: Starting balance, scenario, wallet or exchange rate not found
  * - 500: Internal server error
  */
 export const GET: APIRoute = async ({ request, locals }) => {
@@ -51,6 +55,8 @@ export const GET: APIRoute = async ({ request, locals }) => {
     const url = new URL(request.url);
     const queryParams = {
       date: url.searchParams.get("date"),
+      scenario: url.searchParams.get("scenario") ?? undefined,
+      wallet: url.searchParams.get("wallet") ?? undefined,
     };
 
     // Validate query parameter format
@@ -74,17 +80,23 @@ export const GET: APIRoute = async ({ request, locals }) => {
     }
 
     const targetDate = validation.data.date;
+    const scenarioId = validation.data.scenario ?? null;
+    const walletId = validation.data.wallet ?? null;
 
     // Step 3: Fetch starting balance to validate date range
     let startingBalanceDate: string;
 
     try {
       // Try to get starting balance to validate date range
-      const { data: startingBalance, error: sbError } = await supabase
-        .from("starting_balances")
-        .select("effective_date")
-        .eq("user_id", userId)
-        .single();
+      // (consolidated projections start at the earliest wallet's starting balance)
+      let startingBalanceQuery = supabase.from("starting_balances").select("effective_date").eq("user_id", userId);
+      if (walletId) {
+        startingBalanceQuery = startingBalanceQuery.eq("wallet_id", walletId);
+      }
+      const { data: startingBalance, error: sbError } = await startingBalanceQuery
+        .order("effective_date", { ascending: true })
+        .limit(1)
+        .maybeSingle();
 
       if (sbError || !startingBalance) {
         console.log(`[WARN] [${requestId}] Starting balance not found for user ${userId}`);
@@ -105,8 +117,13 @@ export const GET: APIRoute = async ({ request, locals }) => {
       });
     }
 
-    // Validate date range
-    const dateRangeValidation = validateProjectionDateRange(targetDate, startingBalanceDate);
+    // Validate date range (the 10 year limit counts from today in the user's time zone)
+    const { time_zone } = await getUserPreferences(supabase, userId);
+    const dateRangeValidation = validateProjectionDateRange(
+      targetDate,
+      startingBalanceDate,
+      todayInTimeZone(time_zone)
+    );
 
     if (!dateRangeValidation.valid) {
       console.log(`[WARN] [${requestId}] Date range validation failed:`, dateRangeValidation.error);
@@ -121,7 +138,7 @@ export const GET: APIRoute = async ({ request, locals }) => {
 
     // Step 4: Call service layer to get projection
     const projectionService = new ProjectionService(supabase, userId);
-    const projection = await projectionService.getProjection(targetDate);
+    const projection = await projectionService.getProjection(targetDate, scenarioId, walletId);
 
     // Step 5: Return success response
     console.log(`[INFO] [${requestId}] Successfully computed projection for user ${userId}`);
@@ -140,6 +157,24 @@ export const GET: APIRoute = async ({ request, locals }) => {
           headers: { "Content-Type": "application/json" },
         });
       }
+
+      if (error.message.startsWith("No exchange rate")) {
+        console.log(`[WARN] [${requestId}] Exchange rate not found:`, error.message);
+        const errorResponse = createNotFoundError(error.message);
+        return new Response(JSON.stringify(errorResponse.body), {
+          status: errorResponse.status,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      if (error.message.startsWith("Scenario with id") || error.message.startsWith("Wallet with id")) {
+        console.log(`[WARN] [${requestId}] Scenario or wallet not found:`, error.message);
+        const errorResponse = createNotFoundError(error.message);
+        return new Response(JSON.stringify(errorResponse.body), {
+          status: errorResponse.status,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
     }
 
     // Log and return generic error
@@ -0,0 +1,105 @@
+import type { APIRoute } from "astro";
+import { ProjectionService } from "@/lib/services/projection.service";
+import { preferencesService } from "@/lib/services/preferences.service";
+import {
+  createUnauthorizedError,
+  createNotFoundError,
+  createInternalServerError,
+  createValidationError,
+  formatZodErrors,
+  generateRequestId,
+} from "@/lib/utils/error-response.utils";
+import { getAuthenticatedUser } from "@/lib/utils/auth.utils";
+import { walletQuerySchema } from "@/lib/validation/wallets.validation";
+
+export const prerender = false;
+
+/**
+ * GET /api/projection/low-balance
+ * Scans the projection horizon against the user's minimum balance threshold
+ *
+ * Query Parameters:
+ * - wallet (optional): Wallet UUID; scans that wallet instead of all wallets consolidated
+ *
+ * Returns:
+ * - 200: LowBalanceForecastDTO with the first breach date and the lowest projected balance
+ * - 401: Unauthorized (handled by middleware)
+ * - 400: Invalid wallet id
+ * - 404: Starting balance, wallet or exchange rate not found
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    // Step 1: Extract authenticated user and Supabase client
+    const supabase = locals.supabase;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to GET low balance forecast`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+    console.log(`[INFO] [${requestId}] Fetching low balance forecast for user ${userId}`);
+
+    const url = new URL(request.url);
+    const validation = walletQuerySchema.safeParse({ wallet: url.searchParams.get("wallet") ?? undefined });
+    if (!validation.success) {
+      console.log(`[WARN] [${requestId}] Query validation failed:`, validation.error);
+      const error = createValidationError(formatZodErrors(validation.error));
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Step 2: Load the user's threshold
+    const preferences = await preferencesService.getUserPreferences(supabase, userId);
+
+    // Step 3: Call service layer to scan the horizon
+    const projectionService = new ProjectionService(supabase, userId);
+    const forecast = await projectionService.getLowBalanceForecast(
+      preferences.low_balance_threshold,
+      validation.data.wallet ?? null
+    );
+
+    // Step 4: Return success response
+    console.log(
+      `[INFO] [${requestId}] Successfully computed low balance forecast for user ${userId} (breach: ${forecast.first_breach_date ?? "none"})`
+    );
+    return new Response(JSON.stringify(forecast), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // Handle specific errors
+    if (
+      error instanceof Error &&
+      (error.message.includes("No starting balance") ||
+        error.message.startsWith("Wallet with id") ||
+        error.message.startsWith("No exchange rate"))
+    ) {
+      console.log(`[WARN] [${requestId}] Starting balance, wallet or exchange rate not found:`, error.message);
+      const errorResponse = createNotFoundError(error.message);
+      return new Response(JSON.stringify(errorResponse.body), {
+        status: errorResponse.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Log and return generic error
+    console.error(`[ERROR] [${requestId}] Error computing low balance forecast:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
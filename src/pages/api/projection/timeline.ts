@@ -0,0 +1,188 @@
+import type { APIRoute } from "astro";
+import { getBalanceTimelineQuerySchema, validateProjectionDateRange } from "@/lib/validation/projection.validation";
+import { ProjectionService } from "@/lib/services/projection.service";
+import { getUserPreferences } from "@/lib/services/preferences.service";
+import { todayInTimeZone } from "@/lib/utils/date.utils";
+import {
+  createUnauthorizedError,
+  createNotFoundError,
+  createInternalServerError,
+  createValidationError,
+  generateRequestId,
+} from "@/lib/utils/error-response.utils";
+import { getAuthenticatedUser } from "@/lib/utils/auth.utils";
+
+export const prerender = false;
+
+/**
+ * GET /api/projection/timeline
+ * Computes the running projected balance over a date range in a single query, for charting
+ *
+ * Query Parameters:
+ * - from (required): First day of the timeline in YYYY-MM-DD format
+ * - to (required): Last day of the timeline in YYYY-MM-DD format
+ * - granularity (optional): day | week | month (default: day)
+ * - scenario (optional): Scenario UUID; projects "baseline + scenario" instead of the real plan
+ * - wallet (optional): Wallet UUID; projects that wallet instead of all wallets consolidated
+ *
+ * Returns:
+ * - 200: BalanceTimelineDTO with per-bucket income, expense, net change and balance
+ * - 400: Validation error (invalid dates, granularity or out of range)
+ * - 401: Unauthorized (handled by middleware)
+ * - 404: Starting balance, scenario, wallet or exchange rate not found
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    // Step 1: Extract authenticated user and Supabase client
+    const supabase = locals.supabase;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to GET projection timeline`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+    console.log(`[INFO] [${requestId}] Fetching projection timeline for user ${userId}`);
+
+    // Step 2: Parse and validate query parameters
+    const url = new URL(request.url);
+    const queryParams = {
+      from: url.searchParams.get("from"),
+      to: url.searchParams.get("to"),
+      granularity: url.searchParams.get("granularity") ?? undefined,
+      scenario: url.searchParams.get("scenario") ?? undefined,
+      wallet: url.searchParams.get("wallet") ?? undefined,
+    };
+
+    const validation = getBalanceTimelineQuerySchema.safeParse(queryParams);
+    if (!validation.success) {
+      console.log(`[WARN] [${requestId}] Query validation failed:`, validation.error);
+      const errors = validation.error.flatten().fieldErrors;
+      const details: Record<string, string> = {};
+
+      for (const [field, messages] of Object.entries(errors)) {
+        if (messages && messages.length > 0) {
+          details[field] = messages[0];
+        }
+      }
+
+      const error = createValidationError(details);
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { from, to, granularity, scenario, wallet } = validation.data;
+
+    // Step 3: Fetch starting balance to validate date range
+    // (consolidated timelines start at the earliest wallet's starting balance)
+    let startingBalanceQuery = supabase.from("starting_balances").select("effective_date").eq("user_id", userId);
+    if (wallet) {
+      startingBalanceQuery = startingBalanceQuery.eq("wallet_id", wallet);
+    }
+    const { data: startingBalance, error: sbError } = await startingBalanceQuery
+      .order("effective_date", { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (sbError || !startingBalance) {
+      console.log(`[WARN] [${requestId}] Starting balance not found for user ${userId}`);
+      const error = createNotFoundError("No starting balance configured. Please set a starting balance first.");
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate both ends of the range (the 10 year limit counts from today in the user's time zone)
+    const { time_zone } = await getUserPreferences(supabase, userId);
+    const today = todayInTimeZone(time_zone);
+    const details: Record<string, string> = {};
+    for (const [field, date] of [
+      ["from", from],
+      ["to", to],
+    ] as const) {
+      const dateRangeValidation = validateProjectionDateRange(date, startingBalance.effective_date, today);
+      if (!dateRangeValidation.valid) {
+        details[field] = dateRangeValidation.error || "Invalid date range";
+      }
+    }
+
+    if (Object.keys(details).length > 0) {
+      console.log(`[WARN] [${requestId}] Date range validation failed:`, details);
+      const error = createValidationError(details);
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Step 4: Call service layer to get timeline
+    const projectionService = new ProjectionService(supabase, userId);
+    const timeline = await projectionService.getBalanceTimeline(
+      from,
+      to,
+      granularity,
+      scenario ?? null,
+      wallet ?? null
+    );
+
+    // Step 5: Return success response
+    console.log(
+      `[INFO] [${requestId}] Successfully computed ${timeline.points.length} timeline points for user ${userId}`
+    );
+    return new Response(JSON.stringify(timeline), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // Handle specific errors
+    if (error instanceof Error && error.message.includes("No starting balance")) {
+      console.log(`[WARN] [${requestId}] Starting balance not found:`, error.message);
+      const errorResponse = createNotFoundError(error.message);
+      return new Response(JSON.stringify(errorResponse.body), {
+        status: errorResponse.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (error instanceof Error && error.message.startsWith("No exchange rate")) {
+      console.log(`[WARN] [${requestId}] Exchange rate not found:`, error.message);
+      const errorResponse = createNotFoundError(error.message);
+      return new Response(JSON.stringify(errorResponse.body), {
+        status: errorResponse.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message.startsWith("Scenario with id") || error.message.startsWith("Wallet with id"))
+    ) {
+      console.log(`[WARN] [${requestId}] Scenario or wallet not found:`, error.message);
+      const errorResponse = createNotFoundError(error.message);
+      return new Response(JSON.stringify(errorResponse.body), {
+        status: errorResponse.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Log and return generic error
+    console.error(`[ERROR] [${requestId}] Error computing projection timeline:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,247 @@
+/**
+ * Scenarios API Endpoints - Detail, Update, Delete
+ * Handles GET, PUT, DELETE for a specific scenario by ID
+ */
+
+import type { APIRoute } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../db/database.types";
+import { getAuthenticatedUser } from "../../../lib/utils/auth.utils";
+import { ScenariosService } from "../../../lib/services/scenarios.service";
+import { updateScenarioSchema } from "../../../lib/validation/scenarios.validation";
+import {
+  createUnauthorizedError,
+  createValidationError,
+  createNotFoundError,
+  createInternalServerError,
+  formatZodErrors,
+  generateRequestId,
+} from "../../../lib/utils/error-response.utils";
+import type { NotFoundErrorDTO, SuccessMessageDTO } from "../../../types";
+import { z } from "zod";
+
+// Disable prerendering for API routes
+export const prerender = false;
+
+// Validate ID as UUID (basic check)
+const uuidSchema = z.string().uuid();
+
+/**
+ * GET /api/scenarios/:id
+ * Retrieve a scenario with its hypothetical entries and overrides
+ */
+export const GET: APIRoute = async ({ locals, params }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to GET scenario ${params.id}`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // Validate ID
+    const idValidation = uuidSchema.safeParse(params.id);
+    if (!idValidation.success) {
+      console.log(`[WARN] [${requestId}] Invalid ID format for user ${userId}: ${params.id}`);
+      const error = createValidationError({ id: "ID must be a valid UUID" });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const id = idValidation.data;
+
+    const service = new ScenariosService(supabase);
+    const scenario = await service.findById(userId, id);
+
+    if (!scenario) {
+      console.log(`[WARN] [${requestId}] Scenario not found for user ${userId}, id ${id}`);
+      const error = createNotFoundError(`Scenario with id ${id} not found`);
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(scenario), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error(`[ERROR] [${requestId}] Error fetching scenario:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * PUT /api/scenarios/:id
+ * Rename a scenario or change its description
+ */
+export const PUT: APIRoute = async ({ request, locals, params }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to PUT scenario ${params.id}`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // Validate ID
+    const idValidation = uuidSchema.safeParse(params.id);
+    if (!idValidation.success) {
+      console.log(`[WARN] [${requestId}] Invalid ID format for user ${userId}: ${params.id}`);
+      const error = createValidationError({ id: "ID must be a valid UUID" });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const id = idValidation.data;
+
+    // Parse request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      console.log(`[WARN] [${requestId}] Invalid JSON in request body`);
+      const error = createValidationError({
+        body: "Request body must be valid JSON",
+      });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body using Zod schema
+    const bodyValidation = updateScenarioSchema.safeParse(body);
+    if (!bodyValidation.success) {
+      console.log(`[WARN] [${requestId}] Body validation failed for user ${userId}:`, bodyValidation.error);
+      const error = createValidationError(formatZodErrors(bodyValidation.error));
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`[INFO] [${requestId}] Updating scenario for user ${userId}, id ${id}`);
+
+    const service = new ScenariosService(supabase);
+    const updated = await service.update(userId, id, bodyValidation.data);
+
+    return new Response(JSON.stringify(updated), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === "NotFoundError") {
+      const dto: NotFoundErrorDTO = {
+        error: "Not found",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    console.error(`[ERROR] [${requestId}] Error updating scenario:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * DELETE /api/scenarios/:id
+ * Delete a scenario together with its hypothetical entries and overrides
+ */
+export const DELETE: APIRoute = async ({ locals, params }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to DELETE scenario ${params.id}`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // Validate ID
+    const idValidation = uuidSchema.safeParse(params.id);
+    if (!idValidation.success) {
+      console.log(`[WARN] [${requestId}] Invalid ID format for user ${userId}: ${params.id}`);
+      const error = createValidationError({ id: "ID must be a valid UUID" });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const id = idValidation.data;
+
+    console.log(`[INFO] [${requestId}] Deleting scenario for user ${userId}, id ${id}`);
+
+    const service = new ScenariosService(supabase);
+    await service.delete(userId, id);
+
+    const response: SuccessMessageDTO = {
+      message: "Scenario deleted successfully",
+    };
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === "NotFoundError") {
+      const dto: NotFoundErrorDTO = {
+        error: "Not found",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    console.error(`[ERROR] [${requestId}] Error deleting scenario:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,94 @@
+/**
+ * Scenario Apply API Endpoint
+ * Turns a scenario's hypothetical entries and overrides into real ones
+ */
+
+import type { APIRoute } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../../db/database.types";
+import { getAuthenticatedUser } from "../../../../lib/utils/auth.utils";
+import { ScenariosService } from "../../../../lib/services/scenarios.service";
+import {
+  createUnauthorizedError,
+  createValidationError,
+  createInternalServerError,
+  generateRequestId,
+} from "../../../../lib/utils/error-response.utils";
+import type { NotFoundErrorDTO } from "../../../../types";
+import { z } from "zod";
+
+// Disable prerendering for API routes
+export const prerender = false;
+
+// Validate ID as UUID (basic check)
+const uuidSchema = z.string().uuid();
+
+/**
+ * POST /api/scenarios/:id/apply
+ * Move the scenario's entries and overrides into the real plan
+ * The scenario is kept (empty) with applied_at set, so it can be reused or deleted
+ */
+export const POST: APIRoute = async ({ locals, params }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to apply scenario ${params.id}`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // Validate ID
+    const idValidation = uuidSchema.safeParse(params.id);
+    if (!idValidation.success) {
+      console.log(`[WARN] [${requestId}] Invalid ID format for user ${userId}: ${params.id}`);
+      const error = createValidationError({ id: "ID must be a valid UUID" });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const id = idValidation.data;
+
+    console.log(`[INFO] [${requestId}] Applying scenario for user ${userId}, id ${id}`);
+
+    const service = new ScenariosService(supabase);
+    const result = await service.apply(userId, id);
+
+    console.log(
+      `[INFO] [${requestId}] Applied scenario ${id}: ${result.applied_entries} entries, ${result.applied_overrides} overrides`
+    );
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === "NotFoundError") {
+      const dto: NotFoundErrorDTO = {
+        error: "Not found",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    console.error(`[ERROR] [${requestId}] Error applying scenario:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,101 @@
+/**
+ * Scenario Entries API Endpoint - Delete
+ * Removes a hypothetical entry series from a scenario
+ */
+
+import type { APIRoute } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../../../db/database.types";
+import { getAuthenticatedUser } from "../../../../../lib/utils/auth.utils";
+import { ScenariosService } from "../../../../../lib/services/scenarios.service";
+import {
+  createUnauthorizedError,
+  createValidationError,
+  createInternalServerError,
+  generateRequestId,
+} from "../../../../../lib/utils/error-response.utils";
+import type { NotFoundErrorDTO, SuccessMessageDTO } from "../../../../../types";
+import { z } from "zod";
+
+// Disable prerendering for API routes
+export const prerender = false;
+
+// Validate ID as UUID (basic check)
+const uuidSchema = z.string().uuid();
+
+/**
+ * DELETE /api/scenarios/:id/entries/:seriesId
+ * Delete a hypothetical entry series (real entries are managed via /api/entries)
+ */
+export const DELETE: APIRoute = async ({ locals, params }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to DELETE scenario ${params.id} entry`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // Validate IDs
+    const details: Record<string, string> = {};
+    const scenarioIdValidation = uuidSchema.safeParse(params.id);
+    if (!scenarioIdValidation.success) {
+      details.id = "ID must be a valid UUID";
+    }
+    const seriesIdValidation = uuidSchema.safeParse(params.seriesId);
+    if (!seriesIdValidation.success) {
+      details.seriesId = "Series ID must be a valid UUID";
+    }
+    if (!scenarioIdValidation.success || !seriesIdValidation.success) {
+      console.log(`[WARN] [${requestId}] Invalid ID format for user ${userId}:`, details);
+      const error = createValidationError(details);
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const scenarioId = scenarioIdValidation.data;
+    const seriesId = seriesIdValidation.data;
+
+    console.log(`[INFO] [${requestId}] Deleting scenario entry for user ${userId}, scenario ${scenarioId}`);
+
+    const service = new ScenariosService(supabase);
+    await service.removeEntry(userId, scenarioId, seriesId);
+
+    const response: SuccessMessageDTO = {
+      message: "Scenario entry deleted successfully",
+    };
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === "NotFoundError") {
+      const dto: NotFoundErrorDTO = {
+        error: "Not found",
+        message: err.message,
+      };
+      return new Response(JSON.stringify(dto), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    console.error(`[ERROR] [${requestId}] Error deleting scenario entry:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
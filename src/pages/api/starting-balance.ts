@@ -1,13 +1,18 @@
 /**
  * Starting Balance API Endpoints
- * Handles GET, PUT, and DELETE operations for user starting balance
+ * Handles GET, PUT, and DELETE operations for the starting balance of a wallet
+ *
+ * Query Parameters:
+ * - wallet (optional): Wallet UUID; the user's default wallet when omitted
  */
 
 import type { APIRoute } from "astro";
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "../../db/database.types";
 import { startingBalanceService } from "../../lib/services/starting-balance.service";
+import { WalletsService } from "../../lib/services/wallets.service";
 import { upsertStartingBalanceSchema } from "../../lib/validation/starting-balance.validation";
+import { walletQuerySchema } from "../../lib/validation/wallets.validation";
 import {
   createUnauthorizedError,
   createNotFoundError,
@@ -22,11 +27,60 @@ import { getAuthenticatedUser } from "../../lib/utils/auth.utils";
 // Disable prerendering for API routes
 export const prerender = false;
 
+/**
+ * Resolve the ?wallet= query parameter to one of the user's wallets
+ * @returns The wallet ID, or an error response (400 invalid id, 404 not found)
+ */
+async function resolveWallet(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  request: Request,
+  requestId: string,
+): Promise<{ walletId: string } | { response: Response }> {
+  const url = new URL(request.url);
+  const validation = walletQuerySchema.safeParse({
+    wallet: url.searchParams.get("wallet") ?? undefined,
+  });
+  if (!validation.success) {
+    console.log(
+      `[WARN] [${requestId}] Query validation failed:`,
+      validation.error,
+    );
+    const error = createValidationError(formatZodErrors(validation.error));
+    return {
+      response: new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      }),
+    };
+  }
+
+  try {
+    const walletId = await new WalletsService(supabase).resolveWalletId(
+      userId,
+      validation.data.wallet,
+    );
+    return { walletId };
+  } catch (err) {
+    if (err instanceof Error && err.name === "NotFoundError") {
+      console.log(`[WARN] [${requestId}] ${err.message}`);
+      const error = createNotFoundError(err.message);
+      return {
+        response: new Response(JSON.stringify(error.body), {
+          status: error.status,
+          headers: { "Content-Type": "application/json" },
+        }),
+      };
+    }
+    throw err;
+  }
+}
+
 /**
  * GET /api/starting-balance
- * Retrieve the authenticated user's starting balance
+ * Retrieve the starting balance of one of the authenticated user's wallets
  */
-export const GET: APIRoute = async ({ locals }) => {
+export const GET: APIRoute = async ({ request, locals }) => {
   const requestId = generateRequestId();
 
   try {
@@ -47,14 +101,19 @@ export const GET: APIRoute = async ({ locals }) => {
     }
 
     const { userId } = user;
+    const wallet = await resolveWallet(supabase, userId, request, requestId);
+    if ("response" in wallet) {
+      return wallet.response;
+    }
     console.log(
-      `[INFO] [${requestId}] Fetching starting balance for user ${userId}`,
+      `[INFO] [${requestId}] Fetching starting balance of wallet ${wallet.walletId} for user ${userId}`,
     );
 
     // Call service to get starting balance
     const startingBalance = await startingBalanceService.getStartingBalance(
       supabase,
       userId,
+      wallet.walletId,
     );
 
     // Handle not found case
@@ -93,7 +152,7 @@ export const GET: APIRoute = async ({ locals }) => {
 
 /**
  * PUT /api/starting-balance
- * Create or update the authenticated user's starting balance
+ * Create or update the starting balance of one of the authenticated user's wallets
  */
 export const PUT: APIRoute = async ({ request, locals }) => {
   const requestId = generateRequestId();
@@ -116,6 +175,10 @@ export const PUT: APIRoute = async ({ request, locals }) => {
     }
 
     const { userId } = user;
+    const wallet = await resolveWallet(supabase, userId, request, requestId);
+    if ("response" in wallet) {
+      return wallet.response;
+    }
 
     // Parse request body
     let body: unknown;
@@ -156,6 +219,7 @@ export const PUT: APIRoute = async ({ request, locals }) => {
     const result = await startingBalanceService.upsertStartingBalance(
       supabase,
       userId,
+      wallet.walletId,
       command,
     );
 
@@ -185,9 +249,9 @@ export const PUT: APIRoute = async ({ request, locals }) => {
 
 /**
  * DELETE /api/starting-balance
- * Delete the authenticated user's starting balance
+ * Delete the starting balance of one of the authenticated user's wallets
  */
-export const DELETE: APIRoute = async ({ locals }) => {
+export const DELETE: APIRoute = async ({ request, locals }) => {
   const requestId = generateRequestId();
 
   try {
@@ -208,14 +272,19 @@ export const DELETE: APIRoute = async ({ locals }) => {
     }
 
     const { userId } = user;
+    const wallet = await resolveWallet(supabase, userId, request, requestId);
+    if ("response" in wallet) {
+      return wallet.response;
+    }
     console.log(
-      `[INFO] [${requestId}] Deleting starting balance for user ${userId}`,
+      `[INFO] [${requestId}] Deleting starting balance of wallet ${wallet.walletId} for user ${userId}`,
     );
 
     // Call service to delete starting balance
     const deleted = await startingBalanceService.deleteStartingBalance(
       supabase,
       userId,
+      wallet.walletId,
     );
 
     // Handle not found case
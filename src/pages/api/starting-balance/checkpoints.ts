@@ -0,0 +1,236 @@
+/**
+ * Balance Checkpoints API Endpoints
+ * Handles GET and POST operations for observed balances recorded after the starting balance of a wallet
+ *
+ * Query Parameters:
+ * - wallet (optional): Wallet UUID; the user's default wallet when omitted
+ */
+
+import type { APIRoute } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../db/database.types";
+import { startingBalanceService } from "../../../lib/services/starting-balance.service";
+import { WalletsService } from "../../../lib/services/wallets.service";
+import { createBalanceCheckpointSchema } from "../../../lib/validation/starting-balance.validation";
+import { walletQuerySchema } from "../../../lib/validation/wallets.validation";
+import {
+  createUnauthorizedError,
+  createNotFoundError,
+  createInternalServerError,
+  createValidationError,
+  formatZodErrors,
+  generateRequestId,
+} from "../../../lib/utils/error-response.utils";
+import type { ConflictErrorDTO } from "../../../types";
+import { getAuthenticatedUser } from "../../../lib/utils/auth.utils";
+
+// Disable prerendering for API routes
+export const prerender = false;
+
+/**
+ * Resolve the ?wallet= query parameter to one of the user's wallets
+ * @returns The wallet ID, or an error response (400 invalid id, 404 not found)
+ */
+async function resolveWallet(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  request: Request,
+  requestId: string
+): Promise<{ walletId: string } | { response: Response }> {
+  const url = new URL(request.url);
+  const validation = walletQuerySchema.safeParse({ wallet: url.searchParams.get("wallet") ?? undefined });
+  if (!validation.success) {
+    console.log(`[WARN] [${requestId}] Query validation failed:`, validation.error);
+    const error = createValidationError(formatZodErrors(validation.error));
+    return {
+      response: new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      }),
+    };
+  }
+
+  try {
+    const walletId = await new WalletsService(supabase).resolveWalletId(userId, validation.data.wallet);
+    return { walletId };
+  } catch (err) {
+    if (err instanceof Error && err.name === "NotFoundError") {
+      console.log(`[WARN] [${requestId}] ${err.message}`);
+      const error = createNotFoundError(err.message);
+      return {
+        response: new Response(JSON.stringify(error.body), {
+          status: error.status,
+          headers: { "Content-Type": "application/json" },
+        }),
+      };
+    }
+    throw err;
+  }
+}
+
+/**
+ * GET /api/starting-balance/checkpoints
+ * List the balance checkpoints of one of the authenticated user's wallets, oldest first, with the
+ * drift between the predicted and the observed balance at each of them
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    // Extract Supabase client from context
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to GET balance checkpoints`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+    const wallet = await resolveWallet(supabase, userId, request, requestId);
+    if ("response" in wallet) {
+      return wallet.response;
+    }
+    console.log(`[INFO] [${requestId}] Fetching balance checkpoints of wallet ${wallet.walletId} for user ${userId}`);
+
+    const checkpoints = await startingBalanceService.listBalanceCheckpoints(supabase, userId, wallet.walletId);
+
+    return new Response(JSON.stringify(checkpoints), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error(`[ERROR] [${requestId}] Error retrieving balance checkpoints:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * POST /api/starting-balance/checkpoints
+ * Record an observed balance; projections from that date on start from it
+ *
+ * Returns:
+ * - 201: BalanceCheckpointDTO
+ * - 400: Validation error (including a date not after the starting balance date)
+ * - 401: Unauthorized
+ * - 404: Wallet or its starting balance not found
+ * - 409: A checkpoint already exists on that date
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    // Extract Supabase client from context
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to POST balance checkpoint`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+    const wallet = await resolveWallet(supabase, userId, request, requestId);
+    if ("response" in wallet) {
+      return wallet.response;
+    }
+
+    // Parse request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      console.log(`[WARN] [${requestId}] Invalid JSON in request body`);
+      const error = createValidationError({
+        body: "Request body must be valid JSON",
+      });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body using Zod schema
+    const validationResult = createBalanceCheckpointSchema.safeParse(body);
+    if (!validationResult.success) {
+      console.log(`[WARN] [${requestId}] Validation failed for user ${userId}:`, validationResult.error);
+      const error = createValidationError(formatZodErrors(validationResult.error));
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const command = validationResult.data;
+
+    // Checkpoints correct the projection after the starting balance, they never precede it
+    const startingBalance = await startingBalanceService.getStartingBalance(supabase, userId, wallet.walletId);
+    if (!startingBalance) {
+      console.log(`[WARN] [${requestId}] Starting balance not found for user ${userId}`);
+      const error = createNotFoundError("Starting balance not found");
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    if (command.checkpoint_date <= startingBalance.effective_date) {
+      const error = createValidationError({
+        checkpoint_date: "Checkpoint date must be after the starting balance date",
+      });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`[INFO] [${requestId}] Creating balance checkpoint for user ${userId}`);
+
+    try {
+      const checkpoint = await startingBalanceService.createBalanceCheckpoint(
+        supabase,
+        userId,
+        wallet.walletId,
+        command
+      );
+      return new Response(JSON.stringify(checkpoint), {
+        status: 201,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      if ((error as { code?: string }).code === "23505") {
+        // unique_balance_checkpoint
+        const dto: ConflictErrorDTO = {
+          error: "Conflict",
+          message: `A balance checkpoint already exists on ${command.checkpoint_date}`,
+        };
+        return new Response(JSON.stringify(dto), {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error(`[ERROR] [${requestId}] Error creating balance checkpoint:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,222 @@
+/**
+ * Balance Checkpoint API Endpoints - Update and Delete
+ * Handles PUT and DELETE operations for a single balance checkpoint
+ */
+
+import type { APIRoute } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../../db/database.types";
+import { startingBalanceService } from "../../../../lib/services/starting-balance.service";
+import { updateBalanceCheckpointSchema } from "../../../../lib/validation/starting-balance.validation";
+import {
+  createUnauthorizedError,
+  createNotFoundError,
+  createInternalServerError,
+  createValidationError,
+  formatZodErrors,
+  generateRequestId,
+} from "../../../../lib/utils/error-response.utils";
+import type { ConflictErrorDTO, SuccessMessageDTO } from "../../../../types";
+import { getAuthenticatedUser } from "../../../../lib/utils/auth.utils";
+import { z } from "zod";
+
+// Disable prerendering for API routes
+export const prerender = false;
+
+// Validate ID as UUID (basic check)
+const uuidSchema = z.string().uuid();
+
+/**
+ * PUT /api/starting-balance/checkpoints/:id
+ * Update the date, amount or note of a balance checkpoint
+ */
+export const PUT: APIRoute = async ({ request, locals, params }) => {
+  const requestId = generateRequestId();
+
+  try {
+    // Extract Supabase client from context
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to PUT balance checkpoint ${params.id}`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // Validate ID
+    const idValidation = uuidSchema.safeParse(params.id);
+    if (!idValidation.success) {
+      console.log(`[WARN] [${requestId}] Invalid ID format for user ${userId}: ${params.id}`);
+      const error = createValidationError({ id: "ID must be a valid UUID" });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const id = idValidation.data;
+
+    // Parse request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      console.log(`[WARN] [${requestId}] Invalid JSON in request body`);
+      const error = createValidationError({
+        body: "Request body must be valid JSON",
+      });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body using Zod schema
+    const validationResult = updateBalanceCheckpointSchema.safeParse(body);
+    if (!validationResult.success) {
+      console.log(`[WARN] [${requestId}] Validation failed for user ${userId}:`, validationResult.error);
+      const error = createValidationError(formatZodErrors(validationResult.error));
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const command = validationResult.data;
+
+    const walletId = await startingBalanceService.getBalanceCheckpointWalletId(supabase, userId, id);
+    if (!walletId) {
+      console.log(`[WARN] [${requestId}] Balance checkpoint ${id} not found for user ${userId}`);
+      const error = createNotFoundError(`Balance checkpoint with id ${id} not found`);
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Checkpoints correct the projection after the starting balance of their wallet, they never precede it
+    const startingBalance = await startingBalanceService.getStartingBalance(supabase, userId, walletId);
+    if (startingBalance && command.checkpoint_date <= startingBalance.effective_date) {
+      const error = createValidationError({
+        checkpoint_date: "Checkpoint date must be after the starting balance date",
+      });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`[INFO] [${requestId}] Updating balance checkpoint ${id} for user ${userId}`);
+
+    let checkpoint;
+    try {
+      checkpoint = await startingBalanceService.updateBalanceCheckpoint(supabase, userId, id, command);
+    } catch (error) {
+      if ((error as { code?: string }).code === "23505") {
+        // unique_balance_checkpoint
+        const dto: ConflictErrorDTO = {
+          error: "Conflict",
+          message: `A balance checkpoint already exists on ${command.checkpoint_date}`,
+        };
+        return new Response(JSON.stringify(dto), {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      throw error;
+    }
+
+    if (!checkpoint) {
+      console.log(`[WARN] [${requestId}] Balance checkpoint ${id} not found for user ${userId}`);
+      const error = createNotFoundError(`Balance checkpoint with id ${id} not found`);
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(checkpoint), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error(`[ERROR] [${requestId}] Error updating balance checkpoint:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * DELETE /api/starting-balance/checkpoints/:id
+ * Delete a balance checkpoint; projections fall back to the previous checkpoint or the starting balance
+ */
+export const DELETE: APIRoute = async ({ locals, params }) => {
+  const requestId = generateRequestId();
+
+  try {
+    // Extract Supabase client from context
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to DELETE balance checkpoint ${params.id}`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+
+    // Validate ID
+    const idValidation = uuidSchema.safeParse(params.id);
+    if (!idValidation.success) {
+      console.log(`[WARN] [${requestId}] Invalid ID format for user ${userId}: ${params.id}`);
+      const error = createValidationError({ id: "ID must be a valid UUID" });
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const id = idValidation.data;
+
+    console.log(`[INFO] [${requestId}] Deleting balance checkpoint ${id} for user ${userId}`);
+
+    const deleted = await startingBalanceService.deleteBalanceCheckpoint(supabase, userId, id);
+
+    if (!deleted) {
+      console.log(`[WARN] [${requestId}] Balance checkpoint ${id} not found for deletion for user ${userId}`);
+      const error = createNotFoundError(`Balance checkpoint with id ${id} not found`);
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const response: SuccessMessageDTO = {
+      message: "Balance checkpoint deleted successfully",
+    };
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error(`[ERROR] [${requestId}] Error deleting balance checkpoint:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,59 @@
+/**
+ * Tags API Endpoint
+ * Handles listing tags (tags are created through the entries that use them)
+ */
+
+import type { APIRoute } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../db/database.types";
+import { getAuthenticatedUser } from "../../../lib/utils/auth.utils";
+import { TagsService } from "../../../lib/services/tags.service";
+import {
+  createUnauthorizedError,
+  createInternalServerError,
+  generateRequestId,
+} from "../../../lib/utils/error-response.utils";
+
+// Disable prerendering for API routes
+export const prerender = false;
+
+/**
+ * GET /api/tags
+ * List the authenticated user's tags, sorted by name
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = locals.supabase as SupabaseClient<Database>;
+
+    // Verify user session exists
+    const user = await getAuthenticatedUser(supabase);
+    if (!user) {
+      console.log(`[WARN] [${requestId}] Unauthorized access attempt to GET tags`);
+      const error = createUnauthorizedError();
+      return new Response(JSON.stringify(error.body), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { userId } = user;
+    console.log(`[INFO] [${requestId}] Fetching tags for user ${userId}`);
+
+    const service = new TagsService(supabase);
+    const tags = await service.findAll(userId);
+
+    return new Response(JSON.stringify(tags), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error(`[ERROR] [${requestId}] Error fetching tags:`, error);
+    const errorResponse = createInternalServerError(requestId);
+    return new Response(JSON.stringify(errorResponse.body), {
+      status: errorResponse.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -13,12 +13,29 @@ import type { Database } from "./db/database.types";
 
 export type StartingBalanceRow =
   Database["public"]["Tables"]["starting_balances"]["Row"];
+export type BalanceCheckpointRow =
+  Database["public"]["Tables"]["balance_checkpoints"]["Row"];
 export type EntrySeriesRow =
   Database["public"]["Tables"]["entry_series"]["Row"];
 export type SeriesExceptionRow =
   Database["public"]["Tables"]["series_exceptions"]["Row"];
 export type AnalyticsEventRow =
   Database["public"]["Tables"]["analytics_events"]["Row"];
+export type CalendarFeedTokenRow =
+  Database["public"]["Tables"]["calendar_feed_tokens"]["Row"];
+export type UserPreferencesRow =
+  Database["public"]["Tables"]["user_preferences"]["Row"];
+export type ScenarioRow = Database["public"]["Tables"]["scenarios"]["Row"];
+export type OccurrenceSettlementRow =
+  Database["public"]["Tables"]["occurrence_settlements"]["Row"];
+export type WalletRow = Database["public"]["Tables"]["wallets"]["Row"];
+export type ExchangeRateRow =
+  Database["public"]["Tables"]["exchange_rates"]["Row"];
+export type CategoryRow = Database["public"]["Tables"]["categories"]["Row"];
+export type BudgetRow = Database["public"]["Tables"]["budgets"]["Row"];
+export type TagRow = Database["public"]["Tables"]["tags"]["Row"];
+export type CSVImportPresetRow =
+  Database["public"]["Tables"]["csv_import_presets"]["Row"];
 
 // ============================================================================
 // Database Enum Type Aliases
@@ -27,6 +44,10 @@ export type AnalyticsEventRow =
 export type EntryType = Database["public"]["Enums"]["entry_type"];
 export type RecurrenceType = Database["public"]["Enums"]["recurrence_type"];
 export type ExceptionType = Database["public"]["Enums"]["exception_type"];
+export type MonthlyAnchor = Database["public"]["Enums"]["monthly_anchor"];
+export type BusinessDayConvention =
+  Database["public"]["Enums"]["business_day_convention"];
+export type HolidayCalendar = Database["public"]["Enums"]["holiday_calendar"];
 
 // ============================================================================
 // Scope Types for Edit/Delete Operations
@@ -69,6 +90,143 @@ export interface DateRangeLimitsDTO {
   max_date: string;
 }
 
+// ============================================================================
+// Wallet DTOs
+// ============================================================================
+
+/**
+ * Wallet response (GET /api/wallets)
+ * Entries, the starting balance and checkpoints belong to a wallet; the default
+ * wallet is used wherever no wallet is given. Balances are in the wallet's currency
+ */
+export interface WalletDTO extends Omit<WalletRow, "user_id"> {
+  starting_balance: WalletStartingBalanceDTO | null; // null until one is set
+}
+
+/**
+ * Starting balance of a wallet, embedded in the wallet response
+ */
+export type WalletStartingBalanceDTO = Pick<
+  StartingBalanceRow,
+  "amount" | "effective_date"
+>;
+
+/**
+ * Create wallet command (POST /api/wallets)
+ */
+export interface CreateWalletCommand {
+  name: string; // 1-100 characters, unique per user
+  currency?: string; // ISO 4217 code, base currency if omitted; cannot be changed later
+  starting_balance?: UpsertStartingBalanceCommand | null;
+}
+
+/**
+ * Update wallet command (PUT /api/wallets/:id)
+ */
+export interface UpdateWalletCommand {
+  name: string; // 1-100 characters, unique per user
+}
+
+// ============================================================================
+// Category DTOs
+// ============================================================================
+
+/**
+ * Category response (GET /api/categories)
+ * Categories form a tree through parent_id; top-level categories have none
+ */
+export type CategoryDTO = Omit<CategoryRow, "user_id">;
+
+/**
+ * Create category command (POST /api/categories)
+ */
+export interface CreateCategoryCommand {
+  name: string; // 1-100 characters, unique among its siblings
+  parent_id?: string | null; // uuid, null for a top-level category
+  color?: string; // #rrggbb, default #64748b
+  icon?: string | null; // Icon name from CATEGORY_ICONS, null for none
+}
+
+/**
+ * Update category command (PUT /api/categories/:id)
+ * Same structure as CreateCategoryCommand; the parent cannot be the category or one of its subcategories
+ */
+export type UpdateCategoryCommand = CreateCategoryCommand;
+
+/**
+ * Income and expense of one category over a projection period
+ */
+export interface CategoryTotalDTO {
+  category_id: string | null; // null for uncategorized entries
+  total_income: number; // decimal(12,2)
+  total_expense: number; // decimal(12,2)
+}
+
+// ============================================================================
+// Tag DTOs
+// ============================================================================
+
+/**
+ * Tag response (GET /api/tags)
+ * Tags are free-form lowercase labels, created when an entry first uses them
+ */
+export type TagDTO = Pick<TagRow, "id" | "name">;
+
+// ============================================================================
+// Budget DTOs
+// ============================================================================
+
+/**
+ * Budget response (GET /api/budgets)
+ * A monthly spending cap, in the base currency, on either a category (with its subcategories) or a tag
+ */
+export type BudgetDTO = Omit<BudgetRow, "user_id">;
+
+/**
+ * Create budget command (POST /api/budgets)
+ */
+export interface CreateBudgetCommand {
+  category_id?: string | null; // uuid, one budget per category; required unless tag_id is set
+  tag_id?: string | null; // uuid, one budget per tag; required unless category_id is set
+  amount: number; // decimal(12,2), > 0, in the base currency
+}
+
+/**
+ * Update budget command (PUT /api/budgets/:id)
+ * Same structure as CreateBudgetCommand
+ */
+export type UpdateBudgetCommand = CreateBudgetCommand;
+
+/**
+ * Budget compared with the month's planned expenses, in the base currency
+ */
+export interface BudgetStatusDTO {
+  budget_id: string;
+  category_id: string | null;
+  tag_id: string | null;
+  budgeted: number; // decimal(12,2)
+  planned: number; // Expenses of the month, settled ones at their actual amount
+  spent: number; // Part of planned that is already settled
+  remaining: number; // budgeted - planned, negative when overspent
+  overspend: number; // Projected overspend, 0 when within the budget
+}
+
+/**
+ * Budget summary response (GET /api/budgets/summary)
+ */
+export interface BudgetSummaryDTO {
+  month: string; // YYYY-MM
+  currency: string; // The base currency
+  budgets: BudgetStatusDTO[]; // Most used budget first
+}
+
+/**
+ * Query parameters for GET /api/budgets/summary
+ */
+export interface GetBudgetSummaryQueryParams {
+  month?: string; // YYYY-MM, default: the current month in the user's time zone
+}
+
 // ============================================================================
 // Starting Balance DTOs
 // ============================================================================
@@ -90,12 +248,50 @@ export interface UpsertStartingBalanceCommand {
 
 /**
  * Starting balance information embedded in projection response
+ * Consolidated projections (no wallet) report the sum of the wallets' starting
+ * balances converted into the base currency (at each balance's effective date),
+ * the earliest effective date and no checkpoint
  */
 export interface StartingBalanceInfoDTO {
   amount: number;
   effective_date: string;
+  checkpoint: BalanceCheckpointInfoDTO | null; // Latest checkpoint the projection starts from, null if none
+}
+
+/**
+ * Checkpoint a projection starts from instead of the starting balance
+ * (the latest one at or before the target date, or before to_date for timelines and forecasts)
+ */
+export type BalanceCheckpointInfoDTO = Pick<
+  BalanceCheckpointRow,
+  "id" | "checkpoint_date" | "amount"
+>;
+
+/**
+ * Balance checkpoint response (GET /api/starting-balance/checkpoints)
+ * An observed balance at the start of checkpoint_date, like the starting balance
+ * Drift is observed minus predicted; both are null for checkpoints not after the starting balance date
+ */
+export interface BalanceCheckpointDTO
+  extends Omit<BalanceCheckpointRow, "user_id"> {
+  predicted_balance: number | null; // decimal(12,2), projected from the previous checkpoint
+  drift: number | null; // decimal(12,2)
+}
+
+/**
+ * Create balance checkpoint command (POST /api/starting-balance/checkpoints)
+ */
+export interface CreateBalanceCheckpointCommand {
+  checkpoint_date: string; // YYYY-MM-DD, after the starting balance date
+  amount: number; // decimal(12,2), may be negative
+  note?: string | null; // max 500 characters
 }
 
+/**
+ * Update balance checkpoint command (PUT /api/starting-balance/checkpoints/:id)
+ */
+export type UpdateBalanceCheckpointCommand = CreateBalanceCheckpointCommand;
+
 // ============================================================================
 // Entry Series DTOs
 // ============================================================================
@@ -106,12 +302,22 @@ export interface StartingBalanceInfoDTO {
  */
 export type EntrySeriesDTO = EntrySeriesRow;
 
+/**
+ * Progress of a series bounded by occurrence_count ("occurrence 4 of 10")
+ */
+export interface SeriesProgressDTO {
+  completed_occurrences: number; // Occurrences dated on or before today (user's time zone)
+  total_occurrences: number; // occurrence_count of the series
+}
+
 /**
  * Entry series detail response with exceptions (GET /api/entries/:id)
- * Extends base entry with exceptions array
+ * Extends base entry with exceptions array and progress (null unless occurrence_count is set)
  */
 export interface EntrySeriesDetailDTO extends EntrySeriesRow {
+  tags: string[]; // Tag names, sorted
   exceptions: SeriesExceptionDTO[];
+  progress: SeriesProgressDTO | null;
 }
 
 /**
@@ -134,8 +340,21 @@ export interface CreateEntryCommand {
   amount: number; // > 0, max 2 decimal places
   start_date: string; // YYYY-MM-DD
   end_date?: string | null; // YYYY-MM-DD, must be >= start_date
-  weekday?: number | null; // 0-6 for weekly, null otherwise
-  day_of_month?: number | null; // 1-31 for monthly, null otherwise
+  occurrence_count?: number | null; // 1-1000, ends the series after N occurrences (alternative to end_date)
+  weekday?: number | null; // 0-6 for weekly and nth_weekday/last_weekday anchors, null otherwise
+  weekdays?: number[] | null; // weekly only: full set of weekdays (0-6), must include weekday
+  day_of_month?: number | null; // 1-31 for the day_of_month anchor, null otherwise
+  days_of_month?: number[] | null; // day_of_month anchor only: full set of days (1-31), must include day_of_month
+  monthly_anchor?: MonthlyAnchor; // monthly/quarterly/yearly only, default day_of_month
+  week_of_month?: number | null; // 1-4 for the nth_weekday anchor, null otherwise
+  business_day_convention?: BusinessDayConvention; // move weekend/holiday dates, default none
+  holiday_calendar?: HolidayCalendar; // public holidays for business_day_convention, default PL
+  recurrence_interval?: number; // 1-52, repeat every N weeks/months/quarters/years, default 1
+  wallet_id?: string; // uuid, default wallet if omitted; ignored by occurrence-scoped edits
+  target_wallet_id?: string | null; // uuid, wallet credited by a transfer (required for transfers, null otherwise)
+  currency?: string; // ISO 4217 code of amount, the wallet's currency if omitted
+  category_id?: string | null; // uuid, uncategorized if omitted (an occurrence-scoped edit without one keeps the series category)
+  tags?: string[]; // Tag names; omitted: none on create, unchanged on update (an occurrence-scoped edit keeps the series tags)
 }
 
 /**
@@ -208,7 +427,7 @@ export type ExceptionResponseDTO = SeriesExceptionRow;
  * (GET /api/occurrences)
  */
 export interface OccurrenceDTO {
-  occurrence_id: string; // UUID v5 generated from (series_id, date)
+  occurrence_id: string; // UUID v5 generated from (series_id, nominal date before business-day adjustment)
   series_id: string;
   entry_type: EntryType;
   title: string;
@@ -217,6 +436,12 @@ export interface OccurrenceDTO {
   amount: number; // decimal(12,2)
   created_at: string; // ISO 8601
   updated_at: string; // ISO 8601
+  occurrence_number: number | null; // Position within the series, only when occurrence_count is set
+  occurrence_count: number | null; // Total occurrences of the series, null if unbounded by count
+  currency: string; // ISO 4217 code of amount (the series currency)
+  category_id: string | null; // The override's category if set, otherwise the series category
+  tags: string[]; // The override's tags if it replaces them, otherwise the series tags; sorted
+  settlement: OccurrenceSettlementDTO | null; // Actual amount and date, null while unsettled
 }
 
 /**
@@ -238,8 +463,10 @@ export interface EntryOccurrenceDTO {
   description: string;
   occurrence_date: string;
   amount: number;
+  currency: string; // ISO 4217 code of amount
   is_exception: boolean;
   exception_type: ExceptionType | null;
+  settlement: OccurrenceSettlementDTO | null; // amount stays the planned value
 }
 
 /**
@@ -251,17 +478,47 @@ export interface EntryOccurrencesResponseDTO {
   data: EntryOccurrenceDTO[];
 }
 
+// ============================================================================
+// Settlement DTOs
+// ============================================================================
+
+/**
+ * Actual amount and date recorded for an occurrence
+ * The planned amount and date stay on the occurrence itself
+ */
+export type OccurrenceSettlementDTO = Pick<
+  OccurrenceSettlementRow,
+  "id" | "actual_amount" | "actual_date" | "note"
+>;
+
+/**
+ * Settle occurrence command (PUT /api/entries/:id/settlements/:date)
+ * :date is the occurrence date as listed (after business day adjustment)
+ */
+export interface UpsertSettlementCommand {
+  actual_amount: number; // decimal(12,2), >= 0
+  actual_date: string; // YYYY-MM-DD, when the money actually moved
+  note?: string | null; // max 500 characters
+}
+
+/**
+ * Settlement response (PUT /api/entries/:id/settlements/:date)
+ */
+export type SettlementResponseDTO = Omit<OccurrenceSettlementRow, "user_id">;
+
 // ============================================================================
 // Projection DTOs
 // ============================================================================
 
 /**
  * Computation breakdown for projection
+ * Transfers between wallets are neither income nor expense
  */
 export interface ProjectionComputationDTO {
   total_income: number; // decimal(12,2)
   total_expense: number; // decimal(12,2)
-  net_change: number; // decimal(12,2)
+  net_transfers: number; // decimal(12,2), transfers in minus transfers out (0 for all wallets consolidated)
+  net_change: number; // decimal(12,2), total_income - total_expense + net_transfers
 }
 
 /**
@@ -269,30 +526,423 @@ export interface ProjectionComputationDTO {
  */
 export interface ProjectionDTO {
   target_date: string; // YYYY-MM-DD
+  scenario_id: string | null; // Scenario projected on top of the baseline, null for the baseline
+  wallet_id: string | null; // Projected wallet, null for all wallets consolidated
+  currency: string; // ISO 4217 code of all amounts: the wallet's currency, or the base currency when consolidated
   projected_balance: number; // decimal(12,2)
   starting_balance: StartingBalanceInfoDTO;
   computation: ProjectionComputationDTO;
+  category_breakdown: CategoryTotalDTO[]; // Income and expense per category between the anchor and target dates
   date_range_limits: DateRangeLimitsDTO;
 }
 
+/**
+ * Bucket size of a balance timeline
+ */
+export type TimelineGranularity = "day" | "week" | "month";
+
+/**
+ * Single bucket of a balance timeline
+ * Balances are end-of-day balances, as in ProjectionDTO.projected_balance
+ */
+export interface BalanceTimelinePointDTO {
+  date: string; // YYYY-MM-DD, first day of the bucket (clipped to from_date)
+  end_date: string; // YYYY-MM-DD, last day of the bucket (clipped to to_date)
+  total_income: number; // decimal(12,2), income within the bucket
+  total_expense: number; // decimal(12,2), expense within the bucket
+  net_transfers: number; // decimal(12,2), transfers in minus transfers out within the bucket
+  net_change: number; // decimal(12,2), total_income - total_expense + net_transfers
+  adjustment: number; // decimal(12,2), checkpoint corrections within the bucket (observed minus predicted)
+  balance: number; // decimal(12,2), balance at end_date
+  min_balance: number; // decimal(12,2), lowest end-of-day balance within the bucket
+}
+
+/**
+ * Balance timeline response (GET /api/projection/timeline)
+ */
+export interface BalanceTimelineDTO {
+  from_date: string; // YYYY-MM-DD
+  to_date: string; // YYYY-MM-DD
+  granularity: TimelineGranularity;
+  scenario_id: string | null; // Scenario projected on top of the baseline, null for the baseline
+  wallet_id: string | null; // Projected wallet, null for all wallets consolidated
+  currency: string; // ISO 4217 code of all amounts, as in ProjectionDTO
+  opening_balance: number; // decimal(12,2), balance at the end of the day before from_date
+  starting_balance: StartingBalanceInfoDTO;
+  computation: ProjectionComputationDTO; // Totals over the whole range
+  points: BalanceTimelinePointDTO[];
+  date_range_limits: DateRangeLimitsDTO;
+}
+
+/**
+ * Low-balance forecast response (GET /api/projection/low-balance)
+ * Scans end-of-day balances from today (or the starting balance date, if later) to max_date
+ */
+export interface LowBalanceForecastDTO {
+  threshold: number; // decimal(12,2), from user preferences
+  wallet_id: string | null; // Scanned wallet, null for all wallets consolidated
+  currency: string; // ISO 4217 code of the balances and threshold, as in ProjectionDTO
+  from_date: string; // YYYY-MM-DD
+  to_date: string; // YYYY-MM-DD
+  first_breach_date: string | null; // YYYY-MM-DD, first day below threshold, null if none
+  first_breach_balance: number | null; // decimal(12,2)
+  lowest_balance: number; // decimal(12,2)
+  lowest_balance_date: string; // YYYY-MM-DD, earliest date on ties
+  starting_balance: StartingBalanceInfoDTO;
+  date_range_limits: DateRangeLimitsDTO;
+}
+
+// ============================================================================
+// User Preferences DTOs
+// ============================================================================
+
+/**
+ * User preferences response (GET /api/preferences)
+ * Defaults are returned for users who never saved preferences
+ * currency_display, number_locale, date_format and week_starts_on control
+ * how amounts and dates are shown (see format.utils); time_zone decides which
+ * date is "today" (see date.utils)
+ */
+export type UserPreferencesDTO = Pick<
+  UserPreferencesRow,
+  | "low_balance_threshold"
+  | "base_currency"
+  | "currency_display"
+  | "number_locale"
+  | "date_format"
+  | "week_starts_on"
+  | "time_zone"
+>;
+
+/**
+ * Update user preferences command (PUT /api/preferences)
+ * Only provided fields are changed
+ */
+export type UpdateUserPreferencesCommand = Partial<UserPreferencesDTO>;
+
+// ============================================================================
+// Exchange Rate DTOs
+// ============================================================================
+
+/**
+ * Exchange rate response (GET /api/exchange-rates)
+ * rate is the number of base currency units per unit of currency, in effect
+ * from rate_date until the next rate (dates before the first rate use it too)
+ */
+export type ExchangeRateDTO = Omit<ExchangeRateRow, "user_id">;
+
+/**
+ * Create exchange rate command (POST /api/exchange-rates)
+ */
+export interface CreateExchangeRateCommand {
+  currency: string; // ISO 4217 code, not the base currency
+  rate_date: string; // YYYY-MM-DD, unique per currency
+  rate: number; // > 0, up to 8 decimal places
+}
+
+/**
+ * Update exchange rate command (PUT /api/exchange-rates/:id)
+ */
+export type UpdateExchangeRateCommand = CreateExchangeRateCommand;
+
+// ============================================================================
+// Scenario DTOs
+// ============================================================================
+
+/**
+ * Scenario response (GET /api/scenarios)
+ * applied_at is set once the scenario has been applied to the real plan
+ */
+export type ScenarioDTO = Omit<ScenarioRow, "user_id">;
+
+/**
+ * Override of a real series within a scenario
+ * Same shape as SeriesExceptionDTO, plus the series it applies to
+ */
+export type ScenarioOverrideDTO = Omit<
+  SeriesExceptionRow,
+  "user_id" | "created_at" | "scenario_id" | "category_id" | "override_tags"
+>;
+
+/**
+ * Scenario detail response (GET /api/scenarios/:id)
+ * Includes the hypothetical series and the overrides of real series
+ */
+export interface ScenarioDetailDTO extends ScenarioDTO {
+  entries: EntrySeriesDTO[];
+  overrides: ScenarioOverrideDTO[];
+}
+
+/**
+ * Create scenario command (POST /api/scenarios)
+ */
+export interface CreateScenarioCommand {
+  name: string; // 1-100 characters
+  description?: string | null; // max 500 characters
+}
+
+/**
+ * Update scenario command (PUT /api/scenarios/:id)
+ */
+export type UpdateScenarioCommand = CreateScenarioCommand;
+
+/**
+ * Create scenario override command (POST /api/scenarios/:id/overrides)
+ * Overrides a single occurrence of a real series (skip, or different title/amount)
+ */
+export interface CreateScenarioOverrideCommand {
+  series_id: string; // uuid of a real (baseline) series
+  exception_date: string; // YYYY-MM-DD, nominal occurrence date
+  exception_type: ExceptionType;
+  title?: string | null; // override only
+  description?: string | null; // override only
+  amount?: number | null; // override only, decimal(12,2)
+}
+
+/**
+ * Apply scenario response (POST /api/scenarios/:id/apply)
+ */
+export interface ApplyScenarioResponseDTO {
+  applied_entries: number; // Hypothetical series moved into the real plan
+  applied_overrides: number; // Overrides moved into the real plan
+  applied_at: string; // ISO 8601 timestamp
+}
+
 // ============================================================================
 // Export DTOs
 // ============================================================================
 
 /**
  * CSV export row structure (GET /api/export/csv)
- * Represents a single row in the CSV export
+ * Represents a single row in the CSV export; the converted amount column is
+ * named after the base currency (amount_pln, amount_eur...)
  */
 export interface CSVExportRowDTO {
-  occurrence_id: string; // UUID v5 from (series_id, date)
+  occurrence_id: string; // UUID v5 from (series_id, nominal date)
   series_id: string;
   type: EntryType;
   title: string;
   description: string; // Empty string if null
   date: string; // YYYY-MM-DD
-  amount_pln: number; // Signed: positive for income, negative for expense
+  amount_base: number; // Signed: positive for income, negative for expense, a negative and a positive row per transfer; in the base currency
   created_at: string; // ISO 8601
   updated_at: string; // ISO 8601
+  original_amount: number; // Signed like amount_base, in the series currency
+  original_currency: string; // ISO 4217 code of the series
+}
+
+// ============================================================================
+// iCalendar DTOs
+// ============================================================================
+
+/**
+ * Entry series created from a calendar event (POST /api/import/ics)
+ */
+export interface ICSImportedSeriesDTO {
+  uid: string; // UID of the source VEVENT
+  series_id: string;
+  title: string;
+  warnings: string[]; // Approximations made while mapping the event
+}
+
+/**
+ * Calendar event that could not be imported (POST /api/import/ics)
+ */
+export interface ICSSkippedEventDTO {
+  uid: string;
+  title: string | null;
+  reasons: string[]; // Recurrence features or fields the model cannot represent
+}
+
+/**
+ * Calendar import response (POST /api/import/ics)
+ */
+export interface ICSImportResponseDTO {
+  imported: ICSImportedSeriesDTO[];
+  skipped: ICSSkippedEventDTO[];
+}
+
+// ============================================================================
+// Bank Statement Import DTOs
+// ============================================================================
+
+/**
+ * Banks whose CSV statements are recognized without a mapping
+ */
+export type BankCSVFormat = "mbank" | "pko_bp" | "ing";
+
+/**
+ * How the amounts of a CSV statement tell income from expense
+ * - negative_is_expense: one signed amount column, expenses are negative (most banks)
+ * - positive_is_expense: one signed amount column, expenses are positive (e.g. credit card statements)
+ * - debit_credit: two unsigned columns, amount_column holds income and debit_column expenses
+ */
+export type CSVSignConvention =
+  | "negative_is_expense"
+  | "positive_is_expense"
+  | "debit_credit";
+
+export type CSVDateFormat =
+  | "YYYY-MM-DD"
+  | "DD.MM.YYYY"
+  | "DD-MM-YYYY"
+  | "DD/MM/YYYY"
+  | "MM/DD/YYYY";
+
+/**
+ * How to read the rows of a CSV statement; columns are 0-based
+ */
+export interface CSVColumnMapping {
+  delimiter: "," | ";" | "\t";
+  skip_rows: number; // Rows before the first transaction (bank preamble and the header row)
+  date_column: number;
+  date_format: CSVDateFormat;
+  amount_column: number;
+  debit_column: number | null; // Required for debit_credit, null otherwise
+  sign_convention: CSVSignConvention;
+  decimal_separator: "." | ",";
+  description_columns: number[]; // Joined into the entry title, in this order
+  currency_column: number | null; // ISO 4217 code of each row; the wallet's currency if null
+}
+
+/**
+ * Saved CSV column mapping (GET /api/import/csv-presets)
+ */
+export interface CSVImportPresetDTO
+  extends Omit<CSVImportPresetRow, "user_id" | "mapping"> {
+  mapping: CSVColumnMapping;
+}
+
+/**
+ * Create CSV import preset command (POST /api/import/csv-presets)
+ */
+export interface CreateCSVImportPresetCommand {
+  name: string; // 1-100 characters, unique per user
+  mapping: CSVColumnMapping;
+}
+
+/**
+ * Update CSV import preset command (PUT /api/import/csv-presets/:id)
+ */
+export type UpdateCSVImportPresetCommand = CreateCSVImportPresetCommand;
+
+/**
+ * Import CSV statement command (POST /api/import/csv)
+ */
+export interface CSVImportCommand {
+  content: string; // The decoded CSV file, at most 2 MB
+  mapping: CSVColumnMapping;
+  wallet_id?: string; // uuid, the default wallet if omitted
+  rows?: number[]; // Rows to import, as numbered in the preview; all if omitted
+}
+
+/**
+ * Transaction read from a bank statement, imported as a one-time entry
+ */
+export interface StatementTransactionDTO {
+  row: number; // 1-based CSV row (record), or line of the entry in a statement file
+  date: string; // YYYY-MM-DD
+  amount: number; // Signed: positive for income, negative for expense
+  description: string; // Empty if the statement has none
+  currency: string | null; // ISO 4217 code, null if the statement does not say
+}
+
+/**
+ * Statement row that could not be read or imported
+ */
+export interface StatementSkippedRowDTO {
+  row: number;
+  reasons: string[];
+}
+
+/**
+ * One-time entry created from a statement transaction
+ */
+export interface StatementImportedEntryDTO {
+  row: number;
+  series_id: string;
+  title: string;
+}
+
+/**
+ * Statement import response (POST /api/import/csv)
+ */
+export interface StatementImportResponseDTO {
+  imported: StatementImportedEntryDTO[];
+  skipped: StatementSkippedRowDTO[];
+}
+
+/**
+ * Structured statement formats: ISO 20022 camt.053 (XML), SWIFT MT940, OFX
+ * (also read for Quicken's QFX) and QIF
+ */
+export type StatementFileFormat = "camt053" | "mt940" | "ofx" | "qif";
+
+/**
+ * Booked balance reported by a statement
+ */
+export interface StatementBalanceDTO {
+  date: string; // YYYY-MM-DD
+  amount: number; // Negative for an overdrawn account
+  currency: string; // ISO 4217
+}
+
+/**
+ * Normalized statement file
+ * A file with several statements (pages) is merged: the opening balance of the
+ * first and the closing balance of the last
+ */
+export interface ParsedStatementDTO {
+  account: string | null; // IBAN or other account identification
+  opening_balance: StatementBalanceDTO | null;
+  closing_balance: StatementBalanceDTO | null;
+  transactions: StatementTransactionDTO[]; // Booked entries only
+}
+
+/**
+ * Reason a statement file was rejected
+ */
+export interface StatementLineErrorDTO {
+  line: number; // 1-based line of the file
+  message: string;
+}
+
+/**
+ * Import statement file command (POST /api/import/statement)
+ */
+export interface StatementFileImportCommand {
+  format: StatementFileFormat;
+  content: string; // The statement file, at most 2 MB
+  wallet_id?: string; // uuid, the default wallet if omitted
+  // Also set the wallet's starting balance from the statement: the opening
+  // balance on its date, or the closing balance on the day after it
+  starting_balance?: "opening" | "closing" | null;
+}
+
+/**
+ * Statement file import response (POST /api/import/statement)
+ */
+export interface StatementFileImportResponseDTO
+  extends StatementImportResponseDTO {
+  starting_balance: StartingBalanceDTO | null; // null unless requested
+}
+
+/**
+ * Calendar feed status (GET /api/feeds)
+ * The feed URL itself cannot be shown again, only whether one is active
+ */
+export interface CalendarFeedStatusDTO {
+  active: boolean;
+  created_at: string | null; // ISO 8601, when the current token was generated
+}
+
+/**
+ * Newly generated calendar feed (POST /api/feeds)
+ * Returned once; only the SHA-256 hash of the token is stored
+ */
+export interface CalendarFeedDTO {
+  feed_url: string; // https URL of /api/feeds/{token}.ics
+  created_at: string; // ISO 8601
 }
 
 // ============================================================================
@@ -336,6 +986,7 @@ export interface AnalyticsEventMetadata {
   edit_scope?: EditScope;
   date_range_days?: number;
   has_end_date?: boolean;
+  has_occurrence_count?: boolean;
 }
 
 /**
@@ -422,6 +1073,7 @@ export interface GetEntriesQueryParams {
   recurrence_type?: RecurrenceType;
   start_date_from?: string; // YYYY-MM-DD
   start_date_to?: string; // YYYY-MM-DD
+  tags?: string[]; // Tag names, optional; series with any of them
   limit?: number; // default: 50, max: 100
   offset?: number; // default: 0
   sort_by?: "start_date" | "created_at" | "amount"; // default: start_date
@@ -435,6 +1087,9 @@ export interface GetOccurrencesQueryParams {
   from_date: string; // YYYY-MM-DD, required
   to_date: string; // YYYY-MM-DD, required
   entry_type?: EntryType;
+  wallet_id?: string; // uuid, optional (all wallets if omitted)
+  category_id?: string; // uuid, optional; includes subcategories
+  tags?: string[]; // Tag names, optional; occurrences with any of them
   limit?: number; // default: 100, max: 1000
   offset?: number; // default: 0
 }
@@ -452,6 +1107,19 @@ export interface GetEntryOccurrencesQueryParams {
  */
 export interface GetProjectionQueryParams {
   date: string; // YYYY-MM-DD, required
+  scenario?: string; // uuid, optional
+  wallet?: string; // uuid, optional (all wallets consolidated if omitted)
+}
+
+/**
+ * Query parameters for GET /api/projection/timeline
+ */
+export interface GetBalanceTimelineQueryParams {
+  from: string; // YYYY-MM-DD, required
+  to: string; // YYYY-MM-DD, required
+  granularity?: TimelineGranularity; // default: day
+  scenario?: string; // uuid, optional
+  wallet?: string; // uuid, optional (all wallets consolidated if omitted)
 }
 
 /**
@@ -461,6 +1129,31 @@ export interface GetExportCSVQueryParams {
   from_date?: string; // YYYY-MM-DD, optional (defaults to starting balance date)
   to_date?: string; // YYYY-MM-DD, optional (defaults to current date + 10 years)
   entry_type?: EntryType;
+  category_id?: string; // uuid, optional; includes subcategories
+  formatting?: CSVFormatting; // default: iso
+}
+
+/**
+ * Formatting of CSV dates and amounts: YYYY-MM-DD and a decimal point (iso), or the user's date format and
+ * number locale (localized)
+ */
+export type CSVFormatting = "iso" | "localized";
+
+/**
+ * Query parameters for GET /api/export/ofx
+ */
+export type GetExportOFXQueryParams = Omit<GetExportCSVQueryParams, "formatting">;
+
+/**
+ * Order of day, month and year in QIF dates (the format has no standard)
+ */
+export type QIFDateFormat = "MDY" | "DMY";
+
+/**
+ * Query parameters for GET /api/export/qif
+ */
+export interface GetExportQIFQueryParams extends GetExportOFXQueryParams {
+  date_format?: QIFDateFormat; // default: MDY (Quicken)
 }
 
 /**
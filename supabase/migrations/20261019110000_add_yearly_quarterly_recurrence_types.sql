@@ -0,0 +1,10 @@
+-- Migration: Add yearly and quarterly recurrence types
+-- Purpose: Extends the recurrence_type enum so insurance premiums, annual licences and quarterly tax
+-- advances can be modelled directly.
+-- Affected types: recurrence_type
+-- Special considerations: New enum values cannot be referenced in the same transaction that adds them,
+-- so constraints and functions using them live in the following migration.
+-- Generated: 2026-10-19
+
+ALTER TYPE recurrence_type ADD VALUE IF NOT EXISTS 'quarterly';
+ALTER TYPE recurrence_type ADD VALUE IF NOT EXISTS 'yearly';
@@ -0,0 +1,185 @@
+-- Migration: Support quarterly, yearly and every-N-months recurrences
+-- Purpose: Updates entry_series constraints and expand_occurrences for the new recurrence types and lets
+-- recurrence_interval apply to month-based series (every N months / quarters / years).
+-- Affected tables: entry_series
+-- Affected functions: recurrence_month_step (new), expand_occurrences
+-- Special considerations: Quarterly and yearly series reuse compute_monthly_occurrence, so Feb 29 and
+-- day 31 anchors are clamped exactly like monthly entries.
+-- Generated: 2026-10-19
+
+-- 1. Update recurrence field constraints
+-- Month-based recurrences share the monthly field requirements (day_of_month set, weekday empty).
+ALTER TABLE entry_series DROP CONSTRAINT recurrence_fields_monthly;
+
+ALTER TABLE entry_series ADD CONSTRAINT recurrence_fields_monthly
+    CHECK (
+        recurrence_type NOT IN ('monthly', 'quarterly', 'yearly') OR
+        (weekday IS NULL AND day_of_month IS NOT NULL)
+    );
+
+-- recurrence_interval now applies to every recurring type; only one-time entries are fixed at 1.
+ALTER TABLE entry_series DROP CONSTRAINT recurrence_interval_weekly_only;
+
+ALTER TABLE entry_series ADD CONSTRAINT recurrence_interval_one_time
+    CHECK (recurrence_type != 'one_time' OR recurrence_interval = 1);
+
+-- 2. recurrence_month_step
+-- Number of months between consecutive occurrences of a month-based recurrence with interval 1.
+CREATE OR REPLACE FUNCTION recurrence_month_step(
+    p_recurrence_type recurrence_type
+) RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE p_recurrence_type
+        WHEN 'monthly' THEN 1
+        WHEN 'quarterly' THEN 3
+        WHEN 'yearly' THEN 12
+    END;
+$$;
+
+-- 3. Recreate expand_occurrences with month-based interval stepping
+CREATE OR REPLACE FUNCTION expand_occurrences(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date
+)
+RETURNS TABLE (
+    occurrence_id uuid,
+    series_id uuid,
+    entry_type entry_type,
+    title text,
+    description text,
+    occurrence_date date,
+    amount numeric(12,2),
+    created_at timestamptz,
+    updated_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH RECURSIVE
+    -- Generate all potential occurrence dates for each series
+    occurrence_expansion AS (
+        -- One-time entries
+        SELECT
+            es.id AS series_id,
+            es.entry_type,
+            es.title,
+            es.description,
+            es.start_date AS occurrence_date,
+            es.amount,
+            es.created_at,
+            es.updated_at,
+            es.recurrence_type
+        FROM entry_series es
+        WHERE es.user_id = p_user_id
+            AND es.recurrence_type = 'one_time'
+            AND es.start_date BETWEEN p_from_date AND p_to_date
+
+        UNION ALL
+
+        -- Weekly recurring entries (every recurrence_interval weeks)
+        SELECT
+            es.id AS series_id,
+            es.entry_type,
+            es.title,
+            es.description,
+            d.occurrence_date,
+            es.amount,
+            es.created_at,
+            es.updated_at,
+            es.recurrence_type
+        FROM entry_series es
+        CROSS JOIN LATERAL (
+            SELECT generate_series(
+                -- Configured weekday within the Monday-based week of start_date
+                -- (es.weekday uses Postgres DOW numbering, 0=Sunday)
+                date_trunc('week', es.start_date)::date + ((es.weekday + 6) % 7),
+                LEAST(COALESCE(es.end_date, p_to_date), p_to_date),
+                make_interval(weeks => es.recurrence_interval)
+            )::date AS occurrence_date
+        ) d
+        WHERE es.user_id = p_user_id
+            AND es.recurrence_type = 'weekly'
+            AND d.occurrence_date >= es.start_date
+            AND d.occurrence_date BETWEEN p_from_date AND p_to_date
+
+        UNION ALL
+
+        -- Monthly, quarterly and yearly recurring entries
+        -- Months are stepped from the month of start_date; day_of_month is clamped per month
+        SELECT
+            es.id AS series_id,
+            es.entry_type,
+            es.title,
+            es.description,
+            o.occurrence_date,
+            es.amount,
+            es.created_at,
+            es.updated_at,
+            es.recurrence_type
+        FROM entry_series es
+        CROSS JOIN LATERAL (
+            SELECT generate_series(
+                date_trunc('month', es.start_date),
+                LEAST(
+                    date_trunc('month', COALESCE(es.end_date, p_to_date)),
+                    date_trunc('month', p_to_date)
+                ),
+                make_interval(months => recurrence_month_step(es.recurrence_type) * es.recurrence_interval)
+            )::date AS month_date
+        ) m
+        CROSS JOIN LATERAL (
+            SELECT compute_monthly_occurrence(
+                es.day_of_month,
+                EXTRACT(YEAR FROM m.month_date)::integer,
+                EXTRACT(MONTH FROM m.month_date)::integer
+            ) AS occurrence_date
+        ) o
+        WHERE es.user_id = p_user_id
+            AND es.recurrence_type IN ('monthly', 'quarterly', 'yearly')
+            AND o.occurrence_date BETWEEN p_from_date AND p_to_date
+            AND o.occurrence_date >= es.start_date
+            AND (es.end_date IS NULL OR o.occurrence_date <= es.end_date)
+    ),
+    -- Apply exceptions (skip or override)
+    occurrences_with_exceptions AS (
+        SELECT
+            oe.series_id,
+            oe.entry_type,
+            COALESCE(se.title, oe.title) AS title,
+            COALESCE(se.description, oe.description) AS description,
+            oe.occurrence_date,
+            COALESCE(se.amount, oe.amount) AS amount,
+            COALESCE(se.created_at, oe.created_at) AS created_at,
+            COALESCE(se.updated_at, oe.updated_at) AS updated_at,
+            se.exception_type
+        FROM occurrence_expansion oe
+        LEFT JOIN series_exceptions se
+            ON se.series_id = oe.series_id
+            AND se.exception_date = oe.occurrence_date
+            AND se.user_id = p_user_id
+        WHERE se.exception_type IS NULL OR se.exception_type = 'override'
+    )
+    -- Generate deterministic occurrence_id and return final results
+    SELECT
+        uuid_generate_v5(
+            '6ba7b810-9dad-11d1-80b4-00c04fd430c8'::uuid,  -- Namespace UUID
+            owe.series_id::text || '|' || owe.occurrence_date::text
+        ) AS occurrence_id,
+        owe.series_id,
+        owe.entry_type,
+        owe.title,
+        owe.description,
+        owe.occurrence_date,
+        owe.amount,
+        owe.created_at,
+        owe.updated_at
+    FROM occurrences_with_exceptions owe
+    ORDER BY owe.occurrence_date, owe.series_id;
+END;
+$$;
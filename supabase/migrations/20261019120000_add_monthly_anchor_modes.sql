@@ -0,0 +1,226 @@
+-- Migration: Add monthly anchor modes
+-- Purpose: Lets month-based series (monthly, quarterly, yearly) fall on the Nth weekday of the month
+-- ("second Tuesday"), the last given weekday ("last Friday") or the last day of the month, in addition
+-- to a fixed day_of_month.
+-- Affected tables: entry_series
+-- Affected functions: compute_anchored_monthly_occurrence (new), expand_occurrences
+-- Special considerations: Existing rows default to the 'day_of_month' anchor and keep their schedule.
+-- week_of_month is limited to 1-4 so every month has a matching date; "fifth" is expressed as 'last_weekday'.
+-- Generated: 2026-10-19
+
+-- 1. Create monthly_anchor enum
+CREATE TYPE monthly_anchor AS ENUM ('day_of_month', 'nth_weekday', 'last_weekday', 'last_day');
+
+-- 2. Add anchor columns
+-- nth_weekday and last_weekday reuse the weekday column (0=Sunday) for the day of week.
+ALTER TABLE entry_series
+    ADD COLUMN monthly_anchor monthly_anchor NOT NULL DEFAULT 'day_of_month',
+    ADD COLUMN week_of_month integer NULL CHECK (week_of_month IS NULL OR (week_of_month >= 1 AND week_of_month <= 4));
+
+-- 3. Update recurrence field constraints
+-- Each anchor requires exactly the fields it uses.
+ALTER TABLE entry_series DROP CONSTRAINT recurrence_fields_monthly;
+
+ALTER TABLE entry_series ADD CONSTRAINT recurrence_fields_monthly
+    CHECK (
+        recurrence_type NOT IN ('monthly', 'quarterly', 'yearly') OR
+        (monthly_anchor = 'day_of_month' AND weekday IS NULL AND day_of_month IS NOT NULL AND week_of_month IS NULL) OR
+        (monthly_anchor = 'nth_weekday' AND weekday IS NOT NULL AND day_of_month IS NULL AND week_of_month IS NOT NULL) OR
+        (monthly_anchor = 'last_weekday' AND weekday IS NOT NULL AND day_of_month IS NULL AND week_of_month IS NULL) OR
+        (monthly_anchor = 'last_day' AND weekday IS NULL AND day_of_month IS NULL AND week_of_month IS NULL)
+    );
+
+-- Anchors only apply to month-based recurrences.
+ALTER TABLE entry_series ADD CONSTRAINT monthly_anchor_month_based_only
+    CHECK (
+        recurrence_type IN ('monthly', 'quarterly', 'yearly') OR
+        (monthly_anchor = 'day_of_month' AND week_of_month IS NULL)
+    );
+
+-- 4. compute_anchored_monthly_occurrence
+-- Resolves the occurrence date of a month-based series within the given month for any anchor mode.
+-- The 'day_of_month' anchor delegates to compute_monthly_occurrence, so short-month clamping is unchanged.
+CREATE OR REPLACE FUNCTION compute_anchored_monthly_occurrence(
+    p_anchor monthly_anchor,
+    p_day_of_month integer,
+    p_weekday integer,
+    p_week_of_month integer,
+    target_year integer,
+    target_month integer
+) RETURNS date
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    first_of_month date;
+    last_of_month date;
+BEGIN
+    first_of_month := make_date(target_year, target_month, 1);
+    last_of_month := (first_of_month + interval '1 month - 1 day')::date;
+
+    CASE p_anchor
+        WHEN 'day_of_month' THEN
+            RETURN compute_monthly_occurrence(p_day_of_month, target_year, target_month);
+        WHEN 'nth_weekday' THEN
+            -- First matching weekday of the month, then (N - 1) weeks later
+            RETURN first_of_month
+                + ((p_weekday - EXTRACT(DOW FROM first_of_month)::integer + 7) % 7)
+                + (p_week_of_month - 1) * 7;
+        WHEN 'last_weekday' THEN
+            -- Step back from the last day of the month to the matching weekday
+            RETURN last_of_month
+                - ((EXTRACT(DOW FROM last_of_month)::integer - p_weekday + 7) % 7);
+        WHEN 'last_day' THEN
+            RETURN last_of_month;
+    END CASE;
+END;
+$$;
+
+-- 5. Recreate expand_occurrences with anchor-aware month-based expansion
+CREATE OR REPLACE FUNCTION expand_occurrences(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date
+)
+RETURNS TABLE (
+    occurrence_id uuid,
+    series_id uuid,
+    entry_type entry_type,
+    title text,
+    description text,
+    occurrence_date date,
+    amount numeric(12,2),
+    created_at timestamptz,
+    updated_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH RECURSIVE
+    -- Generate all potential occurrence dates for each series
+    occurrence_expansion AS (
+        -- One-time entries
+        SELECT
+            es.id AS series_id,
+            es.entry_type,
+            es.title,
+            es.description,
+            es.start_date AS occurrence_date,
+            es.amount,
+            es.created_at,
+            es.updated_at,
+            es.recurrence_type
+        FROM entry_series es
+        WHERE es.user_id = p_user_id
+            AND es.recurrence_type = 'one_time'
+            AND es.start_date BETWEEN p_from_date AND p_to_date
+
+        UNION ALL
+
+        -- Weekly recurring entries (every recurrence_interval weeks)
+        SELECT
+            es.id AS series_id,
+            es.entry_type,
+            es.title,
+            es.description,
+            d.occurrence_date,
+            es.amount,
+            es.created_at,
+            es.updated_at,
+            es.recurrence_type
+        FROM entry_series es
+        CROSS JOIN LATERAL (
+            SELECT generate_series(
+                -- Configured weekday within the Monday-based week of start_date
+                -- (es.weekday uses Postgres DOW numbering, 0=Sunday)
+                date_trunc('week', es.start_date)::date + ((es.weekday + 6) % 7),
+                LEAST(COALESCE(es.end_date, p_to_date), p_to_date),
+                make_interval(weeks => es.recurrence_interval)
+            )::date AS occurrence_date
+        ) d
+        WHERE es.user_id = p_user_id
+            AND es.recurrence_type = 'weekly'
+            AND d.occurrence_date >= es.start_date
+            AND d.occurrence_date BETWEEN p_from_date AND p_to_date
+
+        UNION ALL
+
+        -- Monthly, quarterly and yearly recurring entries
+        -- Months are stepped from the month of start_date; the anchor picks the date within each month
+        SELECT
+            es.id AS series_id,
+            es.entry_type,
+            es.title,
+            es.description,
+            o.occurrence_date,
+            es.amount,
+            es.created_at,
+            es.updated_at,
+            es.recurrence_type
+        FROM entry_series es
+        CROSS JOIN LATERAL (
+            SELECT generate_series(
+                date_trunc('month', es.start_date),
+                LEAST(
+                    date_trunc('month', COALESCE(es.end_date, p_to_date)),
+                    date_trunc('month', p_to_date)
+                ),
+                make_interval(months => recurrence_month_step(es.recurrence_type) * es.recurrence_interval)
+            )::date AS month_date
+        ) m
+        CROSS JOIN LATERAL (
+            SELECT compute_anchored_monthly_occurrence(
+                es.monthly_anchor,
+                es.day_of_month,
+                es.weekday,
+                es.week_of_month,
+                EXTRACT(YEAR FROM m.month_date)::integer,
+                EXTRACT(MONTH FROM m.month_date)::integer
+            ) AS occurrence_date
+        ) o
+        WHERE es.user_id = p_user_id
+            AND es.recurrence_type IN ('monthly', 'quarterly', 'yearly')
+            AND o.occurrence_date BETWEEN p_from_date AND p_to_date
+            AND o.occurrence_date >= es.start_date
+            AND (es.end_date IS NULL OR o.occurrence_date <= es.end_date)
+    ),
+    -- Apply exceptions (skip or override)
+    occurrences_with_exceptions AS (
+        SELECT
+            oe.series_id,
+            oe.entry_type,
+            COALESCE(se.title, oe.title) AS title,
+            COALESCE(se.description, oe.description) AS description,
+            oe.occurrence_date,
+            COALESCE(se.amount, oe.amount) AS amount,
+            COALESCE(se.created_at, oe.created_at) AS created_at,
+            COALESCE(se.updated_at, oe.updated_at) AS updated_at,
+            se.exception_type
+        FROM occurrence_expansion oe
+        LEFT JOIN series_exceptions se
+            ON se.series_id = oe.series_id
+            AND se.exception_date = oe.occurrence_date
+            AND se.user_id = p_user_id
+        WHERE se.exception_type IS NULL OR se.exception_type = 'override'
+    )
+    -- Generate deterministic occurrence_id and return final results
+    SELECT
+        uuid_generate_v5(
+            '6ba7b810-9dad-11d1-80b4-00c04fd430c8'::uuid,  -- Namespace UUID
+            owe.series_id::text || '|' || owe.occurrence_date::text
+        ) AS occurrence_id,
+        owe.series_id,
+        owe.entry_type,
+        owe.title,
+        owe.description,
+        owe.occurrence_date,
+        owe.amount,
+        owe.created_at,
+        owe.updated_at
+    FROM occurrences_with_exceptions owe
+    ORDER BY owe.occurrence_date, owe.series_id;
+END;
+$$;
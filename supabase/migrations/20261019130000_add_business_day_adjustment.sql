@@ -0,0 +1,334 @@
+-- Migration: Add business-day adjustment with a Polish holiday calendar
+-- Purpose: Lets a series move occurrences that fall on a weekend or public holiday to the previous,
+-- next or nearest business day (e.g. salary paid on the last business day before a Saturday).
+-- Affected tables: entry_series
+-- Affected functions: easter_sunday, is_public_holiday, is_business_day, adjust_to_business_day (new),
+-- expand_occurrences
+-- Special considerations: Adjustment happens inside expand_occurrences, so project_balance, the
+-- occurrences API and CSV export all see adjusted dates. Exceptions are matched against the adjusted
+-- date, which is the date shown to the user. Existing rows default to 'none' and keep their schedule.
+-- Generated: 2026-10-19
+
+-- 1. Create enums
+CREATE TYPE business_day_convention AS ENUM ('none', 'previous', 'next', 'nearest');
+CREATE TYPE holiday_calendar AS ENUM ('PL');
+
+-- 2. Add adjustment columns
+ALTER TABLE entry_series
+    ADD COLUMN business_day_convention business_day_convention NOT NULL DEFAULT 'none',
+    ADD COLUMN holiday_calendar holiday_calendar NOT NULL DEFAULT 'PL';
+
+-- 3. easter_sunday
+-- Computes the Gregorian Easter Sunday for a year (anonymous Gregorian algorithm).
+CREATE OR REPLACE FUNCTION easter_sunday(
+    p_year integer
+) RETURNS date
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    a integer := p_year % 19;
+    b integer := p_year / 100;
+    c integer := p_year % 100;
+    d integer := b / 4;
+    e integer := b % 4;
+    f integer := (b + 8) / 25;
+    g integer := (b - f + 1) / 3;
+    h integer := (19 * a + b - d - g + 15) % 30;
+    i integer := c / 4;
+    k integer := c % 4;
+    l integer := (32 + 2 * e + 2 * i - h - k) % 7;
+    m integer := (a + 11 * h + 22 * l) / 451;
+BEGIN
+    RETURN make_date(
+        p_year,
+        (h + l - 7 * m + 114) / 31,
+        ((h + l - 7 * m + 114) % 31) + 1
+    );
+END;
+$$;
+
+-- 4. is_public_holiday
+-- Returns true when the date is a statutory public holiday in the given calendar.
+-- PL: fixed-date holidays, Easter-based movable feasts, and Christmas Eve (from 2025).
+CREATE OR REPLACE FUNCTION is_public_holiday(
+    p_date date,
+    p_calendar holiday_calendar
+) RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_easter date;
+    v_month_day text;
+BEGIN
+    CASE p_calendar
+        WHEN 'PL' THEN
+            v_month_day := to_char(p_date, 'MM-DD');
+
+            -- Fixed-date holidays
+            IF v_month_day IN (
+                '01-01',  -- New Year's Day
+                '01-06',  -- Epiphany
+                '05-01',  -- Labour Day
+                '05-03',  -- Constitution Day
+                '08-15',  -- Assumption of Mary
+                '11-01',  -- All Saints' Day
+                '11-11',  -- Independence Day
+                '12-25',  -- Christmas Day
+                '12-26'   -- Second Day of Christmas
+            ) THEN
+                RETURN true;
+            END IF;
+
+            -- Christmas Eve became a public holiday in 2025
+            IF v_month_day = '12-24' AND EXTRACT(YEAR FROM p_date) >= 2025 THEN
+                RETURN true;
+            END IF;
+
+            -- Movable feasts relative to Easter Sunday
+            v_easter := easter_sunday(EXTRACT(YEAR FROM p_date)::integer);
+            RETURN p_date IN (
+                v_easter,       -- Easter Sunday
+                v_easter + 1,   -- Easter Monday
+                v_easter + 49,  -- Pentecost
+                v_easter + 60   -- Corpus Christi
+            );
+    END CASE;
+END;
+$$;
+
+-- 5. is_business_day
+-- A business day is a Monday-Friday that is not a public holiday in the given calendar.
+CREATE OR REPLACE FUNCTION is_business_day(
+    p_date date,
+    p_calendar holiday_calendar
+) RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT EXTRACT(DOW FROM p_date) NOT IN (0, 6)
+        AND NOT is_public_holiday(p_date, p_calendar);
+$$;
+
+-- 6. adjust_to_business_day
+-- Moves a date that is not a business day according to the convention:
+-- 'previous' / 'next' step backward / forward to the closest business day; 'nearest' picks whichever
+-- is closer and prefers the previous business day on a tie. 'none' returns the date unchanged.
+CREATE OR REPLACE FUNCTION adjust_to_business_day(
+    p_date date,
+    p_convention business_day_convention,
+    p_calendar holiday_calendar
+) RETURNS date
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_previous date := p_date;
+    v_next date := p_date;
+BEGIN
+    IF p_convention = 'none' OR is_business_day(p_date, p_calendar) THEN
+        RETURN p_date;
+    END IF;
+
+    WHILE NOT is_business_day(v_previous, p_calendar) LOOP
+        v_previous := v_previous - 1;
+    END LOOP;
+
+    WHILE NOT is_business_day(v_next, p_calendar) LOOP
+        v_next := v_next + 1;
+    END LOOP;
+
+    CASE p_convention
+        WHEN 'previous' THEN
+            RETURN v_previous;
+        WHEN 'next' THEN
+            RETURN v_next;
+        WHEN 'nearest' THEN
+            IF v_next - p_date < p_date - v_previous THEN
+                RETURN v_next;
+            END IF;
+            RETURN v_previous;
+    END CASE;
+END;
+$$;
+
+-- 7. Recreate expand_occurrences with business-day adjustment
+-- Nominal dates are generated over a window widened by c_adjustment_margin days on each side so that
+-- occurrences adjusted into [p_from_date, p_to_date] from just outside it are not lost. The longest
+-- run of non-business days in the PL calendar is 4 days (Christmas Eve to Sunday).
+CREATE OR REPLACE FUNCTION expand_occurrences(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date
+)
+RETURNS TABLE (
+    occurrence_id uuid,
+    series_id uuid,
+    entry_type entry_type,
+    title text,
+    description text,
+    occurrence_date date,
+    amount numeric(12,2),
+    created_at timestamptz,
+    updated_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    c_adjustment_margin constant integer := 7;
+    v_window_from date := p_from_date - c_adjustment_margin;
+    v_window_to date := p_to_date + c_adjustment_margin;
+BEGIN
+    RETURN QUERY
+    WITH RECURSIVE
+    -- Generate all potential (nominal) occurrence dates for each series
+    occurrence_expansion AS (
+        -- One-time entries
+        SELECT
+            es.id AS series_id,
+            es.entry_type,
+            es.title,
+            es.description,
+            es.start_date AS occurrence_date,
+            es.amount,
+            es.created_at,
+            es.updated_at,
+            es.recurrence_type,
+            es.business_day_convention,
+            es.holiday_calendar
+        FROM entry_series es
+        WHERE es.user_id = p_user_id
+            AND es.recurrence_type = 'one_time'
+            AND es.start_date BETWEEN v_window_from AND v_window_to
+
+        UNION ALL
+
+        -- Weekly recurring entries (every recurrence_interval weeks)
+        SELECT
+            es.id AS series_id,
+            es.entry_type,
+            es.title,
+            es.description,
+            d.occurrence_date,
+            es.amount,
+            es.created_at,
+            es.updated_at,
+            es.recurrence_type,
+            es.business_day_convention,
+            es.holiday_calendar
+        FROM entry_series es
+        CROSS JOIN LATERAL (
+            SELECT generate_series(
+                -- Configured weekday within the Monday-based week of start_date
+                -- (es.weekday uses Postgres DOW numbering, 0=Sunday)
+                date_trunc('week', es.start_date)::date + ((es.weekday + 6) % 7),
+                LEAST(COALESCE(es.end_date, v_window_to), v_window_to),
+                make_interval(weeks => es.recurrence_interval)
+            )::date AS occurrence_date
+        ) d
+        WHERE es.user_id = p_user_id
+            AND es.recurrence_type = 'weekly'
+            AND d.occurrence_date >= es.start_date
+            AND d.occurrence_date BETWEEN v_window_from AND v_window_to
+
+        UNION ALL
+
+        -- Monthly, quarterly and yearly recurring entries
+        -- Months are stepped from the month of start_date; the anchor picks the date within each month
+        SELECT
+            es.id AS series_id,
+            es.entry_type,
+            es.title,
+            es.description,
+            o.occurrence_date,
+            es.amount,
+            es.created_at,
+            es.updated_at,
+            es.recurrence_type,
+            es.business_day_convention,
+            es.holiday_calendar
+        FROM entry_series es
+        CROSS JOIN LATERAL (
+            SELECT generate_series(
+                date_trunc('month', es.start_date),
+                LEAST(
+                    date_trunc('month', COALESCE(es.end_date, v_window_to)),
+                    date_trunc('month', v_window_to)
+                ),
+                make_interval(months => recurrence_month_step(es.recurrence_type) * es.recurrence_interval)
+            )::date AS month_date
+        ) m
+        CROSS JOIN LATERAL (
+            SELECT compute_anchored_monthly_occurrence(
+                es.monthly_anchor,
+                es.day_of_month,
+                es.weekday,
+                es.week_of_month,
+                EXTRACT(YEAR FROM m.month_date)::integer,
+                EXTRACT(MONTH FROM m.month_date)::integer
+            ) AS occurrence_date
+        ) o
+        WHERE es.user_id = p_user_id
+            AND es.recurrence_type IN ('monthly', 'quarterly', 'yearly')
+            AND o.occurrence_date BETWEEN v_window_from AND v_window_to
+            AND o.occurrence_date >= es.start_date
+            AND (es.end_date IS NULL OR o.occurrence_date <= es.end_date)
+    ),
+    -- Move nominal dates to business days and keep those that land in the requested range
+    adjusted_occurrences AS (
+        SELECT
+            oe.series_id,
+            oe.entry_type,
+            oe.title,
+            oe.description,
+            adjust_to_business_day(
+                oe.occurrence_date,
+                oe.business_day_convention,
+                oe.holiday_calendar
+            ) AS occurrence_date,
+            oe.amount,
+            oe.created_at,
+            oe.updated_at
+        FROM occurrence_expansion oe
+    ),
+    -- Apply exceptions (skip or override)
+    occurrences_with_exceptions AS (
+        SELECT
+            ao.series_id,
+            ao.entry_type,
+            COALESCE(se.title, ao.title) AS title,
+            COALESCE(se.description, ao.description) AS description,
+            ao.occurrence_date,
+            COALESCE(se.amount, ao.amount) AS amount,
+            COALESCE(se.created_at, ao.created_at) AS created_at,
+            COALESCE(se.updated_at, ao.updated_at) AS updated_at,
+            se.exception_type
+        FROM adjusted_occurrences ao
+        LEFT JOIN series_exceptions se
+            ON se.series_id = ao.series_id
+            AND se.exception_date = ao.occurrence_date
+            AND se.user_id = p_user_id
+        WHERE ao.occurrence_date BETWEEN p_from_date AND p_to_date
+            AND (se.exception_type IS NULL OR se.exception_type = 'override')
+    )
+    -- Generate deterministic occurrence_id and return final results
+    SELECT
+        uuid_generate_v5(
+            '6ba7b810-9dad-11d1-80b4-00c04fd430c8'::uuid,  -- Namespace UUID
+            owe.series_id::text || '|' || owe.occurrence_date::text
+        ) AS occurrence_id,
+        owe.series_id,
+        owe.entry_type,
+        owe.title,
+        owe.description,
+        owe.occurrence_date,
+        owe.amount,
+        owe.created_at,
+        owe.updated_at
+    FROM occurrences_with_exceptions owe
+    ORDER BY owe.occurrence_date, owe.series_id;
+END;
+$$;
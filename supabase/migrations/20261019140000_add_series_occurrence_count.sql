@@ -0,0 +1,255 @@
+-- Migration: Add occurrence-count-bounded series (installment plans)
+-- Purpose: Lets a recurring series end after N occurrences ("10 payments of 299 PLN") instead of an
+-- explicit end_date. The effective end_date is derived and stored by a trigger, and expand_occurrences
+-- reports each occurrence's position ("4 of 10") for such series.
+-- Affected tables: entry_series
+-- Affected functions: series_occurrence_dates (new), set_end_date_from_occurrence_count (new),
+-- expand_occurrences (return type changed: occurrence_number, occurrence_count)
+-- Special considerations: Per-series date generation moves into series_occurrence_dates so the trigger
+-- and expand_occurrences share one definition. The derived end_date is the nominal (unadjusted) date of
+-- the last occurrence. expand_occurrences is dropped and recreated because its return type changes.
+-- Generated: 2026-10-19
+
+-- 1. Add occurrence_count column
+ALTER TABLE entry_series
+    ADD COLUMN occurrence_count integer NULL
+    CHECK (occurrence_count IS NULL OR (occurrence_count >= 1 AND occurrence_count <= 1000));
+
+-- Only recurring series can be bounded by a number of occurrences.
+ALTER TABLE entry_series ADD CONSTRAINT occurrence_count_recurring_only
+    CHECK (recurrence_type != 'one_time' OR occurrence_count IS NULL);
+
+-- 2. series_occurrence_dates
+-- Generates the nominal occurrence dates of a single series within [p_from_date, p_to_date],
+-- honouring the series' start_date, end_date, recurrence interval and monthly anchor.
+-- Business-day adjustment and exceptions are applied by expand_occurrences.
+CREATE OR REPLACE FUNCTION series_occurrence_dates(
+    p_series entry_series,
+    p_from_date date,
+    p_to_date date
+) RETURNS SETOF date
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    -- One-time entries
+    SELECT p_series.start_date
+    WHERE p_series.recurrence_type = 'one_time'
+        AND p_series.start_date BETWEEN p_from_date AND p_to_date
+
+    UNION ALL
+
+    -- Weekly entries: configured weekday within the Monday-based week of start_date,
+    -- stepping by recurrence_interval weeks (weekday uses Postgres DOW numbering, 0=Sunday)
+    SELECT d.occurrence_date
+    FROM (
+        SELECT generate_series(
+            date_trunc('week', p_series.start_date)::date + ((p_series.weekday + 6) % 7),
+            LEAST(COALESCE(p_series.end_date, p_to_date), p_to_date),
+            make_interval(weeks => p_series.recurrence_interval)
+        )::date AS occurrence_date
+    ) d
+    WHERE p_series.recurrence_type = 'weekly'
+        AND d.occurrence_date >= p_series.start_date
+        AND d.occurrence_date >= p_from_date
+
+    UNION ALL
+
+    -- Monthly, quarterly and yearly entries: months stepped from the month of start_date,
+    -- the anchor picks the date within each month
+    SELECT o.occurrence_date
+    FROM (
+        SELECT generate_series(
+            date_trunc('month', p_series.start_date),
+            LEAST(
+                date_trunc('month', COALESCE(p_series.end_date, p_to_date)),
+                date_trunc('month', p_to_date)
+            ),
+            make_interval(months => recurrence_month_step(p_series.recurrence_type) * p_series.recurrence_interval)
+        )::date AS month_date
+    ) m
+    CROSS JOIN LATERAL (
+        SELECT compute_anchored_monthly_occurrence(
+            p_series.monthly_anchor,
+            p_series.day_of_month,
+            p_series.weekday,
+            p_series.week_of_month,
+            EXTRACT(YEAR FROM m.month_date)::integer,
+            EXTRACT(MONTH FROM m.month_date)::integer
+        ) AS occurrence_date
+    ) o
+    WHERE p_series.recurrence_type IN ('monthly', 'quarterly', 'yearly')
+        AND o.occurrence_date BETWEEN p_from_date AND p_to_date
+        AND o.occurrence_date >= p_series.start_date
+        AND (p_series.end_date IS NULL OR o.occurrence_date <= p_series.end_date)
+
+    ORDER BY 1;
+$$;
+
+-- 3. Derive end_date from occurrence_count
+-- When occurrence_count is set, end_date becomes the date of the Nth occurrence. The search horizon
+-- covers N full steps plus one, which always contains the Nth occurrence.
+CREATE OR REPLACE FUNCTION set_end_date_from_occurrence_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_horizon date;
+BEGIN
+    IF NEW.occurrence_count IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.recurrence_type = 'weekly' THEN
+        v_horizon := NEW.start_date
+            + make_interval(weeks => NEW.recurrence_interval * (NEW.occurrence_count + 1));
+    ELSE
+        v_horizon := NEW.start_date
+            + make_interval(months => recurrence_month_step(NEW.recurrence_type)
+                * NEW.recurrence_interval * (NEW.occurrence_count + 1));
+    END IF;
+
+    -- Generate without the previous end_date so it cannot cut the series short
+    NEW.end_date := NULL;
+
+    SELECT d
+    INTO NEW.end_date
+    FROM series_occurrence_dates(NEW, NEW.start_date, v_horizon) d
+    ORDER BY d
+    OFFSET NEW.occurrence_count - 1
+    LIMIT 1;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_end_date_from_occurrence_count_before_insert_update
+    BEFORE INSERT OR UPDATE ON entry_series
+    FOR EACH ROW
+    EXECUTE FUNCTION set_end_date_from_occurrence_count();
+
+-- 4. Recreate expand_occurrences with occurrence positions
+-- Series bounded by occurrence_count are generated from their start_date (at most 1000 dates) so each
+-- occurrence can be numbered; other series are generated only over the requested window.
+DROP FUNCTION expand_occurrences(uuid, date, date);
+
+CREATE FUNCTION expand_occurrences(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date
+)
+RETURNS TABLE (
+    occurrence_id uuid,
+    series_id uuid,
+    entry_type entry_type,
+    title text,
+    description text,
+    occurrence_date date,
+    amount numeric(12,2),
+    created_at timestamptz,
+    updated_at timestamptz,
+    occurrence_number integer,
+    occurrence_count integer
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    -- Nominal dates are generated over a widened window so that occurrences moved into
+    -- [p_from_date, p_to_date] by business-day adjustment from just outside it are not lost
+    c_adjustment_margin constant integer := 7;
+    v_window_from date := p_from_date - c_adjustment_margin;
+    v_window_to date := p_to_date + c_adjustment_margin;
+BEGIN
+    RETURN QUERY
+    WITH
+    -- Generate all potential (nominal) occurrence dates for each series
+    occurrence_expansion AS (
+        SELECT
+            es.id AS series_id,
+            es.entry_type,
+            es.title,
+            es.description,
+            n.occurrence_date,
+            es.amount,
+            es.created_at,
+            es.updated_at,
+            es.business_day_convention,
+            es.holiday_calendar,
+            CASE WHEN es.occurrence_count IS NOT NULL THEN n.occurrence_number END AS occurrence_number,
+            es.occurrence_count
+        FROM entry_series es
+        CROSS JOIN LATERAL (
+            SELECT
+                d AS occurrence_date,
+                row_number() OVER (ORDER BY d)::integer AS occurrence_number
+            FROM series_occurrence_dates(
+                es,
+                CASE WHEN es.occurrence_count IS NOT NULL THEN es.start_date ELSE v_window_from END,
+                v_window_to
+            ) d
+        ) n
+        WHERE es.user_id = p_user_id
+            AND n.occurrence_date BETWEEN v_window_from AND v_window_to
+    ),
+    -- Move nominal dates to business days
+    adjusted_occurrences AS (
+        SELECT
+            oe.series_id,
+            oe.entry_type,
+            oe.title,
+            oe.description,
+            adjust_to_business_day(
+                oe.occurrence_date,
+                oe.business_day_convention,
+                oe.holiday_calendar
+            ) AS occurrence_date,
+            oe.amount,
+            oe.created_at,
+            oe.updated_at,
+            oe.occurrence_number,
+            oe.occurrence_count
+        FROM occurrence_expansion oe
+    ),
+    -- Apply exceptions (skip or override) and keep occurrences in the requested range
+    occurrences_with_exceptions AS (
+        SELECT
+            ao.series_id,
+            ao.entry_type,
+            COALESCE(se.title, ao.title) AS title,
+            COALESCE(se.description, ao.description) AS description,
+            ao.occurrence_date,
+            COALESCE(se.amount, ao.amount) AS amount,
+            COALESCE(se.created_at, ao.created_at) AS created_at,
+            COALESCE(se.updated_at, ao.updated_at) AS updated_at,
+            ao.occurrence_number,
+            ao.occurrence_count,
+            se.exception_type
+        FROM adjusted_occurrences ao
+        LEFT JOIN series_exceptions se
+            ON se.series_id = ao.series_id
+            AND se.exception_date = ao.occurrence_date
+            AND se.user_id = p_user_id
+        WHERE ao.occurrence_date BETWEEN p_from_date AND p_to_date
+            AND (se.exception_type IS NULL OR se.exception_type = 'override')
+    )
+    -- Generate deterministic occurrence_id and return final results
+    SELECT
+        uuid_generate_v5(
+            '6ba7b810-9dad-11d1-80b4-00c04fd430c8'::uuid,  -- Namespace UUID
+            owe.series_id::text || '|' || owe.occurrence_date::text
+        ) AS occurrence_id,
+        owe.series_id,
+        owe.entry_type,
+        owe.title,
+        owe.description,
+        owe.occurrence_date,
+        owe.amount,
+        owe.created_at,
+        owe.updated_at,
+        owe.occurrence_number,
+        owe.occurrence_count
+    FROM occurrences_with_exceptions owe
+    ORDER BY owe.occurrence_date, owe.series_id;
+END;
+$$;
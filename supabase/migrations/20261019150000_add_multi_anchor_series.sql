@@ -0,0 +1,107 @@
+-- Migration: Add multi-anchor series (several weekdays or days of month per series)
+-- Purpose: Lets one weekly series occur on a set of weekdays ("Mon/Wed/Fri") and one monthly, quarterly
+-- or yearly series occur on a set of days of month ("10th and 25th"), instead of several unrelated series.
+-- Affected tables: entry_series
+-- Affected functions: series_occurrence_dates
+-- Special considerations: weekday / day_of_month stay required and hold the first anchor of the set, so
+-- single-anchor series and existing rows are unchanged (NULL set = single anchor). Days that clamp to the
+-- same date in short months (30 and 31 in February) produce a single occurrence.
+-- expand_occurrences and the occurrence_count trigger pick this up through series_occurrence_dates.
+-- Generated: 2026-10-19
+
+-- 1. Add anchor set columns
+ALTER TABLE entry_series
+    ADD COLUMN weekdays integer[] NULL,
+    ADD COLUMN days_of_month integer[] NULL;
+
+-- 2. Anchor set constraints
+-- Sets are non-empty, in range, contain the scalar anchor, and only apply to matching recurrences.
+ALTER TABLE entry_series ADD CONSTRAINT weekdays_weekly_only
+    CHECK (
+        weekdays IS NULL OR (
+            recurrence_type = 'weekly' AND
+            cardinality(weekdays) >= 1 AND
+            0 <= ALL(weekdays) AND 6 >= ALL(weekdays) AND
+            weekday = ANY(weekdays)
+        )
+    );
+
+ALTER TABLE entry_series ADD CONSTRAINT days_of_month_day_anchor_only
+    CHECK (
+        days_of_month IS NULL OR (
+            recurrence_type IN ('monthly', 'quarterly', 'yearly') AND
+            monthly_anchor = 'day_of_month' AND
+            cardinality(days_of_month) >= 1 AND
+            1 <= ALL(days_of_month) AND 31 >= ALL(days_of_month) AND
+            day_of_month = ANY(days_of_month)
+        )
+    );
+
+-- 3. Recreate series_occurrence_dates with anchor sets
+-- Each weekday / day of month in the set is expanded like a single-anchor series; duplicate dates
+-- are collapsed.
+CREATE OR REPLACE FUNCTION series_occurrence_dates(
+    p_series entry_series,
+    p_from_date date,
+    p_to_date date
+) RETURNS SETOF date
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT DISTINCT dates.occurrence_date
+    FROM (
+        -- One-time entries
+        SELECT p_series.start_date AS occurrence_date
+        WHERE p_series.recurrence_type = 'one_time'
+            AND p_series.start_date BETWEEN p_from_date AND p_to_date
+
+        UNION ALL
+
+        -- Weekly entries: each configured weekday within the Monday-based week of start_date,
+        -- stepping by recurrence_interval weeks (weekdays use Postgres DOW numbering, 0=Sunday)
+        SELECT d.occurrence_date
+        FROM unnest(COALESCE(p_series.weekdays, ARRAY[p_series.weekday])) AS w(weekday)
+        CROSS JOIN LATERAL (
+            SELECT generate_series(
+                date_trunc('week', p_series.start_date)::date + ((w.weekday + 6) % 7),
+                LEAST(COALESCE(p_series.end_date, p_to_date), p_to_date),
+                make_interval(weeks => p_series.recurrence_interval)
+            )::date AS occurrence_date
+        ) d
+        WHERE p_series.recurrence_type = 'weekly'
+            AND d.occurrence_date >= p_series.start_date
+            AND d.occurrence_date >= p_from_date
+
+        UNION ALL
+
+        -- Monthly, quarterly and yearly entries: months stepped from the month of start_date,
+        -- the anchor (for each day of month in the set) picks the date within each month
+        SELECT o.occurrence_date
+        FROM (
+            SELECT generate_series(
+                date_trunc('month', p_series.start_date),
+                LEAST(
+                    date_trunc('month', COALESCE(p_series.end_date, p_to_date)),
+                    date_trunc('month', p_to_date)
+                ),
+                make_interval(months => recurrence_month_step(p_series.recurrence_type) * p_series.recurrence_interval)
+            )::date AS month_date
+        ) m
+        CROSS JOIN unnest(COALESCE(p_series.days_of_month, ARRAY[p_series.day_of_month])) AS dom(day_of_month)
+        CROSS JOIN LATERAL (
+            SELECT compute_anchored_monthly_occurrence(
+                p_series.monthly_anchor,
+                dom.day_of_month,
+                p_series.weekday,
+                p_series.week_of_month,
+                EXTRACT(YEAR FROM m.month_date)::integer,
+                EXTRACT(MONTH FROM m.month_date)::integer
+            ) AS occurrence_date
+        ) o
+        WHERE p_series.recurrence_type IN ('monthly', 'quarterly', 'yearly')
+            AND o.occurrence_date BETWEEN p_from_date AND p_to_date
+            AND o.occurrence_date >= p_series.start_date
+            AND (p_series.end_date IS NULL OR o.occurrence_date <= p_series.end_date)
+    ) dates
+    ORDER BY 1;
+$$;
@@ -0,0 +1,103 @@
+-- Migration: Add private calendar feed tokens
+-- Purpose: Lets users subscribe to a token-protected iCalendar URL (/api/feeds/{token}.ics) so phone
+-- calendars show upcoming income and bills without a login session.
+-- Affected tables: calendar_feed_tokens
+-- Affected functions: get_calendar_feed_occurrences
+-- Special considerations: Only the SHA-256 hash of a token is stored; the token itself is shown once when
+-- generated. Each user has at most one token, so regenerating replaces (and thereby revokes) the old one.
+-- Calendar apps call the feed anonymously, so occurrences are read through a SECURITY DEFINER function that
+-- resolves the user from the token hash and only ever returns that user's occurrences.
+-- Generated: 2026-10-19
+
+-- 1. Create calendar_feed_tokens table
+CREATE TABLE calendar_feed_tokens (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+    token_hash text NOT NULL UNIQUE CHECK (token_hash ~ '^[0-9a-f]{64}$'),
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- 2. Enable Row Level Security
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- 3. Create RLS Policies
+-- Anon: Deny all operations (feeds are served by get_calendar_feed_occurrences).
+CREATE POLICY calendar_feed_tokens_select_anon ON calendar_feed_tokens
+    FOR SELECT USING (auth.role() = 'anon' AND false);
+
+CREATE POLICY calendar_feed_tokens_insert_anon ON calendar_feed_tokens
+    FOR INSERT WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY calendar_feed_tokens_update_anon ON calendar_feed_tokens
+    FOR UPDATE USING (auth.role() = 'anon' AND false)
+    WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY calendar_feed_tokens_delete_anon ON calendar_feed_tokens
+    FOR DELETE USING (auth.role() = 'anon' AND false);
+
+-- Authenticated: Allow full CRUD on own token.
+CREATE POLICY calendar_feed_tokens_select_authenticated ON calendar_feed_tokens
+    FOR SELECT USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY calendar_feed_tokens_insert_authenticated ON calendar_feed_tokens
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY calendar_feed_tokens_update_authenticated ON calendar_feed_tokens
+    FOR UPDATE USING (auth.role() = 'authenticated' AND user_id = auth.uid())
+    WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY calendar_feed_tokens_delete_authenticated ON calendar_feed_tokens
+    FOR DELETE USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+-- 4. get_calendar_feed_occurrences
+-- Returns expand_occurrences rows for the owner of a feed token, over a rolling window around today
+-- (Europe/Warsaw). The window is capped so a token cannot be used to expand unbounded ranges.
+-- Raises no_data_found (P0002) for unknown tokens so the API can answer 404.
+CREATE OR REPLACE FUNCTION get_calendar_feed_occurrences(
+    p_token_hash text,
+    p_days_back integer DEFAULT 31,
+    p_days_ahead integer DEFAULT 365
+)
+RETURNS TABLE (
+    occurrence_id uuid,
+    series_id uuid,
+    entry_type entry_type,
+    title text,
+    description text,
+    occurrence_date date,
+    amount numeric(12,2),
+    created_at timestamptz,
+    updated_at timestamptz,
+    occurrence_number integer,
+    occurrence_count integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+DECLARE
+    v_user_id uuid;
+    v_today date := get_current_date_warsaw();
+BEGIN
+    SELECT cft.user_id INTO v_user_id
+    FROM calendar_feed_tokens cft
+    WHERE cft.token_hash = p_token_hash;
+
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Calendar feed not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN QUERY
+    SELECT *
+    FROM expand_occurrences(
+        v_user_id,
+        v_today - LEAST(GREATEST(p_days_back, 0), 366),
+        v_today + LEAST(GREATEST(p_days_ahead, 0), 731)
+    );
+END;
+$$;
+
+-- 5. Restrict execution to API roles
+REVOKE ALL ON FUNCTION get_calendar_feed_occurrences(text, integer, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_calendar_feed_occurrences(text, integer, integer) TO anon, authenticated;
@@ -0,0 +1,99 @@
+-- Migration: Add balance timeline projection
+-- Purpose: Returns the running projected balance for a whole date range in one call, bucketed by day,
+-- week or month, so charts no longer need one project_balance round trip per point.
+-- Affected tables: none
+-- Affected functions: project_balance_timeline
+-- Special considerations: Occurrences are expanded once from the starting balance date to p_to_date.
+-- Balances are end-of-day balances, matching project_balance (occurrences on a date are included in that
+-- date's balance). Weeks start on Monday; the first and last buckets are clipped to the requested range.
+-- Returns no rows when there is no starting balance or p_from_date is before its effective date.
+-- Generated: 2026-10-19
+
+-- 1. project_balance_timeline
+-- Per bucket: income, expense and net change within the bucket, the closing balance at bucket_end and the
+-- lowest end-of-day balance inside the bucket (so weekly/monthly charts still reveal dips below zero).
+-- SECURITY INVOKER applies RLS through expand_occurrences.
+CREATE OR REPLACE FUNCTION project_balance_timeline(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date,
+    p_granularity text DEFAULT 'day'
+)
+RETURNS TABLE (
+    bucket_start date,
+    bucket_end date,
+    total_income numeric(12,2),
+    total_expense numeric(12,2),
+    net_change numeric(12,2),
+    balance numeric(12,2),
+    min_balance numeric(12,2)
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    v_starting_balance numeric(12,2);
+    v_starting_date date;
+BEGIN
+    IF p_granularity NOT IN ('day', 'week', 'month') THEN
+        RAISE EXCEPTION 'Invalid granularity %', p_granularity USING ERRCODE = '22023';
+    END IF;
+
+    -- Get starting balance and effective date
+    SELECT sb.amount, sb.effective_date
+    INTO v_starting_balance, v_starting_date
+    FROM starting_balances sb
+    WHERE sb.user_id = p_user_id;
+
+    IF NOT FOUND OR p_from_date < v_starting_date OR p_to_date < p_from_date THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    WITH
+    -- Single expansion covering both the opening balance and the requested range
+    occurrences AS (
+        SELECT eo.occurrence_date, eo.entry_type, eo.amount
+        FROM expand_occurrences(p_user_id, v_starting_date, p_to_date) eo
+    ),
+    -- Balance at the end of the day before p_from_date
+    opening AS (
+        SELECT v_starting_balance + COALESCE(SUM(
+            CASE WHEN o.entry_type = 'income' THEN o.amount ELSE -o.amount END
+        ), 0) AS amount
+        FROM occurrences o
+        WHERE o.occurrence_date < p_from_date
+    ),
+    daily AS (
+        SELECT
+            d::date AS day,
+            COALESCE(SUM(o.amount) FILTER (WHERE o.entry_type = 'income'), 0) AS income,
+            COALESCE(SUM(o.amount) FILTER (WHERE o.entry_type = 'expense'), 0) AS expense
+        FROM generate_series(p_from_date, p_to_date, interval '1 day') d
+        LEFT JOIN occurrences o ON o.occurrence_date = d::date
+        GROUP BY d
+    ),
+    daily_balances AS (
+        SELECT
+            dl.day,
+            dl.income,
+            dl.expense,
+            op.amount + SUM(dl.income - dl.expense) OVER (ORDER BY dl.day) AS day_balance,
+            GREATEST(date_trunc(p_granularity, dl.day)::date, p_from_date) AS bucket
+        FROM daily dl
+        CROSS JOIN opening op
+    )
+    SELECT
+        db.bucket,
+        MAX(db.day),
+        SUM(db.income)::numeric(12,2),
+        SUM(db.expense)::numeric(12,2),
+        SUM(db.income - db.expense)::numeric(12,2),
+        (array_agg(db.day_balance ORDER BY db.day DESC))[1]::numeric(12,2),
+        MIN(db.day_balance)::numeric(12,2)
+    FROM daily_balances db
+    GROUP BY db.bucket
+    ORDER BY db.bucket;
+END;
+$$;
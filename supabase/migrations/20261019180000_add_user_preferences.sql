@@ -0,0 +1,99 @@
+-- Migration: Add user preferences and low-balance forecast
+-- Purpose: Stores per-user settings (starting with a minimum balance threshold) and finds when the projected
+-- balance first drops below that threshold, plus the lowest projected point, in a single call.
+-- Affected tables: user_preferences
+-- Affected functions: find_low_balance_forecast
+-- Special considerations: Users without a user_preferences row use the column defaults (threshold 0, i.e.
+-- warn when the balance goes negative). The forecast scans day by day via project_balance_timeline, so it
+-- inherits its rules: end-of-day balances, and no rows before the starting balance date.
+-- Generated: 2026-10-19
+
+-- 1. Create user_preferences table
+CREATE TABLE user_preferences (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+    low_balance_threshold numeric(12,2) NOT NULL DEFAULT 0,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- 2. Enable Row Level Security
+ALTER TABLE user_preferences ENABLE ROW LEVEL SECURITY;
+
+-- 3. Create RLS Policies
+-- Anon: Deny all operations.
+CREATE POLICY user_preferences_select_anon ON user_preferences
+    FOR SELECT USING (auth.role() = 'anon' AND false);
+
+CREATE POLICY user_preferences_insert_anon ON user_preferences
+    FOR INSERT WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY user_preferences_update_anon ON user_preferences
+    FOR UPDATE USING (auth.role() = 'anon' AND false)
+    WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY user_preferences_delete_anon ON user_preferences
+    FOR DELETE USING (auth.role() = 'anon' AND false);
+
+-- Authenticated: Allow full CRUD on own preferences.
+CREATE POLICY user_preferences_select_authenticated ON user_preferences
+    FOR SELECT USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY user_preferences_insert_authenticated ON user_preferences
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY user_preferences_update_authenticated ON user_preferences
+    FOR UPDATE USING (auth.role() = 'authenticated' AND user_id = auth.uid())
+    WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY user_preferences_delete_authenticated ON user_preferences
+    FOR DELETE USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+-- 4. updated_at trigger
+CREATE TRIGGER set_updated_at_user_preferences
+    BEFORE UPDATE ON user_preferences
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 5. find_low_balance_forecast
+-- Returns one row: the first date whose end-of-day balance is below p_threshold (with that balance), and the
+-- lowest end-of-day balance in the range (earliest date on ties). Breach columns are NULL when the balance
+-- never drops below the threshold; all columns are NULL when no timeline is available.
+CREATE OR REPLACE FUNCTION find_low_balance_forecast(
+    p_user_id uuid,
+    p_threshold numeric,
+    p_from_date date,
+    p_to_date date
+)
+RETURNS TABLE (
+    first_breach_date date,
+    first_breach_balance numeric(12,2),
+    lowest_balance numeric(12,2),
+    lowest_balance_date date
+)
+LANGUAGE sql
+SECURITY INVOKER
+STABLE
+AS $$
+    WITH days AS MATERIALIZED (
+        SELECT t.bucket_start AS day, t.balance
+        FROM project_balance_timeline(p_user_id, p_from_date, p_to_date, 'day') t
+    ),
+    first_breach AS (
+        SELECT d.day, d.balance
+        FROM days d
+        WHERE d.balance < p_threshold
+        ORDER BY d.day
+        LIMIT 1
+    ),
+    lowest AS (
+        SELECT d.day, d.balance
+        FROM days d
+        ORDER BY d.balance, d.day
+        LIMIT 1
+    )
+    SELECT fb.day, fb.balance, lw.balance, lw.day
+    FROM (SELECT 1) AS one
+    LEFT JOIN first_breach fb ON true
+    LEFT JOIN lowest lw ON true;
+$$;
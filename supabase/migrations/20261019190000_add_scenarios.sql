@@ -0,0 +1,395 @@
+-- Migration: Add what-if scenarios
+-- Purpose: Lets users model hypothetical plans (a new lease, a loan) without touching their real entries.
+-- A scenario holds hypothetical entry series and overrides (skip / override exceptions) of real series;
+-- projections can be computed as "baseline + scenario", and a scenario can be applied to the real plan.
+-- Affected tables: scenarios (new), entry_series (scenario_id), series_exceptions (scenario_id)
+-- Affected functions: expand_occurrences, project_balance, project_balance_timeline (new p_scenario_id
+-- parameter, default NULL = baseline), apply_scenario (new)
+-- Special considerations: Rows with scenario_id NULL are the real plan (baseline), so existing data and
+-- every caller that omits p_scenario_id keep their behaviour. When a scenario is projected, its override
+-- of a date takes precedence over a baseline exception on the same date. Functions whose parameter list
+-- changes are dropped and recreated; callers passing the old arguments resolve to the new default.
+-- Generated: 2026-10-19
+
+-- 1. Create scenarios table
+CREATE TABLE scenarios (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name text NOT NULL CHECK (char_length(name) <= 100 AND char_length(name) > 0),
+    description text NULL CHECK (description IS NULL OR char_length(description) <= 500),
+    applied_at timestamptz NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_scenarios_user ON scenarios (user_id, created_at);
+
+-- 2. Enable Row Level Security
+ALTER TABLE scenarios ENABLE ROW LEVEL SECURITY;
+
+-- 3. Create RLS Policies
+-- Anon: Deny all operations.
+CREATE POLICY scenarios_select_anon ON scenarios
+    FOR SELECT USING (auth.role() = 'anon' AND false);
+
+CREATE POLICY scenarios_insert_anon ON scenarios
+    FOR INSERT WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY scenarios_update_anon ON scenarios
+    FOR UPDATE USING (auth.role() = 'anon' AND false)
+    WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY scenarios_delete_anon ON scenarios
+    FOR DELETE USING (auth.role() = 'anon' AND false);
+
+-- Authenticated: Allow full CRUD on own scenarios.
+CREATE POLICY scenarios_select_authenticated ON scenarios
+    FOR SELECT USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY scenarios_insert_authenticated ON scenarios
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY scenarios_update_authenticated ON scenarios
+    FOR UPDATE USING (auth.role() = 'authenticated' AND user_id = auth.uid())
+    WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY scenarios_delete_authenticated ON scenarios
+    FOR DELETE USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+-- 4. updated_at trigger
+CREATE TRIGGER set_updated_at_scenarios
+    BEFORE UPDATE ON scenarios
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 5. Scenario membership of series and exceptions
+-- Deleting a scenario deletes its hypothetical series and overrides.
+ALTER TABLE entry_series
+    ADD COLUMN scenario_id uuid NULL REFERENCES scenarios(id) ON DELETE CASCADE;
+
+ALTER TABLE series_exceptions
+    ADD COLUMN scenario_id uuid NULL REFERENCES scenarios(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_entry_series_scenario
+    ON entry_series (scenario_id)
+    WHERE scenario_id IS NOT NULL;
+
+CREATE INDEX idx_series_exceptions_scenario
+    ON series_exceptions (scenario_id)
+    WHERE scenario_id IS NOT NULL;
+
+-- One baseline exception per series-date, plus at most one per scenario.
+ALTER TABLE series_exceptions DROP CONSTRAINT unique_series_exception;
+
+ALTER TABLE series_exceptions ADD CONSTRAINT unique_series_exception
+    UNIQUE NULLS NOT DISTINCT (series_id, exception_date, scenario_id);
+
+-- 6. Recreate expand_occurrences with an optional scenario
+-- p_scenario_id NULL returns the real plan; otherwise the scenario's series are added and its overrides
+-- replace baseline exceptions on the same dates.
+DROP FUNCTION expand_occurrences(uuid, date, date);
+
+CREATE FUNCTION expand_occurrences(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date,
+    p_scenario_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    occurrence_id uuid,
+    series_id uuid,
+    entry_type entry_type,
+    title text,
+    description text,
+    occurrence_date date,
+    amount numeric(12,2),
+    created_at timestamptz,
+    updated_at timestamptz,
+    occurrence_number integer,
+    occurrence_count integer
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    -- Nominal dates are generated over a widened window so that occurrences moved into
+    -- [p_from_date, p_to_date] by business-day adjustment from just outside it are not lost
+    c_adjustment_margin constant integer := 7;
+    v_window_from date := p_from_date - c_adjustment_margin;
+    v_window_to date := p_to_date + c_adjustment_margin;
+BEGIN
+    RETURN QUERY
+    WITH
+    -- Generate all potential (nominal) occurrence dates for each series
+    occurrence_expansion AS (
+        SELECT
+            es.id AS series_id,
+            es.entry_type,
+            es.title,
+            es.description,
+            n.occurrence_date,
+            es.amount,
+            es.created_at,
+            es.updated_at,
+            es.business_day_convention,
+            es.holiday_calendar,
+            CASE WHEN es.occurrence_count IS NOT NULL THEN n.occurrence_number END AS occurrence_number,
+            es.occurrence_count
+        FROM entry_series es
+        CROSS JOIN LATERAL (
+            SELECT
+                d AS occurrence_date,
+                row_number() OVER (ORDER BY d)::integer AS occurrence_number
+            FROM series_occurrence_dates(
+                es,
+                CASE WHEN es.occurrence_count IS NOT NULL THEN es.start_date ELSE v_window_from END,
+                v_window_to
+            ) d
+        ) n
+        WHERE es.user_id = p_user_id
+            AND (es.scenario_id IS NULL OR es.scenario_id = p_scenario_id)
+            AND n.occurrence_date BETWEEN v_window_from AND v_window_to
+    ),
+    -- Move nominal dates to business days
+    adjusted_occurrences AS (
+        SELECT
+            oe.series_id,
+            oe.entry_type,
+            oe.title,
+            oe.description,
+            adjust_to_business_day(
+                oe.occurrence_date,
+                oe.business_day_convention,
+                oe.holiday_calendar
+            ) AS occurrence_date,
+            oe.amount,
+            oe.created_at,
+            oe.updated_at,
+            oe.occurrence_number,
+            oe.occurrence_count
+        FROM occurrence_expansion oe
+    ),
+    -- Apply exceptions (skip or override) and keep occurrences in the requested range
+    -- A scenario override takes precedence over a baseline exception on the same date
+    occurrences_with_exceptions AS (
+        SELECT
+            ao.series_id,
+            ao.entry_type,
+            COALESCE(se.title, ao.title) AS title,
+            COALESCE(se.description, ao.description) AS description,
+            ao.occurrence_date,
+            COALESCE(se.amount, ao.amount) AS amount,
+            COALESCE(se.created_at, ao.created_at) AS created_at,
+            COALESCE(se.updated_at, ao.updated_at) AS updated_at,
+            ao.occurrence_number,
+            ao.occurrence_count,
+            se.exception_type
+        FROM adjusted_occurrences ao
+        LEFT JOIN LATERAL (
+            SELECT sx.title, sx.description, sx.amount, sx.created_at, sx.updated_at, sx.exception_type
+            FROM series_exceptions sx
+            WHERE sx.series_id = ao.series_id
+                AND sx.exception_date = ao.occurrence_date
+                AND sx.user_id = p_user_id
+                AND (sx.scenario_id IS NULL OR sx.scenario_id = p_scenario_id)
+            ORDER BY sx.scenario_id NULLS LAST
+            LIMIT 1
+        ) se ON true
+        WHERE ao.occurrence_date BETWEEN p_from_date AND p_to_date
+            AND (se.exception_type IS NULL OR se.exception_type = 'override')
+    )
+    -- Generate deterministic occurrence_id and return final results
+    SELECT
+        uuid_generate_v5(
+            '6ba7b810-9dad-11d1-80b4-00c04fd430c8'::uuid,  -- Namespace UUID
+            owe.series_id::text || '|' || owe.occurrence_date::text
+        ) AS occurrence_id,
+        owe.series_id,
+        owe.entry_type,
+        owe.title,
+        owe.description,
+        owe.occurrence_date,
+        owe.amount,
+        owe.created_at,
+        owe.updated_at,
+        owe.occurrence_number,
+        owe.occurrence_count
+    FROM occurrences_with_exceptions owe
+    ORDER BY owe.occurrence_date, owe.series_id;
+END;
+$$;
+
+-- 7. Recreate project_balance with an optional scenario
+DROP FUNCTION project_balance(uuid, date);
+
+CREATE FUNCTION project_balance(
+    p_user_id uuid,
+    p_target_date date,
+    p_scenario_id uuid DEFAULT NULL
+)
+RETURNS numeric(12,2)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    v_starting_balance numeric(12,2);
+    v_starting_date date;
+    v_net_change numeric(12,2);
+BEGIN
+    -- Get starting balance and effective date
+    SELECT sb.amount, sb.effective_date
+    INTO v_starting_balance, v_starting_date
+    FROM starting_balances sb
+    WHERE sb.user_id = p_user_id;
+
+    -- If no starting balance exists, or target date is before starting date, return NULL
+    IF NOT FOUND OR p_target_date < v_starting_date THEN
+        RETURN NULL;
+    END IF;
+
+    -- Single expansion for income and expense
+    SELECT COALESCE(SUM(CASE WHEN eo.entry_type = 'income' THEN eo.amount ELSE -eo.amount END), 0)
+    INTO v_net_change
+    FROM expand_occurrences(p_user_id, v_starting_date, p_target_date, p_scenario_id) eo;
+
+    RETURN ROUND(v_starting_balance + v_net_change, 2);
+END;
+$$;
+
+-- 8. Recreate project_balance_timeline with an optional scenario
+DROP FUNCTION project_balance_timeline(uuid, date, date, text);
+
+CREATE FUNCTION project_balance_timeline(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date,
+    p_granularity text DEFAULT 'day',
+    p_scenario_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    bucket_start date,
+    bucket_end date,
+    total_income numeric(12,2),
+    total_expense numeric(12,2),
+    net_change numeric(12,2),
+    balance numeric(12,2),
+    min_balance numeric(12,2)
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    v_starting_balance numeric(12,2);
+    v_starting_date date;
+BEGIN
+    IF p_granularity NOT IN ('day', 'week', 'month') THEN
+        RAISE EXCEPTION 'Invalid granularity %', p_granularity USING ERRCODE = '22023';
+    END IF;
+
+    -- Get starting balance and effective date
+    SELECT sb.amount, sb.effective_date
+    INTO v_starting_balance, v_starting_date
+    FROM starting_balances sb
+    WHERE sb.user_id = p_user_id;
+
+    IF NOT FOUND OR p_from_date < v_starting_date OR p_to_date < p_from_date THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    WITH
+    -- Single expansion covering both the opening balance and the requested range
+    occurrences AS (
+        SELECT eo.occurrence_date, eo.entry_type, eo.amount
+        FROM expand_occurrences(p_user_id, v_starting_date, p_to_date, p_scenario_id) eo
+    ),
+    -- Balance at the end of the day before p_from_date
+    opening AS (
+        SELECT v_starting_balance + COALESCE(SUM(
+            CASE WHEN o.entry_type = 'income' THEN o.amount ELSE -o.amount END
+        ), 0) AS amount
+        FROM occurrences o
+        WHERE o.occurrence_date < p_from_date
+    ),
+    daily AS (
+        SELECT
+            d::date AS day,
+            COALESCE(SUM(o.amount) FILTER (WHERE o.entry_type = 'income'), 0) AS income,
+            COALESCE(SUM(o.amount) FILTER (WHERE o.entry_type = 'expense'), 0) AS expense
+        FROM generate_series(p_from_date, p_to_date, interval '1 day') d
+        LEFT JOIN occurrences o ON o.occurrence_date = d::date
+        GROUP BY d
+    ),
+    daily_balances AS (
+        SELECT
+            dl.day,
+            dl.income,
+            dl.expense,
+            op.amount + SUM(dl.income - dl.expense) OVER (ORDER BY dl.day) AS day_balance,
+            GREATEST(date_trunc(p_granularity, dl.day)::date, p_from_date) AS bucket
+        FROM daily dl
+        CROSS JOIN opening op
+    )
+    SELECT
+        db.bucket,
+        MAX(db.day),
+        SUM(db.income)::numeric(12,2),
+        SUM(db.expense)::numeric(12,2),
+        SUM(db.income - db.expense)::numeric(12,2),
+        (array_agg(db.day_balance ORDER BY db.day DESC))[1]::numeric(12,2),
+        MIN(db.day_balance)::numeric(12,2)
+    FROM daily_balances db
+    GROUP BY db.bucket
+    ORDER BY db.bucket;
+END;
+$$;
+
+-- 9. apply_scenario
+-- Moves a scenario's series and overrides into the real plan in one transaction. An override replaces
+-- any baseline exception on the same series and date. The scenario itself is kept (empty) and stamped
+-- with applied_at. Raises no_data_found (P0002) if the scenario does not exist or is not visible.
+CREATE OR REPLACE FUNCTION apply_scenario(
+    p_scenario_id uuid
+)
+RETURNS TABLE (
+    applied_entries integer,
+    applied_overrides integer,
+    applied_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+VOLATILE
+AS $$
+DECLARE
+    v_entries integer;
+    v_overrides integer;
+    v_applied_at timestamptz;
+BEGIN
+    PERFORM 1 FROM scenarios s WHERE s.id = p_scenario_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Scenario not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    DELETE FROM series_exceptions b
+    USING series_exceptions o
+    WHERE o.scenario_id = p_scenario_id
+        AND b.scenario_id IS NULL
+        AND b.series_id = o.series_id
+        AND b.exception_date = o.exception_date;
+
+    UPDATE series_exceptions sx SET scenario_id = NULL WHERE sx.scenario_id = p_scenario_id;
+    GET DIAGNOSTICS v_overrides = ROW_COUNT;
+
+    UPDATE entry_series es SET scenario_id = NULL WHERE es.scenario_id = p_scenario_id;
+    GET DIAGNOSTICS v_entries = ROW_COUNT;
+
+    UPDATE scenarios s SET applied_at = now() WHERE s.id = p_scenario_id
+    RETURNING s.applied_at INTO v_applied_at;
+
+    RETURN QUERY SELECT v_entries, v_overrides, v_applied_at;
+END;
+$$;
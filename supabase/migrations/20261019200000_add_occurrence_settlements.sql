@@ -0,0 +1,234 @@
+-- Migration: Add occurrence settlements (actual vs. planned)
+-- Purpose: Lets users mark a planned occurrence as settled with the real amount and date, without losing
+-- the planned values (unlike an override exception). Projections use actuals for settled occurrences
+-- and the plan for everything else.
+-- Affected tables: occurrence_settlements (new)
+-- Affected functions: balance_flows (new), project_balance, project_balance_timeline (now built on
+-- balance_flows)
+-- Special considerations: A settlement is keyed like an exception, by series and occurrence date, and is
+-- only used by projections once its actual_date is on or before today (Europe/Warsaw); until then the
+-- planned occurrence is used. A settled occurrence's money moves on actual_date, so a bill planned for
+-- the 10th and paid on the 12th counts on the 12th. Settlements are kept if the occurrence is later
+-- skipped or edited, since they record money that was actually paid or received.
+-- Generated: 2026-10-19
+
+-- 1. Create occurrence_settlements table
+CREATE TABLE occurrence_settlements (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    series_id uuid NOT NULL REFERENCES entry_series(id) ON DELETE CASCADE,
+    occurrence_date date NOT NULL,
+    actual_amount numeric(12,2) NOT NULL CHECK (actual_amount >= 0),
+    actual_date date NOT NULL,
+    note text NULL CHECK (note IS NULL OR char_length(note) <= 500),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT unique_occurrence_settlement UNIQUE (series_id, occurrence_date)
+);
+
+CREATE INDEX idx_occurrence_settlements_user_actual_date
+    ON occurrence_settlements (user_id, actual_date);
+
+CREATE INDEX idx_occurrence_settlements_user_occurrence_date
+    ON occurrence_settlements (user_id, occurrence_date);
+
+-- 2. Enable Row Level Security
+ALTER TABLE occurrence_settlements ENABLE ROW LEVEL SECURITY;
+
+-- 3. Create RLS Policies
+-- Anon: Deny all operations.
+CREATE POLICY occurrence_settlements_select_anon ON occurrence_settlements
+    FOR SELECT USING (auth.role() = 'anon' AND false);
+
+CREATE POLICY occurrence_settlements_insert_anon ON occurrence_settlements
+    FOR INSERT WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY occurrence_settlements_update_anon ON occurrence_settlements
+    FOR UPDATE USING (auth.role() = 'anon' AND false)
+    WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY occurrence_settlements_delete_anon ON occurrence_settlements
+    FOR DELETE USING (auth.role() = 'anon' AND false);
+
+-- Authenticated: Allow full CRUD on own settlements.
+CREATE POLICY occurrence_settlements_select_authenticated ON occurrence_settlements
+    FOR SELECT USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY occurrence_settlements_insert_authenticated ON occurrence_settlements
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY occurrence_settlements_update_authenticated ON occurrence_settlements
+    FOR UPDATE USING (auth.role() = 'authenticated' AND user_id = auth.uid())
+    WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY occurrence_settlements_delete_authenticated ON occurrence_settlements
+    FOR DELETE USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+-- 4. updated_at trigger
+CREATE TRIGGER set_updated_at_occurrence_settlements
+    BEFORE UPDATE ON occurrence_settlements
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 5. balance_flows
+-- The money movements behind a projection within [p_from_date, p_to_date]: planned occurrences that are
+-- not settled yet, plus settlements whose actual_date falls in the range (and is not in the future).
+CREATE OR REPLACE FUNCTION balance_flows(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date,
+    p_scenario_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    flow_date date,
+    series_id uuid,
+    entry_type entry_type,
+    amount numeric(12,2),
+    is_actual boolean
+)
+LANGUAGE sql
+SECURITY INVOKER
+STABLE
+AS $$
+    SELECT eo.occurrence_date, eo.series_id, eo.entry_type, eo.amount, false
+    FROM expand_occurrences(p_user_id, p_from_date, p_to_date, p_scenario_id) eo
+    WHERE NOT EXISTS (
+        SELECT 1
+        FROM occurrence_settlements os
+        WHERE os.series_id = eo.series_id
+            AND os.occurrence_date = eo.occurrence_date
+            AND os.actual_date <= get_current_date_warsaw()
+    )
+
+    UNION ALL
+
+    SELECT os.actual_date, os.series_id, es.entry_type, os.actual_amount, true
+    FROM occurrence_settlements os
+    JOIN entry_series es ON es.id = os.series_id
+    WHERE os.user_id = p_user_id
+        AND os.actual_date BETWEEN p_from_date AND p_to_date
+        AND os.actual_date <= get_current_date_warsaw();
+$$;
+
+-- 6. Rebuild project_balance on balance_flows
+CREATE OR REPLACE FUNCTION project_balance(
+    p_user_id uuid,
+    p_target_date date,
+    p_scenario_id uuid DEFAULT NULL
+)
+RETURNS numeric(12,2)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    v_starting_balance numeric(12,2);
+    v_starting_date date;
+    v_net_change numeric(12,2);
+BEGIN
+    -- Get starting balance and effective date
+    SELECT sb.amount, sb.effective_date
+    INTO v_starting_balance, v_starting_date
+    FROM starting_balances sb
+    WHERE sb.user_id = p_user_id;
+
+    -- If no starting balance exists, or target date is before starting date, return NULL
+    IF NOT FOUND OR p_target_date < v_starting_date THEN
+        RETURN NULL;
+    END IF;
+
+    -- Actuals for settled occurrences, plan for the rest
+    SELECT COALESCE(SUM(CASE WHEN bf.entry_type = 'income' THEN bf.amount ELSE -bf.amount END), 0)
+    INTO v_net_change
+    FROM balance_flows(p_user_id, v_starting_date, p_target_date, p_scenario_id) bf;
+
+    RETURN ROUND(v_starting_balance + v_net_change, 2);
+END;
+$$;
+
+-- 7. Rebuild project_balance_timeline on balance_flows
+CREATE OR REPLACE FUNCTION project_balance_timeline(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date,
+    p_granularity text DEFAULT 'day',
+    p_scenario_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    bucket_start date,
+    bucket_end date,
+    total_income numeric(12,2),
+    total_expense numeric(12,2),
+    net_change numeric(12,2),
+    balance numeric(12,2),
+    min_balance numeric(12,2)
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    v_starting_balance numeric(12,2);
+    v_starting_date date;
+BEGIN
+    IF p_granularity NOT IN ('day', 'week', 'month') THEN
+        RAISE EXCEPTION 'Invalid granularity %', p_granularity USING ERRCODE = '22023';
+    END IF;
+
+    -- Get starting balance and effective date
+    SELECT sb.amount, sb.effective_date
+    INTO v_starting_balance, v_starting_date
+    FROM starting_balances sb
+    WHERE sb.user_id = p_user_id;
+
+    IF NOT FOUND OR p_from_date < v_starting_date OR p_to_date < p_from_date THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    WITH
+    -- Single pass over the flows covering both the opening balance and the requested range
+    occurrences AS (
+        SELECT bf.flow_date AS occurrence_date, bf.entry_type, bf.amount
+        FROM balance_flows(p_user_id, v_starting_date, p_to_date, p_scenario_id) bf
+    ),
+    -- Balance at the end of the day before p_from_date
+    opening AS (
+        SELECT v_starting_balance + COALESCE(SUM(
+            CASE WHEN o.entry_type = 'income' THEN o.amount ELSE -o.amount END
+        ), 0) AS amount
+        FROM occurrences o
+        WHERE o.occurrence_date < p_from_date
+    ),
+    daily AS (
+        SELECT
+            d::date AS day,
+            COALESCE(SUM(o.amount) FILTER (WHERE o.entry_type = 'income'), 0) AS income,
+            COALESCE(SUM(o.amount) FILTER (WHERE o.entry_type = 'expense'), 0) AS expense
+        FROM generate_series(p_from_date, p_to_date, interval '1 day') d
+        LEFT JOIN occurrences o ON o.occurrence_date = d::date
+        GROUP BY d
+    ),
+    daily_balances AS (
+        SELECT
+            dl.day,
+            dl.income,
+            dl.expense,
+            op.amount + SUM(dl.income - dl.expense) OVER (ORDER BY dl.day) AS day_balance,
+            GREATEST(date_trunc(p_granularity, dl.day)::date, p_from_date) AS bucket
+        FROM daily dl
+        CROSS JOIN opening op
+    )
+    SELECT
+        db.bucket,
+        MAX(db.day),
+        SUM(db.income)::numeric(12,2),
+        SUM(db.expense)::numeric(12,2),
+        SUM(db.income - db.expense)::numeric(12,2),
+        (array_agg(db.day_balance ORDER BY db.day DESC))[1]::numeric(12,2),
+        MIN(db.day_balance)::numeric(12,2)
+    FROM daily_balances db
+    GROUP BY db.bucket
+    ORDER BY db.bucket;
+END;
+$$;
@@ -0,0 +1,288 @@
+-- Migration: Add balance checkpoints
+-- Purpose: Lets users record observed (bank) balances on later dates instead of moving the starting balance
+-- to correct drift. Projections compute from the latest checkpoint at or before the target date, and each
+-- checkpoint reports the drift between the balance predicted for it and the observed one.
+-- Affected tables: balance_checkpoints (new)
+-- Affected functions: balance_anchor (new), balance_checkpoint_drift (new), project_balance (now starts from
+-- the latest checkpoint), project_balance_timeline (new adjustment column)
+-- Special considerations: A checkpoint has the same meaning as the starting balance: the balance at the start
+-- of checkpoint_date, before that day's entries. The starting balance stays the origin of all projections
+-- (nothing is projected before it) and checkpoints on or before its effective_date are ignored. Unlike the
+-- starting balance, a checkpoint may be negative (an overdrawn account). project_balance_timeline changes
+-- its return type, so it is dropped and recreated; find_low_balance_forecast only reads named columns and
+-- keeps working.
+-- Generated: 2026-10-19
+
+-- 1. Create balance_checkpoints table
+CREATE TABLE balance_checkpoints (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    checkpoint_date date NOT NULL,
+    amount numeric(12,2) NOT NULL,
+    note text NULL CHECK (note IS NULL OR char_length(note) <= 500),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT unique_balance_checkpoint UNIQUE (user_id, checkpoint_date)
+);
+
+-- 2. Enable Row Level Security
+ALTER TABLE balance_checkpoints ENABLE ROW LEVEL SECURITY;
+
+-- 3. Create RLS Policies
+-- Anon: Deny all operations.
+CREATE POLICY balance_checkpoints_select_anon ON balance_checkpoints
+    FOR SELECT USING (auth.role() = 'anon' AND false);
+
+CREATE POLICY balance_checkpoints_insert_anon ON balance_checkpoints
+    FOR INSERT WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY balance_checkpoints_update_anon ON balance_checkpoints
+    FOR UPDATE USING (auth.role() = 'anon' AND false)
+    WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY balance_checkpoints_delete_anon ON balance_checkpoints
+    FOR DELETE USING (auth.role() = 'anon' AND false);
+
+-- Authenticated: Allow full CRUD on own checkpoints.
+CREATE POLICY balance_checkpoints_select_authenticated ON balance_checkpoints
+    FOR SELECT USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY balance_checkpoints_insert_authenticated ON balance_checkpoints
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY balance_checkpoints_update_authenticated ON balance_checkpoints
+    FOR UPDATE USING (auth.role() = 'authenticated' AND user_id = auth.uid())
+    WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY balance_checkpoints_delete_authenticated ON balance_checkpoints
+    FOR DELETE USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+-- 4. updated_at trigger
+CREATE TRIGGER set_updated_at_balance_checkpoints
+    BEFORE UPDATE ON balance_checkpoints
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 5. balance_anchor
+-- The known balance a projection for p_date starts from: the latest checkpoint at or before p_date (after the
+-- starting balance date), or the starting balance. checkpoint_id is NULL for the starting balance. No row
+-- when there is no starting balance or p_date is before it.
+CREATE OR REPLACE FUNCTION balance_anchor(
+    p_user_id uuid,
+    p_date date
+)
+RETURNS TABLE (
+    anchor_date date,
+    amount numeric(12,2),
+    checkpoint_id uuid
+)
+LANGUAGE sql
+SECURITY INVOKER
+STABLE
+AS $$
+    SELECT a.anchor_date, a.amount, a.checkpoint_id
+    FROM starting_balances sb
+    CROSS JOIN LATERAL (
+        SELECT sb.effective_date AS anchor_date, sb.amount, NULL::uuid AS checkpoint_id
+        UNION ALL
+        SELECT bc.checkpoint_date, bc.amount, bc.id
+        FROM balance_checkpoints bc
+        WHERE bc.user_id = p_user_id
+            AND bc.checkpoint_date > sb.effective_date
+            AND bc.checkpoint_date <= p_date
+    ) a
+    WHERE sb.user_id = p_user_id
+        AND sb.effective_date <= p_date
+    ORDER BY a.anchor_date DESC
+    LIMIT 1;
+$$;
+
+-- 6. Rebuild project_balance on balance_anchor
+CREATE OR REPLACE FUNCTION project_balance(
+    p_user_id uuid,
+    p_target_date date,
+    p_scenario_id uuid DEFAULT NULL
+)
+RETURNS numeric(12,2)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    v_anchor_amount numeric(12,2);
+    v_anchor_date date;
+    v_net_change numeric(12,2);
+BEGIN
+    -- Latest checkpoint at or before the target date, or the starting balance
+    SELECT ba.amount, ba.anchor_date
+    INTO v_anchor_amount, v_anchor_date
+    FROM balance_anchor(p_user_id, p_target_date) ba;
+
+    -- If no starting balance exists, or target date is before starting date, return NULL
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    -- Actuals for settled occurrences, plan for the rest
+    SELECT COALESCE(SUM(CASE WHEN bf.entry_type = 'income' THEN bf.amount ELSE -bf.amount END), 0)
+    INTO v_net_change
+    FROM balance_flows(p_user_id, v_anchor_date, p_target_date, p_scenario_id) bf;
+
+    RETURN ROUND(v_anchor_amount + v_net_change, 2);
+END;
+$$;
+
+-- 7. Recreate project_balance_timeline with checkpoint adjustments
+DROP FUNCTION project_balance_timeline(uuid, date, date, text, uuid);
+
+-- Each day's balance is its anchor (starting balance or latest checkpoint) plus the flows since the anchor
+-- date. adjustment is the jump a checkpoint causes on top of the day's flows, so for every bucket
+-- balance = previous balance + net_change + adjustment.
+CREATE OR REPLACE FUNCTION project_balance_timeline(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date,
+    p_granularity text DEFAULT 'day',
+    p_scenario_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    bucket_start date,
+    bucket_end date,
+    total_income numeric(12,2),
+    total_expense numeric(12,2),
+    net_change numeric(12,2),
+    adjustment numeric(12,2),
+    balance numeric(12,2),
+    min_balance numeric(12,2)
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    v_starting_balance numeric(12,2);
+    v_starting_date date;
+    v_first_day date;
+BEGIN
+    IF p_granularity NOT IN ('day', 'week', 'month') THEN
+        RAISE EXCEPTION 'Invalid granularity %', p_granularity USING ERRCODE = '22023';
+    END IF;
+
+    -- Get starting balance and effective date
+    SELECT sb.amount, sb.effective_date
+    INTO v_starting_balance, v_starting_date
+    FROM starting_balances sb
+    WHERE sb.user_id = p_user_id;
+
+    IF NOT FOUND OR p_from_date < v_starting_date OR p_to_date < p_from_date THEN
+        RETURN;
+    END IF;
+
+    -- Start from the anchor in effect the day before p_from_date, so the first day's adjustment is known
+    IF p_from_date = v_starting_date THEN
+        v_first_day := p_from_date;
+    ELSE
+        SELECT ba.anchor_date INTO v_first_day FROM balance_anchor(p_user_id, p_from_date - 1) ba;
+    END IF;
+
+    RETURN QUERY
+    WITH
+    anchors AS (
+        SELECT v_starting_date AS anchor_date, v_starting_balance AS amount
+        UNION ALL
+        SELECT bc.checkpoint_date, bc.amount
+        FROM balance_checkpoints bc
+        WHERE bc.user_id = p_user_id
+            AND bc.checkpoint_date > v_starting_date
+            AND bc.checkpoint_date <= p_to_date
+    ),
+    -- Single pass over the flows from the first anchor to the end of the range
+    occurrences AS (
+        SELECT bf.flow_date AS occurrence_date, bf.entry_type, bf.amount
+        FROM balance_flows(p_user_id, v_first_day, p_to_date, p_scenario_id) bf
+    ),
+    daily AS (
+        SELECT
+            d::date AS day,
+            COALESCE(SUM(o.amount) FILTER (WHERE o.entry_type = 'income'), 0) AS income,
+            COALESCE(SUM(o.amount) FILTER (WHERE o.entry_type = 'expense'), 0) AS expense
+        FROM generate_series(v_first_day, p_to_date, interval '1 day') d
+        LEFT JOIN occurrences o ON o.occurrence_date = d::date
+        GROUP BY d
+    ),
+    anchored AS (
+        SELECT
+            dl.day,
+            dl.income,
+            dl.expense,
+            a.anchor_date,
+            a.amount + SUM(dl.income - dl.expense) OVER (PARTITION BY a.anchor_date ORDER BY dl.day) AS day_balance
+        FROM daily dl
+        CROSS JOIN LATERAL (
+            SELECT an.anchor_date, an.amount
+            FROM anchors an
+            WHERE an.anchor_date <= dl.day
+            ORDER BY an.anchor_date DESC
+            LIMIT 1
+        ) a
+    ),
+    daily_balances AS (
+        SELECT
+            ad.day,
+            ad.income,
+            ad.expense,
+            ad.day_balance,
+            -- Non-zero only on checkpoint days: observed minus predicted balance
+            COALESCE(
+                ad.day_balance - LAG(ad.day_balance) OVER (ORDER BY ad.day) - (ad.income - ad.expense),
+                0
+            ) AS adjustment,
+            GREATEST(date_trunc(p_granularity, ad.day)::date, p_from_date) AS bucket
+        FROM anchored ad
+    )
+    SELECT
+        db.bucket,
+        MAX(db.day),
+        SUM(db.income)::numeric(12,2),
+        SUM(db.expense)::numeric(12,2),
+        SUM(db.income - db.expense)::numeric(12,2),
+        SUM(db.adjustment)::numeric(12,2),
+        (array_agg(db.day_balance ORDER BY db.day DESC))[1]::numeric(12,2),
+        MIN(db.day_balance)::numeric(12,2)
+    FROM daily_balances db
+    WHERE db.day >= p_from_date
+    GROUP BY db.bucket
+    ORDER BY db.bucket;
+END;
+$$;
+
+-- 8. balance_checkpoint_drift
+-- For each checkpoint, the balance projected for it from the previous anchor (i.e. at the end of the day
+-- before) and the drift between observed and predicted. Both are NULL for checkpoints ignored because they
+-- are not after the starting balance.
+CREATE OR REPLACE FUNCTION balance_checkpoint_drift(
+    p_user_id uuid
+)
+RETURNS TABLE (
+    checkpoint_id uuid,
+    predicted_balance numeric(12,2),
+    drift numeric(12,2)
+)
+LANGUAGE sql
+SECURITY INVOKER
+STABLE
+AS $$
+    SELECT
+        bc.id,
+        p.predicted,
+        (bc.amount - p.predicted)::numeric(12,2)
+    FROM balance_checkpoints bc
+    LEFT JOIN starting_balances sb ON sb.user_id = bc.user_id
+    CROSS JOIN LATERAL (
+        SELECT CASE
+            WHEN bc.checkpoint_date > sb.effective_date THEN project_balance(p_user_id, bc.checkpoint_date - 1)
+        END AS predicted
+    ) p
+    WHERE bc.user_id = p_user_id
+    ORDER BY bc.checkpoint_date;
+$$;
@@ -0,0 +1,577 @@
+-- Migration: Add wallets
+-- Purpose: Lets users track several accounts (checking, savings, business) instead of a single wallet. Each
+-- wallet has its own starting balance and checkpoints, entries belong to a wallet, and projections can be
+-- computed per wallet or consolidated across all of them.
+-- Affected tables: wallets (new), entry_series (wallet_id), starting_balances (wallet_id, one per wallet
+-- instead of one per user), balance_checkpoints (wallet_id, unique per wallet and date)
+-- Affected functions: ensure_default_wallet (new), set_default_wallet (new, trigger), balance_flows,
+-- project_balance, project_balance_timeline, find_low_balance_forecast (new p_wallet_id parameter, default
+-- NULL = all wallets), balance_anchor (now per wallet), balance_checkpoint_drift (projects each checkpoint's
+-- own wallet)
+-- Special considerations: Every user with data gets a default wallet named "Main" that takes over their
+-- existing starting balance, checkpoints and entries. Inserts that leave wallet_id NULL go to the default
+-- wallet, which is created on first use, so callers unaware of wallets keep working. A consolidated
+-- projection is the sum of the per-wallet projections; wallets whose starting balance is after the projected
+-- date contribute nothing, and in a timeline their opening balance appears as an adjustment on their start
+-- date. A wallet cannot be deleted while it still has entries.
+-- Generated: 2026-10-19
+
+-- 1. Create wallets table
+CREATE TABLE wallets (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name text NOT NULL CHECK (char_length(name) <= 100 AND char_length(name) > 0),
+    is_default boolean NOT NULL DEFAULT false,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT unique_wallet_name UNIQUE (user_id, name),
+    -- Target of the (wallet_id, user_id) foreign keys, which keep rows in their owner's wallets
+    CONSTRAINT unique_wallet_owner UNIQUE (id, user_id)
+);
+
+-- At most one default wallet per user
+CREATE UNIQUE INDEX unique_default_wallet ON wallets (user_id) WHERE is_default;
+
+-- 2. Enable Row Level Security
+ALTER TABLE wallets ENABLE ROW LEVEL SECURITY;
+
+-- 3. Create RLS Policies
+-- Anon: Deny all operations.
+CREATE POLICY wallets_select_anon ON wallets
+    FOR SELECT USING (auth.role() = 'anon' AND false);
+
+CREATE POLICY wallets_insert_anon ON wallets
+    FOR INSERT WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY wallets_update_anon ON wallets
+    FOR UPDATE USING (auth.role() = 'anon' AND false)
+    WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY wallets_delete_anon ON wallets
+    FOR DELETE USING (auth.role() = 'anon' AND false);
+
+-- Authenticated: Allow full CRUD on own wallets.
+CREATE POLICY wallets_select_authenticated ON wallets
+    FOR SELECT USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY wallets_insert_authenticated ON wallets
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY wallets_update_authenticated ON wallets
+    FOR UPDATE USING (auth.role() = 'authenticated' AND user_id = auth.uid())
+    WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY wallets_delete_authenticated ON wallets
+    FOR DELETE USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+-- 4. updated_at trigger
+CREATE TRIGGER set_updated_at_wallets
+    BEFORE UPDATE ON wallets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 5. Default wallet for every user with existing data
+INSERT INTO wallets (user_id, name, is_default)
+SELECT u.user_id, 'Main', true
+FROM (
+    SELECT user_id FROM starting_balances
+    UNION
+    SELECT user_id FROM balance_checkpoints
+    UNION
+    SELECT user_id FROM entry_series
+) u;
+
+-- 6. Move existing rows into the default wallet
+ALTER TABLE entry_series ADD COLUMN wallet_id uuid NULL;
+ALTER TABLE starting_balances ADD COLUMN wallet_id uuid NULL;
+ALTER TABLE balance_checkpoints ADD COLUMN wallet_id uuid NULL;
+
+UPDATE entry_series es SET wallet_id = w.id
+FROM wallets w WHERE w.user_id = es.user_id AND w.is_default;
+
+UPDATE starting_balances sb SET wallet_id = w.id
+FROM wallets w WHERE w.user_id = sb.user_id AND w.is_default;
+
+UPDATE balance_checkpoints bc SET wallet_id = w.id
+FROM wallets w WHERE w.user_id = bc.user_id AND w.is_default;
+
+-- Entries must be moved or deleted before their wallet; balances go with it
+ALTER TABLE entry_series
+    ALTER COLUMN wallet_id SET NOT NULL,
+    ADD CONSTRAINT entry_series_wallet_id_fkey FOREIGN KEY (wallet_id, user_id)
+        REFERENCES wallets (id, user_id) ON DELETE RESTRICT;
+
+ALTER TABLE starting_balances
+    ALTER COLUMN wallet_id SET NOT NULL,
+    ADD CONSTRAINT starting_balances_wallet_id_fkey FOREIGN KEY (wallet_id, user_id)
+        REFERENCES wallets (id, user_id) ON DELETE CASCADE,
+    DROP CONSTRAINT starting_balances_user_id_key,
+    ADD CONSTRAINT unique_wallet_starting_balance UNIQUE (wallet_id);
+
+ALTER TABLE balance_checkpoints
+    ALTER COLUMN wallet_id SET NOT NULL,
+    ADD CONSTRAINT balance_checkpoints_wallet_id_fkey FOREIGN KEY (wallet_id, user_id)
+        REFERENCES wallets (id, user_id) ON DELETE CASCADE,
+    DROP CONSTRAINT unique_balance_checkpoint,
+    ADD CONSTRAINT unique_balance_checkpoint UNIQUE (wallet_id, checkpoint_date);
+
+CREATE INDEX idx_entry_series_wallet ON entry_series (wallet_id);
+CREATE INDEX idx_starting_balances_user ON starting_balances (user_id);
+
+-- 7. ensure_default_wallet
+-- Returns the user's default wallet, creating it ("Main") if the user has none yet.
+CREATE OR REPLACE FUNCTION ensure_default_wallet(
+    p_user_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+VOLATILE
+AS $$
+DECLARE
+    v_wallet_id uuid;
+BEGIN
+    SELECT w.id INTO v_wallet_id
+    FROM wallets w
+    WHERE w.user_id = p_user_id AND w.is_default;
+
+    IF FOUND THEN
+        RETURN v_wallet_id;
+    END IF;
+
+    -- A concurrent call may have created it in the meantime
+    INSERT INTO wallets (user_id, name, is_default)
+    VALUES (p_user_id, 'Main', true)
+    ON CONFLICT (user_id) WHERE is_default DO NOTHING
+    RETURNING id INTO v_wallet_id;
+
+    IF v_wallet_id IS NULL THEN
+        SELECT w.id INTO v_wallet_id
+        FROM wallets w
+        WHERE w.user_id = p_user_id AND w.is_default;
+    END IF;
+
+    RETURN v_wallet_id;
+END;
+$$;
+
+-- 8. Inserts without a wallet go to the default wallet
+CREATE OR REPLACE FUNCTION set_default_wallet()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+BEGIN
+    IF NEW.wallet_id IS NULL THEN
+        NEW.wallet_id := ensure_default_wallet(NEW.user_id);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_default_wallet_entry_series
+    BEFORE INSERT ON entry_series
+    FOR EACH ROW
+    EXECUTE FUNCTION set_default_wallet();
+
+CREATE TRIGGER set_default_wallet_starting_balances
+    BEFORE INSERT ON starting_balances
+    FOR EACH ROW
+    EXECUTE FUNCTION set_default_wallet();
+
+CREATE TRIGGER set_default_wallet_balance_checkpoints
+    BEFORE INSERT ON balance_checkpoints
+    FOR EACH ROW
+    EXECUTE FUNCTION set_default_wallet();
+
+-- 9. Recreate balance_flows with an optional wallet
+DROP FUNCTION balance_flows(uuid, date, date, uuid);
+
+CREATE FUNCTION balance_flows(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date,
+    p_scenario_id uuid DEFAULT NULL,
+    p_wallet_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    flow_date date,
+    series_id uuid,
+    entry_type entry_type,
+    amount numeric(12,2),
+    is_actual boolean
+)
+LANGUAGE sql
+SECURITY INVOKER
+STABLE
+AS $$
+    SELECT eo.occurrence_date, eo.series_id, eo.entry_type, eo.amount, false
+    FROM expand_occurrences(p_user_id, p_from_date, p_to_date, p_scenario_id) eo
+    JOIN entry_series es ON es.id = eo.series_id
+    WHERE (p_wallet_id IS NULL OR es.wallet_id = p_wallet_id)
+        AND NOT EXISTS (
+            SELECT 1
+            FROM occurrence_settlements os
+            WHERE os.series_id = eo.series_id
+                AND os.occurrence_date = eo.occurrence_date
+                AND os.actual_date <= get_current_date_warsaw()
+        )
+
+    UNION ALL
+
+    SELECT os.actual_date, os.series_id, es.entry_type, os.actual_amount, true
+    FROM occurrence_settlements os
+    JOIN entry_series es ON es.id = os.series_id
+    WHERE os.user_id = p_user_id
+        AND (p_wallet_id IS NULL OR es.wallet_id = p_wallet_id)
+        AND os.actual_date BETWEEN p_from_date AND p_to_date
+        AND os.actual_date <= get_current_date_warsaw();
+$$;
+
+-- 10. Recreate balance_anchor per wallet
+DROP FUNCTION balance_anchor(uuid, date);
+
+-- The known balance of a wallet a projection for p_date starts from: the latest checkpoint at or before
+-- p_date (after the starting balance date), or the starting balance. checkpoint_id is NULL for the starting
+-- balance. No row when the wallet has no starting balance or p_date is before it.
+CREATE FUNCTION balance_anchor(
+    p_user_id uuid,
+    p_date date,
+    p_wallet_id uuid
+)
+RETURNS TABLE (
+    anchor_date date,
+    amount numeric(12,2),
+    checkpoint_id uuid
+)
+LANGUAGE sql
+SECURITY INVOKER
+STABLE
+AS $$
+    SELECT a.anchor_date, a.amount, a.checkpoint_id
+    FROM starting_balances sb
+    CROSS JOIN LATERAL (
+        SELECT sb.effective_date AS anchor_date, sb.amount, NULL::uuid AS checkpoint_id
+        UNION ALL
+        SELECT bc.checkpoint_date, bc.amount, bc.id
+        FROM balance_checkpoints bc
+        WHERE bc.user_id = p_user_id
+            AND bc.wallet_id = p_wallet_id
+            AND bc.checkpoint_date > sb.effective_date
+            AND bc.checkpoint_date <= p_date
+    ) a
+    WHERE sb.user_id = p_user_id
+        AND sb.wallet_id = p_wallet_id
+        AND sb.effective_date <= p_date
+    ORDER BY a.anchor_date DESC
+    LIMIT 1;
+$$;
+
+-- 11. Recreate project_balance with an optional wallet
+DROP FUNCTION project_balance(uuid, date, uuid);
+
+CREATE FUNCTION project_balance(
+    p_user_id uuid,
+    p_target_date date,
+    p_scenario_id uuid DEFAULT NULL,
+    p_wallet_id uuid DEFAULT NULL
+)
+RETURNS numeric(12,2)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    v_anchor_amount numeric(12,2);
+    v_anchor_date date;
+    v_net_change numeric(12,2);
+BEGIN
+    -- Consolidated: sum of the wallets that have started by the target date (NULL if none has)
+    IF p_wallet_id IS NULL THEN
+        RETURN (
+            SELECT SUM(project_balance(p_user_id, p_target_date, p_scenario_id, w.id))
+            FROM wallets w
+            WHERE w.user_id = p_user_id
+        );
+    END IF;
+
+    -- Latest checkpoint at or before the target date, or the starting balance
+    SELECT ba.amount, ba.anchor_date
+    INTO v_anchor_amount, v_anchor_date
+    FROM balance_anchor(p_user_id, p_target_date, p_wallet_id) ba;
+
+    -- If no starting balance exists, or target date is before starting date, return NULL
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    -- Actuals for settled occurrences, plan for the rest
+    SELECT COALESCE(SUM(CASE WHEN bf.entry_type = 'income' THEN bf.amount ELSE -bf.amount END), 0)
+    INTO v_net_change
+    FROM balance_flows(p_user_id, v_anchor_date, p_target_date, p_scenario_id, p_wallet_id) bf;
+
+    RETURN ROUND(v_anchor_amount + v_net_change, 2);
+END;
+$$;
+
+-- 12. Recreate project_balance_timeline with an optional wallet
+DROP FUNCTION project_balance_timeline(uuid, date, date, text, uuid);
+
+-- Per wallet, each day's balance is its anchor (starting balance or latest checkpoint) plus the flows since
+-- the anchor date. Consolidated, each day is the sum of the wallets' days, and a wallet starting after
+-- p_from_date adds its opening balance to the adjustment of its first day, so for every bucket
+-- balance = previous balance + net_change + adjustment still holds.
+CREATE FUNCTION project_balance_timeline(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date,
+    p_granularity text DEFAULT 'day',
+    p_scenario_id uuid DEFAULT NULL,
+    p_wallet_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    bucket_start date,
+    bucket_end date,
+    total_income numeric(12,2),
+    total_expense numeric(12,2),
+    net_change numeric(12,2),
+    adjustment numeric(12,2),
+    balance numeric(12,2),
+    min_balance numeric(12,2)
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    v_starting_balance numeric(12,2);
+    v_starting_date date;
+    v_first_day date;
+BEGIN
+    IF p_granularity NOT IN ('day', 'week', 'month') THEN
+        RAISE EXCEPTION 'Invalid granularity %', p_granularity USING ERRCODE = '22023';
+    END IF;
+
+    IF p_wallet_id IS NULL THEN
+        -- Nothing is projected before the earliest starting balance
+        SELECT MIN(sb.effective_date)
+        INTO v_starting_date
+        FROM starting_balances sb
+        WHERE sb.user_id = p_user_id;
+
+        IF v_starting_date IS NULL OR p_from_date < v_starting_date OR p_to_date < p_from_date THEN
+            RETURN;
+        END IF;
+
+        RETURN QUERY
+        WITH
+        wallet_days AS (
+            SELECT
+                t.bucket_start AS day,
+                t.total_income,
+                t.total_expense,
+                t.adjustment,
+                t.balance,
+                -- Opening balance of a wallet that starts inside the range, on its first day
+                CASE
+                    WHEN sb.effective_date > p_from_date AND t.bucket_start = sb.effective_date
+                    THEN t.balance - t.net_change - t.adjustment
+                    ELSE 0
+                END AS opening
+            FROM starting_balances sb
+            CROSS JOIN LATERAL project_balance_timeline(
+                p_user_id, GREATEST(p_from_date, sb.effective_date), p_to_date, 'day', p_scenario_id, sb.wallet_id
+            ) t
+            WHERE sb.user_id = p_user_id
+                AND sb.effective_date <= p_to_date
+        ),
+        daily AS (
+            SELECT
+                wd.day,
+                SUM(wd.total_income) AS income,
+                SUM(wd.total_expense) AS expense,
+                SUM(wd.adjustment + wd.opening) AS day_adjustment,
+                SUM(wd.balance) AS day_balance,
+                GREATEST(date_trunc(p_granularity, wd.day)::date, p_from_date) AS bucket
+            FROM wallet_days wd
+            GROUP BY wd.day
+        )
+        SELECT
+            d.bucket,
+            MAX(d.day),
+            SUM(d.income)::numeric(12,2),
+            SUM(d.expense)::numeric(12,2),
+            SUM(d.income - d.expense)::numeric(12,2),
+            SUM(d.day_adjustment)::numeric(12,2),
+            (array_agg(d.day_balance ORDER BY d.day DESC))[1]::numeric(12,2),
+            MIN(d.day_balance)::numeric(12,2)
+        FROM daily d
+        GROUP BY d.bucket
+        ORDER BY d.bucket;
+        RETURN;
+    END IF;
+
+    -- Get starting balance and effective date of the wallet
+    SELECT sb.amount, sb.effective_date
+    INTO v_starting_balance, v_starting_date
+    FROM starting_balances sb
+    WHERE sb.user_id = p_user_id
+        AND sb.wallet_id = p_wallet_id;
+
+    IF NOT FOUND OR p_from_date < v_starting_date OR p_to_date < p_from_date THEN
+        RETURN;
+    END IF;
+
+    -- Start from the anchor in effect the day before p_from_date, so the first day's adjustment is known
+    IF p_from_date = v_starting_date THEN
+        v_first_day := p_from_date;
+    ELSE
+        SELECT ba.anchor_date INTO v_first_day FROM balance_anchor(p_user_id, p_from_date - 1, p_wallet_id) ba;
+    END IF;
+
+    RETURN QUERY
+    WITH
+    anchors AS (
+        SELECT v_starting_date AS anchor_date, v_starting_balance AS amount
+        UNION ALL
+        SELECT bc.checkpoint_date, bc.amount
+        FROM balance_checkpoints bc
+        WHERE bc.user_id = p_user_id
+            AND bc.wallet_id = p_wallet_id
+            AND bc.checkpoint_date > v_starting_date
+            AND bc.checkpoint_date <= p_to_date
+    ),
+    -- Single pass over the flows from the first anchor to the end of the range
+    occurrences AS (
+        SELECT bf.flow_date AS occurrence_date, bf.entry_type, bf.amount
+        FROM balance_flows(p_user_id, v_first_day, p_to_date, p_scenario_id, p_wallet_id) bf
+    ),
+    daily AS (
+        SELECT
+            d::date AS day,
+            COALESCE(SUM(o.amount) FILTER (WHERE o.entry_type = 'income'), 0) AS income,
+            COALESCE(SUM(o.amount) FILTER (WHERE o.entry_type = 'expense'), 0) AS expense
+        FROM generate_series(v_first_day, p_to_date, interval '1 day') d
+        LEFT JOIN occurrences o ON o.occurrence_date = d::date
+        GROUP BY d
+    ),
+    anchored AS (
+        SELECT
+            dl.day,
+            dl.income,
+            dl.expense,
+            a.anchor_date,
+            a.amount + SUM(dl.income - dl.expense) OVER (PARTITION BY a.anchor_date ORDER BY dl.day) AS day_balance
+        FROM daily dl
+        CROSS JOIN LATERAL (
+            SELECT an.anchor_date, an.amount
+            FROM anchors an
+            WHERE an.anchor_date <= dl.day
+            ORDER BY an.anchor_date DESC
+            LIMIT 1
+        ) a
+    ),
+    daily_balances AS (
+        SELECT
+            ad.day,
+            ad.income,
+            ad.expense,
+            ad.day_balance,
+            -- Non-zero only on checkpoint days: observed minus predicted balance
+            COALESCE(
+                ad.day_balance - LAG(ad.day_balance) OVER (ORDER BY ad.day) - (ad.income - ad.expense),
+                0
+            ) AS adjustment,
+            GREATEST(date_trunc(p_granularity, ad.day)::date, p_from_date) AS bucket
+        FROM anchored ad
+    )
+    SELECT
+        db.bucket,
+        MAX(db.day),
+        SUM(db.income)::numeric(12,2),
+        SUM(db.expense)::numeric(12,2),
+        SUM(db.income - db.expense)::numeric(12,2),
+        SUM(db.adjustment)::numeric(12,2),
+        (array_agg(db.day_balance ORDER BY db.day DESC))[1]::numeric(12,2),
+        MIN(db.day_balance)::numeric(12,2)
+    FROM daily_balances db
+    WHERE db.day >= p_from_date
+    GROUP BY db.bucket
+    ORDER BY db.bucket;
+END;
+$$;
+
+-- 13. Recreate find_low_balance_forecast with an optional wallet
+DROP FUNCTION find_low_balance_forecast(uuid, numeric, date, date);
+
+CREATE FUNCTION find_low_balance_forecast(
+    p_user_id uuid,
+    p_threshold numeric,
+    p_from_date date,
+    p_to_date date,
+    p_wallet_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    first_breach_date date,
+    first_breach_balance numeric(12,2),
+    lowest_balance numeric(12,2),
+    lowest_balance_date date
+)
+LANGUAGE sql
+SECURITY INVOKER
+STABLE
+AS $$
+    WITH days AS MATERIALIZED (
+        SELECT t.bucket_start AS day, t.balance
+        FROM project_balance_timeline(p_user_id, p_from_date, p_to_date, 'day', NULL, p_wallet_id) t
+    ),
+    first_breach AS (
+        SELECT d.day, d.balance
+        FROM days d
+        WHERE d.balance < p_threshold
+        ORDER BY d.day
+        LIMIT 1
+    ),
+    lowest AS (
+        SELECT d.day, d.balance
+        FROM days d
+        ORDER BY d.balance, d.day
+        LIMIT 1
+    )
+    SELECT fb.day, fb.balance, lw.balance, lw.day
+    FROM (SELECT 1) AS one
+    LEFT JOIN first_breach fb ON true
+    LEFT JOIN lowest lw ON true;
+$$;
+
+-- 14. Rebuild balance_checkpoint_drift per wallet
+-- For each checkpoint, the balance of its wallet projected from the previous anchor (i.e. at the end of the
+-- day before) and the drift between observed and predicted. Both are NULL for checkpoints ignored because
+-- they are not after the wallet's starting balance.
+CREATE OR REPLACE FUNCTION balance_checkpoint_drift(
+    p_user_id uuid
+)
+RETURNS TABLE (
+    checkpoint_id uuid,
+    predicted_balance numeric(12,2),
+    drift numeric(12,2)
+)
+LANGUAGE sql
+SECURITY INVOKER
+STABLE
+AS $$
+    SELECT
+        bc.id,
+        p.predicted,
+        (bc.amount - p.predicted)::numeric(12,2)
+    FROM balance_checkpoints bc
+    LEFT JOIN starting_balances sb ON sb.wallet_id = bc.wallet_id
+    CROSS JOIN LATERAL (
+        SELECT CASE
+            WHEN bc.checkpoint_date > sb.effective_date
+            THEN project_balance(p_user_id, bc.checkpoint_date - 1, NULL, bc.wallet_id)
+        END AS predicted
+    ) p
+    WHERE bc.user_id = p_user_id
+    ORDER BY bc.checkpoint_date;
+$$;
@@ -0,0 +1,9 @@
+-- Migration: Add transfer entry type
+-- Purpose: Extends the entry_type enum so money moved between two of the user's wallets can be modelled as a
+-- single series instead of an unrelated expense and income.
+-- Affected types: entry_type
+-- Special considerations: New enum values cannot be referenced in the same transaction that adds them,
+-- so the target wallet column, constraints and functions using them live in the following migration.
+-- Generated: 2026-10-19
+
+ALTER TYPE entry_type ADD VALUE IF NOT EXISTS 'transfer';
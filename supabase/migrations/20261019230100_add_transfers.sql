@@ -0,0 +1,339 @@
+-- Migration: Add transfers between wallets
+-- Purpose: A transfer series debits its wallet and credits a target wallet (savings deposit, credit card
+-- payoff). It moves each wallet's balance but is neither income nor expense, so totals no longer double-count
+-- money that only changes accounts.
+-- Affected tables: entry_series (target_wallet_id)
+-- Affected functions: balance_flows (new net_amount column: the signed effect on the projected balance),
+-- project_balance (sums net_amount), project_balance_timeline (new net_transfers column, included in
+-- net_change)
+-- Special considerations: Each transfer occurrence yields a debit row for the source wallet and a credit row
+-- for the target wallet; consolidated, the two cancel out and balance_flows leaves transfers out. A wallet
+-- cannot be deleted while it is the target of a transfer. balance_flows and project_balance_timeline change
+-- their return types, so they are dropped and recreated; find_low_balance_forecast and
+-- balance_checkpoint_drift only read named columns and keep working.
+-- Generated: 2026-10-19
+
+-- 1. Target wallet of transfer series
+ALTER TABLE entry_series
+    ADD COLUMN target_wallet_id uuid NULL,
+    ADD CONSTRAINT entry_series_target_wallet_id_fkey FOREIGN KEY (target_wallet_id, user_id)
+        REFERENCES wallets (id, user_id) ON DELETE RESTRICT,
+    -- Transfers, and only transfers, have a target wallet, which differs from their own
+    ADD CONSTRAINT check_transfer_target_wallet CHECK (
+        (entry_type = 'transfer') = (target_wallet_id IS NOT NULL)
+        AND target_wallet_id IS DISTINCT FROM wallet_id
+    );
+
+CREATE INDEX idx_entry_series_target_wallet ON entry_series (target_wallet_id) WHERE target_wallet_id IS NOT NULL;
+
+-- 2. Recreate balance_flows with signed amounts
+DROP FUNCTION balance_flows(uuid, date, date, uuid, uuid);
+
+CREATE FUNCTION balance_flows(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date,
+    p_scenario_id uuid DEFAULT NULL,
+    p_wallet_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    flow_date date,
+    series_id uuid,
+    entry_type entry_type,
+    amount numeric(12,2),
+    net_amount numeric(12,2),
+    is_actual boolean
+)
+LANGUAGE sql
+SECURITY INVOKER
+STABLE
+AS $$
+    WITH flows AS (
+        SELECT eo.occurrence_date AS flow_date, eo.series_id, eo.entry_type, eo.amount, false AS is_actual
+        FROM expand_occurrences(p_user_id, p_from_date, p_to_date, p_scenario_id) eo
+        WHERE NOT EXISTS (
+            SELECT 1
+            FROM occurrence_settlements os
+            WHERE os.series_id = eo.series_id
+                AND os.occurrence_date = eo.occurrence_date
+                AND os.actual_date <= get_current_date_warsaw()
+        )
+
+        UNION ALL
+
+        SELECT os.actual_date, os.series_id, es.entry_type, os.actual_amount, true
+        FROM occurrence_settlements os
+        JOIN entry_series es ON es.id = os.series_id
+        WHERE os.user_id = p_user_id
+            AND os.actual_date BETWEEN p_from_date AND p_to_date
+            AND os.actual_date <= get_current_date_warsaw()
+    )
+    SELECT f.flow_date, f.series_id, f.entry_type, f.amount, leg.net_amount, f.is_actual
+    FROM flows f
+    JOIN entry_series es ON es.id = f.series_id
+    CROSS JOIN LATERAL (
+        -- Income and expenses count in their own wallet
+        SELECT CASE WHEN f.entry_type = 'income' THEN f.amount ELSE -f.amount END AS net_amount
+        WHERE f.entry_type <> 'transfer'
+            AND (p_wallet_id IS NULL OR es.wallet_id = p_wallet_id)
+
+        UNION ALL
+
+        -- A transfer debits its wallet...
+        SELECT -f.amount
+        WHERE f.entry_type = 'transfer'
+            AND es.wallet_id = p_wallet_id
+
+        UNION ALL
+
+        -- ...and credits its target wallet
+        SELECT f.amount
+        WHERE f.entry_type = 'transfer'
+            AND es.target_wallet_id = p_wallet_id
+    ) leg;
+$$;
+
+-- 3. project_balance adds up the signed amounts
+CREATE OR REPLACE FUNCTION project_balance(
+    p_user_id uuid,
+    p_target_date date,
+    p_scenario_id uuid DEFAULT NULL,
+    p_wallet_id uuid DEFAULT NULL
+)
+RETURNS numeric(12,2)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    v_anchor_amount numeric(12,2);
+    v_anchor_date date;
+    v_net_change numeric(12,2);
+BEGIN
+    -- Consolidated: sum of the wallets that have started by the target date (NULL if none has)
+    IF p_wallet_id IS NULL THEN
+        RETURN (
+            SELECT SUM(project_balance(p_user_id, p_target_date, p_scenario_id, w.id))
+            FROM wallets w
+            WHERE w.user_id = p_user_id
+        );
+    END IF;
+
+    -- Latest checkpoint at or before the target date, or the starting balance
+    SELECT ba.amount, ba.anchor_date
+    INTO v_anchor_amount, v_anchor_date
+    FROM balance_anchor(p_user_id, p_target_date, p_wallet_id) ba;
+
+    -- If no starting balance exists, or target date is before starting date, return NULL
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    -- Actuals for settled occurrences, plan for the rest; transfers in and out included
+    SELECT COALESCE(SUM(bf.net_amount), 0)
+    INTO v_net_change
+    FROM balance_flows(p_user_id, v_anchor_date, p_target_date, p_scenario_id, p_wallet_id) bf;
+
+    RETURN ROUND(v_anchor_amount + v_net_change, 2);
+END;
+$$;
+
+-- 4. Recreate project_balance_timeline with transfers
+DROP FUNCTION project_balance_timeline(uuid, date, date, text, uuid, uuid);
+
+-- Per wallet, each day's balance is its anchor (starting balance or latest checkpoint) plus the flows since
+-- the anchor date. Consolidated, each day is the sum of the wallets' days, and a wallet starting after
+-- p_from_date adds its opening balance to the adjustment of its first day, so for every bucket
+-- balance = previous balance + net_change + adjustment still holds. net_change is
+-- total_income - total_expense + net_transfers; consolidated, net_transfers is zero unless a transfer
+-- touches a wallet that has not started yet.
+CREATE FUNCTION project_balance_timeline(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date,
+    p_granularity text DEFAULT 'day',
+    p_scenario_id uuid DEFAULT NULL,
+    p_wallet_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    bucket_start date,
+    bucket_end date,
+    total_income numeric(12,2),
+    total_expense numeric(12,2),
+    net_transfers numeric(12,2),
+    net_change numeric(12,2),
+    adjustment numeric(12,2),
+    balance numeric(12,2),
+    min_balance numeric(12,2)
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    v_starting_balance numeric(12,2);
+    v_starting_date date;
+    v_first_day date;
+BEGIN
+    IF p_granularity NOT IN ('day', 'week', 'month') THEN
+        RAISE EXCEPTION 'Invalid granularity %', p_granularity USING ERRCODE = '22023';
+    END IF;
+
+    IF p_wallet_id IS NULL THEN
+        -- Nothing is projected before the earliest starting balance
+        SELECT MIN(sb.effective_date)
+        INTO v_starting_date
+        FROM starting_balances sb
+        WHERE sb.user_id = p_user_id;
+
+        IF v_starting_date IS NULL OR p_from_date < v_starting_date OR p_to_date < p_from_date THEN
+            RETURN;
+        END IF;
+
+        RETURN QUERY
+        WITH
+        wallet_days AS (
+            SELECT
+                t.bucket_start AS day,
+                t.total_income,
+                t.total_expense,
+                t.net_transfers,
+                t.adjustment,
+                t.balance,
+                -- Opening balance of a wallet that starts inside the range, on its first day
+                CASE
+                    WHEN sb.effective_date > p_from_date AND t.bucket_start = sb.effective_date
+                    THEN t.balance - t.net_change - t.adjustment
+                    ELSE 0
+                END AS opening
+            FROM starting_balances sb
+            CROSS JOIN LATERAL project_balance_timeline(
+                p_user_id, GREATEST(p_from_date, sb.effective_date), p_to_date, 'day', p_scenario_id, sb.wallet_id
+            ) t
+            WHERE sb.user_id = p_user_id
+                AND sb.effective_date <= p_to_date
+        ),
+        daily AS (
+            SELECT
+                wd.day,
+                SUM(wd.total_income) AS income,
+                SUM(wd.total_expense) AS expense,
+                SUM(wd.net_transfers) AS transfers,
+                SUM(wd.adjustment + wd.opening) AS day_adjustment,
+                SUM(wd.balance) AS day_balance,
+                GREATEST(date_trunc(p_granularity, wd.day)::date, p_from_date) AS bucket
+            FROM wallet_days wd
+            GROUP BY wd.day
+        )
+        SELECT
+            d.bucket,
+            MAX(d.day),
+            SUM(d.income)::numeric(12,2),
+            SUM(d.expense)::numeric(12,2),
+            SUM(d.transfers)::numeric(12,2),
+            SUM(d.income - d.expense + d.transfers)::numeric(12,2),
+            SUM(d.day_adjustment)::numeric(12,2),
+            (array_agg(d.day_balance ORDER BY d.day DESC))[1]::numeric(12,2),
+            MIN(d.day_balance)::numeric(12,2)
+        FROM daily d
+        GROUP BY d.bucket
+        ORDER BY d.bucket;
+        RETURN;
+    END IF;
+
+    -- Get starting balance and effective date of the wallet
+    SELECT sb.amount, sb.effective_date
+    INTO v_starting_balance, v_starting_date
+    FROM starting_balances sb
+    WHERE sb.user_id = p_user_id
+        AND sb.wallet_id = p_wallet_id;
+
+    IF NOT FOUND OR p_from_date < v_starting_date OR p_to_date < p_from_date THEN
+        RETURN;
+    END IF;
+
+    -- Start from the anchor in effect the day before p_from_date, so the first day's adjustment is known
+    IF p_from_date = v_starting_date THEN
+        v_first_day := p_from_date;
+    ELSE
+        SELECT ba.anchor_date INTO v_first_day FROM balance_anchor(p_user_id, p_from_date - 1, p_wallet_id) ba;
+    END IF;
+
+    RETURN QUERY
+    WITH
+    anchors AS (
+        SELECT v_starting_date AS anchor_date, v_starting_balance AS amount
+        UNION ALL
+        SELECT bc.checkpoint_date, bc.amount
+        FROM balance_checkpoints bc
+        WHERE bc.user_id = p_user_id
+            AND bc.wallet_id = p_wallet_id
+            AND bc.checkpoint_date > v_starting_date
+            AND bc.checkpoint_date <= p_to_date
+    ),
+    -- Single pass over the flows from the first anchor to the end of the range
+    occurrences AS (
+        SELECT bf.flow_date AS occurrence_date, bf.entry_type, bf.amount, bf.net_amount
+        FROM balance_flows(p_user_id, v_first_day, p_to_date, p_scenario_id, p_wallet_id) bf
+    ),
+    daily AS (
+        SELECT
+            d::date AS day,
+            COALESCE(SUM(o.amount) FILTER (WHERE o.entry_type = 'income'), 0) AS income,
+            COALESCE(SUM(o.amount) FILTER (WHERE o.entry_type = 'expense'), 0) AS expense,
+            -- Signed: transfers out of the wallet are negative
+            COALESCE(SUM(o.net_amount) FILTER (WHERE o.entry_type = 'transfer'), 0) AS transfers
+        FROM generate_series(v_first_day, p_to_date, interval '1 day') d
+        LEFT JOIN occurrences o ON o.occurrence_date = d::date
+        GROUP BY d
+    ),
+    anchored AS (
+        SELECT
+            dl.day,
+            dl.income,
+            dl.expense,
+            dl.transfers,
+            a.anchor_date,
+            a.amount + SUM(dl.income - dl.expense + dl.transfers) OVER (
+                PARTITION BY a.anchor_date ORDER BY dl.day
+            ) AS day_balance
+        FROM daily dl
+        CROSS JOIN LATERAL (
+            SELECT an.anchor_date, an.amount
+            FROM anchors an
+            WHERE an.anchor_date <= dl.day
+            ORDER BY an.anchor_date DESC
+            LIMIT 1
+        ) a
+    ),
+    daily_balances AS (
+        SELECT
+            ad.day,
+            ad.income,
+            ad.expense,
+            ad.transfers,
+            ad.day_balance,
+            -- Non-zero only on checkpoint days: observed minus predicted balance
+            COALESCE(
+                ad.day_balance - LAG(ad.day_balance) OVER (ORDER BY ad.day) - (ad.income - ad.expense + ad.transfers),
+                0
+            ) AS adjustment,
+            GREATEST(date_trunc(p_granularity, ad.day)::date, p_from_date) AS bucket
+        FROM anchored ad
+    )
+    SELECT
+        db.bucket,
+        MAX(db.day),
+        SUM(db.income)::numeric(12,2),
+        SUM(db.expense)::numeric(12,2),
+        SUM(db.transfers)::numeric(12,2),
+        SUM(db.income - db.expense + db.transfers)::numeric(12,2),
+        SUM(db.adjustment)::numeric(12,2),
+        (array_agg(db.day_balance ORDER BY db.day DESC))[1]::numeric(12,2),
+        MIN(db.day_balance)::numeric(12,2)
+    FROM daily_balances db
+    WHERE db.day >= p_from_date
+    GROUP BY db.bucket
+    ORDER BY db.bucket;
+END;
+$$;
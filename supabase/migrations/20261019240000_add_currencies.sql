@@ -0,0 +1,756 @@
+-- Migration: Add currencies and exchange rates
+-- Purpose: Amounts were implicitly PLN. Wallets and entry series now carry an ISO 4217 currency code, users
+-- keep a table of dated exchange rates, and projections convert flows into the projected wallet's currency,
+-- or into the user's base currency when all wallets are consolidated.
+-- Affected tables: user_preferences (base_currency), wallets (currency), entry_series (currency),
+-- exchange_rates (new)
+-- Affected functions: base_currency, exchange_rate, convert_amount, set_wallet_currency (trigger),
+-- set_entry_currency (trigger) (new), expand_occurrences and get_calendar_feed_occurrences (new currency
+-- column), balance_flows (amounts converted), project_balance and project_balance_timeline (consolidated
+-- in the base currency)
+-- Special considerations: Existing rows become PLN, so current projections are unchanged. A rate is the
+-- number of base currency units per unit of the currency, in effect from its rate_date until the next rate;
+-- dates before the first rate use the first rate. Rates for the base currency are ignored (always 1), so
+-- changing the base currency means entering rates against the new one. A missing rate raises no_data_found
+-- (P0002) so the API can tell the user which rate to add. Inserts that leave the currency NULL take the
+-- wallet's currency (entries) or the base currency (wallets). Consolidated timelines convert each wallet's
+-- balance at each day's rate; revaluation of foreign-currency balances shows up as an adjustment.
+-- Generated: 2026-10-19
+
+-- 1. Base currency of a user
+ALTER TABLE user_preferences
+    ADD COLUMN base_currency text NOT NULL DEFAULT 'PLN'
+        CONSTRAINT check_base_currency_code CHECK (base_currency ~ '^[A-Z]{3}$');
+
+-- 2. Currency of wallets and entry series (existing rows are PLN)
+ALTER TABLE wallets ADD COLUMN currency text NULL;
+UPDATE wallets SET currency = 'PLN';
+ALTER TABLE wallets
+    ALTER COLUMN currency SET NOT NULL,
+    ADD CONSTRAINT check_wallet_currency_code CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE entry_series ADD COLUMN currency text NULL;
+UPDATE entry_series SET currency = 'PLN';
+ALTER TABLE entry_series
+    ALTER COLUMN currency SET NOT NULL,
+    ADD CONSTRAINT check_entry_currency_code CHECK (currency ~ '^[A-Z]{3}$');
+
+-- 3. Create exchange_rates table
+CREATE TABLE exchange_rates (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    currency text NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+    rate_date date NOT NULL,
+    -- Base currency units per unit of currency
+    rate numeric(18,8) NOT NULL CHECK (rate > 0),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT unique_exchange_rate UNIQUE (user_id, currency, rate_date)
+);
+
+-- 4. Enable Row Level Security
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- 5. Create RLS Policies
+-- Anon: Deny all operations.
+CREATE POLICY exchange_rates_select_anon ON exchange_rates
+    FOR SELECT USING (auth.role() = 'anon' AND false);
+
+CREATE POLICY exchange_rates_insert_anon ON exchange_rates
+    FOR INSERT WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY exchange_rates_update_anon ON exchange_rates
+    FOR UPDATE USING (auth.role() = 'anon' AND false)
+    WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY exchange_rates_delete_anon ON exchange_rates
+    FOR DELETE USING (auth.role() = 'anon' AND false);
+
+-- Authenticated: Allow full CRUD on own rates.
+CREATE POLICY exchange_rates_select_authenticated ON exchange_rates
+    FOR SELECT USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY exchange_rates_insert_authenticated ON exchange_rates
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY exchange_rates_update_authenticated ON exchange_rates
+    FOR UPDATE USING (auth.role() = 'authenticated' AND user_id = auth.uid())
+    WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY exchange_rates_delete_authenticated ON exchange_rates
+    FOR DELETE USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+-- 6. updated_at trigger
+CREATE TRIGGER set_updated_at_exchange_rates
+    BEFORE UPDATE ON exchange_rates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 7. base_currency, exchange_rate, convert_amount
+-- The user's base currency, or the column default if they never saved preferences.
+CREATE OR REPLACE FUNCTION base_currency(p_user_id uuid)
+RETURNS text
+LANGUAGE sql
+SECURITY INVOKER
+STABLE
+AS $$
+    SELECT COALESCE(
+        (SELECT up.base_currency FROM user_preferences up WHERE up.user_id = p_user_id),
+        'PLN'
+    );
+$$;
+
+-- Base currency units per unit of p_currency on p_date: the latest rate at or before p_date, or the earliest
+-- rate if p_date precedes all of them. 1 for the base currency.
+CREATE OR REPLACE FUNCTION exchange_rate(
+    p_user_id uuid,
+    p_currency text,
+    p_date date
+)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    v_rate numeric;
+BEGIN
+    IF p_currency = base_currency(p_user_id) THEN
+        RETURN 1;
+    END IF;
+
+    SELECT er.rate
+    INTO v_rate
+    FROM exchange_rates er
+    WHERE er.user_id = p_user_id
+        AND er.currency = p_currency
+    ORDER BY er.rate_date <= p_date DESC,
+        CASE WHEN er.rate_date <= p_date THEN er.rate_date END DESC,
+        er.rate_date
+    LIMIT 1;
+
+    IF v_rate IS NULL THEN
+        RAISE EXCEPTION 'No exchange rate for % to %', p_currency, base_currency(p_user_id)
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_rate;
+END;
+$$;
+
+-- p_amount in p_from_currency expressed in p_to_currency at the rates of p_date, rounded to cents
+CREATE OR REPLACE FUNCTION convert_amount(
+    p_user_id uuid,
+    p_amount numeric,
+    p_from_currency text,
+    p_to_currency text,
+    p_date date
+)
+RETURNS numeric(12,2)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+BEGIN
+    IF p_amount IS NULL OR p_from_currency = p_to_currency THEN
+        RETURN p_amount;
+    END IF;
+
+    RETURN ROUND(
+        p_amount * exchange_rate(p_user_id, p_from_currency, p_date) / exchange_rate(p_user_id, p_to_currency, p_date),
+        2
+    );
+END;
+$$;
+
+-- 8. Inserts without a currency take the wallet's currency, or the base currency for wallets
+CREATE OR REPLACE FUNCTION set_wallet_currency()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+BEGIN
+    IF NEW.currency IS NULL THEN
+        NEW.currency := base_currency(NEW.user_id);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_wallet_currency_wallets
+    BEFORE INSERT ON wallets
+    FOR EACH ROW
+    EXECUTE FUNCTION set_wallet_currency();
+
+-- Fires after set_default_wallet_entry_series (triggers run in name order), so wallet_id is already set
+CREATE OR REPLACE FUNCTION set_entry_currency()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+BEGIN
+    IF NEW.currency IS NULL THEN
+        SELECT w.currency INTO NEW.currency FROM wallets w WHERE w.id = NEW.wallet_id;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_entry_currency_entry_series
+    BEFORE INSERT ON entry_series
+    FOR EACH ROW
+    EXECUTE FUNCTION set_entry_currency();
+
+-- ensure_default_wallet inserts without a currency, so the default wallet takes the base currency
+
+-- 9. Recreate expand_occurrences with the series currency
+DROP FUNCTION get_calendar_feed_occurrences(text, integer, integer);
+DROP FUNCTION expand_occurrences(uuid, date, date, uuid);
+
+CREATE FUNCTION expand_occurrences(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date,
+    p_scenario_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    occurrence_id uuid,
+    series_id uuid,
+    entry_type entry_type,
+    title text,
+    description text,
+    occurrence_date date,
+    amount numeric(12,2),
+    created_at timestamptz,
+    updated_at timestamptz,
+    occurrence_number integer,
+    occurrence_count integer,
+    currency text
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    -- Nominal dates are generated over a widened window so that occurrences moved into
+    -- [p_from_date, p_to_date] by business-day adjustment from just outside it are not lost
+    c_adjustment_margin constant integer := 7;
+    v_window_from date := p_from_date - c_adjustment_margin;
+    v_window_to date := p_to_date + c_adjustment_margin;
+BEGIN
+    RETURN QUERY
+    WITH
+    -- Generate all potential (nominal) occurrence dates for each series
+    occurrence_expansion AS (
+        SELECT
+            es.id AS series_id,
+            es.entry_type,
+            es.title,
+            es.description,
+            n.occurrence_date,
+            es.amount,
+            es.created_at,
+            es.updated_at,
+            es.business_day_convention,
+            es.holiday_calendar,
+            CASE WHEN es.occurrence_count IS NOT NULL THEN n.occurrence_number END AS occurrence_number,
+            es.occurrence_count,
+            es.currency
+        FROM entry_series es
+        CROSS JOIN LATERAL (
+            SELECT
+                d AS occurrence_date,
+                row_number() OVER (ORDER BY d)::integer AS occurrence_number
+            FROM series_occurrence_dates(
+                es,
+                CASE WHEN es.occurrence_count IS NOT NULL THEN es.start_date ELSE v_window_from END,
+                v_window_to
+            ) d
+        ) n
+        WHERE es.user_id = p_user_id
+            AND (es.scenario_id IS NULL OR es.scenario_id = p_scenario_id)
+            AND n.occurrence_date BETWEEN v_window_from AND v_window_to
+    ),
+    -- Move nominal dates to business days
+    adjusted_occurrences AS (
+        SELECT
+            oe.series_id,
+            oe.entry_type,
+            oe.title,
+            oe.description,
+            adjust_to_business_day(
+                oe.occurrence_date,
+                oe.business_day_convention,
+                oe.holiday_calendar
+            ) AS occurrence_date,
+            oe.amount,
+            oe.created_at,
+            oe.updated_at,
+            oe.occurrence_number,
+            oe.occurrence_count,
+            oe.currency
+        FROM occurrence_expansion oe
+    ),
+    -- Apply exceptions (skip or override) and keep occurrences in the requested range
+    -- A scenario override takes precedence over a baseline exception on the same date
+    occurrences_with_exceptions AS (
+        SELECT
+            ao.series_id,
+            ao.entry_type,
+            COALESCE(se.title, ao.title) AS title,
+            COALESCE(se.description, ao.description) AS description,
+            ao.occurrence_date,
+            COALESCE(se.amount, ao.amount) AS amount,
+            COALESCE(se.created_at, ao.created_at) AS created_at,
+            COALESCE(se.updated_at, ao.updated_at) AS updated_at,
+            ao.occurrence_number,
+            ao.occurrence_count,
+            ao.currency,
+            se.exception_type
+        FROM adjusted_occurrences ao
+        LEFT JOIN LATERAL (
+            SELECT sx.title, sx.description, sx.amount, sx.created_at, sx.updated_at, sx.exception_type
+            FROM series_exceptions sx
+            WHERE sx.series_id = ao.series_id
+                AND sx.exception_date = ao.occurrence_date
+                AND sx.user_id = p_user_id
+                AND (sx.scenario_id IS NULL OR sx.scenario_id = p_scenario_id)
+            ORDER BY sx.scenario_id NULLS LAST
+            LIMIT 1
+        ) se ON true
+        WHERE ao.occurrence_date BETWEEN p_from_date AND p_to_date
+            AND (se.exception_type IS NULL OR se.exception_type = 'override')
+    )
+    -- Generate deterministic occurrence_id and return final results
+    SELECT
+        uuid_generate_v5(
+            '6ba7b810-9dad-11d1-80b4-00c04fd430c8'::uuid,  -- Namespace UUID
+            owe.series_id::text || '|' || owe.occurrence_date::text
+        ) AS occurrence_id,
+        owe.series_id,
+        owe.entry_type,
+        owe.title,
+        owe.description,
+        owe.occurrence_date,
+        owe.amount,
+        owe.created_at,
+        owe.updated_at,
+        owe.occurrence_number,
+        owe.occurrence_count,
+        owe.currency
+    FROM occurrences_with_exceptions owe
+    ORDER BY owe.occurrence_date, owe.series_id;
+END;
+$$;
+
+-- 10. Recreate get_calendar_feed_occurrences with the series currency
+-- Returns expand_occurrences rows for the owner of a feed token, over a rolling window around today
+-- (Europe/Warsaw). The window is capped so a token cannot be used to expand unbounded ranges.
+-- Raises no_data_found (P0002) for unknown tokens so the API can answer 404.
+CREATE FUNCTION get_calendar_feed_occurrences(
+    p_token_hash text,
+    p_days_back integer DEFAULT 31,
+    p_days_ahead integer DEFAULT 365
+)
+RETURNS TABLE (
+    occurrence_id uuid,
+    series_id uuid,
+    entry_type entry_type,
+    title text,
+    description text,
+    occurrence_date date,
+    amount numeric(12,2),
+    created_at timestamptz,
+    updated_at timestamptz,
+    occurrence_number integer,
+    occurrence_count integer,
+    currency text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+DECLARE
+    v_user_id uuid;
+    v_today date := get_current_date_warsaw();
+BEGIN
+    SELECT cft.user_id INTO v_user_id
+    FROM calendar_feed_tokens cft
+    WHERE cft.token_hash = p_token_hash;
+
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Calendar feed not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN QUERY
+    SELECT *
+    FROM expand_occurrences(
+        v_user_id,
+        v_today - LEAST(GREATEST(p_days_back, 0), 366),
+        v_today + LEAST(GREATEST(p_days_ahead, 0), 731)
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION get_calendar_feed_occurrences(text, integer, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_calendar_feed_occurrences(text, integer, integer) TO anon, authenticated;
+
+-- 11. balance_flows converts amounts into the projected currency
+-- amount and net_amount are in the projected wallet's currency, or in the base currency when consolidated,
+-- at the rates of the flow date. Settlement amounts are in the series currency, like the plan.
+CREATE OR REPLACE FUNCTION balance_flows(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date,
+    p_scenario_id uuid DEFAULT NULL,
+    p_wallet_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    flow_date date,
+    series_id uuid,
+    entry_type entry_type,
+    amount numeric(12,2),
+    net_amount numeric(12,2),
+    is_actual boolean
+)
+LANGUAGE sql
+SECURITY INVOKER
+STABLE
+AS $$
+    WITH flows AS (
+        SELECT eo.occurrence_date AS flow_date, eo.series_id, eo.entry_type, eo.amount, false AS is_actual
+        FROM expand_occurrences(p_user_id, p_from_date, p_to_date, p_scenario_id) eo
+        WHERE NOT EXISTS (
+            SELECT 1
+            FROM occurrence_settlements os
+            WHERE os.series_id = eo.series_id
+                AND os.occurrence_date = eo.occurrence_date
+                AND os.actual_date <= get_current_date_warsaw()
+        )
+
+        UNION ALL
+
+        SELECT os.actual_date, os.series_id, es.entry_type, os.actual_amount, true
+        FROM occurrence_settlements os
+        JOIN entry_series es ON es.id = os.series_id
+        WHERE os.user_id = p_user_id
+            AND os.actual_date BETWEEN p_from_date AND p_to_date
+            AND os.actual_date <= get_current_date_warsaw()
+    ),
+    target AS (
+        SELECT COALESCE(
+            (SELECT w.currency FROM wallets w WHERE w.id = p_wallet_id AND w.user_id = p_user_id),
+            base_currency(p_user_id)
+        ) AS currency
+    ),
+    -- Only flows that touch the projected wallet(s) are converted, so unrelated currencies need no rate
+    wallet_flows AS (
+        SELECT f.*, es.wallet_id, es.target_wallet_id, es.currency
+        FROM flows f
+        JOIN entry_series es ON es.id = f.series_id
+        WHERE CASE
+            WHEN p_wallet_id IS NULL THEN f.entry_type <> 'transfer'
+            ELSE p_wallet_id IN (es.wallet_id, es.target_wallet_id)
+        END
+    )
+    SELECT wf.flow_date, wf.series_id, wf.entry_type, c.amount, leg.net_amount, wf.is_actual
+    FROM wallet_flows wf
+    CROSS JOIN target t
+    CROSS JOIN LATERAL (
+        SELECT convert_amount(p_user_id, wf.amount, wf.currency, t.currency, wf.flow_date) AS amount
+    ) c
+    CROSS JOIN LATERAL (
+        -- Income and expenses count in their own wallet
+        SELECT CASE WHEN wf.entry_type = 'income' THEN c.amount ELSE -c.amount END AS net_amount
+        WHERE wf.entry_type <> 'transfer'
+            AND (p_wallet_id IS NULL OR wf.wallet_id = p_wallet_id)
+
+        UNION ALL
+
+        -- A transfer debits its wallet...
+        SELECT -c.amount
+        WHERE wf.entry_type = 'transfer'
+            AND wf.wallet_id = p_wallet_id
+
+        UNION ALL
+
+        -- ...and credits its target wallet
+        SELECT c.amount
+        WHERE wf.entry_type = 'transfer'
+            AND wf.target_wallet_id = p_wallet_id
+    ) leg;
+$$;
+
+-- 12. project_balance converts consolidated balances into the base currency
+CREATE OR REPLACE FUNCTION project_balance(
+    p_user_id uuid,
+    p_target_date date,
+    p_scenario_id uuid DEFAULT NULL,
+    p_wallet_id uuid DEFAULT NULL
+)
+RETURNS numeric(12,2)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    v_anchor_amount numeric(12,2);
+    v_anchor_date date;
+    v_net_change numeric(12,2);
+BEGIN
+    -- Consolidated: sum of the wallets that have started by the target date (NULL if none has), each
+    -- converted into the base currency at the target date's rates
+    IF p_wallet_id IS NULL THEN
+        RETURN (
+            SELECT SUM(convert_amount(
+                p_user_id,
+                project_balance(p_user_id, p_target_date, p_scenario_id, w.id),
+                w.currency,
+                base_currency(p_user_id),
+                p_target_date
+            ))
+            FROM wallets w
+            WHERE w.user_id = p_user_id
+        );
+    END IF;
+
+    -- Latest checkpoint at or before the target date, or the starting balance
+    SELECT ba.amount, ba.anchor_date
+    INTO v_anchor_amount, v_anchor_date
+    FROM balance_anchor(p_user_id, p_target_date, p_wallet_id) ba;
+
+    -- If no starting balance exists, or target date is before starting date, return NULL
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    -- Actuals for settled occurrences, plan for the rest; transfers in and out included, all in the
+    -- wallet's currency
+    SELECT COALESCE(SUM(bf.net_amount), 0)
+    INTO v_net_change
+    FROM balance_flows(p_user_id, v_anchor_date, p_target_date, p_scenario_id, p_wallet_id) bf;
+
+    RETURN ROUND(v_anchor_amount + v_net_change, 2);
+END;
+$$;
+
+-- 13. project_balance_timeline converts consolidated days into the base currency
+-- Per wallet, each day's balance is its anchor (starting balance or latest checkpoint) plus the flows since
+-- the anchor date, in the wallet's currency. Consolidated, each wallet's day is converted into the base
+-- currency at that day's rates and the days are summed. The adjustment is derived from the converted
+-- balances (converted balance minus the previous day's converted balance minus the converted net change),
+-- so it carries checkpoint corrections, the opening balance of a wallet starting after p_from_date and the
+-- revaluation of foreign-currency balances, and balance = previous balance + net_change + adjustment holds
+-- for every bucket.
+CREATE OR REPLACE FUNCTION project_balance_timeline(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date,
+    p_granularity text DEFAULT 'day',
+    p_scenario_id uuid DEFAULT NULL,
+    p_wallet_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    bucket_start date,
+    bucket_end date,
+    total_income numeric(12,2),
+    total_expense numeric(12,2),
+    net_transfers numeric(12,2),
+    net_change numeric(12,2),
+    adjustment numeric(12,2),
+    balance numeric(12,2),
+    min_balance numeric(12,2)
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    v_starting_balance numeric(12,2);
+    v_starting_date date;
+    v_first_day date;
+    v_base_currency text := base_currency(p_user_id);
+BEGIN
+    IF p_granularity NOT IN ('day', 'week', 'month') THEN
+        RAISE EXCEPTION 'Invalid granularity %', p_granularity USING ERRCODE = '22023';
+    END IF;
+
+    IF p_wallet_id IS NULL THEN
+        -- Nothing is projected before the earliest starting balance
+        SELECT MIN(sb.effective_date)
+        INTO v_starting_date
+        FROM starting_balances sb
+        WHERE sb.user_id = p_user_id;
+
+        IF v_starting_date IS NULL OR p_from_date < v_starting_date OR p_to_date < p_from_date THEN
+            RETURN;
+        END IF;
+
+        RETURN QUERY
+        WITH
+        wallet_days AS (
+            SELECT
+                sb.wallet_id,
+                t.bucket_start AS day,
+                t.total_income,
+                t.total_expense,
+                t.net_transfers,
+                t.net_change,
+                t.balance,
+                -- Balance at the end of the previous day; 0 on the first day of a wallet starting in range
+                CASE
+                    WHEN sb.effective_date > p_from_date AND t.bucket_start = sb.effective_date THEN 0
+                    ELSE t.balance - t.net_change - t.adjustment
+                END AS previous_balance,
+                exchange_rate(p_user_id, w.currency, t.bucket_start)
+                    / exchange_rate(p_user_id, v_base_currency, t.bucket_start) AS factor,
+                exchange_rate(p_user_id, w.currency, t.bucket_start - 1)
+                    / exchange_rate(p_user_id, v_base_currency, t.bucket_start - 1) AS previous_factor
+            FROM starting_balances sb
+            JOIN wallets w ON w.id = sb.wallet_id
+            CROSS JOIN LATERAL project_balance_timeline(
+                p_user_id, GREATEST(p_from_date, sb.effective_date), p_to_date, 'day', p_scenario_id, sb.wallet_id
+            ) t
+            WHERE sb.user_id = p_user_id
+                AND sb.effective_date <= p_to_date
+        ),
+        converted_days AS (
+            SELECT
+                wd.day,
+                wd.total_income * wd.factor AS income,
+                wd.total_expense * wd.factor AS expense,
+                wd.net_transfers * wd.factor AS transfers,
+                wd.balance * wd.factor AS day_balance,
+                wd.balance * wd.factor
+                    - COALESCE(
+                        LAG(wd.balance * wd.factor) OVER (PARTITION BY wd.wallet_id ORDER BY wd.day),
+                        wd.previous_balance * wd.previous_factor
+                    )
+                    - wd.net_change * wd.factor AS day_adjustment
+            FROM wallet_days wd
+        ),
+        daily AS (
+            SELECT
+                cd.day,
+                SUM(cd.income) AS income,
+                SUM(cd.expense) AS expense,
+                SUM(cd.transfers) AS transfers,
+                SUM(cd.day_adjustment) AS day_adjustment,
+                SUM(cd.day_balance) AS day_balance,
+                GREATEST(date_trunc(p_granularity, cd.day)::date, p_from_date) AS bucket
+            FROM converted_days cd
+            GROUP BY cd.day
+        )
+        SELECT
+            d.bucket,
+            MAX(d.day),
+            SUM(d.income)::numeric(12,2),
+            SUM(d.expense)::numeric(12,2),
+            SUM(d.transfers)::numeric(12,2),
+            SUM(d.income - d.expense + d.transfers)::numeric(12,2),
+            SUM(d.day_adjustment)::numeric(12,2),
+            (array_agg(d.day_balance ORDER BY d.day DESC))[1]::numeric(12,2),
+            MIN(d.day_balance)::numeric(12,2)
+        FROM daily d
+        GROUP BY d.bucket
+        ORDER BY d.bucket;
+        RETURN;
+    END IF;
+
+    -- Get starting balance and effective date of the wallet
+    SELECT sb.amount, sb.effective_date
+    INTO v_starting_balance, v_starting_date
+    FROM starting_balances sb
+    WHERE sb.user_id = p_user_id
+        AND sb.wallet_id = p_wallet_id;
+
+    IF NOT FOUND OR p_from_date < v_starting_date OR p_to_date < p_from_date THEN
+        RETURN;
+    END IF;
+
+    -- Start from the anchor in effect the day before p_from_date, so the first day's adjustment is known
+    IF p_from_date = v_starting_date THEN
+        v_first_day := p_from_date;
+    ELSE
+        SELECT ba.anchor_date INTO v_first_day FROM balance_anchor(p_user_id, p_from_date - 1, p_wallet_id) ba;
+    END IF;
+
+    RETURN QUERY
+    WITH
+    anchors AS (
+        SELECT v_starting_date AS anchor_date, v_starting_balance AS amount
+        UNION ALL
+        SELECT bc.checkpoint_date, bc.amount
+        FROM balance_checkpoints bc
+        WHERE bc.user_id = p_user_id
+            AND bc.wallet_id = p_wallet_id
+            AND bc.checkpoint_date > v_starting_date
+            AND bc.checkpoint_date <= p_to_date
+    ),
+    -- Single pass over the flows from the first anchor to the end of the range
+    occurrences AS (
+        SELECT bf.flow_date AS occurrence_date, bf.entry_type, bf.amount, bf.net_amount
+        FROM balance_flows(p_user_id, v_first_day, p_to_date, p_scenario_id, p_wallet_id) bf
+    ),
+    daily AS (
+        SELECT
+            d::date AS day,
+            COALESCE(SUM(o.amount) FILTER (WHERE o.entry_type = 'income'), 0) AS income,
+            COALESCE(SUM(o.amount) FILTER (WHERE o.entry_type = 'expense'), 0) AS expense,
+            -- Signed: transfers out of the wallet are negative
+            COALESCE(SUM(o.net_amount) FILTER (WHERE o.entry_type = 'transfer'), 0) AS transfers
+        FROM generate_series(v_first_day, p_to_date, interval '1 day') d
+        LEFT JOIN occurrences o ON o.occurrence_date = d::date
+        GROUP BY d
+    ),
+    anchored AS (
+        SELECT
+            dl.day,
+            dl.income,
+            dl.expense,
+            dl.transfers,
+            a.anchor_date,
+            a.amount + SUM(dl.income - dl.expense + dl.transfers) OVER (
+                PARTITION BY a.anchor_date ORDER BY dl.day
+            ) AS day_balance
+        FROM daily dl
+        CROSS JOIN LATERAL (
+            SELECT an.anchor_date, an.amount
+            FROM anchors an
+            WHERE an.anchor_date <= dl.day
+            ORDER BY an.anchor_date DESC
+            LIMIT 1
+        ) a
+    ),
+    daily_balances AS (
+        SELECT
+            ad.day,
+            ad.income,
+            ad.expense,
+            ad.transfers,
+            ad.day_balance,
+            -- Non-zero only on checkpoint days: observed minus predicted balance
+            COALESCE(
+                ad.day_balance - LAG(ad.day_balance) OVER (ORDER BY ad.day) - (ad.income - ad.expense + ad.transfers),
+                0
+            ) AS adjustment,
+            GREATEST(date_trunc(p_granularity, ad.day)::date, p_from_date) AS bucket
+        FROM anchored ad
+    )
+    SELECT
+        db.bucket,
+        MAX(db.day),
+        SUM(db.income)::numeric(12,2),
+        SUM(db.expense)::numeric(12,2),
+        SUM(db.transfers)::numeric(12,2),
+        SUM(db.income - db.expense + db.transfers)::numeric(12,2),
+        SUM(db.adjustment)::numeric(12,2),
+        (array_agg(db.day_balance ORDER BY db.day DESC))[1]::numeric(12,2),
+        MIN(db.day_balance)::numeric(12,2)
+    FROM daily_balances db
+    WHERE db.day >= p_from_date
+    GROUP BY db.bucket
+    ORDER BY db.bucket;
+END;
+$$;
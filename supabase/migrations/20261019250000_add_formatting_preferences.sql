@@ -0,0 +1,21 @@
+-- Migration: Add formatting preferences
+-- Purpose: Amounts and dates were always shown as pl-PL currency and "MMM d, yyyy", and calendars started
+-- the week on Sunday. Users can now choose how the currency is shown, the number locale, the date format
+-- and the first day of the week.
+-- Affected tables: user_preferences (currency_display, number_locale, date_format, week_starts_on)
+-- Special considerations: The defaults reproduce the previous formatting, so nothing changes for existing
+-- users. Date formats are date-fns patterns from a fixed list; the locale is a BCP 47 language tag.
+-- Generated: 2026-10-19
+
+ALTER TABLE user_preferences
+    ADD COLUMN currency_display text NOT NULL DEFAULT 'symbol'
+        CONSTRAINT check_currency_display CHECK (currency_display IN ('symbol', 'narrowSymbol', 'code')),
+    ADD COLUMN number_locale text NOT NULL DEFAULT 'pl-PL'
+        CONSTRAINT check_number_locale CHECK (number_locale ~ '^[a-z]{2,3}(-[A-Z]{2})?$'),
+    ADD COLUMN date_format text NOT NULL DEFAULT 'MMM d, yyyy'
+        CONSTRAINT check_date_format CHECK (
+            date_format IN ('MMM d, yyyy', 'd MMM yyyy', 'dd.MM.yyyy', 'dd/MM/yyyy', 'MM/dd/yyyy', 'yyyy-MM-dd')
+        ),
+    -- 0 = Sunday ... 6 = Saturday
+    ADD COLUMN week_starts_on smallint NOT NULL DEFAULT 0
+        CONSTRAINT check_week_starts_on CHECK (week_starts_on BETWEEN 0 AND 6);
@@ -0,0 +1,168 @@
+-- Migration: Add a per-user time zone
+-- Purpose: "Today" was always the current date in Europe/Warsaw. Users now choose a time zone, and every
+-- database function that needs today's date uses the date in the user's zone.
+-- Affected tables: user_preferences (time_zone)
+-- Affected functions: user_today (new), balance_flows (settlements count from today in the user's zone),
+-- get_calendar_feed_occurrences (window around today in the feed owner's zone)
+-- Special considerations: The default is Europe/Warsaw, so nothing changes for existing users.
+-- get_current_date_warsaw() is kept for callers outside this schema. Time zone names are validated by the
+-- API (IANA names known to the runtime); AT TIME ZONE raises for names PostgreSQL does not know.
+-- Generated: 2026-10-19
+
+-- 1. Time zone of a user (IANA name)
+ALTER TABLE user_preferences
+    ADD COLUMN time_zone text NOT NULL DEFAULT 'Europe/Warsaw'
+        CONSTRAINT check_time_zone_length CHECK (char_length(time_zone) BETWEEN 1 AND 64);
+
+-- 2. user_today
+-- Current date in the user's time zone, or in Europe/Warsaw if they never saved preferences.
+-- STABLE as it depends only on transaction start time and the user's preferences.
+CREATE OR REPLACE FUNCTION user_today(p_user_id uuid)
+RETURNS date
+LANGUAGE sql
+SECURITY INVOKER
+STABLE
+AS $$
+    SELECT (now() AT TIME ZONE COALESCE(
+        (SELECT up.time_zone FROM user_preferences up WHERE up.user_id = p_user_id),
+        'Europe/Warsaw'
+    ))::date;
+$$;
+
+-- 3. balance_flows counts settlements once their actual date has been reached in the user's time zone
+-- amount and net_amount are in the projected wallet's currency, or in the base currency when consolidated,
+-- at the rates of the flow date. Settlement amounts are in the series currency, like the plan.
+CREATE OR REPLACE FUNCTION balance_flows(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date,
+    p_scenario_id uuid DEFAULT NULL,
+    p_wallet_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    flow_date date,
+    series_id uuid,
+    entry_type entry_type,
+    amount numeric(12,2),
+    net_amount numeric(12,2),
+    is_actual boolean
+)
+LANGUAGE sql
+SECURITY INVOKER
+STABLE
+AS $$
+    WITH flows AS (
+        SELECT eo.occurrence_date AS flow_date, eo.series_id, eo.entry_type, eo.amount, false AS is_actual
+        FROM expand_occurrences(p_user_id, p_from_date, p_to_date, p_scenario_id) eo
+        WHERE NOT EXISTS (
+            SELECT 1
+            FROM occurrence_settlements os
+            WHERE os.series_id = eo.series_id
+                AND os.occurrence_date = eo.occurrence_date
+                AND os.actual_date <= user_today(p_user_id)
+        )
+
+        UNION ALL
+
+        SELECT os.actual_date, os.series_id, es.entry_type, os.actual_amount, true
+        FROM occurrence_settlements os
+        JOIN entry_series es ON es.id = os.series_id
+        WHERE os.user_id = p_user_id
+            AND os.actual_date BETWEEN p_from_date AND p_to_date
+            AND os.actual_date <= user_today(p_user_id)
+    ),
+    target AS (
+        SELECT COALESCE(
+            (SELECT w.currency FROM wallets w WHERE w.id = p_wallet_id AND w.user_id = p_user_id),
+            base_currency(p_user_id)
+        ) AS currency
+    ),
+    -- Only flows that touch the projected wallet(s) are converted, so unrelated currencies need no rate
+    wallet_flows AS (
+        SELECT f.*, es.wallet_id, es.target_wallet_id, es.currency
+        FROM flows f
+        JOIN entry_series es ON es.id = f.series_id
+        WHERE CASE
+            WHEN p_wallet_id IS NULL THEN f.entry_type <> 'transfer'
+            ELSE p_wallet_id IN (es.wallet_id, es.target_wallet_id)
+        END
+    )
+    SELECT wf.flow_date, wf.series_id, wf.entry_type, c.amount, leg.net_amount, wf.is_actual
+    FROM wallet_flows wf
+    CROSS JOIN target t
+    CROSS JOIN LATERAL (
+        SELECT convert_amount(p_user_id, wf.amount, wf.currency, t.currency, wf.flow_date) AS amount
+    ) c
+    CROSS JOIN LATERAL (
+        -- Income and expenses count in their own wallet
+        SELECT CASE WHEN wf.entry_type = 'income' THEN c.amount ELSE -c.amount END AS net_amount
+        WHERE wf.entry_type <> 'transfer'
+            AND (p_wallet_id IS NULL OR wf.wallet_id = p_wallet_id)
+
+        UNION ALL
+
+        -- A transfer debits its wallet...
+        SELECT -c.amount
+        WHERE wf.entry_type = 'transfer'
+            AND wf.wallet_id = p_wallet_id
+
+        UNION ALL
+
+        -- ...and credits its target wallet
+        SELECT c.amount
+        WHERE wf.entry_type = 'transfer'
+            AND wf.target_wallet_id = p_wallet_id
+    ) leg;
+$$;
+
+-- 4. get_calendar_feed_occurrences serves a window around today in the feed owner's time zone
+-- Returns expand_occurrences rows for the owner of a feed token, over a rolling window around today.
+-- The window is capped so a token cannot be used to expand unbounded ranges.
+-- Raises no_data_found (P0002) for unknown tokens so the API can answer 404.
+CREATE OR REPLACE FUNCTION get_calendar_feed_occurrences(
+    p_token_hash text,
+    p_days_back integer DEFAULT 31,
+    p_days_ahead integer DEFAULT 365
+)
+RETURNS TABLE (
+    occurrence_id uuid,
+    series_id uuid,
+    entry_type entry_type,
+    title text,
+    description text,
+    occurrence_date date,
+    amount numeric(12,2),
+    created_at timestamptz,
+    updated_at timestamptz,
+    occurrence_number integer,
+    occurrence_count integer,
+    currency text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+DECLARE
+    v_user_id uuid;
+    v_today date;
+BEGIN
+    SELECT cft.user_id INTO v_user_id
+    FROM calendar_feed_tokens cft
+    WHERE cft.token_hash = p_token_hash;
+
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Calendar feed not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    v_today := user_today(v_user_id);
+
+    RETURN QUERY
+    SELECT *
+    FROM expand_occurrences(
+        v_user_id,
+        v_today - LEAST(GREATEST(p_days_back, 0), 366),
+        v_today + LEAST(GREATEST(p_days_ahead, 0), 731)
+    );
+END;
+$$;
@@ -0,0 +1,445 @@
+-- Migration: Add categories
+-- Purpose: Entries only had a title and description, so spending could not be grouped (housing, transport...).
+-- Users now keep a tree of categories with a colour and an icon, entry series belong to a category, and a
+-- single occurrence can be moved to another category with an override exception.
+-- Affected tables: categories (new), entry_series (category_id), series_exceptions (category_id)
+-- Affected functions: check_category_parent (new, trigger), expand_occurrences (new category_id column, the
+-- override's category if set), get_calendar_feed_occurrences (selects the feed columns explicitly),
+-- balance_flows (new category_id column, also for settled occurrences)
+-- Special considerations: Categories are optional; existing entries stay uncategorized. Deleting a category
+-- deletes its subcategories and leaves their entries and overrides uncategorized. A category cannot be moved
+-- under itself or one of its subcategories. Transfers may carry a category but never count as income or
+-- expense in breakdowns.
+-- Generated: 2026-10-19
+
+-- 1. Create categories table
+CREATE TABLE categories (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    parent_id uuid NULL,
+    name text NOT NULL CHECK (char_length(name) <= 100 AND char_length(name) > 0),
+    color text NOT NULL DEFAULT '#64748b' CHECK (color ~ '^#[0-9a-f]{6}$'),
+    -- Icon name from the app's icon set, NULL for a plain colour dot
+    icon text NULL CHECK (icon ~ '^[a-z0-9-]{1,40}$'),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    -- Target of the (category_id, user_id) foreign keys, which keep rows in their owner's categories
+    CONSTRAINT unique_category_owner UNIQUE (id, user_id),
+    CONSTRAINT categories_parent_id_fkey FOREIGN KEY (parent_id, user_id)
+        REFERENCES categories (id, user_id) ON DELETE CASCADE
+);
+
+-- Names are unique among siblings (top-level categories are siblings too)
+CREATE UNIQUE INDEX unique_category_name ON categories (user_id, COALESCE(parent_id, user_id), name);
+CREATE INDEX idx_categories_parent ON categories (parent_id);
+
+-- 2. Enable Row Level Security
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+
+-- 3. Create RLS Policies
+-- Anon: Deny all operations.
+CREATE POLICY categories_select_anon ON categories
+    FOR SELECT USING (auth.role() = 'anon' AND false);
+
+CREATE POLICY categories_insert_anon ON categories
+    FOR INSERT WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY categories_update_anon ON categories
+    FOR UPDATE USING (auth.role() = 'anon' AND false)
+    WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY categories_delete_anon ON categories
+    FOR DELETE USING (auth.role() = 'anon' AND false);
+
+-- Authenticated: Allow full CRUD on own categories.
+CREATE POLICY categories_select_authenticated ON categories
+    FOR SELECT USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY categories_insert_authenticated ON categories
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY categories_update_authenticated ON categories
+    FOR UPDATE USING (auth.role() = 'authenticated' AND user_id = auth.uid())
+    WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY categories_delete_authenticated ON categories
+    FOR DELETE USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+-- 4. updated_at trigger
+CREATE TRIGGER set_updated_at_categories
+    BEFORE UPDATE ON categories
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 5. check_category_parent
+-- Rejects a parent that is the category itself or one of its subcategories, which would detach the
+-- subtree from the top level.
+CREATE OR REPLACE FUNCTION check_category_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.parent_id IS NOT NULL AND EXISTS (
+        WITH RECURSIVE ancestors AS (
+            SELECT c.id, c.parent_id
+            FROM categories c
+            WHERE c.id = NEW.parent_id
+
+            UNION ALL
+
+            SELECT c.id, c.parent_id
+            FROM categories c
+            JOIN ancestors a ON c.id = a.parent_id
+        )
+        SELECT 1 FROM ancestors WHERE id = NEW.id
+    ) THEN
+        RAISE EXCEPTION 'A category cannot be moved under itself or one of its subcategories'
+            USING ERRCODE = '23514', CONSTRAINT = 'check_category_parent';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_category_parent
+    BEFORE INSERT OR UPDATE OF parent_id ON categories
+    FOR EACH ROW
+    EXECUTE FUNCTION check_category_parent();
+
+-- 6. Category of entry series and of single occurrences (override exceptions)
+-- Only category_id is cleared when a category is deleted; user_id stays
+ALTER TABLE entry_series
+    ADD COLUMN category_id uuid NULL,
+    ADD CONSTRAINT entry_series_category_id_fkey FOREIGN KEY (category_id, user_id)
+        REFERENCES categories (id, user_id) ON DELETE SET NULL (category_id);
+
+ALTER TABLE series_exceptions
+    ADD COLUMN category_id uuid NULL,
+    ADD CONSTRAINT series_exceptions_category_id_fkey FOREIGN KEY (category_id, user_id)
+        REFERENCES categories (id, user_id) ON DELETE SET NULL (category_id);
+
+ALTER TABLE series_exceptions DROP CONSTRAINT skip_no_override_fields;
+ALTER TABLE series_exceptions ADD CONSTRAINT skip_no_override_fields
+    CHECK (
+        exception_type != 'skip' OR
+        (title IS NULL AND description IS NULL AND amount IS NULL AND category_id IS NULL)
+    );
+
+CREATE INDEX idx_entry_series_category ON entry_series (category_id);
+
+-- 7. get_calendar_feed_occurrences keeps its columns when expand_occurrences gains one
+CREATE OR REPLACE FUNCTION get_calendar_feed_occurrences(
+    p_token_hash text,
+    p_days_back integer DEFAULT 31,
+    p_days_ahead integer DEFAULT 365
+)
+RETURNS TABLE (
+    occurrence_id uuid,
+    series_id uuid,
+    entry_type entry_type,
+    title text,
+    description text,
+    occurrence_date date,
+    amount numeric(12,2),
+    created_at timestamptz,
+    updated_at timestamptz,
+    occurrence_number integer,
+    occurrence_count integer,
+    currency text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+DECLARE
+    v_user_id uuid;
+    v_today date;
+BEGIN
+    SELECT cft.user_id INTO v_user_id
+    FROM calendar_feed_tokens cft
+    WHERE cft.token_hash = p_token_hash;
+
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Calendar feed not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    v_today := user_today(v_user_id);
+
+    RETURN QUERY
+    SELECT
+        eo.occurrence_id,
+        eo.series_id,
+        eo.entry_type,
+        eo.title,
+        eo.description,
+        eo.occurrence_date,
+        eo.amount,
+        eo.created_at,
+        eo.updated_at,
+        eo.occurrence_number,
+        eo.occurrence_count,
+        eo.currency
+    FROM expand_occurrences(
+        v_user_id,
+        v_today - LEAST(GREATEST(p_days_back, 0), 366),
+        v_today + LEAST(GREATEST(p_days_ahead, 0), 731)
+    ) eo;
+END;
+$$;
+
+-- 8. Recreate expand_occurrences with the category (an override's category replaces the series category)
+DROP FUNCTION expand_occurrences(uuid, date, date, uuid);
+
+CREATE FUNCTION expand_occurrences(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date,
+    p_scenario_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    occurrence_id uuid,
+    series_id uuid,
+    entry_type entry_type,
+    title text,
+    description text,
+    occurrence_date date,
+    amount numeric(12,2),
+    created_at timestamptz,
+    updated_at timestamptz,
+    occurrence_number integer,
+    occurrence_count integer,
+    currency text,
+    category_id uuid
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    -- Nominal dates are generated over a widened window so that occurrences moved into
+    -- [p_from_date, p_to_date] by business-day adjustment from just outside it are not lost
+    c_adjustment_margin constant integer := 7;
+    v_window_from date := p_from_date - c_adjustment_margin;
+    v_window_to date := p_to_date + c_adjustment_margin;
+BEGIN
+    RETURN QUERY
+    WITH
+    -- Generate all potential (nominal) occurrence dates for each series
+    occurrence_expansion AS (
+        SELECT
+            es.id AS series_id,
+            es.entry_type,
+            es.title,
+            es.description,
+            n.occurrence_date,
+            es.amount,
+            es.created_at,
+            es.updated_at,
+            es.business_day_convention,
+            es.holiday_calendar,
+            CASE WHEN es.occurrence_count IS NOT NULL THEN n.occurrence_number END AS occurrence_number,
+            es.occurrence_count,
+            es.currency,
+            es.category_id
+        FROM entry_series es
+        CROSS JOIN LATERAL (
+            SELECT
+                d AS occurrence_date,
+                row_number() OVER (ORDER BY d)::integer AS occurrence_number
+            FROM series_occurrence_dates(
+                es,
+                CASE WHEN es.occurrence_count IS NOT NULL THEN es.start_date ELSE v_window_from END,
+                v_window_to
+            ) d
+        ) n
+        WHERE es.user_id = p_user_id
+            AND (es.scenario_id IS NULL OR es.scenario_id = p_scenario_id)
+            AND n.occurrence_date BETWEEN v_window_from AND v_window_to
+    ),
+    -- Move nominal dates to business days
+    adjusted_occurrences AS (
+        SELECT
+            oe.series_id,
+            oe.entry_type,
+            oe.title,
+            oe.description,
+            adjust_to_business_day(
+                oe.occurrence_date,
+                oe.business_day_convention,
+                oe.holiday_calendar
+            ) AS occurrence_date,
+            oe.amount,
+            oe.created_at,
+            oe.updated_at,
+            oe.occurrence_number,
+            oe.occurrence_count,
+            oe.currency,
+            oe.category_id
+        FROM occurrence_expansion oe
+    ),
+    -- Apply exceptions (skip or override) and keep occurrences in the requested range
+    -- A scenario override takes precedence over a baseline exception on the same date
+    occurrences_with_exceptions AS (
+        SELECT
+            ao.series_id,
+            ao.entry_type,
+            COALESCE(se.title, ao.title) AS title,
+            COALESCE(se.description, ao.description) AS description,
+            ao.occurrence_date,
+            COALESCE(se.amount, ao.amount) AS amount,
+            COALESCE(se.created_at, ao.created_at) AS created_at,
+            COALESCE(se.updated_at, ao.updated_at) AS updated_at,
+            ao.occurrence_number,
+            ao.occurrence_count,
+            ao.currency,
+            COALESCE(se.category_id, ao.category_id) AS category_id,
+            se.exception_type
+        FROM adjusted_occurrences ao
+        LEFT JOIN LATERAL (
+            SELECT sx.title, sx.description, sx.amount, sx.category_id, sx.created_at, sx.updated_at,
+                sx.exception_type
+            FROM series_exceptions sx
+            WHERE sx.series_id = ao.series_id
+                AND sx.exception_date = ao.occurrence_date
+                AND sx.user_id = p_user_id
+                AND (sx.scenario_id IS NULL OR sx.scenario_id = p_scenario_id)
+            ORDER BY sx.scenario_id NULLS LAST
+            LIMIT 1
+        ) se ON true
+        WHERE ao.occurrence_date BETWEEN p_from_date AND p_to_date
+            AND (se.exception_type IS NULL OR se.exception_type = 'override')
+    )
+    -- Generate deterministic occurrence_id and return final results
+    SELECT
+        uuid_generate_v5(
+            '6ba7b810-9dad-11d1-80b4-00c04fd430c8'::uuid,  -- Namespace UUID
+            owe.series_id::text || '|' || owe.occurrence_date::text
+        ) AS occurrence_id,
+        owe.series_id,
+        owe.entry_type,
+        owe.title,
+        owe.description,
+        owe.occurrence_date,
+        owe.amount,
+        owe.created_at,
+        owe.updated_at,
+        owe.occurrence_number,
+        owe.occurrence_count,
+        owe.currency,
+        owe.category_id
+    FROM occurrences_with_exceptions owe
+    ORDER BY owe.occurrence_date, owe.series_id;
+END;
+$$;
+
+-- 9. Recreate balance_flows with the category of each flow
+-- Settled occurrences keep the category of the occurrence they settle (its override's, or the series').
+DROP FUNCTION balance_flows(uuid, date, date, uuid, uuid);
+
+CREATE FUNCTION balance_flows(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date,
+    p_scenario_id uuid DEFAULT NULL,
+    p_wallet_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    flow_date date,
+    series_id uuid,
+    entry_type entry_type,
+    amount numeric(12,2),
+    net_amount numeric(12,2),
+    is_actual boolean,
+    category_id uuid
+)
+LANGUAGE sql
+SECURITY INVOKER
+STABLE
+AS $$
+    WITH flows AS (
+        SELECT
+            eo.occurrence_date AS flow_date,
+            eo.series_id,
+            eo.entry_type,
+            eo.amount,
+            false AS is_actual,
+            eo.category_id
+        FROM expand_occurrences(p_user_id, p_from_date, p_to_date, p_scenario_id) eo
+        WHERE NOT EXISTS (
+            SELECT 1
+            FROM occurrence_settlements os
+            WHERE os.series_id = eo.series_id
+                AND os.occurrence_date = eo.occurrence_date
+                AND os.actual_date <= user_today(p_user_id)
+        )
+
+        UNION ALL
+
+        SELECT
+            os.actual_date,
+            os.series_id,
+            es.entry_type,
+            os.actual_amount,
+            true,
+            COALESCE(
+                (
+                    SELECT sx.category_id
+                    FROM series_exceptions sx
+                    WHERE sx.series_id = os.series_id
+                        AND sx.exception_date = os.occurrence_date
+                        AND (sx.scenario_id IS NULL OR sx.scenario_id = p_scenario_id)
+                    ORDER BY sx.scenario_id NULLS LAST
+                    LIMIT 1
+                ),
+                es.category_id
+            )
+        FROM occurrence_settlements os
+        JOIN entry_series es ON es.id = os.series_id
+        WHERE os.user_id = p_user_id
+            AND os.actual_date BETWEEN p_from_date AND p_to_date
+            AND os.actual_date <= user_today(p_user_id)
+    ),
+    target AS (
+        SELECT COALESCE(
+            (SELECT w.currency FROM wallets w WHERE w.id = p_wallet_id AND w.user_id = p_user_id),
+            base_currency(p_user_id)
+        ) AS currency
+    ),
+    -- Only flows that touch the projected wallet(s) are converted, so unrelated currencies need no rate
+    wallet_flows AS (
+        SELECT f.*, es.wallet_id, es.target_wallet_id, es.currency
+        FROM flows f
+        JOIN entry_series es ON es.id = f.series_id
+        WHERE CASE
+            WHEN p_wallet_id IS NULL THEN f.entry_type <> 'transfer'
+            ELSE p_wallet_id IN (es.wallet_id, es.target_wallet_id)
+        END
+    )
+    SELECT wf.flow_date, wf.series_id, wf.entry_type, c.amount, leg.net_amount, wf.is_actual, wf.category_id
+    FROM wallet_flows wf
+    CROSS JOIN target t
+    CROSS JOIN LATERAL (
+        SELECT convert_amount(p_user_id, wf.amount, wf.currency, t.currency, wf.flow_date) AS amount
+    ) c
+    CROSS JOIN LATERAL (
+        -- Income and expenses count in their own wallet
+        SELECT CASE WHEN wf.entry_type = 'income' THEN c.amount ELSE -c.amount END AS net_amount
+        WHERE wf.entry_type <> 'transfer'
+            AND (p_wallet_id IS NULL OR wf.wallet_id = p_wallet_id)
+
+        UNION ALL
+
+        -- A transfer debits its wallet...
+        SELECT -c.amount
+        WHERE wf.entry_type = 'transfer'
+            AND wf.wallet_id = p_wallet_id
+
+        UNION ALL
+
+        -- ...and credits its target wallet
+        SELECT c.amount
+        WHERE wf.entry_type = 'transfer'
+            AND wf.target_wallet_id = p_wallet_id
+    ) leg;
+$$;
@@ -0,0 +1,62 @@
+-- Migration: Add budgets
+-- Purpose: Categories showed where the money goes, but there was no way to cap it. Users now set a monthly
+-- spending cap per category; the budget summary compares it with the month's planned expenses.
+-- Affected tables: budgets (new)
+-- Special considerations: Budget amounts are in the user's base currency. A budget covers its category's
+-- subcategories too. Deleting a category deletes its budget (and the budgets of its subcategories).
+-- Generated: 2026-10-19
+
+-- 1. Create budgets table
+CREATE TABLE budgets (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    category_id uuid NOT NULL,
+    -- Monthly cap in the base currency
+    amount numeric(12,2) NOT NULL CHECK (amount > 0),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT unique_budget_category UNIQUE (user_id, category_id),
+    -- Also keeps budgets in their owner's categories
+    CONSTRAINT budgets_category_id_fkey FOREIGN KEY (category_id, user_id)
+        REFERENCES categories (id, user_id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_budgets_category ON budgets (category_id);
+
+-- 2. Enable Row Level Security
+ALTER TABLE budgets ENABLE ROW LEVEL SECURITY;
+
+-- 3. Create RLS Policies
+-- Anon: Deny all operations.
+CREATE POLICY budgets_select_anon ON budgets
+    FOR SELECT USING (auth.role() = 'anon' AND false);
+
+CREATE POLICY budgets_insert_anon ON budgets
+    FOR INSERT WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY budgets_update_anon ON budgets
+    FOR UPDATE USING (auth.role() = 'anon' AND false)
+    WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY budgets_delete_anon ON budgets
+    FOR DELETE USING (auth.role() = 'anon' AND false);
+
+-- Authenticated: Allow full CRUD on own budgets.
+CREATE POLICY budgets_select_authenticated ON budgets
+    FOR SELECT USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY budgets_insert_authenticated ON budgets
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY budgets_update_authenticated ON budgets
+    FOR UPDATE USING (auth.role() = 'authenticated' AND user_id = auth.uid())
+    WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY budgets_delete_authenticated ON budgets
+    FOR DELETE USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+-- 4. updated_at trigger
+CREATE TRIGGER set_updated_at_budgets
+    BEFORE UPDATE ON budgets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,205 @@
+-- Migration: Add tags
+-- Purpose: Categories group entries along one axis only. Users can now attach free-form tags such as
+-- "vacation-2026" or "reimbursable" to entry series, replace the tags of a single occurrence with an override
+-- exception, and budget a tag as well as a category.
+-- Affected tables: tags (new), entry_series_tags (new), series_exception_tags (new),
+-- series_exceptions (override_tags), budgets (tag_id, category_id becomes optional)
+-- Affected functions: set_series_tags (new), set_exception_tags (new)
+-- Special considerations: Tag names are stored lowercase and are unique per user; tags are created on first
+-- use. An override exception keeps the series' tags unless override_tags is set, in which case its own tags
+-- (possibly none) apply. Deleting a tag deletes its budget.
+-- Generated: 2026-10-19
+
+-- 1. Create tags table
+CREATE TABLE tags (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name text NOT NULL CHECK (char_length(name) <= 50 AND char_length(name) > 0 AND name = lower(name)),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT unique_tag_name UNIQUE (user_id, name),
+    -- Target of the (tag_id, user_id) foreign keys, which keep rows in their owner's tags
+    CONSTRAINT unique_tag_owner UNIQUE (id, user_id)
+);
+
+-- 2. Create the links between tags and series or override exceptions
+CREATE TABLE entry_series_tags (
+    series_id uuid NOT NULL REFERENCES entry_series(id) ON DELETE CASCADE,
+    tag_id uuid NOT NULL,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    PRIMARY KEY (series_id, tag_id),
+    CONSTRAINT entry_series_tags_tag_id_fkey FOREIGN KEY (tag_id, user_id)
+        REFERENCES tags (id, user_id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_entry_series_tags_tag ON entry_series_tags (tag_id);
+
+CREATE TABLE series_exception_tags (
+    exception_id uuid NOT NULL REFERENCES series_exceptions(id) ON DELETE CASCADE,
+    tag_id uuid NOT NULL,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    PRIMARY KEY (exception_id, tag_id),
+    CONSTRAINT series_exception_tags_tag_id_fkey FOREIGN KEY (tag_id, user_id)
+        REFERENCES tags (id, user_id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_series_exception_tags_tag ON series_exception_tags (tag_id);
+
+-- 3. Enable Row Level Security
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE entry_series_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE series_exception_tags ENABLE ROW LEVEL SECURITY;
+
+-- 4. Create RLS Policies
+-- Anon: Deny all operations.
+CREATE POLICY tags_select_anon ON tags
+    FOR SELECT USING (auth.role() = 'anon' AND false);
+
+CREATE POLICY tags_insert_anon ON tags
+    FOR INSERT WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY tags_update_anon ON tags
+    FOR UPDATE USING (auth.role() = 'anon' AND false)
+    WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY tags_delete_anon ON tags
+    FOR DELETE USING (auth.role() = 'anon' AND false);
+
+CREATE POLICY entry_series_tags_select_anon ON entry_series_tags
+    FOR SELECT USING (auth.role() = 'anon' AND false);
+
+CREATE POLICY entry_series_tags_insert_anon ON entry_series_tags
+    FOR INSERT WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY entry_series_tags_delete_anon ON entry_series_tags
+    FOR DELETE USING (auth.role() = 'anon' AND false);
+
+CREATE POLICY series_exception_tags_select_anon ON series_exception_tags
+    FOR SELECT USING (auth.role() = 'anon' AND false);
+
+CREATE POLICY series_exception_tags_insert_anon ON series_exception_tags
+    FOR INSERT WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY series_exception_tags_delete_anon ON series_exception_tags
+    FOR DELETE USING (auth.role() = 'anon' AND false);
+
+-- Authenticated: Allow full CRUD on own tags and links (links are replaced, never updated).
+CREATE POLICY tags_select_authenticated ON tags
+    FOR SELECT USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY tags_insert_authenticated ON tags
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY tags_update_authenticated ON tags
+    FOR UPDATE USING (auth.role() = 'authenticated' AND user_id = auth.uid())
+    WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY tags_delete_authenticated ON tags
+    FOR DELETE USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY entry_series_tags_select_authenticated ON entry_series_tags
+    FOR SELECT USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY entry_series_tags_insert_authenticated ON entry_series_tags
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY entry_series_tags_delete_authenticated ON entry_series_tags
+    FOR DELETE USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY series_exception_tags_select_authenticated ON series_exception_tags
+    FOR SELECT USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY series_exception_tags_insert_authenticated ON series_exception_tags
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY series_exception_tags_delete_authenticated ON series_exception_tags
+    FOR DELETE USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+-- 5. Occurrence overrides may replace the series' tags
+ALTER TABLE series_exceptions
+    ADD COLUMN override_tags boolean NOT NULL DEFAULT false;
+
+ALTER TABLE series_exceptions DROP CONSTRAINT skip_no_override_fields;
+ALTER TABLE series_exceptions ADD CONSTRAINT skip_no_override_fields
+    CHECK (
+        exception_type != 'skip' OR
+        (title IS NULL AND description IS NULL AND amount IS NULL AND category_id IS NULL AND NOT override_tags)
+    );
+
+-- 6. set_series_tags / set_exception_tags
+-- Replace the tags of a series or an override exception, creating tags that do not exist yet.
+-- Run with the caller's rights, so RLS hides other users' series and exceptions.
+CREATE OR REPLACE FUNCTION set_series_tags(
+    p_series_id uuid,
+    p_names text[]
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+VOLATILE
+AS $$
+DECLARE
+    v_user_id uuid;
+BEGIN
+    SELECT es.user_id INTO v_user_id FROM entry_series es WHERE es.id = p_series_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Entry series not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    INSERT INTO tags (user_id, name)
+    SELECT v_user_id, n.name FROM unnest(p_names) AS n(name)
+    ON CONFLICT (user_id, name) DO NOTHING;
+
+    DELETE FROM entry_series_tags est WHERE est.series_id = p_series_id;
+
+    INSERT INTO entry_series_tags (series_id, tag_id, user_id)
+    SELECT p_series_id, t.id, v_user_id
+    FROM tags t
+    WHERE t.user_id = v_user_id AND t.name = ANY(p_names);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_exception_tags(
+    p_exception_id uuid,
+    p_names text[]
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+VOLATILE
+AS $$
+DECLARE
+    v_user_id uuid;
+BEGIN
+    UPDATE series_exceptions sx SET override_tags = true
+    WHERE sx.id = p_exception_id AND sx.exception_type = 'override'
+    RETURNING sx.user_id INTO v_user_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Override exception not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    INSERT INTO tags (user_id, name)
+    SELECT v_user_id, n.name FROM unnest(p_names) AS n(name)
+    ON CONFLICT (user_id, name) DO NOTHING;
+
+    DELETE FROM series_exception_tags sxt WHERE sxt.exception_id = p_exception_id;
+
+    INSERT INTO series_exception_tags (exception_id, tag_id, user_id)
+    SELECT p_exception_id, t.id, v_user_id
+    FROM tags t
+    WHERE t.user_id = v_user_id AND t.name = ANY(p_names);
+END;
+$$;
+
+-- 7. Budgets may cap a tag instead of a category
+ALTER TABLE budgets ALTER COLUMN category_id DROP NOT NULL;
+
+ALTER TABLE budgets
+    ADD COLUMN tag_id uuid NULL,
+    ADD CONSTRAINT budgets_tag_id_fkey FOREIGN KEY (tag_id, user_id)
+        REFERENCES tags (id, user_id) ON DELETE CASCADE,
+    ADD CONSTRAINT unique_budget_tag UNIQUE (user_id, tag_id),
+    ADD CONSTRAINT budget_category_or_tag CHECK ((category_id IS NULL) != (tag_id IS NULL));
+
+CREATE INDEX idx_budgets_tag ON budgets (tag_id);
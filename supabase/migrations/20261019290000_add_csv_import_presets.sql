@@ -0,0 +1,57 @@
+-- Migration: Add CSV import presets
+-- Purpose: Users can now import bank statement CSV files as one-time entries. Every bank lays out its export
+-- differently, so the column mapping of a file (delimiter, date and amount columns, sign convention...) can be
+-- saved as a named preset and reused for the next statement.
+-- Affected tables: csv_import_presets (new)
+-- Special considerations: The mapping is stored as jsonb and validated by the API (see CSVColumnMapping);
+-- the database only checks that it is an object.
+-- Generated: 2026-10-19
+
+-- 1. Create csv_import_presets table
+CREATE TABLE csv_import_presets (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name text NOT NULL CHECK (char_length(name) <= 100 AND char_length(trim(name)) > 0),
+    mapping jsonb NOT NULL CHECK (jsonb_typeof(mapping) = 'object'),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT unique_csv_import_preset_name UNIQUE (user_id, name)
+);
+
+-- 2. Enable Row Level Security
+ALTER TABLE csv_import_presets ENABLE ROW LEVEL SECURITY;
+
+-- 3. Create RLS Policies
+-- Anon: Deny all operations.
+CREATE POLICY csv_import_presets_select_anon ON csv_import_presets
+    FOR SELECT USING (auth.role() = 'anon' AND false);
+
+CREATE POLICY csv_import_presets_insert_anon ON csv_import_presets
+    FOR INSERT WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY csv_import_presets_update_anon ON csv_import_presets
+    FOR UPDATE USING (auth.role() = 'anon' AND false)
+    WITH CHECK (auth.role() = 'anon' AND false);
+
+CREATE POLICY csv_import_presets_delete_anon ON csv_import_presets
+    FOR DELETE USING (auth.role() = 'anon' AND false);
+
+-- Authenticated: Allow full CRUD on own presets.
+CREATE POLICY csv_import_presets_select_authenticated ON csv_import_presets
+    FOR SELECT USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY csv_import_presets_insert_authenticated ON csv_import_presets
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY csv_import_presets_update_authenticated ON csv_import_presets
+    FOR UPDATE USING (auth.role() = 'authenticated' AND user_id = auth.uid())
+    WITH CHECK (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+CREATE POLICY csv_import_presets_delete_authenticated ON csv_import_presets
+    FOR DELETE USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+-- 4. updated_at trigger
+CREATE TRIGGER set_updated_at_csv_import_presets
+    BEFORE UPDATE ON csv_import_presets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,56 @@
+-- Migration: Let ensure_default_wallet reuse a wallet named "Main"
+-- Purpose: A user without a default wallet who had already created a wallet named "Main" could not add
+-- entries, starting balances or checkpoints without a wallet: creating the default "Main" wallet violated
+-- unique_wallet_name, and the insert failed.
+-- Affected functions: ensure_default_wallet
+-- Special considerations: The existing "Main" wallet becomes the default, keeping its currency and
+-- contents. Users who already have a default wallet are unaffected.
+-- Generated: 2026-10-19
+
+-- 1. Recreate ensure_default_wallet
+-- Returns the user's default wallet. Without one, a wallet named "Main" becomes the default, or "Main" is
+-- created.
+CREATE OR REPLACE FUNCTION ensure_default_wallet(
+    p_user_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+VOLATILE
+AS $$
+DECLARE
+    v_wallet_id uuid;
+BEGIN
+    SELECT w.id INTO v_wallet_id
+    FROM wallets w
+    WHERE w.user_id = p_user_id AND w.is_default;
+
+    IF FOUND THEN
+        RETURN v_wallet_id;
+    END IF;
+
+    -- A second "Main" would violate unique_wallet_name
+    UPDATE wallets w
+    SET is_default = true
+    WHERE w.user_id = p_user_id AND w.name = 'Main'
+    RETURNING w.id INTO v_wallet_id;
+
+    IF FOUND THEN
+        RETURN v_wallet_id;
+    END IF;
+
+    -- A concurrent call may have created it in the meantime
+    INSERT INTO wallets (user_id, name, is_default)
+    VALUES (p_user_id, 'Main', true)
+    ON CONFLICT DO NOTHING
+    RETURNING id INTO v_wallet_id;
+
+    IF v_wallet_id IS NULL THEN
+        SELECT w.id INTO v_wallet_id
+        FROM wallets w
+        WHERE w.user_id = p_user_id AND w.is_default;
+    END IF;
+
+    RETURN v_wallet_id;
+END;
+$$;
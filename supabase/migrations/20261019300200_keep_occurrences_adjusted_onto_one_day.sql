@@ -0,0 +1,160 @@
+-- Migration: Keep every occurrence moved onto the same business day
+-- Purpose: 20261019300000 merged nominal dates of a series that business-day adjustment moves onto the same
+-- day (a weekly series on Saturday and Sunday with 'previous', or days 30 and 31 of a month when both are
+-- non-business days), which dropped real payments from balances and installment plans. Each nominal date is
+-- an occurrence again, and occurrence_id is generated from the nominal date so that such occurrences keep
+-- distinct ids.
+-- Affected functions: expand_occurrences (occurrence_id from the nominal date, no merging)
+-- Special considerations: For series without business-day adjustment the nominal date is the occurrence
+-- date, so their occurrence ids are unchanged. Adjusted occurrences get new ids; calendar apps replace their
+-- events once. Exceptions and settlements are still matched on the adjusted date, so an exception on a day
+-- that two occurrences moved onto applies to both. The longest run of non-business days in the PL calendar
+-- is 5 days (Christmas Eve to Boxing Day next to a weekend, e.g. Saturday 2029-12-22 to Wednesday
+-- 2029-12-26), so adjustment moves a date by at most 5 days, within the 7-day margin of the nominal window.
+-- Generated: 2026-10-19
+
+-- 1. Recreate expand_occurrences without merging adjusted occurrences
+CREATE OR REPLACE FUNCTION expand_occurrences(
+    p_user_id uuid,
+    p_from_date date,
+    p_to_date date,
+    p_scenario_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    occurrence_id uuid,
+    series_id uuid,
+    entry_type entry_type,
+    title text,
+    description text,
+    occurrence_date date,
+    amount numeric(12,2),
+    created_at timestamptz,
+    updated_at timestamptz,
+    occurrence_number integer,
+    occurrence_count integer,
+    currency text,
+    category_id uuid
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+STABLE
+AS $$
+DECLARE
+    -- Nominal dates are generated over a widened window so that occurrences moved into
+    -- [p_from_date, p_to_date] by business-day adjustment from just outside it are not lost; adjustment
+    -- moves a date by at most 5 days
+    c_adjustment_margin constant integer := 7;
+    v_window_from date := p_from_date - c_adjustment_margin;
+    v_window_to date := p_to_date + c_adjustment_margin;
+BEGIN
+    RETURN QUERY
+    WITH
+    -- Generate all potential (nominal) occurrence dates for each series
+    occurrence_expansion AS (
+        SELECT
+            es.id AS series_id,
+            es.entry_type,
+            es.title,
+            es.description,
+            n.occurrence_date,
+            es.amount,
+            es.created_at,
+            es.updated_at,
+            es.business_day_convention,
+            es.holiday_calendar,
+            CASE WHEN es.occurrence_count IS NOT NULL THEN n.occurrence_number END AS occurrence_number,
+            es.occurrence_count,
+            es.currency,
+            es.category_id
+        FROM entry_series es
+        CROSS JOIN LATERAL (
+            SELECT
+                d AS occurrence_date,
+                row_number() OVER (ORDER BY d)::integer AS occurrence_number
+            FROM series_occurrence_dates(
+                es,
+                CASE WHEN es.occurrence_count IS NOT NULL THEN es.start_date ELSE v_window_from END,
+                v_window_to
+            ) d
+        ) n
+        WHERE es.user_id = p_user_id
+            AND (es.scenario_id IS NULL OR es.scenario_id = p_scenario_id)
+            AND n.occurrence_date BETWEEN v_window_from AND v_window_to
+    ),
+    -- Move nominal dates to business days, keeping the nominal date for the occurrence id
+    adjusted_occurrences AS (
+        SELECT
+            oe.series_id,
+            oe.entry_type,
+            oe.title,
+            oe.description,
+            oe.occurrence_date AS nominal_date,
+            adjust_to_business_day(
+                oe.occurrence_date,
+                oe.business_day_convention,
+                oe.holiday_calendar
+            ) AS occurrence_date,
+            oe.amount,
+            oe.created_at,
+            oe.updated_at,
+            oe.occurrence_number,
+            oe.occurrence_count,
+            oe.currency,
+            oe.category_id
+        FROM occurrence_expansion oe
+    ),
+    -- Apply exceptions (skip or override) and keep occurrences in the requested range
+    -- A scenario override takes precedence over a baseline exception on the same date
+    occurrences_with_exceptions AS (
+        SELECT
+            ao.series_id,
+            ao.entry_type,
+            COALESCE(se.title, ao.title) AS title,
+            COALESCE(se.description, ao.description) AS description,
+            ao.nominal_date,
+            ao.occurrence_date,
+            COALESCE(se.amount, ao.amount) AS amount,
+            COALESCE(se.created_at, ao.created_at) AS created_at,
+            COALESCE(se.updated_at, ao.updated_at) AS updated_at,
+            ao.occurrence_number,
+            ao.occurrence_count,
+            ao.currency,
+            COALESCE(se.category_id, ao.category_id) AS category_id,
+            se.exception_type
+        FROM adjusted_occurrences ao
+        LEFT JOIN LATERAL (
+            SELECT sx.title, sx.description, sx.amount, sx.category_id, sx.created_at, sx.updated_at,
+                sx.exception_type
+            FROM series_exceptions sx
+            WHERE sx.series_id = ao.series_id
+                AND sx.exception_date = ao.occurrence_date
+                AND sx.user_id = p_user_id
+                AND (sx.scenario_id IS NULL OR sx.scenario_id = p_scenario_id)
+            ORDER BY sx.scenario_id NULLS LAST
+            LIMIT 1
+        ) se ON true
+        WHERE ao.occurrence_date BETWEEN p_from_date AND p_to_date
+            AND (se.exception_type IS NULL OR se.exception_type = 'override')
+    )
+    -- Generate deterministic occurrence_id (unique per series and nominal date) and return final results
+    SELECT
+        uuid_generate_v5(
+            '6ba7b810-9dad-11d1-80b4-00c04fd430c8'::uuid,  -- Namespace UUID
+            owe.series_id::text || '|' || owe.nominal_date::text
+        ) AS occurrence_id,
+        owe.series_id,
+        owe.entry_type,
+        owe.title,
+        owe.description,
+        owe.occurrence_date,
+        owe.amount,
+        owe.created_at,
+        owe.updated_at,
+        owe.occurrence_number,
+        owe.occurrence_count,
+        owe.currency,
+        owe.category_id
+    FROM occurrences_with_exceptions owe
+    ORDER BY owe.occurrence_date, owe.series_id, owe.nominal_date;
+END;
+$$;
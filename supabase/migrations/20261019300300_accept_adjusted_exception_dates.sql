@@ -0,0 +1,54 @@
+-- Migration: Accept exceptions on occurrences moved outside the series range
+-- Purpose: Exceptions are matched on the adjusted date, but validate_exception_date still required
+-- start_date <= exception_date <= end_date. An occurrence moved before the start date ('previous' or
+-- 'nearest') or after the end date ('next' or 'nearest', also when end_date is derived from
+-- occurrence_count) could not be skipped or overridden.
+-- Affected functions: validate_exception_date (trigger)
+-- Special considerations: A date outside the series range is accepted when it is the adjusted date of one of
+-- the series' nominal dates. Adjustment moves a date by at most 5 days (see 20261019300200), so nominal dates
+-- within 7 days of the exception date are enough. Dates within the range are accepted as before.
+-- Generated: 2026-10-19
+
+-- 1. Recreate validate_exception_date
+CREATE OR REPLACE FUNCTION validate_exception_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    c_adjustment_margin constant integer := 7;
+    v_series entry_series;
+BEGIN
+    -- Get the parent series
+    SELECT *
+    INTO v_series
+    FROM entry_series
+    WHERE id = NEW.series_id;
+
+    -- An occurrence moved to a business day may fall outside the series range
+    IF v_series.business_day_convention <> 'none' AND EXISTS (
+        SELECT 1
+        FROM series_occurrence_dates(
+            v_series,
+            NEW.exception_date - c_adjustment_margin,
+            NEW.exception_date + c_adjustment_margin
+        ) d
+        WHERE adjust_to_business_day(d, v_series.business_day_convention, v_series.holiday_calendar)
+            = NEW.exception_date
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    -- Check if exception date is within series range
+    IF NEW.exception_date < v_series.start_date THEN
+        RAISE EXCEPTION 'Exception date % is before series start date %',
+            NEW.exception_date, v_series.start_date;
+    END IF;
+
+    IF v_series.end_date IS NOT NULL AND NEW.exception_date > v_series.end_date THEN
+        RAISE EXCEPTION 'Exception date % is after series end date %',
+            NEW.exception_date, v_series.end_date;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
@@ -0,0 +1,28 @@
+-- Migration: Find the nominal date of an adjusted occurrence
+-- Purpose: Splitting a series ("this and future occurrences") ended the original series the day before the
+-- date the user picked, which is the adjusted date of the occurrence. When business-day adjustment had moved
+-- that occurrence forward, its nominal date stayed in the original series: the occurrence kept the old
+-- values and could no longer be edited. The API now splits at the nominal date.
+-- Affected functions: series_nominal_date (new)
+-- Special considerations: When several nominal dates move onto the same day, the earliest is returned, so a
+-- split keeps all of them together in the new series. Adjustment moves a date by at most 5 days (see
+-- 20261019300200), so nominal dates within 7 days of the given date are enough.
+-- Generated: 2026-10-19
+
+-- 1. series_nominal_date
+-- Returns the nominal date of the series occurrence shown on p_date, or NULL if none occurs on that day.
+CREATE OR REPLACE FUNCTION series_nominal_date(
+    p_series_id uuid,
+    p_date date
+)
+RETURNS date
+LANGUAGE sql
+SECURITY INVOKER
+STABLE
+AS $$
+    SELECT min(d)
+    FROM entry_series es
+    CROSS JOIN LATERAL series_occurrence_dates(es, p_date - 7, p_date + 7) d
+    WHERE es.id = p_series_id
+        AND adjust_to_business_day(d, es.business_day_convention, es.holiday_calendar) = p_date;
+$$;
@@ -0,0 +1,29 @@
+-- Migration: Count the occurrences of a series up to a date
+-- Purpose: The API counted the occurrences before a date (for "occurrence N of M" progress and for the
+-- occurrences left when a count-bounded series is split) as the highest occurrence_number that
+-- expand_occurrences returned. Skipped occurrences are not returned, so when the latest ones were skipped
+-- the count was too low: progress lagged behind, and the new series of a split got more occurrences than
+-- the original series had left.
+-- Affected functions: count_series_occurrences (new)
+-- Special considerations: Nominal dates are counted, like occurrence_number, so an occurrence counts from
+-- its nominal date even when business-day adjustment moves it. The count never exceeds occurrence_count.
+-- Generated: 2026-10-19
+
+-- 1. count_series_occurrences
+-- Returns the number of occurrences of the series, skipped ones included, with a nominal date on or before
+-- p_to_date.
+CREATE OR REPLACE FUNCTION count_series_occurrences(
+    p_series_id uuid,
+    p_to_date date
+)
+RETURNS integer
+LANGUAGE sql
+SECURITY INVOKER
+STABLE
+AS $$
+    -- LEAST ignores the NULL occurrence_count of a series not bounded by count
+    SELECT LEAST(count(d)::integer, min(es.occurrence_count))
+    FROM entry_series es
+    CROSS JOIN LATERAL series_occurrence_dates(es, es.start_date, p_to_date) d
+    WHERE es.id = p_series_id;
+$$;
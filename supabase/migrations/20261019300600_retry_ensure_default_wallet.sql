@@ -0,0 +1,54 @@
+-- Migration: Make ensure_default_wallet return a wallet when a concurrent call creates "Main"
+-- Purpose: ensure_default_wallet created "Main" with ON CONFLICT DO NOTHING and no conflict target, then
+-- looked up the default wallet without checking the result. When a concurrent call created a non-default
+-- "Main" in the meantime, the insert was skipped and the function returned NULL.
+-- Affected functions: ensure_default_wallet
+-- Special considerations: Only a conflict on unique_wallet_name is absorbed. Either the wallet that
+-- conflicted is the default, or it is the "Main" wallet that the next pass promotes.
+-- Generated: 2026-10-19
+
+-- 1. Recreate ensure_default_wallet
+-- Returns the user's default wallet. Without one, a wallet named "Main" becomes the default, or "Main" is
+-- created.
+CREATE OR REPLACE FUNCTION ensure_default_wallet(
+    p_user_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+VOLATILE
+AS $$
+DECLARE
+    v_wallet_id uuid;
+BEGIN
+    LOOP
+        SELECT w.id INTO v_wallet_id
+        FROM wallets w
+        WHERE w.user_id = p_user_id AND w.is_default;
+
+        IF FOUND THEN
+            RETURN v_wallet_id;
+        END IF;
+
+        -- A second "Main" would violate unique_wallet_name
+        UPDATE wallets w
+        SET is_default = true
+        WHERE w.user_id = p_user_id AND w.name = 'Main'
+        RETURNING w.id INTO v_wallet_id;
+
+        IF FOUND THEN
+            RETURN v_wallet_id;
+        END IF;
+
+        -- A concurrent call may have created "Main" in the meantime: look again
+        INSERT INTO wallets (user_id, name, is_default)
+        VALUES (p_user_id, 'Main', true)
+        ON CONFLICT ON CONSTRAINT unique_wallet_name DO NOTHING
+        RETURNING id INTO v_wallet_id;
+
+        IF FOUND THEN
+            RETURN v_wallet_id;
+        END IF;
+    END LOOP;
+END;
+$$;
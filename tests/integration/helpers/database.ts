@@ -0,0 +1,79 @@
+import { readFileSync, readdirSync } from "node:fs";
+import path from "node:path";
+import { PGlite } from "@electric-sql/pglite";
+import { btree_gist } from "@electric-sql/pglite/contrib/btree_gist";
+import { pgcrypto } from "@electric-sql/pglite/contrib/pgcrypto";
+import { uuid_ossp } from "@electric-sql/pglite/contrib/uuid_ossp";
+
+const MIGRATIONS_DIR = path.resolve(__dirname, "../../../supabase/migrations");
+
+// The parts of Supabase's auth schema the migrations refer to; tests run as the owner, so RLS does not apply
+const AUTH_SCHEMA = `
+  CREATE ROLE anon;
+  CREATE ROLE authenticated;
+  CREATE SCHEMA auth;
+  CREATE TABLE auth.users (id uuid PRIMARY KEY DEFAULT gen_random_uuid());
+  CREATE FUNCTION auth.uid() RETURNS uuid LANGUAGE sql STABLE AS $$ SELECT NULL::uuid $$;
+  CREATE FUNCTION auth.role() RETURNS text LANGUAGE sql STABLE AS $$ SELECT 'service_role'::text $$;
+`;
+
+/**
+ * Creates an in-memory Postgres database (PGlite) with all migrations applied in order
+ * Takes several seconds, so create one per test file
+ */
+export async function createTestDatabase(): Promise<PGlite> {
+  const db = new PGlite({ extensions: { btree_gist, pgcrypto, uuid_ossp } });
+  await db.exec(AUTH_SCHEMA);
+  for (const file of readdirSync(MIGRATIONS_DIR).sort()) {
+    await db.exec(readFileSync(path.join(MIGRATIONS_DIR, file), "utf8"));
+  }
+  return db;
+}
+
+/**
+ * Creates a user and returns their id
+ */
+export async function createTestUser(db: PGlite): Promise<string> {
+  const { rows } = await db.query<{ id: string }>("INSERT INTO auth.users DEFAULT VALUES RETURNING id");
+  return rows[0].id;
+}
+
+/**
+ * Creates a 50 PLN expense series for a user and returns its id
+ * @param columns - Further entry_series columns (recurrence_type, start_date...)
+ */
+export async function createTestSeries(db: PGlite, userId: string, columns: Record<string, unknown>): Promise<string> {
+  const names = Object.keys(columns);
+  const { rows } = await db.query<{ id: string }>(
+    `INSERT INTO entry_series (user_id, entry_type, title, amount, ${names.join(", ")})
+     VALUES ($1, 'expense', 'Test', 50, ${names.map((_, index) => `$${index + 2}`).join(", ")})
+     RETURNING id`,
+    [userId, ...Object.values(columns)]
+  );
+  return rows[0].id;
+}
+
+export interface TestOccurrence {
+  occurrence_id: string;
+  occurrence_date: string; // YYYY-MM-DD
+  occurrence_number: number | null;
+}
+
+/**
+ * Expands the occurrences of one series with expand_occurrences
+ */
+export async function expandTestSeries(
+  db: PGlite,
+  userId: string,
+  seriesId: string,
+  fromDate: string,
+  toDate: string
+): Promise<TestOccurrence[]> {
+  const { rows } = await db.query<TestOccurrence>(
+    `SELECT occurrence_id, occurrence_date::text, occurrence_number
+     FROM expand_occurrences($1, $2, $3)
+     WHERE series_id = $4`,
+    [userId, fromDate, toDate, seriesId]
+  );
+  return rows;
+}
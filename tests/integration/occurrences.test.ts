@@ -0,0 +1,124 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { createTestDatabase, createTestSeries, createTestUser, expandTestSeries } from "./helpers/database";
+
+describe("occurrence functions", () => {
+  let db: PGlite;
+  let userId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    userId = await createTestUser(db);
+  }, 120_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const createSeries = (columns: Record<string, unknown>) => createTestSeries(db, userId, columns);
+  const expand = (seriesId: string, from: string, to: string) => expandTestSeries(db, userId, seriesId, from, to);
+
+  describe("expand_occurrences", () => {
+    it("should keep both anchors of a series that land on the same business day", async () => {
+      // Saturday 2026-05-30 and Sunday 2026-05-31 both move to Friday 2026-05-29
+      const seriesId = await createSeries({
+        recurrence_type: "monthly",
+        start_date: "2026-05-01",
+        day_of_month: 30,
+        days_of_month: [30, 31],
+        business_day_convention: "previous",
+        occurrence_count: 4,
+      });
+
+      const occurrences = await expand(seriesId, "2026-05-01", "2026-12-31");
+
+      expect(occurrences.map(({ occurrence_date, occurrence_number }) => [occurrence_date, occurrence_number])).toEqual(
+        [
+          ["2026-05-29", 1],
+          ["2026-05-29", 2],
+          ["2026-06-30", 3],
+          ["2026-07-30", 4],
+        ]
+      );
+      expect(new Set(occurrences.map((occ) => occ.occurrence_id)).size).toBe(4);
+    });
+
+    it("should pay a weekly Saturday and Sunday series twice per weekend", async () => {
+      const seriesId = await createSeries({
+        recurrence_type: "weekly",
+        start_date: "2026-10-05",
+        weekday: 0,
+        weekdays: [0, 6],
+        business_day_convention: "previous",
+      });
+
+      const occurrences = await expand(seriesId, "2026-10-05", "2026-10-18");
+
+      expect(occurrences.map((occ) => occ.occurrence_date)).toEqual([
+        "2026-10-09",
+        "2026-10-09",
+        "2026-10-16",
+        "2026-10-16",
+      ]);
+      expect(new Set(occurrences.map((occ) => occ.occurrence_id)).size).toBe(4);
+    });
+
+    it("should keep the occurrence ids of series without adjustment", async () => {
+      const seriesId = await createSeries({ recurrence_type: "one_time", start_date: "2026-10-10" });
+
+      const [occurrence] = await expand(seriesId, "2026-10-01", "2026-10-31");
+      const { rows } = await db.query<{ id: string }>(
+        "SELECT uuid_generate_v5('6ba7b810-9dad-11d1-80b4-00c04fd430c8'::uuid, $1 || '|2026-10-10')::text AS id",
+        [seriesId]
+      );
+
+      expect(occurrence.occurrence_id).toBe(rows[0].id);
+    });
+  });
+
+  describe("series_nominal_date", () => {
+    it("should return the earliest nominal date moved onto a day", async () => {
+      // Saturday 2026-05-30 and Sunday 2026-05-31 both move to Monday 2026-06-01
+      const seriesId = await createSeries({
+        recurrence_type: "monthly",
+        start_date: "2026-05-01",
+        day_of_month: 30,
+        days_of_month: [30, 31],
+        business_day_convention: "next",
+      });
+
+      const nominalDate = async (date: string) =>
+        (await db.query<{ date: string | null }>("SELECT series_nominal_date($1, $2)::text AS date", [seriesId, date]))
+          .rows[0].date;
+
+      expect(await nominalDate("2026-06-01")).toBe("2026-05-30");
+      expect(await nominalDate("2026-06-30")).toBe("2026-06-30");
+      expect(await nominalDate("2026-06-02")).toBeNull();
+    });
+  });
+
+  describe("count_series_occurrences", () => {
+    it("should count skipped occurrences up to the count of the series", async () => {
+      const seriesId = await createSeries({
+        recurrence_type: "monthly",
+        start_date: "2026-01-10",
+        day_of_month: 10,
+        occurrence_count: 10,
+      });
+      await db.query(
+        `INSERT INTO series_exceptions (series_id, user_id, exception_date, exception_type)
+         VALUES ($1, $2, '2026-04-10', 'skip')`,
+        [seriesId, userId]
+      );
+
+      const count = async (toDate: string) =>
+        (await db.query<{ count: number }>("SELECT count_series_occurrences($1, $2) AS count", [seriesId, toDate]))
+          .rows[0].count;
+
+      expect(await count("2026-01-09")).toBe(0);
+      expect(await count("2026-04-10")).toBe(4);
+      expect(await count("2027-12-31")).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { createTestDatabase, createTestSeries, createTestUser, expandTestSeries } from "./helpers/database";
+
+describe("validate_exception_date", () => {
+  let db: PGlite;
+  let userId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    userId = await createTestUser(db);
+  }, 120_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const skip = (seriesId: string, date: string) =>
+    db.query(
+      `INSERT INTO series_exceptions (series_id, user_id, exception_date, exception_type)
+       VALUES ($1, $2, $3, 'skip')`,
+      [seriesId, userId, date]
+    );
+
+  it("should accept an occurrence moved before the start date", async () => {
+    // Saturday 2026-01-31 moves to Friday 2026-01-30
+    const seriesId = await createTestSeries(db, userId, {
+      recurrence_type: "monthly",
+      start_date: "2026-01-31",
+      day_of_month: 31,
+      business_day_convention: "previous",
+    });
+
+    await skip(seriesId, "2026-01-30");
+
+    const occurrences = await expandTestSeries(db, userId, seriesId, "2026-01-01", "2026-03-31");
+    expect(occurrences.map((occ) => occ.occurrence_date)).toEqual(["2026-02-27", "2026-03-31"]);
+  });
+
+  it("should accept an occurrence moved after an end date derived from the occurrence count", async () => {
+    // Saturday 2026-05-30 moves to Monday 2026-06-01; end_date is 2026-05-30
+    const seriesId = await createTestSeries(db, userId, {
+      recurrence_type: "monthly",
+      start_date: "2026-05-01",
+      day_of_month: 30,
+      business_day_convention: "next",
+      occurrence_count: 1,
+    });
+
+    await skip(seriesId, "2026-06-01");
+
+    expect(await expandTestSeries(db, userId, seriesId, "2026-05-01", "2026-06-30")).toEqual([]);
+  });
+
+  it("should reject a date outside the series range that no occurrence moved to", async () => {
+    const seriesId = await createTestSeries(db, userId, {
+      recurrence_type: "monthly",
+      start_date: "2026-01-31",
+      day_of_month: 31,
+      business_day_convention: "previous",
+    });
+
+    await expect(skip(seriesId, "2026-01-29")).rejects.toThrow(
+      "Exception date 2026-01-29 is before series start date 2026-01-31"
+    );
+  });
+});
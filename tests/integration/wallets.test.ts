@@ -0,0 +1,46 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { createTestDatabase, createTestUser } from "./helpers/database";
+
+describe("ensure_default_wallet", () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  }, 120_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const ensureDefaultWallet = async (userId: string) =>
+    (await db.query<{ id: string }>("SELECT ensure_default_wallet($1) AS id", [userId])).rows[0].id;
+
+  const defaultWallets = async (userId: string) =>
+    (
+      await db.query<{ id: string; name: string }>("SELECT id, name FROM wallets WHERE user_id = $1 AND is_default", [
+        userId,
+      ])
+    ).rows;
+
+  it("should create a default Main wallet once", async () => {
+    const userId = await createTestUser(db);
+
+    const walletId = await ensureDefaultWallet(userId);
+
+    expect(await ensureDefaultWallet(userId)).toBe(walletId);
+    expect(await defaultWallets(userId)).toEqual([{ id: walletId, name: "Main" }]);
+  });
+
+  it("should make an existing Main wallet the default", async () => {
+    const userId = await createTestUser(db);
+    const { rows } = await db.query<{ id: string }>(
+      "INSERT INTO wallets (user_id, name) VALUES ($1, 'Savings'), ($1, 'Main') RETURNING id",
+      [userId]
+    );
+
+    expect(await ensureDefaultWallet(userId)).toBe(rows[1].id);
+    expect(await defaultWallets(userId)).toEqual([{ id: rows[1].id, name: "Main" }]);
+  });
+});
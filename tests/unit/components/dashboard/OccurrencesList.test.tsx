@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render } from "@testing-library/react";
+import { OccurrencesList, type OccurrencesFocusRequest } from "@/components/dashboard/OccurrencesList";
+import { createFormatter } from "@/lib/utils/format.utils";
+import type { OccurrenceDTO } from "@/types";
+
+function createOccurrence(date: string): OccurrenceDTO {
+  return {
+    occurrence_id: `occurrence-${date}`,
+    series_id: "series-1",
+    entry_type: "expense",
+    title: `Payment on ${date}`,
+    description: "",
+    occurrence_date: date,
+    amount: 100,
+    created_at: "2026-01-01T10:00:00Z",
+    updated_at: "2026-01-01T10:00:00Z",
+    occurrence_number: null,
+    occurrence_count: null,
+    currency: "PLN",
+    category_id: null,
+    tags: [],
+    settlement: null,
+  };
+}
+
+function renderList(dates: string[], focusRequest: OccurrencesFocusRequest) {
+  return render(
+    <OccurrencesList
+      occurrences={dates.map(createOccurrence)}
+      isLoading={false}
+      hasMore={false}
+      onLoadMore={vi.fn()}
+      onEditClick={vi.fn()}
+      onDeleteClick={vi.fn()}
+      onSettleClick={vi.fn()}
+      onUnsettleClick={vi.fn()}
+      focusRequest={focusRequest}
+      formatter={createFormatter()}
+    />
+  );
+}
+
+describe("OccurrencesList", () => {
+  const scrollIntoView = vi.fn();
+
+  beforeEach(() => {
+    scrollIntoView.mockClear();
+    Element.prototype.scrollIntoView = scrollIntoView;
+  });
+
+  describe("focus request", () => {
+    it("should scroll to the first occurrence within the focused range", () => {
+      const { container } = renderList(["2026-01-05", "2026-01-20", "2026-01-22"], {
+        from: "2026-01-19",
+        to: "2026-01-25",
+        requestedAt: 1,
+      });
+
+      expect(scrollIntoView).toHaveBeenCalledOnce();
+      expect(scrollIntoView.mock.contexts[0]).toBe(container.querySelector('[data-occurrence-date="2026-01-20"]'));
+    });
+
+    it("should not scroll past the focused range when it has no occurrences", () => {
+      renderList(["2026-01-05", "2026-01-20"], { from: "2026-01-12", to: "2026-01-18", requestedAt: 1 });
+
+      expect(scrollIntoView).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -3,6 +3,9 @@ import {
   entryFormSchema,
   ENTRY_TYPES,
   RECURRENCE_TYPES,
+  MONTHLY_ANCHORS,
+  BUSINESS_DAY_CONVENTIONS,
+  parseDaysOfMonth,
   type EntryFormValues,
 } from "@/components/dashboard/entries/schema";
 
@@ -11,32 +14,33 @@ describe("dashboard/entries/schema", () => {
   // Constants
   // ============================================================================
   describe("ENTRY_TYPES constant", () => {
-    it("should contain exactly 'income' and 'expense'", () => {
+    it("should contain exactly 'income', 'expense' and 'transfer'", () => {
       // Assert
-      expect(ENTRY_TYPES).toEqual(["income", "expense"]);
+      expect(ENTRY_TYPES).toEqual(["income", "expense", "transfer"]);
     });
 
-    it("should have length of 2", () => {
+    it("should have length of 3", () => {
       // Assert
-      expect(ENTRY_TYPES).toHaveLength(2);
+      expect(ENTRY_TYPES).toHaveLength(3);
     });
 
     it("should be readonly tuple", () => {
       // Assert - verify it's the expected type structure
       expect(ENTRY_TYPES[0]).toBe("income");
       expect(ENTRY_TYPES[1]).toBe("expense");
+      expect(ENTRY_TYPES[2]).toBe("transfer");
     });
   });
 
   describe("RECURRENCE_TYPES constant", () => {
-    it("should contain exactly 'one_time', 'weekly', and 'monthly'", () => {
+    it("should contain exactly 'one_time', 'weekly', 'monthly', 'quarterly', and 'yearly'", () => {
       // Assert
-      expect(RECURRENCE_TYPES).toEqual(["one_time", "weekly", "monthly"]);
+      expect(RECURRENCE_TYPES).toEqual(["one_time", "weekly", "monthly", "quarterly", "yearly"]);
     });
 
-    it("should have length of 3", () => {
+    it("should have length of 5", () => {
       // Assert
-      expect(RECURRENCE_TYPES).toHaveLength(3);
+      expect(RECURRENCE_TYPES).toHaveLength(5);
     });
 
     it("should be readonly tuple", () => {
@@ -44,6 +48,52 @@ describe("dashboard/entries/schema", () => {
       expect(RECURRENCE_TYPES[0]).toBe("one_time");
       expect(RECURRENCE_TYPES[1]).toBe("weekly");
       expect(RECURRENCE_TYPES[2]).toBe("monthly");
+      expect(RECURRENCE_TYPES[3]).toBe("quarterly");
+      expect(RECURRENCE_TYPES[4]).toBe("yearly");
+    });
+  });
+
+  describe("MONTHLY_ANCHORS constant", () => {
+    it("should contain exactly the four anchor modes", () => {
+      // Assert
+      expect(MONTHLY_ANCHORS).toEqual(["day_of_month", "nth_weekday", "last_weekday", "last_day"]);
+    });
+  });
+
+  describe("BUSINESS_DAY_CONVENTIONS constant", () => {
+    it("should contain exactly 'none', 'previous', 'next', and 'nearest'", () => {
+      // Assert
+      expect(BUSINESS_DAY_CONVENTIONS).toEqual(["none", "previous", "next", "nearest"]);
+    });
+  });
+
+  // ============================================================================
+  // parseDaysOfMonth
+  // ============================================================================
+  describe("parseDaysOfMonth", () => {
+    it("should return an empty array for empty input", () => {
+      // Assert
+      expect(parseDaysOfMonth(undefined)).toEqual([]);
+      expect(parseDaysOfMonth("")).toEqual([]);
+      expect(parseDaysOfMonth("   ")).toEqual([]);
+    });
+
+    it("should parse, sort and de-duplicate comma-separated days", () => {
+      // Assert
+      expect(parseDaysOfMonth("25, 10,10")).toEqual([10, 25]);
+    });
+
+    it("should return null for days outside 1-31", () => {
+      // Assert
+      expect(parseDaysOfMonth("0")).toBeNull();
+      expect(parseDaysOfMonth("10, 32")).toBeNull();
+    });
+
+    it("should return null for non-numeric or malformed input", () => {
+      // Assert
+      expect(parseDaysOfMonth("10th")).toBeNull();
+      expect(parseDaysOfMonth("10,,25")).toBeNull();
+      expect(parseDaysOfMonth("1.5")).toBeNull();
     });
   });
 
@@ -343,6 +393,48 @@ describe("dashboard/entries/schema", () => {
         }
       });
 
+      it("should accept 'transfer' entry_type with a target wallet", () => {
+        // Arrange
+        const input = createValidInput({ entry_type: "transfer", wallet_id: "wallet-1", target_wallet_id: "wallet-2" });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.target_wallet_id).toBe("wallet-2");
+        }
+      });
+
+      it("should reject 'transfer' entry_type without a target wallet", () => {
+        // Arrange
+        const input = createValidInput({ entry_type: "transfer", wallet_id: "wallet-1" });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].path).toContain("target_wallet_id");
+        }
+      });
+
+      it("should reject 'transfer' entry_type to the same wallet", () => {
+        // Arrange
+        const input = createValidInput({ entry_type: "transfer", wallet_id: "wallet-1", target_wallet_id: "wallet-1" });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].message).toBe("Choose a different wallet to transfer to");
+        }
+      });
+
       it("should reject invalid entry_type", () => {
         // Arrange
         const input = createValidInput();
@@ -1033,6 +1125,34 @@ describe("dashboard/entries/schema", () => {
         }
       });
 
+      it("should accept 'quarterly' recurrence_type", () => {
+        // Arrange
+        const input = createValidInput({ recurrence_type: "quarterly" });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.recurrence_type).toBe("quarterly");
+        }
+      });
+
+      it("should accept 'yearly' recurrence_type", () => {
+        // Arrange
+        const input = createValidInput({ recurrence_type: "yearly" });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.recurrence_type).toBe("yearly");
+        }
+      });
+
       it("should reject invalid recurrence_type", () => {
         // Arrange
         const input = createValidInput();
@@ -1386,6 +1506,416 @@ describe("dashboard/entries/schema", () => {
       });
     });
 
+    // --------------------------------------------------------------------------
+    // recurrence_interval validation
+    // --------------------------------------------------------------------------
+    describe("recurrence_interval validation", () => {
+      it("should accept undefined recurrence_interval", () => {
+        // Arrange
+        const input = createValidInput({ recurrence_interval: undefined });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should accept biweekly interval of 2", () => {
+        // Arrange
+        const input = createValidInput({
+          recurrence_type: "weekly",
+          weekday: 5,
+          recurrence_interval: 2,
+        });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.recurrence_interval).toBe(2);
+        }
+      });
+
+      it("should coerce string interval to number", () => {
+        // Arrange
+        const input = createValidInput();
+        input.recurrence_interval = "3";
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.recurrence_interval).toBe(3);
+        }
+      });
+
+      it("should reject interval less than 1", () => {
+        // Arrange
+        const input = createValidInput({ recurrence_interval: 0 });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].message).toBe("Interval must be at least 1");
+        }
+      });
+
+      it("should reject interval greater than 52", () => {
+        // Arrange
+        const input = createValidInput({ recurrence_interval: 53 });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].message).toBe("Interval must be 52 or less");
+        }
+      });
+
+      it("should reject non-integer interval", () => {
+        // Arrange
+        const input = createValidInput({ recurrence_interval: 1.5 });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].message).toBe("Interval must be a whole number");
+        }
+      });
+    });
+
+    // --------------------------------------------------------------------------
+    // monthly_anchor validation
+    // --------------------------------------------------------------------------
+    describe("monthly_anchor validation", () => {
+      it("should accept undefined monthly_anchor", () => {
+        // Arrange
+        const input = createValidInput({ recurrence_type: "monthly", monthly_anchor: undefined });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should accept every anchor mode", () => {
+        for (const anchor of MONTHLY_ANCHORS) {
+          // Arrange
+          const input = createValidInput({ recurrence_type: "monthly", monthly_anchor: anchor });
+
+          // Act
+          const result = entryFormSchema.safeParse(input);
+
+          // Assert
+          expect(result.success).toBe(true);
+        }
+      });
+
+      it("should reject invalid monthly_anchor", () => {
+        // Arrange
+        const input = createValidInput({ recurrence_type: "monthly" });
+        input.monthly_anchor = "first_business_day";
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+
+      it("should accept nth_weekday when start date is in the 4th week", () => {
+        // Arrange - Jan 28, 2025 is the 4th Tuesday
+        const input = createValidInput({
+          recurrence_type: "monthly",
+          monthly_anchor: "nth_weekday",
+          start_date: new Date(2025, 0, 28),
+        });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should reject nth_weekday when start date is a 5th weekday", () => {
+        // Arrange - Jan 29, 2025 is the 5th Wednesday
+        const input = createValidInput({
+          recurrence_type: "monthly",
+          monthly_anchor: "nth_weekday",
+          start_date: new Date(2025, 0, 29),
+        });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].path).toEqual(["monthly_anchor"]);
+          expect(result.error.issues[0].message).toBe(
+            "Start date falls on a 5th weekday; choose the last weekday of the month instead"
+          );
+        }
+      });
+
+      it("should accept last_weekday when start date is a 5th weekday", () => {
+        // Arrange
+        const input = createValidInput({
+          recurrence_type: "monthly",
+          monthly_anchor: "last_weekday",
+          start_date: new Date(2025, 0, 29),
+        });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+    });
+
+    // --------------------------------------------------------------------------
+    // business_day_convention validation
+    // --------------------------------------------------------------------------
+    describe("business_day_convention validation", () => {
+      it("should accept 'previous' for a monthly entry", () => {
+        // Arrange
+        const input = createValidInput({ recurrence_type: "monthly", business_day_convention: "previous" });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.business_day_convention).toBe("previous");
+        }
+      });
+
+      it("should reject invalid business_day_convention", () => {
+        // Arrange
+        const input = createValidInput({ recurrence_type: "monthly" });
+        input.business_day_convention = "following";
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+    });
+
+    // --------------------------------------------------------------------------
+    // occurrence_count validation
+    // --------------------------------------------------------------------------
+    describe("occurrence_count validation", () => {
+      it("should accept occurrence_count without end_date", () => {
+        // Arrange
+        const input = createValidInput({ recurrence_type: "monthly", occurrence_count: 10 });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.occurrence_count).toBe(10);
+        }
+      });
+
+      it("should coerce string occurrence_count to number", () => {
+        // Arrange
+        const input = createValidInput({ recurrence_type: "monthly" });
+        input.occurrence_count = "12";
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.occurrence_count).toBe(12);
+        }
+      });
+
+      it("should reject occurrence_count less than 1", () => {
+        // Arrange
+        const input = createValidInput({ recurrence_type: "monthly", occurrence_count: 0 });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].message).toBe("Number of occurrences must be at least 1");
+        }
+      });
+
+      it("should reject occurrence_count together with end_date", () => {
+        // Arrange
+        const input = createValidInput({
+          recurrence_type: "monthly",
+          end_date: new Date("2025-12-15"),
+          occurrence_count: 10,
+        });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].path).toEqual(["occurrence_count"]);
+          expect(result.error.issues[0].message).toBe("Choose either an end date or a number of occurrences");
+        }
+      });
+    });
+
+    // --------------------------------------------------------------------------
+    // currency validation
+    // --------------------------------------------------------------------------
+    describe("currency validation", () => {
+      it("should accept an empty currency", () => {
+        // Arrange
+        const input = createValidInput({ currency: "" });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should accept a 3-letter currency in any case", () => {
+        // Arrange
+        const input = createValidInput({ currency: "eur" });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should reject a currency that is not 3 letters", () => {
+        // Arrange
+        const input = createValidInput({ currency: "EURO" });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].path).toEqual(["currency"]);
+          expect(result.error.issues[0].message).toBe("Currency must be a 3-letter code");
+        }
+      });
+    });
+
+    // --------------------------------------------------------------------------
+    // tags validation
+    // --------------------------------------------------------------------------
+    describe("tags validation", () => {
+      it("should accept comma-separated tags", () => {
+        // Arrange
+        const input = createValidInput({ tags: "vacation-2026, reimbursable" });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should reject a tag longer than 50 characters", () => {
+        // Arrange
+        const input = createValidInput({ tags: `travel, ${"a".repeat(51)}` });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].path).toEqual(["tags"]);
+          expect(result.error.issues[0].message).toBe("Tags must be at most 50 characters");
+        }
+      });
+    });
+
+    // --------------------------------------------------------------------------
+    // weekdays / days_of_month validation
+    // --------------------------------------------------------------------------
+    describe("weekdays and days_of_month validation", () => {
+      it("should accept a set of weekdays", () => {
+        // Arrange
+        const input = createValidInput({ recurrence_type: "weekly", weekdays: [1, 3, 5] });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.weekdays).toEqual([1, 3, 5]);
+        }
+      });
+
+      it("should reject weekday values above 6", () => {
+        // Arrange
+        const input = createValidInput({ recurrence_type: "weekly", weekdays: [1, 7] });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+
+      it("should accept comma-separated days of month", () => {
+        // Arrange
+        const input = createValidInput({ recurrence_type: "monthly", days_of_month: "10, 25" });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should reject invalid days of month", () => {
+        // Arrange
+        const input = createValidInput({ recurrence_type: "monthly", days_of_month: "10, 40" });
+
+        // Act
+        const result = entryFormSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].path).toEqual(["days_of_month"]);
+          expect(result.error.issues[0].message).toBe("Enter days between 1 and 31 separated by commas");
+        }
+      });
+    });
+
     // --------------------------------------------------------------------------
     // Refinement: end_date >= start_date
     // --------------------------------------------------------------------------
@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildChartGeometry,
+  findPointIndex,
+  pickTimelineGranularity,
+  type ChartDimensions,
+} from "@/components/dashboard/projection/chart";
+import type { BalanceTimelinePointDTO } from "@/types";
+
+const dimensions: ChartDimensions = {
+  width: 110,
+  height: 110,
+  padding: { top: 5, right: 5, bottom: 5, left: 5 },
+};
+
+const point = (
+  date: string,
+  balance: number,
+  overrides: Partial<BalanceTimelinePointDTO> = {}
+): BalanceTimelinePointDTO => ({
+  date,
+  end_date: date,
+  total_income: 0,
+  total_expense: 0,
+  net_transfers: 0,
+  net_change: 0,
+  adjustment: 0,
+  balance,
+  min_balance: balance,
+  ...overrides,
+});
+
+describe("dashboard/projection/chart", () => {
+  // ============================================================================
+  // pickTimelineGranularity
+  // ============================================================================
+  describe("pickTimelineGranularity", () => {
+    it("should use days for ranges up to a year", () => {
+      expect(pickTimelineGranularity("2025-01-01", "2025-01-31")).toBe("day");
+      expect(pickTimelineGranularity("2024-01-01", "2024-12-31")).toBe("day");
+    });
+
+    it("should use weeks for ranges up to five years", () => {
+      expect(pickTimelineGranularity("2025-01-01", "2026-06-30")).toBe("week");
+    });
+
+    it("should use months for longer ranges", () => {
+      expect(pickTimelineGranularity("2025-01-01", "2035-01-01")).toBe(
+        "month"
+      );
+    });
+  });
+
+  // ============================================================================
+  // buildChartGeometry
+  // ============================================================================
+  describe("buildChartGeometry", () => {
+    it("should spread points across the inner width", () => {
+      // Arrange
+      const points = [
+        point("2025-01-01", 100),
+        point("2025-01-02", 200),
+        point("2025-01-03", 300),
+      ];
+
+      // Act
+      const geometry = buildChartGeometry(points, dimensions);
+
+      // Assert
+      expect(geometry.xs).toEqual([5, 55, 105]);
+      expect(geometry.step).toBe(50);
+      expect(geometry.ys).toEqual([105, 55, 5]);
+      expect(geometry.linePath).toBe("M5,105 L55,55 L105,5");
+    });
+
+    it("should fill the area to the bottom when all balances are positive", () => {
+      // Arrange
+      const points = [point("2025-01-01", 100), point("2025-01-02", 200)];
+
+      // Act
+      const geometry = buildChartGeometry(points, dimensions);
+
+      // Assert
+      expect(geometry.zeroY).toBeNull();
+      expect(geometry.baselineY).toBe(105);
+      expect(geometry.areaPath).toBe("M5,105 L105,5 L105,105 L5,105 Z");
+    });
+
+    it("should fill the area to the zero line when balance crosses zero", () => {
+      // Arrange
+      const points = [point("2025-01-01", 100), point("2025-01-02", -100)];
+
+      // Act
+      const geometry = buildChartGeometry(points, dimensions);
+
+      // Assert
+      expect(geometry.zeroY).toBe(55);
+      expect(geometry.baselineY).toBe(55);
+      expect(geometry.minValue).toBe(-100);
+    });
+
+    it("should include dips inside a bucket in the value range", () => {
+      // Arrange
+      const points = [
+        point("2025-01-01", 100, { end_date: "2025-01-31", min_balance: -50 }),
+        point("2025-02-01", 200, { end_date: "2025-02-28" }),
+      ];
+
+      // Act
+      const geometry = buildChartGeometry(points, dimensions);
+
+      // Assert
+      expect(geometry.minValue).toBe(-50);
+      expect(geometry.zeroY).not.toBeNull();
+    });
+
+    it("should center a single point and widen a flat range", () => {
+      // Arrange
+      const points = [point("2025-01-01", 100)];
+
+      // Act
+      const geometry = buildChartGeometry(points, dimensions);
+
+      // Assert
+      expect(geometry.xs).toEqual([55]);
+      expect(geometry.ys).toEqual([55]);
+      expect(geometry.minValue).toBe(99);
+      expect(geometry.maxValue).toBe(101);
+    });
+
+    it("should return empty paths without points", () => {
+      // Act
+      const geometry = buildChartGeometry([], dimensions);
+
+      // Assert
+      expect(geometry.linePath).toBe("");
+      expect(geometry.areaPath).toBe("");
+    });
+
+    it("should draw comparison points on the shared scale", () => {
+      // Arrange
+      const points = [point("2025-01-01", 100), point("2025-01-02", 200)];
+      const comparison = [point("2025-01-01", 100), point("2025-01-02", 300)];
+
+      // Act
+      const geometry = buildChartGeometry(points, dimensions, comparison);
+
+      // Assert
+      expect(geometry.maxValue).toBe(300);
+      expect(geometry.ys).toEqual([105, 55]);
+      expect(geometry.comparisonPath).toBe("M5,105 L105,5");
+    });
+
+    it("should ignore comparison points that do not match the buckets", () => {
+      // Arrange
+      const points = [point("2025-01-01", 100), point("2025-01-02", 200)];
+
+      // Act
+      const geometry = buildChartGeometry(points, dimensions, [
+        point("2025-01-01", 500),
+      ]);
+
+      // Assert
+      expect(geometry.comparisonPath).toBe("");
+      expect(geometry.maxValue).toBe(200);
+    });
+  });
+
+  // ============================================================================
+  // findPointIndex
+  // ============================================================================
+  describe("findPointIndex", () => {
+    const points = [
+      point("2025-01-01", 100, { end_date: "2025-01-05" }),
+      point("2025-01-06", 100, { end_date: "2025-01-12" }),
+    ];
+
+    it("should find the bucket containing a date", () => {
+      expect(findPointIndex(points, "2025-01-01")).toBe(0);
+      expect(findPointIndex(points, "2025-01-05")).toBe(0);
+      expect(findPointIndex(points, "2025-01-09")).toBe(1);
+    });
+
+    it("should return -1 outside the timeline", () => {
+      expect(findPointIndex(points, "2024-12-31")).toBe(-1);
+      expect(findPointIndex(points, "2025-01-13")).toBe(-1);
+    });
+  });
+});
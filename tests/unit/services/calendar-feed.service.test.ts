@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/db/database.types";
+import {
+  formatFeedSummary,
+  generateFeedContent,
+  generateFeedToken,
+  getFeedOccurrences,
+  hashFeedToken,
+  revokeCalendarFeedToken,
+  FEED_DAYS_AHEAD,
+  FEED_DAYS_BACK,
+  type FeedOccurrence,
+} from "@/lib/services/calendar-feed.service";
+import { calendarFeedTokenSchema } from "@/lib/validation/calendar-feed.validation";
+
+// Factory for creating mock FeedOccurrence
+function createMockOccurrence(overrides: Partial<FeedOccurrence> = {}): FeedOccurrence {
+  return {
+    occurrence_id: "occ-123",
+    series_id: "series-456",
+    entry_type: "expense",
+    title: "Rent",
+    description: "Flat 2, floor 3",
+    occurrence_date: "2025-01-31",
+    amount: 2500,
+    created_at: "2025-01-01T10:00:00Z",
+    updated_at: "2025-01-02T08:30:00Z",
+    occurrence_number: 1,
+    occurrence_count: null as unknown as number, // NULL without a count; generated RPC types omit nullability
+    currency: "PLN",
+    ...overrides,
+  };
+}
+
+describe("calendar-feed.service", () => {
+  describe("generateFeedToken", () => {
+    it("should generate URL-safe tokens accepted by the token schema", () => {
+      const token = generateFeedToken();
+
+      expect(token).toHaveLength(43);
+      expect(calendarFeedTokenSchema.safeParse(token).success).toBe(true);
+    });
+
+    it("should generate a different token every time", () => {
+      expect(generateFeedToken()).not.toBe(generateFeedToken());
+    });
+  });
+
+  describe("hashFeedToken", () => {
+    it("should return the hex SHA-256 digest", async () => {
+      const hash = await hashFeedToken("abc");
+
+      expect(hash).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+    });
+  });
+
+  describe("getFeedOccurrences", () => {
+    it("should look up the feed by token hash and rolling window", async () => {
+      const occurrences = [createMockOccurrence()];
+      const rpc = vi.fn().mockResolvedValue({ data: occurrences, error: null });
+      const supabase = { rpc } as unknown as SupabaseClient<Database>;
+
+      const result = await getFeedOccurrences(supabase, "abc");
+
+      expect(result).toEqual(occurrences);
+      expect(rpc).toHaveBeenCalledWith("get_calendar_feed_occurrences", {
+        p_token_hash: "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+        p_days_back: FEED_DAYS_BACK,
+        p_days_ahead: FEED_DAYS_AHEAD,
+      });
+    });
+
+    it("should return null for unknown tokens", async () => {
+      const supabase = {
+        rpc: vi.fn().mockResolvedValue({ data: null, error: { code: "P0002", message: "Calendar feed not found" } }),
+      } as unknown as SupabaseClient<Database>;
+
+      await expect(getFeedOccurrences(supabase, "unknown")).resolves.toBeNull();
+    });
+
+    it("should throw other database errors", async () => {
+      const dbError = { code: "XX000", message: "boom" };
+      const supabase = {
+        rpc: vi.fn().mockResolvedValue({ data: null, error: dbError }),
+      } as unknown as SupabaseClient<Database>;
+
+      await expect(getFeedOccurrences(supabase, "abc")).rejects.toBe(dbError);
+    });
+  });
+
+  describe("revokeCalendarFeedToken", () => {
+    function createDeleteClient(result: { data: unknown; error: unknown }) {
+      const select = vi.fn().mockResolvedValue(result);
+      const eq = vi.fn().mockReturnValue({ select });
+      const del = vi.fn().mockReturnValue({ eq });
+      return {
+        client: { from: vi.fn().mockReturnValue({ delete: del }) } as unknown as SupabaseClient<Database>,
+        eq,
+      };
+    }
+
+    it("should return true when a token was deleted", async () => {
+      const { client, eq } = createDeleteClient({ data: [{ id: "token-1" }], error: null });
+
+      await expect(revokeCalendarFeedToken(client, "user-1")).resolves.toBe(true);
+      expect(eq).toHaveBeenCalledWith("user_id", "user-1");
+    });
+
+    it("should return false when no token existed", async () => {
+      const { client } = createDeleteClient({ data: [], error: null });
+
+      await expect(revokeCalendarFeedToken(client, "user-1")).resolves.toBe(false);
+    });
+  });
+
+  describe("formatFeedSummary", () => {
+    it("should sign amounts by entry type", () => {
+      expect(formatFeedSummary(createMockOccurrence())).toBe("Rent (-2500.00 PLN)");
+      expect(formatFeedSummary(createMockOccurrence({ entry_type: "income", title: "Salary", amount: 8000.5 }))).toBe(
+        "Salary (+8000.50 PLN)"
+      );
+    });
+
+    it("should leave transfer amounts unsigned", () => {
+      const summary = formatFeedSummary(
+        createMockOccurrence({ entry_type: "transfer", title: "Savings", amount: 500 })
+      );
+
+      expect(summary).toBe("Savings (500.00 PLN)");
+    });
+
+    it("should include progress for series with an occurrence count", () => {
+      const summary = formatFeedSummary(createMockOccurrence({ occurrence_number: 3, occurrence_count: 12 }));
+
+      expect(summary).toBe("Rent (-2500.00 PLN) · 3 of 12");
+    });
+
+    it("should show the series currency", () => {
+      const summary = formatFeedSummary(createMockOccurrence({ title: "Hosting", amount: 20, currency: "USD" }));
+
+      expect(summary).toBe("Hosting (-20.00 USD)");
+    });
+  });
+
+  describe("generateFeedContent", () => {
+    it("should render one all-day event per occurrence", () => {
+      const ics = generateFeedContent([createMockOccurrence()], new Date("2025-01-15T12:00:00Z"));
+      const lines = ics.split("\r\n");
+
+      expect(lines[0]).toBe("BEGIN:VCALENDAR");
+      expect(lines).toContain("REFRESH-INTERVAL;VALUE=DURATION:PT6H");
+      expect(lines).toContain("UID:occ-123@10x-expense-plotter");
+      expect(lines).toContain("DTSTAMP:20250115T120000Z");
+      expect(lines).toContain("LAST-MODIFIED:20250102T083000Z");
+      expect(lines).toContain("DTSTART;VALUE=DATE:20250131");
+      expect(lines).toContain("DTEND;VALUE=DATE:20250201");
+      expect(lines).toContain("SUMMARY:Rent (-2500.00 PLN)");
+      expect(lines).toContain("DESCRIPTION:Flat 2\\, floor 3");
+      expect(lines).toContain("CATEGORIES:Expense");
+      expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    });
+
+    it("should render an empty calendar when there are no occurrences", () => {
+      const ics = generateFeedContent([]);
+
+      expect(ics).not.toContain("BEGIN:VEVENT");
+      expect(ics).toContain("X-WR-CALNAME:10x Expense Plotter");
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { describe, it, expect, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { EntriesService } from "@/lib/services/entries.service";
+import type { EntrySeriesRow, FutureEditResponseDTO, UpdateEntryCommand } from "@/types";
+
+// 10 monthly installments from January to October 2026
+function createMockSeries(overrides: Partial<EntrySeriesRow> = {}): EntrySeriesRow {
+  return {
+    id: "series-1",
+    user_id: "user-1",
+    entry_type: "expense",
+    recurrence_type: "monthly",
+    title: "Laptop installment",
+    description: null,
+    amount: 500,
+    start_date: "2026-01-10",
+    end_date: "2026-10-10",
+    occurrence_count: 10,
+    weekday: null,
+    weekdays: null,
+    day_of_month: 10,
+    days_of_month: null,
+    monthly_anchor: "day_of_month",
+    week_of_month: null,
+    business_day_convention: "none",
+    holiday_calendar: "PL",
+    recurrence_interval: 1,
+    wallet_id: "wallet-1",
+    target_wallet_id: null,
+    currency: "PLN",
+    category_id: null,
+    parent_series_id: null,
+    scenario_id: null,
+    effective_range: null,
+    created_at: "2026-01-01T10:00:00Z",
+    updated_at: "2026-01-01T10:00:00Z",
+    ...overrides,
+  };
+}
+
+// The edit form sends the series back with its full occurrence count
+function createCommand(overrides: Partial<UpdateEntryCommand> = {}): UpdateEntryCommand {
+  return {
+    entry_type: "expense",
+    recurrence_type: "monthly",
+    title: "Laptop installment",
+    amount: 550,
+    start_date: "2026-01-10",
+    end_date: null,
+    occurrence_count: 10,
+    day_of_month: 10,
+    tags: [],
+    ...overrides,
+  };
+}
+
+interface MockClientOptions {
+  nominalDates?: Record<string, string>; // Nominal date of each adjusted date
+  skippedDates?: string[]; // Occurrences with a skip exception
+  today?: string;
+}
+
+/**
+ * Mock Supabase client for entry_series: reads return the current row, updates change it and inserts are recorded.
+ * The series has 10 monthly occurrences: expand_occurrences returns those not skipped within the requested range,
+ * count_series_occurrences counts all of them up to the given date, and series_nominal_date looks up the given
+ * adjusted dates.
+ */
+function createMockSupabaseClient(
+  series: EntrySeriesRow,
+  { nominalDates = {}, skippedDates = [], today = "2026-01-01" }: MockClientOptions = {}
+) {
+  let current = series;
+  const inserted: Record<string, unknown>[] = [];
+
+  const from = vi.fn((table: string) => {
+    let operation: "select" | "update" | "insert" = "select";
+    let values: Record<string, unknown> = {};
+
+    const resolve = () => {
+      if (table !== "entry_series") return { data: null, error: null };
+      if (operation === "update") {
+        current = { ...current, ...values };
+        return { data: null, error: null };
+      }
+      if (operation === "insert") {
+        inserted.push(values);
+        return { data: { ...values, id: "series-2" }, error: null };
+      }
+      return { data: current, error: null };
+    };
+
+    const query = {
+      select: () => query,
+      eq: () => query,
+      is: () => query,
+      in: () => query,
+      order: () => query,
+      update: (update: Record<string, unknown>) => {
+        operation = "update";
+        values = update;
+        return query;
+      },
+      insert: (insert: Record<string, unknown>) => {
+        operation = "insert";
+        values = insert;
+        return query;
+      },
+      single: () => Promise.resolve(resolve()),
+      then: (onFulfilled: (value: ReturnType<typeof resolve>) => unknown) =>
+        Promise.resolve(resolve()).then(onFulfilled),
+    };
+    return query;
+  });
+
+  const rpc = vi.fn((name: string, params: Record<string, string>) => {
+    if (name === "series_nominal_date")
+      return Promise.resolve({ data: nominalDates[params.p_date] ?? null, error: null });
+    if (name === "user_today") return Promise.resolve({ data: today, error: null });
+
+    const dates = Array.from({ length: 10 }, (_, index) => `2026-${String(index + 1).padStart(2, "0")}-10`);
+    if (name === "count_series_occurrences")
+      return Promise.resolve({ data: dates.filter((date) => date <= params.p_to_date).length, error: null });
+    if (name !== "expand_occurrences") return Promise.resolve({ data: null, error: null });
+
+    const occurrences = dates
+      .map((date, index) => ({ series_id: series.id, occurrence_date: date, occurrence_number: index + 1 }))
+      .filter(
+        (occ) =>
+          occ.occurrence_date >= params.p_from_date &&
+          occ.occurrence_date <= params.p_to_date &&
+          !skippedDates.includes(occ.occurrence_date)
+      );
+    return Promise.resolve({ data: occurrences, error: null });
+  });
+
+  return { supabase: { from, rpc } as unknown as SupabaseClient, inserted, getSeries: () => current };
+}
+
+describe("entries.service", () => {
+  describe("update with future scope", () => {
+    it("should give the new series the occurrences left of a count-bounded series", async () => {
+      const { supabase, inserted } = createMockSupabaseClient(createMockSeries());
+      const service = new EntriesService(supabase);
+
+      // From the 5th installment on: 4 were before the split, so 6 remain
+      const result = (await service.update(
+        "user-1",
+        "series-1",
+        createCommand(),
+        "future",
+        "2026-05-10"
+      )) as FutureEditResponseDTO;
+
+      expect(result.original_series.end_date).toBe("2026-05-09");
+      expect(inserted).toHaveLength(1);
+      expect(inserted[0]).toMatchObject({
+        start_date: "2026-05-10",
+        occurrence_count: 6,
+        amount: 550,
+        parent_series_id: "series-1",
+      });
+    });
+
+    it("should reject an occurrence count that the occurrences before the split already use", async () => {
+      const { supabase, inserted } = createMockSupabaseClient(createMockSeries());
+      const service = new EntriesService(supabase);
+
+      await expect(
+        service.update("user-1", "series-1", createCommand({ occurrence_count: 4 }), "future", "2026-05-10")
+      ).rejects.toThrow("Occurrence count must exceed the 4 occurrences before 2026-05-10");
+      expect(inserted).toEqual([]);
+    });
+
+    it("should count the skipped occurrences before the split", async () => {
+      const { supabase, inserted } = createMockSupabaseClient(createMockSeries(), { skippedDates: ["2026-04-10"] });
+      const service = new EntriesService(supabase);
+
+      // The skipped 4th installment still uses up one of the 10
+      await service.update("user-1", "series-1", createCommand(), "future", "2026-05-10");
+
+      expect(inserted[0]).toMatchObject({ start_date: "2026-05-10", occurrence_count: 6 });
+    });
+
+    it("should keep the occurrence count of the edit when the series was not count-bounded", async () => {
+      const { supabase, inserted } = createMockSupabaseClient(createMockSeries({ occurrence_count: null }));
+      const service = new EntriesService(supabase);
+
+      await service.update("user-1", "series-1", createCommand({ occurrence_count: 3 }), "future", "2026-05-10");
+
+      expect(supabase.rpc).not.toHaveBeenCalledWith("count_series_occurrences", expect.anything());
+      expect(inserted[0]).toMatchObject({ start_date: "2026-05-10", occurrence_count: 3 });
+    });
+
+    it("should split at the nominal date of an occurrence moved to a business day", async () => {
+      // The 30th, moved to the next business day: Saturday 2026-05-30 is shown on Monday 2026-06-01
+      const series = createMockSeries({
+        start_date: "2026-01-30",
+        end_date: null,
+        occurrence_count: null,
+        day_of_month: 30,
+        business_day_convention: "next",
+      });
+      const { supabase, inserted } = createMockSupabaseClient(series, { nominalDates: { "2026-06-01": "2026-05-30" } });
+      const service = new EntriesService(supabase);
+
+      const result = (await service.update(
+        "user-1",
+        "series-1",
+        createCommand({ amount: 1500, occurrence_count: null, day_of_month: 30, business_day_convention: "next" }),
+        "future",
+        "2026-06-01"
+      )) as FutureEditResponseDTO;
+
+      expect(result.original_series.end_date).toBe("2026-05-29");
+      expect(inserted[0]).toMatchObject({ start_date: "2026-05-30", amount: 1500 });
+    });
+  });
+
+  describe("findById", () => {
+    it("should count the skipped occurrences up to today in the progress", async () => {
+      const { supabase } = createMockSupabaseClient(createMockSeries(), {
+        skippedDates: ["2026-05-10"],
+        today: "2026-05-15",
+      });
+      const service = new EntriesService(supabase);
+
+      const result = await service.findById("user-1", "series-1");
+
+      expect(result?.progress).toEqual({ completed_occurrences: 5, total_occurrences: 10 });
+    });
+  });
+
+  describe("delete with future scope", () => {
+    it("should end the series before the nominal date of an occurrence moved to a business day", async () => {
+      const series = createMockSeries({
+        start_date: "2026-01-30",
+        end_date: null,
+        occurrence_count: null,
+        day_of_month: 30,
+        business_day_convention: "next",
+      });
+      const { supabase, getSeries } = createMockSupabaseClient(series, {
+        nominalDates: { "2026-06-01": "2026-05-30" },
+      });
+      const service = new EntriesService(supabase);
+
+      await service.delete("user-1", "series-1", "future", "2026-06-01");
+
+      expect(getSeries().end_date).toBe("2026-05-29");
+    });
+  });
+});
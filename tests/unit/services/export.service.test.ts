@@ -4,10 +4,13 @@ import {
   generateCSVExport,
   escapeCsvField,
   formatCsvRow,
+  formatCsvRows,
   generateCSVContent,
   generateCSVFilename,
   type CSVOccurrence,
 } from "@/lib/services/export.service";
+import { createCurrencyConverter } from "@/lib/utils/currency.utils";
+import { createFormatter } from "@/lib/utils/format.utils";
 
 // Factory for creating mock CSVOccurrence
 function createMockOccurrence(overrides: Partial<CSVOccurrence> = {}): CSVOccurrence {
@@ -21,6 +24,8 @@ function createMockOccurrence(overrides: Partial<CSVOccurrence> = {}): CSVOccurr
     amount: 100.5,
     created_at: "2025-01-01T10:00:00Z",
     updated_at: "2025-01-01T12:00:00Z",
+    currency: "PLN",
+    category_id: null,
     ...overrides,
   };
 }
@@ -133,6 +138,18 @@ describe("export.service", () => {
       expect(result).not.toContain("-1500.00");
     });
 
+    it("should format a transfer leg with the given sign", () => {
+      const occurrence = createMockOccurrence({
+        entry_type: "transfer",
+        amount: 500,
+      });
+
+      const result = formatCsvRow(occurrence, undefined, undefined, -1);
+
+      expect(result).toContain(",transfer,");
+      expect(result).toContain(",-500.00,");
+    });
+
     it("should escape title with special characters", () => {
       const occurrence = createMockOccurrence({
         title: 'Expense, with "quotes"',
@@ -171,7 +188,7 @@ describe("export.service", () => {
       const result = formatCsvRow(occurrence);
 
       expect(result).toMatchInlineSnapshot(
-        `"occ-001,ser-002,income,Salary,Monthly,2025-02-01,5000.00,2025-01-15T08:00:00Z,2025-01-15T09:00:00Z"`
+        `"occ-001,ser-002,income,Salary,Monthly,2025-02-01,5000.00,2025-01-15T08:00:00Z,2025-01-15T09:00:00Z,5000.00,PLN"`
       );
     });
 
@@ -185,6 +202,79 @@ describe("export.service", () => {
 
       expect(result).toContain("100.00");
     });
+
+    it("should convert amount into the base currency and keep the original", () => {
+      const converter = createCurrencyConverter("PLN", [
+        { currency: "EUR", rate_date: "2025-01-01", rate: 4.3 },
+      ]);
+      const occurrence = createMockOccurrence({
+        entry_type: "expense",
+        amount: 100,
+        currency: "EUR",
+      });
+
+      const fields = formatCsvRow(occurrence, converter).split(",");
+
+      expect(fields[6]).toBe("-430.00");
+      expect(fields.slice(-2)).toEqual(["-100.00", "EUR"]);
+    });
+
+    it("should throw when the currency has no exchange rate", () => {
+      const occurrence = createMockOccurrence({ currency: "USD" });
+
+      expect(() => formatCsvRow(occurrence)).toThrow(
+        "No exchange rate for USD to PLN"
+      );
+    });
+
+    it("should follow the number locale and date format of a formatter", () => {
+      const formatter = createFormatter({
+        number_locale: "pl-PL",
+        date_format: "dd.MM.yyyy",
+      });
+      const occurrence = createMockOccurrence({
+        entry_type: "expense",
+        amount: 1234.5,
+      });
+
+      const result = formatCsvRow(occurrence, undefined, formatter);
+
+      expect(result).toBe(
+        'occ-123,series-456,expense,Test Expense,Test description,15.01.2025,"-1234,50",2025-01-01T10:00:00Z,2025-01-01T12:00:00Z,"-1234,50",PLN'
+      );
+    });
+
+    it("should quote formatted dates that contain a comma", () => {
+      const formatter = createFormatter({
+        number_locale: "en-US",
+        date_format: "MMM d, yyyy",
+      });
+
+      const fields = formatCsvRow(createMockOccurrence(), undefined, formatter);
+
+      expect(fields).toContain(',"Jan 15, 2025",-100.50,');
+    });
+  });
+
+  describe("formatCsvRows", () => {
+    it("should format income and expenses as one row", () => {
+      const occurrence = createMockOccurrence({ entry_type: "expense" });
+
+      expect(formatCsvRows(occurrence)).toEqual([formatCsvRow(occurrence)]);
+    });
+
+    it("should format a transfer as a debit and a credit row", () => {
+      const occurrence = createMockOccurrence({
+        entry_type: "transfer",
+        amount: 500,
+      });
+
+      const amounts = formatCsvRows(occurrence).map(
+        (row) => row.split(",")[6]
+      );
+
+      expect(amounts).toEqual(["-500.00", "500.00"]);
+    });
   });
 
   describe("generateCSVContent", () => {
@@ -194,10 +284,18 @@ describe("export.service", () => {
       const result = generateCSVContent(occurrences);
 
       expect(result).toBe(
-        "occurrence_id,series_id,type,title,description,date,amount_pln,created_at,updated_at"
+        "occurrence_id,series_id,type,title,description,date,amount_pln,created_at,updated_at,original_amount,original_currency"
       );
     });
 
+    it("should name the amount column after the base currency", () => {
+      const converter = createCurrencyConverter("EUR", []);
+
+      const result = generateCSVContent([], converter);
+
+      expect(result).toContain(",date,amount_eur,created_at,");
+    });
+
     it("should generate CSV with header and data rows", () => {
       const occurrences = [
         createMockOccurrence({ occurrence_id: "1", title: "First" }),
@@ -227,6 +325,23 @@ describe("export.service", () => {
       expect(lines[2]).toContain("B");
       expect(lines[3]).toContain("C");
     });
+
+    it("should cancel out the legs of a transfer in the amount column", () => {
+      const occurrences = [
+        createMockOccurrence({ entry_type: "income", amount: 3000 }),
+        createMockOccurrence({ entry_type: "transfer", amount: 500 }),
+        createMockOccurrence({ entry_type: "expense", amount: 1200 }),
+      ];
+
+      const lines = generateCSVContent(occurrences).split("\n").slice(1);
+      const total = lines.reduce(
+        (sum, line) => sum + Number(line.split(",")[6]),
+        0
+      );
+
+      expect(lines).toHaveLength(4);
+      expect(total).toBe(1800);
+    });
   });
 
   describe("generateCSVFilename", () => {
@@ -362,6 +477,49 @@ describe("export.service", () => {
       expect(result).toEqual([]);
     });
 
+    it("should filter by categories", async () => {
+      const mockOccurrences = [
+        createMockOccurrence({ occurrence_id: "1", category_id: "housing" }),
+        createMockOccurrence({ occurrence_id: "2", category_id: "rent" }),
+        createMockOccurrence({ occurrence_id: "3", category_id: "food" }),
+        createMockOccurrence({ occurrence_id: "4", category_id: null }),
+      ];
+      const supabase = createMockSupabaseClient({
+        data: mockOccurrences,
+        error: null,
+      });
+
+      const result = await generateCSVExport(
+        supabase,
+        mockUserId,
+        mockFromDate,
+        mockToDate,
+        undefined,
+        ["housing", "rent"]
+      );
+
+      expect(result.map((occ) => occ.occurrence_id)).toEqual(["1", "2"]);
+    });
+
+    it("should return empty array for an empty category filter", async () => {
+      const mockOccurrences = [createMockOccurrence({ category_id: "food" })];
+      const supabase = createMockSupabaseClient({
+        data: mockOccurrences,
+        error: null,
+      });
+
+      const result = await generateCSVExport(
+        supabase,
+        mockUserId,
+        mockFromDate,
+        mockToDate,
+        undefined,
+        []
+      );
+
+      expect(result).toEqual([]);
+    });
+
     it("should throw error when RPC fails", async () => {
       const supabase = createMockSupabaseClient({
         data: null,
@@ -0,0 +1,547 @@
+import { describe, it, expect, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  convertICSToEntries,
+  escapeICSText,
+  foldICSLine,
+  generateICSContent,
+  getFirstOccurrenceDate,
+  hasExactRRule,
+  importICS,
+  parseICS,
+  parseICSDate,
+  unescapeICSText,
+} from "@/lib/services/ical.service";
+import type { EntrySeriesRow, SeriesExceptionRow } from "@/types";
+
+const NOW = new Date("2025-01-01T12:00:00Z");
+
+// Factory for creating mock EntrySeriesRow
+function createMockSeries(overrides: Partial<EntrySeriesRow> = {}): EntrySeriesRow {
+  return {
+    id: "series-1",
+    user_id: "user-1",
+    parent_series_id: null,
+    entry_type: "expense",
+    recurrence_type: "monthly",
+    title: "Rent",
+    description: null,
+    amount: 2500,
+    start_date: "2025-01-10",
+    end_date: null,
+    occurrence_count: null,
+    weekday: null,
+    weekdays: null,
+    day_of_month: 10,
+    days_of_month: null,
+    monthly_anchor: "day_of_month",
+    week_of_month: null,
+    business_day_convention: "none",
+    holiday_calendar: "PL",
+    recurrence_interval: 1,
+    effective_range: null,
+    scenario_id: null,
+    wallet_id: "wallet-1",
+    target_wallet_id: null,
+    currency: "PLN",
+    category_id: null,
+    created_at: "2025-01-01T10:00:00Z",
+    updated_at: "2025-01-01T10:00:00Z",
+    ...overrides,
+  };
+}
+
+// Factory for creating mock SeriesExceptionRow
+function createMockException(overrides: Partial<SeriesExceptionRow> = {}): SeriesExceptionRow {
+  return {
+    id: "exception-1",
+    user_id: "user-1",
+    series_id: "series-1",
+    scenario_id: null,
+    exception_date: "2025-02-10",
+    exception_type: "skip",
+    title: null,
+    description: null,
+    amount: null,
+    category_id: null,
+    override_tags: false,
+    created_at: "2025-01-01T10:00:00Z",
+    updated_at: "2025-01-01T10:00:00Z",
+    ...overrides,
+  };
+}
+
+function exportSeries(
+  series: EntrySeriesRow[],
+  exceptions: SeriesExceptionRow[] = [],
+  occurrenceDates = new Map<string, string[]>()
+): string {
+  return generateICSContent({ series, exceptions, occurrenceDates }, NOW);
+}
+
+// Unfolded content lines of every property with the given name
+function eventLines(ics: string, name: string): string[] {
+  return ics
+    .replace(/\r\n /g, "")
+    .split("\r\n")
+    .filter((line) => line.startsWith(`${name}:`) || line.startsWith(`${name};`));
+}
+
+function calendar(...eventLines: string[][]): string {
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Test//EN",
+    ...eventLines.flatMap((lines) => ["BEGIN:VEVENT", ...lines, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ].join("\r\n");
+}
+
+describe("ical.service", () => {
+  describe("text helpers", () => {
+    it("should escape and unescape TEXT values", () => {
+      const text = "Rent; flat 2, floor 3\nPaid by transfer \\ standing order";
+
+      const escaped = escapeICSText(text);
+
+      expect(escaped).toBe("Rent\\; flat 2\\, floor 3\\nPaid by transfer \\\\ standing order");
+      expect(unescapeICSText(escaped)).toBe(text);
+    });
+
+    it("should fold long lines at 75 octets without splitting multi-byte characters", () => {
+      const line = `SUMMARY:${"Zażółć gęślą jaźń ".repeat(10)}`;
+
+      const folded = foldICSLine(line);
+      const chunks = folded.split("\r\n");
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach((chunk) => expect(new TextEncoder().encode(chunk).length).toBeLessThanOrEqual(75));
+      expect(folded.replace(/\r\n /g, "")).toBe(line);
+    });
+
+    it("should parse DATE and DATE-TIME values", () => {
+      expect(parseICSDate("20250115")).toEqual({ date: "2025-01-15", hasTime: false });
+      expect(parseICSDate("20250115T090000Z")).toEqual({ date: "2025-01-15", hasTime: true });
+      expect(parseICSDate("20250230")).toBeNull();
+      expect(parseICSDate("2025-01-15")).toBeNull();
+    });
+
+    it("should parse nested components with quoted parameters and folded lines", () => {
+      const components = parseICS(
+        'BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nDTSTART;TZID="Europe/Warsaw:Local":20250115T090000\r\nSUMMARY:Long\r\n  title\r\nEND:VEVENT\r\nEND:VCALENDAR'
+      );
+
+      const event = components[0].components[0];
+      expect(event.name).toBe("VEVENT");
+      expect(event.properties[0]).toEqual({
+        name: "DTSTART",
+        params: { TZID: "Europe/Warsaw:Local" },
+        value: "20250115T090000",
+      });
+      expect(event.properties[1].value).toBe("Long title");
+    });
+  });
+
+  describe("getFirstOccurrenceDate", () => {
+    it("should return the earliest weekday of a multi-weekday series on or after start_date", () => {
+      const date = getFirstOccurrenceDate({
+        recurrence_type: "weekly",
+        start_date: "2025-01-08", // Wednesday
+        weekday: 1,
+        weekdays: [1, 5],
+      });
+
+      expect(date).toBe("2025-01-10");
+    });
+
+    it("should move to the next interval when the start week has no remaining weekday", () => {
+      const date = getFirstOccurrenceDate({
+        recurrence_type: "weekly",
+        recurrence_interval: 2,
+        start_date: "2025-01-10", // Friday
+        weekday: 1,
+      });
+
+      expect(date).toBe("2025-01-20");
+    });
+
+    it("should clamp day 31 to the last day of a shorter month", () => {
+      const date = getFirstOccurrenceDate({
+        recurrence_type: "monthly",
+        start_date: "2025-02-01",
+        day_of_month: 31,
+      });
+
+      expect(date).toBe("2025-02-28");
+    });
+
+    it("should resolve nth and last weekday anchors", () => {
+      const second = getFirstOccurrenceDate({
+        recurrence_type: "monthly",
+        start_date: "2025-01-01",
+        monthly_anchor: "nth_weekday",
+        weekday: 2,
+        week_of_month: 2,
+      });
+      const last = getFirstOccurrenceDate({
+        recurrence_type: "quarterly",
+        start_date: "2025-01-31",
+        monthly_anchor: "last_weekday",
+        weekday: 5,
+      });
+
+      expect(second).toBe("2025-01-14");
+      expect(last).toBe("2025-01-31");
+    });
+  });
+
+  describe("generateICSContent", () => {
+    it("should wrap events in a VCALENDAR with CRLF line endings", () => {
+      const ics = exportSeries([createMockSeries()]);
+
+      expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+      expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+      expect(ics).toContain("UID:series-1@10x-expense-plotter");
+      expect(ics).toContain("DTSTAMP:20250101T120000Z");
+      expect(ics).toContain("X-EXPENSE-PLOTTER-AMOUNT:2500.00");
+      expect(ics).toContain("X-EXPENSE-PLOTTER-ENTRY-TYPE:expense");
+    });
+
+    it("should export a one-time entry without RRULE", () => {
+      const ics = exportSeries([createMockSeries({ recurrence_type: "one_time", day_of_month: null })]);
+
+      expect(eventLines(ics, "DTSTART")).toEqual(["DTSTART;VALUE=DATE:20250110"]);
+      expect(eventLines(ics, "RRULE")).toEqual([]);
+    });
+
+    it("should export weekly series with interval and weekday list", () => {
+      const ics = exportSeries([
+        createMockSeries({
+          recurrence_type: "weekly",
+          recurrence_interval: 2,
+          start_date: "2025-01-06",
+          weekday: 1,
+          weekdays: [1, 4],
+          day_of_month: null,
+          occurrence_count: 10,
+        }),
+      ]);
+
+      expect(eventLines(ics, "RRULE")).toEqual(["RRULE:FREQ=WEEKLY;INTERVAL=2;WKST=MO;BYDAY=MO,TH;COUNT=10"]);
+    });
+
+    it("should export quarterly series as every three months starting on the first occurrence", () => {
+      const ics = exportSeries([createMockSeries({ recurrence_type: "quarterly", start_date: "2025-01-15" })]);
+
+      expect(eventLines(ics, "DTSTART")).toEqual(["DTSTART;VALUE=DATE:20250410"]);
+      expect(eventLines(ics, "RRULE")).toEqual(["RRULE:FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=10"]);
+    });
+
+    it("should pin yearly series to the month of the first occurrence", () => {
+      const ics = exportSeries([
+        createMockSeries({ recurrence_type: "yearly", start_date: "2025-03-10", end_date: "2030-12-31" }),
+      ]);
+
+      expect(eventLines(ics, "RRULE")).toEqual(["RRULE:FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=10;UNTIL=20301231"]);
+    });
+
+    it("should express days after the 28th as the last available day", () => {
+      const ics = exportSeries([createMockSeries({ day_of_month: 30, start_date: "2025-01-30" })]);
+
+      expect(eventLines(ics, "RRULE")).toEqual(["RRULE:FREQ=MONTHLY;BYMONTHDAY=28,29,30;BYSETPOS=-1"]);
+    });
+
+    it("should export weekday and last-day anchors", () => {
+      const ics = exportSeries([
+        createMockSeries({ id: "a", monthly_anchor: "nth_weekday", weekday: 2, week_of_month: 2, day_of_month: null }),
+        createMockSeries({ id: "b", monthly_anchor: "last_weekday", weekday: 5, day_of_month: null }),
+        createMockSeries({ id: "c", monthly_anchor: "last_day", day_of_month: null }),
+      ]);
+
+      expect(eventLines(ics, "RRULE")).toEqual([
+        "RRULE:FREQ=MONTHLY;BYDAY=2TU",
+        "RRULE:FREQ=MONTHLY;BYDAY=-1FR",
+        "RRULE:FREQ=MONTHLY;BYMONTHDAY=-1",
+      ]);
+    });
+
+    it("should export skips as EXDATE and overrides as RECURRENCE-ID events", () => {
+      const ics = exportSeries(
+        [createMockSeries()],
+        [
+          createMockException(),
+          createMockException({
+            id: "exception-2",
+            exception_date: "2025-03-10",
+            exception_type: "override",
+            amount: 2700,
+            title: "Rent, raised",
+          }),
+        ]
+      );
+
+      expect(eventLines(ics, "EXDATE")).toEqual(["EXDATE;VALUE=DATE:20250210"]);
+      expect(eventLines(ics, "RECURRENCE-ID")).toEqual(["RECURRENCE-ID;VALUE=DATE:20250310"]);
+      expect(eventLines(ics, "SUMMARY")).toEqual(["SUMMARY:Rent", "SUMMARY:Rent\\, raised"]);
+      expect(eventLines(ics, "X-EXPENSE-PLOTTER-AMOUNT")).toEqual([
+        "X-EXPENSE-PLOTTER-AMOUNT:2500.00",
+        "X-EXPENSE-PLOTTER-AMOUNT:2700.00",
+      ]);
+    });
+
+    it("should list adjusted dates for business-day series and keep the model rule", () => {
+      const series = createMockSeries({ business_day_convention: "next", occurrence_count: 3 });
+      const ics = exportSeries([series], [], new Map([["series-1", ["2025-01-10", "2025-02-10", "2025-03-10"]]]));
+
+      expect(hasExactRRule(series)).toBe(false);
+      expect(eventLines(ics, "RRULE")).toEqual([]);
+      expect(eventLines(ics, "RDATE")).toEqual(["RDATE;VALUE=DATE:20250210,20250310"]);
+      expect(eventLines(ics, "X-EXPENSE-PLOTTER-RRULE")).toEqual([
+        "X-EXPENSE-PLOTTER-RRULE:FREQ=MONTHLY;BYMONTHDAY=10;COUNT=3",
+      ]);
+      expect(eventLines(ics, "X-EXPENSE-PLOTTER-BUSINESS-DAY-CONVENTION")).toEqual([
+        "X-EXPENSE-PLOTTER-BUSINESS-DAY-CONVENTION:next",
+      ]);
+    });
+
+    it("should fall back to explicit dates for several days of month after the 28th", () => {
+      const series = createMockSeries({ day_of_month: 15, days_of_month: [15, 31] });
+
+      expect(hasExactRRule(series)).toBe(false);
+    });
+
+    it("should omit series that end before their first occurrence", () => {
+      const ics = exportSeries([createMockSeries({ start_date: "2025-01-11", end_date: "2025-02-01" })]);
+
+      expect(ics).not.toContain("BEGIN:VEVENT");
+    });
+  });
+
+  describe("convertICSToEntries", () => {
+    it("should round-trip the series currency", () => {
+      const ics = exportSeries([createMockSeries({ currency: "EUR" })]);
+
+      expect(ics).toContain("X-EXPENSE-PLOTTER-CURRENCY:EUR");
+      expect(convertICSToEntries(ics).candidates[0].command).toMatchObject({ currency: "EUR" });
+    });
+
+    it("should round-trip exported series, skips and overrides", () => {
+      const ics = exportSeries(
+        [
+          createMockSeries({ occurrence_count: 12 }),
+          createMockSeries({
+            id: "series-2",
+            entry_type: "income",
+            recurrence_type: "weekly",
+            title: "Salary",
+            description: "Net, after tax",
+            start_date: "2025-01-06",
+            weekday: 1,
+            weekdays: [1, 3],
+            day_of_month: null,
+            recurrence_interval: 2,
+          }),
+        ],
+        [
+          createMockException(),
+          createMockException({ exception_date: "2025-03-10", exception_type: "override", amount: 2700 }),
+        ]
+      );
+
+      const { candidates, skipped } = convertICSToEntries(ics);
+
+      expect(skipped).toEqual([]);
+      expect(candidates).toHaveLength(2);
+      expect(candidates[0].warnings).toEqual([]);
+      expect(candidates[0].command).toMatchObject({
+        entry_type: "expense",
+        recurrence_type: "monthly",
+        title: "Rent",
+        amount: 2500,
+        start_date: "2025-01-10",
+        day_of_month: 10,
+        occurrence_count: 12,
+      });
+      expect(candidates[0].exceptions).toEqual([
+        { exception_date: "2025-02-10", exception_type: "skip", title: null, description: null, amount: null },
+        { exception_date: "2025-03-10", exception_type: "override", title: "Rent", description: null, amount: 2700 },
+      ]);
+      expect(candidates[1].command).toMatchObject({
+        entry_type: "income",
+        recurrence_type: "weekly",
+        description: "Net, after tax",
+        weekday: 1,
+        weekdays: [1, 3],
+        recurrence_interval: 2,
+      });
+    });
+
+    it("should restore business-day series from the model rule", () => {
+      const ics = exportSeries(
+        [createMockSeries({ start_date: "2025-01-01", business_day_convention: "previous" })],
+        [],
+        new Map([["series-1", ["2025-01-10", "2025-02-10"]]])
+      );
+
+      const { candidates } = convertICSToEntries(ics);
+
+      expect(candidates[0].command).toMatchObject({
+        start_date: "2025-01-01",
+        recurrence_type: "monthly",
+        day_of_month: 10,
+        business_day_convention: "previous",
+      });
+    });
+
+    it("should map the last-available-day pattern back to a single day", () => {
+      const ics = exportSeries([createMockSeries({ day_of_month: 31, start_date: "2025-01-31" })]);
+
+      const { candidates } = convertICSToEntries(ics);
+
+      expect(candidates[0].command).toMatchObject({ day_of_month: 31, days_of_month: null });
+      expect(candidates[0].warnings).toEqual([]);
+    });
+
+    it("should report unsupported recurrence features instead of dropping them", () => {
+      const base = ["DTSTART;VALUE=DATE:20250106", "X-EXPENSE-PLOTTER-AMOUNT:10"];
+      const ics = calendar(
+        ["UID:daily", "SUMMARY:Coffee", ...base, "RRULE:FREQ=DAILY"],
+        ["UID:weekno", "SUMMARY:Audit", ...base, "RRULE:FREQ=YEARLY;BYWEEKNO=20"],
+        ["UID:fifth", "SUMMARY:Club", ...base, "RRULE:FREQ=MONTHLY;BYDAY=5MO"],
+        ["UID:exrule", "SUMMARY:Gym", ...base, "RRULE:FREQ=WEEKLY", "EXRULE:FREQ=MONTHLY"],
+        ["UID:rdate", "SUMMARY:Extra", ...base, "RRULE:FREQ=WEEKLY", "RDATE;VALUE=DATE:20250110"]
+      );
+
+      const { candidates, skipped } = convertICSToEntries(ics);
+
+      expect(candidates).toEqual([]);
+      expect(skipped.map((event) => event.uid)).toEqual(["daily", "weekno", "fifth", "exrule", "rdate"]);
+      expect(skipped.find((event) => event.uid === "daily")?.reasons).toEqual([
+        "FREQ=DAILY is not supported; only weekly, monthly and yearly rules are",
+      ]);
+      expect(skipped.find((event) => event.uid === "weekno")?.reasons).toEqual([
+        "BYWEEKNO is not supported in recurrence rules",
+      ]);
+      expect(skipped.find((event) => event.uid === "fifth")?.reasons).toEqual([
+        "BYDAY=5MO is not supported; only the 1st-4th and the last weekday of the month are",
+      ]);
+      expect(skipped.find((event) => event.uid === "exrule")?.reasons).toEqual([
+        "EXRULE is not supported; use EXDATE to exclude single dates",
+      ]);
+      expect(skipped.find((event) => event.uid === "rdate")?.reasons).toEqual([
+        "RDATE (extra dates outside the recurrence rule) is not supported",
+      ]);
+    });
+
+    it("should skip events without an amount", () => {
+      const ics = calendar(["UID:meeting", "SUMMARY:Meeting", "DTSTART:20250106T090000Z"]);
+
+      const { skipped } = convertICSToEntries(ics);
+
+      expect(skipped).toEqual([
+        {
+          uid: "meeting",
+          title: "Meeting",
+          reasons: ["Event has no X-EXPENSE-PLOTTER-AMOUNT property, so its amount is unknown"],
+        },
+      ]);
+    });
+
+    it("should warn about approximations", () => {
+      const ics = calendar(
+        [
+          "UID:gym",
+          "SUMMARY:Gym",
+          "DTSTART:20250107T180000Z",
+          "RRULE:FREQ=MONTHLY;BYMONTHDAY=15,30",
+          "X-EXPENSE-PLOTTER-AMOUNT:120",
+        ],
+        ["UID:gym", "RECURRENCE-ID;VALUE=DATE:20250215", "DTSTART;VALUE=DATE:20250217", "SUMMARY:Gym"],
+        ["UID:gym", "RECURRENCE-ID;VALUE=DATE:20250315", "STATUS:CANCELLED"]
+      );
+
+      const { candidates } = convertICSToEntries(ics);
+
+      expect(candidates[0].command).toMatchObject({ entry_type: "expense", day_of_month: 15, days_of_month: [15, 30] });
+      expect(candidates[0].warnings).toEqual([
+        "The time of day was ignored; entries are imported as all-day dates",
+        "Event has no X-EXPENSE-PLOTTER-ENTRY-TYPE property and was imported as an expense",
+        "Days after the 28th fall on the last day of shorter months instead of being skipped",
+        "DTSTART 2025-01-07 does not match the recurrence rule; the series starts with 2025-01-15 instead",
+        "The occurrence on 2025-02-15 was moved to 2025-02-17; moved occurrences are not supported and the change was not imported",
+      ]);
+      expect(candidates[0].exceptions).toEqual([
+        { exception_date: "2025-03-15", exception_type: "skip", title: null, description: null, amount: null },
+      ]);
+    });
+
+    it("should report changed occurrences without a recurring event", () => {
+      const ics = calendar(["UID:orphan", "SUMMARY:Orphan", "RECURRENCE-ID;VALUE=DATE:20250215"]);
+
+      const { skipped } = convertICSToEntries(ics);
+
+      expect(skipped).toEqual([
+        { uid: "orphan", title: "Orphan", reasons: ["Changed occurrence has no matching recurring event"] },
+      ]);
+    });
+  });
+
+  describe("importICS", () => {
+    it("should create series with exceptions and report validation failures", async () => {
+      const created = createMockSeries({ id: "new-series" });
+      const exceptionInsert = vi.fn().mockResolvedValue({ error: null });
+      const supabase = {
+        from: vi.fn((table: string) => {
+          if (table === "entry_series") {
+            return {
+              insert: vi.fn().mockReturnValue({
+                select: vi.fn().mockReturnValue({
+                  single: vi.fn().mockResolvedValue({ data: created, error: null }),
+                }),
+              }),
+            };
+          }
+          if (table === "series_exceptions") {
+            return { insert: exceptionInsert };
+          }
+          return { insert: vi.fn().mockResolvedValue({ error: null }) };
+        }),
+      } as unknown as SupabaseClient;
+
+      const ics = calendar(
+        [
+          "UID:rent",
+          "SUMMARY:Rent",
+          "DTSTART;VALUE=DATE:20250110",
+          "RRULE:FREQ=MONTHLY;BYMONTHDAY=10",
+          "EXDATE;VALUE=DATE:20250210",
+          "X-EXPENSE-PLOTTER-AMOUNT:2500",
+          "X-EXPENSE-PLOTTER-ENTRY-TYPE:expense",
+        ],
+        [
+          "UID:free",
+          "SUMMARY:Free trial",
+          "DTSTART;VALUE=DATE:20250110",
+          "X-EXPENSE-PLOTTER-AMOUNT:0",
+          "X-EXPENSE-PLOTTER-ENTRY-TYPE:expense",
+        ]
+      );
+
+      const result = await importICS(supabase, "user-1", ics);
+
+      expect(result.imported).toEqual([{ uid: "rent", series_id: "new-series", title: "Rent", warnings: [] }]);
+      expect(result.skipped).toEqual([
+        { uid: "free", title: "Free trial", reasons: ["amount: Number must be greater than 0"] },
+      ]);
+      expect(exceptionInsert).toHaveBeenCalledWith({
+        exception_date: "2025-02-10",
+        exception_type: "skip",
+        title: null,
+        description: null,
+        amount: null,
+        series_id: "new-series",
+        user_id: "user-1",
+      });
+    });
+  });
+});
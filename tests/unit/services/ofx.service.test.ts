@@ -0,0 +1,226 @@
+import { describe, it, expect } from "vitest";
+import {
+  escapeOFXText,
+  formatOFXTransaction,
+  generateOFXContent,
+  generateOFXFilename,
+  parseOFX,
+} from "@/lib/services/ofx.service";
+import type { CSVOccurrence } from "@/lib/services/export.service";
+import { createCurrencyConverter } from "@/lib/utils/currency.utils";
+
+function createMockOccurrence(overrides: Partial<CSVOccurrence> = {}): CSVOccurrence {
+  return {
+    occurrence_id: "occ-123",
+    series_id: "series-456",
+    entry_type: "expense",
+    title: "Rent",
+    description: null,
+    occurrence_date: "2026-10-10",
+    amount: 2500,
+    created_at: "2026-01-01T10:00:00Z",
+    updated_at: "2026-01-01T12:00:00Z",
+    currency: "PLN",
+    category_id: null,
+    ...overrides,
+  };
+}
+
+// OFX 1.02 (SGML): leaf elements have no end tag
+const SGML_STATEMENT = [
+  "OFXHEADER:100",
+  "DATA:OFXSGML",
+  "VERSION:102",
+  "",
+  "<OFX>",
+  "<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0<SEVERITY>INFO</STATUS><DTSERVER>20261019</SONRS></SIGNONMSGSRSV1>",
+  "<BANKMSGSRSV1>",
+  "<STMTTRNRS>",
+  "<TRNUID>1",
+  "<STMTRS>",
+  "<CURDEF>USD",
+  "<BANKACCTFROM><BANKID>121000248<ACCTID>123456789<ACCTTYPE>CHECKING</BANKACCTFROM>",
+  "<BANKTRANLIST>",
+  "<DTSTART>20261001<DTEND>20261019",
+  "<STMTTRN>",
+  "<TRNTYPE>DEBIT",
+  "<DTPOSTED>20261005120000.000[-5:EST]",
+  "<TRNAMT>-42.10",
+  "<FITID>1001",
+  "<NAME>WHOLE FOODS &amp; CO",
+  "<MEMO>Groceries",
+  "</STMTTRN>",
+  "<STMTTRN>",
+  "<TRNTYPE>CREDIT",
+  "<DTPOSTED>20261015",
+  "<TRNAMT>2000,00",
+  "<FITID>1002",
+  "<NAME>PAYROLL",
+  "<CURRENCY><CURRATE>1.0<CURSYM>EUR</CURRENCY>",
+  "</STMTTRN>",
+  "</BANKTRANLIST>",
+  "<LEDGERBAL><BALAMT>3957.90<DTASOF>20261019</LEDGERBAL>",
+  "</STMTRS>",
+  "</STMTTRNRS>",
+  "</BANKMSGSRSV1>",
+  "</OFX>",
+].join("\r\n");
+
+describe("ofx.service", () => {
+  describe("parseOFX", () => {
+    it("should read an OFX 1.x statement", () => {
+      const { statement, errors } = parseOFX(SGML_STATEMENT);
+
+      expect(errors).toEqual([]);
+      expect(statement.account).toBe("123456789");
+      expect(statement.opening_balance).toBeNull();
+      expect(statement.closing_balance).toEqual({ date: "2026-10-19", amount: 3957.9, currency: "USD" });
+      expect(statement.transactions).toEqual([
+        { row: 15, date: "2026-10-05", amount: -42.1, description: "WHOLE FOODS & CO · Groceries", currency: "USD" },
+        { row: 23, date: "2026-10-15", amount: 2000, description: "PAYROLL", currency: "EUR" },
+      ]);
+    });
+
+    it("should read credit card statements", () => {
+      const { statement, errors } = parseOFX(
+        [
+          "<OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS><CURDEF>PLN</CURDEF>",
+          "<CCACCTFROM><ACCTID>4111</ACCTID></CCACCTFROM>",
+          "<BANKTRANLIST><STMTTRN><DTPOSTED>20261002</DTPOSTED><TRNAMT>-9.99</TRNAMT>",
+          "<NAME>Spotify</NAME></STMTTRN></BANKTRANLIST>",
+          "</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>",
+        ].join("\n")
+      );
+
+      expect(errors).toEqual([]);
+      expect(statement.account).toBe("4111");
+      expect(statement.transactions).toEqual([
+        { row: 3, date: "2026-10-02", amount: -9.99, description: "Spotify", currency: "PLN" },
+      ]);
+    });
+
+    it("should read back its own export", () => {
+      const content = generateOFXContent(
+        [
+          createMockOccurrence({ title: "Monthly rent for the flat in Krakow", description: "Transfer to landlord" }),
+          createMockOccurrence({ occurrence_id: "occ-2", entry_type: "income", title: "Salary", amount: 8000 }),
+        ],
+        { fromDate: "2026-10-01", toDate: "2026-10-31", today: "2026-10-19" }
+      );
+
+      const { statement, errors } = parseOFX(content);
+
+      expect(errors).toEqual([]);
+      expect(statement.closing_balance).toEqual({ date: "2026-10-31", amount: 5500, currency: "PLN" });
+      expect(statement.transactions.map(({ amount, description }) => ({ amount, description }))).toEqual([
+        { amount: -2500, description: "Monthly rent for the flat in Krakow · Transfer to landlord" },
+        { amount: 8000, description: "Salary" },
+      ]);
+    });
+
+    it("should report malformed transactions with their lines", () => {
+      const { errors } = parseOFX(
+        SGML_STATEMENT.replace("<TRNAMT>-42.10", "<TRNAMT>-42.1O").replace("<DTPOSTED>20261015", "<DTPOSTED>20261315")
+      );
+
+      expect(errors).toEqual([
+        { line: 18, message: 'Amount "-42.1O" is not a valid amount' },
+        { line: 25, message: 'Posting date "20261315" is not a valid date' },
+      ]);
+    });
+
+    it("should report missing fields", () => {
+      const { errors } = parseOFX(SGML_STATEMENT.replace("<CURDEF>USD\r\n", "").replace("<TRNAMT>2000,00\r\n", ""));
+
+      expect(errors).toEqual([
+        { line: 10, message: "Default currency (CURDEF) is missing or invalid" },
+        { line: 22, message: "Amount (TRNAMT) is missing" },
+      ]);
+    });
+
+    it("should report an aggregate that is not closed", () => {
+      const { errors } = parseOFX(SGML_STATEMENT.replace("</STMTTRN>\r\n</BANKTRANLIST>", "</BANKTRANLIST>"));
+
+      expect(errors).toEqual([{ line: 30, message: "Expected </STMTTRN> but found </BANKTRANLIST>" }]);
+    });
+
+    it("should report a statement request the bank rejected", () => {
+      const { errors } = parseOFX(
+        "<OFX><BANKMSGSRSV1><STMTTRNRS><STATUS><CODE>2000<MESSAGE>Account not found</STATUS></STMTTRNRS></BANKMSGSRSV1></OFX>"
+      );
+
+      expect(errors).toEqual([{ line: 1, message: "The bank returned no statement: Account not found" }]);
+    });
+
+    it("should reject files that are not OFX", () => {
+      expect(parseOFX("!Type:Bank\n^").errors).toEqual([
+        { line: 1, message: "Not an OFX file: the <OFX> element is missing" },
+      ]);
+      expect(parseOFX("<OFX><SIGNONMSGSRSV1></SIGNONMSGSRSV1></OFX>").errors).toEqual([
+        { line: 1, message: "The file contains no bank or credit card statement" },
+      ]);
+    });
+  });
+
+  describe("escapeOFXText", () => {
+    it("should escape markup characters and keep the text on one line", () => {
+      expect(escapeOFXText(" Fish & <Chips>\n shop ")).toBe("Fish &amp; &lt;Chips&gt; shop");
+    });
+  });
+
+  describe("formatOFXTransaction", () => {
+    it("should sign expenses and convert into the base currency", () => {
+      const converter = createCurrencyConverter("PLN", [{ currency: "EUR", rate_date: "2026-01-01", rate: 4.25 }]);
+
+      const lines = formatOFXTransaction(createMockOccurrence({ amount: 10, currency: "EUR" }), converter);
+
+      expect(lines).toEqual([
+        "<STMTTRN>",
+        "  <TRNTYPE>DEBIT</TRNTYPE>",
+        "  <DTPOSTED>20261010</DTPOSTED>",
+        "  <TRNAMT>-42.50</TRNAMT>",
+        "  <FITID>occ-123</FITID>",
+        "  <NAME>Rent</NAME>",
+        "</STMTTRN>",
+      ]);
+    });
+
+    it("should cut the name to 32 characters and keep the full title in the memo", () => {
+      const title = "Quarterly property tax for the house";
+
+      const lines = formatOFXTransaction(createMockOccurrence({ title, description: "Gmina" }));
+
+      expect(lines).toContain("  <NAME>Quarterly property tax for the h</NAME>");
+      expect(lines).toContain(`  <MEMO>${title} · Gmina</MEMO>`);
+    });
+
+    it("should throw when an exchange rate is missing", () => {
+      expect(() => formatOFXTransaction(createMockOccurrence({ currency: "USD" }))).toThrow("No exchange rate");
+    });
+  });
+
+  describe("generateOFXContent", () => {
+    it("should list income and expenses as one account in the base currency, without transfers", () => {
+      const content = generateOFXContent(
+        [
+          createMockOccurrence(),
+          createMockOccurrence({ occurrence_id: "occ-2", entry_type: "transfer", title: "Savings", amount: 500 }),
+        ],
+        { fromDate: "2026-10-01", toDate: "2026-10-31", today: "2026-10-19" }
+      );
+
+      expect(content).toContain('<?OFX OFXHEADER="200" VERSION="220"');
+      expect(content).toContain("<DTSERVER>20261019</DTSERVER>");
+      expect(content).toContain("<CURDEF>PLN</CURDEF>");
+      expect(content).toContain("<DTSTART>20261001</DTSTART>");
+      expect(content).toContain("<BALAMT>-2500.00</BALAMT>");
+      expect(content).not.toContain("Savings");
+    });
+  });
+
+  describe("generateOFXFilename", () => {
+    it("should name the file after the given date", () => {
+      expect(generateOFXFilename("2026-10-19")).toBe("10x-expense-plotter-export-2026-10-19.ofx");
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatQIFTransaction,
+  generateQIFContent,
+  generateQIFFilename,
+  parseQIF,
+  parseQIFDate,
+  toQIFDate,
+} from "@/lib/services/qif.service";
+import type { CSVOccurrence } from "@/lib/services/export.service";
+import { createCurrencyConverter } from "@/lib/utils/currency.utils";
+
+function createMockOccurrence(overrides: Partial<CSVOccurrence> = {}): CSVOccurrence {
+  return {
+    occurrence_id: "occ-123",
+    series_id: "series-456",
+    entry_type: "expense",
+    title: "Rent",
+    description: null,
+    occurrence_date: "2026-10-10",
+    amount: 2500,
+    created_at: "2026-01-01T10:00:00Z",
+    updated_at: "2026-01-01T12:00:00Z",
+    currency: "PLN",
+    category_id: null,
+    ...overrides,
+  };
+}
+
+const QUICKEN_EXPORT = [
+  "!Account",
+  "NChecking",
+  "TBank",
+  "^",
+  "!Type:Bank",
+  "D10/ 1'26",
+  "T1,500.00",
+  "POpening Balance",
+  "L[Checking]",
+  "^",
+  "D10/ 5'26",
+  "T-1,234.56",
+  "PLandlord",
+  "MOctober rent",
+  "LHousing:Rent",
+  "^",
+  "D10/7'26",
+  "T-80.00",
+  "PSupermarket",
+  "SFood",
+  "$-50.00",
+  "SHousehold",
+  "$-30.00",
+  "^",
+].join("\r\n");
+
+describe("qif.service", () => {
+  describe("parseQIF", () => {
+    it("should read the transactions of a Quicken export, leaving out the opening balance", () => {
+      const { statement, errors } = parseQIF(QUICKEN_EXPORT);
+
+      expect(errors).toEqual([]);
+      expect(statement.account).toBe("Checking");
+      expect(statement.opening_balance).toBeNull();
+      expect(statement.closing_balance).toBeNull();
+      expect(statement.transactions).toEqual([
+        { row: 11, date: "2026-10-05", amount: -1234.56, description: "Landlord · October rent", currency: null },
+        // Splits are kept as one transaction with the total amount
+        { row: 17, date: "2026-10-07", amount: -80, description: "Supermarket", currency: null },
+      ]);
+    });
+
+    it("should read day-first dates when a day is above 12", () => {
+      const { statement, errors } = parseQIF("!Type:CCard\nD05/10/2026\nT-10\n^\nD19/10/2026\nT-20,50\n^\n");
+
+      expect(errors).toEqual([]);
+      expect(statement.transactions.map(({ date, amount }) => ({ date, amount }))).toEqual([
+        { date: "2026-10-05", amount: -10 },
+        { date: "2026-10-19", amount: -20.5 },
+      ]);
+    });
+
+    it("should skip category lists", () => {
+      const { statement, errors } = parseQIF("!Type:Cat\nNFood\nE\n^\n!Type:Cash\nD2026-10-19\nT-5\nPBakery\n^");
+
+      expect(errors).toEqual([]);
+      expect(statement.transactions).toEqual([
+        { row: 6, date: "2026-10-19", amount: -5, description: "Bakery", currency: null },
+      ]);
+    });
+
+    it("should report malformed records with their lines", () => {
+      const { errors } = parseQIF(
+        "!Type:Bank\nD02/30/2026\nT-5\n^\nD10/19/2026\nTabc\n^\nPNo date\nT1\n^\nD10/19/2026"
+      );
+
+      expect(errors).toEqual([
+        { line: 11, message: "Record is not ended with ^" },
+        { line: 2, message: 'Date "02/30/2026" is not a valid date' },
+        { line: 5, message: 'Amount "abc" is not a valid amount' },
+        { line: 8, message: "Date (D) is missing" },
+      ]);
+    });
+
+    it("should report investment accounts and unknown headers", () => {
+      const { errors } = parseQIF("!Type:Invst\nD10/19/2026\n^\n!Type:Memorised\n^\n!Type:Bank\n");
+
+      expect(errors).toEqual([
+        { line: 1, message: "Investment accounts (!Type:Invst) are not supported" },
+        { line: 4, message: 'Unknown header "!Type:Memorised"' },
+      ]);
+    });
+
+    it("should report a file without accounts", () => {
+      expect(parseQIF("D10/19/2026\nT-5\n^").errors).toEqual([
+        { line: 1, message: "Text before the first header (such as !Type:Bank)" },
+      ]);
+      expect(parseQIF("!Type:Cat\nNFood\n^").errors).toEqual([
+        { line: 1, message: "The file contains no bank, cash or credit card account (!Type:Bank...)" },
+      ]);
+    });
+
+    it("should read back its own export in both date formats", () => {
+      const occurrences = [
+        createMockOccurrence({ occurrence_date: "2026-10-01", description: "Flat\nKrakow" }),
+        createMockOccurrence({ entry_type: "income", title: "Salary", amount: 8000.5, occurrence_date: "2026-10-02" }),
+      ];
+
+      for (const dateFormat of ["MDY", "DMY"] as const) {
+        const { statement, errors } = parseQIF(generateQIFContent(occurrences, dateFormat));
+
+        expect(errors).toEqual([]);
+        expect(statement.transactions.map(({ date, amount, description }) => ({ date, amount, description }))).toEqual([
+          { date: "2026-10-01", amount: -2500, description: "Rent · Flat Krakow" },
+          { date: "2026-10-02", amount: 8000.5, description: "Salary" },
+        ]);
+      }
+    });
+  });
+
+  describe("parseQIFDate", () => {
+    it("should read Quicken's apostrophe years as 2000s", () => {
+      expect(parseQIFDate("1/ 2'99", "MDY")).toBe("2099-01-02");
+      expect(parseQIFDate("1/2/99", "MDY")).toBe("1999-01-02");
+    });
+
+    it("should follow the given order of day and month", () => {
+      expect(parseQIFDate("03/04/2026", "MDY")).toBe("2026-03-04");
+      expect(parseQIFDate("03/04/2026", "DMY")).toBe("2026-04-03");
+      expect(parseQIFDate("2026-03-04", "DMY")).toBe("2026-03-04");
+    });
+
+    it("should return null for an invalid date", () => {
+      expect(parseQIFDate("02/30/2026", "MDY")).toBeNull();
+      expect(parseQIFDate("2026-10", "MDY")).toBeNull();
+    });
+  });
+
+  describe("toQIFDate", () => {
+    it("should write month-first dates with slashes and day-first dates with dots", () => {
+      expect(toQIFDate("2026-10-05")).toBe("10/05/2026");
+      expect(toQIFDate("2026-10-05", "DMY")).toBe("05.10.2026");
+    });
+  });
+
+  describe("formatQIFTransaction", () => {
+    it("should sign expenses and convert into the base currency", () => {
+      const converter = createCurrencyConverter("PLN", [{ currency: "EUR", rate_date: "2026-01-01", rate: 4.25 }]);
+
+      const lines = formatQIFTransaction(
+        createMockOccurrence({ amount: 10, currency: "EUR", description: "Deposit" }),
+        "MDY",
+        converter
+      );
+
+      expect(lines).toEqual(["D10/10/2026", "T-42.50", "PRent", "MDeposit", "^"]);
+    });
+  });
+
+  describe("generateQIFContent", () => {
+    it("should write one bank account without transfers", () => {
+      const content = generateQIFContent([
+        createMockOccurrence(),
+        createMockOccurrence({ entry_type: "transfer", title: "Savings", amount: 500 }),
+      ]);
+
+      expect(content).toBe("!Type:Bank\nD10/10/2026\nT-2500.00\nPRent\n^\n");
+    });
+  });
+
+  describe("generateQIFFilename", () => {
+    it("should name the file after the given date", () => {
+      expect(generateQIFFilename("2026-10-19")).toBe("10x-expense-plotter-export-2026-10-19.qif");
+    });
+  });
+});
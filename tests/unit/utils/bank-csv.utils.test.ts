@@ -0,0 +1,231 @@
+import { describe, it, expect } from "vitest";
+import {
+  defaultCSVMapping,
+  detectBankCSVFormat,
+  detectCSVDelimiter,
+  parseCSVRecords,
+  parseStatementAmount,
+  parseStatementDate,
+  readCSVTransactions,
+} from "@/lib/utils/bank-csv.utils";
+import type { CSVColumnMapping } from "@/types";
+
+const MBANK_CSV = [
+  "mBank S.A. Bankowość Detaliczna;",
+  "#Za okres:;",
+  "01.10.2026;19.10.2026;",
+  "",
+  "#Data operacji;#Opis operacji;#Rachunek;#Kategoria;#Kwota;#Saldo po operacji;",
+  '2026-10-02;"BIEDRONKA 123  WARSZAWA";"eKonto 1111 ... 2222";"Żywność";-84,37 PLN;"1 915,63 PLN";',
+  '2026-10-10;"WYNAGRODZENIE ACME SP. Z O.O.";"eKonto 1111 ... 2222";"Wpływy";"8 500,00 PLN";"10 415,63 PLN";',
+  "",
+  "#Saldo końcowe;10 415,63 PLN;",
+].join("\n");
+
+const PKO_CSV = [
+  '"Data operacji","Data waluty","Typ transakcji","Kwota","Waluta","Saldo po transakcji","Opis transakcji","",""',
+  '"2026-10-03","2026-10-03","Płatność kartą","-45.20","PLN","+954.80","Tytuł: ORLEN 77","Lokalizacja: Kraków",""',
+  '"2026-10-05","2026-10-05","Przelew na konto","+1200.00","PLN","+2154.80","Rachunek nadawcy: 12 3456","Nazwa nadawcy: Jan Kowalski","Tytuł: Zwrot"',
+].join("\r\n");
+
+const ING_CSV = [
+  '"Lista transakcji";',
+  '"Data transakcji";"Data księgowania";"Dane kontrahenta";"Tytuł";"Nr rachunku";"Nazwa banku";"Szczegóły";"Nr transakcji";"Kwota transakcji (waluta rachunku)";"Waluta";"Kwota blokady/zwolnienie blokady";"Waluta";"Kwota płatności w walucie";"Waluta";"Saldo po transakcji";"Waluta";',
+  '2026-10-07;2026-10-08;"  NETFLIX.COM  ";"Subskrypcja";"";"";"";"123";-43,00;PLN;;;;;1000,00;PLN;',
+].join("\n");
+
+const mapping = (overrides: Partial<CSVColumnMapping> = {}): CSVColumnMapping => ({
+  delimiter: ",",
+  skip_rows: 1,
+  date_column: 0,
+  date_format: "YYYY-MM-DD",
+  amount_column: 1,
+  debit_column: null,
+  sign_convention: "negative_is_expense",
+  decimal_separator: ".",
+  description_columns: [2],
+  currency_column: null,
+  ...overrides,
+});
+
+describe("bank-csv.utils", () => {
+  describe("parseCSVRecords", () => {
+    it("should handle quoted fields with delimiters, doubled quotes and line breaks", () => {
+      const content = '\uFEFFa,"b, c","say ""hi""","two\nlines"\r\nd,e\n';
+
+      expect(parseCSVRecords(content, ",")).toEqual([
+        ["a", "b, c", 'say "hi"', "two\nlines"],
+        ["d", "e"],
+      ]);
+    });
+  });
+
+  describe("detectCSVDelimiter", () => {
+    it("should pick the delimiter that splits lines into the most fields", () => {
+      expect(detectCSVDelimiter("date;amount;title\n2026-10-01;-1,50;Coffee")).toBe(";");
+      expect(detectCSVDelimiter("date\tamount\n2026-10-01\t-1.50")).toBe("\t");
+      expect(detectCSVDelimiter("date,amount\n2026-10-01,-1.50")).toBe(",");
+    });
+  });
+
+  describe("detectBankCSVFormat", () => {
+    it("should recognize an mBank statement below its preamble", () => {
+      const detected = detectBankCSVFormat(MBANK_CSV);
+
+      expect(detected?.format).toBe("mbank");
+      expect(detected?.mapping).toMatchObject({
+        delimiter: ";",
+        skip_rows: 5,
+        date_column: 0,
+        amount_column: 4,
+        decimal_separator: ",",
+        description_columns: [1],
+        currency_column: null,
+      });
+    });
+
+    it("should recognize a PKO BP statement with its unnamed detail columns", () => {
+      const detected = detectBankCSVFormat(PKO_CSV);
+
+      expect(detected?.format).toBe("pko_bp");
+      expect(detected?.mapping).toMatchObject({
+        delimiter: ",",
+        skip_rows: 1,
+        amount_column: 3,
+        currency_column: 4,
+        decimal_separator: ".",
+        description_columns: [6, 7, 8],
+      });
+    });
+
+    it("should recognize an ING statement and take the account currency column", () => {
+      const detected = detectBankCSVFormat(ING_CSV);
+
+      expect(detected?.format).toBe("ing");
+      expect(detected?.mapping).toMatchObject({
+        delimiter: ";",
+        skip_rows: 2,
+        amount_column: 8,
+        currency_column: 9,
+        description_columns: [2, 3],
+      });
+    });
+
+    it("should return null for other files", () => {
+      expect(detectBankCSVFormat("date,amount,title\n2026-10-01,-1.50,Coffee")).toBeNull();
+    });
+  });
+
+  describe("defaultCSVMapping", () => {
+    it("should use the detected delimiter and a header row", () => {
+      expect(defaultCSVMapping("date;amount;title")).toMatchObject({ delimiter: ";", skip_rows: 1 });
+    });
+  });
+
+  describe("parseStatementDate", () => {
+    it("should parse each date format", () => {
+      expect(parseStatementDate("2026-10-05", "YYYY-MM-DD")).toBe("2026-10-05");
+      expect(parseStatementDate("5.10.2026", "DD.MM.YYYY")).toBe("2026-10-05");
+      expect(parseStatementDate("05-10-2026", "DD-MM-YYYY")).toBe("2026-10-05");
+      expect(parseStatementDate("05/10/2026", "DD/MM/YYYY")).toBe("2026-10-05");
+      expect(parseStatementDate("10/05/2026", "MM/DD/YYYY")).toBe("2026-10-05");
+    });
+
+    it("should ignore a time after the date", () => {
+      expect(parseStatementDate("2026-10-05 14:30:00", "YYYY-MM-DD")).toBe("2026-10-05");
+    });
+
+    it("should reject dates in another format or that do not exist", () => {
+      expect(parseStatementDate("2026-10-05", "DD.MM.YYYY")).toBeNull();
+      expect(parseStatementDate("31.02.2026", "DD.MM.YYYY")).toBeNull();
+      expect(parseStatementDate("", "YYYY-MM-DD")).toBeNull();
+    });
+  });
+
+  describe("parseStatementAmount", () => {
+    it("should parse amounts with a decimal comma, thousands separators and a currency", () => {
+      expect(parseStatementAmount("-1 234,56 PLN", ",")).toBe(-1234.56);
+      expect(parseStatementAmount("1.234,56", ",")).toBe(1234.56);
+      expect(parseStatementAmount("1 234,56", ",")).toBe(1234.56);
+    });
+
+    it("should parse amounts with a decimal dot and an explicit sign", () => {
+      expect(parseStatementAmount("+1,234.56", ".")).toBe(1234.56);
+      expect(parseStatementAmount("-45.20", ".")).toBe(-45.2);
+    });
+
+    it("should return null for text that is not a number", () => {
+      expect(parseStatementAmount("n/a", ".")).toBeNull();
+      expect(parseStatementAmount("", ".")).toBeNull();
+    });
+  });
+
+  describe("readCSVTransactions", () => {
+    it("should read a detected mBank statement and skip its footer", () => {
+      const detected = detectBankCSVFormat(MBANK_CSV);
+      if (!detected) throw new Error("Statement not recognized");
+      const { transactions, errors } = readCSVTransactions(MBANK_CSV, detected.mapping);
+
+      expect(transactions).toEqual([
+        { row: 6, date: "2026-10-02", amount: -84.37, description: "BIEDRONKA 123 WARSZAWA", currency: null },
+        { row: 7, date: "2026-10-10", amount: 8500, description: "WYNAGRODZENIE ACME SP. Z O.O.", currency: null },
+      ]);
+      expect(errors).toEqual([
+        { row: 9, reasons: ['Date "#Saldo końcowe" does not match YYYY-MM-DD', "Amount is empty"] },
+      ]);
+    });
+
+    it("should join the description columns of a PKO BP statement", () => {
+      const detected = detectBankCSVFormat(PKO_CSV);
+      if (!detected) throw new Error("Statement not recognized");
+      const { transactions } = readCSVTransactions(PKO_CSV, detected.mapping);
+
+      expect(transactions[1]).toEqual({
+        row: 3,
+        date: "2026-10-05",
+        amount: 1200,
+        description: "Rachunek nadawcy: 12 3456 · Nazwa nadawcy: Jan Kowalski · Tytuł: Zwrot",
+        currency: "PLN",
+      });
+    });
+
+    it("should flip the sign when positive amounts are expenses", () => {
+      const { transactions } = readCSVTransactions(
+        "date,amount,title\n2026-10-01,12.50,Coffee",
+        mapping({ sign_convention: "positive_is_expense" })
+      );
+
+      expect(transactions[0].amount).toBe(-12.5);
+    });
+
+    it("should take debits as expenses with separate debit and credit columns", () => {
+      const { transactions, errors } = readCSVTransactions(
+        "date,credit,debit,title\n2026-10-01,,12.50,Coffee\n2026-10-02,100.00,,Refund\n2026-10-03,,,Nothing",
+        mapping({ sign_convention: "debit_credit", debit_column: 2, description_columns: [3] })
+      );
+
+      expect(transactions.map((t) => t.amount)).toEqual([-12.5, 100]);
+      expect(errors).toEqual([{ row: 4, reasons: ["Amount is empty"] }]);
+    });
+
+    it("should report every unreadable field of a row", () => {
+      const { transactions, errors } = readCSVTransactions(
+        "date,amount,title,currency\n2026-13-01,abc,Coffee,złoty\n2026-10-01,0,Zero,PLN",
+        mapping({ currency_column: 3 })
+      );
+
+      expect(transactions).toEqual([]);
+      expect(errors).toEqual([
+        {
+          row: 2,
+          reasons: [
+            'Date "2026-13-01" does not match YYYY-MM-DD',
+            'Amount "abc" is not a number',
+            'Currency "ZŁOTY" is not a 3-letter code',
+          ],
+        },
+        { row: 3, reasons: ["Amount is zero"] },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { monthDateRange, summarizeBudgets } from "@/lib/utils/budget.utils";
+
+// Housing > Rent, Transport
+const categories = [
+  { id: "housing", parent_id: null },
+  { id: "rent", parent_id: "housing" },
+  { id: "transport", parent_id: null },
+];
+
+describe("budget.utils", () => {
+  describe("monthDateRange", () => {
+    it("should return the first and last day of the month", () => {
+      expect(monthDateRange("2026-10")).toEqual({ from_date: "2026-10-01", to_date: "2026-10-31" });
+    });
+
+    it("should end February on the 29th in a leap year", () => {
+      expect(monthDateRange("2028-02")).toEqual({ from_date: "2028-02-01", to_date: "2028-02-29" });
+    });
+  });
+
+  describe("summarizeBudgets", () => {
+    it("should count the expenses of subcategories towards the budget", () => {
+      // Act
+      const [status] = summarizeBudgets(
+        [{ id: "b1", category_id: "housing", tag_id: null, amount: 3000 }],
+        categories,
+        [
+          { category_id: "housing", tags: [], amount: 200, settled: true },
+          { category_id: "rent", tags: [], amount: 2500, settled: false },
+          { category_id: "transport", tags: [], amount: 100, settled: false },
+          { category_id: null, tags: [], amount: 50, settled: false },
+        ]
+      );
+
+      // Assert
+      expect(status).toEqual({
+        budget_id: "b1",
+        category_id: "housing",
+        tag_id: null,
+        budgeted: 3000,
+        planned: 2700,
+        spent: 200,
+        remaining: 300,
+        overspend: 0,
+      });
+    });
+
+    it("should report the projected overspend", () => {
+      // Act
+      const [status] = summarizeBudgets(
+        [{ id: "b1", category_id: "transport", tag_id: null, amount: 100 }],
+        categories,
+        [
+          { category_id: "transport", tags: [], amount: 80.1, settled: true },
+          { category_id: "transport", tags: [], amount: 40.2, settled: false },
+        ]
+      );
+
+      // Assert
+      expect(status.planned).toBe(120.3);
+      expect(status.spent).toBe(80.1);
+      expect(status.remaining).toBe(-20.3);
+      expect(status.overspend).toBe(20.3);
+    });
+
+    it("should not count a parent's expenses towards a subcategory budget", () => {
+      // Act
+      const [status] = summarizeBudgets([{ id: "b1", category_id: "rent", tag_id: null, amount: 2500 }], categories, [
+        { category_id: "housing", tags: [], amount: 200, settled: false },
+      ]);
+
+      // Assert
+      expect(status.planned).toBe(0);
+      expect(status.remaining).toBe(2500);
+    });
+
+    it("should count the expenses with a tag budget's tag across categories", () => {
+      // Act
+      const [status] = summarizeBudgets(
+        [{ id: "b1", category_id: null, tag_id: "tag-1", amount: 1000 }],
+        categories,
+        [
+          { category_id: "transport", tags: ["vacation-2026"], amount: 300, settled: true },
+          { category_id: null, tags: ["reimbursable", "vacation-2026"], amount: 500, settled: false },
+          { category_id: "transport", tags: ["reimbursable"], amount: 100, settled: false },
+        ],
+        [{ id: "tag-1", name: "vacation-2026" }]
+      );
+
+      // Assert
+      expect(status).toMatchObject({ category_id: null, tag_id: "tag-1", planned: 800, spent: 300, remaining: 200 });
+    });
+
+    it("should list the largest share of the budget first", () => {
+      // Act
+      const statuses = summarizeBudgets(
+        [
+          { id: "b1", category_id: "housing", tag_id: null, amount: 1000 },
+          { id: "b2", category_id: "transport", tag_id: null, amount: 100 },
+        ],
+        categories,
+        [
+          { category_id: "housing", tags: [], amount: 500, settled: false },
+          { category_id: "transport", tags: [], amount: 90, settled: false },
+        ]
+      );
+
+      // Assert
+      expect(statuses.map((status) => status.budget_id)).toEqual(["b2", "b1"]);
+    });
+  });
+});
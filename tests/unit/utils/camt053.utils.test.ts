@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { parseCamt053 } from "@/lib/utils/camt053.utils";
+
+const entry = (amount: string, indicator: string, date: string, details: string, status = "<Sts><Cd>BOOK</Cd></Sts>") =>
+  `      <Ntry>
+        <Amt Ccy="PLN">${amount}</Amt>
+        <CdtDbtInd>${indicator}</CdtDbtInd>
+        ${status}
+        <BookgDt><Dt>${date}</Dt></BookgDt>
+        ${details}
+      </Ntry>`;
+
+const document = (entries: string[], closing = "1064.50") => `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.08">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Acct><Id><IBAN>PL61109010140000071219812874</IBAN></Id></Acct>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="PLN">1000.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2026-10-01</Dt></Dt>
+      </Bal>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="PLN">${closing}</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2026-10-31</Dt></Dt>
+      </Bal>
+${entries.join("\n")}
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+const DEBIT = entry(
+  "35.50",
+  "DBIT",
+  "2026-10-05",
+  `<NtryDtls><TxDtls>
+          <RltdPties><Cdtr><Pty><Nm>Orlen S.A.</Nm></Pty></Cdtr></RltdPties>
+          <RmtInf><Ustrd>Fuel &amp; wash</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>`
+);
+const CREDIT = entry("100.00", "CRDT", "2026-10-10", "<AddtlNtryInf>Refund</AddtlNtryInf>");
+
+describe("camt053.utils", () => {
+  describe("parseCamt053", () => {
+    it("should read the account, balances and booked entries", () => {
+      const { statement, errors } = parseCamt053(document([DEBIT, CREDIT]));
+
+      expect(errors).toEqual([]);
+      expect(statement.account).toBe("PL61109010140000071219812874");
+      expect(statement.opening_balance).toEqual({ date: "2026-10-01", amount: 1000, currency: "PLN" });
+      expect(statement.closing_balance).toEqual({ date: "2026-10-31", amount: 1064.5, currency: "PLN" });
+      expect(statement.transactions).toEqual([
+        { row: 18, date: "2026-10-05", amount: -35.5, description: "Orlen S.A. · Fuel & wash", currency: "PLN" },
+        { row: 28, date: "2026-10-10", amount: 100, description: "Refund", currency: "PLN" },
+      ]);
+    });
+
+    it("should leave out pending entries", () => {
+      const pending = entry("20.00", "DBIT", "2026-10-30", "", "<Sts>PDNG</Sts>");
+
+      const { statement, errors } = parseCamt053(document([DEBIT, CREDIT, pending]));
+
+      expect(errors).toEqual([]);
+      expect(statement.transactions).toHaveLength(2);
+    });
+
+    it("should report malformed entries with their lines", () => {
+      const broken = entry("12,00", "DEBIT", "2026-02-30", "");
+
+      const { errors } = parseCamt053(document([broken], "1000.00"));
+
+      expect(errors).toEqual([
+        { line: 19, message: 'Amount "12,00" is not a valid amount' },
+        { line: 20, message: 'Credit/debit indicator "DEBIT" must be CRDT or DBIT' },
+        { line: 22, message: 'Booking date "2026-02-30" is not a valid date' },
+      ]);
+    });
+
+    it("should report a closing balance that does not add up", () => {
+      const { errors } = parseCamt053(document([DEBIT], "1000.00"));
+
+      expect(errors).toEqual([
+        {
+          line: 12,
+          message: "Closing balance 1000.00 does not match the opening balance plus the transactions (964.50)",
+        },
+      ]);
+    });
+
+    it("should report invalid XML with its line", () => {
+      const { errors } = parseCamt053(
+        '<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">\n<Stmt>\n</Document>'
+      );
+
+      expect(errors).toEqual([{ line: 3, message: "Invalid XML: Expected </Stmt> but found </Document>" }]);
+    });
+
+    it("should reject other XML documents", () => {
+      const { errors } = parseCamt053('<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.09"/>');
+
+      expect(errors).toEqual([
+        { line: 1, message: "Not a camt.053 document: expected a Document in a camt.053 namespace" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { categorySubtreeIds, flattenCategoryTree, rollUpCategoryTotals } from "@/lib/utils/category.utils";
+
+// Housing > Rent > Deposit, Housing > Utilities, Transport
+const categories = [
+  { id: "transport", parent_id: null, name: "Transport" },
+  { id: "utilities", parent_id: "housing", name: "Utilities" },
+  { id: "deposit", parent_id: "rent", name: "Deposit" },
+  { id: "housing", parent_id: null, name: "Housing" },
+  { id: "rent", parent_id: "housing", name: "Rent" },
+];
+
+describe("category.utils", () => {
+  describe("categorySubtreeIds", () => {
+    it("should include subcategories at any depth", () => {
+      expect(categorySubtreeIds(categories, "housing").sort()).toEqual(["deposit", "housing", "rent", "utilities"]);
+    });
+
+    it("should return only the category itself for a leaf", () => {
+      expect(categorySubtreeIds(categories, "transport")).toEqual(["transport"]);
+    });
+
+    it("should return nothing for an unknown category", () => {
+      expect(categorySubtreeIds(categories, "food")).toEqual([]);
+    });
+  });
+
+  describe("flattenCategoryTree", () => {
+    it("should list parents before their subcategories, siblings by name", () => {
+      // Act
+      const result = flattenCategoryTree(categories);
+
+      // Assert
+      expect(result.map(({ category, depth }) => [category.id, depth])).toEqual([
+        ["housing", 0],
+        ["rent", 1],
+        ["deposit", 2],
+        ["utilities", 1],
+        ["transport", 0],
+      ]);
+    });
+  });
+
+  describe("rollUpCategoryTotals", () => {
+    it("should sum subcategory totals into their top-level category", () => {
+      // Act
+      const result = rollUpCategoryTotals(categories, [
+        { category_id: "rent", total_income: 0, total_expense: 2000 },
+        { category_id: "deposit", total_income: 0, total_expense: 500.1 },
+        { category_id: "utilities", total_income: 0, total_expense: 300.2 },
+        { category_id: "transport", total_income: 0, total_expense: 150 },
+      ]);
+
+      // Assert
+      expect(result).toEqual([
+        { category_id: "housing", total_income: 0, total_expense: 2800.3 },
+        { category_id: "transport", total_income: 0, total_expense: 150 },
+      ]);
+    });
+
+    it("should list uncategorized totals last", () => {
+      // Act
+      const result = rollUpCategoryTotals(categories, [
+        { category_id: null, total_income: 5000, total_expense: 900 },
+        { category_id: "transport", total_income: 0, total_expense: 150 },
+      ]);
+
+      // Assert
+      expect(result.map((total) => total.category_id)).toEqual(["transport", null]);
+    });
+
+    it("should count unknown categories as uncategorized", () => {
+      // Act
+      const result = rollUpCategoryTotals(categories, [
+        { category_id: "deleted", total_income: 0, total_expense: 50 },
+        { category_id: null, total_income: 100, total_expense: 0 },
+      ]);
+
+      // Assert
+      expect(result).toEqual([{ category_id: null, total_income: 100, total_expense: 50 }]);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { createCurrencyConverter } from "@/lib/utils/currency.utils";
+
+describe("currency.utils", () => {
+  describe("createCurrencyConverter", () => {
+    const rates = [
+      { currency: "EUR", rate_date: "2025-03-01", rate: 4.2 },
+      { currency: "EUR", rate_date: "2025-01-01", rate: 4.3 },
+      { currency: "USD", rate_date: "2025-01-01", rate: 3.95 },
+    ];
+
+    it("should leave base currency amounts unchanged", () => {
+      // Arrange
+      const converter = createCurrencyConverter("PLN", rates);
+
+      // Act & Assert
+      expect(converter.baseCurrency).toBe("PLN");
+      expect(converter.toBase(123.45, "PLN", "2025-02-01")).toBe(123.45);
+    });
+
+    it("should use the latest rate on or before the date", () => {
+      // Arrange
+      const converter = createCurrencyConverter("PLN", rates);
+
+      // Act & Assert
+      expect(converter.toBase(100, "EUR", "2025-02-28")).toBe(430);
+      expect(converter.toBase(100, "EUR", "2025-03-01")).toBe(420);
+      expect(converter.toBase(100, "EUR", "2026-01-01")).toBe(420);
+    });
+
+    it("should use the earliest rate before the first rate date", () => {
+      // Arrange
+      const converter = createCurrencyConverter("PLN", rates);
+
+      // Act & Assert
+      expect(converter.toBase(100, "EUR", "2024-06-01")).toBe(430);
+    });
+
+    it("should round converted amounts to cents", () => {
+      // Arrange
+      const converter = createCurrencyConverter("PLN", rates);
+
+      // Act & Assert
+      expect(converter.toBase(10.01, "USD", "2025-01-15")).toBe(39.54);
+      expect(converter.toBase(-10.01, "USD", "2025-01-15")).toBe(-39.54);
+    });
+
+    it("should ignore rates for the base currency", () => {
+      // Arrange
+      const converter = createCurrencyConverter("EUR", rates);
+
+      // Act & Assert
+      expect(converter.toBase(100, "EUR", "2025-01-15")).toBe(100);
+    });
+
+    it("should throw when a currency has no rate", () => {
+      // Arrange
+      const converter = createCurrencyConverter("PLN", rates);
+
+      // Act & Assert
+      expect(() => converter.toBase(100, "GBP", "2025-01-15")).toThrow("No exchange rate for GBP to PLN");
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { isValidTimeZone, maxProjectionDate, todayInTimeZone } from "@/lib/utils/date.utils";
+
+describe("date.utils", () => {
+  describe("todayInTimeZone", () => {
+    it("should return the calendar date in the given time zone", () => {
+      // Arrange - 23:30 UTC on Jan 15 is already Jan 16 in Warsaw but still Jan 15 in New York
+      const now = new Date("2025-01-15T23:30:00Z");
+
+      // Act & Assert
+      expect(todayInTimeZone("Europe/Warsaw", now)).toBe("2025-01-16");
+      expect(todayInTimeZone("America/New_York", now)).toBe("2025-01-15");
+      expect(todayInTimeZone("UTC", now)).toBe("2025-01-15");
+    });
+
+    it("should be behind UTC for time zones west of it just after midnight UTC", () => {
+      expect(todayInTimeZone("America/Los_Angeles", new Date("2025-03-01T02:00:00Z"))).toBe("2025-02-28");
+    });
+  });
+
+  describe("isValidTimeZone", () => {
+    it("should accept IANA time zone names", () => {
+      expect(isValidTimeZone("Europe/Warsaw")).toBe(true);
+      expect(isValidTimeZone("America/Argentina/Buenos_Aires")).toBe(true);
+      expect(isValidTimeZone("UTC")).toBe(true);
+    });
+
+    it("should reject unknown time zones", () => {
+      expect(isValidTimeZone("Europe/Atlantis")).toBe(false);
+      expect(isValidTimeZone("")).toBe(false);
+    });
+  });
+
+  describe("maxProjectionDate", () => {
+    it("should be 10 years after today", () => {
+      expect(maxProjectionDate("2025-01-15")).toBe("2035-01-15");
+    });
+
+    it("should move Feb 29 to Feb 28 when the target year is not a leap year", () => {
+      expect(maxProjectionDate("2024-02-29")).toBe("2034-02-28");
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { createFormatter, DEFAULT_FORMAT_PREFERENCES } from "@/lib/utils/format.utils";
+
+describe("format.utils", () => {
+  describe("createFormatter", () => {
+    it("should format like before when using the defaults", () => {
+      // Arrange
+      const formatter = createFormatter(DEFAULT_FORMAT_PREFERENCES);
+
+      // Act & Assert
+      expect(formatter.currency(1234.5, "PLN")).toBe(
+        (1234.5).toLocaleString("pl-PL", { style: "currency", currency: "PLN" })
+      );
+      expect(formatter.date("2025-03-07")).toBe("Mar 7, 2025");
+      expect(formatter.weekStartsOn).toBe(0);
+    });
+
+    it("should follow the number locale and currency display", () => {
+      // Arrange
+      const formatter = createFormatter({ number_locale: "en-US", currency_display: "code" });
+
+      // Act & Assert
+      expect(formatter.currency(-1234.5, "USD").replace(/\s/g, " ")).toBe("-USD 1,234.50");
+      expect(formatter.currency(10, "EUR").replace(/\s/g, " ")).toBe("EUR 10.00");
+    });
+
+    it("should format plain numbers without grouping and with the locale's decimal separator", () => {
+      expect(createFormatter({ number_locale: "en-US" }).number(-1234.5)).toBe("-1234.50");
+      expect(createFormatter({ number_locale: "pl-PL" }).number(-1234.5)).toBe("-1234,50");
+    });
+
+    it("should format dates in the chosen format, reading YYYY-MM-DD as a local date", () => {
+      // Arrange
+      const formatter = createFormatter({ date_format: "dd.MM.yyyy" });
+
+      // Act & Assert
+      expect(formatter.date("2025-01-01")).toBe("01.01.2025");
+      expect(formatter.date(new Date(2025, 11, 31))).toBe("31.12.2025");
+    });
+
+    it("should expose the first day of the week", () => {
+      expect(createFormatter({ week_starts_on: 1 }).weekStartsOn).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { parseMT940 } from "@/lib/utils/mt940.utils";
+
+const STATEMENT = [
+  "{1:F01BREXPLPWAXXX0000000000}{2:I940BREXPLPWXXXXN}{4:",
+  ":20:MT940",
+  ":25:/PL61109010140000071219812874",
+  ":28C:00042",
+  ":60F:C260930PLN1000,00",
+  ":61:2610011001D35,50NTRFNONREF//BANKREF1",
+  ":86:020~00VE02~20Faktura FV/10/2026 za~21 paliwo~32ORLEN S.A.",
+  ":61:2610030902C100,00NTRFREF123",
+  ":86:Zwrot nadplaty",
+  "za wrzesien",
+  ":61:261005RD15,00NMSCNONREF",
+  "Card reversal",
+  ":62F:C261005PLN1079,50",
+  "-}",
+].join("\r\n");
+
+describe("mt940.utils", () => {
+  describe("parseMT940", () => {
+    it("should read the account, balances and statement lines", () => {
+      const { statement, errors } = parseMT940(STATEMENT);
+
+      expect(errors).toEqual([]);
+      expect(statement.account).toBe("PL61109010140000071219812874");
+      expect(statement.opening_balance).toEqual({ date: "2026-09-30", amount: 1000, currency: "PLN" });
+      expect(statement.closing_balance).toEqual({ date: "2026-10-05", amount: 1079.5, currency: "PLN" });
+      expect(statement.transactions).toEqual([
+        {
+          row: 6,
+          date: "2026-10-01",
+          amount: -35.5,
+          description: "ORLEN S.A. · Faktura FV/10/2026 za paliwo",
+          currency: "PLN",
+        },
+        // The entry date (0902) keeps the value date's year
+        { row: 8, date: "2026-09-02", amount: 100, description: "Zwrot nadplaty za wrzesien", currency: "PLN" },
+        // RD reverses a debit; without :86: the supplementary details describe the line
+        { row: 11, date: "2026-10-05", amount: 15, description: "Card reversal", currency: "PLN" },
+      ]);
+    });
+
+    it("should read a file without the SWIFT envelope", () => {
+      const { statement, errors } = parseMT940(
+        [
+          ":20:1",
+          ":25:12345678",
+          ":60F:D261001EUR10,00",
+          ":61:261002C10,00NTRFNONREF",
+          ":62F:C261002EUR0,00",
+          "-",
+        ].join("\n")
+      );
+
+      expect(errors).toEqual([]);
+      expect(statement.opening_balance?.amount).toBe(-10);
+      expect(statement.transactions).toEqual([
+        { row: 4, date: "2026-10-02", amount: 10, description: "", currency: "EUR" },
+      ]);
+    });
+
+    it("should report malformed fields with their lines", () => {
+      const { errors } = parseMT940(
+        [
+          ":20:1",
+          "stray text",
+          ":60F:C261001PLN10.00",
+          ":61:261340D5,00NTRFNONREF",
+          ":61:261002X5,00NTRFNONREF",
+          ":99:unknown",
+          ":62F:C261002PLN5,00",
+          "-",
+        ].join("\n")
+      );
+
+      expect(errors).toEqual([
+        { line: 3, message: 'Opening balance "C261001PLN10.00" must look like C261001PLN1234,56' },
+        { line: 4, message: 'Value date "261340" is not a valid YYMMDD date' },
+        { line: 5, message: 'Statement line "261002X5,00NTRFNONREF" must look like 2610051005D123,45NTRFNONREF' },
+        { line: 6, message: "Unknown field :99:" },
+      ]);
+    });
+
+    it("should report text before the first field and missing balances", () => {
+      const { errors } = parseMT940(["hello", ":20:1", ":61:261002C5,00NTRFNONREF", "-"].join("\n"));
+
+      expect(errors).toEqual([
+        { line: 1, message: "Text outside a field (fields start with a tag such as :61:)" },
+        { line: 3, message: "Statement line (:61:) before the opening balance (:60F:)" },
+        { line: 2, message: "Opening balance (:60F:) is missing" },
+        { line: 3, message: "Closing balance (:62F:) is missing" },
+      ]);
+    });
+
+    it("should report a closing balance that does not add up", () => {
+      const { errors } = parseMT940(STATEMENT.replace("1079,50", "1080,00"));
+
+      expect(errors).toEqual([
+        {
+          line: 13,
+          message: "Closing balance 1080.00 does not match the opening balance plus the transactions (1079.50)",
+        },
+      ]);
+    });
+
+    it("should reject a file without fields", () => {
+      expect(parseMT940("\n\n").errors).toEqual([{ line: 1, message: "The file contains no MT940 statement" }]);
+    });
+  });
+});
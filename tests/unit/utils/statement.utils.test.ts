@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { formatStatementErrors, mergeStatementSections } from "@/lib/utils/statement.utils";
+import type { StatementSection } from "@/lib/utils/statement.utils";
+import type { StatementLineErrorDTO } from "@/types";
+
+const section = (overrides: Partial<StatementSection> = {}): StatementSection => ({
+  account: "PL61109010140000071219812874",
+  opening_balance: { date: "2026-10-01", amount: 100, currency: "PLN" },
+  closing_balance: { date: "2026-10-02", amount: 90.1, currency: "PLN" },
+  closing_line: 10,
+  transactions: [{ row: 5, date: "2026-10-02", amount: -9.9, description: "Coffee", currency: "PLN" }],
+  ...overrides,
+});
+
+describe("statement.utils", () => {
+  describe("mergeStatementSections", () => {
+    it("should take the first opening and the last closing balance", () => {
+      const errors: StatementLineErrorDTO[] = [];
+      const second = section({
+        opening_balance: { date: "2026-10-03", amount: 90.1, currency: "PLN" },
+        closing_balance: { date: "2026-10-04", amount: 80.2, currency: "PLN" },
+        closing_line: 20,
+        transactions: [{ row: 15, date: "2026-10-04", amount: -9.9, description: "Tea", currency: "PLN" }],
+      });
+
+      const statement = mergeStatementSections([section(), second], errors);
+
+      expect(errors).toEqual([]);
+      expect(statement.opening_balance?.amount).toBe(100);
+      expect(statement.closing_balance?.amount).toBe(80.2);
+      expect(statement.transactions.map((t) => t.row)).toEqual([5, 15]);
+    });
+
+    it("should skip the balance check when a balance is missing", () => {
+      const errors: StatementLineErrorDTO[] = [];
+
+      mergeStatementSections([section({ closing_balance: null })], errors);
+
+      expect(errors).toEqual([]);
+    });
+
+    it("should report statements of different accounts", () => {
+      const errors: StatementLineErrorDTO[] = [];
+
+      mergeStatementSections([section(), section({ account: "PL00", closing_line: 30 })], errors);
+
+      expect(errors).toEqual([
+        { line: 30, message: "The file mixes statements of accounts PL61109010140000071219812874 and PL00" },
+      ]);
+    });
+  });
+
+  describe("formatStatementErrors", () => {
+    it("should key the errors by line, in line order, joining errors on the same line", () => {
+      expect(
+        formatStatementErrors([
+          { line: 7, message: "Amount is missing" },
+          { line: 3, message: "Unknown field :99:" },
+          { line: 7, message: "CdtDbtInd is missing" },
+        ])
+      ).toEqual({
+        "line 3": "Unknown field :99:",
+        "line 7": "Amount is missing; CdtDbtInd is missing",
+      });
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { normalizeTagName, normalizeTagNames, parseTagList, resolveOccurrenceTags } from "@/lib/utils/tag.utils";
+
+describe("tag.utils", () => {
+  describe("normalizeTagName", () => {
+    it("should trim, collapse whitespace and lowercase", () => {
+      expect(normalizeTagName("  Tax   Deductible ")).toBe("tax deductible");
+    });
+  });
+
+  describe("normalizeTagNames", () => {
+    it("should drop blanks and duplicates and sort", () => {
+      expect(normalizeTagNames(["Vacation-2026", "", "reimbursable", "vacation-2026 "])).toEqual([
+        "reimbursable",
+        "vacation-2026",
+      ]);
+    });
+  });
+
+  describe("parseTagList", () => {
+    it("should split on commas", () => {
+      expect(parseTagList("vacation-2026, Reimbursable,,")).toEqual(["reimbursable", "vacation-2026"]);
+    });
+
+    it("should return nothing for blank input", () => {
+      expect(parseTagList("  ")).toEqual([]);
+    });
+  });
+
+  describe("resolveOccurrenceTags", () => {
+    const lookup = {
+      seriesTags: new Map([["series-1", ["vacation-2026"]]]),
+      overrideTags: new Map([
+        ["series-1|2026-07-15", ["reimbursable"]],
+        ["series-1|2026-07-22", []],
+      ]),
+    };
+
+    it("should use the series tags", () => {
+      expect(resolveOccurrenceTags(lookup, "series-1", "2026-07-08")).toEqual(["vacation-2026"]);
+    });
+
+    it("should use the tags of an override that replaces them", () => {
+      expect(resolveOccurrenceTags(lookup, "series-1", "2026-07-15")).toEqual(["reimbursable"]);
+    });
+
+    it("should let an override remove all tags", () => {
+      expect(resolveOccurrenceTags(lookup, "series-1", "2026-07-22")).toEqual([]);
+    });
+
+    it("should return nothing for an untagged series", () => {
+      expect(resolveOccurrenceTags(lookup, "series-2", "2026-07-08")).toEqual([]);
+    });
+  });
+});
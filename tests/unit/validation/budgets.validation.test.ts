@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import { createBudgetSchema, getBudgetSummaryQuerySchema } from "@/lib/validation/budgets.validation";
+
+const CATEGORY_ID = "7c9e6679-7425-40de-944b-e07fc1f90ae7";
+const TAG_ID = "3f2b8c1e-5d4a-4e6f-9a7b-1c2d3e4f5a6b";
+
+describe("budgets.validation", () => {
+  // ============================================================================
+  // createBudgetSchema
+  // ============================================================================
+  describe("createBudgetSchema", () => {
+    describe("valid inputs", () => {
+      it("should accept a category and an amount", () => {
+        // Act
+        const result = createBudgetSchema.safeParse({ category_id: CATEGORY_ID, amount: 500 });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data).toEqual({ category_id: CATEGORY_ID, amount: 500 });
+        }
+      });
+
+      it("should accept a tag instead of a category", () => {
+        // Act
+        const result = createBudgetSchema.safeParse({ category_id: null, tag_id: TAG_ID, amount: 500 });
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should accept an amount with 2 decimal places", () => {
+        // Act
+        const result = createBudgetSchema.safeParse({ category_id: CATEGORY_ID, amount: 123.45 });
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+    });
+
+    describe("invalid inputs", () => {
+      it("should require a category or a tag", () => {
+        // Act
+        const result = createBudgetSchema.safeParse({ amount: 500 });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].message).toBe("Select either a category or a tag");
+        }
+      });
+
+      it("should reject a budget on both a category and a tag", () => {
+        // Act
+        const result = createBudgetSchema.safeParse({ category_id: CATEGORY_ID, tag_id: TAG_ID, amount: 500 });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].message).toBe("Select either a category or a tag");
+        }
+      });
+
+      it("should reject a tag that is not a UUID", () => {
+        // Act
+        const result = createBudgetSchema.safeParse({ tag_id: "vacation-2026", amount: 500 });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].message).toBe("Tag must be a valid UUID");
+        }
+      });
+
+      it("should reject a category that is not a UUID", () => {
+        // Act
+        const result = createBudgetSchema.safeParse({ category_id: "housing", amount: 500 });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].message).toBe("Category must be a valid UUID");
+        }
+      });
+
+      it("should reject a zero amount", () => {
+        // Act
+        const result = createBudgetSchema.safeParse({ category_id: CATEGORY_ID, amount: 0 });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].message).toBe("Amount must be greater than 0");
+        }
+      });
+
+      it("should reject an amount with more than 2 decimal places", () => {
+        // Act
+        const result = createBudgetSchema.safeParse({ category_id: CATEGORY_ID, amount: 10.005 });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].message).toBe("Amount must have at most 2 decimal places");
+        }
+      });
+
+      it("should reject an amount given as a string", () => {
+        // Act
+        const result = createBudgetSchema.safeParse({ category_id: CATEGORY_ID, amount: "500" });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].message).toBe("Amount must be a number");
+        }
+      });
+    });
+  });
+
+  // ============================================================================
+  // getBudgetSummaryQuerySchema
+  // ============================================================================
+  describe("getBudgetSummaryQuerySchema", () => {
+    it("should accept a missing month", () => {
+      // Act
+      const result = getBudgetSummaryQuerySchema.safeParse({});
+
+      // Assert
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.month).toBeUndefined();
+      }
+    });
+
+    it("should accept a month in YYYY-MM format", () => {
+      // Act
+      const result = getBudgetSummaryQuerySchema.safeParse({ month: "2026-10" });
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+
+    it.each(["2026-13", "2026-00", "2026-1", "2026-10-01"])("should reject the month %s", (month) => {
+      // Act
+      const result = getBudgetSummaryQuerySchema.safeParse({ month });
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe("Invalid month format. Expected YYYY-MM");
+      }
+    });
+  });
+});
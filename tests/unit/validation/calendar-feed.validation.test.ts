@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { calendarFeedTokenSchema } from "@/lib/validation/calendar-feed.validation";
+
+describe("calendar-feed.validation", () => {
+  // ============================================================================
+  // calendarFeedTokenSchema
+  // ============================================================================
+  describe("calendarFeedTokenSchema", () => {
+    it("should accept a 43-character base64url token", () => {
+      // Act
+      const result = calendarFeedTokenSchema.safeParse("AbCdEfGhIjKlMnOpQrStUvWxYz0123456789-_AbCde");
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject tokens of the wrong length", () => {
+      // Act
+      const short = calendarFeedTokenSchema.safeParse("AbCdEf");
+      const long = calendarFeedTokenSchema.safeParse("A".repeat(44));
+
+      // Assert
+      expect(short.success).toBe(false);
+      expect(long.success).toBe(false);
+    });
+
+    it("should reject standard base64 characters and padding", () => {
+      // Act
+      const result = calendarFeedTokenSchema.safeParse("AbCdEfGhIjKlMnOpQrStUvWxYz0123456789+/AbCd=");
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe("Invalid calendar feed token");
+      }
+    });
+
+    it("should reject a missing token", () => {
+      // Act
+      const result = calendarFeedTokenSchema.safeParse(undefined);
+
+      // Assert
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import { createCategorySchema, updateCategorySchema } from "@/lib/validation/categories.validation";
+
+const PARENT_ID = "7c9e6679-7425-40de-944b-e07fc1f90ae7";
+
+describe("categories.validation", () => {
+  // ============================================================================
+  // createCategorySchema
+  // ============================================================================
+  describe("createCategorySchema", () => {
+    describe("valid inputs", () => {
+      it("should default to a top-level category with the default colour and no icon", () => {
+        // Act
+        const result = createCategorySchema.safeParse({ name: "Housing" });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data).toEqual({ name: "Housing", parent_id: null, color: "#64748b", icon: null });
+        }
+      });
+
+      it("should trim the name", () => {
+        // Act
+        const result = createCategorySchema.safeParse({ name: "  Rent  " });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.name).toBe("Rent");
+        }
+      });
+
+      it("should accept a parent, colour and icon", () => {
+        // Act
+        const result = createCategorySchema.safeParse({
+          name: "Rent",
+          parent_id: PARENT_ID,
+          color: "#0ea5e9",
+          icon: "house",
+        });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data).toEqual({ name: "Rent", parent_id: PARENT_ID, color: "#0ea5e9", icon: "house" });
+        }
+      });
+
+      it("should lowercase the colour", () => {
+        // Act
+        const result = createCategorySchema.safeParse({ name: "Rent", color: "#0EA5E9" });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.color).toBe("#0ea5e9");
+        }
+      });
+    });
+
+    describe("invalid inputs", () => {
+      it("should reject a missing name", () => {
+        // Act
+        const result = createCategorySchema.safeParse({});
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.flatten().fieldErrors.name?.[0]).toBe("Name is required");
+        }
+      });
+
+      it("should reject a blank name", () => {
+        expect(createCategorySchema.safeParse({ name: "   " }).success).toBe(false);
+      });
+
+      it("should reject a name longer than 100 characters", () => {
+        expect(createCategorySchema.safeParse({ name: "a".repeat(101) }).success).toBe(false);
+      });
+
+      it("should reject a parent that is not a UUID", () => {
+        // Act
+        const result = createCategorySchema.safeParse({ name: "Rent", parent_id: "housing" });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.flatten().fieldErrors.parent_id?.[0]).toBe("Parent must be a valid UUID");
+        }
+      });
+
+      it.each(["red", "#fff", "#12345g", "0ea5e9"])("should reject the colour %s", (color) => {
+        expect(createCategorySchema.safeParse({ name: "Rent", color }).success).toBe(false);
+      });
+
+      it("should reject an unknown icon", () => {
+        // Act
+        const result = createCategorySchema.safeParse({ name: "Rent", icon: "castle" });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.flatten().fieldErrors.icon?.[0]).toMatch(/^Icon must be one of: house, /);
+        }
+      });
+    });
+  });
+
+  // ============================================================================
+  // updateCategorySchema
+  // ============================================================================
+  describe("updateCategorySchema", () => {
+    it("should accept moving a category to the top level", () => {
+      // Act
+      const result = updateCategorySchema.safeParse({ name: "Rent", parent_id: null });
+
+      // Assert
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.parent_id).toBeNull();
+      }
+    });
+
+    it("should require a name", () => {
+      expect(updateCategorySchema.safeParse({ parent_id: PARENT_ID }).success).toBe(false);
+    });
+  });
+});
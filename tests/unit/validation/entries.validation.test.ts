@@ -214,9 +214,9 @@ describe("entries.validation", () => {
       it("should reject invalid entry_type", () => {
         // Arrange
         const input = {
-          entry_type: "transfer",
+          entry_type: "refund",
           recurrence_type: "one_time",
-          title: "Transfer",
+          title: "Refund",
           description: null,
           amount: 100,
           start_date: "2025-01-01",
@@ -879,18 +879,18 @@ describe("entries.validation", () => {
       });
     });
 
-    describe("date transformation", () => {
-      it("should transform dates to YYYY-MM-DD string format in output", () => {
+    describe("recurrence_interval validation", () => {
+      it("should default recurrence_interval to 1 when omitted", () => {
         // Arrange
         const input = {
           entry_type: "income",
-          recurrence_type: "one_time",
-          title: "Test Entry",
+          recurrence_type: "weekly",
+          title: "Test",
           description: null,
           amount: 100,
-          start_date: "2025-03-15",
-          end_date: "2025-06-30",
-          weekday: null,
+          start_date: "2025-01-01",
+          end_date: null,
+          weekday: 3,
           day_of_month: null,
         };
 
@@ -900,25 +900,23 @@ describe("entries.validation", () => {
         // Assert
         expect(result.success).toBe(true);
         if (result.success) {
-          expect(typeof result.data.start_date).toBe("string");
-          expect(typeof result.data.end_date).toBe("string");
-          expect(result.data.start_date).toBe("2025-03-15");
-          expect(result.data.end_date).toBe("2025-06-30");
+          expect(result.data.recurrence_interval).toBe(1);
         }
       });
 
-      it("should preserve null end_date after transformation", () => {
+      it("should accept biweekly entry with recurrence_interval 2", () => {
         // Arrange
         const input = {
           entry_type: "income",
-          recurrence_type: "one_time",
-          title: "Test",
+          recurrence_type: "weekly",
+          title: "Biweekly payroll",
           description: null,
-          amount: 100,
-          start_date: "2025-01-01",
+          amount: 2500,
+          start_date: "2025-01-03",
           end_date: null,
-          weekday: null,
+          weekday: 5,
           day_of_month: null,
+          recurrence_interval: 2,
         };
 
         // Act
@@ -927,23 +925,23 @@ describe("entries.validation", () => {
         // Assert
         expect(result.success).toBe(true);
         if (result.success) {
-          expect(result.data.end_date).toBeNull();
+          expect(result.data.recurrence_interval).toBe(2);
         }
       });
-    });
 
-    describe("missing required fields", () => {
-      it("should reject when entry_type is missing", () => {
+      it("should reject recurrence_interval below 1", () => {
         // Arrange
         const input = {
-          recurrence_type: "one_time",
+          entry_type: "income",
+          recurrence_type: "weekly",
           title: "Test",
           description: null,
           amount: 100,
           start_date: "2025-01-01",
           end_date: null,
-          weekday: null,
+          weekday: 3,
           day_of_month: null,
+          recurrence_interval: 0,
         };
 
         // Act
@@ -953,17 +951,19 @@ describe("entries.validation", () => {
         expect(result.success).toBe(false);
       });
 
-      it("should reject when title is missing", () => {
+      it("should reject recurrence_interval above 52", () => {
         // Arrange
         const input = {
           entry_type: "income",
-          recurrence_type: "one_time",
+          recurrence_type: "weekly",
+          title: "Test",
           description: null,
           amount: 100,
           start_date: "2025-01-01",
           end_date: null,
-          weekday: null,
+          weekday: 3,
           day_of_month: null,
+          recurrence_interval: 53,
         };
 
         // Act
@@ -973,17 +973,19 @@ describe("entries.validation", () => {
         expect(result.success).toBe(false);
       });
 
-      it("should reject when amount is missing", () => {
+      it("should reject non-integer recurrence_interval", () => {
         // Arrange
         const input = {
           entry_type: "income",
-          recurrence_type: "one_time",
+          recurrence_type: "weekly",
           title: "Test",
           description: null,
+          amount: 100,
           start_date: "2025-01-01",
           end_date: null,
-          weekday: null,
+          weekday: 3,
           day_of_month: null,
+          recurrence_interval: 1.5,
         };
 
         // Act
@@ -993,197 +995,1298 @@ describe("entries.validation", () => {
         expect(result.success).toBe(false);
       });
 
-      it("should reject empty object", () => {
-        // Arrange
-        const input = {};
+      it("should accept recurrence_interval 2 for monthly entries", () => {
+        // Arrange - every other month
+        const input = {
+          entry_type: "expense",
+          recurrence_type: "monthly",
+          title: "Water bill",
+          description: null,
+          amount: 120,
+          start_date: "2025-01-10",
+          end_date: null,
+          weekday: null,
+          day_of_month: 10,
+          recurrence_interval: 2,
+        };
 
         // Act
         const result = createEntrySchema.safeParse(input);
 
         // Assert
-        expect(result.success).toBe(false);
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.recurrence_interval).toBe(2);
+        }
       });
-    });
-  });
-
-  // ============================================================================
-  // updateEntrySchema
-  // ============================================================================
-  describe("updateEntrySchema", () => {
-    it("should have same validation rules as createEntrySchema", () => {
-      // Arrange
-      const validInput = {
-        entry_type: "expense",
-        recurrence_type: "monthly",
-        title: "Updated Rent",
-        description: "Increased rent amount",
-        amount: 1350,
-        start_date: "2025-02-01",
-        end_date: null,
-        weekday: null,
-        day_of_month: 1,
-      };
 
-      // Act
-      const result = updateEntrySchema.safeParse(validInput);
-
-      // Assert
-      expect(result.success).toBe(true);
-    });
-
-    it("should reject invalid update input same as create", () => {
-      // Arrange
-      const invalidInput = {
-        entry_type: "expense",
-        recurrence_type: "monthly",
-        title: "",
-        description: null,
-        amount: -50,
-        start_date: "2025-02-01",
-        end_date: null,
-        weekday: null,
-        day_of_month: null,
-      };
+      it("should reject recurrence_interval other than 1 for one_time entries", () => {
+        // Arrange
+        const input = {
+          entry_type: "expense",
+          recurrence_type: "one_time",
+          title: "Laptop",
+          description: null,
+          amount: 5000,
+          start_date: "2025-01-01",
+          end_date: null,
+          weekday: null,
+          day_of_month: null,
+          recurrence_interval: 2,
+        };
 
-      // Act
-      const result = updateEntrySchema.safeParse(invalidInput);
+        // Act
+        const result = createEntrySchema.safeParse(input);
 
-      // Assert
-      expect(result.success).toBe(false);
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          const intervalError = result.error.issues.find((issue) =>
+            issue.path.includes("recurrence_interval")
+          );
+          expect(intervalError?.message).toBe(
+            "recurrence_interval must be 1 for one_time entries"
+          );
+        }
+      });
     });
-  });
 
-  // ============================================================================
-  // getEntriesQuerySchema
-  // ============================================================================
-  describe("getEntriesQuerySchema", () => {
-    describe("valid inputs", () => {
-      it("should accept empty query (all optional)", () => {
+    describe("quarterly and yearly recurrence", () => {
+      it("should accept quarterly entry with day_of_month", () => {
         // Arrange
-        const input = {};
+        const input = {
+          entry_type: "expense",
+          recurrence_type: "quarterly",
+          title: "VAT payment",
+          description: null,
+          amount: 3200,
+          start_date: "2025-01-25",
+          end_date: null,
+          weekday: null,
+          day_of_month: 25,
+        };
 
         // Act
-        const result = getEntriesQuerySchema.safeParse(input);
+        const result = createEntrySchema.safeParse(input);
 
         // Assert
         expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.recurrence_type).toBe("quarterly");
+          expect(result.data.recurrence_interval).toBe(1);
+        }
       });
 
-      it("should accept all filter parameters", () => {
+      it("should accept yearly entry with day_of_month", () => {
         // Arrange
         const input = {
           entry_type: "expense",
-          recurrence_type: "monthly",
-          start_date_from: "2025-01-01",
-          start_date_to: "2025-12-31",
-          limit: 50,
-          offset: 10,
-          sort_by: "amount",
-          sort_order: "desc",
+          recurrence_type: "yearly",
+          title: "Car insurance",
+          description: null,
+          amount: 1800,
+          start_date: "2025-03-15",
+          end_date: null,
+          weekday: null,
+          day_of_month: 15,
         };
 
         // Act
-        const result = getEntriesQuerySchema.safeParse(input);
+        const result = createEntrySchema.safeParse(input);
 
         // Assert
         expect(result.success).toBe(true);
         if (result.success) {
-          expect(result.data).toEqual({
-            entry_type: "expense",
-            recurrence_type: "monthly",
-            start_date_from: "2025-01-01",
-            start_date_to: "2025-12-31",
-            limit: 50,
-            offset: 10,
-            sort_by: "amount",
-            sort_order: "desc",
-          });
+          expect(result.data.recurrence_type).toBe("yearly");
         }
       });
 
-      it("should accept income entry_type filter", () => {
+      it("should reject quarterly entry with null day_of_month", () => {
         // Arrange
-        const input = { entry_type: "income" };
+        const input = {
+          entry_type: "expense",
+          recurrence_type: "quarterly",
+          title: "VAT payment",
+          description: null,
+          amount: 3200,
+          start_date: "2025-01-25",
+          end_date: null,
+          weekday: null,
+          day_of_month: null,
+        };
 
         // Act
-        const result = getEntriesQuerySchema.safeParse(input);
+        const result = createEntrySchema.safeParse(input);
 
         // Assert
-        expect(result.success).toBe(true);
-        if (result.success) {
-          expect(result.data.entry_type).toBe("income");
-        }
+        expect(result.success).toBe(false);
       });
 
-      it("should accept all recurrence_type values", () => {
-        // Arrange & Act & Assert
-        for (const type of ["one_time", "weekly", "monthly"]) {
-          const result = getEntriesQuerySchema.safeParse({ recurrence_type: type });
-          expect(result.success).toBe(true);
-        }
-      });
+      it("should reject yearly entry with non-null weekday", () => {
+        // Arrange
+        const input = {
+          entry_type: "expense",
+          recurrence_type: "yearly",
+          title: "Car insurance",
+          description: null,
+          amount: 1800,
+          start_date: "2025-03-15",
+          end_date: null,
+          weekday: 6,
+          day_of_month: 15,
+        };
 
-      it("should accept all sort_by values", () => {
-        // Arrange & Act & Assert
-        for (const sortBy of ["start_date", "created_at", "amount"]) {
-          const result = getEntriesQuerySchema.safeParse({ sort_by: sortBy });
-          expect(result.success).toBe(true);
-        }
-      });
+        // Act
+        const result = createEntrySchema.safeParse(input);
 
-      it("should accept all sort_order values", () => {
-        // Arrange & Act & Assert
-        for (const order of ["asc", "desc"]) {
-          const result = getEntriesQuerySchema.safeParse({ sort_order: order });
-          expect(result.success).toBe(true);
-        }
+        // Assert
+        expect(result.success).toBe(false);
       });
     });
 
-    describe("date filter validation", () => {
-      it("should reject invalid start_date_from format", () => {
+    describe("monthly_anchor validation", () => {
+      const monthlyBase = {
+        entry_type: "expense",
+        recurrence_type: "monthly",
+        title: "Team lunch",
+        description: null,
+        amount: 150,
+        start_date: "2025-01-14",
+        end_date: null,
+      };
+
+      it("should default monthly_anchor to day_of_month and week_of_month to null", () => {
         // Arrange
-        const input = { start_date_from: "01/01/2025" };
+        const input = { ...monthlyBase, weekday: null, day_of_month: 14 };
 
         // Act
-        const result = getEntriesQuerySchema.safeParse(input);
+        const result = createEntrySchema.safeParse(input);
 
         // Assert
-        expect(result.success).toBe(false);
-        if (!result.success) {
-          expect(result.error.issues[0].message).toBe("start_date_from must be YYYY-MM-DD");
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.monthly_anchor).toBe("day_of_month");
+          expect(result.data.week_of_month).toBeNull();
         }
       });
 
-      it("should reject invalid start_date_to format", () => {
-        // Arrange
-        const input = { start_date_to: "2025.12.31" };
+      it("should accept nth_weekday with weekday and week_of_month", () => {
+        // Arrange - second Tuesday
+        const input = {
+          ...monthlyBase,
+          monthly_anchor: "nth_weekday",
+          weekday: 2,
+          day_of_month: null,
+          week_of_month: 2,
+        };
 
         // Act
-        const result = getEntriesQuerySchema.safeParse(input);
+        const result = createEntrySchema.safeParse(input);
 
         // Assert
-        expect(result.success).toBe(false);
-        if (!result.success) {
-          expect(result.error.issues[0].message).toBe("start_date_to must be YYYY-MM-DD");
-        }
+        expect(result.success).toBe(true);
       });
 
-      it("should transform date strings to proper format", () => {
+      it("should reject nth_weekday without week_of_month", () => {
         // Arrange
         const input = {
-          start_date_from: "2025-03-15",
-          start_date_to: "2025-06-30",
+          ...monthlyBase,
+          monthly_anchor: "nth_weekday",
+          weekday: 2,
+          day_of_month: null,
         };
 
         // Act
-        const result = getEntriesQuerySchema.safeParse(input);
+        const result = createEntrySchema.safeParse(input);
 
         // Assert
-        expect(result.success).toBe(true);
-        if (result.success) {
-          expect(result.data.start_date_from).toBe("2025-03-15");
-          expect(result.data.start_date_to).toBe("2025-06-30");
+        expect(result.success).toBe(false);
+      });
+
+      it("should reject week_of_month above 4", () => {
+        // Arrange
+        const input = {
+          ...monthlyBase,
+          monthly_anchor: "nth_weekday",
+          weekday: 2,
+          day_of_month: null,
+          week_of_month: 5,
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+
+      it("should accept last_weekday with weekday only", () => {
+        // Arrange - last Friday of each quarter
+        const input = {
+          ...monthlyBase,
+          recurrence_type: "quarterly",
+          monthly_anchor: "last_weekday",
+          weekday: 5,
+          day_of_month: null,
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should reject last_weekday with day_of_month", () => {
+        // Arrange
+        const input = {
+          ...monthlyBase,
+          monthly_anchor: "last_weekday",
+          weekday: 5,
+          day_of_month: 14,
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+
+      it("should accept last_day without weekday or day_of_month", () => {
+        // Arrange
+        const input = {
+          ...monthlyBase,
+          monthly_anchor: "last_day",
+          weekday: null,
+          day_of_month: null,
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should reject monthly_anchor other than day_of_month for weekly entries", () => {
+        // Arrange
+        const input = {
+          ...monthlyBase,
+          recurrence_type: "weekly",
+          monthly_anchor: "last_weekday",
+          weekday: 5,
+          day_of_month: null,
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          const anchorError = result.error.issues.find((issue) =>
+            issue.path.includes("monthly_anchor")
+          );
+          expect(anchorError?.message).toBe(
+            "monthly_anchor is only supported for monthly, quarterly and yearly entries"
+          );
+        }
+      });
+    });
+
+    describe("business_day_convention validation", () => {
+      const salaryBase = {
+        entry_type: "income",
+        recurrence_type: "monthly",
+        title: "Salary",
+        description: null,
+        amount: 8000,
+        start_date: "2025-01-31",
+        end_date: null,
+        weekday: null,
+        day_of_month: null,
+        monthly_anchor: "last_day",
+      };
+
+      it("should default to no adjustment with the PL calendar", () => {
+        // Act
+        const result = createEntrySchema.safeParse(salaryBase);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.business_day_convention).toBe("none");
+          expect(result.data.holiday_calendar).toBe("PL");
+        }
+      });
+
+      it("should accept every business_day_convention", () => {
+        for (const convention of ["none", "previous", "next", "nearest"]) {
+          // Act
+          const result = createEntrySchema.safeParse({
+            ...salaryBase,
+            business_day_convention: convention,
+          });
+
+          // Assert
+          expect(result.success).toBe(true);
+        }
+      });
+
+      it("should reject unknown business_day_convention", () => {
+        // Act
+        const result = createEntrySchema.safeParse({
+          ...salaryBase,
+          business_day_convention: "modified_following",
+        });
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+
+      it("should reject unsupported holiday_calendar", () => {
+        // Act
+        const result = createEntrySchema.safeParse({
+          ...salaryBase,
+          business_day_convention: "previous",
+          holiday_calendar: "DE",
+        });
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+    });
+
+    describe("occurrence_count validation", () => {
+      const installmentBase = {
+        entry_type: "expense",
+        recurrence_type: "monthly",
+        title: "Laptop installments",
+        description: null,
+        amount: 299,
+        start_date: "2025-01-10",
+        end_date: null,
+        weekday: null,
+        day_of_month: 10,
+      };
+
+      it("should default occurrence_count to null", () => {
+        // Act
+        const result = createEntrySchema.safeParse(installmentBase);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.occurrence_count).toBeNull();
+        }
+      });
+
+      it("should accept occurrence_count without end_date", () => {
+        // Act
+        const result = createEntrySchema.safeParse({
+          ...installmentBase,
+          occurrence_count: 10,
+        });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.occurrence_count).toBe(10);
+          expect(result.data.end_date).toBeNull();
+        }
+      });
+
+      it("should reject occurrence_count together with end_date", () => {
+        // Act
+        const result = createEntrySchema.safeParse({
+          ...installmentBase,
+          end_date: "2025-10-10",
+          occurrence_count: 10,
+        });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          const countError = result.error.issues.find((issue) =>
+            issue.path.includes("occurrence_count")
+          );
+          expect(countError?.message).toBe(
+            "Provide either end_date or occurrence_count, not both"
+          );
+        }
+      });
+
+      it("should reject occurrence_count for one_time entries", () => {
+        // Act
+        const result = createEntrySchema.safeParse({
+          ...installmentBase,
+          recurrence_type: "one_time",
+          day_of_month: null,
+          occurrence_count: 3,
+        });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          const countError = result.error.issues.find((issue) =>
+            issue.path.includes("occurrence_count")
+          );
+          expect(countError?.message).toBe(
+            "occurrence_count is only supported for recurring entries"
+          );
+        }
+      });
+
+      it("should reject occurrence_count outside 1-1000", () => {
+        for (const count of [0, 1001]) {
+          // Act
+          const result = createEntrySchema.safeParse({
+            ...installmentBase,
+            occurrence_count: count,
+          });
+
+          // Assert
+          expect(result.success).toBe(false);
+        }
+      });
+
+      it("should reject non-integer occurrence_count", () => {
+        // Act
+        const result = createEntrySchema.safeParse({
+          ...installmentBase,
+          occurrence_count: 2.5,
+        });
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+    });
+
+    describe("multi-anchor validation", () => {
+      it("should accept weekly entry with a set of weekdays including weekday", () => {
+        // Arrange - Mon/Wed/Fri
+        const input = {
+          entry_type: "expense",
+          recurrence_type: "weekly",
+          title: "Gym classes",
+          description: null,
+          amount: 40,
+          start_date: "2025-01-06",
+          end_date: null,
+          weekday: 1,
+          weekdays: [1, 3, 5],
+          day_of_month: null,
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.weekdays).toEqual([1, 3, 5]);
+          expect(result.data.days_of_month).toBeNull();
+        }
+      });
+
+      it("should reject weekdays that do not include weekday", () => {
+        // Arrange
+        const input = {
+          entry_type: "expense",
+          recurrence_type: "weekly",
+          title: "Gym classes",
+          description: null,
+          amount: 40,
+          start_date: "2025-01-06",
+          end_date: null,
+          weekday: 2,
+          weekdays: [1, 3, 5],
+          day_of_month: null,
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          const weekdaysError = result.error.issues.find((issue) =>
+            issue.path.includes("weekdays")
+          );
+          expect(weekdaysError?.message).toBe(
+            "weekdays is only supported for weekly entries and must include weekday"
+          );
+        }
+      });
+
+      it("should reject weekdays out of range", () => {
+        // Arrange
+        const input = {
+          entry_type: "expense",
+          recurrence_type: "weekly",
+          title: "Gym classes",
+          description: null,
+          amount: 40,
+          start_date: "2025-01-06",
+          end_date: null,
+          weekday: 1,
+          weekdays: [1, 7],
+          day_of_month: null,
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+
+      it("should accept monthly entry with a set of days of month", () => {
+        // Arrange - paid on the 10th and 25th
+        const input = {
+          entry_type: "income",
+          recurrence_type: "monthly",
+          title: "Contractor invoices",
+          description: null,
+          amount: 4500,
+          start_date: "2025-01-10",
+          end_date: null,
+          weekday: null,
+          day_of_month: 10,
+          days_of_month: [10, 25],
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.days_of_month).toEqual([10, 25]);
+        }
+      });
+
+      it("should reject days_of_month for a non day_of_month anchor", () => {
+        // Arrange
+        const input = {
+          entry_type: "income",
+          recurrence_type: "monthly",
+          title: "Contractor invoices",
+          description: null,
+          amount: 4500,
+          start_date: "2025-01-31",
+          end_date: null,
+          weekday: null,
+          day_of_month: null,
+          monthly_anchor: "last_day",
+          days_of_month: [10, 25],
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          const daysError = result.error.issues.find((issue) =>
+            issue.path.includes("days_of_month")
+          );
+          expect(daysError?.message).toBe(
+            "days_of_month is only supported for the day_of_month anchor and must include day_of_month"
+          );
+        }
+      });
+
+      it("should reject days_of_month for weekly entries", () => {
+        // Arrange
+        const input = {
+          entry_type: "income",
+          recurrence_type: "weekly",
+          title: "Contractor invoices",
+          description: null,
+          amount: 4500,
+          start_date: "2025-01-10",
+          end_date: null,
+          weekday: 5,
+          day_of_month: null,
+          days_of_month: [10, 25],
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+
+      it("should reject empty days_of_month", () => {
+        // Arrange
+        const input = {
+          entry_type: "income",
+          recurrence_type: "monthly",
+          title: "Contractor invoices",
+          description: null,
+          amount: 4500,
+          start_date: "2025-01-10",
+          end_date: null,
+          weekday: null,
+          day_of_month: 10,
+          days_of_month: [],
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+    });
+
+    describe("transfer validation", () => {
+      const walletId = "5f0c8a53-9d7b-4e43-8f4a-2d1f6c3b7a10";
+      const targetWalletId = "b3e1d2c4-7a65-4f98-9c21-0e8d5a6f4b32";
+
+      it("should accept a transfer to another wallet", () => {
+        // Arrange
+        const input = {
+          entry_type: "transfer",
+          recurrence_type: "monthly",
+          title: "Savings deposit",
+          description: null,
+          amount: 500,
+          start_date: "2025-01-10",
+          end_date: null,
+          weekday: null,
+          day_of_month: 10,
+          wallet_id: walletId,
+          target_wallet_id: targetWalletId,
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.entry_type).toBe("transfer");
+          expect(result.data.target_wallet_id).toBe(targetWalletId);
+        }
+      });
+
+      it("should default target_wallet_id to null for income and expenses", () => {
+        // Arrange
+        const input = {
+          entry_type: "expense",
+          recurrence_type: "one_time",
+          title: "Groceries",
+          description: null,
+          amount: 120,
+          start_date: "2025-01-10",
+          end_date: null,
+          weekday: null,
+          day_of_month: null,
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.target_wallet_id).toBeNull();
+        }
+      });
+
+      it("should reject a transfer without target_wallet_id", () => {
+        // Arrange
+        const input = {
+          entry_type: "transfer",
+          recurrence_type: "one_time",
+          title: "Card payoff",
+          description: null,
+          amount: 800,
+          start_date: "2025-01-10",
+          end_date: null,
+          weekday: null,
+          day_of_month: null,
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].path).toEqual(["target_wallet_id"]);
+        }
+      });
+
+      it("should reject target_wallet_id on an expense", () => {
+        // Arrange
+        const input = {
+          entry_type: "expense",
+          recurrence_type: "one_time",
+          title: "Card payoff",
+          description: null,
+          amount: 800,
+          start_date: "2025-01-10",
+          end_date: null,
+          weekday: null,
+          day_of_month: null,
+          target_wallet_id: targetWalletId,
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+
+      it("should reject a transfer to its own wallet", () => {
+        // Arrange
+        const input = {
+          entry_type: "transfer",
+          recurrence_type: "one_time",
+          title: "Card payoff",
+          description: null,
+          amount: 800,
+          start_date: "2025-01-10",
+          end_date: null,
+          weekday: null,
+          day_of_month: null,
+          wallet_id: walletId,
+          target_wallet_id: walletId,
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe("A transfer must go to a different wallet");
+        }
+      });
+
+      it("should reject an invalid target_wallet_id", () => {
+        // Arrange
+        const input = {
+          entry_type: "transfer",
+          recurrence_type: "one_time",
+          title: "Card payoff",
+          description: null,
+          amount: 800,
+          start_date: "2025-01-10",
+          end_date: null,
+          weekday: null,
+          day_of_month: null,
+          target_wallet_id: "savings",
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+    });
+
+    describe("currency validation", () => {
+      const baseInput = {
+        entry_type: "income",
+        recurrence_type: "monthly",
+        title: "Consulting invoice",
+        description: null,
+        amount: 2000,
+        start_date: "2025-01-10",
+        end_date: null,
+        weekday: null,
+        day_of_month: 10,
+      };
+
+      it("should leave currency unset when omitted", () => {
+        // Act
+        const result = createEntrySchema.safeParse(baseInput);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.currency).toBeUndefined();
+        }
+      });
+
+      it("should accept and uppercase a currency code", () => {
+        // Act
+        const result = createEntrySchema.safeParse({
+          ...baseInput,
+          currency: "usd",
+        });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.currency).toBe("USD");
+        }
+      });
+
+      it("should reject a currency that is not a 3-letter code", () => {
+        // Act
+        const result = createEntrySchema.safeParse({
+          ...baseInput,
+          currency: "dollars",
+        });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe(
+            "Currency must be a 3-letter ISO 4217 code",
+          );
+        }
+      });
+    });
+
+    describe("category validation", () => {
+      const baseInput = {
+        entry_type: "expense",
+        recurrence_type: "monthly",
+        title: "Rent",
+        description: null,
+        amount: 2500,
+        start_date: "2025-01-10",
+        end_date: null,
+        weekday: null,
+        day_of_month: 10,
+      };
+
+      it("should default category_id to null", () => {
+        // Act
+        const result = createEntrySchema.safeParse(baseInput);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.category_id).toBeNull();
+        }
+      });
+
+      it("should accept a category UUID", () => {
+        // Act
+        const result = createEntrySchema.safeParse({
+          ...baseInput,
+          category_id: "7c9e6679-7425-40de-944b-e07fc1f90ae7",
+        });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.category_id).toBe(
+            "7c9e6679-7425-40de-944b-e07fc1f90ae7",
+          );
+        }
+      });
+
+      it("should reject an invalid category_id", () => {
+        // Act
+        const result = createEntrySchema.safeParse({
+          ...baseInput,
+          category_id: "housing",
+        });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe(
+            "category_id must be a valid UUID",
+          );
+        }
+      });
+    });
+
+    describe("tags validation", () => {
+      const baseInput = {
+        entry_type: "expense",
+        recurrence_type: "one_time",
+        title: "Hotel",
+        description: null,
+        amount: 400,
+        start_date: "2026-07-10",
+        end_date: null,
+        weekday: null,
+        day_of_month: null,
+      };
+
+      it("should leave tags out when omitted", () => {
+        // Act
+        const result = createEntrySchema.safeParse(baseInput);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.tags).toBeUndefined();
+        }
+      });
+
+      it("should normalize, de-duplicate and sort tags", () => {
+        // Act
+        const result = createEntrySchema.safeParse({
+          ...baseInput,
+          tags: ["Vacation-2026", " reimbursable ", "vacation-2026"],
+        });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.tags).toEqual(["reimbursable", "vacation-2026"]);
+        }
+      });
+
+      it("should reject an empty tag", () => {
+        // Act
+        const result = createEntrySchema.safeParse({
+          ...baseInput,
+          tags: ["   "],
+        });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe("Tag cannot be empty");
+        }
+      });
+    });
+
+    describe("date transformation", () => {
+      it("should transform dates to YYYY-MM-DD string format in output", () => {
+        // Arrange
+        const input = {
+          entry_type: "income",
+          recurrence_type: "one_time",
+          title: "Test Entry",
+          description: null,
+          amount: 100,
+          start_date: "2025-03-15",
+          end_date: "2025-06-30",
+          weekday: null,
+          day_of_month: null,
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(typeof result.data.start_date).toBe("string");
+          expect(typeof result.data.end_date).toBe("string");
+          expect(result.data.start_date).toBe("2025-03-15");
+          expect(result.data.end_date).toBe("2025-06-30");
+        }
+      });
+
+      it("should preserve null end_date after transformation", () => {
+        // Arrange
+        const input = {
+          entry_type: "income",
+          recurrence_type: "one_time",
+          title: "Test",
+          description: null,
+          amount: 100,
+          start_date: "2025-01-01",
+          end_date: null,
+          weekday: null,
+          day_of_month: null,
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.end_date).toBeNull();
+        }
+      });
+    });
+
+    describe("missing required fields", () => {
+      it("should reject when entry_type is missing", () => {
+        // Arrange
+        const input = {
+          recurrence_type: "one_time",
+          title: "Test",
+          description: null,
+          amount: 100,
+          start_date: "2025-01-01",
+          end_date: null,
+          weekday: null,
+          day_of_month: null,
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+
+      it("should reject when title is missing", () => {
+        // Arrange
+        const input = {
+          entry_type: "income",
+          recurrence_type: "one_time",
+          description: null,
+          amount: 100,
+          start_date: "2025-01-01",
+          end_date: null,
+          weekday: null,
+          day_of_month: null,
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+
+      it("should reject when amount is missing", () => {
+        // Arrange
+        const input = {
+          entry_type: "income",
+          recurrence_type: "one_time",
+          title: "Test",
+          description: null,
+          start_date: "2025-01-01",
+          end_date: null,
+          weekday: null,
+          day_of_month: null,
+        };
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+
+      it("should reject empty object", () => {
+        // Arrange
+        const input = {};
+
+        // Act
+        const result = createEntrySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+    });
+  });
+
+  // ============================================================================
+  // updateEntrySchema
+  // ============================================================================
+  describe("updateEntrySchema", () => {
+    it("should have same validation rules as createEntrySchema", () => {
+      // Arrange
+      const validInput = {
+        entry_type: "expense",
+        recurrence_type: "monthly",
+        title: "Updated Rent",
+        description: "Increased rent amount",
+        amount: 1350,
+        start_date: "2025-02-01",
+        end_date: null,
+        weekday: null,
+        day_of_month: 1,
+      };
+
+      // Act
+      const result = updateEntrySchema.safeParse(validInput);
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject invalid update input same as create", () => {
+      // Arrange
+      const invalidInput = {
+        entry_type: "expense",
+        recurrence_type: "monthly",
+        title: "",
+        description: null,
+        amount: -50,
+        start_date: "2025-02-01",
+        end_date: null,
+        weekday: null,
+        day_of_month: null,
+      };
+
+      // Act
+      const result = updateEntrySchema.safeParse(invalidInput);
+
+      // Assert
+      expect(result.success).toBe(false);
+    });
+  });
+
+  // ============================================================================
+  // getEntriesQuerySchema
+  // ============================================================================
+  describe("getEntriesQuerySchema", () => {
+    describe("valid inputs", () => {
+      it("should accept empty query (all optional)", () => {
+        // Arrange
+        const input = {};
+
+        // Act
+        const result = getEntriesQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should accept all filter parameters", () => {
+        // Arrange
+        const input = {
+          entry_type: "expense",
+          recurrence_type: "monthly",
+          start_date_from: "2025-01-01",
+          start_date_to: "2025-12-31",
+          limit: 50,
+          offset: 10,
+          sort_by: "amount",
+          sort_order: "desc",
+        };
+
+        // Act
+        const result = getEntriesQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data).toEqual({
+            entry_type: "expense",
+            recurrence_type: "monthly",
+            start_date_from: "2025-01-01",
+            start_date_to: "2025-12-31",
+            limit: 50,
+            offset: 10,
+            sort_by: "amount",
+            sort_order: "desc",
+          });
+        }
+      });
+
+      it("should accept income entry_type filter", () => {
+        // Arrange
+        const input = { entry_type: "income" };
+
+        // Act
+        const result = getEntriesQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.entry_type).toBe("income");
+        }
+      });
+
+      it("should accept all recurrence_type values", () => {
+        // Arrange & Act & Assert
+        for (const type of ["one_time", "weekly", "monthly", "quarterly", "yearly"]) {
+          const result = getEntriesQuerySchema.safeParse({ recurrence_type: type });
+          expect(result.success).toBe(true);
+        }
+      });
+
+      it("should accept all sort_by values", () => {
+        // Arrange & Act & Assert
+        for (const sortBy of ["start_date", "created_at", "amount"]) {
+          const result = getEntriesQuerySchema.safeParse({ sort_by: sortBy });
+          expect(result.success).toBe(true);
+        }
+      });
+
+      it("should accept all sort_order values", () => {
+        // Arrange & Act & Assert
+        for (const order of ["asc", "desc"]) {
+          const result = getEntriesQuerySchema.safeParse({ sort_order: order });
+          expect(result.success).toBe(true);
+        }
+      });
+    });
+
+    describe("date filter validation", () => {
+      it("should reject invalid start_date_from format", () => {
+        // Arrange
+        const input = { start_date_from: "01/01/2025" };
+
+        // Act
+        const result = getEntriesQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].message).toBe("start_date_from must be YYYY-MM-DD");
+        }
+      });
+
+      it("should reject invalid start_date_to format", () => {
+        // Arrange
+        const input = { start_date_to: "2025.12.31" };
+
+        // Act
+        const result = getEntriesQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].message).toBe("start_date_to must be YYYY-MM-DD");
+        }
+      });
+
+      it("should transform date strings to proper format", () => {
+        // Arrange
+        const input = {
+          start_date_from: "2025-03-15",
+          start_date_to: "2025-06-30",
+        };
+
+        // Act
+        const result = getEntriesQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.start_date_from).toBe("2025-03-15");
+          expect(result.data.start_date_to).toBe("2025-06-30");
+        }
+      });
+    });
+
+    describe("tags filter validation", () => {
+      it("should split a comma-separated tags filter", () => {
+        // Act
+        const result = getEntriesQuerySchema.safeParse({ tags: "vacation-2026,Reimbursable" });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.tags).toEqual(["reimbursable", "vacation-2026"]);
+        }
+      });
+
+      it("should reject a tags filter without tags", () => {
+        // Act
+        const result = getEntriesQuerySchema.safeParse({ tags: " , " });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].message).toBe("tags must list at least one tag");
         }
       });
     });
@@ -1322,7 +2425,7 @@ describe("entries.validation", () => {
     describe("invalid enum values", () => {
       it("should reject invalid entry_type", () => {
         // Arrange
-        const input = { entry_type: "transfer" };
+        const input = { entry_type: "refund" };
 
         // Act
         const result = getEntriesQuerySchema.safeParse(input);
@@ -1333,7 +2436,7 @@ describe("entries.validation", () => {
 
       it("should reject invalid recurrence_type", () => {
         // Arrange
-        const input = { recurrence_type: "yearly" };
+        const input = { recurrence_type: "daily" };
 
         // Act
         const result = getEntriesQuerySchema.safeParse(input);
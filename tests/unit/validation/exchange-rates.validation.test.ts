@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { currencyCodeSchema, exchangeRateSchema } from "@/lib/validation/exchange-rates.validation";
+
+describe("exchange-rates.validation", () => {
+  // ============================================================================
+  // currencyCodeSchema
+  // ============================================================================
+  describe("currencyCodeSchema", () => {
+    it("should accept an uppercase ISO 4217 code", () => {
+      expect(currencyCodeSchema.safeParse("EUR").success).toBe(true);
+    });
+
+    it("should trim and uppercase the code", () => {
+      // Act
+      const result = currencyCodeSchema.safeParse(" usd ");
+
+      // Assert
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toBe("USD");
+      }
+    });
+
+    it("should reject codes that are not three letters", () => {
+      expect(currencyCodeSchema.safeParse("EU").success).toBe(false);
+      expect(currencyCodeSchema.safeParse("EURO").success).toBe(false);
+      expect(currencyCodeSchema.safeParse("E1R").success).toBe(false);
+    });
+  });
+
+  // ============================================================================
+  // exchangeRateSchema
+  // ============================================================================
+  describe("exchangeRateSchema", () => {
+    describe("valid inputs", () => {
+      it("should accept a currency, date and rate", () => {
+        // Act
+        const result = exchangeRateSchema.safeParse({ currency: "EUR", rate_date: "2025-01-01", rate: 4.2735 });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data).toEqual({ currency: "EUR", rate_date: "2025-01-01", rate: 4.2735 });
+        }
+      });
+
+      it("should accept rates with eight decimal places", () => {
+        expect(
+          exchangeRateSchema.safeParse({ currency: "JPY", rate_date: "2025-01-01", rate: 0.02612345 }).success
+        ).toBe(true);
+      });
+    });
+
+    describe("invalid inputs", () => {
+      it("should reject a missing rate", () => {
+        // Act
+        const result = exchangeRateSchema.safeParse({ currency: "EUR", rate_date: "2025-01-01" });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe("Rate is required");
+        }
+      });
+
+      it("should reject zero and negative rates", () => {
+        expect(exchangeRateSchema.safeParse({ currency: "EUR", rate_date: "2025-01-01", rate: 0 }).success).toBe(false);
+        expect(exchangeRateSchema.safeParse({ currency: "EUR", rate_date: "2025-01-01", rate: -4.2 }).success).toBe(
+          false
+        );
+      });
+
+      it("should reject more than eight decimal places", () => {
+        expect(
+          exchangeRateSchema.safeParse({ currency: "EUR", rate_date: "2025-01-01", rate: 4.123456789 }).success
+        ).toBe(false);
+      });
+
+      it("should reject invalid dates", () => {
+        // Act
+        const result = exchangeRateSchema.safeParse({ currency: "EUR", rate_date: "2025-02-30", rate: 4.2 });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe("Must be a valid date in YYYY-MM-DD format");
+        }
+      });
+    });
+  });
+});
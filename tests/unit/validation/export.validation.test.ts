@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { exportCSVQuerySchema } from "@/lib/validation/export.validation";
+import { exportCSVQuerySchema, exportICSQuerySchema } from "@/lib/validation/export.validation";
 
 describe("export.validation", () => {
   // ============================================================================
@@ -526,6 +526,83 @@ describe("export.validation", () => {
       });
     });
 
+    // --------------------------------------------------------------------------
+    // category_id validation
+    // --------------------------------------------------------------------------
+    describe("category_id validation", () => {
+      it("should accept a category UUID", () => {
+        // Arrange
+        const input = { category_id: "7c9e6679-7425-40de-944b-e07fc1f90ae7" };
+
+        // Act
+        const result = exportCSVQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.category_id).toBe(
+            "7c9e6679-7425-40de-944b-e07fc1f90ae7"
+          );
+        }
+      });
+
+      it("should reject a category_id that is not a UUID", () => {
+        // Arrange
+        const input = { category_id: "housing" };
+
+        // Act
+        const result = exportCSVQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe(
+            "Invalid category. Must be a valid UUID"
+          );
+        }
+      });
+    });
+
+    // --------------------------------------------------------------------------
+    // formatting validation
+    // --------------------------------------------------------------------------
+    describe("formatting validation", () => {
+      it("should default to ISO dates and a decimal point", () => {
+        // Act
+        const result = exportCSVQuerySchema.safeParse({ entry_type: "expense" });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.formatting).toBe("iso");
+        }
+      });
+
+      it("should accept the user's display format", () => {
+        // Act
+        const result = exportCSVQuerySchema.safeParse({ formatting: "localized" });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.formatting).toBe("localized");
+        }
+      });
+
+      it("should reject an unknown formatting", () => {
+        // Act
+        const result = exportCSVQuerySchema.safeParse({ formatting: "pl-PL" });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe(
+            "Invalid formatting. Must be 'iso' or 'localized'"
+          );
+        }
+      });
+    });
+
     // --------------------------------------------------------------------------
     // Date range validation - to_date must be >= from_date
     // --------------------------------------------------------------------------
@@ -982,5 +1059,37 @@ describe("export.validation", () => {
       });
     });
   });
+
+  // ============================================================================
+  // exportICSQuerySchema
+  // ============================================================================
+  describe("exportICSQuerySchema", () => {
+    it("should accept empty object (all fields optional)", () => {
+      // Act
+      const result = exportICSQuerySchema.safeParse({});
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept entry_type income", () => {
+      // Act
+      const result = exportICSQuerySchema.safeParse({ entry_type: "income" });
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject invalid entry_type", () => {
+      // Act
+      const result = exportICSQuerySchema.safeParse({ entry_type: "transfer" });
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe("Invalid entry type. Must be 'income' or 'expense'");
+      }
+    });
+  });
 });
 
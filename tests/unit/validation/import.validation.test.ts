@@ -0,0 +1,287 @@
+import { describe, it, expect } from "vitest";
+import {
+  createCSVImportPresetSchema,
+  csvColumnMappingSchema,
+  importCSVBodySchema,
+  importICSBodySchema,
+  importStatementFileBodySchema,
+} from "@/lib/validation/import.validation";
+import type { CSVColumnMapping } from "@/types";
+
+const validMapping: CSVColumnMapping = {
+  delimiter: ";",
+  skip_rows: 1,
+  date_column: 0,
+  date_format: "DD.MM.YYYY",
+  amount_column: 2,
+  debit_column: null,
+  sign_convention: "negative_is_expense",
+  decimal_separator: ",",
+  description_columns: [1],
+  currency_column: null,
+};
+
+describe("import.validation", () => {
+  // ============================================================================
+  // importICSBodySchema
+  // ============================================================================
+  describe("importICSBodySchema", () => {
+    it("should accept an iCalendar document", () => {
+      // Arrange
+      const input = "BEGIN:VCALENDAR\r\nVERSION:2.0\r\nEND:VCALENDAR\r\n";
+
+      // Act
+      const result = importICSBodySchema.safeParse(input);
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept leading whitespace and lowercase BEGIN line", () => {
+      // Act
+      const result = importICSBodySchema.safeParse("\n begin:vcalendar\nEND:VCALENDAR");
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject an empty body", () => {
+      // Act
+      const result = importICSBodySchema.safeParse("");
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe("Request body must not be empty");
+      }
+    });
+
+    it("should reject content that is not an iCalendar file", () => {
+      // Act
+      const result = importICSBodySchema.safeParse('{"title":"Rent"}');
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe(
+          "Request body must be an iCalendar file starting with BEGIN:VCALENDAR"
+        );
+      }
+    });
+
+    it("should reject content larger than 1 MB", () => {
+      // Arrange
+      const input = "BEGIN:VCALENDAR\n" + "X".repeat(1024 * 1024);
+
+      // Act
+      const result = importICSBodySchema.safeParse(input);
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe("Calendar file cannot exceed 1 MB");
+      }
+    });
+  });
+
+  // ============================================================================
+  // csvColumnMappingSchema
+  // ============================================================================
+  describe("csvColumnMappingSchema", () => {
+    it("should accept a valid mapping", () => {
+      // Act
+      const result = csvColumnMappingSchema.safeParse(validMapping);
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+
+    it("should require a debit column for separate debit and credit columns", () => {
+      // Act
+      const result = csvColumnMappingSchema.safeParse({ ...validMapping, sign_convention: "debit_credit" });
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].path).toEqual(["debit_column"]);
+      }
+    });
+
+    it("should reject a debit column with a signed amount column", () => {
+      // Act
+      const result = csvColumnMappingSchema.safeParse({ ...validMapping, debit_column: 3 });
+
+      // Assert
+      expect(result.success).toBe(false);
+    });
+
+    it("should accept separate debit and credit columns", () => {
+      // Act
+      const result = csvColumnMappingSchema.safeParse({
+        ...validMapping,
+        sign_convention: "debit_credit",
+        debit_column: 3,
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject negative columns and an unknown date format", () => {
+      // Act
+      const negative = csvColumnMappingSchema.safeParse({ ...validMapping, amount_column: -1 });
+      const format = csvColumnMappingSchema.safeParse({ ...validMapping, date_format: "YYYY/MM/DD" });
+
+      // Assert
+      expect(negative.success).toBe(false);
+      expect(format.success).toBe(false);
+    });
+  });
+
+  // ============================================================================
+  // importCSVBodySchema
+  // ============================================================================
+  describe("importCSVBodySchema", () => {
+    it("should accept content with a mapping, wallet and rows", () => {
+      // Arrange
+      const input = {
+        content: "Data;Opis;Kwota\n05.10.2026;Coffee;-12,50",
+        mapping: validMapping,
+        wallet_id: "123e4567-e89b-12d3-a456-426614174000",
+        rows: [2],
+      };
+
+      // Act
+      const result = importCSVBodySchema.safeParse(input);
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject empty content", () => {
+      // Act
+      const result = importCSVBodySchema.safeParse({ content: "", mapping: validMapping });
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe("Statement file must not be empty");
+      }
+    });
+
+    it("should reject content larger than 2 MB", () => {
+      // Act
+      const result = importCSVBodySchema.safeParse({ content: "X".repeat(2 * 1024 * 1024 + 1), mapping: validMapping });
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe("Statement file cannot exceed 2 MB");
+      }
+    });
+
+    it("should reject an invalid wallet ID", () => {
+      // Act
+      const result = importCSVBodySchema.safeParse({ content: "a", mapping: validMapping, wallet_id: "abc" });
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe("Invalid wallet ID format");
+      }
+    });
+  });
+
+  // ============================================================================
+  // createCSVImportPresetSchema
+  // ============================================================================
+  describe("createCSVImportPresetSchema", () => {
+    it("should trim the name", () => {
+      // Act
+      const result = createCSVImportPresetSchema.safeParse({ name: "  Revolut ", mapping: validMapping });
+
+      // Assert
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.name).toBe("Revolut");
+      }
+    });
+
+    it("should reject a blank name", () => {
+      // Act
+      const result = createCSVImportPresetSchema.safeParse({ name: "   ", mapping: validMapping });
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe("Name cannot be empty");
+      }
+    });
+  });
+
+  // ============================================================================
+  // importStatementFileBodySchema
+  // ============================================================================
+  describe("importStatementFileBodySchema", () => {
+    it("should accept a statement with a starting balance choice", () => {
+      // Act
+      const result = importStatementFileBodySchema.safeParse({
+        format: "mt940",
+        content: ":20:1",
+        starting_balance: "closing",
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept a null starting balance", () => {
+      // Act
+      const result = importStatementFileBodySchema.safeParse({
+        format: "camt053",
+        content: "<a/>",
+        starting_balance: null,
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject an unknown format", () => {
+      // Act
+      const result = importStatementFileBodySchema.safeParse({ format: "qfx", content: "a" });
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe("Format must be camt053, mt940, ofx or qif");
+      }
+    });
+
+    it("should reject an empty file", () => {
+      // Act
+      const result = importStatementFileBodySchema.safeParse({ format: "mt940", content: "" });
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe("Statement file must not be empty");
+      }
+    });
+
+    it("should reject an unknown starting balance", () => {
+      // Act
+      const result = importStatementFileBodySchema.safeParse({
+        format: "mt940",
+        content: "a",
+        starting_balance: "latest",
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe("Starting balance must be opening or closing");
+      }
+    });
+  });
+});
@@ -539,6 +539,120 @@ describe("occurrences.validation", () => {
         expect(result.success).toBe(false);
       });
     });
+
+    describe("wallet_id validation", () => {
+      it("should accept a wallet UUID", () => {
+        // Arrange
+        const input = {
+          from_date: "2025-01-01",
+          to_date: "2025-01-31",
+          wallet_id: "550e8400-e29b-41d4-a716-446655440000",
+        };
+
+        // Act
+        const result = getOccurrencesQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.wallet_id).toBe("550e8400-e29b-41d4-a716-446655440000");
+        }
+      });
+
+      it("should reject a wallet_id that is not a UUID", () => {
+        // Arrange
+        const input = {
+          from_date: "2025-01-01",
+          to_date: "2025-01-31",
+          wallet_id: "savings",
+        };
+
+        // Act
+        const result = getOccurrencesQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.flatten().fieldErrors.wallet_id?.[0]).toBe("wallet_id must be a valid UUID");
+        }
+      });
+    });
+
+    describe("category_id validation", () => {
+      it("should accept a category UUID", () => {
+        // Arrange
+        const input = {
+          from_date: "2025-01-01",
+          to_date: "2025-01-31",
+          category_id: "7c9e6679-7425-40de-944b-e07fc1f90ae7",
+        };
+
+        // Act
+        const result = getOccurrencesQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.category_id).toBe("7c9e6679-7425-40de-944b-e07fc1f90ae7");
+        }
+      });
+
+      it("should reject a category_id that is not a UUID", () => {
+        // Arrange
+        const input = {
+          from_date: "2025-01-01",
+          to_date: "2025-01-31",
+          category_id: "housing",
+        };
+
+        // Act
+        const result = getOccurrencesQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.flatten().fieldErrors.category_id?.[0]).toBe("category_id must be a valid UUID");
+        }
+      });
+    });
+
+    describe("tags validation", () => {
+      it("should split a comma-separated tags filter", () => {
+        // Arrange
+        const input = {
+          from_date: "2025-01-01",
+          to_date: "2025-01-31",
+          tags: "reimbursable, Vacation-2026",
+        };
+
+        // Act
+        const result = getOccurrencesQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.tags).toEqual(["reimbursable", "vacation-2026"]);
+        }
+      });
+
+      it("should reject an empty tags filter", () => {
+        // Arrange
+        const input = {
+          from_date: "2025-01-01",
+          to_date: "2025-01-31",
+          tags: "",
+        };
+
+        // Act
+        const result = getOccurrencesQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.flatten().fieldErrors.tags?.[0]).toBe("tags must list at least one tag");
+        }
+      });
+    });
   });
 
   // ============================================================================
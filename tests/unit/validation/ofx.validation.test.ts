@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { exportOFXQuerySchema } from "@/lib/validation/ofx.validation";
+
+describe("ofx.validation", () => {
+  // ============================================================================
+  // exportOFXQuerySchema
+  // ============================================================================
+  describe("exportOFXQuerySchema", () => {
+    it("should accept the CSV export filters", () => {
+      // Act
+      const result = exportOFXQuerySchema.safeParse({
+        from_date: "2026-10-01",
+        to_date: "2026-10-31",
+        entry_type: "expense",
+        category_id: "550e8400-e29b-41d4-a716-446655440000",
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject an end date before the start date", () => {
+      // Act
+      const result = exportOFXQuerySchema.safeParse({ from_date: "2026-10-31", to_date: "2026-10-01" });
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].path).toEqual(["to_date"]);
+        expect(result.error.errors[0].message).toBe("End date must be greater than or equal to start date");
+      }
+    });
+  });
+});
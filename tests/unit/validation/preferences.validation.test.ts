@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import { updateUserPreferencesSchema } from "@/lib/validation/preferences.validation";
+
+describe("preferences.validation", () => {
+  // ============================================================================
+  // updateUserPreferencesSchema
+  // ============================================================================
+  describe("updateUserPreferencesSchema", () => {
+    describe("valid inputs", () => {
+      it("should accept a positive threshold", () => {
+        // Arrange
+        const input = { low_balance_threshold: 500 };
+
+        // Act
+        const result = updateUserPreferencesSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.low_balance_threshold).toBe(500);
+        }
+      });
+
+      it("should accept zero and negative thresholds", () => {
+        expect(updateUserPreferencesSchema.safeParse({ low_balance_threshold: 0 }).success).toBe(true);
+        expect(updateUserPreferencesSchema.safeParse({ low_balance_threshold: -250.5 }).success).toBe(true);
+      });
+
+      it("should accept amounts with two decimal places", () => {
+        // Arrange
+        const input = { low_balance_threshold: 100.29 };
+
+        // Act
+        const result = updateUserPreferencesSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should accept a base currency on its own and uppercase it", () => {
+        // Act
+        const result = updateUserPreferencesSchema.safeParse({ base_currency: "eur" });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.base_currency).toBe("EUR");
+        }
+      });
+
+      it("should accept formatting preferences", () => {
+        // Arrange
+        const input = {
+          currency_display: "code",
+          number_locale: "en-US",
+          date_format: "dd.MM.yyyy",
+          week_starts_on: 1,
+        };
+
+        // Act
+        const result = updateUserPreferencesSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data).toEqual(input);
+        }
+      });
+
+      it("should accept an IANA time zone", () => {
+        // Act
+        const result = updateUserPreferencesSchema.safeParse({ time_zone: " America/New_York " });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.time_zone).toBe("America/New_York");
+        }
+      });
+    });
+
+    describe("invalid inputs", () => {
+      it("should reject an empty body", () => {
+        // Act
+        const result = updateUserPreferencesSchema.safeParse({});
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe("At least one preference must be provided");
+          expect(result.error.errors[0].path).toEqual(["body"]);
+        }
+      });
+
+      it("should reject non-numeric threshold", () => {
+        // Act
+        const result = updateUserPreferencesSchema.safeParse({ low_balance_threshold: "500" });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe("Low balance threshold must be a number");
+        }
+      });
+
+      it("should reject more than two decimal places", () => {
+        // Act
+        const result = updateUserPreferencesSchema.safeParse({ low_balance_threshold: 10.123 });
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+
+      it("should reject thresholds outside numeric(12,2)", () => {
+        expect(updateUserPreferencesSchema.safeParse({ low_balance_threshold: 1e11 }).success).toBe(false);
+        expect(updateUserPreferencesSchema.safeParse({ low_balance_threshold: -1e11 }).success).toBe(false);
+      });
+
+      it("should reject a base currency that is not a 3-letter code", () => {
+        // Act
+        const result = updateUserPreferencesSchema.safeParse({ base_currency: "EURO" });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe("Currency must be a 3-letter ISO 4217 code");
+        }
+      });
+
+      it("should reject a date format outside the list", () => {
+        // Act
+        const result = updateUserPreferencesSchema.safeParse({ date_format: "yyyy" });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toContain("Date format must be one of");
+        }
+      });
+
+      it("should reject a number locale that is not a language tag", () => {
+        // Act
+        const result = updateUserPreferencesSchema.safeParse({ number_locale: "polish" });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe("Number locale must be a language tag such as pl-PL or en-US");
+        }
+      });
+
+      it("should reject a first day of week outside 0-6", () => {
+        expect(updateUserPreferencesSchema.safeParse({ week_starts_on: 7 }).success).toBe(false);
+        expect(updateUserPreferencesSchema.safeParse({ week_starts_on: 1.5 }).success).toBe(false);
+      });
+
+      it("should reject an unknown time zone", () => {
+        // Act
+        const result = updateUserPreferencesSchema.safeParse({ time_zone: "Mars/Olympus_Mons" });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe("Time zone must be an IANA time zone such as Europe/Warsaw");
+        }
+      });
+
+      it("should reject unknown fields", () => {
+        // Act
+        const result = updateUserPreferencesSchema.safeParse({
+          low_balance_threshold: 0,
+          currency: "EUR",
+        });
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+    });
+  });
+});
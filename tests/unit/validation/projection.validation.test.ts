@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import {
+  getBalanceTimelineQuerySchema,
   getProjectionQuerySchema,
   validateProjectionDateRange,
 } from "@/lib/validation/projection.validation";
@@ -378,6 +379,238 @@ describe("projection.validation", () => {
         expect(result.success).toBe(false);
       });
     });
+
+    describe("scenario parameter", () => {
+      it("should accept a scenario UUID", () => {
+        // Arrange
+        const input = {
+          date: "2025-01-15",
+          scenario: "0b8f7a3e-1c2d-4e5f-8a9b-0c1d2e3f4a5b",
+        };
+
+        // Act
+        const result = getProjectionQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should reject a scenario that is not a UUID", () => {
+        // Arrange
+        const input = { date: "2025-01-15", scenario: "lease" };
+
+        // Act
+        const result = getProjectionQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.flatten().fieldErrors.scenario?.[0]).toBe(
+            "Scenario must be a valid UUID"
+          );
+        }
+      });
+    });
+
+    describe("wallet parameter", () => {
+      it("should accept a wallet UUID", () => {
+        // Arrange
+        const input = {
+          date: "2025-01-15",
+          wallet: "0b8f7a3e-1c2d-4e5f-8a9b-0c1d2e3f4a5b",
+        };
+
+        // Act
+        const result = getProjectionQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.wallet).toBe(
+            "0b8f7a3e-1c2d-4e5f-8a9b-0c1d2e3f4a5b"
+          );
+        }
+      });
+
+      it("should reject a wallet that is not a UUID", () => {
+        // Arrange
+        const input = { date: "2025-01-15", wallet: "savings" };
+
+        // Act
+        const result = getProjectionQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.flatten().fieldErrors.wallet?.[0]).toBe(
+            "Wallet must be a valid UUID"
+          );
+        }
+      });
+    });
+  });
+
+  // ============================================================================
+  // getBalanceTimelineQuerySchema
+  // ============================================================================
+  describe("getBalanceTimelineQuerySchema", () => {
+    describe("valid inputs", () => {
+      it("should default granularity to day", () => {
+        // Arrange
+        const input = { from: "2025-01-01", to: "2025-03-31" };
+
+        // Act
+        const result = getBalanceTimelineQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.granularity).toBe("day");
+        }
+      });
+
+      it.each(["day", "week", "month"])(
+        "should accept granularity %s",
+        (granularity) => {
+          // Arrange
+          const input = { from: "2025-01-01", to: "2025-12-31", granularity };
+
+          // Act
+          const result = getBalanceTimelineQuerySchema.safeParse(input);
+
+          // Assert
+          expect(result.success).toBe(true);
+        }
+      );
+
+      it("should accept a single-day range", () => {
+        // Arrange
+        const input = { from: "2025-01-15", to: "2025-01-15" };
+
+        // Act
+        const result = getBalanceTimelineQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should accept long ranges at month granularity", () => {
+        // Arrange
+        const input = {
+          from: "2025-01-01",
+          to: "2035-01-01",
+          granularity: "month",
+        };
+
+        // Act
+        const result = getBalanceTimelineQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+    });
+
+    describe("invalid inputs", () => {
+      it("should require from and to", () => {
+        // Arrange
+        const input = { from: null, to: null };
+
+        // Act
+        const result = getBalanceTimelineQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          const errors = result.error.flatten().fieldErrors;
+          expect(errors.from).toBeDefined();
+          expect(errors.to).toBeDefined();
+        }
+      });
+
+      it("should reject invalid calendar dates", () => {
+        // Arrange
+        const input = { from: "2025-02-30", to: "2025-03-31" };
+
+        // Act
+        const result = getBalanceTimelineQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.flatten().fieldErrors.from).toContain(
+            "Invalid date"
+          );
+        }
+      });
+
+      it("should reject to date before from date", () => {
+        // Arrange
+        const input = { from: "2025-03-01", to: "2025-02-28" };
+
+        // Act
+        const result = getBalanceTimelineQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.flatten().fieldErrors.to).toContain(
+            "To date must be on or after from date"
+          );
+        }
+      });
+
+      it("should reject a wallet that is not a UUID", () => {
+        // Arrange
+        const input = { from: "2025-01-01", to: "2025-03-31", wallet: "savings" };
+
+        // Act
+        const result = getBalanceTimelineQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.flatten().fieldErrors.wallet?.[0]).toBe(
+            "Wallet must be a valid UUID"
+          );
+        }
+      });
+
+      it("should reject unknown granularity", () => {
+        // Arrange
+        const input = {
+          from: "2025-01-01",
+          to: "2025-12-31",
+          granularity: "year",
+        };
+
+        // Act
+        const result = getBalanceTimelineQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.flatten().fieldErrors.granularity).toContain(
+            "Granularity must be one of: day, week, month"
+          );
+        }
+      });
+
+      it("should reject daily timelines longer than the limit", () => {
+        // Arrange
+        const input = { from: "2025-01-01", to: "2035-12-31" };
+
+        // Act
+        const result = getBalanceTimelineQuerySchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(
+            result.error.flatten().fieldErrors.granularity?.[0]
+          ).toContain("Daily timelines cannot exceed");
+        }
+      });
+    });
   });
 
   // ============================================================================
@@ -608,6 +841,36 @@ describe("projection.validation", () => {
       });
     });
 
+    describe("user's current date", () => {
+      beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date("2025-01-15T23:30:00Z"));
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it("should count the 10 year limit from the given current date", () => {
+        // Arrange - already Jan 16 in the user's time zone, but still Jan 15 in UTC
+        const targetDate = "2035-01-16";
+        const startingBalanceDate = "2025-01-01";
+
+        // Act
+        const result = validateProjectionDateRange(
+          targetDate,
+          startingBalanceDate,
+          "2025-01-16"
+        );
+
+        // Assert
+        expect(result.valid).toBe(true);
+        expect(
+          validateProjectionDateRange(targetDate, startingBalanceDate).valid
+        ).toBe(false);
+      });
+    });
+
     describe("edge cases", () => {
       beforeEach(() => {
         vi.useFakeTimers();
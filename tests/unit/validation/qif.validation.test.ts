@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { exportQIFQuerySchema } from "@/lib/validation/qif.validation";
+
+describe("qif.validation", () => {
+  // ============================================================================
+  // exportQIFQuerySchema
+  // ============================================================================
+  describe("exportQIFQuerySchema", () => {
+    it("should default to month-first dates", () => {
+      // Act
+      const result = exportQIFQuerySchema.safeParse({ entry_type: "income" });
+
+      // Assert
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.date_format).toBe("MDY");
+      }
+    });
+
+    it("should accept day-first dates", () => {
+      // Act
+      const result = exportQIFQuerySchema.safeParse({ date_format: "DMY" });
+
+      // Assert
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.date_format).toBe("DMY");
+      }
+    });
+
+    it("should reject an unknown date format", () => {
+      // Act
+      const result = exportQIFQuerySchema.safeParse({ date_format: "YMD" });
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe("Invalid date format. Must be 'MDY' or 'DMY'");
+      }
+    });
+
+    it("should check the date range like the CSV export", () => {
+      // Act
+      const result = exportQIFQuerySchema.safeParse({ from_date: "1990-01-01", to_date: "2100-01-01" });
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe("Date range cannot exceed 100 years");
+      }
+    });
+  });
+});
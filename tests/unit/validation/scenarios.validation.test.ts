@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import { createScenarioSchema, createScenarioOverrideSchema } from "@/lib/validation/scenarios.validation";
+
+const SERIES_ID = "0b8f7a3e-1c2d-4e5f-8a9b-0c1d2e3f4a5b";
+
+describe("scenarios.validation", () => {
+  // ============================================================================
+  // createScenarioSchema
+  // ============================================================================
+  describe("createScenarioSchema", () => {
+    describe("valid inputs", () => {
+      it("should accept a name without description", () => {
+        // Act
+        const result = createScenarioSchema.safeParse({ name: "New lease" });
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should trim the name", () => {
+        // Act
+        const result = createScenarioSchema.safeParse({ name: "  Car loan  ", description: null });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.name).toBe("Car loan");
+        }
+      });
+    });
+
+    describe("invalid inputs", () => {
+      it("should reject a missing name", () => {
+        // Act
+        const result = createScenarioSchema.safeParse({});
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe("Name is required");
+        }
+      });
+
+      it("should reject a blank name", () => {
+        expect(createScenarioSchema.safeParse({ name: "   " }).success).toBe(false);
+      });
+
+      it("should reject names longer than 100 characters", () => {
+        expect(createScenarioSchema.safeParse({ name: "a".repeat(101) }).success).toBe(false);
+      });
+
+      it("should reject descriptions longer than 500 characters", () => {
+        expect(createScenarioSchema.safeParse({ name: "Lease", description: "a".repeat(501) }).success).toBe(false);
+      });
+    });
+  });
+
+  // ============================================================================
+  // createScenarioOverrideSchema
+  // ============================================================================
+  describe("createScenarioOverrideSchema", () => {
+    describe("valid inputs", () => {
+      it("should accept a skip without fields", () => {
+        // Arrange
+        const input = { series_id: SERIES_ID, exception_date: "2025-03-10", exception_type: "skip" };
+
+        // Act
+        const result = createScenarioOverrideSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should accept an override with title and amount", () => {
+        // Arrange
+        const input = {
+          series_id: SERIES_ID,
+          exception_date: "2025-03-10",
+          exception_type: "override",
+          title: "Rent (new lease)",
+          amount: 3200,
+        };
+
+        // Act
+        const result = createScenarioOverrideSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+    });
+
+    describe("invalid inputs", () => {
+      it("should reject an override without amount", () => {
+        // Act
+        const result = createScenarioOverrideSchema.safeParse({
+          series_id: SERIES_ID,
+          exception_date: "2025-03-10",
+          exception_type: "override",
+          title: "Rent",
+        });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe("Overrides require a title and an amount");
+        }
+      });
+
+      it("should reject a skip with an amount", () => {
+        // Act
+        const result = createScenarioOverrideSchema.safeParse({
+          series_id: SERIES_ID,
+          exception_date: "2025-03-10",
+          exception_type: "skip",
+          amount: 100,
+        });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe("Skips cannot have a title, description or amount");
+        }
+      });
+
+      it("should reject an invalid series ID", () => {
+        expect(
+          createScenarioOverrideSchema.safeParse({
+            series_id: "not-a-uuid",
+            exception_date: "2025-03-10",
+            exception_type: "skip",
+          }).success
+        ).toBe(false);
+      });
+
+      it("should reject an invalid calendar date", () => {
+        expect(
+          createScenarioOverrideSchema.safeParse({
+            series_id: SERIES_ID,
+            exception_date: "2025-02-30",
+            exception_type: "skip",
+          }).success
+        ).toBe(false);
+      });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { occurrenceDateSchema, upsertSettlementSchema } from "@/lib/validation/settlements.validation";
+
+describe("settlements.validation", () => {
+  // ============================================================================
+  // upsertSettlementSchema
+  // ============================================================================
+  describe("upsertSettlementSchema", () => {
+    describe("valid inputs", () => {
+      it("should accept an actual amount and date", () => {
+        // Act
+        const result = upsertSettlementSchema.safeParse({ actual_amount: 412.37, actual_date: "2025-03-12" });
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should accept a zero amount", () => {
+        expect(upsertSettlementSchema.safeParse({ actual_amount: 0, actual_date: "2025-03-12" }).success).toBe(true);
+      });
+
+      it("should trim the note", () => {
+        // Act
+        const result = upsertSettlementSchema.safeParse({
+          actual_amount: 380,
+          actual_date: "2025-03-10",
+          note: "  paid by card  ",
+        });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.note).toBe("paid by card");
+        }
+      });
+    });
+
+    describe("invalid inputs", () => {
+      it("should reject a missing actual amount", () => {
+        // Act
+        const result = upsertSettlementSchema.safeParse({ actual_date: "2025-03-12" });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe("Actual amount is required");
+        }
+      });
+
+      it("should reject a negative amount", () => {
+        expect(upsertSettlementSchema.safeParse({ actual_amount: -1, actual_date: "2025-03-12" }).success).toBe(false);
+      });
+
+      it("should reject more than 2 decimal places", () => {
+        // Act
+        const result = upsertSettlementSchema.safeParse({ actual_amount: 412.375, actual_date: "2025-03-12" });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe("Actual amount must have at most 2 decimal places");
+        }
+      });
+
+      it("should reject an invalid calendar date", () => {
+        expect(upsertSettlementSchema.safeParse({ actual_amount: 10, actual_date: "2025-02-30" }).success).toBe(false);
+      });
+
+      it("should reject notes longer than 500 characters", () => {
+        expect(
+          upsertSettlementSchema.safeParse({ actual_amount: 10, actual_date: "2025-03-12", note: "a".repeat(501) })
+            .success
+        ).toBe(false);
+      });
+    });
+  });
+
+  // ============================================================================
+  // occurrenceDateSchema
+  // ============================================================================
+  describe("occurrenceDateSchema", () => {
+    it("should accept a valid date", () => {
+      expect(occurrenceDateSchema.safeParse("2025-03-10").success).toBe(true);
+    });
+
+    it("should reject other formats", () => {
+      expect(occurrenceDateSchema.safeParse("10.03.2025").success).toBe(false);
+      expect(occurrenceDateSchema.safeParse(undefined).success).toBe(false);
+    });
+  });
+});
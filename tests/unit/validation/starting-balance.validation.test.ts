@@ -1,5 +1,8 @@
 import { describe, it, expect } from "vitest";
-import { upsertStartingBalanceSchema } from "@/lib/validation/starting-balance.validation";
+import {
+  upsertStartingBalanceSchema,
+  createBalanceCheckpointSchema,
+} from "@/lib/validation/starting-balance.validation";
 
 describe("starting-balance.validation", () => {
   // ============================================================================
@@ -847,5 +850,99 @@ describe("starting-balance.validation", () => {
       });
     });
   });
+
+  // ============================================================================
+  // createBalanceCheckpointSchema
+  // ============================================================================
+  describe("createBalanceCheckpointSchema", () => {
+    describe("valid inputs", () => {
+      it("should accept a date and amount", () => {
+        // Act
+        const result = createBalanceCheckpointSchema.safeParse({
+          checkpoint_date: "2025-03-01",
+          amount: 4210.55,
+        });
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should accept a negative observed balance", () => {
+        // Arrange - overdrawn account
+        const input = { checkpoint_date: "2025-03-01", amount: -150.2 };
+
+        // Act
+        const result = createBalanceCheckpointSchema.safeParse(input);
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should trim the note", () => {
+        // Act
+        const result = createBalanceCheckpointSchema.safeParse({
+          checkpoint_date: "2025-03-01",
+          amount: 100,
+          note: "  bank statement  ",
+        });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.note).toBe("bank statement");
+        }
+      });
+    });
+
+    describe("invalid inputs", () => {
+      it("should reject a missing checkpoint date", () => {
+        // Act
+        const result = createBalanceCheckpointSchema.safeParse({ amount: 100 });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe(
+            "Checkpoint date is required"
+          );
+        }
+      });
+
+      it("should reject an invalid calendar date", () => {
+        expect(
+          createBalanceCheckpointSchema.safeParse({
+            checkpoint_date: "2025-02-30",
+            amount: 100,
+          }).success
+        ).toBe(false);
+      });
+
+      it("should reject more than 2 decimal places", () => {
+        // Act
+        const result = createBalanceCheckpointSchema.safeParse({
+          checkpoint_date: "2025-03-01",
+          amount: 10.005,
+        });
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe(
+            "Amount must have at most 2 decimal places"
+          );
+        }
+      });
+
+      it("should reject notes longer than 500 characters", () => {
+        expect(
+          createBalanceCheckpointSchema.safeParse({
+            checkpoint_date: "2025-03-01",
+            amount: 100,
+            note: "a".repeat(501),
+          }).success
+        ).toBe(false);
+      });
+    });
+  });
 });
 
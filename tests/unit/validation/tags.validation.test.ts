@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { tagListQuerySchema, tagNameSchema, tagNamesSchema } from "@/lib/validation/tags.validation";
+
+describe("tags.validation", () => {
+  // ============================================================================
+  // tagNameSchema
+  // ============================================================================
+  describe("tagNameSchema", () => {
+    it("should normalize a tag", () => {
+      // Act
+      const result = tagNameSchema.safeParse("  Tax  Deductible ");
+
+      // Assert
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toBe("tax deductible");
+      }
+    });
+
+    it("should reject a tag longer than 50 characters", () => {
+      // Act
+      const result = tagNameSchema.safeParse("a".repeat(51));
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe("Tag must be at most 50 characters");
+      }
+    });
+
+    it("should reject a tag with a comma", () => {
+      // Act
+      const result = tagNameSchema.safeParse("food,drinks");
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe("Tag cannot contain a comma");
+      }
+    });
+
+    it("should reject a tag that is not a string", () => {
+      // Act
+      const result = tagNameSchema.safeParse(42);
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe("Tag must be a string");
+      }
+    });
+  });
+
+  // ============================================================================
+  // tagNamesSchema
+  // ============================================================================
+  describe("tagNamesSchema", () => {
+    it("should accept no tags", () => {
+      // Act
+      const result = tagNamesSchema.safeParse([]);
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject more than 20 tags", () => {
+      // Act
+      const result = tagNamesSchema.safeParse(Array.from({ length: 21 }, (_, i) => `tag-${i}`));
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe("At most 20 tags are allowed");
+      }
+    });
+
+    it("should count duplicates once", () => {
+      // Act
+      const result = tagNamesSchema.safeParse(Array.from({ length: 30 }, () => "reimbursable"));
+
+      // Assert
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual(["reimbursable"]);
+      }
+    });
+  });
+
+  // ============================================================================
+  // tagListQuerySchema
+  // ============================================================================
+  describe("tagListQuerySchema", () => {
+    it("should split a comma-separated list", () => {
+      // Act
+      const result = tagListQuerySchema.safeParse("vacation-2026,reimbursable");
+
+      // Assert
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual(["reimbursable", "vacation-2026"]);
+      }
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import { createWalletSchema, updateWalletSchema, walletQuerySchema } from "@/lib/validation/wallets.validation";
+
+const WALLET_ID = "0b8f7a3e-1c2d-4e5f-8a9b-0c1d2e3f4a5b";
+
+describe("wallets.validation", () => {
+  // ============================================================================
+  // createWalletSchema
+  // ============================================================================
+  describe("createWalletSchema", () => {
+    describe("valid inputs", () => {
+      it("should accept a name without starting balance", () => {
+        // Act
+        const result = createWalletSchema.safeParse({ name: "Savings" });
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+
+      it("should trim the name", () => {
+        // Act
+        const result = createWalletSchema.safeParse({ name: "  Business  " });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.name).toBe("Business");
+        }
+      });
+
+      it("should accept a starting balance", () => {
+        // Act
+        const result = createWalletSchema.safeParse({
+          name: "Savings",
+          starting_balance: { effective_date: "2025-01-01", amount: 2500 },
+        });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.starting_balance).toEqual({ effective_date: "2025-01-01", amount: 2500 });
+        }
+      });
+
+      it("should accept a null starting balance", () => {
+        expect(createWalletSchema.safeParse({ name: "Savings", starting_balance: null }).success).toBe(true);
+      });
+
+      it("should accept a currency and uppercase it", () => {
+        // Act
+        const result = createWalletSchema.safeParse({ name: "Euro account", currency: "eur" });
+
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.currency).toBe("EUR");
+        }
+      });
+    });
+
+    describe("invalid inputs", () => {
+      it("should reject a missing name", () => {
+        // Act
+        const result = createWalletSchema.safeParse({});
+
+        // Assert
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe("Name is required");
+        }
+      });
+
+      it("should reject a blank name", () => {
+        expect(createWalletSchema.safeParse({ name: "   " }).success).toBe(false);
+      });
+
+      it("should reject names longer than 100 characters", () => {
+        expect(createWalletSchema.safeParse({ name: "a".repeat(101) }).success).toBe(false);
+      });
+
+      it("should reject an invalid starting balance", () => {
+        // Act
+        const result = createWalletSchema.safeParse({
+          name: "Savings",
+          starting_balance: { effective_date: "2025-02-30", amount: 100 },
+        });
+
+        // Assert
+        expect(result.success).toBe(false);
+      });
+    });
+  });
+
+  // ============================================================================
+  // updateWalletSchema
+  // ============================================================================
+  describe("updateWalletSchema", () => {
+    it("should accept a new name", () => {
+      expect(updateWalletSchema.safeParse({ name: "Checking" }).success).toBe(true);
+    });
+
+    it("should reject a blank name", () => {
+      expect(updateWalletSchema.safeParse({ name: "" }).success).toBe(false);
+    });
+  });
+
+  // ============================================================================
+  // walletQuerySchema
+  // ============================================================================
+  describe("walletQuerySchema", () => {
+    it("should accept a missing wallet", () => {
+      // Act
+      const result = walletQuerySchema.safeParse({});
+
+      // Assert
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.wallet).toBeUndefined();
+      }
+    });
+
+    it("should accept a wallet UUID", () => {
+      expect(walletQuerySchema.safeParse({ wallet: WALLET_ID }).success).toBe(true);
+    });
+
+    it("should reject a wallet that is not a UUID", () => {
+      // Act
+      const result = walletQuerySchema.safeParse({ wallet: "savings" });
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.flatten().fieldErrors.wallet?.[0]).toBe("Wallet must be a valid UUID");
+      }
+    });
+  });
+});